@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, Fragment } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, ChevronDown, ExternalLink, History, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { AuditChangeList } from '@/components/audit';
+import { AUDIT_ENTITY_LABELS, AUDIT_ACTION_LABELS, AUDIT_OPERATION_LABELS } from '@/lib/constants';
+import type { AuditLogFilter, AuditLogPage } from '@/lib/actions/audit';
+import type { AuditLog } from '@/types/database';
+
+interface Props {
+  result: AuditLogPage;
+  filter: AuditLogFilter;
+}
+
+const OPERATION_STYLES: Record<string, string> = {
+  create: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-300',
+  update: 'bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300',
+  delete: 'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300',
+};
+
+// 대상 레코드로 이동 (삭제된 레코드는 링크 없음)
+function getRecordHref(log: AuditLog): string | null {
+  if (log.operation === 'delete') return null;
+  if (log.entity_type === 'customer') return `/customers?customerId=${log.entity_id}`;
+  if (log.entity_type === 'gift_voucher') return '/vouchers';
+  if (log.entity_type === 'user') return '/settings';
+  const date = log.changes.date?.after ?? log.changes.date?.before;
+  if (typeof date !== 'string') return null;
+  const [year, month] = date.split('-').map(Number);
+  if (log.entity_type === 'sale') return `/sales?year=${year}&month=${month}&saleId=${log.entity_id}`;
+  if (log.entity_type === 'expense') return `/expenses?year=${year}&month=${month}&expenseId=${log.entity_id}`;
+  return null;
+}
+
+export function AuditClient({ result, filter }: Props) {
+  const router = useRouter();
+  const [actorQuery, setActorQuery] = useState(filter.actor || '');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const totalPages = Math.max(Math.ceil(result.total / result.pageSize), 1);
+
+  // 필터 변경 시 URL 갱신 (페이지는 1로)
+  const applyFilter = (next: Partial<AuditLogFilter>) => {
+    const merged = { ...filter, page: 1, ...next };
+    const params = new URLSearchParams();
+    if (merged.entityType) params.set('entity', merged.entityType);
+    if (merged.action) params.set('action', merged.action);
+    if (merged.actor) params.set('actor', merged.actor);
+    if (merged.from) params.set('from', merged.from);
+    if (merged.to) params.set('to', merged.to);
+    if (merged.page && merged.page > 1) params.set('page', String(merged.page));
+    const query = params.toString();
+    router.push(query ? `/audit?${query}` : '/audit');
+  };
+
+  const hasActiveFilters = !!(filter.entityType || filter.action || filter.actor || filter.from || filter.to);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold text-foreground tracking-tight">변경 이력</h1>
+        <p className="text-sm text-muted-foreground mt-1">누가 언제 무엇을 바꿨는지 확인하세요</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex gap-3 flex-wrap items-center">
+        <Select
+          value={filter.entityType || 'all'}
+          onValueChange={(value) => applyFilter({ entityType: value === 'all' ? undefined : value as AuditLogFilter['entityType'] })}
+        >
+          <SelectTrigger className="w-auto min-w-[110px] bg-background">
+            <div className="flex items-center gap-1.5">
+              <span className="text-muted-foreground text-xs">대상</span>
+              <SelectValue />
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">전체</SelectItem>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.action || 'all'}
+          onValueChange={(value) => applyFilter({ action: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-auto min-w-[140px] bg-background">
+            <div className="flex items-center gap-1.5">
+              <span className="text-muted-foreground text-xs">작업</span>
+              <SelectValue />
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">전체</SelectItem>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={filter.from || ''}
+          onChange={(e) => applyFilter({ from: e.target.value || undefined })}
+          className="w-[150px] bg-background"
+          aria-label="시작일"
+        />
+        <span className="text-muted-foreground text-sm">~</span>
+        <Input
+          type="date"
+          value={filter.to || ''}
+          onChange={(e) => applyFilter({ to: e.target.value || undefined })}
+          className="w-[150px] bg-background"
+          aria-label="종료일"
+        />
+        <form
+          className="relative"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilter({ actor: actorQuery.trim() || undefined });
+          }}
+        >
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={actorQuery}
+            onChange={(e) => setActorQuery(e.target.value)}
+            placeholder="작업자 이메일"
+            className="pl-9 w-[200px] bg-background"
+            aria-label="작업자 검색"
+          />
+        </form>
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setActorQuery('');
+              router.push('/audit');
+            }}
+          >
+            필터 초기화
+          </Button>
+        )}
+      </div>
+
+      <Card className="overflow-hidden">
+        {result.logs.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[130px]">일시</TableHead>
+                <TableHead>작업자</TableHead>
+                <TableHead>대상</TableHead>
+                <TableHead>작업</TableHead>
+                <TableHead className="text-right">변경 필드</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.logs.map((log) => {
+                const href = getRecordHref(log);
+                const fieldCount = Object.keys(log.changes || {}).length;
+                const isExpanded = expandedId === log.id;
+                return (
+                  <Fragment key={log.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                    >
+                      <TableCell className="text-muted-foreground tabular-nums">
+                        {format(new Date(log.created_at), 'M/d HH:mm:ss', { locale: ko })}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">{log.actor_email || '알 수 없음'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1.5">
+                          <span>{AUDIT_ENTITY_LABELS[log.entity_type]}</span>
+                          {href && (
+                            <Link
+                              href={href}
+                              className="text-brand hover:text-brand/80"
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label="대상 레코드 보기"
+                            >
+                              <ExternalLink className="w-3.5 h-3.5" />
+                            </Link>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1.5">
+                          <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${OPERATION_STYLES[log.operation]}`}>
+                            {AUDIT_OPERATION_LABELS[log.operation]}
+                          </span>
+                          <span className="text-sm">{AUDIT_ACTION_LABELS[log.action] || log.action}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        <span className="inline-flex items-center gap-1">
+                          {fieldCount}개
+                          {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell colSpan={5}>
+                          <AuditChangeList log={log} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center gap-2 py-16 text-center">
+            <History className="w-8 h-8 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">
+              {hasActiveFilters ? '조건에 맞는 변경 이력이 없습니다' : '아직 기록된 변경 이력이 없습니다'}
+            </p>
+          </div>
+        )}
+      </Card>
+
+      {/* Pagination */}
+      {result.total > result.pageSize && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">총 {result.total.toLocaleString()}건</p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={result.page <= 1}
+              onClick={() => applyFilter({ page: result.page - 1 })}
+              aria-label="이전 페이지"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm tabular-nums">{result.page} / {totalPages}</span>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={result.page >= totalPages}
+              onClick={() => applyFilter({ page: result.page + 1 })}
+              aria-label="다음 페이지"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { requirePageAccess } from '@/lib/auth-guard';
+
+export default async function AuditLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requirePageAccess('/audit');
+  return children;
+}
@@ -0,0 +1,27 @@
+import { getAuditLogs } from '@/lib/actions/audit';
+import type { AuditLogFilter } from '@/lib/actions/audit';
+import type { AuditEntityType } from '@/types/database';
+import { AUDIT_ENTITY_LABELS } from '@/lib/constants';
+import { AuditClient } from './audit-client';
+
+export default async function AuditPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ entity?: string; action?: string; actor?: string; from?: string; to?: string; page?: string }>;
+}) {
+  const params = await searchParams;
+
+  // 잘못된 값은 필터에서 제외
+  const filter: AuditLogFilter = {
+    entityType: params.entity && params.entity in AUDIT_ENTITY_LABELS ? params.entity as AuditEntityType : undefined,
+    action: params.action || undefined,
+    actor: params.actor || undefined,
+    from: params.from || undefined,
+    to: params.to || undefined,
+    page: params.page ? Math.max(parseInt(params.page, 10) || 1, 1) : 1,
+  };
+
+  const result = await getAuditLogs(filter);
+
+  return <AuditClient result={result} filter={filter} />;
+}
@@ -10,18 +10,19 @@ import {
   endOfWeek,
   addDays,
   addMonths,
-  subMonths,
   isSameMonth,
+  parseISO,
   isSameDay,
   isToday,
 } from 'date-fns';
 import { ko } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight, Plus, X, Pencil, Trash2, Loader2, ShoppingBag, ExternalLink, BellRing } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, X, Pencil, Trash2, Loader2, ShoppingBag, ExternalLink, BellRing, Truck, Repeat, Wallet, AlertTriangle, CalendarSync, Inbox } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
@@ -41,18 +42,40 @@ import {
 } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
 import { CHANNEL_LABELS } from '@/lib/constants';
+import { getDepositTotal, getReservationBalance } from '@/lib/reservation-deposits';
+import { formatCapacityWarning, getCapacityWarnings, getDayLoadRatio, hasCapacityLimits } from '@/lib/capacity';
+import type { CapacityWarning, ReservationCapacityConfig } from '@/lib/capacity';
 
 import {
-  getReservations,
+  getReservationsInRange,
   createReservation,
   updateReservation,
   deleteReservation,
   convertReservationToSale,
 } from '@/lib/actions/reservations';
+import {
+  createReservationSeries,
+  updateFutureOccurrences,
+  deleteReservationOccurrences,
+} from '@/lib/actions/reservation-series';
+import type { OccurrenceScope } from '@/lib/actions/reservation-series';
+import { getDeliveries } from '@/lib/actions/deliveries';
+import { getReservationCapacity } from '@/lib/actions/reservation-capacity';
+import { getPendingReservationDraftCount } from '@/lib/actions/reservation-import';
 import { getSaleCategories, getPaymentMethods } from '@/lib/actions/sale-settings';
-import type { Reservation, ReservationStatus } from '@/types/database';
+import type { Delivery, Reservation, ReservationStatus } from '@/types/database';
 import { RESERVATION_STATUS } from '@/types/database';
 import type { SaleCategory, PaymentMethod } from '@/lib/actions/sale-settings';
+import { DeliveryBoard } from './components/DeliveryBoard';
+import { DeliveryDialog } from './components/DeliveryDialog';
+import { RecurrenceFields, toRecurrenceRule, EMPTY_RECURRENCE } from './components/RecurrenceFields';
+import type { RecurrenceFormState } from './components/RecurrenceFields';
+import { ReservationSeriesDialog } from './components/ReservationSeriesDialog';
+import { ReservationDepositDialog } from './components/ReservationDepositDialog';
+import { ReservationTimeline } from './components/ReservationTimeline';
+import { CalendarSyncDialog } from './components/CalendarSyncDialog';
+import { ReservationImportDialog } from './components/ReservationImportDialog';
+import { getWeekDates } from '@/lib/calendar-timeline';
 
 function formatCurrency(amount: number): string {
   if (!amount) return '';
@@ -76,13 +99,45 @@ const statusDotColors: Record<ReservationStatus, string> = {
   cancelled: 'bg-muted-foreground',
 };
 
-export function CalendarClient() {
+// 수용량 대비 예약 비율 → 날짜 칸 배경 (1 이상은 초과)
+function getLoadHeatClass(ratio: number | null): string | undefined {
+  if (ratio == null || ratio < 0.5) return undefined;
+  if (ratio > 1) return 'bg-red-500/15';
+  if (ratio >= 0.8) return 'bg-orange-500/15';
+  return 'bg-yellow-500/10';
+}
+
+function showCapacityWarnings(message: string, warnings: CapacityWarning[]) {
+  if (warnings.length === 0) {
+    toast.success(message);
+    return;
+  }
+  toast.warning(`${message} (수용량 초과)`, { description: warnings.map(formatCapacityWarning).join(' · ') });
+}
+
+type SidePanelTab = 'reservations' | 'deliveries';
+type CalendarView = 'month' | 'week' | 'day';
+
+interface Props {
+  canManage: boolean; // 예약 수정/삭제 (manager 이상)
+}
+
+export function CalendarClient({ canManage }: Props) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [panelTab, setPanelTab] = useState<SidePanelTab>('reservations');
+  const [calendarView, setCalendarView] = useState<CalendarView>('month');
+  const [capacityConfig, setCapacityConfig] = useState<ReservationCapacityConfig | null>(null);
+
+  // Delivery dialog
+  const [deliveryDialogOpen, setDeliveryDialogOpen] = useState(false);
+  const [editingDelivery, setEditingDelivery] = useState<Delivery | null>(null);
+  const [deliveryReservation, setDeliveryReservation] = useState<Reservation | null>(null);
 
   // Form states
   const [showForm, setShowForm] = useState(false);
@@ -97,11 +152,21 @@ export function CalendarClient() {
     status: 'pending' as ReservationStatus,
     reminder_date: '',
     reminder_time: '',
+    product_category: '',
   });
   const [isSaving, setIsSaving] = useState(false);
+  // 반복 예약: 새 예약 반복 규칙, 수정 범위 (이 예약만 / 이후 모두)
+  const [recurrence, setRecurrence] = useState<RecurrenceFormState>(EMPTY_RECURRENCE);
+  const [editScope, setEditScope] = useState<OccurrenceScope>('single');
+  const [seriesTarget, setSeriesTarget] = useState<Reservation | null>(null);
+  const [depositTarget, setDepositTarget] = useState<Reservation | null>(null);
+  const [syncDialogOpen, setSyncDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [pendingDraftCount, setPendingDraftCount] = useState(0);
 
   // Delete dialog
   const [deleteTarget, setDeleteTarget] = useState<Reservation | null>(null);
+  const [deleteScope, setDeleteScope] = useState<OccurrenceScope>('single');
   const [isDeleting, setIsDeleting] = useState(false);
 
   // Sale conversion dialog
@@ -120,21 +185,61 @@ export function CalendarClient() {
 
   const monthStr = format(currentMonth, 'yyyy-MM');
 
+  // Calendar grid
+  const calendarDays = useMemo(() => {
+    const monthStart = startOfMonth(currentMonth);
+    const monthEnd = endOfMonth(currentMonth);
+    const calStart = startOfWeek(monthStart, { weekStartsOn: 0 });
+    const calEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
+
+    const days: Date[] = [];
+    let day = calStart;
+    while (day <= calEnd) {
+      days.push(day);
+      day = addDays(day, 1);
+    }
+    return days;
+  }, [currentMonth]);
+
+  // 달력에 보이는 앞뒤 달 날짜까지 조회 (그 달의 어느 주를 주간으로 봐도 빠짐없이)
+  const rangeStart = format(calendarDays[0], 'yyyy-MM-dd');
+  const rangeEnd = format(calendarDays[calendarDays.length - 1], 'yyyy-MM-dd');
+
   const fetchReservations = useCallback(async () => {
     setIsLoading(true);
     try {
-      const data = await getReservations(monthStr);
+      const data = await getReservationsInRange(rangeStart, rangeEnd);
       setReservations(data);
     } catch {
       toast.error('예약 목록을 불러오지 못했습니다');
     }
     setIsLoading(false);
+  }, [rangeStart, rangeEnd]);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setDeliveries(await getDeliveries(monthStr));
+    } catch {
+      toast.error('배송 목록을 불러오지 못했습니다');
+    }
   }, [monthStr]);
 
   useEffect(() => {
     fetchReservations();
   }, [fetchReservations]);
 
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  useEffect(() => {
+    getReservationCapacity()
+      .then(setCapacityConfig)
+      .catch(() => toast.error('예약 수용량 설정을 불러오지 못했습니다'));
+    // 검토 대기 중인 가져온 예약 (실패해도 버튼 숫자만 안 보임)
+    getPendingReservationDraftCount().then(setPendingDraftCount).catch(() => {});
+  }, []);
+
   // URL 파라미터로 매출 등록 모달 자동 오픈 (대시보드에서 연결)
   useEffect(() => {
     const action = searchParams.get('action');
@@ -165,10 +270,10 @@ export function CalendarClient() {
   async function openSaleModal(reservation: Reservation) {
     setSaleTarget(reservation);
     setSaleForm({
-      product_category: '',
+      product_category: reservation.product_category || '',
       amount: reservation.estimated_amount ? String(reservation.estimated_amount) : '',
       payment_method: '',
-      reservation_channel: 'other',
+      reservation_channel: reservation.channel || 'other',
       note: '',
     });
 
@@ -203,6 +308,10 @@ export function CalendarClient() {
       toast.error('금액을 입력해주세요');
       return;
     }
+    if (parseInt(saleForm.amount) < getDepositTotal(saleTarget.deposits ?? [])) {
+      toast.error('금액이 받은 선금보다 작을 수 없습니다');
+      return;
+    }
     if (!saleForm.payment_method) {
       toast.error('결제방식을 선택해주세요');
       return;
@@ -217,7 +326,6 @@ export function CalendarClient() {
     formData.set('payment_method', saleForm.payment_method);
     formData.set('reservation_channel', saleForm.reservation_channel);
     formData.set('note', saleForm.note || '');
-    formData.set('deposit_status', saleForm.payment_method === 'card' ? 'pending' : 'not_applicable');
 
     if (saleTarget.customer_name) {
       formData.set('customer_name', saleTarget.customer_name);
@@ -231,6 +339,7 @@ export function CalendarClient() {
       toast.success('매출이 등록되고 예약이 완료 처리되었습니다');
       setSaleTarget(null);
       fetchReservations();
+      fetchDeliveries();
     } catch (error: unknown) {
       toast.error(error instanceof Error ? error.message : '매출 등록에 실패했습니다');
     }
@@ -238,22 +347,6 @@ export function CalendarClient() {
     setIsSaleSubmitting(false);
   }
 
-  // Calendar grid
-  const calendarDays = useMemo(() => {
-    const monthStart = startOfMonth(currentMonth);
-    const monthEnd = endOfMonth(currentMonth);
-    const calStart = startOfWeek(monthStart, { weekStartsOn: 0 });
-    const calEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
-
-    const days: Date[] = [];
-    let day = calStart;
-    while (day <= calEnd) {
-      days.push(day);
-      day = addDays(day, 1);
-    }
-    return days;
-  }, [currentMonth]);
-
   // Group reservations by date
   const reservationsByDate = useMemo(() => {
     const map = new Map<string, Reservation[]>();
@@ -271,6 +364,28 @@ export function CalendarClient() {
     return reservationsByDate.get(key) || [];
   }, [selectedDate, reservationsByDate]);
 
+  const deliveriesByDate = useMemo(() => {
+    const map = new Map<string, Delivery[]>();
+    for (const d of deliveries) {
+      if (!map.has(d.date)) map.set(d.date, []);
+      map.get(d.date)!.push(d);
+    }
+    return map;
+  }, [deliveries]);
+
+  const selectedDateDeliveries = deliveriesByDate.get(format(selectedDate, 'yyyy-MM-dd')) || [];
+
+  const categoryWorkloads = useMemo(
+    () => Object.fromEntries((capacityConfig?.categories ?? []).map((c) => [c.value, c.workload])),
+    [capacityConfig],
+  );
+
+  function openDeliveryDialog(delivery: Delivery | null, reservation: Reservation | null = null) {
+    setEditingDelivery(delivery);
+    setDeliveryReservation(reservation);
+    setDeliveryDialogOpen(true);
+  }
+
   function resetForm() {
     setFormData({
       title: '',
@@ -282,7 +397,10 @@ export function CalendarClient() {
       status: 'pending',
       reminder_date: '',
       reminder_time: '',
+      product_category: '',
     });
+    setRecurrence(EMPTY_RECURRENCE);
+    setEditScope('single');
     setEditingId(null);
     setShowForm(false);
   }
@@ -299,10 +417,28 @@ export function CalendarClient() {
       status: reservation.status as ReservationStatus,
       reminder_date: reservation.reminder_at ? reservation.reminder_at.slice(0, 10) : '',
       reminder_time: reservation.reminder_at ? reservation.reminder_at.slice(11, 16) : '',
+      product_category: reservation.product_category || '',
     });
+    setEditScope('single');
     setShowForm(true);
   }
 
+  const editingSeriesId = editingId ? reservations.find((r) => r.id === editingId)?.series_id ?? null : null;
+  const isFutureEdit = !!editingSeriesId && editScope === 'future';
+  // 상태/알림은 한 건씩만 설정 (반복 등록·이후 모두 수정 시 숨김)
+  const showOccurrenceFields = !isFutureEdit && (!!editingId || recurrence.frequency === 'none');
+
+  // 입력 중인 예약을 넣었을 때 수용량 초과 항목 (한 건 등록/수정만)
+  const formCapacityWarnings = useMemo(() => {
+    if (!showForm || !showOccurrenceFields || !capacityConfig) return [];
+    return getCapacityWarnings(
+      { id: editingId ?? undefined, time: formData.time || null, status: formData.status, product_category: formData.product_category || null },
+      selectedDateReservations,
+      capacityConfig.capacity,
+      categoryWorkloads,
+    );
+  }, [showForm, showOccurrenceFields, capacityConfig, editingId, formData.time, formData.status, formData.product_category, selectedDateReservations, categoryWorkloads]);
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!formData.title.trim()) {
@@ -320,9 +456,21 @@ export function CalendarClient() {
       reminderAt = `${formData.reminder_date}T${time}:00+09:00`;
     }
 
+    const rule = toRecurrenceRule(recurrence, dateStr);
+
     try {
-      if (editingId) {
-        await updateReservation(editingId, {
+      if (editingId && isFutureEdit) {
+        await updateFutureOccurrences(editingId, {
+          time: formData.time || undefined,
+          customer_name: formData.customer_name,
+          customer_phone: formData.customer_phone || undefined,
+          title: formData.title,
+          description: formData.description || undefined,
+          estimated_amount: formData.estimated_amount ? parseInt(formData.estimated_amount) : 0,
+        });
+        toast.success('이후 반복 예약이 모두 수정되었습니다');
+      } else if (editingId) {
+        const warnings = await updateReservation(editingId, {
           date: dateStr,
           time: formData.time || null,
           customer_name: formData.customer_name,
@@ -332,10 +480,22 @@ export function CalendarClient() {
           estimated_amount: formData.estimated_amount ? parseInt(formData.estimated_amount) : 0,
           status: formData.status,
           reminder_at: reminderAt,
+          product_category: formData.product_category || null,
         });
-        toast.success('예약이 수정되었습니다');
+        showCapacityWarnings('예약이 수정되었습니다', warnings);
+      } else if (rule) {
+        await createReservationSeries({
+          time: formData.time || undefined,
+          customer_name: formData.customer_name,
+          customer_phone: formData.customer_phone || undefined,
+          title: formData.title,
+          description: formData.description || undefined,
+          estimated_amount: formData.estimated_amount ? parseInt(formData.estimated_amount) : undefined,
+          is_subscription: recurrence.is_subscription,
+        }, rule);
+        toast.success('반복 예약이 등록되었습니다');
       } else {
-        await createReservation({
+        const { warnings } = await createReservation({
           date: dateStr,
           time: formData.time || undefined,
           customer_name: formData.customer_name,
@@ -345,8 +505,9 @@ export function CalendarClient() {
           customer_phone: formData.customer_phone || undefined,
           status: formData.status,
           reminder_at: reminderAt,
+          product_category: formData.product_category || null,
         });
-        toast.success('예약이 등록되었습니다');
+        showCapacityWarnings('예약이 등록되었습니다', warnings);
       }
       resetForm();
       fetchReservations();
@@ -356,14 +517,60 @@ export function CalendarClient() {
     setIsSaving(false);
   }
 
+  // 주간/일간 보기에서는 선택한 날짜의 달을 조회
+  function selectDay(day: Date) {
+    setSelectedDate(day);
+    setCurrentMonth(day);
+  }
+
+  function navigate(direction: 1 | -1) {
+    if (calendarView === 'month') {
+      setCurrentMonth(addMonths(currentMonth, direction));
+    } else {
+      selectDay(addDays(selectedDate, calendarView === 'week' ? direction * 7 : direction));
+    }
+  }
+
+  function openTimelineReservation(reservation: Reservation) {
+    selectDay(parseISO(reservation.date));
+    setPanelTab('reservations');
+    if (canManage) startEdit(reservation);
+  }
+
+  // 타임라인 드래그로 날짜/시간 변경
+  async function handleReschedule(reservation: Reservation, date: string, time: string) {
+    if (reservation.date === date && reservation.time?.slice(0, 5) === time) return;
+    setReservations((prev) => prev.map((r) => (r.id === reservation.id ? { ...r, date, time } : r)));
+    try {
+      const warnings = await updateReservation(reservation.id, { date, time });
+      showCapacityWarnings(`${format(parseISO(date), 'M월 d일', { locale: ko })} ${time}로 옮겼습니다`, warnings);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : '예약 변경에 실패했습니다');
+    }
+    fetchReservations();
+  }
+
+  const selectedDateStr = format(selectedDate, 'yyyy-MM-dd');
+  const timelineDates = calendarView === 'week' ? getWeekDates(selectedDateStr) : [selectedDateStr];
+  const calendarTitle = calendarView === 'month'
+    ? format(currentMonth, 'yyyy년 M월', { locale: ko })
+    : calendarView === 'week'
+      ? `${format(parseISO(timelineDates[0]), 'M월 d일', { locale: ko })} – ${format(parseISO(timelineDates[6]), 'M월 d일', { locale: ko })}`
+      : format(selectedDate, 'yyyy년 M월 d일 (EEE)', { locale: ko });
+
   async function handleDelete() {
     if (!deleteTarget) return;
     setIsDeleting(true);
     try {
-      await deleteReservation(deleteTarget.id);
-      toast.success('예약이 삭제되었습니다');
+      if (deleteTarget.series_id) {
+        await deleteReservationOccurrences(deleteTarget.id, deleteScope);
+      } else {
+        await deleteReservation(deleteTarget.id);
+      }
+      toast.success(deleteTarget.series_id && deleteScope === 'future' ? '이후 반복 예약이 삭제되었습니다' : '예약이 삭제되었습니다');
       setDeleteTarget(null);
       fetchReservations();
+      fetchDeliveries();
     } catch (error: unknown) {
       toast.error(error instanceof Error ? error.message : '삭제 실패');
     }
@@ -377,7 +584,20 @@ export function CalendarClient() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-xl font-semibold text-foreground tracking-tight">캘린더</h1>
-          <p className="text-sm text-muted-foreground mt-1">날짜를 눌러서 예약을 추가하고, 상태를 관리할 수 있어요</p>
+          <p className="text-sm text-muted-foreground mt-1">날짜를 눌러서 예약과 배송을 추가하고, 상태를 관리할 수 있어요</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+            <Inbox className="h-3.5 w-3.5 mr-1" />
+            예약 가져오기
+            {pendingDraftCount > 0 && (
+              <span className="ml-1 rounded-full bg-brand px-1.5 text-[10px] font-medium text-brand-foreground tabular-nums">{pendingDraftCount}</span>
+            )}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setSyncDialogOpen(true)}>
+            <CalendarSync className="h-3.5 w-3.5 mr-1" />
+            캘린더 연동
+          </Button>
         </div>
       </div>
 
@@ -386,81 +606,111 @@ export function CalendarClient() {
         <Card className="lg:sticky lg:top-4">
           <CardContent className="p-4">
             {/* Month navigation */}
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-base font-semibold text-foreground">
-                {format(currentMonth, 'yyyy년 M월', { locale: ko })}
-              </h2>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h2 className="text-base font-semibold text-foreground">{calendarTitle}</h2>
               <div className="flex items-center gap-1">
-                <Button variant="ghost" size="icon-sm" onClick={() => setCurrentMonth(subMonths(currentMonth, 1))} aria-label="이전 달">
+                <Tabs value={calendarView} onValueChange={(value) => setCalendarView(value as CalendarView)}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="month" className="text-xs px-2.5">월</TabsTrigger>
+                    <TabsTrigger value="week" className="text-xs px-2.5">주</TabsTrigger>
+                    <TabsTrigger value="day" className="text-xs px-2.5">일</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <Button variant="ghost" size="icon-sm" onClick={() => navigate(-1)} aria-label="이전">
                   <ChevronLeft className="h-4 w-4" />
                 </Button>
-                <Button variant="ghost" size="sm" className="text-xs" onClick={() => { setCurrentMonth(new Date()); setSelectedDate(new Date()); }}>
+                <Button variant="ghost" size="sm" className="text-xs" onClick={() => selectDay(new Date())}>
                   오늘
                 </Button>
-                <Button variant="ghost" size="icon-sm" onClick={() => setCurrentMonth(addMonths(currentMonth, 1))} aria-label="다음 달">
+                <Button variant="ghost" size="icon-sm" onClick={() => navigate(1)} aria-label="다음">
                   <ChevronRight className="h-4 w-4" />
                 </Button>
               </div>
             </div>
 
-            {/* Week day headers */}
-            <div className="grid grid-cols-7">
-              {weekDays.map((day, i) => (
-                <div key={day} className={cn(
-                  'text-center text-xs font-medium py-1.5',
-                  i === 0 ? 'text-red-400' : i === 6 ? 'text-blue-400' : 'text-muted-foreground'
-                )}>
-                  {day}
-                </div>
-              ))}
-            </div>
+            {calendarView === 'month' ? (
+              <>
+              {/* Week day headers */}
+              <div className="grid grid-cols-7">
+                {weekDays.map((day, i) => (
+                  <div key={day} className={cn(
+                    'text-center text-xs font-medium py-1.5',
+                    i === 0 ? 'text-red-400' : i === 6 ? 'text-blue-400' : 'text-muted-foreground'
+                  )}>
+                    {day}
+                  </div>
+                ))}
+              </div>
 
-            {/* Calendar grid */}
-            <div className="grid grid-cols-7 border-t border-border">
-              {calendarDays.map((day) => {
-                const dateKey = format(day, 'yyyy-MM-dd');
-                const dayReservations = reservationsByDate.get(dateKey) || [];
-                const isSelected = isSameDay(day, selectedDate);
-                const isCurrentMonth = isSameMonth(day, currentMonth);
-                const isTodayDate = isToday(day);
-                const dayOfWeek = day.getDay();
-
-                return (
-                  <button
-                    key={dateKey}
-                    onClick={() => setSelectedDate(day)}
-                    className={cn(
-                      'relative aspect-square p-1 border-b border-r border-border text-left transition-colors hover:bg-muted/50 last:border-r-0 [&:nth-child(7n)]:border-r-0',
-                      !isCurrentMonth && 'opacity-30',
-                      isSelected && 'bg-brand-muted/50 hover:bg-brand-muted/50',
-                    )}
-                  >
-                    <span className={cn(
-                      'inline-flex items-center justify-center w-6 h-6 text-xs rounded-full',
-                      isTodayDate && 'bg-brand text-brand-foreground font-semibold',
-                      !isTodayDate && dayOfWeek === 0 && 'text-red-400',
-                      !isTodayDate && dayOfWeek === 6 && 'text-blue-400',
-                      !isTodayDate && isSelected && 'font-semibold text-foreground',
-                    )}>
-                      {format(day, 'd')}
-                    </span>
-                    {dayReservations.length > 0 && (
-                      <div className="flex gap-0.5 mt-0.5 flex-wrap">
-                        {dayReservations.slice(0, 3).map((r) => (
-                          <span
-                            key={r.id}
-                            className={cn('w-1.5 h-1.5 rounded-full', statusDotColors[r.status as ReservationStatus])}
-                          />
-                        ))}
-                        {dayReservations.length > 3 && (
-                          <span className="text-[10px] text-muted-foreground leading-none">+{dayReservations.length - 3}</span>
-                        )}
-                      </div>
-                    )}
-                  </button>
-                );
-              })}
-            </div>
+              {/* Calendar grid */}
+              <div className="grid grid-cols-7 border-t border-border">
+                {calendarDays.map((day) => {
+                  const dateKey = format(day, 'yyyy-MM-dd');
+                  const dayReservations = reservationsByDate.get(dateKey) || [];
+                  const dayDeliveryCount = deliveriesByDate.get(dateKey)?.length ?? 0;
+                  const isSelected = isSameDay(day, selectedDate);
+                  const isCurrentMonth = isSameMonth(day, currentMonth);
+                  const isTodayDate = isToday(day);
+                  const dayOfWeek = day.getDay();
+                  const loadRatio = capacityConfig ? getDayLoadRatio(dayReservations, capacityConfig.capacity, categoryWorkloads) : null;
+
+                  return (
+                    <button
+                      key={dateKey}
+                      onClick={() => setSelectedDate(day)}
+                      className={cn(
+                        'relative aspect-square p-1 border-b border-r border-border text-left transition-colors hover:bg-muted/50 last:border-r-0 [&:nth-child(7n)]:border-r-0',
+                        !isCurrentMonth && 'opacity-30',
+                        getLoadHeatClass(loadRatio),
+                        isSelected && 'bg-brand-muted/50 hover:bg-brand-muted/50',
+                      )}
+                      aria-label={loadRatio != null ? `${format(day, 'M월 d일')} 수용량 ${Math.round(loadRatio * 100)}%` : undefined}
+                    >
+                      <span className={cn(
+                        'inline-flex items-center justify-center w-6 h-6 text-xs rounded-full',
+                        isTodayDate && 'bg-brand text-brand-foreground font-semibold',
+                        !isTodayDate && dayOfWeek === 0 && 'text-red-400',
+                        !isTodayDate && dayOfWeek === 6 && 'text-blue-400',
+                        !isTodayDate && isSelected && 'font-semibold text-foreground',
+                      )}>
+                        {format(day, 'd')}
+                      </span>
+                      {dayReservations.length > 0 && (
+                        <div className="flex gap-0.5 mt-0.5 flex-wrap">
+                          {dayReservations.slice(0, 3).map((r) => (
+                            <span
+                              key={r.id}
+                              className={cn('w-1.5 h-1.5 rounded-full', statusDotColors[r.status as ReservationStatus])}
+                            />
+                          ))}
+                          {dayReservations.length > 3 && (
+                            <span className="text-[10px] text-muted-foreground leading-none">+{dayReservations.length - 3}</span>
+                          )}
+                        </div>
+                      )}
+                      {dayDeliveryCount > 0 && (
+                        <span className="flex items-center gap-0.5 mt-0.5 text-[10px] text-muted-foreground leading-none" aria-label={`배송 ${dayDeliveryCount}건`}>
+                          <Truck className="w-2.5 h-2.5" />
+                          {dayDeliveryCount}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+              </>
+            ) : (
+              <ReservationTimeline
+                dates={timelineDates}
+                reservationsByDate={reservationsByDate}
+                selectedDate={selectedDateStr}
+                statusColors={statusColors}
+                canManage={canManage}
+                onSelectDate={(date) => selectDay(parseISO(date))}
+                onOpenReservation={openTimelineReservation}
+                onReschedule={handleReschedule}
+              />
+            )}
             {/* Status legend */}
             <div className="flex items-center gap-4 mt-3 pt-3 border-t border-border">
               <span className="text-[11px] text-muted-foreground">상태:</span>
@@ -471,6 +721,21 @@ export function CalendarClient() {
                 </div>
               ))}
             </div>
+            {calendarView === 'month' && capacityConfig && hasCapacityLimits(capacityConfig.capacity) && (
+              <div className="flex items-center gap-4 mt-2">
+                <span className="text-[11px] text-muted-foreground">수용량:</span>
+                {[
+                  { label: '50%+', className: 'bg-yellow-500/10' },
+                  { label: '80%+', className: 'bg-orange-500/15' },
+                  { label: '초과', className: 'bg-red-500/15' },
+                ].map((item) => (
+                  <div key={item.label} className="flex items-center gap-1">
+                    <span className={cn('w-3 h-3 rounded-sm border border-border', item.className)} />
+                    <span className="text-[11px] text-muted-foreground">{item.label}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -490,16 +755,37 @@ export function CalendarClient() {
                       : '예약 없음'}
                   </p>
                 </div>
-                <Button size="sm" onClick={() => { resetForm(); setShowForm(true); }}>
-                  <Plus className="h-3.5 w-3.5 mr-1" />
-                  추가
-                </Button>
+                {panelTab === 'reservations' && (
+                  <Button size="sm" onClick={() => { resetForm(); setShowForm(true); }}>
+                    <Plus className="h-3.5 w-3.5 mr-1" />
+                    추가
+                  </Button>
+                )}
               </div>
+              <Tabs value={panelTab} onValueChange={(value) => setPanelTab(value as SidePanelTab)} className="mt-3">
+                <TabsList className="w-full">
+                  <TabsTrigger value="reservations" className="flex-1">예약</TabsTrigger>
+                  <TabsTrigger value="deliveries" className="flex-1">
+                    배송{selectedDateDeliveries.length > 0 ? ` ${selectedDateDeliveries.length}` : ''}
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
             </CardContent>
           </Card>
 
+          {panelTab === 'deliveries' && (
+            <DeliveryBoard
+              date={format(selectedDate, 'yyyy-MM-dd')}
+              deliveries={selectedDateDeliveries}
+              canManage={canManage}
+              onAdd={() => openDeliveryDialog(null)}
+              onEdit={(delivery) => openDeliveryDialog(delivery)}
+              onChanged={fetchDeliveries}
+            />
+          )}
+
           {/* Form */}
-          {showForm && (
+          {panelTab === 'reservations' && showForm && (
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between mb-3">
@@ -509,6 +795,23 @@ export function CalendarClient() {
                   </Button>
                 </div>
                 <form onSubmit={handleSubmit} className="space-y-3">
+                  {editingSeriesId && (
+                    <div className="space-y-1.5">
+                      <Label className="text-xs text-muted-foreground">수정 범위</Label>
+                      <Select value={editScope} onValueChange={(v) => setEditScope(v as OccurrenceScope)}>
+                        <SelectTrigger className="h-8 text-sm w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="single">이 예약만</SelectItem>
+                          <SelectItem value="future">이 예약부터 이후 모두</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {isFutureEdit && (
+                        <p className="text-[10px] text-muted-foreground">매출로 전환된 예약은 바뀌지 않아요. 상태와 알림은 이 예약만 수정에서 바꿀 수 있어요</p>
+                      )}
+                    </div>
+                  )}
                   <div className="space-y-1.5">
                     <Label className="text-xs text-muted-foreground">제목</Label>
                     <Input
@@ -562,48 +865,82 @@ export function CalendarClient() {
                       />
                     </div>
                   </div>
-                  <div className="space-y-1.5">
-                    <Label className="text-xs text-muted-foreground">상태</Label>
-                    <Select value={formData.status} onValueChange={(v) => setFormData({ ...formData, status: v as ReservationStatus })}>
-                      <SelectTrigger className="h-8 text-sm w-full">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {RESERVATION_STATUS.map((s) => (
-                          <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                  {showOccurrenceFields && !!capacityConfig?.categories.length && (
+                    <div className="space-y-1.5">
+                      <Label className="text-xs text-muted-foreground">상품</Label>
+                      <Select
+                        value={formData.product_category || 'none'}
+                        onValueChange={(v) => setFormData({ ...formData, product_category: v === 'none' ? '' : v })}
+                      >
+                        <SelectTrigger className="h-8 text-sm w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">선택 안 함</SelectItem>
+                          {capacityConfig.categories.map((c) => (
+                            <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {formCapacityWarnings.length > 0 && (
+                    <div className="flex gap-2 rounded-md border border-orange-500/30 bg-orange-500/10 px-2.5 py-2 text-xs text-orange-700 dark:text-orange-400">
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-medium">수용량을 넘어요 (저장은 가능)</p>
+                        {formCapacityWarnings.map((w) => (
+                          <p key={w.type}>{formatCapacityWarning(w)}</p>
                         ))}
-                      </SelectContent>
-                    </Select>
-                    <p className="text-[10px] text-muted-foreground">대기 → 확정 → 완료 순으로 변경해주세요</p>
-                  </div>
-                  <div className="space-y-1.5">
-                    <Label className="text-xs text-muted-foreground">
-                      <BellRing className="w-3 h-3 inline mr-1" />
-                      리마인더 알림
-                    </Label>
-                    <div className="grid grid-cols-[1fr_90px] gap-2">
-                      <Input
-                        type="date"
-                        value={formData.reminder_date}
-                        onChange={(e) => setFormData({ ...formData, reminder_date: e.target.value })}
-                        className="h-8 text-sm"
-                        aria-label="리마인더 알림 날짜"
-                      />
-                      <Input
-                        type="time"
-                        value={formData.reminder_time}
-                        onChange={(e) => setFormData({ ...formData, reminder_time: e.target.value })}
-                        className="h-8 text-sm"
-                        aria-label="리마인더 알림 시간"
-                        disabled={!formData.reminder_date}
-                      />
+                      </div>
                     </div>
-                    <p className="text-[10px] text-muted-foreground">
-                      {formData.reminder_date
-                        ? `${formData.reminder_date} ${formData.reminder_time || '08:00'}에 푸시 알림`
-                        : '날짜를 선택하면 해당 시간에 푸시 알림을 받아요 (기본 오전 8시)'}
-                    </p>
-                  </div>
+                  )}
+                  {showOccurrenceFields && (
+                    <>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs text-muted-foreground">상태</Label>
+                        <Select value={formData.status} onValueChange={(v) => setFormData({ ...formData, status: v as ReservationStatus })}>
+                          <SelectTrigger className="h-8 text-sm w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RESERVATION_STATUS.map((s) => (
+                              <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-[10px] text-muted-foreground">대기 → 확정 → 완료 순으로 변경해주세요</p>
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label className="text-xs text-muted-foreground">
+                          <BellRing className="w-3 h-3 inline mr-1" />
+                          리마인더 알림
+                        </Label>
+                        <div className="grid grid-cols-[1fr_90px] gap-2">
+                          <Input
+                            type="date"
+                            value={formData.reminder_date}
+                            onChange={(e) => setFormData({ ...formData, reminder_date: e.target.value })}
+                            className="h-8 text-sm"
+                            aria-label="리마인더 알림 날짜"
+                          />
+                          <Input
+                            type="time"
+                            value={formData.reminder_time}
+                            onChange={(e) => setFormData({ ...formData, reminder_time: e.target.value })}
+                            className="h-8 text-sm"
+                            aria-label="리마인더 알림 시간"
+                            disabled={!formData.reminder_date}
+                          />
+                        </div>
+                        <p className="text-[10px] text-muted-foreground">
+                          {formData.reminder_date
+                            ? `${formData.reminder_date} ${formData.reminder_time || '08:00'}에 푸시 알림`
+                            : '날짜를 선택하면 해당 시간에 푸시 알림을 받아요 (기본 오전 8시)'}
+                        </p>
+                      </div>
+                    </>
+                  )}
                   <div className="space-y-1.5">
                     <Label className="text-xs text-muted-foreground">메모</Label>
                     <textarea
@@ -614,6 +951,9 @@ export function CalendarClient() {
                       className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 focus-visible:border-ring resize-none"
                     />
                   </div>
+                  {!editingId && (
+                    <RecurrenceFields value={recurrence} onChange={setRecurrence} startDate={format(selectedDate, 'yyyy-MM-dd')} />
+                  )}
                   <div className="flex gap-2 pt-1">
                     <Button type="button" variant="outline" size="sm" className="flex-1 h-9" onClick={resetForm}>
                       취소
@@ -629,7 +969,7 @@ export function CalendarClient() {
           )}
 
           {/* Reservation list */}
-          {isLoading ? (
+          {panelTab !== 'reservations' ? null : isLoading ? (
             <div className="space-y-2">
               {[...Array(3)].map((_, i) => (
                 <Card key={i}>
@@ -661,6 +1001,19 @@ export function CalendarClient() {
                           {r.time && (
                             <span className="text-xs text-muted-foreground">{r.time.slice(0, 5)}</span>
                           )}
+                          {r.series_id && (
+                            <button
+                              className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-0.5 transition-colors"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setSeriesTarget(r);
+                              }}
+                              aria-label="반복 예약 보기"
+                            >
+                              <Repeat className="w-3 h-3" />
+                              반복
+                            </button>
+                          )}
                         </div>
                         <p className="text-sm font-medium text-foreground mt-1 truncate">{r.title}</p>
                         {r.customer_name && (
@@ -672,6 +1025,12 @@ export function CalendarClient() {
                         {r.estimated_amount > 0 && (
                           <p className="text-xs text-muted-foreground mt-0.5">{formatCurrency(r.estimated_amount)}</p>
                         )}
+                        {!!r.deposits?.length && (
+                          <p className="text-xs text-muted-foreground mt-0.5 tabular-nums">
+                            선금 {formatCurrency(getDepositTotal(r.deposits))}
+                            {!r.sale_id && ` · 잔금 ${formatCurrency(getReservationBalance(r.estimated_amount, r.deposits)) || '0원'}`}
+                          </p>
+                        )}
                         {r.description && (
                           <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{r.description}</p>
                         )}
@@ -708,15 +1067,42 @@ export function CalendarClient() {
                             매출 확인 <ExternalLink className="w-3 h-3" />
                           </button>
                         )}
+                        {(!!r.deposits?.length || (r.status !== 'cancelled' && !r.sale_id)) && (
+                          <button
+                            className="mt-2 text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDepositTarget(r);
+                            }}
+                          >
+                            <Wallet className="w-3 h-3" />
+                            선금
+                          </button>
+                        )}
+                        {r.status !== 'cancelled' && (
+                          <button
+                            className="mt-2 text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 transition-colors"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setPanelTab('deliveries');
+                              openDeliveryDialog(null, r);
+                            }}
+                          >
+                            <Truck className="w-3 h-3" />
+                            배송 추가
+                          </button>
+                        )}
                       </div>
-                      <div className="flex gap-1 shrink-0">
-                        <Button variant="ghost" size="icon-sm" className="text-muted-foreground hover:text-foreground" onClick={() => startEdit(r)} aria-label="수정">
-                          <Pencil className="h-3.5 w-3.5" />
-                        </Button>
-                        <Button variant="ghost" size="icon-sm" className="text-muted-foreground hover:text-destructive" onClick={() => setDeleteTarget(r)} aria-label="삭제">
-                          <Trash2 className="h-3.5 w-3.5" />
-                        </Button>
-                      </div>
+                      {canManage && (
+                        <div className="flex gap-1 shrink-0">
+                          <Button variant="ghost" size="icon-sm" className="text-muted-foreground hover:text-foreground" onClick={() => startEdit(r)} aria-label="수정">
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button variant="ghost" size="icon-sm" className="text-muted-foreground hover:text-destructive" onClick={() => { setDeleteScope('single'); setDeleteTarget(r); }} aria-label="삭제">
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -730,6 +1116,48 @@ export function CalendarClient() {
         </div>
       </div>
 
+      <DeliveryDialog
+        open={deliveryDialogOpen}
+        onOpenChange={setDeliveryDialogOpen}
+        date={format(selectedDate, 'yyyy-MM-dd')}
+        delivery={editingDelivery}
+        reservations={selectedDateReservations}
+        initialReservation={deliveryReservation}
+        onSuccess={fetchDeliveries}
+      />
+
+      <ReservationSeriesDialog
+        reservation={seriesTarget}
+        canManage={canManage}
+        onOpenChange={(open) => !open && setSeriesTarget(null)}
+        onChanged={fetchReservations}
+      />
+
+      <ReservationDepositDialog
+        reservation={depositTarget}
+        canManage={canManage}
+        onOpenChange={(open) => !open && setDepositTarget(null)}
+        onChanged={fetchReservations}
+      />
+
+      <CalendarSyncDialog
+        open={syncDialogOpen}
+        canManage={canManage}
+        onOpenChange={setSyncDialogOpen}
+        onImported={fetchReservations}
+      />
+
+      <ReservationImportDialog
+        open={importDialogOpen}
+        canManage={canManage}
+        onOpenChange={setImportDialogOpen}
+        onApproved={(message, warnings) => {
+          showCapacityWarnings(message, warnings);
+          fetchReservations();
+        }}
+        onPendingCountChange={setPendingDraftCount}
+      />
+
       {/* Delete confirmation */}
       <Dialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
         <DialogContent>
@@ -739,6 +1167,17 @@ export function CalendarClient() {
               &quot;{deleteTarget?.title}&quot; 예약을 삭제하시겠습니까?
             </DialogDescription>
           </DialogHeader>
+          {deleteTarget?.series_id && (
+            <Select value={deleteScope} onValueChange={(v) => setDeleteScope(v as OccurrenceScope)}>
+              <SelectTrigger className="w-full" aria-label="삭제 범위">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">이 예약만</SelectItem>
+                <SelectItem value="future">이 예약부터 이후 모두 (매출 전환된 예약 제외)</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setDeleteTarget(null)}>취소</Button>
             <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
@@ -808,6 +1247,12 @@ export function CalendarClient() {
                       onChange={(e) => setSaleForm({ ...saleForm, amount: e.target.value })}
                       placeholder="50000"
                     />
+                    {!!saleTarget.deposits?.length && (
+                      <p className="text-[11px] text-muted-foreground tabular-nums">
+                        선금 {formatCurrency(getDepositTotal(saleTarget.deposits))} 차감 → 결제방식으로 받을 잔금{' '}
+                        {formatCurrency(Math.max((parseInt(saleForm.amount) || 0) - getDepositTotal(saleTarget.deposits), 0)) || '0원'}
+                      </p>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-2 gap-3">
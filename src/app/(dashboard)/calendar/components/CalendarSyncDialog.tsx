@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Copy, Loader2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  getCalendarFeedStatus,
+  issueCalendarFeedToken,
+  revokeCalendarFeedToken,
+  importIcsReservations,
+} from '@/lib/actions/calendar-sync';
+import type { CalendarFeedStatus, IcsImportResult } from '@/lib/actions/calendar-sync';
+
+interface CalendarSyncDialogProps {
+  open: boolean;
+  canManage: boolean; // ICS 가져오기 (manager 이상)
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function CalendarSyncDialog({ open, canManage, onOpenChange, onImported }: CalendarSyncDialogProps) {
+  const [status, setStatus] = useState<CalendarFeedStatus | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<IcsImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFeedUrl(null);
+    setImportResult(null);
+    getCalendarFeedStatus()
+      .then(setStatus)
+      .catch(() => toast.error('캘린더 구독 상태를 불러오지 못했습니다'));
+  }, [open]);
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    try {
+      const { url } = await issueCalendarFeedToken();
+      setFeedUrl(url);
+      setStatus({ active: true, created_at: new Date().toISOString(), last_used_at: null });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '구독 URL 발급에 실패했습니다');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    try {
+      await revokeCalendarFeedToken();
+      setFeedUrl(null);
+      setStatus({ active: false, created_at: null, last_used_at: null });
+      toast.success('캘린더 구독을 끊었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '구독 해제에 실패했습니다');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('구독 URL을 복사했습니다');
+    } catch {
+      toast.error('복사에 실패했습니다. 직접 선택해서 복사해주세요');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      const result = await importIcsReservations(await file.text());
+      setImportResult(result);
+      if (result.created > 0) {
+        toast.success(`예약 ${result.created}건을 가져왔습니다`);
+        onImported();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'ICS 가져오기에 실패했습니다');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>캘린더 연동</DialogTitle>
+          <DialogDescription>휴대폰 캘린더에서 예약을 보거나, 다른 캘린더의 일정을 예약으로 가져올 수 있어요</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-foreground">구독 URL</p>
+          <p className="text-xs text-muted-foreground">
+            아이폰: 설정 → 캘린더 → 계정 → 계정 추가 → 기타 → 구독 캘린더 추가 / 구글 캘린더(PC): 다른 캘린더 → URL로 추가.
+            지난 90일부터 1년 뒤까지의 예약이 보이고, 캘린더 앱이 주기적으로 새로 받아와요
+          </p>
+          {!status ? (
+            <Skeleton className="h-9 w-full" />
+          ) : (
+            <>
+              {feedUrl && (
+                <div className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input value={feedUrl} readOnly className="h-8 text-xs font-mono" onFocus={(e) => e.target.select()} aria-label="구독 URL" />
+                    <Button type="button" variant="outline" size="icon-sm" onClick={handleCopy} aria-label="구독 URL 복사">
+                      <Copy className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  <p className="text-[10px] text-destructive">이 URL은 지금만 볼 수 있어요. URL을 아는 사람은 누구나 예약을 볼 수 있으니 공유하지 마세요</p>
+                </div>
+              )}
+              {status.active && !feedUrl && (
+                <p className="text-xs text-muted-foreground">
+                  {status.created_at && `${format(new Date(status.created_at), 'yyyy.M.d')} 발급`}
+                  {status.last_used_at ? ` · 마지막 동기화 ${format(new Date(status.last_used_at), 'M.d HH:mm')}` : ' · 아직 동기화 안 됨'}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button type="button" size="sm" onClick={handleIssue} disabled={isIssuing}>
+                  {isIssuing && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                  {status.active ? 'URL 재발급' : 'URL 발급'}
+                </Button>
+                {status.active && (
+                  <Button type="button" size="sm" variant="outline" onClick={handleRevoke} disabled={isRevoking}>
+                    {isRevoking && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                    구독 끊기
+                  </Button>
+                )}
+              </div>
+              {status.active && !feedUrl && (
+                <p className="text-[10px] text-muted-foreground">재발급하면 이전 URL로 구독한 캘린더는 더 이상 갱신되지 않아요</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm font-medium text-foreground">ICS 파일 가져오기</p>
+            <p className="text-xs text-muted-foreground">
+              다른 캘린더에서 내보낸 .ics 파일의 일정을 예약으로 만들어요. 설명에 &quot;고객: 이름 전화번호&quot; 줄이 있으면 고객 정보로 쓰고, 이미 가져온 일정은 건너뛰어요
+            </p>
+            <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFile} />
+            <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+              {isImporting ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Upload className="h-3.5 w-3.5 mr-1" />}
+              파일 선택
+            </Button>
+            {importResult && (
+              <div className="space-y-2 text-xs">
+                <p className="text-foreground">
+                  {importResult.created}건 추가 · {importResult.skipped}건 중복 건너뜀
+                  {importResult.failed.length > 0 && ` · ${importResult.failed.length}건 실패`}
+                </p>
+                {importResult.failed.length > 0 && (
+                  <ul className="divide-y rounded-lg border max-h-40 overflow-y-auto">
+                    {importResult.failed.map((f, i) => (
+                      <li key={i} className="px-3 py-1.5">
+                        <span className="tabular-nums text-muted-foreground">{f.date}</span> {f.summary}
+                        <span className="block text-destructive">{f.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Loader2, MapPin, Pencil, Phone, Plus, Printer, Trash2, Truck } from 'lucide-react';
+import { toast } from 'sonner';
+import { deleteDelivery, updateDeliveryStatus } from '@/lib/actions/deliveries';
+import { DELIVERY_STATUS_FLOW, formatTimeWindow, sortDeliveriesForRoute, summarizeDeliveries } from '@/lib/deliveries';
+import { DELIVERY_STATUS_LABELS } from '@/lib/constants';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { Delivery, DeliveryStatus } from '@/types/database';
+
+const STATUS_ORDER: DeliveryStatus[] = ['preparing', 'in_transit', 'delivered', 'failed'];
+
+const deliveryStatusColors: Record<DeliveryStatus, string> = {
+  preparing: 'bg-yellow-500/15 text-yellow-700 dark:text-yellow-400 border-yellow-500/30',
+  in_transit: 'bg-blue-500/15 text-blue-700 dark:text-blue-400 border-blue-500/30',
+  delivered: 'bg-sage-muted text-sage border-sage/30',
+  failed: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+interface DeliveryBoardProps {
+  date: string;
+  deliveries: Delivery[];
+  canManage: boolean;
+  onAdd: () => void;
+  onEdit: (delivery: Delivery) => void;
+  onChanged: () => void;
+}
+
+export function DeliveryBoard({ date, deliveries, canManage, onAdd, onEdit, onChanged }: DeliveryBoardProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [failingId, setFailingId] = useState<string | null>(null);
+  const [failureReason, setFailureReason] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { counts, feeTotal } = summarizeDeliveries(deliveries);
+  const sorted = sortDeliveriesForRoute(deliveries);
+
+  const changeStatus = async (delivery: Delivery, status: DeliveryStatus, reason?: string) => {
+    setBusyId(delivery.id);
+    try {
+      await updateDeliveryStatus(delivery.id, status, reason);
+      toast.success(`${delivery.recipient_name} 배송을 ${DELIVERY_STATUS_LABELS[status]}(으)로 바꿨습니다`);
+      setFailingId(null);
+      setFailureReason('');
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '상태 변경에 실패했습니다');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (delivery: Delivery) => {
+    setBusyId(delivery.id);
+    try {
+      await deleteDelivery(delivery.id);
+      toast.success('배송을 삭제했습니다');
+      setDeletingId(null);
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '배송 삭제에 실패했습니다');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-foreground">배송 {deliveries.length}건</p>
+              <p className="text-xs text-muted-foreground mt-0.5 tabular-nums">배송비 {formatCurrency(feeTotal)}</p>
+            </div>
+            <div className="flex gap-1.5">
+              <Button size="sm" variant="outline" asChild>
+                <Link href={`/calendar/route?date=${date}`}>
+                  <Printer className="h-3.5 w-3.5 mr-1" />
+                  경로표
+                </Link>
+              </Button>
+              <Button size="sm" onClick={onAdd}>
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                추가
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-1.5">
+            {STATUS_ORDER.map((status) => (
+              <div key={status} className={cn('rounded border px-2 py-1 text-center', deliveryStatusColors[status])}>
+                <p className="text-[10px]">{DELIVERY_STATUS_LABELS[status]}</p>
+                <p className="text-sm font-semibold tabular-nums">{counts[status]}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {sorted.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground text-sm">
+          이 날짜에 배송이 없습니다
+        </div>
+      ) : (
+        sorted.map((d, index) => (
+          <Card key={d.id}>
+            <CardContent className="p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-semibold text-muted-foreground tabular-nums">{index + 1}</span>
+                    <span className={cn('text-[11px] px-1.5 py-0.5 rounded border font-medium', deliveryStatusColors[d.status])}>
+                      {DELIVERY_STATUS_LABELS[d.status]}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{formatTimeWindow(d.time_from, d.time_to)}</span>
+                  </div>
+                  <p className="text-sm font-medium text-foreground mt-1">{d.recipient_name}</p>
+                  <p className="text-xs text-muted-foreground mt-0.5 flex items-start gap-1">
+                    <MapPin className="w-3 h-3 mt-0.5 shrink-0" />
+                    <span>{d.address}{d.address_detail ? ` ${d.address_detail}` : ''}</span>
+                  </p>
+                  {d.recipient_phone && (
+                    <a href={`tel:${d.recipient_phone}`} className="text-xs text-brand mt-0.5 flex items-center gap-1">
+                      <Phone className="w-3 h-3" />
+                      {d.recipient_phone}
+                    </a>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {[
+                      d.driver && `기사 ${d.driver}`,
+                      d.fee > 0 && formatCurrency(d.fee),
+                      d.reservation?.title ?? d.sale?.product_name,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                  {d.note && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{d.note}</p>}
+                  {d.status === 'failed' && d.failure_reason && (
+                    <p className="text-xs text-destructive mt-1">실패 사유: {d.failure_reason}</p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon-sm" className="text-muted-foreground hover:text-foreground" onClick={() => onEdit(d)} aria-label="배송 수정">
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon-sm" className="text-muted-foreground hover:text-destructive" onClick={() => setDeletingId(d.id)} aria-label="배송 삭제">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {deletingId === d.id ? (
+                <div className="flex items-center justify-between gap-2 rounded-md bg-destructive/10 p-2">
+                  <span className="text-xs text-foreground">배송을 삭제하시겠습니까?</span>
+                  <div className="flex gap-1.5">
+                    <Button size="sm" variant="destructive" className="h-7 text-xs" disabled={busyId === d.id} onClick={() => handleDelete(d)}>
+                      {busyId === d.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      삭제
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setDeletingId(null)}>취소</Button>
+                  </div>
+                </div>
+              ) : failingId === d.id ? (
+                <div className="flex items-center gap-1.5">
+                  <Input
+                    value={failureReason}
+                    onChange={(e) => setFailureReason(e.target.value)}
+                    placeholder="실패 사유 (부재, 주소 오류 등)"
+                    maxLength={200}
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button size="sm" variant="destructive" className="h-7 text-xs shrink-0" disabled={busyId === d.id} onClick={() => changeStatus(d, 'failed', failureReason)}>
+                    실패 처리
+                  </Button>
+                  <Button size="sm" variant="outline" className="h-7 text-xs shrink-0" onClick={() => setFailingId(null)}>취소</Button>
+                </div>
+              ) : (
+                <div className="flex gap-1.5">
+                  {DELIVERY_STATUS_FLOW[d.status].map((next) => (
+                    <Button
+                      key={next}
+                      size="sm"
+                      variant={next === 'failed' ? 'ghost' : 'outline'}
+                      className={cn('h-7 text-xs', next === 'failed' ? 'text-destructive' : 'flex-1')}
+                      disabled={busyId === d.id}
+                      onClick={() => next === 'failed' ? setFailingId(d.id) : changeStatus(d, next)}
+                    >
+                      {busyId === d.id && next !== 'failed' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      {next === 'in_transit' && <Truck className="h-3 w-3 mr-1" />}
+                      {DELIVERY_STATUS_LABELS[next]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
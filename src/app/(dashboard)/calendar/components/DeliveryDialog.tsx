@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AmountInput } from '@/components/ui/amount-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createDelivery, getDeliverySaleOptions, updateDelivery } from '@/lib/actions/deliveries';
+import type { DeliverySaleOption } from '@/lib/actions/deliveries';
+import { formatCurrency } from '@/lib/utils';
+import type { Delivery, Reservation } from '@/types/database';
+
+interface DeliveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  date: string;
+  delivery?: Delivery | null;
+  reservations: Reservation[];
+  // 예약 카드에서 열면 해당 예약을 연결하고 받는 분을 채움
+  initialReservation?: Reservation | null;
+  onSuccess: () => void;
+}
+
+interface DeliveryFormState {
+  link: string; // 'reservation:<id>' | 'sale:<id>'
+  time_from: string;
+  time_to: string;
+  recipient_name: string;
+  recipient_phone: string;
+  address: string;
+  address_detail: string;
+  fee: number;
+  driver: string;
+  note: string;
+}
+
+function getInitialState(delivery?: Delivery | null, reservation?: Reservation | null): DeliveryFormState {
+  if (delivery) {
+    return {
+      link: delivery.reservation_id ? `reservation:${delivery.reservation_id}` : `sale:${delivery.sale_id}`,
+      time_from: delivery.time_from?.slice(0, 5) ?? '',
+      time_to: delivery.time_to?.slice(0, 5) ?? '',
+      recipient_name: delivery.recipient_name,
+      recipient_phone: delivery.recipient_phone ?? '',
+      address: delivery.address,
+      address_detail: delivery.address_detail ?? '',
+      fee: delivery.fee,
+      driver: delivery.driver ?? '',
+      note: delivery.note ?? '',
+    };
+  }
+  return {
+    link: reservation ? `reservation:${reservation.id}` : '',
+    time_from: reservation?.time?.slice(0, 5) ?? '',
+    time_to: '',
+    recipient_name: reservation?.customer_name ?? '',
+    recipient_phone: reservation?.customer_phone ?? '',
+    address: '',
+    address_detail: '',
+    fee: 0,
+    driver: '',
+    note: '',
+  };
+}
+
+export function DeliveryDialog({ open, onOpenChange, date, delivery, reservations, initialReservation, onSuccess }: DeliveryDialogProps) {
+  const [form, setForm] = useState<DeliveryFormState>(() => getInitialState(delivery, initialReservation));
+  const [sales, setSales] = useState<DeliverySaleOption[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEditMode = !!delivery;
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(getInitialState(delivery, initialReservation));
+    setIsSubmitting(false);
+    getDeliverySaleOptions(date)
+      .then(setSales)
+      .catch(() => setSales([]));
+  }, [open, date, delivery, initialReservation]);
+
+  const update = (patch: Partial<DeliveryFormState>) => setForm(prev => ({ ...prev, ...patch }));
+
+  // 연결 대상을 고르면 비어 있는 받는 분 정보를 채움
+  const handleLinkChange = (link: string) => {
+    const [type, id] = link.split(':');
+    const source = type === 'reservation'
+      ? reservations.find((r) => r.id === id)
+      : sales.find((s) => s.id === id);
+    setForm(prev => ({
+      ...prev,
+      link,
+      recipient_name: prev.recipient_name || source?.customer_name || '',
+      recipient_phone: prev.recipient_phone || source?.customer_phone || '',
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const [type, id] = form.link.split(':');
+    setIsSubmitting(true);
+    try {
+      const input = {
+        reservation_id: type === 'reservation' ? id : (isEditMode ? delivery.reservation_id : null),
+        sale_id: type === 'sale' ? id : (isEditMode ? delivery.sale_id : null),
+        date,
+        time_from: form.time_from || null,
+        time_to: form.time_to || null,
+        recipient_name: form.recipient_name,
+        recipient_phone: form.recipient_phone || null,
+        address: form.address,
+        address_detail: form.address_detail || null,
+        fee: form.fee,
+        driver: form.driver || null,
+        note: form.note || null,
+      };
+
+      if (isEditMode) {
+        await updateDelivery(delivery.id, input);
+        toast.success('배송을 수정했습니다');
+      } else {
+        await createDelivery(input);
+        toast.success('배송을 등록했습니다');
+      }
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '배송 저장에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{isEditMode ? '배송 수정' : '배송 등록'}</DialogTitle>
+          <p className="text-sm text-muted-foreground">{date}</p>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label>연결 *</Label>
+            <Select value={form.link} onValueChange={handleLinkChange}>
+              <SelectTrigger className="bg-muted">
+                <SelectValue placeholder="예약 또는 매출 선택" />
+              </SelectTrigger>
+              <SelectContent>
+                {reservations.map((r) => (
+                  <SelectItem key={r.id} value={`reservation:${r.id}`}>
+                    예약 · {r.time ? `${r.time.slice(0, 5)} · ` : ''}{r.title}{r.customer_name ? ` · ${r.customer_name}` : ''}
+                  </SelectItem>
+                ))}
+                {sales.map((s) => (
+                  <SelectItem key={s.id} value={`sale:${s.id}`}>
+                    매출 · {s.product_name} · {formatCurrency(s.amount)}{s.customer_name ? ` · ${s.customer_name}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>받는 분 *</Label>
+              <Input value={form.recipient_name} onChange={(e) => update({ recipient_name: e.target.value })} required maxLength={100} className="bg-muted" />
+            </div>
+            <div className="space-y-2">
+              <Label>연락처</Label>
+              <Input
+                value={form.recipient_phone}
+                onChange={(e) => update({ recipient_phone: e.target.value })}
+                placeholder="010-0000-0000"
+                inputMode="tel"
+                maxLength={20}
+                className="bg-muted"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>주소 *</Label>
+            <Input value={form.address} onChange={(e) => update({ address: e.target.value })} required maxLength={500} placeholder="서울시 ○○구 ○○로 12" className="bg-muted" />
+            <Input value={form.address_detail} onChange={(e) => update({ address_detail: e.target.value })} maxLength={200} placeholder="상세 주소 (동/호수, 공동현관 비밀번호 등)" className="bg-muted" />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>도착 희망 시간</Label>
+              <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-1">
+                <Input type="time" value={form.time_from} onChange={(e) => update({ time_from: e.target.value })} className="bg-muted" aria-label="도착 희망 시작" />
+                <span className="text-muted-foreground text-sm">~</span>
+                <Input type="time" value={form.time_to} onChange={(e) => update({ time_to: e.target.value })} className="bg-muted" aria-label="도착 희망 끝" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>배송비</Label>
+              <AmountInput name="fee" value={form.fee} onChange={(fee) => update({ fee })} className="bg-muted" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>배송 기사</Label>
+            <Input value={form.driver} onChange={(e) => update({ driver: e.target.value })} maxLength={50} placeholder="이름 또는 퀵 업체" className="bg-muted" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>메모</Label>
+            <Input value={form.note} onChange={(e) => update({ note: e.target.value })} maxLength={1000} placeholder="리본 문구, 부재 시 경비실 등" className="bg-muted" />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+            <Button type="submit" disabled={isSubmitting || !form.link}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isSubmitting ? '저장 중...' : '저장'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
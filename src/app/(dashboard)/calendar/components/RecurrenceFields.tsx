@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { RECURRENCE_FREQUENCY_LABELS } from '@/lib/constants';
+import { generateOccurrenceDates, MAX_SERIES_OCCURRENCES } from '@/lib/recurrence';
+import type { RecurrenceFrequency, ReservationSeries } from '@/types/database';
+
+export interface RecurrenceFormState {
+  frequency: RecurrenceFrequency | 'none';
+  end_type: 'date' | 'count';
+  end_date: string;
+  occurrence_count: string;
+  skip_dates: string[];
+  is_subscription: boolean;
+}
+
+export const EMPTY_RECURRENCE: RecurrenceFormState = {
+  frequency: 'none',
+  end_type: 'count',
+  end_date: '',
+  occurrence_count: '4',
+  skip_dates: [],
+  is_subscription: false,
+};
+
+/** 기존 규칙으로 폼 채우기 (from 이후 남은 회차 수를 횟수로) */
+export function recurrenceFromSeries(series: ReservationSeries, from: string): RecurrenceFormState {
+  const remaining = generateOccurrenceDates(series).filter((date) => date >= from).length;
+  return {
+    frequency: series.frequency,
+    end_type: series.end_date ? 'date' : 'count',
+    end_date: series.end_date ?? '',
+    occurrence_count: String(remaining || 1),
+    skip_dates: series.skip_dates.filter((date) => date >= from),
+    is_subscription: series.is_subscription,
+  };
+}
+
+export function toRecurrenceRule(state: RecurrenceFormState, startDate: string) {
+  if (state.frequency === 'none') return null;
+  return {
+    frequency: state.frequency,
+    start_date: startDate,
+    end_date: state.end_type === 'date' ? state.end_date || null : null,
+    occurrence_count: state.end_type === 'count' ? parseInt(state.occurrence_count) || null : null,
+    skip_dates: state.skip_dates,
+  };
+}
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormState;
+  onChange: (value: RecurrenceFormState) => void;
+  startDate: string;
+  allowNone?: boolean;
+}
+
+export function RecurrenceFields({ value, onChange, startDate, allowNone = true }: RecurrenceFieldsProps) {
+  const [skipInput, setSkipInput] = useState('');
+  const update = (patch: Partial<RecurrenceFormState>) => onChange({ ...value, ...patch });
+
+  const rule = toRecurrenceRule(value, startDate);
+  const isComplete = !!rule && (!!rule.end_date || !!rule.occurrence_count);
+  const dates = rule && isComplete ? generateOccurrenceDates(rule) : [];
+
+  const addSkipDate = () => {
+    if (!skipInput || value.skip_dates.includes(skipInput)) return;
+    update({ skip_dates: [...value.skip_dates, skipInput].sort() });
+    setSkipInput('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs text-muted-foreground">반복</Label>
+        <Select value={value.frequency} onValueChange={(v) => update({ frequency: v as RecurrenceFormState['frequency'] })}>
+          <SelectTrigger className="h-8 text-sm w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {allowNone && <SelectItem value="none">반복 안 함</SelectItem>}
+            {Object.entries(RECURRENCE_FREQUENCY_LABELS).map(([v, label]) => (
+              <SelectItem key={v} value={v}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.frequency !== 'none' && (
+        <>
+          <div className="grid grid-cols-[100px_1fr] gap-2">
+            <Select value={value.end_type} onValueChange={(v) => update({ end_type: v as RecurrenceFormState['end_type'] })}>
+              <SelectTrigger className="h-8 text-sm w-full" aria-label="종료 방식">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">횟수</SelectItem>
+                <SelectItem value="date">종료일</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.end_type === 'count' ? (
+              <Input
+                type="number"
+                min={1}
+                max={MAX_SERIES_OCCURRENCES}
+                value={value.occurrence_count}
+                onChange={(e) => update({ occurrence_count: e.target.value })}
+                className="h-8 text-sm"
+                aria-label="반복 횟수"
+              />
+            ) : (
+              <Input
+                type="date"
+                min={startDate}
+                value={value.end_date}
+                onChange={(e) => update({ end_date: e.target.value })}
+                className="h-8 text-sm"
+                aria-label="반복 종료일"
+              />
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">건너뛸 날짜</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                min={startDate}
+                value={skipInput}
+                onChange={(e) => setSkipInput(e.target.value)}
+                className="h-8 text-sm"
+                aria-label="건너뛸 날짜"
+              />
+              <Button type="button" variant="outline" size="icon-sm" onClick={addSkipDate} disabled={!skipInput} aria-label="건너뛸 날짜 추가">
+                <Plus className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            {value.skip_dates.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {value.skip_dates.map((date) => (
+                  <span key={date} className="inline-flex items-center gap-1 rounded border border-border bg-muted px-1.5 py-0.5 text-[11px] tabular-nums">
+                    {date}
+                    <button
+                      type="button"
+                      onClick={() => update({ skip_dates: value.skip_dates.filter((d) => d !== date) })}
+                      aria-label={`${date} 건너뛰기 취소`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Checkbox
+              checked={value.is_subscription}
+              onCheckedChange={(checked) => update({ is_subscription: checked === true })}
+            />
+            정기 구독 (회차별 매출 전환 현황 관리)
+          </label>
+
+          <p className="text-[10px] text-muted-foreground">
+            {!isComplete
+              ? '종료일 또는 반복 횟수를 입력해주세요'
+              : dates.length === 0
+                ? '반복할 날짜가 없습니다'
+                : dates.length > MAX_SERIES_OCCURRENCES
+                  ? `최대 ${MAX_SERIES_OCCURRENCES}회까지 만들 수 있어요`
+                  : `${dates[0]}부터 ${dates[dates.length - 1]}까지 ${dates.length}건이 만들어져요`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AmountInput } from '@/components/ui/amount-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createReservationDeposit, deleteReservationDeposit } from '@/lib/actions/reservation-deposits';
+import { getDepositTotal, getReservationBalance } from '@/lib/reservation-deposits';
+import { PAYMENT_LABELS } from '@/lib/constants';
+import { formatCurrency, getTodayKST } from '@/lib/utils';
+import type { PaymentMethod, Reservation } from '@/types/database';
+
+interface ReservationDepositDialogProps {
+  reservation: Reservation | null;
+  canManage: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export function ReservationDepositDialog({ reservation, canManage, onOpenChange, onChanged }: ReservationDepositDialogProps) {
+  const [amount, setAmount] = useState(0);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | 'kakaopay'>('transfer');
+  const [date, setDate] = useState(getTodayKST());
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const reservationId = reservation?.id ?? null;
+
+  useEffect(() => {
+    if (!reservationId) return;
+    setAmount(0);
+    setPaymentMethod('transfer');
+    setDate(getTodayKST());
+    setNote('');
+  }, [reservationId]);
+
+  const deposits = reservation?.deposits ?? [];
+  const depositTotal = getDepositTotal(deposits);
+  const balance = reservation ? getReservationBalance(reservation.estimated_amount, deposits) : 0;
+  const isLocked = !!reservation?.sale_id || reservation?.status === 'cancelled';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+    setIsSubmitting(true);
+    try {
+      await createReservationDeposit(reservation.id, { amount, payment_method: paymentMethod, date, note: note || null });
+      toast.success(`선금 ${formatCurrency(amount)}을 기록했습니다`);
+      onOpenChange(false);
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '선금 기록에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await deleteReservationDeposit(id);
+      toast.success('선금 기록을 삭제했습니다');
+      onOpenChange(false);
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '선금 삭제에 실패했습니다');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>선금</DialogTitle>
+          <DialogDescription>
+            {reservation?.title} · 예상 {formatCurrency(reservation?.estimated_amount ?? 0)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 text-center">
+          <div className="rounded border border-border px-2 py-1.5">
+            <p className="text-[11px] text-muted-foreground">받은 선금</p>
+            <p className="text-sm font-semibold tabular-nums">{formatCurrency(depositTotal)}</p>
+          </div>
+          <div className="rounded border border-border px-2 py-1.5">
+            <p className="text-[11px] text-muted-foreground">남은 잔금</p>
+            <p className="text-sm font-semibold tabular-nums">{formatCurrency(balance)}</p>
+          </div>
+        </div>
+
+        {deposits.length > 0 && (
+          <ul className="divide-y rounded-lg border">
+            {deposits.map((d) => (
+              <li key={d.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="tabular-nums">
+                    {formatCurrency(d.amount)} <span className="text-xs text-muted-foreground">{PAYMENT_LABELS[d.payment_method]}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {d.date}{d.note ? ` · ${d.note}` : ''}{d.sale_id ? ' · 매출 반영됨' : ''}
+                  </p>
+                </div>
+                {canManage && !d.sale_id && (
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="text-muted-foreground hover:text-destructive shrink-0"
+                    disabled={deletingId === d.id}
+                    onClick={() => handleDelete(d.id)}
+                    aria-label="선금 삭제"
+                  >
+                    {deletingId === d.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isLocked ? (
+          <p className="text-xs text-muted-foreground">
+            {reservation?.sale_id ? '매출로 전환된 예약이라 선금을 더 받을 수 없어요' : '취소된 예약입니다'}
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3 border-t pt-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">금액 *</Label>
+                <AmountInput name="deposit_amount" value={amount} onChange={setAmount} />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">결제방식 *</Label>
+                <Select value={paymentMethod} onValueChange={(v) => setPaymentMethod(v as PaymentMethod | 'kakaopay')}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">받은 날</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">메모</Label>
+                <Input value={note} onChange={(e) => setNote(e.target.value)} maxLength={200} placeholder="계약금 등" />
+              </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground">선금은 매출 등록 시 금액에서 차감되고, 매출일에 받은 결제방식으로 집계돼요</p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>닫기</Button>
+              <Button type="submit" disabled={isSubmitting || amount <= 0}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                선금 기록
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
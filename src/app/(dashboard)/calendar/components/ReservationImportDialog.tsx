@@ -0,0 +1,389 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertTriangle, Check, Loader2, Pencil, Upload, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { cn, formatCurrency } from '@/lib/utils';
+import { CHANNEL_LABELS } from '@/lib/constants';
+import { DUPLICATE_REASON_LABELS } from '@/lib/reservation-import';
+import type { CapacityWarning } from '@/lib/capacity';
+import {
+  approveReservationDraft,
+  getReservationDrafts,
+  importKakaoOrders,
+  importNaverBookingCsv,
+  rejectReservationDraft,
+} from '@/lib/actions/reservation-import';
+import type {
+  ReservationDraftEdits,
+  ReservationDraftImportResult,
+  ReservationDraftReview,
+} from '@/lib/actions/reservation-import';
+
+const KAKAO_PLACEHOLDER = `성함: 홍길동
+연락처: 010-1234-5678
+픽업 날짜: 2/14 (토)
+픽업 시간: 오후 3시
+상품: 꽃다발 5만원
+요청사항: 빨간 장미 위주로
+
+여러 건은 --- 줄로 나눠서 붙여넣어 주세요`;
+
+interface DraftForm {
+  date: string;
+  time: string;
+  customer_name: string;
+  customer_phone: string;
+  title: string;
+  amount: string;
+  description: string;
+}
+
+function toForm(draft: ReservationDraftReview): DraftForm {
+  return {
+    date: draft.date ?? '',
+    time: draft.time ?? '',
+    customer_name: draft.customer_name ?? '',
+    customer_phone: draft.customer_phone ?? '',
+    title: draft.title ?? '',
+    amount: draft.estimated_amount ? String(draft.estimated_amount) : '',
+    description: draft.description ?? '',
+  };
+}
+
+function toEdits(form: DraftForm): ReservationDraftEdits {
+  return {
+    date: form.date,
+    time: form.time || undefined,
+    customer_name: form.customer_name.trim(),
+    customer_phone: form.customer_phone.trim() || undefined,
+    title: form.title.trim(),
+    description: form.description.trim() || undefined,
+    estimated_amount: Number(form.amount.replace(/\D/g, '')) || 0,
+  };
+}
+
+interface ReservationImportDialogProps {
+  open: boolean;
+  canManage: boolean; // 네이버 예약 CSV 가져오기 (manager 이상)
+  onOpenChange: (open: boolean) => void;
+  onApproved: (message: string, warnings: CapacityWarning[]) => void;
+  onPendingCountChange: (count: number) => void;
+}
+
+export function ReservationImportDialog({
+  open,
+  canManage,
+  onOpenChange,
+  onApproved,
+  onPendingCountChange,
+}: ReservationImportDialogProps) {
+  const [drafts, setDrafts] = useState<ReservationDraftReview[] | null>(null);
+  const [kakaoText, setKakaoText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ReservationDraftImportResult | null>(null);
+  const [forms, setForms] = useState<Record<string, DraftForm>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [rawId, setRawId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isBulkApproving, setIsBulkApproving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      const data = await getReservationDrafts();
+      setDrafts(data);
+      setForms((prev) => Object.fromEntries(data.map((d) => [d.id, prev[d.id] ?? toForm(d)])));
+    } catch {
+      toast.error('가져온 예약 목록을 불러오지 못했습니다');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setImportResult(null);
+    setEditingId(null);
+    fetchDrafts();
+  }, [open, fetchDrafts]);
+
+  useEffect(() => {
+    if (drafts) onPendingCountChange(drafts.length);
+  }, [drafts, onPendingCountChange]);
+
+  const runImport = async (task: () => Promise<ReservationDraftImportResult>) => {
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      const result = await task();
+      setImportResult(result);
+      if (result.created > 0) toast.success(`${result.created}건을 검토 목록에 추가했습니다`);
+      await fetchDrafts();
+      return result;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '가져오기에 실패했습니다');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleKakaoImport = async () => {
+    const result = await runImport(() => importKakaoOrders(kakaoText));
+    if (result) setKakaoText('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    await runImport(async () => importNaverBookingCsv(await file.text()));
+  };
+
+  const removeDraft = (id: string) => {
+    setDrafts((prev) => (prev ?? []).filter((d) => d.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const approve = async (draft: ReservationDraftReview) => {
+    const result = await approveReservationDraft(draft.id, toEdits(forms[draft.id] ?? toForm(draft)));
+    removeDraft(draft.id);
+    return result;
+  };
+
+  const handleApprove = async (draft: ReservationDraftReview) => {
+    setBusyId(draft.id);
+    try {
+      const { warnings } = await approve(draft);
+      onApproved('가져온 예약을 등록했습니다', warnings);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '승인에 실패했습니다');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (draft: ReservationDraftReview) => {
+    setBusyId(draft.id);
+    try {
+      await rejectReservationDraft(draft.id);
+      removeDraft(draft.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '거절에 실패했습니다');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // 고칠 항목도, 중복 의심도 없는 초안만 한 번에 승인
+  const readyDrafts = (drafts ?? []).filter((d) => d.issues.length === 0 && !d.duplicate);
+
+  const handleApproveAll = async () => {
+    setIsBulkApproving(true);
+    let approved = 0;
+    const warnings: CapacityWarning[] = [];
+    for (const draft of readyDrafts) {
+      try {
+        const result = await approve(draft);
+        approved += 1;
+        warnings.push(...result.warnings);
+      } catch (error) {
+        toast.error(`${draft.customer_name ?? '예약'}: ${error instanceof Error ? error.message : '승인 실패'}`);
+      }
+    }
+    if (approved > 0) onApproved(`가져온 예약 ${approved}건을 등록했습니다`, warnings);
+    setIsBulkApproving(false);
+  };
+
+  const updateForm = (id: string, patch: Partial<DraftForm>) => {
+    setForms((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const renderEditForm = (draft: ReservationDraftReview) => {
+    const form = forms[draft.id] ?? toForm(draft);
+    return (
+      <div className="grid grid-cols-2 gap-2 pt-2">
+        <Input type="date" value={form.date} onChange={(e) => updateForm(draft.id, { date: e.target.value })} className="h-8 text-xs" aria-label="날짜" />
+        <Input type="time" value={form.time} onChange={(e) => updateForm(draft.id, { time: e.target.value })} className="h-8 text-xs" aria-label="시간" />
+        <Input value={form.customer_name} onChange={(e) => updateForm(draft.id, { customer_name: e.target.value })} placeholder="고객명" className="h-8 text-xs" />
+        <Input value={form.customer_phone} onChange={(e) => updateForm(draft.id, { customer_phone: e.target.value })} placeholder="연락처" className="h-8 text-xs" />
+        <Input value={form.title} onChange={(e) => updateForm(draft.id, { title: e.target.value })} placeholder="상품" className="h-8 text-xs" />
+        <Input value={form.amount} onChange={(e) => updateForm(draft.id, { amount: e.target.value })} placeholder="예상 금액" inputMode="numeric" className="h-8 text-xs" />
+        <Textarea
+          value={form.description}
+          onChange={(e) => updateForm(draft.id, { description: e.target.value })}
+          placeholder="메모"
+          rows={2}
+          className="col-span-2 text-xs"
+        />
+      </div>
+    );
+  };
+
+  const renderDraft = (draft: ReservationDraftReview) => {
+    const form = forms[draft.id] ?? toForm(draft);
+    const isBusy = busyId === draft.id || isBulkApproving;
+    const dateLabel = form.date ? format(parseISO(form.date), 'M.d (EEE)', { locale: ko }) : '날짜 미정';
+    return (
+      <li key={draft.id} className="px-3 py-2 space-y-1">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0 text-xs">
+            <div className="flex flex-wrap items-center gap-1">
+              <Badge variant="outline" className="text-[10px]">{CHANNEL_LABELS[draft.source]}</Badge>
+              {draft.external_ref && <span className="text-[10px] text-muted-foreground">#{draft.external_ref}</span>}
+              {draft.reservation_status === 'confirmed' && <span className="text-[10px] text-muted-foreground">확정</span>}
+            </div>
+            <p className="mt-1 font-medium text-foreground">
+              <span className="tabular-nums">{dateLabel} {form.time}</span> · {form.title || '(상품 없음)'}
+            </p>
+            <p className="text-muted-foreground">
+              {form.customer_name || '(고객명 없음)'} {form.customer_phone}
+              {Number(form.amount) > 0 && ` · ${formatCurrency(Number(form.amount))}`}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-1">
+            <Button type="button" variant="ghost" size="icon-sm" onClick={() => setEditingId(editingId === draft.id ? null : draft.id)} aria-label="수정">
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon-sm" onClick={() => handleReject(draft)} disabled={isBusy} aria-label="거절">
+              <X className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={draft.duplicate ? 'outline' : 'default'}
+              className="h-7 text-xs"
+              onClick={() => handleApprove(draft)}
+              disabled={isBusy}
+            >
+              {busyId === draft.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+              {draft.duplicate ? '그래도 승인' : '승인'}
+            </Button>
+          </div>
+        </div>
+
+        {draft.duplicate && (
+          <p className="flex items-start gap-1 text-[11px] text-orange-600 dark:text-orange-400">
+            <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+            <span>
+              중복 의심 ({DUPLICATE_REASON_LABELS[draft.duplicate.reason]}):{' '}
+              {format(parseISO(draft.duplicate.reservation.date), 'M.d')} {draft.duplicate.reservation.time?.slice(0, 5)}{' '}
+              {draft.duplicate.reservation.customer_name} · {draft.duplicate.reservation.title}
+            </span>
+          </p>
+        )}
+        {draft.issues.length > 0 && editingId !== draft.id && (
+          <p className="text-[11px] text-destructive">{draft.issues.join(' · ')} — 수정 후 승인해주세요</p>
+        )}
+        {editingId === draft.id && renderEditForm(draft)}
+
+        <button
+          type="button"
+          className="text-[10px] text-muted-foreground underline-offset-2 hover:underline"
+          onClick={() => setRawId(rawId === draft.id ? null : draft.id)}
+        >
+          {rawId === draft.id ? '원문 닫기' : '원문 보기'}
+        </button>
+        {rawId === draft.id && (
+          <pre className="whitespace-pre-wrap rounded bg-muted/50 p-2 text-[10px] text-muted-foreground">{draft.raw_text}</pre>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>예약 가져오기</DialogTitle>
+          <DialogDescription>카카오톡 주문서나 네이버 예약 내보내기 파일을 읽어서, 확인 후 예약으로 등록해요</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="kakaotalk">
+          <TabsList className="h-8">
+            <TabsTrigger value="kakaotalk" className="text-xs">카카오톡 주문서</TabsTrigger>
+            <TabsTrigger value="naver_booking" className="text-xs">네이버 예약 CSV</TabsTrigger>
+          </TabsList>
+          <TabsContent value="kakaotalk" className="space-y-2 pt-2">
+            <Textarea
+              value={kakaoText}
+              onChange={(e) => setKakaoText(e.target.value)}
+              placeholder={KAKAO_PLACEHOLDER}
+              rows={7}
+              className="text-xs"
+            />
+            <Button type="button" size="sm" onClick={handleKakaoImport} disabled={isImporting || !kakaoText.trim()}>
+              {isImporting && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              주문서 읽기
+            </Button>
+          </TabsContent>
+          <TabsContent value="naver_booking" className="space-y-2 pt-2">
+            <p className="text-xs text-muted-foreground">
+              스마트플레이스 → 예약 → 예약자 관리에서 내려받은 CSV 파일을 선택하세요. 취소된 예약과 이미 가져온 예약번호는 건너뛰어요
+            </p>
+            {canManage ? (
+              <>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+                <Button type="button" size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                  {isImporting ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Upload className="h-3.5 w-3.5 mr-1" />}
+                  파일 선택
+                </Button>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">CSV 가져오기는 매니저 이상만 할 수 있어요</p>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {importResult && (
+          <div className="space-y-2 text-xs">
+            <p className="text-foreground">
+              {importResult.created}건 검토 목록에 추가
+              {importResult.skipped.length > 0 && ` · ${importResult.skipped.length}건 건너뜀`}
+            </p>
+            {importResult.skipped.length > 0 && (
+              <ul className="divide-y rounded-lg border max-h-32 overflow-y-auto">
+                {importResult.skipped.map((s, i) => (
+                  <li key={i} className="px-3 py-1.5">
+                    {s.label} <span className="text-muted-foreground">— {s.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-foreground">
+              검토 대기 {drafts && drafts.length > 0 && <span className="text-muted-foreground">{drafts.length}건</span>}
+            </p>
+            {readyDrafts.length > 1 && (
+              <Button type="button" size="sm" variant="outline" className="h-7 text-xs" onClick={handleApproveAll} disabled={isBulkApproving}>
+                {isBulkApproving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                문제 없는 {readyDrafts.length}건 모두 승인
+              </Button>
+            )}
+          </div>
+          {!drafts ? (
+            <Skeleton className="h-16 w-full" />
+          ) : drafts.length === 0 ? (
+            <p className="text-xs text-muted-foreground">검토할 예약이 없어요</p>
+          ) : (
+            <ul className={cn('divide-y rounded-lg border', isBulkApproving && 'opacity-60')}>
+              {drafts.map(renderDraft)}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
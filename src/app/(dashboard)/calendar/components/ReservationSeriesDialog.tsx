@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { changeSeriesFromOccurrence, getReservationSeries } from '@/lib/actions/reservation-series';
+import type { ReservationSeriesDetail } from '@/lib/actions/reservation-series';
+import { RECURRENCE_FREQUENCY_LABELS } from '@/lib/constants';
+import { cn, formatCurrency } from '@/lib/utils';
+import { RESERVATION_STATUS } from '@/types/database';
+import type { Reservation } from '@/types/database';
+import { RecurrenceFields, recurrenceFromSeries, toRecurrenceRule, EMPTY_RECURRENCE } from './RecurrenceFields';
+import type { RecurrenceFormState } from './RecurrenceFields';
+
+interface ReservationSeriesDialogProps {
+  reservation: Reservation | null; // 카드에서 연 회차 (규칙 변경 기준일)
+  canManage: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export function ReservationSeriesDialog({ reservation, canManage, onOpenChange, onChanged }: ReservationSeriesDialogProps) {
+  const [detail, setDetail] = useState<ReservationSeriesDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [rule, setRule] = useState<RecurrenceFormState>(EMPTY_RECURRENCE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const seriesId = reservation?.series_id ?? null;
+
+  useEffect(() => {
+    if (!seriesId) return;
+    setDetail(null);
+    setIsEditing(false);
+    setIsLoading(true);
+    getReservationSeries(seriesId)
+      .then(setDetail)
+      .catch((error) => toast.error(error instanceof Error ? error.message : '반복 예약을 불러오지 못했습니다'))
+      .finally(() => setIsLoading(false));
+  }, [seriesId]);
+
+  const startEdit = () => {
+    if (!detail || !reservation) return;
+    setRule(recurrenceFromSeries(detail.series, reservation.date));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!detail || !reservation) return;
+    const next = toRecurrenceRule(rule, reservation.date);
+    if (!next) return;
+    const { series } = detail;
+    setIsSaving(true);
+    try {
+      await changeSeriesFromOccurrence(
+        reservation.id,
+        {
+          title: series.title,
+          customer_name: series.customer_name,
+          customer_phone: series.customer_phone ?? undefined,
+          time: series.time?.slice(0, 5) ?? undefined,
+          description: series.description ?? undefined,
+          estimated_amount: series.estimated_amount,
+          is_subscription: rule.is_subscription,
+        },
+        { frequency: next.frequency, end_date: next.end_date, occurrence_count: next.occurrence_count, skip_dates: next.skip_dates },
+      );
+      toast.success(`${reservation.date}부터 반복 규칙을 바꿨습니다`);
+      onOpenChange(false);
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '반복 규칙 변경에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const series = detail?.series;
+  const billing = detail?.billing;
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-4 w-4" />
+            {series?.is_subscription ? '정기 구독' : '반복 예약'}
+          </DialogTitle>
+          <DialogDescription>
+            {series
+              ? `${RECURRENCE_FREQUENCY_LABELS[series.frequency]} · ${series.start_date} ~ ${series.end_date ?? `${series.occurrence_count}회`}${series.skip_dates.length > 0 ? ` · ${series.skip_dates.length}일 건너뜀` : ''}`
+              : '불러오는 중...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail || !billing ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-1.5 text-center">
+              {[
+                { label: '매출 전환', value: billing.converted },
+                { label: '예정', value: billing.upcoming },
+                { label: '미전환', value: billing.missed },
+                { label: '취소', value: billing.cancelled },
+              ].map((item) => (
+                <div key={item.label} className={cn('rounded border border-border px-2 py-1', item.label === '미전환' && item.value > 0 && 'border-destructive/30 bg-destructive/10 text-destructive')}>
+                  <p className="text-[10px]">{item.label}</p>
+                  <p className="text-sm font-semibold tabular-nums">{item.value}</p>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+              <span>예상 {formatCurrency(billing.expectedAmount)}</span>
+              <span>매출 {formatCurrency(billing.billedAmount)}</span>
+            </div>
+
+            <ul className="divide-y rounded-lg border max-h-60 overflow-y-auto">
+              {detail.occurrences.map((o) => (
+                <li key={o.id} className={cn('flex items-center justify-between gap-2 px-3 py-1.5 text-xs', o.id === reservation?.id && 'bg-brand-muted/50')}>
+                  <span className="tabular-nums">{o.date}</span>
+                  <span className="text-muted-foreground">{RESERVATION_STATUS.find((s) => s.value === o.status)?.label}</span>
+                  <span className={cn('tabular-nums', o.sale_id ? 'text-sage font-medium' : 'text-muted-foreground')}>
+                    {o.sale_id ? formatCurrency(o.sale_amount ?? 0) : '-'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {canManage && reservation && (
+              isEditing ? (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <p className="text-xs font-medium text-foreground">{reservation.date}부터 규칙 변경</p>
+                  <RecurrenceFields value={rule} onChange={setRule} startDate={reservation.date} allowNone={false} />
+                  <p className="text-[10px] text-muted-foreground">매출로 전환된 회차는 그대로 두고, 나머지 이후 회차를 새 규칙으로 다시 만들어요</p>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => setIsEditing(false)}>취소</Button>
+                    <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+                      {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                      저장
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button type="button" variant="outline" size="sm" className="w-full" onClick={startEdit}>
+                  이 회차부터 반복 규칙 변경
+                </Button>
+              )
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
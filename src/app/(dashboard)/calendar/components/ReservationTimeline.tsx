@@ -0,0 +1,202 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format, isToday, parseISO } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import {
+  getTimelineHourRange,
+  layoutTimelineEvents,
+  minutesToTime,
+  snapTimelineMinutes,
+  TIMELINE_EVENT_MINUTES,
+  TIMELINE_SNAP_MINUTES,
+} from '@/lib/calendar-timeline';
+import type { Reservation, ReservationStatus } from '@/types/database';
+
+const HOUR_HEIGHT = 48; // px
+
+interface ReservationTimelineProps {
+  dates: string[]; // 일간 1일, 주간 7일
+  reservationsByDate: Map<string, Reservation[]>;
+  selectedDate: string;
+  statusColors: Record<ReservationStatus, string>;
+  canManage: boolean;
+  onSelectDate: (date: string) => void;
+  onOpenReservation: (reservation: Reservation) => void;
+  onReschedule: (reservation: Reservation, date: string, time: string) => void;
+}
+
+// 매출로 전환됐거나 끝난 예약은 옮기지 않음
+function isMovable(reservation: Reservation): boolean {
+  return !reservation.sale_id && reservation.status !== 'completed' && reservation.status !== 'cancelled';
+}
+
+export function ReservationTimeline({
+  dates,
+  reservationsByDate,
+  selectedDate,
+  statusColors,
+  canManage,
+  onSelectDate,
+  onOpenReservation,
+  onReschedule,
+}: ReservationTimelineProps) {
+  const [dragging, setDragging] = useState<Reservation | null>(null);
+  const [dropPreview, setDropPreview] = useState<{ date: string; minutes: number } | null>(null);
+
+  const columns = useMemo(
+    () => dates.map((date) => {
+      const items = reservationsByDate.get(date) ?? [];
+      return { date, events: layoutTimelineEvents(items), untimed: items.filter((r) => !r.time) };
+    }),
+    [dates, reservationsByDate],
+  );
+
+  const range = useMemo(
+    () => getTimelineHourRange(dates.flatMap((date) => (reservationsByDate.get(date) ?? []).map((r) => r.time))),
+    [dates, reservationsByDate],
+  );
+  const hours = Array.from({ length: range.endHour - range.startHour }, (_, i) => range.startHour + i);
+  const hasUntimed = columns.some((c) => c.untimed.length > 0);
+
+  const getDropMinutes = (e: React.DragEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = range.startHour * 60 + ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+    return snapTimelineMinutes(minutes, range);
+  };
+
+  const handleDragStart = (e: React.DragEvent, reservation: Reservation) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', reservation.id); // Firefox는 데이터가 있어야 드래그 시작
+    setDragging(reservation);
+  };
+
+  const handleDragEnd = () => {
+    setDragging(null);
+    setDropPreview(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, date: string) => {
+    e.preventDefault();
+    if (dragging) onReschedule(dragging, date, minutesToTime(getDropMinutes(e)));
+    handleDragEnd();
+  };
+
+  const gridTemplateColumns = `44px repeat(${dates.length}, minmax(${dates.length > 1 ? '88px' : '0'}, 1fr))`;
+
+  const renderCard = (reservation: Reservation, className?: string, style?: React.CSSProperties) => {
+    const movable = canManage && isMovable(reservation);
+    return (
+      <button
+        key={reservation.id}
+        type="button"
+        draggable={movable}
+        onDragStart={(e) => handleDragStart(e, reservation)}
+        onDragEnd={handleDragEnd}
+        onClick={() => onOpenReservation(reservation)}
+        className={cn(
+          'rounded border px-1 py-0.5 text-left text-[11px] leading-tight overflow-hidden',
+          statusColors[reservation.status],
+          movable ? 'cursor-move' : 'cursor-pointer',
+          dragging?.id === reservation.id && 'opacity-50',
+          className,
+        )}
+        style={style}
+        title={`${reservation.time?.slice(0, 5) ?? '시간 미정'} ${reservation.title} · ${reservation.customer_name}`}
+      >
+        <span className="font-medium tabular-nums">{reservation.time?.slice(0, 5)}</span> {reservation.title}
+        <span className="block truncate opacity-80">{reservation.customer_name}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-fit" style={{ gridTemplateColumns }}>
+        {/* 날짜 헤더 */}
+        <div />
+        {dates.map((date) => {
+          const day = parseISO(date);
+          return (
+            <button
+              key={date}
+              type="button"
+              onClick={() => onSelectDate(date)}
+              className={cn(
+                'py-1.5 text-center text-xs border-b border-border transition-colors hover:bg-muted/50',
+                date === selectedDate && 'bg-brand-muted/50',
+                day.getDay() === 0 && 'text-red-400',
+                day.getDay() === 6 && 'text-blue-400',
+              )}
+            >
+              <span className={cn('font-medium', isToday(day) && 'text-brand')}>{format(day, 'd일 (EEE)', { locale: ko })}</span>
+            </button>
+          );
+        })}
+
+        {/* 시간 미정 예약 */}
+        {hasUntimed && (
+          <>
+            <div className="py-1 pr-1 text-right text-[10px] text-muted-foreground border-b border-border">미정</div>
+            {columns.map((column) => (
+              <div key={column.date} className="flex flex-col gap-0.5 p-0.5 border-b border-l border-border">
+                {column.untimed.map((r) => renderCard(r))}
+              </div>
+            ))}
+          </>
+        )}
+
+        {/* 시간 축 */}
+        <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+          {hours.map((hour, i) => (
+            <span key={hour} className="absolute right-1 -translate-y-1/2 text-[10px] text-muted-foreground tabular-nums" style={{ top: i * HOUR_HEIGHT }}>
+              {i > 0 && `${hour}시`}
+            </span>
+          ))}
+        </div>
+
+        {columns.map((column) => (
+          <div
+            key={column.date}
+            className="relative border-l border-border"
+            style={{ height: hours.length * HOUR_HEIGHT }}
+            onDragOver={(e) => {
+              if (!dragging) return;
+              e.preventDefault();
+              const minutes = getDropMinutes(e);
+              if (dropPreview?.date !== column.date || dropPreview.minutes !== minutes) {
+                setDropPreview({ date: column.date, minutes });
+              }
+            }}
+            onDragLeave={() => setDropPreview(null)}
+            onDrop={(e) => handleDrop(e, column.date)}
+          >
+            {hours.map((hour, i) => (
+              <div key={hour} className="absolute inset-x-0 border-t border-border/60" style={{ top: i * HOUR_HEIGHT }} />
+            ))}
+            {dropPreview?.date === column.date && (
+              <div
+                className="absolute inset-x-0.5 rounded border-2 border-dashed border-brand/60 bg-brand-muted/30 pointer-events-none"
+                style={{
+                  top: ((dropPreview.minutes - range.startHour * 60) / 60) * HOUR_HEIGHT,
+                  height: (TIMELINE_SNAP_MINUTES / 60) * HOUR_HEIGHT,
+                }}
+              >
+                <span className="px-1 text-[10px] font-medium text-brand tabular-nums">{minutesToTime(dropPreview.minutes)}</span>
+              </div>
+            )}
+            {column.events.map(({ item, start, column: col, columns: cols }) =>
+              renderCard(item, 'absolute', {
+                top: ((start - range.startHour * 60) / 60) * HOUR_HEIGHT + 1,
+                height: (TIMELINE_EVENT_MINUTES / 60) * HOUR_HEIGHT - 2,
+                left: `calc(${(col / cols) * 100}% + 2px)`,
+                width: `calc(${100 / cols}% - 4px)`,
+              }),
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
+import { getCurrentUserRole } from '@/lib/auth-guard';
+import { hasRole } from '@/lib/permissions';
 import { CalendarClient } from './calendar-client';
 
-export default function CalendarPage() {
-  return <CalendarClient />;
+export default async function CalendarPage() {
+  const role = await getCurrentUserRole();
+  return <CalendarClient canManage={hasRole(role, 'manager')} />;
 }
@@ -0,0 +1,15 @@
+import { getDeliveryRoute } from '@/lib/actions/deliveries';
+import { getTodayKST } from '@/lib/utils';
+import { RouteSheetClient } from './route-sheet-client';
+
+export default async function RouteSheetPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ date?: string }>;
+}) {
+  const params = await searchParams;
+  const date = params.date && /^\d{4}-\d{2}-\d{2}$/.test(params.date) ? params.date : getTodayKST();
+  const deliveries = await getDeliveryRoute(date);
+
+  return <RouteSheetClient date={date} deliveries={deliveries} />;
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { addDays, format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { ArrowDown, ArrowLeft, ArrowUp, ChevronLeft, ChevronRight, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { reorderDeliveries } from '@/lib/actions/deliveries';
+import { formatTimeWindow, summarizeDeliveries } from '@/lib/deliveries';
+import { DELIVERY_STATUS_LABELS } from '@/lib/constants';
+import { formatCurrency } from '@/lib/utils';
+import type { Delivery } from '@/types/database';
+
+interface Props {
+  date: string;
+  deliveries: Delivery[];
+}
+
+export function RouteSheetClient({ date, deliveries }: Props) {
+  const router = useRouter();
+  const [order, setOrder] = useState(deliveries);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 서버에서 새 목록이 오면 순서 초기화
+  useEffect(() => {
+    setOrder(deliveries);
+  }, [deliveries]);
+
+  const day = new Date(`${date}T00:00:00`);
+  const { feeTotal } = summarizeDeliveries(order);
+
+  const move = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+    setIsSaving(true);
+    try {
+      await reorderDeliveries(date, next.map((d) => d.id));
+      router.refresh();
+    } catch (error) {
+      setOrder(order);
+      toast.error(error instanceof Error ? error.message : '순서 저장에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-3 print:hidden">
+        <div>
+          <Link href="/calendar" className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1">
+            <ArrowLeft className="w-3 h-3" />
+            캘린더
+          </Link>
+          <h1 className="text-xl font-semibold text-foreground tracking-tight mt-1">배송 경로표</h1>
+          <p className="text-sm text-muted-foreground mt-1">화살표로 도는 순서를 정하고 인쇄해서 기사님께 드리세요</p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button variant="ghost" size="icon-sm" asChild aria-label="이전 날">
+            <Link href={`/calendar/route?date=${format(addDays(day, -1), 'yyyy-MM-dd')}`}>
+              <ChevronLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="ghost" size="icon-sm" asChild aria-label="다음 날">
+            <Link href={`/calendar/route?date=${format(addDays(day, 1), 'yyyy-MM-dd')}`}>
+              <ChevronRight className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button size="sm" onClick={() => window.print()} disabled={order.length === 0}>
+            <Printer className="h-3.5 w-3.5 mr-1" />
+            인쇄
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold text-foreground">
+          {format(day, 'yyyy년 M월 d일 (EEE)', { locale: ko })} 배송
+        </h2>
+        <p className="text-sm text-muted-foreground tabular-nums">
+          {order.length}건 · 배송비 {formatCurrency(feeTotal)}
+        </p>
+      </div>
+
+      <Card className="overflow-hidden print:border-0 print:shadow-none">
+        {order.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">#</TableHead>
+                <TableHead className="w-[100px]">시간</TableHead>
+                <TableHead className="w-[140px]">받는 분</TableHead>
+                <TableHead>주소 / 메모</TableHead>
+                <TableHead className="w-[80px]">기사</TableHead>
+                <TableHead className="w-[70px]">상태</TableHead>
+                <TableHead className="w-[80px] hidden print:table-cell">확인</TableHead>
+                <TableHead className="w-[72px] print:hidden" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.map((d, index) => (
+                <TableRow key={d.id} className="break-inside-avoid">
+                  <TableCell className="font-semibold tabular-nums">{index + 1}</TableCell>
+                  <TableCell className="tabular-nums">{formatTimeWindow(d.time_from, d.time_to)}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{d.recipient_name}</p>
+                    {d.recipient_phone && <p className="text-xs text-muted-foreground tabular-nums">{d.recipient_phone}</p>}
+                  </TableCell>
+                  <TableCell className="whitespace-normal">
+                    <p>{d.address}{d.address_detail ? ` ${d.address_detail}` : ''}</p>
+                    {(d.note || d.reservation?.title || d.sale?.product_name) && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {[d.reservation?.title ?? d.sale?.product_name, d.note].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{d.driver ?? '-'}</TableCell>
+                  <TableCell className="text-xs">{DELIVERY_STATUS_LABELS[d.status]}</TableCell>
+                  <TableCell className="hidden print:table-cell" />
+                  <TableCell className="text-right print:hidden">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={isSaving || index === 0}
+                      onClick={() => move(index, -1)}
+                      aria-label="앞으로"
+                    >
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={isSaving || index === order.length - 1}
+                      onClick={() => move(index, 1)}
+                      aria-label="뒤로"
+                    >
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-16">이 날짜에 배송이 없습니다</p>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Pencil, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { formatCurrency } from '@/lib/utils';
+import { formatPoints } from '@/lib/loyalty';
 import type { Customer } from '@/types/database';
 
 export const gradeLabels: Record<string, { label: string; icon: string; color: string; bg: string }> = {
@@ -87,7 +88,7 @@ export function CustomerCard({ customer, onSelect, onEdit, onDelete }: CustomerC
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-3 gap-2 pt-3 border-t border-border">
+        <div className="grid grid-cols-4 gap-2 pt-3 border-t border-border">
           <div>
             <p className="text-[10px] text-muted-foreground">구매</p>
             <p className="text-sm font-semibold text-foreground tabular-nums">{customer.total_purchase_count}회</p>
@@ -102,6 +103,12 @@ export function CustomerCard({ customer, onSelect, onEdit, onDelete }: CustomerC
               {customer.last_purchase_date ? format(new Date(customer.last_purchase_date), 'M/d', { locale: ko }) : '-'}
             </p>
           </div>
+          <div>
+            <p className="text-[10px] text-muted-foreground">포인트</p>
+            <p className="text-sm font-medium text-foreground tabular-nums truncate">
+              {customer.point_balance ? formatPoints(customer.point_balance) : '-'}
+            </p>
+          </div>
         </div>
 
         {/* Note preview */}
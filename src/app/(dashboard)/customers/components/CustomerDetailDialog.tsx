@@ -10,6 +10,9 @@ import { ko } from 'date-fns/locale';
 import { formatCurrency } from '@/lib/utils';
 import type { Customer, Sale } from '@/types/database';
 import { gradeLabels, GenderBadge } from './CustomerCard';
+import { AuditHistory } from '@/components/audit';
+import { CustomerOccasions } from './CustomerOccasions';
+import { CustomerPoints } from './CustomerPoints';
 
 interface CustomerDetailDialogProps {
   customer: Customer | null;
@@ -17,6 +20,7 @@ interface CustomerDetailDialogProps {
   isLoadingSales: boolean;
   categoryLabels: Record<string, string>;
   categoryColors: Record<string, string>;
+  highlightOccasionId?: string | null;
   onClose: () => void;
   onEdit: (customer: Customer) => void;
   onDelete: (customer: Customer) => void;
@@ -29,6 +33,7 @@ export function CustomerDetailDialog({
   isLoadingSales,
   categoryLabels,
   categoryColors,
+  highlightOccasionId,
   onClose,
   onEdit,
   onDelete,
@@ -164,6 +169,18 @@ export function CustomerDetailDialog({
               )}
             </div>
 
+            <CustomerPoints key={`points-${customer.id}`} customerId={customer.id} />
+
+            <CustomerOccasions
+              key={`occasions-${customer.id}`}
+              customerId={customer.id}
+              sales={sales}
+              isLoadingSales={isLoadingSales}
+              highlightOccasionId={highlightOccasionId}
+            />
+
+            <AuditHistory key={customer.id} entityType="customer" entityId={customer.id} />
+
             <div className="flex flex-col gap-3 pt-4 border-t">
               <div className="flex flex-wrap gap-2">
                 <Button
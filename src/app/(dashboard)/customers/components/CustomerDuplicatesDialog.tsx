@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Merge } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { cn, formatCurrency } from '@/lib/utils';
+import { CUSTOMER_DUPLICATE_REASON_LABELS, pickMergeSurvivor } from '@/lib/customer-duplicates';
+import type { CustomerDuplicateGroup } from '@/lib/customer-duplicates';
+import { excludeCustomerDuplicate, mergeCustomers } from '@/lib/actions/customer-merge';
+import type { Customer } from '@/types/database';
+import { gradeLabels } from './CustomerCard';
+
+interface CustomerDuplicatesDialogProps {
+  open: boolean;
+  groups: CustomerDuplicateGroup<Customer>[];
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+  onExcluded: (customerIds: string[]) => void;
+}
+
+function getGroupKey(group: CustomerDuplicateGroup<Customer>): string {
+  return group.customers.map((c) => c.id).join(':');
+}
+
+export function CustomerDuplicatesDialog({ open, groups, onOpenChange, onMerged, onExcluded }: CustomerDuplicatesDialogProps) {
+  // 묶음별로 남길 고객 (없으면 pickMergeSurvivor)
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [confirmingKey, setConfirmingKey] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const getSurvivorId = (group: CustomerDuplicateGroup<Customer>) => {
+    const selected = survivors[getGroupKey(group)];
+    return group.customers.some((c) => c.id === selected) ? selected : pickMergeSurvivor(group.customers).id;
+  };
+
+  const handleMerge = async (group: CustomerDuplicateGroup<Customer>) => {
+    const key = getGroupKey(group);
+    const survivorId = getSurvivorId(group);
+    setBusyKey(key);
+    try {
+      const survivor = await mergeCustomers(survivorId, group.customers.filter((c) => c.id !== survivorId).map((c) => c.id));
+      toast.success(`${survivor.name} 고객으로 합쳤습니다`);
+      setConfirmingKey(null);
+      onMerged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '고객 병합에 실패했습니다');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleExclude = async (group: CustomerDuplicateGroup<Customer>) => {
+    const key = getGroupKey(group);
+    const ids = group.customers.map((c) => c.id);
+    setBusyKey(key);
+    try {
+      await excludeCustomerDuplicate(ids);
+      onExcluded(ids);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '저장에 실패했습니다');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>중복 고객</DialogTitle>
+          <DialogDescription>
+            연락처 표기만 다르거나, 이름이 같은 고객이에요. 남길 고객을 고르고 합치면 매출·예약이 모두 옮겨져요
+          </DialogDescription>
+        </DialogHeader>
+
+        {groups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">중복으로 보이는 고객이 없어요</p>
+        ) : (
+          <ul className="space-y-3">
+            {groups.map((group) => {
+              const key = getGroupKey(group);
+              const survivorId = getSurvivorId(group);
+              const isBusy = busyKey === key;
+              return (
+                <li key={key} className="rounded-lg border p-3 space-y-2">
+                  <p className="text-[11px] text-muted-foreground">
+                    {group.reasons.map((reason) => CUSTOMER_DUPLICATE_REASON_LABELS[reason]).join(' · ')}
+                  </p>
+                  <div className="space-y-1">
+                    {group.customers.map((customer) => (
+                      <label
+                        key={customer.id}
+                        className={cn(
+                          'flex items-start gap-2 rounded-md px-2 py-1.5 text-xs cursor-pointer transition-colors',
+                          customer.id === survivorId ? 'bg-brand-muted/50' : 'hover:bg-muted/50',
+                        )}
+                      >
+                        <input
+                          type="radio"
+                          name={`survivor-${key}`}
+                          checked={customer.id === survivorId}
+                          onChange={() => setSurvivors((prev) => ({ ...prev, [key]: customer.id }))}
+                          className="mt-0.5"
+                        />
+                        <span className="min-w-0 flex-1">
+                          <span className="font-medium text-foreground">{customer.name}</span>{' '}
+                          <span className="tabular-nums text-muted-foreground">{customer.phone}</span>{' '}
+                          <span className={gradeLabels[customer.grade]?.color}>{gradeLabels[customer.grade]?.label}</span>
+                          <span className="block text-muted-foreground">
+                            구매 {customer.total_purchase_count}회 · {formatCurrency(customer.total_purchase_amount)} · {format(new Date(customer.created_at), 'yyyy.M.d')} 등록
+                          </span>
+                          {customer.note && <span className="block truncate text-muted-foreground">{customer.note}</span>}
+                        </span>
+                        {customer.id === survivorId && <span className="shrink-0 text-[10px] font-medium text-brand">남길 고객</span>}
+                      </label>
+                    ))}
+                  </div>
+
+                  {confirmingKey === key ? (
+                    <div className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-2 py-1.5">
+                      <p className="text-[11px] text-muted-foreground">나머지 고객은 삭제되고 되돌릴 수 없어요</p>
+                      <div className="flex shrink-0 gap-1">
+                        <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setConfirmingKey(null)} disabled={isBusy}>
+                          취소
+                        </Button>
+                        <Button type="button" size="sm" className="h-7 text-xs" onClick={() => handleMerge(group)} disabled={isBusy}>
+                          {isBusy && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                          합치기
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex justify-end gap-1">
+                      <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleExclude(group)} disabled={isBusy}>
+                        다른 사람이에요
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" className="h-7 text-xs" onClick={() => setConfirmingKey(key)} disabled={isBusy}>
+                        <Merge className="h-3.5 w-3.5 mr-1" />
+                        합치기
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
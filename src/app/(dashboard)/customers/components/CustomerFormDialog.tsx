@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { createCustomer, updateCustomer, checkPhoneDuplicate } from '@/lib/actions/customers';
+import type { PhoneDuplicate } from '@/lib/actions/customers';
 import { cn, formatPhoneNumber } from '@/lib/utils';
 import type { Customer } from '@/types/database';
 
@@ -22,7 +23,7 @@ interface CustomerFormDialogProps {
 
 export function CustomerFormDialog({ open, onOpenChange, customer, onSuccess }: CustomerFormDialogProps) {
   const [phoneValue, setPhoneValue] = useState('');
-  const [phoneDuplicate, setPhoneDuplicate] = useState<{ name: string } | null>(null);
+  const [phoneDuplicate, setPhoneDuplicate] = useState<PhoneDuplicate | null>(null);
   const [noteValue, setNoteValue] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const phoneCheckRef = useRef<NodeJS.Timeout | null>(null);
@@ -77,7 +78,9 @@ export function CustomerFormDialog({ open, onOpenChange, customer, onSuccess }:
     } catch (error: unknown) {
       console.error('Failed to save customer:', error);
       const message = error instanceof Error ? error.message : '';
-      if (message.includes('이미') || (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === '23505')) {
+      if (message.includes('휴지통')) {
+        toast.error(message);
+      } else if (message.includes('이미') || (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === '23505')) {
         toast.error('이미 등록된 연락처입니다');
       } else {
         toast.error(isEditMode ? '고객 수정에 실패했습니다' : '고객 등록에 실패했습니다');
@@ -122,7 +125,9 @@ export function CustomerFormDialog({ open, onOpenChange, customer, onSuccess }:
             />
             {phoneDuplicate && (
               <p className="text-xs text-destructive">
-                이미 등록된 연락처입니다 ({phoneDuplicate.name})
+                {phoneDuplicate.deleted_at
+                  ? `휴지통에 있는 고객의 연락처입니다 (${phoneDuplicate.name}) · 휴지통에서 복원해주세요`
+                  : `이미 등록된 연락처입니다 (${phoneDuplicate.name})`}
               </p>
             )}
             {!isEditMode && (
@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Gift, Loader2, Pencil, Plus, Trash2, ExternalLink } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { cn, formatCurrency, getNetAmount, getTodayKST } from '@/lib/utils';
+import { OCCASION_RELATIONSHIPS, OCCASION_TYPE_LABELS } from '@/lib/constants';
+import { findOccasionSales, formatDaysUntil, getOccasionTitle, getOccasionYearsLabel, toUpcomingOccasion } from '@/lib/occasions';
+import {
+  createCustomerOccasion,
+  deleteCustomerOccasion,
+  getCustomerOccasions,
+  updateCustomerOccasion,
+} from '@/lib/actions/customer-occasions';
+import type { CustomerOccasionInput } from '@/lib/actions/customer-occasions';
+import type { CustomerOccasion, CustomerOccasionType, Sale } from '@/types/database';
+
+interface CustomerOccasionsProps {
+  customerId: string;
+  sales: Sale[];
+  isLoadingSales: boolean;
+  highlightOccasionId?: string | null;
+}
+
+type OccasionForm = Record<'label' | 'month' | 'day' | 'year' | 'recipient_name' | 'relationship' | 'remind_days_before' | 'note', string> & {
+  type: CustomerOccasionType;
+};
+
+const EMPTY_FORM: OccasionForm = {
+  type: 'birthday',
+  label: '',
+  month: '',
+  day: '',
+  year: '',
+  recipient_name: '',
+  relationship: '',
+  remind_days_before: '3',
+  note: '',
+};
+
+function toForm(occasion: CustomerOccasion): OccasionForm {
+  return {
+    type: occasion.type,
+    label: occasion.label ?? '',
+    month: String(occasion.month),
+    day: String(occasion.day),
+    year: occasion.year?.toString() ?? '',
+    recipient_name: occasion.recipient_name ?? '',
+    relationship: occasion.relationship ?? '',
+    remind_days_before: String(occasion.remind_days_before),
+    note: occasion.note ?? '',
+  };
+}
+
+function toInput(form: OccasionForm): CustomerOccasionInput {
+  // 빈 칸은 0으로 보내 "월을 입력해주세요" 검증 메시지가 뜨게
+  const toNumber = (value: string) => Number(value) || 0;
+  return {
+    type: form.type,
+    label: form.label,
+    month: toNumber(form.month),
+    day: toNumber(form.day),
+    year: form.year.trim() ? Number(form.year) : null,
+    recipient_name: form.recipient_name,
+    relationship: form.relationship,
+    remind_days_before: Number(form.remind_days_before) || 0,
+    note: form.note,
+  };
+}
+
+export function CustomerOccasions({ customerId, sales, isLoadingSales, highlightOccasionId }: CustomerOccasionsProps) {
+  const router = useRouter();
+  const [occasions, setOccasions] = useState<CustomerOccasion[] | null>(null);
+  // null: 닫힘, 'new': 추가, 그 외: 수정할 기념일 id
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<OccasionForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(highlightOccasionId ?? null);
+  const today = getTodayKST();
+
+  useEffect(() => {
+    getCustomerOccasions(customerId)
+      .then(setOccasions)
+      .catch(() => {
+        setOccasions([]);
+        toast.error('기념일을 불러오는데 실패했습니다');
+      });
+  }, [customerId]);
+
+  const openForm = (occasion?: CustomerOccasion) => {
+    setEditingId(occasion?.id ?? 'new');
+    setForm(occasion ? toForm(occasion) : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const input = toInput(form);
+      const saved = editingId && editingId !== 'new'
+        ? await updateCustomerOccasion(editingId, input)
+        : await createCustomerOccasion(customerId, input);
+      setOccasions((prev) => {
+        const rest = (prev || []).filter((o) => o.id !== saved.id);
+        return [...rest, saved].sort((a, b) => a.month - b.month || a.day - b.day);
+      });
+      setEditingId(null);
+      toast.success('기념일이 저장되었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '기념일 저장에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (occasion: CustomerOccasion) => {
+    try {
+      await deleteCustomerOccasion(occasion.id);
+      setOccasions((prev) => (prev || []).filter((o) => o.id !== occasion.id));
+      toast.success('기념일을 삭제했습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '기념일 삭제에 실패했습니다');
+    }
+  };
+
+  const update = (patch: Partial<OccasionForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="space-y-2 pt-2 border-t">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Gift className="w-4 h-4 text-muted-foreground" />
+          <p className="text-sm font-medium text-foreground">기념일</p>
+        </div>
+        {editingId === null && (
+          <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => openForm()}>
+            <Plus className="w-3.5 h-3.5 mr-1" />
+            추가
+          </Button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={form.type} onValueChange={(value) => update({ type: value as CustomerOccasionType })}>
+              <SelectTrigger className="h-8 text-sm w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(OCCASION_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {form.type === 'other' ? (
+              <Input value={form.label} onChange={(e) => update({ label: e.target.value })} placeholder="이름 (예: 개업일)" className="h-8 text-sm" />
+            ) : (
+              <div />
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input type="number" min={1} max={12} value={form.month} onChange={(e) => update({ month: e.target.value })} placeholder="월" className="h-8 text-sm" aria-label="월" />
+            <Input type="number" min={1} max={31} value={form.day} onChange={(e) => update({ day: e.target.value })} placeholder="일" className="h-8 text-sm" aria-label="일" />
+            <Input type="number" min={1900} max={2100} value={form.year} onChange={(e) => update({ year: e.target.value })} placeholder="연도 (선택)" className="h-8 text-sm" aria-label="연도" />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Input value={form.recipient_name} onChange={(e) => update({ recipient_name: e.target.value })} placeholder="받는 분 (본인이면 비움)" className="h-8 text-sm" />
+            <Input
+              value={form.relationship}
+              onChange={(e) => update({ relationship: e.target.value })}
+              placeholder="관계 (예: 배우자)"
+              list="occasion-relationships"
+              className="h-8 text-sm"
+            />
+            <datalist id="occasion-relationships">
+              {OCCASION_RELATIONSHIPS.map((relationship) => (
+                <option key={relationship} value={relationship} />
+              ))}
+            </datalist>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Input
+              type="number"
+              min={0}
+              max={60}
+              value={form.remind_days_before}
+              onChange={(e) => update({ remind_days_before: e.target.value })}
+              className="h-8 w-16 text-sm"
+              aria-label="알림 일수"
+            />
+            일 전에 알림 (0이면 알리지 않음)
+          </div>
+          <Input value={form.note} onChange={(e) => update({ note: e.target.value })} placeholder="메모 (좋아하는 꽃 등)" className="h-8 text-sm" />
+          <div className="flex justify-end gap-1">
+            <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setEditingId(null)} disabled={isSaving}>
+              취소
+            </Button>
+            <Button type="button" size="sm" className="h-7 text-xs" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              저장
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {occasions === null ? (
+        <Skeleton className="h-12 w-full rounded" />
+      ) : occasions.length > 0 ? (
+        <ul className="space-y-2">
+          {occasions.map((occasion) => {
+            const upcoming = toUpcomingOccasion(occasion, today);
+            const yearsLabel = getOccasionYearsLabel(upcoming);
+            const occasionSales = findOccasionSales(sales, occasion);
+            const isExpanded = expandedId === occasion.id;
+            return (
+              <li
+                key={occasion.id}
+                className={cn('p-2 bg-muted rounded text-sm space-y-1', occasion.id === highlightOccasionId && 'ring-1 ring-brand')}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">
+                      {getOccasionTitle(occasion)}
+                      {occasion.relationship && occasion.recipient_name && (
+                        <span className="text-xs font-normal text-muted-foreground"> ({occasion.relationship})</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {occasion.month}월 {occasion.day}일 · {formatDaysUntil(upcoming.days_until)}
+                      {yearsLabel && ` · ${yearsLabel}`}
+                      {occasion.remind_days_before > 0 && ` · ${occasion.remind_days_before}일 전 알림`}
+                    </p>
+                    {occasion.note && <p className="text-xs text-muted-foreground">{occasion.note}</p>}
+                  </div>
+                  <div className="flex shrink-0">
+                    <button type="button" className="p-1 text-muted-foreground hover:text-foreground" onClick={() => openForm(occasion)} aria-label="기념일 수정">
+                      <Pencil className="w-3.5 h-3.5" aria-hidden="true" />
+                    </button>
+                    <button type="button" className="p-1 text-muted-foreground hover:text-destructive" onClick={() => handleDelete(occasion)} aria-label="기념일 삭제">
+                      <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                    </button>
+                  </div>
+                </div>
+
+                {isLoadingSales ? null : occasionSales.length > 0 ? (
+                  <>
+                    <button
+                      type="button"
+                      className="text-[11px] text-brand hover:text-brand/80"
+                      onClick={() => setExpandedId(isExpanded ? null : occasion.id)}
+                    >
+                      이 무렵 구매 {occasionSales.length}건 {isExpanded ? '접기' : '보기'}
+                    </button>
+                    {isExpanded && (
+                      <ul className="space-y-1">
+                        {occasionSales.map((sale) => (
+                          <li key={sale.id} className="flex items-center justify-between gap-2 text-xs bg-background rounded px-2 py-1">
+                            <span className="truncate">
+                              <span className="text-muted-foreground tabular-nums">{format(new Date(sale.date), 'yyyy.M.d')}</span> {sale.product_name}
+                            </span>
+                            <span className="flex items-center gap-1 shrink-0">
+                              <span className="font-medium tabular-nums">{formatCurrency(getNetAmount(sale))}</span>
+                              <button
+                                type="button"
+                                className="text-brand p-0.5"
+                                onClick={() => {
+                                  const saleDate = new Date(sale.date);
+                                  router.push(`/sales?year=${saleDate.getFullYear()}&month=${saleDate.getMonth() + 1}&saleId=${sale.id}`);
+                                }}
+                                title="매출 상세 보기"
+                                aria-label="매출 상세 보기"
+                              >
+                                <ExternalLink className="w-3 h-3" aria-hidden="true" />
+                              </button>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-[11px] text-muted-foreground">이 무렵 구매 기록 없음</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        editingId === null && <p className="text-xs text-muted-foreground py-1">생일·기념일을 등록하면 미리 알려드려요</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Coins, Loader2, SlidersHorizontal } from 'lucide-react';
+import { addDays, format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { cn, getTodayKST } from '@/lib/utils';
+import { POINT_TRANSACTION_TYPE_LABELS } from '@/lib/constants';
+import { formatPoints, getPointBalance, getPointsExpiringBefore } from '@/lib/loyalty';
+import { adjustCustomerPoints, getCustomerPointHistory } from '@/lib/actions/loyalty';
+import type { CustomerPointTransaction } from '@/types/database';
+
+// 이 기간 안에 소멸될 포인트를 미리 보여줌
+const EXPIRY_NOTICE_DAYS = 30;
+const VISIBLE_HISTORY = 10;
+
+interface CustomerPointsProps {
+  customerId: string;
+}
+
+export function CustomerPoints({ customerId }: CustomerPointsProps) {
+  const router = useRouter();
+  const [history, setHistory] = useState<CustomerPointTransaction[] | null>(null);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [points, setPoints] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    getCustomerPointHistory(customerId)
+      .then(setHistory)
+      .catch(() => {
+        setHistory([]);
+        toast.error('포인트 내역을 불러오는데 실패했습니다');
+      });
+  }, [customerId]);
+
+  const today = getTodayKST();
+  const balance = history ? getPointBalance(history) : 0;
+  const expiringSoon = history
+    ? getPointsExpiringBefore(history, format(addDays(parseISO(today), EXPIRY_NOTICE_DAYS + 1), 'yyyy-MM-dd')) -
+      getPointsExpiringBefore(history, today)
+    : 0;
+
+  const handleAdjust = async () => {
+    setIsSaving(true);
+    try {
+      // 빈 칸은 0으로 보내 "조정할 포인트를 입력해주세요" 메시지가 뜨게
+      const saved = await adjustCustomerPoints(customerId, { points: direction * (Number(points) || 0), reason });
+      setHistory((prev) => [saved, ...(prev || [])]);
+      setIsAdjusting(false);
+      setPoints('');
+      setReason('');
+      toast.success('포인트를 조정했습니다');
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '포인트 조정에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const visibleHistory = history && !showAll ? history.slice(0, VISIBLE_HISTORY) : history;
+
+  return (
+    <div className="space-y-2 pt-2 border-t">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Coins className="w-4 h-4 text-muted-foreground" />
+          <p className="text-sm font-medium text-foreground">포인트</p>
+          {history && <span className="text-sm font-semibold text-brand tabular-nums">{formatPoints(balance)}</span>}
+        </div>
+        {!isAdjusting && (
+          <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setIsAdjusting(true)}>
+            <SlidersHorizontal className="w-3.5 h-3.5 mr-1" />
+            조정
+          </Button>
+        )}
+      </div>
+
+      {expiringSoon > 0 && (
+        <p className="text-[11px] text-muted-foreground">{EXPIRY_NOTICE_DAYS}일 안에 {formatPoints(expiringSoon)} 소멸 예정</p>
+      )}
+
+      {isAdjusting && (
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="grid grid-cols-[auto_1fr] gap-2">
+            <div className="flex rounded-md border p-0.5">
+              {([1, -1] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  className={cn(
+                    'px-2.5 text-xs rounded transition-colors',
+                    direction === value ? 'bg-brand-muted text-brand font-medium' : 'text-muted-foreground'
+                  )}
+                  onClick={() => setDirection(value)}
+                >
+                  {value > 0 ? '적립' : '차감'}
+                </button>
+              ))}
+            </div>
+            <Input
+              type="number"
+              min={1}
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              placeholder="포인트"
+              className="h-8 text-sm"
+              inputMode="numeric"
+              aria-label="조정할 포인트"
+            />
+          </div>
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="사유 (예: 스탬프 카드 이전)" className="h-8 text-sm" maxLength={200} />
+          <div className="flex justify-end gap-1">
+            <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setIsAdjusting(false)} disabled={isSaving}>
+              취소
+            </Button>
+            <Button type="button" size="sm" className="h-7 text-xs" onClick={handleAdjust} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              저장
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {history === null ? (
+        <Skeleton className="h-12 w-full rounded" />
+      ) : history.length > 0 ? (
+        <ul className="space-y-1">
+          {visibleHistory!.map((transaction) => (
+            <li key={transaction.id} className="flex items-center justify-between gap-2 text-xs p-2 bg-muted rounded">
+              <span className="min-w-0 truncate">
+                <span className="text-muted-foreground tabular-nums">{format(new Date(transaction.created_at), 'yyyy.M.d')}</span>{' '}
+                <span className="font-medium">{POINT_TRANSACTION_TYPE_LABELS[transaction.type]}</span>
+                {transaction.reason && <span className="text-muted-foreground"> · {transaction.reason}</span>}
+              </span>
+              <span className={cn('shrink-0 font-medium tabular-nums', transaction.points > 0 ? 'text-brand' : 'text-muted-foreground')}>
+                {transaction.points > 0 ? '+' : ''}{formatPoints(transaction.points)}
+              </span>
+            </li>
+          ))}
+          {history.length > VISIBLE_HISTORY && (
+            <button type="button" className="text-[11px] text-brand hover:text-brand/80" onClick={() => setShowAll(!showAll)}>
+              {showAll ? '접기' : `전체 ${history.length}건 보기`}
+            </button>
+          )}
+        </ul>
+      ) : (
+        !isAdjusting && <p className="text-xs text-muted-foreground py-1">매출을 등록하면 포인트가 쌓여요</p>
+      )}
+    </div>
+  );
+}
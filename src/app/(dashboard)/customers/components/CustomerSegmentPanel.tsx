@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { FileSpreadsheet, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatCurrency } from '@/lib/utils';
+import {
+  CUSTOMER_SEGMENT_LABELS,
+  type CustomerSegment,
+  type CustomerSegmentSummary,
+} from '@/lib/customer-segments';
+
+interface Props {
+  summary: CustomerSegmentSummary[];
+  selected: CustomerSegment | 'all';
+  onSelect: (segment: CustomerSegment | 'all') => void;
+  onExport: (segment: CustomerSegment) => Promise<void>;
+}
+
+export function CustomerSegmentPanel({ summary, selected, onSelect, onExport }: Props) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (summary.length === 0) return null;
+
+  const handleExport = async (segment: CustomerSegment) => {
+    setIsExporting(true);
+    try {
+      await onExport(segment);
+      toast.success('Excel 파일이 다운로드되었습니다');
+    } catch (error) {
+      console.error('Segment export failed:', error);
+      toast.error('내보내기에 실패했습니다');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-3 sm:p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-sm font-semibold text-foreground">고객 세그먼트</h2>
+            <p className="text-xs text-muted-foreground">최근 구매일 · 구매 횟수 · 구매 금액(RFM) 기준</p>
+          </div>
+          {selected !== 'all' && (
+            <div className="flex items-center gap-1.5 shrink-0">
+              <Button variant="outline" size="sm" onClick={() => handleExport(selected)} disabled={isExporting}>
+                {isExporting ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <FileSpreadsheet className="w-4 h-4 mr-1.5" />}
+                목록 내보내기
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onSelect('all')} aria-label="세그먼트 선택 해제">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2">
+          {summary.map(({ segment, count, amount }) => (
+            <button
+              key={segment}
+              type="button"
+              onClick={() => onSelect(selected === segment ? 'all' : segment)}
+              className={cn(
+                'rounded-lg border p-2.5 text-left transition-colors',
+                selected === segment ? 'border-brand bg-brand-muted/50' : 'border-border hover:bg-muted/50',
+              )}
+            >
+              <div className="flex items-baseline justify-between gap-1">
+                <span className="text-sm font-medium text-foreground">{CUSTOMER_SEGMENT_LABELS[segment].label}</span>
+                <span className="text-sm font-bold tabular-nums">{count}<span className="text-xs font-medium">명</span></span>
+              </div>
+              <p className="text-[11px] text-muted-foreground mt-0.5 truncate">{CUSTOMER_SEGMENT_LABELS[segment].description}</p>
+              {amount > 0 && <p className="text-xs text-muted-foreground tabular-nums mt-1">{formatCurrency(amount)}</p>}
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,11 +7,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Plus, Search, Users, Loader2, CalendarDays, Crown, Star, AlertTriangle, UserPlus } from 'lucide-react';
+import { Plus, Search, Users, Loader2, CalendarDays, Crown, Star, AlertTriangle, UserPlus, Merge } from 'lucide-react';
 import { format, subDays } from 'date-fns';
 import { toast } from 'sonner';
 import { deleteCustomer, getCustomerSales } from '@/lib/actions/customers';
-import { cn } from '@/lib/utils';
+import { getCustomerDuplicateExclusions } from '@/lib/actions/customer-merge';
+import { findCustomerDuplicateGroups, getCustomerPairKey } from '@/lib/customer-duplicates';
+import { CUSTOMER_SEGMENTS, CUSTOMER_SEGMENT_LABELS, getCustomerRfm, summarizeCustomerSegments, type CustomerRfm, type CustomerSegment } from '@/lib/customer-segments';
+import { cn, getTodayKST } from '@/lib/utils';
 import type { Customer, Sale } from '@/types/database';
 import { ExportButton } from '@/components/ui/export-button';
 import type { ExportConfig } from '@/lib/export';
@@ -19,6 +22,8 @@ import type { SaleCategory } from '@/lib/actions/sale-settings';
 import { CustomerCard, gradeLabels, genderLabels } from './components/CustomerCard';
 import { CustomerFormDialog } from './components/CustomerFormDialog';
 import { CustomerDetailDialog } from './components/CustomerDetailDialog';
+import { CustomerDuplicatesDialog } from './components/CustomerDuplicatesDialog';
+import { CustomerSegmentPanel } from './components/CustomerSegmentPanel';
 
 const gradeSections = [
   { key: 'vip', label: 'VIP', icon: Crown, iconColor: 'text-purple-600 dark:text-purple-400' },
@@ -29,6 +34,7 @@ const gradeSections = [
 
 type SortBy = 'newest' | 'oldest' | 'name' | 'purchase_count' | 'purchase_amount';
 type GenderFilter = 'all' | 'male' | 'female';
+type SegmentFilter = 'all' | CustomerSegment;
 
 interface Props {
   initialCustomers: Customer[];
@@ -43,12 +49,16 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [gradeFilter, setGradeFilter] = useState('all');
   const [genderFilter, setGenderFilter] = useState<GenderFilter>('all');
+  const [segmentFilter, setSegmentFilter] = useState<SegmentFilter>('all');
   const [sortBy, setSortBy] = useState<SortBy>('newest');
   const [searchQuery, setSearchQuery] = useState('');
   const [customerSales, setCustomerSales] = useState<Sale[]>([]);
   const [isLoadingSales, setIsLoadingSales] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<Customer | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [highlightOccasionId, setHighlightOccasionId] = useState<string | null>(null);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [duplicateExclusions, setDuplicateExclusions] = useState<string[]>([]);
 
   // Category/Payment method label maps
   const categoryLabels = useMemo(() =>
@@ -76,17 +86,38 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
     });
   }, [sortBy]);
 
+  useEffect(() => {
+    getCustomerDuplicateExclusions()
+      .then(setDuplicateExclusions)
+      .catch((error) => console.error('Failed to load duplicate exclusions:', error));
+  }, []);
+
+  const duplicateGroups = useMemo(
+    () => findCustomerDuplicateGroups(initialCustomers, new Set(duplicateExclusions)),
+    [initialCustomers, duplicateExclusions]
+  );
+
+  const handleDuplicateExcluded = (customerIds: string[]) => {
+    const keys = customerIds.flatMap((a, i) => customerIds.slice(i + 1).map((b) => getCustomerPairKey(a, b)));
+    setDuplicateExclusions((prev) => [...prev, ...keys]);
+  };
+
+  // RFM 세그먼트 (매출 집계 기준)
+  const rfmByCustomer = useMemo(() => getCustomerRfm(initialCustomers, getTodayKST()), [initialCustomers]);
+  const segmentSummary = useMemo(() => summarizeCustomerSegments(rfmByCustomer), [rfmByCustomer]);
+
   const filteredCustomers = useMemo(() => {
     const filtered = initialCustomers
       .filter(c => gradeFilter === 'all' || c.grade === gradeFilter)
       .filter(c => genderFilter === 'all' || c.gender === genderFilter)
+      .filter(c => segmentFilter === 'all' || rfmByCustomer.get(c.id)?.segment === segmentFilter)
       .filter(c => {
         if (!searchQuery) return true;
         const q = searchQuery.toLowerCase();
         return c.name.toLowerCase().includes(q) || c.phone.includes(q);
       });
     return sortCustomers(filtered);
-  }, [initialCustomers, gradeFilter, genderFilter, searchQuery, sortCustomers]);
+  }, [initialCustomers, gradeFilter, genderFilter, segmentFilter, rfmByCustomer, searchQuery, sortCustomers]);
 
   // Group by grade (only when grade filter is 'all')
   const groupedByGrade = useMemo(() => {
@@ -108,15 +139,21 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
     return { total, regularVip, recentBuyers };
   }, [initialCustomers]);
 
-  const hasActiveFilters = gradeFilter !== 'all' || genderFilter !== 'all' || searchQuery !== '' || sortBy !== 'newest';
+  const hasActiveFilters = gradeFilter !== 'all' || genderFilter !== 'all' || segmentFilter !== 'all' || searchQuery !== '' || sortBy !== 'newest';
 
   const resetFilters = () => {
     setGradeFilter('all');
     setGenderFilter('all');
+    setSegmentFilter('all');
     setSearchQuery('');
     setSortBy('newest');
   };
 
+  const getSegmentLabel = useCallback(
+    (c: Customer) => CUSTOMER_SEGMENT_LABELS[rfmByCustomer.get(c.id)?.segment || 'no_purchase'].label,
+    [rfmByCustomer]
+  );
+
   const getExportConfig = useCallback((): ExportConfig<Customer> => ({
     filename: `고객_${format(new Date(), 'yyyy-MM-dd')}`,
     title: '고객 목록',
@@ -124,6 +161,7 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
       { header: '이름', accessor: (c) => String(c.name || '') },
       { header: '전화번호', accessor: (c) => String(c.phone || '') },
       { header: '등급', accessor: (c) => gradeLabels[c.grade]?.label || c.grade || '' },
+      { header: '세그먼트', accessor: getSegmentLabel },
       { header: '성별', accessor: (c) => c.gender ? genderLabels[c.gender] || '' : '' },
       { header: '구매횟수', accessor: (c) => Number(c.total_purchase_count) || 0 },
       { header: '총구매금액', accessor: (c) => Number(c.total_purchase_amount) || 0, format: 'currency' },
@@ -131,7 +169,33 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
       { header: '메모', accessor: (c) => String(c.note || '') },
     ],
     data: filteredCustomers,
-  }), [filteredCustomers]);
+  }), [filteredCustomers, getSegmentLabel]);
+
+  // 세그먼트 목록 엑셀 (RFM 점수 포함, 검색/등급 필터와 무관하게 세그먼트 전체)
+  const handleSegmentExport = async (segment: CustomerSegment) => {
+    const rfm = (c: Customer): CustomerRfm => rfmByCustomer.get(c.id)!;
+    const { exportToExcel } = await import('@/lib/export');
+    await exportToExcel<Customer>({
+      filename: `고객_${CUSTOMER_SEGMENT_LABELS[segment].label}_${format(new Date(), 'yyyy-MM-dd')}`,
+      title: CUSTOMER_SEGMENT_LABELS[segment].label,
+      columns: [
+        { header: '이름', accessor: (c) => String(c.name || '') },
+        { header: '전화번호', accessor: (c) => String(c.phone || '') },
+        { header: '등급', accessor: (c) => gradeLabels[c.grade]?.label || c.grade || '' },
+        { header: '구매횟수', accessor: (c) => rfm(c).frequency },
+        { header: '총구매금액', accessor: (c) => rfm(c).monetary, format: 'currency' },
+        { header: '최근구매일', accessor: (c) => String(c.last_purchase_date || '') },
+        { header: '경과일', accessor: (c) => rfm(c).recency_days ?? '' },
+        { header: 'R', accessor: (c) => rfm(c).r },
+        { header: 'F', accessor: (c) => rfm(c).f },
+        { header: 'M', accessor: (c) => rfm(c).m },
+        { header: '메모', accessor: (c) => String(c.note || '') },
+      ],
+      data: initialCustomers
+        .filter((c) => rfmByCustomer.get(c.id)?.segment === segment)
+        .sort((a, b) => rfm(b).monetary - rfm(a).monetary),
+    });
+  };
 
   const handleSelectCustomer = async (customer: Customer) => {
     setSelectedCustomer(customer);
@@ -147,12 +211,13 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
     }
   };
 
-  // URL 파라미터로 고객 상세 자동 오픈 (매출 페이지에서 연결)
+  // URL 파라미터로 고객 상세 자동 오픈 (매출 페이지, 기념일 알림에서 연결)
   useEffect(() => {
     const customerId = searchParams.get('customerId');
     if (customerId) {
       const customer = initialCustomers.find(c => c.id === customerId);
       if (customer) {
+        setHighlightOccasionId(searchParams.get('occasionId'));
         handleSelectCustomer(customer);
       }
       router.replace('/customers', { scroll: false });
@@ -181,7 +246,7 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
       await deleteCustomer(deleteTarget.id);
       setDeleteTarget(null);
       router.refresh();
-      toast.success('고객이 삭제되었습니다');
+      toast.success('고객을 휴지통으로 옮겼습니다');
     } catch (error) {
       console.error('Failed to delete customer:', error);
       toast.error('고객 삭제에 실패했습니다');
@@ -214,6 +279,12 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
           <p className="text-sm text-muted-foreground mt-1">고객 정보와 구매 이력을 관리하세요</p>
         </div>
         <div className="flex items-center gap-2">
+          {duplicateGroups.length > 0 && (
+            <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)}>
+              <Merge className="w-4 h-4 mr-2" />
+              중복 고객 {duplicateGroups.length}
+            </Button>
+          )}
           <ExportButton getExportConfig={getExportConfig} />
           <Button onClick={handleOpenCreateForm}>
             <Plus className="w-4 h-4 mr-2" />
@@ -265,6 +336,14 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
         </Card>
       </div>
 
+      {/* RFM Segments */}
+      <CustomerSegmentPanel
+        summary={segmentSummary}
+        selected={segmentFilter}
+        onSelect={setSegmentFilter}
+        onExport={handleSegmentExport}
+      />
+
       {/* Filters */}
       <div className="flex flex-wrap items-center gap-3">
         <Select value={gradeFilter} onValueChange={setGradeFilter}>
@@ -289,6 +368,17 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
             <SelectItem value="female">여성</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={segmentFilter} onValueChange={(v) => setSegmentFilter(v as SegmentFilter)}>
+          <SelectTrigger className="w-[130px] bg-background">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">전체 세그먼트</SelectItem>
+            {CUSTOMER_SEGMENTS.map((segment) => (
+              <SelectItem key={segment} value={segment}>{CUSTOMER_SEGMENT_LABELS[segment].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortBy)}>
           <SelectTrigger className="w-[130px] bg-background">
             <SelectValue />
@@ -405,12 +495,25 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
         isLoadingSales={isLoadingSales}
         categoryLabels={categoryLabels}
         categoryColors={categoryColors}
-        onClose={() => setSelectedCustomer(null)}
+        highlightOccasionId={highlightOccasionId}
+        onClose={() => {
+          setSelectedCustomer(null);
+          setHighlightOccasionId(null);
+        }}
         onEdit={handleEdit}
         onDelete={handleDelete}
         onSaleRegister={handleSaleRegister}
       />
 
+      {/* Duplicate Customers Dialog */}
+      <CustomerDuplicatesDialog
+        open={isDuplicatesOpen}
+        groups={duplicateGroups}
+        onOpenChange={setIsDuplicatesOpen}
+        onMerged={() => router.refresh()}
+        onExcluded={handleDuplicateExcluded}
+      />
+
       {/* Delete Confirm Dialog */}
       <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
         <DialogContent className="max-w-sm">
@@ -421,7 +524,7 @@ export function CustomersClient({ initialCustomers, initialCategories }: Props)
             <p className="text-muted-foreground text-sm">
               <span className="font-medium text-foreground">{deleteTarget?.name}</span> 고객을 삭제하시겠습니까?
             </p>
-            <p className="text-muted-foreground text-xs mt-2">연결된 매출 기록은 유지됩니다.</p>
+            <p className="text-muted-foreground text-xs mt-2">연결된 매출 기록은 유지되며, 휴지통에서 복원하면 다시 연결됩니다.</p>
           </div>
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isDeleting}>
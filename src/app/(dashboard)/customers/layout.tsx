@@ -0,0 +1,10 @@
+import { requirePageAccess } from '@/lib/auth-guard';
+
+export default async function CustomersLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requirePageAccess('/customers');
+  return children;
+}
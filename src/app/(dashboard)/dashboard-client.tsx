@@ -13,6 +13,9 @@ import {
   UserCheck,
   Users,
   Loader2,
+  TrendingUp,
+  Gift,
+  Ticket,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
@@ -23,15 +26,21 @@ import {
   getDashboardTodayData,
   getDashboardMonthData,
 } from '@/lib/actions/dashboard';
-import type { DashboardSummary } from '@/lib/actions/dashboard';
+import type { DashboardSummary, DashboardOccasion } from '@/lib/actions/dashboard';
+import { formatDaysUntil, getOccasionTitle, getOccasionYearsLabel } from '@/lib/occasions';
 import type {
   CategoryStat,
   PaymentMethodStat,
   ChannelStat,
   CustomerStat,
   ExpenseCategoryStat,
+  WasteStat,
+  CategoryMarginStat,
 } from '@/lib/actions/statistics';
-import { formatCurrency } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
+import { getMarginRate } from '@/lib/recipes';
+import type { GiftVoucherFlow } from '@/lib/gift-vouchers';
+import { getSalePaymentMethods } from '@/lib/sale-payments';
 
 function getMonthOptions() {
   const options = [];
@@ -85,9 +94,14 @@ const paymentLabels: Record<string, string> = {
   card: '카드',
   transfer: '계좌이체',
   naverpay: '네이버페이',
+  voucher: '선불권',
 };
 
-export function DashboardClient() {
+interface Props {
+  showMonthly: boolean;
+}
+
+export function DashboardClient({ showMonthly }: Props) {
   const now = new Date();
   const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
   const monthOptions = getMonthOptions();
@@ -97,6 +111,7 @@ export function DashboardClient() {
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [recentSales, setRecentSales] = useState<Sale[]>([]);
   const [categoryLabels, setCategoryLabels] = useState<Record<string, string>>({});
+  const [upcomingOccasions, setUpcomingOccasions] = useState<DashboardOccasion[]>([]);
   const [isTodayLoading, setIsTodayLoading] = useState(true);
 
   // Monthly data (changes with month selector)
@@ -108,7 +123,11 @@ export function DashboardClient() {
   const [channelStats, setChannelStats] = useState<ChannelStat[]>([]);
   const [customerStats, setCustomerStats] = useState<CustomerStat | null>(null);
   const [expenseStats, setExpenseStats] = useState<ExpenseCategoryStat[]>([]);
-  const [isMonthLoading, setIsMonthLoading] = useState(true);
+  const [wasteStats, setWasteStats] = useState<WasteStat[]>([]);
+  const [wasteTotal, setWasteTotal] = useState(0);
+  const [marginStats, setMarginStats] = useState<CategoryMarginStat[]>([]);
+  const [voucherFlow, setVoucherFlow] = useState<GiftVoucherFlow | null>(null);
+  const [isMonthLoading, setIsMonthLoading] = useState(showMonthly);
 
   const statusMap = useMemo(() => new Map(RESERVATION_STATUS.map((s) => [s.value, s])), []);
 
@@ -122,6 +141,7 @@ export function DashboardClient() {
         setReservations(data.reservations);
         setRecentSales(data.recentSales);
         setCategoryLabels(Object.fromEntries(data.saleCategories.map((c) => [c.value, c.label])));
+        setUpcomingOccasions(data.upcomingOccasions);
       } catch (error) {
         console.error('Failed to fetch today data:', error);
       } finally {
@@ -133,6 +153,7 @@ export function DashboardClient() {
 
   // Fetch monthly data (when month changes) - 단일 Server Action (기존 7개 → 1개 HTTP)
   useEffect(() => {
+    if (!showMonthly) return;
     async function fetchMonthData() {
       setIsMonthLoading(true);
       try {
@@ -144,6 +165,10 @@ export function DashboardClient() {
         setChannelStats(data.channelStats);
         setCustomerStats(data.customerStats);
         setExpenseStats(data.expenseStats);
+        setWasteStats(data.wasteStats);
+        setWasteTotal(data.wasteTotal);
+        setMarginStats(data.marginStats);
+        setVoucherFlow(data.voucherFlow);
       } catch (error) {
         console.error('Failed to fetch month data:', error);
       } finally {
@@ -151,7 +176,7 @@ export function DashboardClient() {
       }
     }
     fetchMonthData();
-  }, [selectedMonth]);
+  }, [selectedMonth, showMonthly]);
 
   const totalSales = monthSummary?.totalAmount || 0;
   const netProfit = totalSales - monthExpenseTotal;
@@ -166,18 +191,20 @@ export function DashboardClient() {
             {format(now, 'yyyy년 M월 d일 (EEEE)', { locale: ko })}
           </p>
         </div>
-        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-          <SelectTrigger className="w-[150px] bg-background">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {monthOptions.map((o) => (
-              <SelectItem key={o.value} value={o.value}>
-                {o.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        {showMonthly && (
+          <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+            <SelectTrigger className="w-[150px] bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {monthOptions.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -202,42 +229,46 @@ export function DashboardClient() {
               </p>
             </CardContent>
           </Card>
-          <Card>
-            <CardContent className="p-4">
-              <p className="text-xs text-muted-foreground">
-                {monthOptions.find((o) => o.value === selectedMonth)?.label || '이번 달'} 매출
-              </p>
-              <p className="text-lg font-bold text-foreground mt-1 tabular-nums">
-                {formatCurrency(totalSales)}
-              </p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="p-4">
-              <p className="text-xs text-muted-foreground">
-                {monthOptions.find((o) => o.value === selectedMonth)?.label || '이번 달'} 지출
-              </p>
-              <p className="text-lg font-bold text-foreground mt-1 tabular-nums">
-                {formatCurrency(monthExpenseTotal)}
-              </p>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="p-4">
-              <p className="text-xs text-muted-foreground">순이익</p>
-              <p
-                className={`text-lg font-bold mt-1 tabular-nums ${netProfit >= 0 ? 'text-foreground' : 'text-destructive'}`}
-              >
-                {formatCurrency(netProfit)}
-              </p>
-              <p className="text-[10px] text-muted-foreground mt-0.5">매출 - 지출</p>
-            </CardContent>
-          </Card>
+          {showMonthly && (
+            <>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">
+                    {monthOptions.find((o) => o.value === selectedMonth)?.label || '이번 달'} 매출
+                  </p>
+                  <p className="text-lg font-bold text-foreground mt-1 tabular-nums">
+                    {formatCurrency(totalSales)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">
+                    {monthOptions.find((o) => o.value === selectedMonth)?.label || '이번 달'} 지출
+                  </p>
+                  <p className="text-lg font-bold text-foreground mt-1 tabular-nums">
+                    {formatCurrency(monthExpenseTotal)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">순이익</p>
+                  <p
+                    className={`text-lg font-bold mt-1 tabular-nums ${netProfit >= 0 ? 'text-foreground' : 'text-destructive'}`}
+                  >
+                    {formatCurrency(netProfit)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">매출 - 지출</p>
+                </CardContent>
+              </Card>
+            </>
+          )}
         </div>
       )}
 
       {/* Pending Deposits Alert */}
-      {todaySummary && todaySummary.pendingCount > 0 && (
+      {showMonthly && todaySummary && todaySummary.pendingCount > 0 && (
         <Card className="border-brand/20 bg-brand-muted/50">
           <CardContent className="p-4">
             <div className="flex items-center gap-3">
@@ -263,6 +294,61 @@ export function DashboardClient() {
         </Card>
       )}
 
+      {/* Upcoming Occasions */}
+      {upcomingOccasions.length > 0 && (
+        <Card className="overflow-hidden">
+          <div className="px-4 py-3 bg-muted/50 border-b border-border">
+            <h2 className="text-sm font-medium text-foreground flex items-center gap-2">
+              <Gift className="h-4 w-4 text-brand" />
+              다가오는 기념일
+              <span className="text-muted-foreground">({upcomingOccasions.length}건)</span>
+            </h2>
+          </div>
+          <CardContent className="p-4">
+            <div className="space-y-1">
+              {upcomingOccasions.map((occasion) => {
+                const yearsLabel = getOccasionYearsLabel(occasion);
+                const content = (
+                  <>
+                    <span
+                      className={cn(
+                        'text-xs font-medium w-11 shrink-0 tabular-nums',
+                        occasion.days_until <= 1 ? 'text-brand' : 'text-muted-foreground',
+                      )}
+                    >
+                      {formatDaysUntil(occasion.days_until)}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        {occasion.customer.name} · {getOccasionTitle(occasion)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(occasion.date), 'M월 d일 (EEE)', { locale: ko })}
+                        {yearsLabel && ` · ${yearsLabel}`}
+                      </p>
+                    </div>
+                  </>
+                );
+                return showMonthly ? (
+                  <Link
+                    key={occasion.id}
+                    href={`/customers?customerId=${occasion.customer_id}&occasionId=${occasion.id}`}
+                    className="flex items-center gap-3 py-2 border-b border-border last:border-0 hover:bg-muted/50 transition-colors"
+                  >
+                    {content}
+                    <ArrowUpRight className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                  </Link>
+                ) : (
+                  <div key={occasion.id} className="flex items-center gap-3 py-2 border-b border-border last:border-0">
+                    {content}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Two Column: Reservations + Recent Sales */}
       <div className="grid lg:grid-cols-2 gap-4">
         {/* Today's Reservations */}
@@ -393,7 +479,7 @@ export function DashboardClient() {
                             sale.product_name}
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          {paymentLabels[sale.payment_method] || sale.payment_method}
+                          {getSalePaymentMethods(sale).map((method) => paymentLabels[method] || method).join(' + ')}
                           {sale.customer_name ? ` · ${sale.customer_name}` : ''}
                         </p>
                       </div>
@@ -420,161 +506,253 @@ export function DashboardClient() {
       </div>
 
       {/* Monthly Analysis Section */}
-      <div>
-        <div className="mb-4">
-          <div className="flex items-center gap-2">
-            <h2 className="text-sm font-semibold text-foreground">
-              {monthOptions.find((o) => o.value === selectedMonth)?.label || '이번 달'} 분석
-            </h2>
-            {isMonthLoading && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" aria-label="로딩 중" />}
+      {showMonthly && (
+        <div>
+          <div className="mb-4">
+            <div className="flex items-center gap-2">
+              <h2 className="text-sm font-semibold text-foreground">
+                {monthOptions.find((o) => o.value === selectedMonth)?.label || '이번 달'} 분석
+              </h2>
+              {isMonthLoading && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" aria-label="로딩 중" />}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">어떤 상품이 잘 팔렸는지, 어떤 결제방식이 많았는지 한눈에 볼 수 있어요</p>
           </div>
-          <p className="text-xs text-muted-foreground mt-1">어떤 상품이 잘 팔렸는지, 어떤 결제방식이 많았는지 한눈에 볼 수 있어요</p>
-        </div>
 
-        {/* Customer + Summary row */}
-        {!isMonthLoading && customerStats && (
-          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
-            <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
-                    <Users className="h-3.5 w-3.5 text-muted-foreground" />
-                  </div>
-                  <div className="min-w-0">
-                    <p className="text-xs text-muted-foreground">구매 고객</p>
-                    <p className="text-base font-bold text-foreground tabular-nums">{customerStats.totalCustomers}명</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
-                    <UserPlus className="h-3.5 w-3.5 text-muted-foreground" />
-                  </div>
-                  <div className="min-w-0">
-                    <p className="text-xs text-muted-foreground">첫 방문</p>
-                    <p className="text-base font-bold text-foreground tabular-nums">{customerStats.newCustomers}명</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4">
-                <div className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
-                    <UserCheck className="h-3.5 w-3.5 text-muted-foreground" />
+          {/* Customer + Summary row */}
+          {!isMonthLoading && customerStats && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                      <Users className="h-3.5 w-3.5 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">구매 고객</p>
+                      <p className="text-base font-bold text-foreground tabular-nums">{customerStats.totalCustomers}명</p>
+                    </div>
                   </div>
-                  <div className="min-w-0">
-                    <p className="text-xs text-muted-foreground">다시 온 고객</p>
-                    <p className="text-base font-bold text-foreground tabular-nums">{customerStats.returningCustomers}명</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                      <UserPlus className="h-3.5 w-3.5 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">첫 방문</p>
+                      <p className="text-base font-bold text-foreground tabular-nums">{customerStats.newCustomers}명</p>
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-        )}
-
-        {/* Analysis Cards */}
-        {isMonthLoading ? (
-          <div className="grid lg:grid-cols-2 gap-4">
-            {[...Array(2)].map((_, i) => (
-              <Card key={i}>
-                <CardContent className="p-4 space-y-4">
-                  <div className="space-y-1">
-                    <Skeleton className="h-4 w-28" />
-                    <Skeleton className="h-3 w-48" />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                      <UserCheck className="h-3.5 w-3.5 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-xs text-muted-foreground">다시 온 고객</p>
+                      <p className="text-base font-bold text-foreground tabular-nums">{customerStats.returningCustomers}명</p>
+                    </div>
                   </div>
-                  {[...Array(4)].map((_, j) => (
-                    <div key={j} className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Skeleton className="h-3 w-3 rounded-full" />
-                        <Skeleton className="h-3 w-20" />
+                </CardContent>
+              </Card>
+              {monthSummary && (
+                <Card>
+                  <CardContent className="p-4">
+                    <div className="flex items-center gap-3">
+                      <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                        <TrendingUp className="h-3.5 w-3.5 text-muted-foreground" />
                       </div>
-                      <Skeleton className="h-3 w-16" />
+                      <div className="min-w-0">
+                        <p className="text-xs text-muted-foreground">총이익 (추정)</p>
+                        <p className={`text-base font-bold tabular-nums ${monthSummary.grossMargin >= 0 ? 'text-foreground' : 'text-destructive'}`}>
+                          {formatCurrency(monthSummary.grossMargin)}
+                        </p>
+                        <p className="text-[10px] text-muted-foreground tabular-nums truncate">
+                          원가 {formatCurrency(monthSummary.cogsAmount)} · {getMarginRate(monthSummary.totalAmount, monthSummary.grossMargin)}%
+                        </p>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+
+          {/* Analysis Cards */}
+          {isMonthLoading ? (
+            <div className="grid lg:grid-cols-2 gap-4">
+              {[...Array(2)].map((_, i) => (
+                <Card key={i}>
+                  <CardContent className="p-4 space-y-4">
+                    <div className="space-y-1">
+                      <Skeleton className="h-4 w-28" />
+                      <Skeleton className="h-3 w-48" />
                     </div>
-                  ))}
+                    {[...Array(4)].map((_, j) => (
+                      <div key={j} className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Skeleton className="h-3 w-3 rounded-full" />
+                          <Skeleton className="h-3 w-20" />
+                        </div>
+                        <Skeleton className="h-3 w-16" />
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-2 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                    <ShoppingBag className="h-3.5 w-3.5 text-brand" />
+                    카테고리별 매출
+                  </h3>
+                  <p className="text-[11px] text-muted-foreground mb-4">어떤 상품이 가장 많이 팔렸는지 보여줘요</p>
+                  <BarList
+                    items={categoryStats.map((c) => ({
+                      label: categoryLabels[c.name] || c.name,
+                      amount: c.amount,
+                      percentage: c.percentage,
+                    }))}
+                    emptyMessage="매출 데이터가 없습니다"
+                  />
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        ) : (
-          <div className="grid lg:grid-cols-2 gap-4">
-            <Card>
-              <CardContent className="p-4">
-                <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
-                  <ShoppingBag className="h-3.5 w-3.5 text-brand" />
-                  카테고리별 매출
-                </h3>
-                <p className="text-[11px] text-muted-foreground mb-4">어떤 상품이 가장 많이 팔렸는지 보여줘요</p>
-                <BarList
-                  items={categoryStats.map((c) => ({
-                    label: categoryLabels[c.name] || c.name,
-                    amount: c.amount,
-                    percentage: c.percentage,
-                  }))}
-                  emptyMessage="매출 데이터가 없습니다"
-                />
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4">
-                <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
-                  <ShoppingBag className="h-3.5 w-3.5 text-brand" />
-                  결제방식별 매출
-                </h3>
-                <p className="text-[11px] text-muted-foreground mb-4">카드, 현금, 이체 등 결제수단별 비율이에요</p>
-                <BarList
-                  items={paymentStats.map((p) => ({
-                    label: p.label,
-                    amount: p.amount,
-                    percentage: p.percentage,
-                  }))}
-                  emptyMessage="매출 데이터가 없습니다"
-                  barColor="bg-foreground/20"
-                />
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4">
-                <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
-                  <ShoppingBag className="h-3.5 w-3.5 text-brand" />
-                  예약채널별 매출
-                </h3>
-                <p className="text-[11px] text-muted-foreground mb-4">전화, 카카오톡, 네이버 등 주문 경로별 비율이에요</p>
-                <BarList
-                  items={channelStats.map((c) => ({
-                    label: c.label,
-                    amount: c.amount,
-                    percentage: c.percentage,
-                  }))}
-                  emptyMessage="매출 데이터가 없습니다"
-                  barColor="bg-brand/40"
-                />
-              </CardContent>
-            </Card>
-            <Card>
-              <CardContent className="p-4">
-                <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
-                  <ShoppingBag className="h-3.5 w-3.5 text-brand" />
-                  지출 카테고리
-                </h3>
-                <p className="text-[11px] text-muted-foreground mb-4">꽃 구매, 배달비, 임대료 등 어디에 돈을 쓰고 있는지 보여줘요</p>
-                <BarList
-                  items={expenseStats.map((e) => ({
-                    label: e.label,
-                    amount: e.amount,
-                    percentage: e.percentage,
-                  }))}
-                  emptyMessage="지출 데이터가 없습니다"
-                  barColor="bg-destructive/30"
-                />
-              </CardContent>
-            </Card>
-          </div>
-        )}
-      </div>
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                    <ShoppingBag className="h-3.5 w-3.5 text-brand" />
+                    결제방식별 매출
+                  </h3>
+                  <p className="text-[11px] text-muted-foreground mb-4">카드, 현금, 이체 등 결제수단별 비율이에요</p>
+                  <BarList
+                    items={paymentStats.map((p) => ({
+                      label: p.label,
+                      amount: p.amount,
+                      percentage: p.percentage,
+                    }))}
+                    emptyMessage="매출 데이터가 없습니다"
+                    barColor="bg-foreground/20"
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                    <ShoppingBag className="h-3.5 w-3.5 text-brand" />
+                    예약채널별 매출
+                  </h3>
+                  <p className="text-[11px] text-muted-foreground mb-4">전화, 카카오톡, 네이버 등 주문 경로별 비율이에요</p>
+                  <BarList
+                    items={channelStats.map((c) => ({
+                      label: c.label,
+                      amount: c.amount,
+                      percentage: c.percentage,
+                    }))}
+                    emptyMessage="매출 데이터가 없습니다"
+                    barColor="bg-brand/40"
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                    <ShoppingBag className="h-3.5 w-3.5 text-brand" />
+                    지출 카테고리
+                  </h3>
+                  <p className="text-[11px] text-muted-foreground mb-4">꽃 구매, 배달비, 임대료 등 어디에 돈을 쓰고 있는지 보여줘요</p>
+                  <BarList
+                    items={expenseStats.map((e) => ({
+                      label: e.label,
+                      amount: e.amount,
+                      percentage: e.percentage,
+                    }))}
+                    emptyMessage="지출 데이터가 없습니다"
+                    barColor="bg-destructive/30"
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                    <ShoppingBag className="h-3.5 w-3.5 text-brand" />
+                    폐기 손실
+                    {wasteTotal > 0 && (
+                      <span className="ml-auto text-xs font-normal text-destructive tabular-nums">{formatCurrency(wasteTotal)}</span>
+                    )}
+                  </h3>
+                  <p className="text-[11px] text-muted-foreground mb-4">시들거나 팔지 못해 버린 꽃·소모품을 입고 단가로 계산했어요</p>
+                  <BarList
+                    items={wasteStats.map((w) => ({
+                      label: `${w.name} ×${w.quantity}`,
+                      amount: w.cost,
+                      percentage: w.percentage,
+                    }))}
+                    emptyMessage="폐기 기록이 없습니다"
+                    barColor="bg-destructive/30"
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                    <ShoppingBag className="h-3.5 w-3.5 text-brand" />
+                    카테고리별 총이익
+                  </h3>
+                  <p className="text-[11px] text-muted-foreground mb-4">레시피 원가를 뺀 이익과 이익률이에요 (레시피가 있는 상품만)</p>
+                  <BarList
+                    items={marginStats.map((m) => ({
+                      label: categoryLabels[m.name] || m.name,
+                      amount: m.margin,
+                      percentage: m.marginRate,
+                    }))}
+                    emptyMessage="레시피가 등록된 상품 매출이 없습니다"
+                    barColor="bg-brand/40"
+                  />
+                </CardContent>
+              </Card>
+              {voucherFlow && (voucherFlow.soldAmount > 0 || voucherFlow.redeemedAmount > 0 || voucherFlow.outstandingAmount > 0) && (
+                <Card>
+                  <CardContent className="p-4">
+                    <h3 className="text-sm font-medium text-foreground mb-1 flex items-center gap-2">
+                      <Ticket className="h-3.5 w-3.5 text-brand" />
+                      선불권
+                    </h3>
+                    <p className="text-[11px] text-muted-foreground mb-4">판매한 선불권은 받은 돈(선수금)이고, 매출은 사용한 만큼만 잡혀요</p>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">판매 {voucherFlow.soldCount}장 (받은 돈)</span>
+                        <span className="tabular-nums">{formatCurrency(voucherFlow.soldAmount)}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">사용 (매출 반영)</span>
+                        <span className="tabular-nums">{formatCurrency(voucherFlow.redeemedAmount)}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">미사용 잔액 (오늘 기준)</span>
+                        <span className="tabular-nums">{formatCurrency(voucherFlow.outstandingAmount)}</span>
+                      </div>
+                      <div className="flex items-center justify-between border-t border-border pt-2">
+                        <span className="text-muted-foreground">받은 돈 기준 매출</span>
+                        <span className="font-medium tabular-nums">
+                          {formatCurrency(totalSales - voucherFlow.redeemedAmount + voucherFlow.soldAmount)}
+                        </span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
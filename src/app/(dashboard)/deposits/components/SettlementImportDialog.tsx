@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { AlertTriangle, CheckCircle2, FileUp, HelpCircle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { reconcileSettlementRows, confirmSettlementDeposits } from '@/lib/actions/deposits';
+import type { SettlementConfirmEntry } from '@/lib/actions/deposits';
+import { parseSettlementCSV, getExpectedDepositAmount } from '@/lib/settlement';
+import type { SettlementMatch, SettlementReconciliation } from '@/lib/settlement';
+import { formatCurrency } from '@/lib/utils';
+import type { CardPayment } from '@/types/database';
+
+interface SettlementImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirmed: (entries: SettlementConfirmEntry[]) => void;
+}
+
+type Bucket = 'matched' | 'mismatched' | 'unmatched';
+
+// 카드사 CSV는 EUC-KR인 경우가 많아 UTF-8로 깨지면 다시 디코딩
+async function readCSVFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  return new TextDecoder('euc-kr').decode(buffer);
+}
+
+function toConfirmEntry(match: SettlementMatch<CardPayment>): SettlementConfirmEntry {
+  return {
+    payment_id: match.sale!.id,
+    deposited_amount: match.row.amount,
+    deposit_date: match.row.deposit_date,
+  };
+}
+
+export function SettlementImportDialog({ open, onOpenChange, onConfirmed }: SettlementImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [result, setResult] = useState<SettlementReconciliation<CardPayment> | null>(null);
+  const [bucket, setBucket] = useState<Bucket>('matched');
+  const [includedMismatches, setIncludedMismatches] = useState<Set<number>>(new Set());
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setParseErrors([]);
+    setResult(null);
+    setBucket('matched');
+    setIncludedMismatches(new Set());
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    setIsProcessing(true);
+    try {
+      const text = await readCSVFile(file);
+      const parsed = parseSettlementCSV(text);
+      setParseErrors(parsed.errors);
+      if (parsed.rows.length === 0) return;
+
+      const reconciliation = await reconcileSettlementRows(parsed.rows);
+      setResult(reconciliation);
+      setBucket(reconciliation.matched.length > 0 ? 'matched' : reconciliation.mismatched.length > 0 ? 'mismatched' : 'unmatched');
+    } catch {
+      toast.error('정산내역을 대조하는데 실패했습니다');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const toggleMismatch = (line: number) => {
+    const next = new Set(includedMismatches);
+    if (next.has(line)) next.delete(line);
+    else next.add(line);
+    setIncludedMismatches(next);
+  };
+
+  const confirmTargets = result
+    ? [...result.matched, ...result.mismatched.filter((m) => includedMismatches.has(m.row.line))]
+    : [];
+
+  const handleConfirm = async () => {
+    if (confirmTargets.length === 0) return;
+    setIsConfirming(true);
+    try {
+      const entries = confirmTargets.map(toConfirmEntry);
+      const confirmed = await confirmSettlementDeposits(entries);
+      const skipped = entries.length - confirmed;
+      toast.success(`${confirmed}건의 입금이 확정되었습니다${skipped > 0 ? ` (이미 처리된 ${skipped}건 제외)` : ''}`);
+      onConfirmed(entries);
+      handleOpenChange(false);
+    } catch {
+      toast.error('입금 확정 처리에 실패했습니다');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const visible = result ? result[bucket] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>정산내역 가져오기</DialogTitle>
+          <DialogDescription>
+            카드사/VAN 정산내역 CSV를 올리면 미입금 카드 결제와 자동으로 대조해요
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isProcessing}>
+              {isProcessing ? (
+                <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+              ) : (
+                <FileUp className="w-3.5 h-3.5 mr-1.5" />
+              )}
+              CSV 선택
+            </Button>
+            <span className="text-sm text-muted-foreground truncate">
+              {fileName || '카드사, 입금일, 입금액 열이 필요해요 (매출일 열은 선택)'}
+            </span>
+          </div>
+
+          {parseErrors.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-950/20 dark:border-amber-900 p-3 text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+              {parseErrors.slice(0, 5).map((message) => (
+                <p key={message}>{message}</p>
+              ))}
+              {parseErrors.length > 5 && <p>외 {parseErrors.length - 5}건</p>}
+            </div>
+          )}
+
+          {result && (
+            <>
+              <Tabs value={bucket} onValueChange={(v) => setBucket(v as Bucket)}>
+                <TabsList>
+                  <TabsTrigger value="matched" className="gap-1.5">
+                    <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />
+                    일치
+                    <Badge variant="secondary" className="ml-1 text-[10px] px-1.5 py-0 h-4 rounded">{result.matched.length}</Badge>
+                  </TabsTrigger>
+                  <TabsTrigger value="mismatched" className="gap-1.5">
+                    <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+                    금액 불일치
+                    <Badge variant="secondary" className="ml-1 text-[10px] px-1.5 py-0 h-4 rounded">{result.mismatched.length}</Badge>
+                  </TabsTrigger>
+                  <TabsTrigger value="unmatched" className="gap-1.5">
+                    <HelpCircle className="h-3.5 w-3.5 text-muted-foreground" />
+                    미대조
+                    <Badge variant="secondary" className="ml-1 text-[10px] px-1.5 py-0 h-4 rounded">{result.unmatched.length}</Badge>
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {visible.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">해당하는 내역이 없어요</p>
+              ) : (
+                <ul className="divide-y rounded-lg border">
+                  {visible.map((match) => (
+                    <li key={match.row.line} className="flex items-center gap-3 p-3 text-sm">
+                      {bucket === 'mismatched' && (
+                        <Checkbox
+                          checked={includedMismatches.has(match.row.line)}
+                          onCheckedChange={() => toggleMismatch(match.row.line)}
+                          aria-label={`${match.row.line}행 입금 확정에 포함`}
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{match.row.card_company}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(match.row.deposit_date), 'M/d')} 입금 · {match.row.line}행
+                          </span>
+                        </div>
+                        {match.sale ? (
+                          <p className="text-xs text-muted-foreground truncate mt-0.5">
+                            {format(new Date(match.sale.date), 'M/d')} {match.sale.product_name}
+                            {match.sale.customer_name && ` · ${match.sale.customer_name}`}
+                            {' · 예상 '}
+                            {formatCurrency(getExpectedDepositAmount(match.sale))}
+                          </p>
+                        ) : (
+                          <p className="text-xs text-muted-foreground mt-0.5">대조할 미입금 카드 결제를 찾지 못했어요</p>
+                        )}
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className="font-medium tabular-nums">{formatCurrency(match.row.amount)}</p>
+                        {match.difference !== 0 && (
+                          <p className={`text-xs tabular-nums ${match.difference > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                            {match.difference > 0 ? '+' : ''}{formatCurrency(match.difference)}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-xs text-muted-foreground">
+                  실제 입금액과 입금일로 기록돼요
+                </p>
+                <Button size="sm" onClick={handleConfirm} disabled={isConfirming || confirmTargets.length === 0}>
+                  {isConfirming && <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />}
+                  {confirmTargets.length}건 입금 확정
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,10 @@
+import { requirePageAccess } from '@/lib/auth-guard';
+
+export default async function DepositsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requirePageAccess('/deposits');
+  return children;
+}
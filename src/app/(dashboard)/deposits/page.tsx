@@ -34,14 +34,17 @@ import {
   Filter,
   X,
   ExternalLink,
+  FileUp,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { getDeposits, confirmMultipleDeposits, revertDeposit } from '@/lib/actions/deposits';
-import type { Sale } from '@/types/database';
+import type { SettlementConfirmEntry } from '@/lib/actions/deposits';
+import type { CardPayment } from '@/types/database';
 import { formatCurrency } from '@/lib/utils';
+import { SettlementImportDialog } from './components/SettlementImportDialog';
 
 function getMonthOptions() {
   const options = [];
@@ -60,7 +63,7 @@ type SortField = 'date' | 'amount' | 'card_company';
 type SortDir = 'asc' | 'desc';
 
 export default function DepositsPage() {
-  const [sales, setSales] = useState<Sale[]>([]);
+  const [sales, setSales] = useState<CardPayment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(() => {
     const now = new Date();
@@ -69,11 +72,12 @@ export default function DepositsPage() {
   const [activeTab, setActiveTab] = useState('pending');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isConfirming, setIsConfirming] = useState(false);
-  const [revertDialog, setRevertDialog] = useState<{ open: boolean; sale: Sale | null }>({ open: false, sale: null });
+  const [revertDialog, setRevertDialog] = useState<{ open: boolean; sale: CardPayment | null }>({ open: false, sale: null });
   const [isReverting, setIsReverting] = useState(false);
   const [cardFilter, setCardFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('date');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
+  const [isSettlementOpen, setIsSettlementOpen] = useState(false);
   const monthOptions = getMonthOptions();
 
   // Fetch data via server action
@@ -109,7 +113,7 @@ export default function DepositsPage() {
 
   // Filter + Sort
   const filterAndSort = useCallback(
-    (items: Sale[]) => {
+    (items: CardPayment[]) => {
       let filtered = items;
       if (cardFilter !== 'all') {
         filtered = filtered.filter((s) => s.card_company === cardFilter);
@@ -130,7 +134,7 @@ export default function DepositsPage() {
 
   // Summary
   const pendingTotal = useMemo(() => pendingSales.reduce((sum, s) => sum + (s.expected_deposit || s.amount), 0), [pendingSales]);
-  const completedTotal = useMemo(() => completedSales.reduce((sum, s) => sum + (s.expected_deposit || s.amount), 0), [completedSales]);
+  const completedTotal = useMemo(() => completedSales.reduce((sum, s) => sum + (s.deposited_amount ?? (s.expected_deposit || s.amount)), 0), [completedSales]);
   const totalCardSales = pendingTotal + completedTotal;
   const completionRate = totalCardSales > 0 ? Math.round((completedTotal / totalCardSales) * 100) : 0;
 
@@ -177,6 +181,25 @@ export default function DepositsPage() {
     }
   };
 
+  // 정산내역으로 확정된 카드 결제 반영 (다른 달 결제는 목록에 없으면 무시)
+  const handleSettlementConfirmed = (entries: SettlementConfirmEntry[]) => {
+    const byId = new Map(entries.map((e) => [e.payment_id, e]));
+    setSales((prev) =>
+      prev.map((s) => {
+        const entry = byId.get(s.id);
+        return entry
+          ? {
+              ...s,
+              deposit_status: 'completed' as const,
+              deposited_at: `${entry.deposit_date}T00:00:00+09:00`,
+              deposited_amount: entry.deposited_amount,
+            }
+          : s;
+      })
+    );
+    setSelectedIds(new Set());
+  };
+
   const handleRevert = async () => {
     if (!revertDialog.sale) return;
     setIsReverting(true);
@@ -185,7 +208,7 @@ export default function DepositsPage() {
       setSales((prev) =>
         prev.map((s) =>
           s.id === revertDialog.sale!.id
-            ? { ...s, deposit_status: 'pending' as const, deposited_at: undefined }
+            ? { ...s, deposit_status: 'pending' as const, deposited_at: undefined, deposited_amount: undefined }
             : s
         )
       );
@@ -226,18 +249,24 @@ export default function DepositsPage() {
           <h1 className="text-xl font-semibold text-foreground tracking-tight">입금 대조</h1>
           <p className="text-sm text-muted-foreground mt-1 hidden sm:block">카드로 결제받은 금액이 통장에 들어왔는지 확인하는 곳이에요</p>
         </div>
-        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-          <SelectTrigger className="w-[130px] sm:w-[150px] bg-background shrink-0">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {monthOptions.map((o) => (
-              <SelectItem key={o.value} value={o.value}>
-                {o.label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={() => setIsSettlementOpen(true)}>
+            <FileUp className="w-3.5 h-3.5 sm:mr-1.5" />
+            <span className="hidden sm:inline">정산내역 가져오기</span>
+          </Button>
+          <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+            <SelectTrigger className="w-[130px] sm:w-[150px] bg-background shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {monthOptions.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -454,7 +483,7 @@ export default function DepositsPage() {
                                     <div className="flex items-center gap-1.5">
                                       <span className="truncate">{sale.product_name}</span>
                                       <Link
-                                        href={`/sales?year=${new Date(sale.date).getFullYear()}&month=${new Date(sale.date).getMonth() + 1}&saleId=${sale.id}`}
+                                        href={`/sales?year=${new Date(sale.date).getFullYear()}&month=${new Date(sale.date).getMonth() + 1}&saleId=${sale.sale_id}`}
                                         className="text-brand hover:text-brand/80 shrink-0 transition-colors"
                                         title="매출 상세 보기"
                                       >
@@ -610,7 +639,7 @@ export default function DepositsPage() {
                                   </Badge>
                                 </TableCell>
                                 <TableCell className="text-right font-semibold text-foreground tabular-nums">
-                                  {formatCurrency(sale.expected_deposit || sale.amount)}
+                                  {formatCurrency(sale.deposited_amount ?? (sale.expected_deposit || sale.amount))}
                                 </TableCell>
                                 <TableCell className="text-muted-foreground text-sm tabular-nums">
                                   {sale.deposited_at
@@ -667,7 +696,7 @@ export default function DepositsPage() {
                             </div>
                             <div className="flex items-center gap-2 shrink-0">
                               <span className="font-semibold text-foreground tabular-nums text-sm">
-                                {formatCurrency(sale.expected_deposit || sale.amount)}
+                                {formatCurrency(sale.deposited_amount ?? (sale.expected_deposit || sale.amount))}
                               </span>
                               <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
@@ -712,6 +741,12 @@ export default function DepositsPage() {
         )}
       </div>
 
+      <SettlementImportDialog
+        open={isSettlementOpen}
+        onOpenChange={setIsSettlementOpen}
+        onConfirmed={handleSettlementConfirmed}
+      />
+
       {/* Revert Confirmation Dialog */}
       <Dialog open={revertDialog.open} onOpenChange={(open) => setRevertDialog({ open, sale: open ? revertDialog.sale : null })}>
         <DialogContent>
@@ -207,7 +207,7 @@ export function ExpensesClient({
       setDeleteTarget(null);
       setSelectedExpense(null);
       router.refresh();
-      toast.success('지출이 삭제되었습니다');
+      toast.success('지출을 휴지통으로 옮겼습니다');
     } catch (error) {
       console.error('Failed to delete expense:', error);
       toast.error('지출 삭제에 실패했습니다');
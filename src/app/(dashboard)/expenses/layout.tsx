@@ -0,0 +1,10 @@
+import { requirePageAccess } from '@/lib/auth-guard';
+
+export default async function ExpensesLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requirePageAccess('/expenses');
+  return children;
+}
@@ -0,0 +1,10 @@
+import { requirePageAccess } from '@/lib/auth-guard';
+
+export default async function GalleryLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requirePageAccess('/gallery');
+  return children;
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createInventoryItem, updateInventoryItem } from '@/lib/actions/inventory';
+import { getFormInt, getFormString } from '@/lib/validations';
+import { INVENTORY_KIND_LABELS } from '@/lib/constants';
+import type { InventoryItem, InventoryItemKind } from '@/types/database';
+
+interface InventoryItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item?: InventoryItem | null;
+  onSuccess: () => void;
+}
+
+export function InventoryItemDialog({ open, onOpenChange, item, onSuccess }: InventoryItemDialogProps) {
+  const [kind, setKind] = useState<InventoryItemKind>('flower');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEditMode = !!item;
+
+  useEffect(() => {
+    if (open) {
+      setKind(item?.kind ?? 'flower');
+      setIsSubmitting(false);
+    }
+  }, [open, item]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const formData = new FormData(e.currentTarget);
+      const input = {
+        name: getFormString(formData, 'name'),
+        kind,
+        unit: getFormString(formData, 'unit'),
+        shelf_life_days: kind === 'flower' ? getFormInt(formData, 'shelf_life_days') : null,
+        unit_cost: getFormInt(formData, 'unit_cost') ?? 0,
+      };
+
+      if (isEditMode) {
+        await updateInventoryItem(item.id, input);
+        toast.success('품목을 수정했습니다');
+      } else {
+        await createInventoryItem(input);
+        toast.success('품목을 추가했습니다');
+      }
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '품목 저장에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{isEditMode ? '품목 수정' : '품목 추가'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5 pt-2">
+          <div className="grid grid-cols-[1fr_110px] gap-4">
+            <div className="space-y-2">
+              <Label>품목명 *</Label>
+              <Input name="name" placeholder="장미 (레드)" required className="bg-muted" defaultValue={item?.name ?? ''} />
+            </div>
+            <div className="space-y-2">
+              <Label>구분</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as InventoryItemKind)}>
+                <SelectTrigger className="bg-muted">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(INVENTORY_KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>단위 *</Label>
+              <Input
+                name="unit"
+                placeholder={kind === 'flower' ? '송이' : '개'}
+                required
+                className="bg-muted"
+                defaultValue={item?.unit ?? (kind === 'flower' ? '송이' : '개')}
+                key={`unit-${kind}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>보관일수</Label>
+              <Input
+                name="shelf_life_days"
+                type="number"
+                min={1}
+                inputMode="numeric"
+                placeholder="7"
+                disabled={kind !== 'flower'}
+                className="bg-muted"
+                defaultValue={item?.shelf_life_days ?? ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>단가</Label>
+              <Input
+                name="unit_cost"
+                type="number"
+                min={0}
+                inputMode="numeric"
+                placeholder="0"
+                className="bg-muted"
+                defaultValue={item?.unit_cost ?? ''}
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            보관일수는 입고일부터 팔 수 있는 기간이에요. 단가는 입고할 때마다 최근 단가로 바뀌어요.
+          </p>
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isSubmitting ? '저장 중...' : '저장'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
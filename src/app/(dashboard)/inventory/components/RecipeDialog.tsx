@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { saveCategoryRecipe } from '@/lib/actions/recipes';
+import { formatCurrency } from '@/lib/utils';
+import type { InventoryItem, SaleCategory, SaleCategoryRecipe } from '@/types/database';
+
+interface RecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  category: SaleCategory | null;
+  recipe: SaleCategoryRecipe[];
+  items: InventoryItem[];
+  onSuccess: () => void;
+}
+
+interface RecipeLineState {
+  item_id: string;
+  quantity: string;
+}
+
+export function RecipeDialog({ open, onOpenChange, category, recipe, items, onSuccess }: RecipeDialogProps) {
+  const [lines, setLines] = useState<RecipeLineState[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setLines(recipe.length > 0
+        ? recipe.map((line) => ({ item_id: line.item_id, quantity: String(line.quantity) }))
+        : [{ item_id: '', quantity: '1' }]);
+      setIsSubmitting(false);
+    }
+  }, [open, recipe]);
+
+  const updateLine = (index: number, patch: Partial<RecipeLineState>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...patch } : line));
+  };
+
+  // 빈 줄은 저장하지 않음 (모두 비우면 레시피 삭제)
+  const filledLines = lines.filter((line) => line.item_id);
+  const isValid = filledLines.every((line) => parseInt(line.quantity) > 0);
+
+  // 품목 단가 기준 미리보기 (저장 후에는 최근 입고 평균 단가로 계산)
+  const previewCost = filledLines.reduce((sum, line) => {
+    const unitCost = items.find((item) => item.id === line.item_id)?.unit_cost ?? 0;
+    return sum + unitCost * (parseInt(line.quantity) || 0);
+  }, 0);
+
+  const handleSubmit = async () => {
+    if (!category || !isValid) return;
+    setIsSubmitting(true);
+    try {
+      await saveCategoryRecipe(category.value, filledLines.map((line) => ({
+        item_id: line.item_id,
+        quantity: parseInt(line.quantity),
+      })));
+      toast.success(filledLines.length > 0 ? '레시피를 저장했습니다' : '레시피를 삭제했습니다');
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '레시피 저장에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{category?.label ?? ''} 레시피</DialogTitle>
+          <p className="text-sm text-muted-foreground">상품 1개를 만드는 데 들어가는 꽃과 포장 재료를 입력하세요</p>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">먼저 재고 품목을 추가해주세요</p>
+        ) : (
+          <div className="space-y-3 pt-2">
+            {lines.map((line, index) => {
+              const unit = items.find((item) => item.id === line.item_id)?.unit;
+              return (
+                <div key={index} className="grid grid-cols-[1fr_88px_32px] gap-2 items-center">
+                  <Select value={line.item_id} onValueChange={(value) => updateLine(index, { item_id: value })}>
+                    <SelectTrigger className="h-9 bg-muted" aria-label="재료">
+                      <SelectValue placeholder="재료 선택" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name} · {formatCurrency(item.unit_cost)}/{item.unit}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    className="h-9 bg-muted"
+                    aria-label={`수량${unit ? ` (${unit})` : ''}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    aria-label="재료 삭제"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines(prev => [...prev, { item_id: '', quantity: '1' }])}
+            >
+              <Plus className="w-3.5 h-3.5 mr-1" />
+              재료 추가
+            </Button>
+            <p className="text-sm text-muted-foreground tabular-nums">
+              예상 원가 {formatCurrency(previewCost)}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isValid || !category}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            저장
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
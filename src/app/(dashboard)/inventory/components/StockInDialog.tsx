@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { stockInFromExpense } from '@/lib/actions/inventory';
+import { formatCurrency } from '@/lib/utils';
+import type { Expense, InventoryItem } from '@/types/database';
+
+interface StockInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  expense: Expense | null;
+  items: InventoryItem[];
+  onSuccess: () => void;
+}
+
+interface StockInLineState {
+  item_id: string;
+  quantity: string;
+  unit_cost: string;
+}
+
+// 지출 품명과 같은(또는 포함하는) 품목을 기본 선택
+function getDefaultLine(expense: Expense, items: InventoryItem[]): StockInLineState {
+  const matched = items.find((item) => item.name === expense.item_name)
+    ?? items.find((item) => expense.item_name.includes(item.name));
+  return {
+    item_id: matched?.id ?? '',
+    quantity: String(expense.quantity),
+    unit_cost: String(expense.unit_price),
+  };
+}
+
+export function StockInDialog({ open, onOpenChange, expense, items, onSuccess }: StockInDialogProps) {
+  const [lines, setLines] = useState<StockInLineState[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && expense) {
+      setLines([getDefaultLine(expense, items)]);
+      setIsSubmitting(false);
+    }
+  }, [open, expense, items]);
+
+  const updateLine = (index: number, patch: Partial<StockInLineState>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...patch } : line));
+  };
+
+  const isValid = lines.length > 0 && lines.every((line) => line.item_id && Number(line.quantity) > 0);
+
+  const handleSubmit = async () => {
+    if (!expense || !isValid) return;
+    setIsSubmitting(true);
+    try {
+      const count = await stockInFromExpense(expense.id, lines.map((line) => ({
+        item_id: line.item_id,
+        quantity: parseInt(line.quantity) || 0,
+        unit_cost: parseInt(line.unit_cost) || 0,
+      })));
+      toast.success(`${count}개 품목을 입고했습니다`);
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '입고 처리에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">입고 처리</DialogTitle>
+          {expense && (
+            <p className="text-sm text-muted-foreground">
+              {expense.date} · {expense.item_name} · {formatCurrency(expense.total_amount)}
+            </p>
+          )}
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">먼저 재고 품목을 추가해주세요</p>
+        ) : (
+          <div className="space-y-3 pt-2">
+            <div className="grid grid-cols-[1fr_72px_96px_32px] gap-2 text-xs text-muted-foreground">
+              <span>품목</span>
+              <span>수량</span>
+              <span>단가</span>
+              <span />
+            </div>
+            {lines.map((line, index) => {
+              const unit = items.find((item) => item.id === line.item_id)?.unit;
+              return (
+                <div key={index} className="grid grid-cols-[1fr_72px_96px_32px] gap-2 items-center">
+                  <Select value={line.item_id} onValueChange={(value) => updateLine(index, { item_id: value })}>
+                    <SelectTrigger className="h-9 bg-muted" aria-label="입고 품목">
+                      <SelectValue placeholder="품목 선택" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    inputMode="numeric"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    className="h-9 bg-muted"
+                    aria-label={`입고 수량${unit ? ` (${unit})` : ''}`}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    inputMode="numeric"
+                    value={line.unit_cost}
+                    onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                    className="h-9 bg-muted"
+                    aria-label="입고 단가"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                    aria-label="품목 삭제"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines(prev => [...prev, { item_id: '', quantity: '1', unit_cost: '0' }])}
+            >
+              <Plus className="w-3.5 h-3.5 mr-1" />
+              품목 추가
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isValid}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            입고
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
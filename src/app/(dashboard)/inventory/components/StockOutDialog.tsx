@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ClipboardList, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { recordSaleStockOut, recordStockMovement } from '@/lib/actions/inventory';
+import type { StockOutSale } from '@/lib/actions/inventory';
+import { formatCurrency, getTodayKST } from '@/lib/utils';
+import { expandRecipeStockOut, type RecipeLine } from '@/lib/recipes';
+import { WASTE_REASON_LABELS } from '@/lib/constants';
+import type { InventoryItem, WasteReason } from '@/types/database';
+
+export type StockOutMode = 'sale' | 'waste' | 'adjust';
+
+const MODE_LABELS: Record<StockOutMode, string> = {
+  sale: '매출 출고',
+  waste: '폐기',
+  adjust: '수량 조정',
+};
+
+interface StockOutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialMode: StockOutMode;
+  items: InventoryItem[];
+  sales: StockOutSale[];
+  recipes: RecipeLine[];
+  onSuccess: () => void;
+}
+
+interface LineState {
+  item_id: string;
+  quantity: string;
+}
+
+export function StockOutDialog({ open, onOpenChange, initialMode, items, sales, recipes, onSuccess }: StockOutDialogProps) {
+  const [mode, setMode] = useState<StockOutMode>(initialMode);
+  const [saleId, setSaleId] = useState('');
+  const [lines, setLines] = useState<LineState[]>([{ item_id: '', quantity: '1' }]);
+  const [date, setDate] = useState(getTodayKST());
+  const [wasteReason, setWasteReason] = useState<WasteReason>('wilted');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setMode(initialMode);
+      setSaleId('');
+      setLines([{ item_id: '', quantity: '1' }]);
+      setDate(getTodayKST());
+      setWasteReason('wilted');
+      setNote('');
+      setIsSubmitting(false);
+    }
+  }, [open, initialMode]);
+
+  const updateLine = (index: number, patch: Partial<LineState>) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...patch } : line));
+  };
+
+  // 선택한 매출 품목 × 레시피 수량으로 출고 품목 채우기 (보관 처리된 재료는 제외)
+  const fillFromRecipe = () => {
+    const sale = sales.find((s) => s.id === saleId);
+    if (!sale) return;
+    const recipeLines = expandRecipeStockOut(sale, recipes)
+      .filter((line) => items.some((item) => item.id === line.item_id));
+    if (recipeLines.length === 0) {
+      toast.warning('이 매출의 상품에 등록된 레시피가 없습니다');
+      return;
+    }
+    setLines(recipeLines.map((line) => ({ item_id: line.item_id, quantity: String(line.quantity) })));
+  };
+
+  const isValid = lines.every((line) => line.item_id && parseInt(line.quantity) !== 0 && !Number.isNaN(parseInt(line.quantity)))
+    && (mode !== 'sale' || !!saleId);
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    setIsSubmitting(true);
+    try {
+      if (mode === 'sale') {
+        await recordSaleStockOut(saleId, lines.map((line) => ({
+          item_id: line.item_id,
+          quantity: parseInt(line.quantity),
+        })));
+        toast.success('매출 재료를 출고했습니다');
+      } else {
+        for (const line of lines) {
+          await recordStockMovement({
+            item_id: line.item_id,
+            type: mode,
+            quantity: parseInt(line.quantity),
+            date,
+            waste_reason: mode === 'waste' ? wasteReason : null,
+            note: note.trim() || null,
+          });
+        }
+        toast.success(mode === 'waste' ? '폐기를 기록했습니다' : '재고를 조정했습니다');
+      }
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '기록에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">출고·폐기 기록</DialogTitle>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as StockOutMode)}>
+          <TabsList className="w-full">
+            {(Object.keys(MODE_LABELS) as StockOutMode[]).map((value) => (
+              <TabsTrigger key={value} value={value} className="flex-1">{MODE_LABELS[value]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="space-y-4 pt-2">
+          {mode === 'sale' ? (
+            <div className="space-y-2">
+              <Label>매출 *</Label>
+              <Select value={saleId} onValueChange={setSaleId}>
+                <SelectTrigger className="bg-muted">
+                  <SelectValue placeholder={sales.length > 0 ? '최근 7일 매출 선택' : '최근 7일 매출이 없습니다'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {sales.map((sale) => (
+                    <SelectItem key={sale.id} value={sale.id}>
+                      {sale.date} · {sale.product_name} · {formatCurrency(sale.amount)}{sale.customer_name ? ` · ${sale.customer_name}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-[11px] text-muted-foreground">같은 매출에 다시 기록하면 이전 출고 내역을 바꿔요</p>
+                <Button type="button" variant="outline" size="sm" onClick={fillFromRecipe} disabled={!saleId}>
+                  <ClipboardList className="w-3.5 h-3.5 mr-1" />
+                  레시피로 채우기
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>날짜</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="bg-muted" />
+              </div>
+              {mode === 'waste' && (
+                <div className="space-y-2">
+                  <Label>폐기 사유</Label>
+                  <Select value={wasteReason} onValueChange={(value) => setWasteReason(value as WasteReason)}>
+                    <SelectTrigger className="bg-muted">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WASTE_REASON_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>품목 *</Label>
+            {lines.map((line, index) => {
+              const unit = items.find((item) => item.id === line.item_id)?.unit;
+              return (
+                <div key={index} className="grid grid-cols-[1fr_88px_32px] gap-2 items-center">
+                  <Select value={line.item_id} onValueChange={(value) => updateLine(index, { item_id: value })}>
+                    <SelectTrigger className="h-9 bg-muted" aria-label="품목">
+                      <SelectValue placeholder="품목 선택" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {items.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={mode === 'adjust' ? undefined : 1}
+                    inputMode="numeric"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    className="h-9 bg-muted"
+                    aria-label={`수량${unit ? ` (${unit})` : ''}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                    aria-label="품목 삭제"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setLines(prev => [...prev, { item_id: '', quantity: '1' }])}
+            >
+              <Plus className="w-3.5 h-3.5 mr-1" />
+              품목 추가
+            </Button>
+            {mode === 'adjust' && (
+              <p className="text-[11px] text-muted-foreground">실사 결과 남은 수량이 더 많으면 +, 적으면 -로 입력하세요</p>
+            )}
+          </div>
+
+          {mode !== 'sale' && (
+            <div className="space-y-2">
+              <Label>메모</Label>
+              <Input value={note} onChange={(e) => setNote(e.target.value)} maxLength={500} className="bg-muted" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isValid}>
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            저장
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
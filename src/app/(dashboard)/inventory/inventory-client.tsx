@@ -0,0 +1,392 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Loader2, Package, PackageMinus, PackagePlus, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { archiveInventoryItem, deleteStockMovement } from '@/lib/actions/inventory';
+import type { InventoryOverview } from '@/lib/actions/inventory';
+import { recalculateMonthCogs } from '@/lib/actions/recipes';
+import type { RecipeOverview } from '@/lib/actions/recipes';
+import { formatCurrency, getTodayKST } from '@/lib/utils';
+import { EXPIRING_SOON_DAYS } from '@/lib/inventory';
+import {
+  EXPENSE_LABELS,
+  INVENTORY_KIND_LABELS,
+  INVENTORY_MOVEMENT_LABELS,
+  WASTE_REASON_LABELS,
+} from '@/lib/constants';
+import type { Expense, InventoryItem, SaleCategory } from '@/types/database';
+import { InventoryItemDialog } from './components/InventoryItemDialog';
+import { StockInDialog } from './components/StockInDialog';
+import { StockOutDialog, type StockOutMode } from './components/StockOutDialog';
+import { RecipeDialog } from './components/RecipeDialog';
+
+type InventoryTab = 'stock' | 'pending' | 'history' | 'recipes';
+
+interface Props {
+  overview: InventoryOverview;
+  recipes: RecipeOverview;
+}
+
+export function InventoryClient({ overview, recipes }: Props) {
+  const router = useRouter();
+  const { items, stock, pendingExpenses, recentMovements, recentSales } = overview;
+
+  const [tab, setTab] = useState<InventoryTab>('stock');
+  const [itemDialogOpen, setItemDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [stockInExpense, setStockInExpense] = useState<Expense | null>(null);
+  const [stockOutMode, setStockOutMode] = useState<StockOutMode | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [recipeCategory, setRecipeCategory] = useState<SaleCategory | null>(null);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+
+  const expiringCount = stock.filter((s) => s.expiring_quantity > 0 || s.expired_quantity > 0).length;
+
+  const handleArchive = async (item: InventoryItem) => {
+    try {
+      await archiveInventoryItem(item.id);
+      toast.success(`${item.name}을(를) 목록에서 숨겼습니다`);
+      router.refresh();
+    } catch {
+      toast.error('품목 숨기기에 실패했습니다');
+    }
+  };
+
+  const handleDeleteMovement = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await deleteStockMovement(id);
+      toast.success('기록을 삭제했습니다');
+      router.refresh();
+    } catch {
+      toast.error('기록 삭제에 실패했습니다');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleRecalculateCogs = async () => {
+    setIsRecalculating(true);
+    try {
+      const count = await recalculateMonthCogs(getTodayKST().slice(0, 7));
+      toast.success(`이번 달 매출 ${count}건의 원가를 다시 계산했습니다`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '원가 계산에 실패했습니다');
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  const getRecipeLines = (categoryValue: string) =>
+    recipes.recipes.filter((line) => line.category_value === categoryValue);
+
+  // 다이얼로그가 열려 있는 동안 입력이 초기화되지 않도록 고정
+  const editingRecipe = useMemo(
+    () => recipeCategory ? recipes.recipes.filter((line) => line.category_value === recipeCategory.value) : [],
+    [recipes.recipes, recipeCategory],
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-foreground tracking-tight">재고 관리</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            꽃 사입·소모품 지출로 입고하고, 매출에 쓴 재료와 폐기한 꽃을 기록하면 남은 재고를 알 수 있어요
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={() => setStockOutMode('sale')}>
+            <PackageMinus className="w-4 h-4 mr-1.5" />
+            출고·폐기
+          </Button>
+          <Button size="sm" onClick={() => { setEditingItem(null); setItemDialogOpen(true); }}>
+            <Plus className="w-4 h-4 mr-1.5" />
+            품목 추가
+          </Button>
+        </div>
+      </div>
+
+      {expiringCount > 0 && (
+        <div className="flex items-center gap-3 p-3 rounded-lg bg-destructive/10">
+          <AlertTriangle className="w-5 h-5 text-destructive shrink-0" />
+          <p className="text-sm text-foreground">
+            {expiringCount}개 품목이 {EXPIRING_SOON_DAYS}일 안에 보관 기한이 끝나거나 이미 지났어요
+          </p>
+        </div>
+      )}
+
+      <Tabs value={tab} onValueChange={(value) => setTab(value as InventoryTab)}>
+        <TabsList>
+          <TabsTrigger value="stock">현재 재고</TabsTrigger>
+          <TabsTrigger value="pending" className="gap-1.5">
+            입고 대기
+            {pendingExpenses.length > 0 && (
+              <Badge variant="secondary" className="ml-1 text-[10px] px-1.5 py-0 h-4 rounded">{pendingExpenses.length}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="history">기록</TabsTrigger>
+          <TabsTrigger value="recipes">레시피</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {tab === 'stock' && (
+        <Card className="overflow-hidden">
+          {stock.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>품목</TableHead>
+                  <TableHead className="w-[100px] text-right">재고</TableHead>
+                  <TableHead className="w-[160px]">보관 기한</TableHead>
+                  <TableHead className="w-[90px] text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stock.map(({ item, quantity, expiring_quantity, expired_quantity, next_expires_on }) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <p className="font-medium">{item.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {INVENTORY_KIND_LABELS[item.kind]} · 단가 {formatCurrency(item.unit_cost)}
+                      </p>
+                    </TableCell>
+                    <TableCell className={`text-right tabular-nums ${quantity < 0 ? 'text-destructive' : ''}`}>
+                      {quantity.toLocaleString()}{item.unit}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {expired_quantity > 0 && (
+                          <Badge variant="destructive">기한 지남 {expired_quantity}{item.unit}</Badge>
+                        )}
+                        {expiring_quantity > 0 && (
+                          <Badge variant="secondary" className="text-destructive">곧 만료 {expiring_quantity}{item.unit}</Badge>
+                        )}
+                        {expired_quantity === 0 && expiring_quantity === 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            {next_expires_on ? format(new Date(next_expires_on), 'M/d (EEE)', { locale: ko }) : '-'}
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => { setEditingItem(item); setItemDialogOpen(true); }}
+                        aria-label={`${item.name} 수정`}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleArchive(item)}
+                        aria-label={`${item.name} 숨기기`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex flex-col items-center gap-2 py-16 text-center">
+              <Package className="w-8 h-8 text-muted-foreground/50" />
+              <p className="text-sm text-muted-foreground">등록된 재고 품목이 없습니다</p>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {tab === 'pending' && (
+        <Card className="overflow-hidden">
+          <CardContent className="p-0">
+            {pendingExpenses.length > 0 ? (
+              <ul className="divide-y">
+                {pendingExpenses.map((expense) => (
+                  <li key={expense.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{expense.item_name}</p>
+                      <p className="text-xs text-muted-foreground tabular-nums">
+                        {expense.date} · {EXPENSE_LABELS[expense.category] || expense.category} · {expense.quantity}개 · {formatCurrency(expense.total_amount)}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => setStockInExpense(expense)}>
+                      <PackagePlus className="w-3.5 h-3.5 mr-1.5" />
+                      입고
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-16">최근 30일 꽃 사입·소모품 지출은 모두 입고했어요</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {tab === 'history' && (
+        <Card className="overflow-hidden">
+          {recentMovements.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[80px]">날짜</TableHead>
+                  <TableHead className="w-[70px]">구분</TableHead>
+                  <TableHead>품목</TableHead>
+                  <TableHead className="w-[90px] text-right">수량</TableHead>
+                  <TableHead className="w-[50px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentMovements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="text-muted-foreground tabular-nums">
+                      {format(new Date(movement.date), 'M/d', { locale: ko })}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={movement.type === 'waste' ? 'destructive' : 'secondary'}>
+                        {INVENTORY_MOVEMENT_LABELS[movement.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{movement.item?.name ?? '-'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          movement.waste_reason && WASTE_REASON_LABELS[movement.waste_reason],
+                          movement.sale_id && '매출 연결',
+                          movement.expense_id && '지출 입고',
+                          movement.note,
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    </TableCell>
+                    <TableCell className={`text-right tabular-nums ${movement.quantity < 0 ? 'text-muted-foreground' : ''}`}>
+                      {movement.quantity > 0 ? '+' : ''}{movement.quantity.toLocaleString()}{movement.item?.unit ?? ''}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={deletingId !== null}
+                        onClick={() => handleDeleteMovement(movement.id)}
+                        aria-label="기록 삭제"
+                      >
+                        {deletingId === movement.id
+                          ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                          : <Trash2 className="w-3.5 h-3.5" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-16">입고·출고 기록이 없습니다</p>
+          )}
+        </Card>
+      )}
+
+      {tab === 'recipes' && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              레시피 원가는 최근 지출 입고 단가로 계산해 매출을 저장할 때 함께 기록돼요
+            </p>
+            <Button variant="outline" size="sm" onClick={handleRecalculateCogs} disabled={isRecalculating} className="shrink-0">
+              {isRecalculating
+                ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                : <RefreshCw className="w-3.5 h-3.5 mr-1.5" />}
+              이번 달 원가 다시 계산
+            </Button>
+          </div>
+          <Card className="overflow-hidden">
+            <CardContent className="p-0">
+              {recipes.categories.length > 0 ? (
+                <ul className="divide-y">
+                  {recipes.categories.map((category) => {
+                    const lines = getRecipeLines(category.value);
+                    const cost = recipes.recipeCosts[category.value];
+                    return (
+                      <li key={category.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">{category.label}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {lines.length > 0
+                              ? lines.map((line) => `${line.item?.name ?? ''} ${line.quantity}${line.item?.unit ?? ''}`).join(', ')
+                              : '레시피 없음'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {cost !== undefined && (
+                            <span className="text-sm tabular-nums">{formatCurrency(cost)}</span>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setRecipeCategory(category)}
+                            aria-label={`${category.label} 레시피 수정`}
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-16">등록된 상품 카테고리가 없습니다</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <InventoryItemDialog
+        open={itemDialogOpen}
+        onOpenChange={setItemDialogOpen}
+        item={editingItem}
+        onSuccess={() => router.refresh()}
+      />
+      <StockInDialog
+        open={stockInExpense !== null}
+        onOpenChange={(open) => { if (!open) setStockInExpense(null); }}
+        expense={stockInExpense}
+        items={items}
+        onSuccess={() => router.refresh()}
+      />
+      <StockOutDialog
+        open={stockOutMode !== null}
+        onOpenChange={(open) => { if (!open) setStockOutMode(null); }}
+        initialMode={stockOutMode ?? 'sale'}
+        items={items}
+        sales={recentSales}
+        recipes={recipes.recipes}
+        onSuccess={() => router.refresh()}
+      />
+      <RecipeDialog
+        open={recipeCategory !== null}
+        onOpenChange={(open) => { if (!open) setRecipeCategory(null); }}
+        category={recipeCategory}
+        recipe={editingRecipe}
+        items={items}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { getInventoryOverview } from '@/lib/actions/inventory';
+import { getRecipeOverview } from '@/lib/actions/recipes';
+import { InventoryClient } from './inventory-client';
+
+export default async function InventoryPage() {
+  const [overview, recipes] = await Promise.all([
+    getInventoryOverview(),
+    getRecipeOverview(),
+  ]);
+
+  return <InventoryClient overview={overview} recipes={recipes} />;
+}
@@ -1,9 +1,11 @@
 import { AppLayout } from '@/components/layout';
+import { getCurrentUserRole } from '@/lib/auth-guard';
 
-export default function DashboardLayout({
+export default async function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  return <AppLayout>{children}</AppLayout>;
+  const role = await getCurrentUserRole();
+  return <AppLayout role={role}>{children}</AppLayout>;
 }
@@ -1,5 +1,9 @@
+import { getCurrentUserRole } from '@/lib/auth-guard';
+import { hasRole } from '@/lib/permissions';
 import { DashboardClient } from './dashboard-client';
 
-export default function DashboardPage() {
-  return <DashboardClient />;
+export default async function DashboardPage() {
+  const role = await getCurrentUserRole();
+  // 월 매출/지출/순이익 분석은 manager 이상만
+  return <DashboardClient showMonthly={hasRole(role, 'manager')} />;
 }
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AmountInput } from '@/components/ui/amount-input';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatCurrency, getNetAmount, getTodayKST } from '@/lib/utils';
+import { REFUND_TYPE_LABELS } from '@/lib/constants';
+import { createSaleRefund } from '@/lib/actions/sales';
+import type { Sale, RefundType } from '@/types/database';
+import type { PaymentMethod } from '@/lib/actions/sale-settings';
+
+interface RefundDialogProps {
+  sale: Sale | null;
+  payments: PaymentMethod[];
+  onOpenChange: (open: boolean) => void;
+  onSuccess: (saleId: string) => void;
+}
+
+export function RefundDialog({ sale, payments, onOpenChange, onSuccess }: RefundDialogProps) {
+  const [refundType, setRefundType] = useState<RefundType>('full');
+  const [amount, setAmount] = useState(0);
+  const [refundMethod, setRefundMethod] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const remaining = sale ? getNetAmount(sale) : 0;
+
+  // 열릴 때마다 전액 환불 + 원 결제수단으로 초기화 (나눠 결제했으면 먼저 환불되는 마지막 결제)
+  useEffect(() => {
+    if (sale) {
+      setRefundType('full');
+      setAmount(0);
+      setRefundMethod(sale.payments?.at(-1)?.payment_method ?? sale.payment_method);
+    }
+  }, [sale]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!sale) return;
+    if (refundType === 'partial' && (amount <= 0 || amount > remaining)) {
+      toast.error(`환불 금액은 ${formatCurrency(remaining)} 이하로 입력해주세요`);
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const formData = new FormData(e.currentTarget);
+      formData.set('refund_type', refundType);
+      formData.set('amount', String(refundType === 'full' ? remaining : amount));
+      formData.set('refund_method', refundMethod);
+      await createSaleRefund(sale.id, formData);
+      toast.success(refundType === 'full' ? '전액 환불이 등록되었습니다' : '부분 취소가 등록되었습니다');
+      onOpenChange(false);
+      onSuccess(sale.id);
+    } catch (error) {
+      console.error('Failed to create refund:', error);
+      toast.error('환불 등록에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl">환불 등록</DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            환불 가능 금액 {formatCurrency(remaining)}
+          </p>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5 pt-2">
+          <div className="grid grid-cols-2 gap-2">
+            {(['full', 'partial'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                className={cn(
+                  "h-9 rounded-md text-sm font-medium border transition-colors",
+                  refundType === type
+                    ? "border-brand bg-brand-muted text-brand"
+                    : "border-border text-muted-foreground hover:border-foreground/30"
+                )}
+                onClick={() => setRefundType(type)}
+              >
+                {REFUND_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>환불일 *</Label>
+              <Input type="date" name="refund_date" defaultValue={getTodayKST()} required className="bg-muted" />
+            </div>
+            <div className="space-y-2">
+              <Label>환불 금액 *</Label>
+              {refundType === 'full' ? (
+                <div className="h-9 px-3 flex items-center rounded-md bg-muted text-sm font-semibold tabular-nums">
+                  {formatCurrency(remaining)}
+                </div>
+              ) : (
+                <AmountInput
+                  name="refund_amount"
+                  value={amount}
+                  onChange={setAmount}
+                  className="bg-muted"
+                  aria-label="환불 금액"
+                />
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>환불 수단 *</Label>
+            <div className="flex flex-wrap gap-2">
+              {payments.map(pm => (
+                <button
+                  key={pm.id}
+                  type="button"
+                  className={cn(
+                    "px-3 py-1.5 rounded-full text-xs font-medium transition-colors border",
+                    refundMethod === pm.value
+                      ? "ring-2 ring-offset-1 ring-brand/50"
+                      : "border-border text-muted-foreground hover:border-foreground/30"
+                  )}
+                  style={refundMethod === pm.value ? { backgroundColor: `${pm.color}20`, color: pm.color, borderColor: pm.color } : {}}
+                  onClick={() => setRefundMethod(pm.value)}
+                >
+                  {pm.label}
+                </button>
+              ))}
+            </div>
+            {sale?.payments?.some((p) => p.payment_method === 'card' && p.deposit_status === 'pending') && (
+              <p className="text-[11px] text-muted-foreground">미입금 카드 결제는 입금 예정액이 자동으로 조정돼요</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>사유</Label>
+            <Textarea
+              name="reason"
+              placeholder="환불 사유를 입력하세요"
+              className="bg-muted min-h-[60px] resize-none"
+              maxLength={500}
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+            <Button type="submit" variant="destructive" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              환불 등록
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
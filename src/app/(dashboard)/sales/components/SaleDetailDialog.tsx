@@ -1,13 +1,15 @@
 'use client';
 
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { ImageIcon, Pencil, Trash2, ExternalLink } from 'lucide-react';
+import { ImageIcon, Pencil, Trash2, ExternalLink, Undo2, Loader2, X } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
-import { formatCurrency } from '@/lib/utils';
-import { CHANNEL_LABELS } from '@/lib/constants';
+import { formatCurrency, getSaleLineItems, getNetAmount } from '@/lib/utils';
+import { CHANNEL_LABELS, REFUND_TYPE_LABELS } from '@/lib/constants';
+import { AuditHistory } from '@/components/audit';
 import type { Sale, PhotoCard } from '@/types/database';
 
 interface SaleDetailDialogProps {
@@ -17,10 +19,13 @@ interface SaleDetailDialogProps {
   categoryColors: Record<string, string>;
   paymentLabels: Record<string, string>;
   paymentColors: Record<string, string>;
+  canManage: boolean; // 수정/환불/삭제/변경 이력 (manager 이상)
   onClose: () => void;
   onEdit: (sale: Sale) => void;
   onDelete: (sale: Sale) => void;
   onPhotoModal: (sale: Sale) => void;
+  onRefund: (sale: Sale) => void;
+  onDeleteRefund: (refundId: string) => Promise<void>;
 }
 
 export function SaleDetailDialog({
@@ -30,12 +35,25 @@ export function SaleDetailDialog({
   categoryColors,
   paymentLabels,
   paymentColors,
+  canManage,
   onClose,
   onEdit,
   onDelete,
   onPhotoModal,
+  onRefund,
+  onDeleteRefund,
 }: SaleDetailDialogProps) {
   const router = useRouter();
+  const [deletingRefundId, setDeletingRefundId] = useState<string | null>(null);
+
+  const handleDeleteRefund = async (refundId: string) => {
+    setDeletingRefundId(refundId);
+    try {
+      await onDeleteRefund(refundId);
+    } finally {
+      setDeletingRefundId(null);
+    }
+  };
 
   return (
     <Dialog open={!!sale} onOpenChange={(open) => !open && onClose()}>
@@ -52,7 +70,16 @@ export function SaleDetailDialog({
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">금액</p>
-                <p className="font-bold text-lg text-brand">{formatCurrency(sale.amount)}</p>
+                {sale.refunded_amount ? (
+                  <div>
+                    <p className="font-bold text-lg text-brand">{formatCurrency(getNetAmount(sale))}</p>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="line-through">{formatCurrency(sale.amount)}</span> · 환불 {formatCurrency(sale.refunded_amount)}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="font-bold text-lg text-brand">{formatCurrency(sale.amount)}</p>
+                )}
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">카테고리</p>
@@ -77,6 +104,15 @@ export function SaleDetailDialog({
                 >
                   {paymentLabels[sale.payment_method] || sale.payment_method}
                 </span>
+                {!!sale.deposit_amount && (
+                  <p className="text-xs text-muted-foreground">예약 선금 {formatCurrency(sale.deposit_amount)} 차감</p>
+                )}
+                {!!sale.points_used && (
+                  <p className="text-xs text-muted-foreground">포인트 {formatCurrency(sale.points_used)} 사용</p>
+                )}
+                {!!sale.voucher_amount && (
+                  <p className="text-xs text-muted-foreground">선불권 {formatCurrency(sale.voucher_amount)} 사용</p>
+                )}
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">예약방식</p>
@@ -105,6 +141,78 @@ export function SaleDetailDialog({
               )}
             </div>
 
+            {sale.items && sale.items.length > 1 && (
+              <div className="space-y-2 pt-2 border-t">
+                <p className="text-sm text-muted-foreground">품목</p>
+                <ul className="space-y-1.5">
+                  {getSaleLineItems(sale).map((item, index) => (
+                    <li key={index} className="flex items-center justify-between text-sm">
+                      <span>
+                        {categoryLabels[item.product_category] || item.product_category}
+                        <span className="text-muted-foreground"> × {item.quantity}</span>
+                        {item.discount > 0 && (
+                          <span className="text-muted-foreground"> (할인 {formatCurrency(item.discount)})</span>
+                        )}
+                      </span>
+                      <span className="font-medium">{formatCurrency(item.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {sale.payments && sale.payments.length > 1 && (
+              <div className="space-y-2 pt-2 border-t">
+                <p className="text-sm text-muted-foreground">결제 내역</p>
+                <ul className="space-y-1.5">
+                  {sale.payments.map((payment) => (
+                    <li key={payment.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {paymentLabels[payment.payment_method] || payment.payment_method}
+                        {payment.card_company && <span className="text-muted-foreground"> ({payment.card_company})</span>}
+                        {payment.refunded_amount > 0 && (
+                          <span className="text-muted-foreground"> · 환불 {formatCurrency(payment.refunded_amount)}</span>
+                        )}
+                      </span>
+                      <span className="font-medium tabular-nums">{formatCurrency(payment.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {sale.refunds && sale.refunds.length > 0 && (
+              <div className="space-y-2 pt-2 border-t">
+                <p className="text-sm text-muted-foreground">환불 내역</p>
+                <ul className="space-y-1.5">
+                  {sale.refunds.map((refund) => (
+                    <li key={refund.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <p>
+                          {format(new Date(refund.refund_date), 'M월 d일', { locale: ko })} · {REFUND_TYPE_LABELS[refund.refund_type]}
+                          <span className="text-muted-foreground"> ({paymentLabels[refund.refund_method] || refund.refund_method})</span>
+                        </p>
+                        {refund.reason && <p className="text-xs text-muted-foreground truncate">{refund.reason}</p>}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <span className="font-medium text-destructive tabular-nums">-{formatCurrency(refund.amount)}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() => handleDeleteRefund(refund.id)}
+                          disabled={deletingRefundId === refund.id}
+                          aria-label="환불 취소"
+                        >
+                          {deletingRefundId === refund.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <X className="h-3.5 w-3.5" />}
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {sale.customer_phone && (
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">연락처</p>
@@ -141,6 +249,8 @@ export function SaleDetailDialog({
               </div>
             )}
 
+            {canManage && <AuditHistory key={sale.id} entityType="sale" entityId={sale.id} />}
+
             <div className="flex justify-between pt-4 border-t">
               <div className="flex gap-2">
                 <Button
@@ -153,18 +263,28 @@ export function SaleDetailDialog({
                   <ImageIcon className="w-4 h-4 mr-2" />
                   사진
                 </Button>
-                <Button variant="outline" onClick={() => onEdit(sale)}>
-                  <Pencil className="w-4 h-4 mr-2" />
-                  수정
-                </Button>
-                <Button
-                  variant="outline"
-                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                  onClick={() => onDelete(sale)}
-                >
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  삭제
-                </Button>
+                {canManage && (
+                  <>
+                    <Button variant="outline" onClick={() => onEdit(sale)}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      수정
+                    </Button>
+                    {getNetAmount(sale) > 0 && (
+                      <Button variant="outline" onClick={() => onRefund(sale)}>
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        환불
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => onDelete(sale)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      삭제
+                    </Button>
+                  </>
+                )}
               </div>
               <Button variant="outline" onClick={onClose}>
                 닫기
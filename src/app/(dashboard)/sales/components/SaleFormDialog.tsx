@@ -9,11 +9,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { AmountInput } from '@/components/ui/amount-input';
 import { Textarea } from '@/components/ui/textarea';
 import { CustomerAutocomplete } from '@/components/sales/CustomerAutocomplete';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Plus, Search, X } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
-import { cn, formatPhoneNumber } from '@/lib/utils';
+import {
+  cn,
+  formatPhoneNumber,
+  formatCurrency,
+  calculateLineAmount,
+  calculateSaleItemsTotal,
+  getSaleLineItems,
+} from '@/lib/utils';
+import type { SaleLineInput } from '@/lib/utils';
 import { createSale, updateSale } from '@/lib/actions/sales';
+import { getCustomerPointBalance } from '@/lib/actions/loyalty';
+import { findGiftVoucher } from '@/lib/actions/gift-vouchers';
+import { formatPoints } from '@/lib/loyalty';
+import { validateSalePayments, type SalePaymentInput } from '@/lib/sale-payments';
 import type { Sale, CardCompanySetting } from '@/types/database';
 import type { SaleCategory, PaymentMethod } from '@/lib/actions/sale-settings';
 
@@ -28,6 +40,34 @@ interface SaleFormDialogProps {
   onSuccess: (newSale?: Sale) => void;
 }
 
+type FoundVoucher = NonNullable<Awaited<ReturnType<typeof findGiftVoucher>>>;
+
+// 품목 행 (key는 렌더링용, 서버로 보내지 않음)
+type ItemDraft = SaleLineInput & { key: number };
+
+let itemKeySeq = 0;
+
+// 결제 행 (첫 번째 결제 금액은 결제할 금액에서 나머지 결제를 뺀 값)
+type PaymentDraft = { key: number; payment_method: string; amount: number; card_company: string };
+
+let paymentKeySeq = 0;
+
+function createPaymentDraft(payment: Partial<Omit<PaymentDraft, 'key'>> & { payment_method: string }): PaymentDraft {
+  paymentKeySeq += 1;
+  return { key: paymentKeySeq, amount: 0, card_company: '', ...payment };
+}
+
+function createItemDraft(item?: SaleLineInput): ItemDraft {
+  itemKeySeq += 1;
+  return {
+    key: itemKeySeq,
+    product_category: item?.product_category ?? '',
+    quantity: item?.quantity ?? 1,
+    unit_price: item?.unit_price ?? 0,
+    discount: item?.discount ?? 0,
+  };
+}
+
 export function SaleFormDialog({
   open,
   onOpenChange,
@@ -39,28 +79,73 @@ export function SaleFormDialog({
   onSuccess,
 }: SaleFormDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<string>(payments[0]?.value || 'card');
+  const [paymentRows, setPaymentRows] = useState<PaymentDraft[]>(() => [createPaymentDraft({ payment_method: payments[0]?.value || 'card' })]);
   const [noteValue, setNoteValue] = useState('');
   const [customerName, setCustomerName] = useState('');
   const [customerId, setCustomerId] = useState<string | null>(null);
   const [customerPhone, setCustomerPhone] = useState<string | null>(null);
+  const [items, setItems] = useState<ItemDraft[]>(() => [createItemDraft()]);
+  const [pointBalance, setPointBalance] = useState<number | null>(null);
+  const [pointsUsed, setPointsUsed] = useState(0);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [voucher, setVoucher] = useState<FoundVoucher | null>(null);
+  const [voucherAmount, setVoucherAmount] = useState(0);
+  const [isFindingVoucher, setIsFindingVoucher] = useState(false);
 
   const isEditMode = !!sale;
+  const totalAmount = calculateSaleItemsTotal(items);
+  // 수정 때는 사용한 포인트·선불권을 바꾸지 않음
+  const appliedPoints = isEditMode ? sale.points_used || 0 : pointsUsed;
+  const maxPoints = Math.min(pointBalance ?? 0, totalAmount);
+  const payableAmount = Math.max(totalAmount - appliedPoints, 0);
+  const maxVoucherAmount = voucher ? Math.min(voucher.balance, payableAmount) : 0;
+  const appliedVoucherAmount = isEditMode ? sale.voucher_amount || 0 : Math.min(voucherAmount, maxVoucherAmount);
+  // 예약 선금과 선불권을 뺀 잔금을 결제별로 나눔
+  const balanceAmount = Math.max(payableAmount - (isEditMode ? sale.deposit_amount || 0 : 0) - appliedVoucherAmount, 0);
+  // 선불권으로 전부 내면 결제방식은 선불권
+  const paidByVoucher = appliedVoucherAmount > 0 && balanceAmount === 0;
+  const effectivePaymentMethod = paidByVoucher ? 'voucher' : paymentRows[0].payment_method;
+  const firstPaymentAmount = balanceAmount - paymentRows.slice(1).reduce((sum, row) => sum + row.amount, 0);
+  // 입금 확인된 카드 결제가 있으면 결제 내역은 그대로
+  const paymentsLocked = isEditMode && !!sale.payments?.some(p => p.deposit_status === 'completed');
+
+  const updatePaymentRow = (key: number, patch: Partial<PaymentDraft>) => {
+    setPaymentRows(prev => prev.map(row => row.key === key ? { ...row, ...patch } : row));
+  };
+
+  const getPaymentInputs = (): SalePaymentInput[] => balanceAmount === 0 ? [] : paymentRows.map((row, index) => ({
+    payment_method: row.payment_method as SalePaymentInput['payment_method'],
+    amount: index === 0 ? firstPaymentAmount : row.amount,
+    card_company: row.payment_method === 'card' ? row.card_company || null : null,
+  }));
+
+  const updateItem = (key: number, patch: Partial<SaleLineInput>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...patch } : item));
+  };
 
   // Initialize form state when dialog opens
   useEffect(() => {
     if (open) {
       if (sale) {
         // Edit mode
-        setPaymentMethod(sale.payment_method);
+        setPaymentRows(sale.payments && sale.payments.length > 0
+          ? [...sale.payments]
+            .sort((a, b) => a.sort_order - b.sort_order)
+            .map(p => createPaymentDraft({ payment_method: p.payment_method, amount: p.amount, card_company: p.card_company || '' }))
+          : [createPaymentDraft({ payment_method: sale.payment_method === 'voucher' ? payments[0]?.value || 'card' : sale.payment_method })]);
         setNoteValue(sale.note || '');
         setCustomerName(sale.customer_name || '');
         setCustomerId(sale.customer_id || null);
         setCustomerPhone(sale.customer_phone || null);
+        setItems(getSaleLineItems(sale).map(line => createItemDraft(line)));
       } else {
         // Create mode
-        setPaymentMethod(payments[0]?.value || 'card');
+        setPaymentRows([createPaymentDraft({ payment_method: payments[0]?.value || 'card' })]);
         setNoteValue('');
+        setItems([createItemDraft()]);
+        setVoucherCode('');
+        setVoucher(null);
+        setVoucherAmount(0);
         if (initialCustomer) {
           setCustomerName(initialCustomer.name);
           setCustomerId(initialCustomer.id);
@@ -74,11 +159,64 @@ export function SaleFormDialog({
     }
   }, [open, sale, payments, initialCustomer]);
 
+  // 기존 고객을 고르면 포인트 잔액 조회 (등록할 때만)
+  useEffect(() => {
+    setPointsUsed(0);
+    setPointBalance(null);
+    if (!open || isEditMode || !customerId) return;
+    let cancelled = false;
+    getCustomerPointBalance(customerId)
+      .then((balance) => !cancelled && setPointBalance(balance))
+      .catch((error) => console.error('Failed to load point balance:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isEditMode, customerId]);
+
+  const handleFindVoucher = async () => {
+    if (!voucherCode.trim()) return;
+    setIsFindingVoucher(true);
+    try {
+      const found = await findGiftVoucher(voucherCode);
+      setVoucher(found);
+      setVoucherAmount(0);
+      if (!found) toast.error('선불권을 찾을 수 없습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '선불권 조회에 실패했습니다');
+    } finally {
+      setIsFindingVoucher(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (items.some(item => !item.product_category)) {
+      toast.error('모든 품목의 상품 카테고리를 선택해주세요');
+      return;
+    }
+    const paymentInputs = getPaymentInputs();
+    if (paymentInputs.some(p => p.payment_method === 'card' && !p.card_company)) {
+      toast.error('카드사를 선택해주세요');
+      return;
+    }
+    const paymentError = validateSalePayments(paymentInputs, balanceAmount);
+    if (paymentError) {
+      toast.error(paymentError);
+      return;
+    }
     setIsSubmitting(true);
     try {
       const formData = new FormData(e.currentTarget);
+      formData.set('items', JSON.stringify(
+        items.map(({ product_category, quantity, unit_price, discount }) => ({ product_category, quantity, unit_price, discount }))
+      ));
+      formData.set('payments', JSON.stringify(paymentInputs));
+      if (!isEditMode) {
+        // 품목을 줄였으면 쓸 수 있는 만큼만
+        formData.set('points_used', String(Math.min(pointsUsed, maxPoints)));
+        formData.set('voucher_code', voucher?.code ?? '');
+        formData.set('voucher_amount', String(appliedVoucherAmount));
+      }
 
       if (isEditMode) {
         await updateSale(sale.id, formData);
@@ -93,7 +231,7 @@ export function SaleFormDialog({
       }
     } catch (error) {
       console.error('Failed to save sale:', error);
-      toast.error(isEditMode ? '매출 수정에 실패했습니다' : '매출 등록에 실패했습니다');
+      toast.error(error instanceof Error ? error.message : isEditMode ? '매출 수정에 실패했습니다' : '매출 등록에 실패했습니다');
     } finally {
       setIsSubmitting(false);
     }
@@ -121,102 +259,227 @@ export function SaleFormDialog({
               />
             </div>
             <div className="space-y-2">
-              <Label>금액 *</Label>
-              <AmountInput
-                name="amount"
-                value={sale?.amount}
-                placeholder="0"
-                required
-                className="bg-muted"
-              />
+              <Label>금액</Label>
+              <div className="h-9 px-3 flex items-center rounded-md bg-muted text-sm font-semibold tabular-nums">
+                {formatCurrency(payableAmount)}
+              </div>
+              {appliedPoints > 0 && (
+                <p className="text-[11px] text-muted-foreground tabular-nums">
+                  {formatCurrency(totalAmount)} - 포인트 {formatPoints(appliedPoints)}
+                </p>
+              )}
+              {appliedVoucherAmount > 0 && (
+                <p className="text-[11px] text-muted-foreground tabular-nums">
+                  선불권 {formatCurrency(appliedVoucherAmount)} 사용
+                </p>
+              )}
             </div>
           </div>
           <div className="space-y-2">
-            <Label>상품 카테고리 *</Label>
-            <Select name="product_category" defaultValue={sale?.product_category} key={sale?.id ? `cat-${sale.id}` : 'cat-create'} required>
-              <SelectTrigger className="bg-muted">
-                <SelectValue placeholder="카테고리 선택" />
-              </SelectTrigger>
-              <SelectContent>
-                {categories.map(cat => (
-                  <SelectItem key={cat.id} value={cat.value}>{cat.label}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="grid grid-cols-2 gap-4">
+            <div className="flex justify-between items-center">
+              <Label>상품 *</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setItems(prev => [...prev, createItemDraft()])}
+                disabled={items.length >= 50}
+              >
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                품목 추가
+              </Button>
+            </div>
             <div className="space-y-2">
-              <Label>결제방식 *</Label>
-              <input type="hidden" name="payment_method" value={paymentMethod} />
-              <div className="flex flex-wrap gap-2">
-                {payments.map(pm => (
-                  <button
-                    key={pm.id}
-                    type="button"
-                    className={cn(
-                      "px-3 py-1.5 rounded-full text-xs font-medium transition-colors border",
-                      paymentMethod === pm.value
-                        ? "ring-2 ring-offset-1 ring-brand/50"
-                        : "border-border text-muted-foreground hover:border-foreground/30"
+              {items.map((item, index) => (
+                <div key={item.key} className="p-3 rounded-lg border border-border space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={item.product_category}
+                      onValueChange={(value) => updateItem(item.key, { product_category: value })}
+                    >
+                      <SelectTrigger className="bg-muted flex-1" aria-label={`품목 ${index + 1} 카테고리`}>
+                        <SelectValue placeholder="카테고리 선택" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map(cat => (
+                          <SelectItem key={cat.id} value={cat.value}>{cat.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {items.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 shrink-0 text-muted-foreground hover:text-destructive"
+                        onClick={() => setItems(prev => prev.filter(i => i.key !== item.key))}
+                        aria-label={`품목 ${index + 1} 삭제`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
                     )}
-                    style={paymentMethod === pm.value ? { backgroundColor: `${pm.color}20`, color: pm.color, borderColor: pm.color } : {}}
-                    onClick={() => setPaymentMethod(pm.value)}
-                  >
-                    {pm.label}
-                  </button>
-                ))}
-              </div>
+                  </div>
+                  <div className="grid grid-cols-[64px_1fr_1fr] gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={1000}
+                      value={item.quantity}
+                      onChange={(e) => updateItem(item.key, { quantity: Math.max(parseInt(e.target.value) || 1, 1) })}
+                      className="bg-muted"
+                      aria-label={`품목 ${index + 1} 수량`}
+                      inputMode="numeric"
+                    />
+                    <AmountInput
+                      name={`item_unit_price_${item.key}`}
+                      value={item.unit_price}
+                      onChange={(value) => updateItem(item.key, { unit_price: value })}
+                      placeholder="단가"
+                      className="bg-muted"
+                      aria-label={`품목 ${index + 1} 단가`}
+                    />
+                    <AmountInput
+                      name={`item_discount_${item.key}`}
+                      value={item.discount}
+                      onChange={(value) => updateItem(item.key, { discount: value })}
+                      placeholder="할인"
+                      className="bg-muted"
+                      aria-label={`품목 ${index + 1} 할인`}
+                    />
+                  </div>
+                  <p className="text-xs text-right text-muted-foreground tabular-nums">
+                    {item.quantity}개 × {formatCurrency(item.unit_price)}
+                    {item.discount > 0 && ` - ${formatCurrency(item.discount)}`}
+                    {' = '}
+                    <span className="font-medium text-foreground">{formatCurrency(calculateLineAmount(item))}</span>
+                  </p>
+                </div>
+              ))}
             </div>
-            {paymentMethod === 'card' ? (
-              <div className="space-y-2">
-                <Label>카드사 *</Label>
-                <Select name="card_company" defaultValue={sale?.card_company || ''} key={sale?.id ? `cc-${sale.id}` : 'cc-create'} required>
-                  <SelectTrigger className="bg-muted">
-                    <SelectValue placeholder="카드사 선택" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {cardCompanies.map(cc => (
-                      <SelectItem key={cc.id} value={cc.name}>{cc.name}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <p className="text-[11px] text-muted-foreground">카드사별 수수료가 자동 계산돼요</p>
-              </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label>결제방식 *</Label>
+              {!paidByVoucher && !paymentsLocked && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setPaymentRows(prev => [...prev, createPaymentDraft({ payment_method: payments[0]?.value || 'card' })])}
+                  disabled={paymentRows.length >= 5}
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1" />
+                  나눠 결제
+                </Button>
+              )}
+            </div>
+            <input type="hidden" name="payment_method" value={effectivePaymentMethod} />
+            {paidByVoucher ? (
+              <p className="h-9 flex items-center text-sm text-muted-foreground">선불권으로 전액 결제</p>
             ) : (
               <div className="space-y-2">
-                <Label>예약방식</Label>
-                <Select name="reservation_channel" defaultValue={sale?.reservation_channel || 'naver_booking'} key={sale?.id ? `ch1-${sale.id}` : 'ch1-create'}>
-                  <SelectTrigger className="bg-muted">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="phone">전화</SelectItem>
-                    <SelectItem value="kakaotalk">카카오톡</SelectItem>
-                    <SelectItem value="naver_booking">네이버예약</SelectItem>
-                    <SelectItem value="road">로드</SelectItem>
-                    <SelectItem value="other">기타</SelectItem>
-                  </SelectContent>
-                </Select>
+                {paymentRows.map((row, index) => (
+                  <div
+                    key={row.key}
+                    className={cn('space-y-2', paymentRows.length > 1 && 'p-3 rounded-lg border border-border')}
+                  >
+                    <div className="flex items-center gap-2">
+                      <div className="flex flex-wrap gap-2 flex-1">
+                        {payments.map(pm => (
+                          <button
+                            key={pm.id}
+                            type="button"
+                            disabled={paymentsLocked}
+                            className={cn(
+                              "px-3 py-1.5 rounded-full text-xs font-medium transition-colors border disabled:opacity-60",
+                              row.payment_method === pm.value
+                                ? "ring-2 ring-offset-1 ring-brand/50"
+                                : "border-border text-muted-foreground hover:border-foreground/30"
+                            )}
+                            style={row.payment_method === pm.value ? { backgroundColor: `${pm.color}20`, color: pm.color, borderColor: pm.color } : {}}
+                            onClick={() => updatePaymentRow(row.key, { payment_method: pm.value })}
+                          >
+                            {pm.label}
+                          </button>
+                        ))}
+                      </div>
+                      {paymentRows.length > 1 && !paymentsLocked && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-9 w-9 shrink-0 text-muted-foreground hover:text-destructive"
+                          onClick={() => setPaymentRows(prev => prev.filter(r => r.key !== row.key))}
+                          aria-label={`결제 ${index + 1} 삭제`}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className={cn('grid gap-2', paymentRows.length > 1 && row.payment_method === 'card' ? 'grid-cols-2' : 'grid-cols-1')}>
+                      {paymentRows.length > 1 && (
+                        index === 0 ? (
+                          <div className="h-9 px-3 flex items-center rounded-md bg-muted text-sm tabular-nums">
+                            {formatCurrency(firstPaymentAmount)}
+                          </div>
+                        ) : (
+                          <AmountInput
+                            name={`payment_amount_${row.key}`}
+                            value={row.amount}
+                            onChange={(value) => updatePaymentRow(row.key, { amount: value })}
+                            placeholder="금액"
+                            className="bg-muted"
+                            disabled={paymentsLocked}
+                            aria-label={`결제 ${index + 1} 금액`}
+                          />
+                        )
+                      )}
+                      {row.payment_method === 'card' && (
+                        <Select
+                          value={row.card_company}
+                          onValueChange={(value) => updatePaymentRow(row.key, { card_company: value })}
+                          disabled={paymentsLocked}
+                        >
+                          <SelectTrigger className="bg-muted" aria-label={`결제 ${index + 1} 카드사`}>
+                            <SelectValue placeholder="카드사 선택" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {cardCompanies.map(cc => (
+                              <SelectItem key={cc.id} value={cc.name}>{cc.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {paymentsLocked ? (
+                  <p className="text-[11px] text-muted-foreground">입금 확인된 카드 결제가 있어 결제 내역은 바꿀 수 없어요</p>
+                ) : paymentRows.length > 1 ? (
+                  <p className="text-[11px] text-muted-foreground">첫 번째 결제는 {formatCurrency(balanceAmount)}에서 나머지 결제를 뺀 금액이에요</p>
+                ) : paymentRows[0].payment_method === 'card' && (
+                  <p className="text-[11px] text-muted-foreground">카드사별 수수료가 자동 계산돼요</p>
+                )}
               </div>
             )}
           </div>
-          {paymentMethod === 'card' && (
-            <div className="space-y-2">
-              <Label>예약방식</Label>
-              <Select name="reservation_channel" defaultValue={sale?.reservation_channel || 'naver_booking'} key={sale?.id ? `ch2-${sale.id}` : 'ch2-create'}>
-                <SelectTrigger className="bg-muted">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="phone">전화</SelectItem>
-                  <SelectItem value="kakaotalk">카카오톡</SelectItem>
-                  <SelectItem value="naver_booking">네이버예약</SelectItem>
-                  <SelectItem value="road">로드</SelectItem>
-                  <SelectItem value="other">기타</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          )}
+          <div className="space-y-2">
+            <Label>예약방식</Label>
+            <Select name="reservation_channel" defaultValue={sale?.reservation_channel || 'naver_booking'} key={sale?.id ? `ch-${sale.id}` : 'ch-create'}>
+              <SelectTrigger className="bg-muted">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="phone">전화</SelectItem>
+                <SelectItem value="kakaotalk">카카오톡</SelectItem>
+                <SelectItem value="naver_booking">네이버예약</SelectItem>
+                <SelectItem value="road">로드</SelectItem>
+                <SelectItem value="other">기타</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>주문자명</Label>
@@ -246,6 +509,84 @@ export function SaleFormDialog({
               />
             </div>
           </div>
+          {!isEditMode && !!pointBalance && pointBalance > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label>포인트 사용</Label>
+                <span className="text-xs text-muted-foreground tabular-nums">보유 {formatPoints(pointBalance)}</span>
+              </div>
+              <div className="flex gap-2">
+                <AmountInput
+                  name="points_used"
+                  value={pointsUsed}
+                  onChange={(value) => setPointsUsed(Math.min(value, maxPoints))}
+                  placeholder="0"
+                  className="bg-muted"
+                  aria-label="사용할 포인트"
+                />
+                <Button type="button" variant="outline" className="shrink-0" onClick={() => setPointsUsed(maxPoints)}>
+                  전액 사용
+                </Button>
+              </div>
+            </div>
+          )}
+          {!isEditMode && (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label>선불권 사용</Label>
+                {voucher && (
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    잔액 {formatCurrency(voucher.balance)}
+                    {voucher.expires_at && ` · ${voucher.expires_at}까지`}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={voucherCode}
+                  onChange={(e) => {
+                    setVoucherCode(e.target.value);
+                    setVoucher(null);
+                    setVoucherAmount(0);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleFindVoucher();
+                    }
+                  }}
+                  placeholder="선불권 번호"
+                  className="bg-muted uppercase"
+                  aria-label="선불권 번호"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="shrink-0"
+                  onClick={handleFindVoucher}
+                  disabled={isFindingVoucher || !voucherCode.trim()}
+                >
+                  {isFindingVoucher ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Search className="w-4 h-4 mr-1" />}
+                  조회
+                </Button>
+              </div>
+              {voucher && voucher.balance > 0 && (
+                <div className="flex gap-2">
+                  <AmountInput
+                    name="voucher_amount"
+                    value={voucherAmount}
+                    onChange={(value) => setVoucherAmount(Math.min(value, maxVoucherAmount))}
+                    placeholder="0"
+                    className="bg-muted"
+                    aria-label="사용할 선불권 금액"
+                  />
+                  <Button type="button" variant="outline" className="shrink-0" onClick={() => setVoucherAmount(maxVoucherAmount)}>
+                    전액 사용
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
           <div className="space-y-2">
             <div className="flex justify-between items-center">
               <Label>비고</Label>
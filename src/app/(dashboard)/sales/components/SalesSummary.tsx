@@ -1,7 +1,7 @@
 'use client';
 
 import { Card, CardContent } from '@/components/ui/card';
-import { TrendingUp, CreditCard, Wallet, Building2, Banknote } from 'lucide-react';
+import { TrendingUp, CreditCard, Wallet, Building2, Banknote, Smartphone, Gift } from 'lucide-react';
 import { formatCurrency } from '@/lib/utils';
 
 interface SalesSummaryProps {
@@ -11,6 +11,8 @@ interface SalesSummaryProps {
     naverpay: number;
     transfer: number;
     cash: number;
+    kakaopay: number;
+    voucher: number;
   };
 }
 
@@ -82,6 +84,37 @@ export function SalesSummary({ summary }: SalesSummaryProps) {
           </div>
         </CardContent>
       </Card>
+      {/* 선금 카카오페이·선불권 결제가 있을 때만 */}
+      {summary.kakaopay > 0 && (
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-9 h-9 bg-muted rounded-lg flex items-center justify-center flex-shrink-0">
+                <Smartphone className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground">카카오페이</p>
+                <p className="text-sm sm:text-lg font-bold text-foreground">{formatCurrency(summary.kakaopay)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      {summary.voucher > 0 && (
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-9 h-9 bg-muted rounded-lg flex items-center justify-center flex-shrink-0">
+                <Gift className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground">선불권</p>
+                <p className="text-sm sm:text-lg font-bold text-foreground">{formatCurrency(summary.voucher)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
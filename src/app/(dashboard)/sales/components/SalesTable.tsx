@@ -6,7 +6,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Search, ImageIcon, ChevronRight, Pencil, Trash2, TrendingUp } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
-import { formatCurrency } from '@/lib/utils';
+import { formatCurrency, getNetAmount } from '@/lib/utils';
 import { CHANNEL_LABELS } from '@/lib/constants';
 import type { Sale } from '@/types/database';
 
@@ -17,6 +17,7 @@ interface SalesTableProps {
   paymentLabels: Record<string, string>;
   paymentColors: Record<string, string>;
   hasActiveFilters: boolean;
+  canManage: boolean; // 수정/삭제 (manager 이상)
   onSelectSale: (sale: Sale) => void;
   onEditSale: (sale: Sale) => void;
   onDeleteSale: (sale: Sale) => void;
@@ -25,6 +26,51 @@ interface SalesTableProps {
   onOpenForm: () => void;
 }
 
+// 품목이 여러 개인 매출은 첫 품목 배지 옆에 "외 N건" 표시
+function ExtraItemsLabel({ sale, categoryLabels }: { sale: Sale; categoryLabels: Record<string, string> }) {
+  const items = sale.items || [];
+  if (items.length <= 1) return null;
+  const title = items
+    .map(item => `${categoryLabels[item.product_category] || item.product_category} ×${item.quantity}`)
+    .join(', ');
+  return (
+    <span className="text-xs text-muted-foreground flex-shrink-0" title={title}>
+      외 {items.length - 1}건
+    </span>
+  );
+}
+
+// 나눠 결제한 매출은 첫 결제방식 배지 옆에 "외 N건" 표시
+function ExtraPaymentsLabel({ sale, paymentLabels }: { sale: Sale; paymentLabels: Record<string, string> }) {
+  const payments = sale.payments || [];
+  if (payments.length <= 1) return null;
+  const title = payments
+    .map(p => `${paymentLabels[p.payment_method] || p.payment_method} ${formatCurrency(p.amount)}`)
+    .join(', ');
+  return (
+    <span className="text-xs text-muted-foreground flex-shrink-0" title={title}>
+      외 {payments.length - 1}건
+    </span>
+  );
+}
+
+// 환불된 매출은 실매출 금액과 환불 배지 표시
+function SaleAmount({ sale, className }: { sale: Sale; className: string }) {
+  if (!sale.refunded_amount) return <span className={className}>{formatCurrency(sale.amount)}</span>;
+  const net = getNetAmount(sale);
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <span className={className}>{formatCurrency(net)}</span>
+      <span
+        className="text-[10px] px-1.5 py-0.5 rounded bg-destructive/10 text-destructive whitespace-nowrap"
+        title={`원 매출 ${formatCurrency(sale.amount)} · 환불 ${formatCurrency(sale.refunded_amount)}`}
+      >
+        {net === 0 ? '환불' : '부분취소'}
+      </span>
+    </span>
+  );
+}
+
 export function SalesTable({
   sales,
   categoryLabels,
@@ -32,6 +78,7 @@ export function SalesTable({
   paymentLabels,
   paymentColors,
   hasActiveFilters,
+  canManage,
   onSelectSale,
   onEditSale,
   onDeleteSale,
@@ -104,12 +151,13 @@ export function SalesTable({
                         >
                           {categoryLabels[sale.product_category] || sale.product_category || sale.product_name}
                         </span>
+                        <ExtraItemsLabel sale={sale} categoryLabels={categoryLabels} />
                         {sale.photos && sale.photos.length > 0 && (
                           <ImageIcon className="w-4 h-4 text-muted-foreground" />
                         )}
                       </div>
                     </TableCell>
-                    <TableCell className="font-semibold text-foreground">{formatCurrency(sale.amount)}</TableCell>
+                    <TableCell><SaleAmount sale={sale} className="font-semibold text-foreground" /></TableCell>
                     <TableCell>
                       <span
                         className="px-2 py-1 text-xs font-medium rounded-md"
@@ -120,6 +168,7 @@ export function SalesTable({
                       >
                         {paymentLabels[sale.payment_method] || sale.payment_method}
                       </span>
+                      {' '}<ExtraPaymentsLabel sale={sale} paymentLabels={paymentLabels} />
                     </TableCell>
                     <TableCell className="hidden lg:table-cell text-muted-foreground truncate">{CHANNEL_LABELS[sale.reservation_channel]}</TableCell>
                     <TableCell className="hidden lg:table-cell text-muted-foreground truncate">{sale.customer_name || '-'}</TableCell>
@@ -140,30 +189,34 @@ export function SalesTable({
                         >
                           <ImageIcon className="w-4 h-4" />
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-9 w-9 text-muted-foreground hover:text-foreground"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onEditSale(sale);
-                          }}
-                          aria-label="수정"
-                        >
-                          <Pencil className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-9 w-9 text-muted-foreground hover:text-destructive"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onDeleteSale(sale);
-                          }}
-                          aria-label="삭제"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        {canManage && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-9 w-9 text-muted-foreground hover:text-foreground"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onEditSale(sale);
+                              }}
+                              aria-label="수정"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-9 w-9 text-muted-foreground hover:text-destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onDeleteSale(sale);
+                              }}
+                              aria-label="삭제"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -214,6 +267,7 @@ export function SalesTable({
                     >
                       {categoryLabels[sale.product_category] || sale.product_category || sale.product_name}
                     </span>
+                    <ExtraItemsLabel sale={sale} categoryLabels={categoryLabels} />
                     {sale.photos && sale.photos.length > 0 && (
                       <ImageIcon className="w-4 h-4 text-muted-foreground flex-shrink-0" />
                     )}
@@ -229,13 +283,14 @@ export function SalesTable({
                     >
                       {paymentLabels[sale.payment_method] || sale.payment_method}
                     </span>
+                    <ExtraPaymentsLabel sale={sale} paymentLabels={paymentLabels} />
                     {sale.customer_name && (
                       <span className="text-muted-foreground truncate max-w-[80px]">{sale.customer_name}</span>
                     )}
                   </div>
                 </div>
                 <div className="flex items-center gap-2 flex-shrink-0">
-                  <span className="font-bold text-foreground whitespace-nowrap">{formatCurrency(sale.amount)}</span>
+                  <SaleAmount sale={sale} className="font-bold text-foreground whitespace-nowrap" />
                   <ChevronRight className="w-4 h-4 text-muted-foreground" />
                 </div>
               </div>
@@ -1,6 +1,7 @@
 import { getSales, getSaleById } from '@/lib/actions/sales';
 import { getSaleCategories, getPaymentMethods } from '@/lib/actions/sale-settings';
 import { getCardCompanySettings } from '@/lib/actions/settings';
+import { getCurrentUserRole } from '@/lib/auth-guard';
 import { SalesClient } from './sales-client';
 
 export default async function SalesPage({
@@ -17,11 +18,12 @@ export default async function SalesPage({
   // Format for getSales: "YYYY-MM"
   const monthParam = `${currentYear}-${String(currentMonth).padStart(2, '0')}`;
   
-  const [sales, categories, payments, cardCompanies] = await Promise.all([
+  const [sales, categories, payments, cardCompanies, role] = await Promise.all([
     getSales(monthParam),
     getSaleCategories(),
     getPaymentMethods(),
     getCardCompanySettings(),
+    getCurrentUserRole(),
   ]);
   
   // saleId가 있으면 해당 매출 정보 가져오기
@@ -36,6 +38,7 @@ export default async function SalesPage({
       initialPayments={payments}
       initialCardCompanies={cardCompanies}
       initialSelectedSale={initialSelectedSale}
+      role={role}
     />
   );
 }
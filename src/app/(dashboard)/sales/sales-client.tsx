@@ -10,21 +10,24 @@ import { Plus, Search, Settings, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { toast } from 'sonner';
-import { deleteSale } from '@/lib/actions/sales';
+import { deleteSale, deleteSaleRefund, getSaleById } from '@/lib/actions/sales';
 import { getPhotoCardBySaleId } from '@/lib/actions/photo-cards';
 import { SalePhotoModal } from '@/components/sales/SalePhotoModal';
 import { SalesSettingsModal } from '@/components/sales/SalesSettingsModal';
-import { calculateSalesSummary, formatCurrency } from '@/lib/utils';
-import type { PhotoCard, Sale, CardCompanySetting } from '@/types/database';
+import { calculateSalesSummary, filterSalesByCategory, formatCurrency, getSaleLineItems, getNetAmount } from '@/lib/utils';
+import type { PhotoCard, Sale, CardCompanySetting, UserRole } from '@/types/database';
+import { hasRole } from '@/lib/permissions';
 import { SaleCategory, PaymentMethod, getSaleCategories, getPaymentMethods } from '@/lib/actions/sale-settings';
 import { getCardCompanySettings } from '@/lib/actions/settings';
 import { ExportButton } from '@/components/ui/export-button';
 import type { ExportConfig } from '@/lib/export';
-import { CHANNEL_LABELS } from '@/lib/constants';
+import { CHANNEL_LABELS, PAYMENT_LABELS } from '@/lib/constants';
+import { getSalePaymentMethods } from '@/lib/sale-payments';
 import { SalesSummary } from './components/SalesSummary';
 import { SalesTable } from './components/SalesTable';
 import { SaleFormDialog } from './components/SaleFormDialog';
 import { SaleDetailDialog } from './components/SaleDetailDialog';
+import { RefundDialog } from './components/RefundDialog';
 
 // Year options: 2024 ~ 2030
 const YEAR_OPTIONS = Array.from({ length: 7 }, (_, i) => 2024 + i);
@@ -39,10 +42,12 @@ interface Props {
   initialPayments: PaymentMethod[];
   initialCardCompanies: CardCompanySetting[];
   initialSelectedSale?: Sale | null;
+  role: UserRole;
 }
 
-export function SalesClient({ initialSales, currentYear, currentMonth, initialCategories, initialPayments, initialCardCompanies, initialSelectedSale }: Props) {
+export function SalesClient({ initialSales, currentYear, currentMonth, initialCategories, initialPayments, initialCardCompanies, initialSelectedSale, role }: Props) {
   const router = useRouter();
+  const canManage = hasRole(role, 'manager');
   const searchParams = useSearchParams();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedSale, setSelectedSale] = useState<Sale | null>(initialSelectedSale || null);
@@ -59,6 +64,7 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
   const [cardCompanies, setCardCompanies] = useState<CardCompanySetting[]>(initialCardCompanies);
   const [deleteTarget, setDeleteTarget] = useState<Sale | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<Sale | null>(null);
   const [initialCustomer, setInitialCustomer] = useState<{ name: string; id: string | null; phone: string | null } | undefined>();
 
   // 카테고리/결제방식 라벨 및 색상 맵 생성 (value -> label/color)
@@ -66,8 +72,9 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
     Object.fromEntries(categories.map(c => [c.value, c.label])), [categories]);
   const categoryColors = useMemo(() =>
     Object.fromEntries(categories.map(c => [c.value, c.color])), [categories]);
-  const paymentLabels = useMemo(() =>
-    Object.fromEntries(payments.map(p => [p.value, p.label])), [payments]);
+  // 선불권 전액 결제는 설정에 없는 결제방식
+  const paymentLabels = useMemo((): Record<string, string> =>
+    ({ voucher: PAYMENT_LABELS.voucher, ...Object.fromEntries(payments.map(p => [p.value, p.label])) }), [payments]);
   const paymentColors = useMemo(() =>
     Object.fromEntries(payments.map(p => [p.value, p.color])), [payments]);
 
@@ -104,27 +111,31 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
   const filteredSales = useMemo(() => {
     let result = initialSales;
 
-    // Payment filter
+    // Payment filter (나눠 결제한 매출은 결제 중 하나라도 일치)
     if (paymentFilter !== 'all') {
-      result = result.filter(s => s.payment_method === paymentFilter);
+      result = result.filter(s => getSalePaymentMethods(s).includes(paymentFilter));
     }
 
-    // Category filter
+    // Category filter (품목 중 하나라도 일치)
     if (categoryFilter !== 'all') {
-      result = result.filter(s => s.product_category === categoryFilter);
+      result = filterSalesByCategory(result, categoryFilter);
     }
 
     // Search filter
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
       result = result.filter(s =>
-        (s.product_category || s.product_name || '').toLowerCase().includes(q) ||
+        getSaleLineItems(s).some(item =>
+          item.product_category.toLowerCase().includes(q) ||
+          (categoryLabels[item.product_category] || '').toLowerCase().includes(q)
+        ) ||
+        (s.product_name || '').toLowerCase().includes(q) ||
         s.customer_name?.toLowerCase().includes(q)
       );
     }
 
     return result;
-  }, [initialSales, paymentFilter, categoryFilter, searchQuery]);
+  }, [initialSales, paymentFilter, categoryFilter, searchQuery, categoryLabels]);
 
   const summary = useMemo(() => calculateSalesSummary(filteredSales), [filteredSales]);
 
@@ -135,9 +146,19 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
     title: `매출 내역 (${currentYear}년 ${currentMonth}월)`,
     columns: [
       { header: '날짜', accessor: (s) => String(s.date || '') },
-      { header: '카테고리', accessor: (s) => categoryLabels[s.product_category] || s.product_category || '' },
+      {
+        header: '상품',
+        accessor: (s) => getSaleLineItems(s)
+          .map(item => `${categoryLabels[item.product_category] || item.product_category} ×${item.quantity}`)
+          .join(', '),
+      },
       { header: '금액', accessor: (s) => Number(s.amount) || 0, format: 'currency' },
-      { header: '결제방법', accessor: (s) => paymentLabels[s.payment_method] || s.payment_method || '' },
+      { header: '환불', accessor: (s) => Number(s.refunded_amount) || 0, format: 'currency' },
+      { header: '실매출', accessor: (s) => getNetAmount(s), format: 'currency' },
+      {
+        header: '결제방법',
+        accessor: (s) => getSalePaymentMethods(s).map(method => paymentLabels[method] || method).join(', '),
+      },
       { header: '채널', accessor: (s) => CHANNEL_LABELS[s.reservation_channel] || '' },
       { header: '고객명', accessor: (s) => String(s.customer_name || '') },
       { header: '비고', accessor: (s) => String(s.note || '') },
@@ -187,7 +208,7 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
       setDeleteTarget(null);
       setSelectedSale(null);
       router.refresh();
-      toast.success('매출이 삭제되었습니다');
+      toast.success('매출을 휴지통으로 옮겼습니다');
     } catch (error) {
       console.error('Failed to delete sale:', error);
       toast.error('매출 삭제에 실패했습니다');
@@ -196,6 +217,24 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
     }
   };
 
+  // 환불 등록/취소 후 상세 다시 조회
+  const handleRefundChanged = async (saleId: string) => {
+    router.refresh();
+    setSelectedSale(await getSaleById(saleId));
+  };
+
+  const handleDeleteRefund = async (refundId: string) => {
+    if (!selectedSale) return;
+    try {
+      await deleteSaleRefund(refundId);
+      toast.success('환불이 취소되었습니다');
+      await handleRefundChanged(selectedSale.id);
+    } catch (error) {
+      console.error('Failed to delete refund:', error);
+      toast.error('환불 취소에 실패했습니다');
+    }
+  };
+
   const handleFormSuccess = (newSale?: Sale) => {
     router.refresh();
     if (newSale) {
@@ -316,15 +355,17 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
             ))}
           </SelectContent>
         </Select>
-        <Button
-          variant="outline"
-          size="icon"
-          className="h-9 w-9"
-          onClick={() => setIsSettingsOpen(true)}
-          aria-label="매출 설정"
-        >
-          <Settings className="w-4 h-4 text-muted-foreground" />
-        </Button>
+        {hasRole(role, 'owner') && (
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => setIsSettingsOpen(true)}
+            aria-label="매출 설정"
+          >
+            <Settings className="w-4 h-4 text-muted-foreground" />
+          </Button>
+        )}
         <div className="relative flex-1 min-w-[150px] max-w-xs">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
@@ -345,6 +386,7 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
         paymentLabels={paymentLabels}
         paymentColors={paymentColors}
         hasActiveFilters={hasActiveFilters}
+        canManage={canManage}
         onSelectSale={handleSelectSale}
         onEditSale={handleEdit}
         onDeleteSale={handleDelete}
@@ -378,10 +420,21 @@ export function SalesClient({ initialSales, currentYear, currentMonth, initialCa
         categoryColors={categoryColors}
         paymentLabels={paymentLabels}
         paymentColors={paymentColors}
+        canManage={canManage}
         onClose={() => setSelectedSale(null)}
         onEdit={handleEdit}
         onDelete={handleDelete}
         onPhotoModal={handleOpenPhotoModal}
+        onRefund={setRefundTarget}
+        onDeleteRefund={handleDeleteRefund}
+      />
+
+      {/* Refund Dialog */}
+      <RefundDialog
+        sale={refundTarget}
+        payments={payments}
+        onOpenChange={(open) => !open && setRefundTarget(null)}
+        onSuccess={handleRefundChanged}
       />
 
       {/* Photo Prompt Dialog */}
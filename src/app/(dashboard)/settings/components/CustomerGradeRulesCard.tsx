@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  applyCustomerGradeRules,
+  getCustomerGradeRules,
+  previewCustomerGradeChanges,
+  updateCustomerGradeRules,
+} from '@/lib/actions/customer-grading';
+import type { CustomerGradeRules } from '@/types/database';
+
+const PERIOD_MONTHS_OPTIONS = [3, 6, 12, 24] as const;
+
+type ThresholdKey = 'regular_min_count' | 'regular_min_amount' | 'vip_min_count' | 'vip_min_amount' | 'recency_months';
+
+const GRADE_FIELDS: { grade: string; count: ThresholdKey; amount: ThresholdKey }[] = [
+  { grade: '단골', count: 'regular_min_count', amount: 'regular_min_amount' },
+  { grade: 'VIP', count: 'vip_min_count', amount: 'vip_min_amount' },
+];
+
+type Preview = Awaited<ReturnType<typeof previewCustomerGradeChanges>>;
+
+// 빈 칸은 사용 안 함
+function toThreshold(value: string): number | null {
+  const num = parseInt(value, 10);
+  return Number.isNaN(num) || num <= 0 ? null : num;
+}
+
+function formatPreview(preview: Preview): string {
+  const parts = [
+    preview.vip.up && `VIP로 ${preview.vip.up}명`,
+    preview.regular.up && `단골로 ${preview.regular.up}명`,
+    preview.regular.down && `VIP → 단골 ${preview.regular.down}명`,
+    preview.new.down && `신규로 ${preview.new.down}명`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `지금 적용하면 ${parts.join(', ')}` : '지금 적용해도 바뀌는 고객이 없어요';
+}
+
+export function CustomerGradeRulesCard() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [allowDowngrade, setAllowDowngrade] = useState(true);
+  const [periodMonths, setPeriodMonths] = useState(12);
+  const [thresholds, setThresholds] = useState<Record<ThresholdKey, string>>({
+    regular_min_count: '',
+    regular_min_amount: '',
+    vip_min_count: '',
+    vip_min_amount: '',
+    recency_months: '',
+  });
+  const [savedEnabled, setSavedEnabled] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [pending, setPending] = useState<'save' | 'preview' | 'apply' | null>(null);
+
+  useEffect(() => {
+    getCustomerGradeRules()
+      .then((rules) => {
+        setEnabled(rules.enabled);
+        setSavedEnabled(rules.enabled);
+        setAllowDowngrade(rules.allow_downgrade);
+        setPeriodMonths(rules.period_months);
+        setThresholds({
+          regular_min_count: rules.regular_min_count?.toString() ?? '',
+          regular_min_amount: rules.regular_min_amount?.toString() ?? '',
+          vip_min_count: rules.vip_min_count?.toString() ?? '',
+          vip_min_amount: rules.vip_min_amount?.toString() ?? '',
+          recency_months: rules.recency_months?.toString() ?? '',
+        });
+      })
+      .catch(() => toast.error('자동 등급 설정을 불러오는데 실패했습니다'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const getRules = (): CustomerGradeRules => ({
+    enabled,
+    period_months: periodMonths,
+    regular_min_count: toThreshold(thresholds.regular_min_count),
+    regular_min_amount: toThreshold(thresholds.regular_min_amount),
+    vip_min_count: toThreshold(thresholds.vip_min_count),
+    vip_min_amount: toThreshold(thresholds.vip_min_amount),
+    recency_months: toThreshold(thresholds.recency_months),
+    allow_downgrade: allowDowngrade,
+  });
+
+  const updateThreshold = (key: ThresholdKey, value: string) => {
+    setThresholds({ ...thresholds, [key]: value });
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setPending('preview');
+    try {
+      setPreview(await previewCustomerGradeChanges(getRules()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '미리보기에 실패했습니다');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setPending('save');
+    try {
+      await updateCustomerGradeRules(getRules());
+      setSavedEnabled(enabled);
+      toast.success('자동 등급 설정이 저장되었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '자동 등급 설정 저장에 실패했습니다');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleApply = async () => {
+    setPending('apply');
+    try {
+      const updated = await applyCustomerGradeRules();
+      setPreview(null);
+      toast.success(updated > 0 ? `고객 ${updated}명의 등급을 바꿨습니다` : '바뀐 고객이 없습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '등급 적용에 실패했습니다');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-sm font-medium text-foreground mb-1">고객 자동 등급</h3>
+        <p className="text-xs text-muted-foreground mb-4">
+          최근 구매 횟수나 금액으로 매일 새벽 단골·VIP 등급을 다시 정해요. 횟수·금액 중 하나만 채워도 되고, 빈 칸은 사용 안 함. 블랙리스트 고객은 바뀌지 않아요
+        </p>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-9 w-full rounded-md" />
+            <Skeleton className="h-24 w-full rounded-md" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={enabled} onCheckedChange={(checked) => setEnabled(checked === true)} />
+              자동 등급 사용
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">집계 기간</Label>
+                <Select
+                  value={String(periodMonths)}
+                  onValueChange={(v) => {
+                    setPeriodMonths(Number(v));
+                    setPreview(null);
+                  }}
+                >
+                  <SelectTrigger className="h-8 text-sm w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PERIOD_MONTHS_OPTIONS.map((months) => (
+                      <SelectItem key={months} value={String(months)}>최근 {months}개월</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">마지막 구매 (개월 이내)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={thresholds.recency_months}
+                  onChange={(e) => updateThreshold('recency_months', e.target.value)}
+                  placeholder="사용 안 함"
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+
+            {GRADE_FIELDS.map((field) => (
+              <div key={field.grade} className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">{field.grade} · 구매 횟수 (회 이상)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={thresholds[field.count]}
+                    onChange={(e) => updateThreshold(field.count, e.target.value)}
+                    placeholder="사용 안 함"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">{field.grade} · 구매 금액 (원 이상)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={10000}
+                    value={thresholds[field.amount]}
+                    onChange={(e) => updateThreshold(field.amount, e.target.value)}
+                    placeholder="사용 안 함"
+                    className="h-8 text-sm"
+                  />
+                </div>
+              </div>
+            ))}
+
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Checkbox
+                checked={allowDowngrade}
+                onCheckedChange={(checked) => {
+                  setAllowDowngrade(checked === true);
+                  setPreview(null);
+                }}
+              />
+              기준에 못 미치면 등급 내리기 (끄면 올리기만)
+            </label>
+
+            {preview && <p className="text-xs text-foreground">{formatPreview(preview)}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={handlePreview} disabled={pending !== null}>
+                {pending === 'preview' && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                미리보기
+              </Button>
+              {savedEnabled && (
+                <Button size="sm" variant="outline" onClick={handleApply} disabled={pending !== null}>
+                  {pending === 'apply' && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                  지금 적용
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={pending !== null}>
+                {pending === 'save' && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                저장
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { getCardFeeRates, addCardFeeRate, deleteCardFeeRate } from '@/lib/actions/settings';
+import { getTodayKST } from '@/lib/utils';
+import type { CardCompanySetting, CardFeeRate } from '@/types/database';
+
+interface FeeRateHistoryCardProps {
+  cardSettings: CardCompanySetting[];
+  onRatesChanged: () => void;
+}
+
+export function FeeRateHistoryCard({ cardSettings, onRatesChanged }: FeeRateHistoryCardProps) {
+  const [rates, setRates] = useState<CardFeeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedCardId, setSelectedCardId] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [newEffectiveFrom, setNewEffectiveFrom] = useState(getTodayKST);
+  const [isAdding, setIsAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    getCardFeeRates()
+      .then(setRates)
+      .catch(() => toast.error('수수료율 이력을 불러오는데 실패했습니다'))
+      .finally(() => setIsLoading(false));
+  }, [reloadKey]);
+
+  const cardId = selectedCardId || cardSettings[0]?.id || '';
+  const today = getTodayKST();
+
+  // 적용일 내림차순, 오늘 적용 중인 이력 표시
+  const cardRates = useMemo(() => rates.filter(r => r.card_company_id === cardId), [rates, cardId]);
+  const currentRateId = cardRates.find(r => r.effective_from <= today)?.id;
+
+  const handleAdd = async () => {
+    const feeRate = parseFloat(newRate);
+    if (!cardId || Number.isNaN(feeRate) || !newEffectiveFrom) {
+      toast.error('수수료율과 적용일을 입력해주세요');
+      return;
+    }
+    setIsAdding(true);
+    try {
+      await addCardFeeRate(cardId, feeRate, newEffectiveFrom);
+      toast.success('수수료율 이력이 추가되었습니다');
+      setNewRate('');
+      setReloadKey((k) => k + 1);
+      onRatesChanged();
+    } catch {
+      toast.error('수수료율 이력 추가에 실패했습니다');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await deleteCardFeeRate(id);
+      setReloadKey((k) => k + 1);
+      onRatesChanged();
+    } catch {
+      toast.error('수수료율 이력 삭제에 실패했습니다');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (cardSettings.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-sm font-medium text-foreground mb-1">수수료율 이력</h3>
+        <p className="text-xs text-muted-foreground mb-4">
+          매출 수수료는 매출일에 적용되던 수수료율로 계산돼요. 수수료율이 바뀌는 날짜를 미리 등록할 수도 있어요
+        </p>
+
+        <Select value={cardId} onValueChange={setSelectedCardId}>
+          <SelectTrigger className="h-8 w-[160px] text-sm bg-background mb-3" aria-label="카드사 선택">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {cardSettings.map((card) => (
+              <SelectItem key={card.id} value={card.id}>{card.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full rounded-md" />
+            ))}
+          </div>
+        ) : cardRates.length > 0 ? (
+          <ul className="divide-y rounded-lg border mb-3">
+            {cardRates.map((rate) => (
+              <li key={rate.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="tabular-nums">
+                    {format(new Date(rate.effective_from), 'yyyy년 M월 d일', { locale: ko })}부터
+                  </span>
+                  {rate.id === currentRateId && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-brand-muted text-brand">적용 중</span>
+                  )}
+                  {rate.effective_from > today && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground">예정</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium tabular-nums">{Number(rate.fee_rate)}%</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(rate.id)}
+                    disabled={deletingId === rate.id}
+                    aria-label="이력 삭제"
+                  >
+                    {deletingId === rate.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">이력이 없어요. 현재 수수료율이 모든 매출에 적용돼요</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 w-[90px]">
+            <Input
+              type="number"
+              step="0.1"
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              placeholder="2.0"
+              className="h-8 text-sm bg-background"
+              aria-label="새 수수료율"
+              inputMode="decimal"
+            />
+            <span className="text-xs text-muted-foreground shrink-0">%</span>
+          </div>
+          <Input
+            type="date"
+            value={newEffectiveFrom}
+            onChange={(e) => setNewEffectiveFrom(e.target.value)}
+            className="h-8 w-[150px] text-sm bg-background"
+            aria-label="적용일"
+          />
+          <Button size="sm" variant="outline" onClick={handleAdd} disabled={isAdding}>
+            {isAdding ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Plus className="w-3.5 h-3.5 mr-1" />}
+            추가
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
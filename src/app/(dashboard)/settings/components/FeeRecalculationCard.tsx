@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { getFeeRecalculationReport, applyFeeRecalculation } from '@/lib/actions/deposits';
+import type { FeeMismatch } from '@/lib/business-days';
+import { formatCurrency } from '@/lib/utils';
+import type { CardPayment } from '@/types/database';
+
+// idsSchema 최대 개수
+const APPLY_CHUNK_SIZE = 100;
+
+export function FeeRecalculationCard() {
+  const [report, setReport] = useState<FeeMismatch<CardPayment>[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      setReport(await getFeeRecalculationReport());
+    } catch {
+      toast.error('수수료 점검에 실패했습니다');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!report || report.length === 0) return;
+    setIsApplying(true);
+    try {
+      const ids = report.map((m) => m.sale.id);
+      let updated = 0;
+      for (let i = 0; i < ids.length; i += APPLY_CHUNK_SIZE) {
+        updated += await applyFeeRecalculation(ids.slice(i, i + APPLY_CHUNK_SIZE));
+      }
+      toast.success(`${updated}건의 수수료를 다시 계산했습니다`);
+      setReport(await getFeeRecalculationReport());
+    } catch {
+      toast.error('수수료 재계산에 실패했습니다');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-sm font-medium text-foreground mb-1">수수료 재계산 점검</h3>
+            <p className="text-xs text-muted-foreground">
+              미입금 카드 결제 중 저장된 수수료가 매출일 기준 수수료율과 다른 건을 찾아요
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleCheck} disabled={isChecking} className="shrink-0">
+            {isChecking ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5 mr-1.5" />}
+            점검
+          </Button>
+        </div>
+
+        {report && (
+          report.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">수수료가 모두 일치해요</p>
+          ) : (
+            <div className="space-y-3">
+              <ul className="divide-y rounded-lg border max-h-[320px] overflow-y-auto">
+                {report.map((m) => (
+                  <li key={m.sale.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {format(new Date(m.sale.date), 'M/d')} {m.sale.card_company} · {formatCurrency(m.sale.amount)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">적용 수수료율 {m.fee_rate}%</p>
+                    </div>
+                    <div className="text-right shrink-0 tabular-nums">
+                      <p className="text-xs text-muted-foreground line-through">
+                        {m.stored_fee === null ? '미계산' : formatCurrency(m.stored_fee)}
+                      </p>
+                      <p className="font-medium">{formatCurrency(m.expected_fee)}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">{report.length}건 불일치</p>
+                <Button size="sm" onClick={handleApply} disabled={isApplying}>
+                  {isApplying && <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />}
+                  모두 재계산
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getLoyaltySettings, updateLoyaltySettings } from '@/lib/actions/loyalty';
+import { calculateEarnedPoints, formatPoints } from '@/lib/loyalty';
+
+// 적립 예시에 쓸 매출 금액
+const EXAMPLE_AMOUNT = 50000;
+
+export function LoyaltySettingsCard() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [earnRate, setEarnRate] = useState('');
+  const [expireMonths, setExpireMonths] = useState('');
+
+  useEffect(() => {
+    getLoyaltySettings()
+      .then((settings) => {
+        setEnabled(settings.enabled);
+        setEarnRate(String(settings.earn_rate));
+        setExpireMonths(settings.expire_months?.toString() ?? '');
+      })
+      .catch(() => toast.error('포인트 설정을 불러오는데 실패했습니다'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const rate = Number(earnRate) || 0;
+  // 빈 칸은 소멸 없음
+  const months = parseInt(expireMonths, 10);
+  const expire = Number.isNaN(months) ? null : months;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateLoyaltySettings({ enabled, earn_rate: rate, expire_months: expire });
+      toast.success('포인트 설정이 저장되었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '포인트 설정 저장에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-sm font-medium text-foreground mb-1">포인트 적립</h3>
+        <p className="text-xs text-muted-foreground mb-4">
+          고객이 있는 매출마다 금액의 일정 비율을 포인트(1P = 1원)로 적립하고, 매출 등록 때 할인으로 쓸 수 있어요. 기간이 지난 포인트는 매일 새벽 소멸돼요
+        </p>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-9 w-full rounded-md" />
+            <Skeleton className="h-16 w-full rounded-md" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={enabled} onCheckedChange={(checked) => setEnabled(checked === true)} />
+              포인트 적립 사용
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">적립률 (%)</Label>
+                <Input
+                  type="number"
+                  min={0.1}
+                  max={50}
+                  step={0.1}
+                  value={earnRate}
+                  onChange={(e) => setEarnRate(e.target.value)}
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">유효기간 (개월)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={expireMonths}
+                  onChange={(e) => setExpireMonths(e.target.value)}
+                  placeholder="소멸 없음"
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+
+            {rate > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {EXAMPLE_AMOUNT.toLocaleString('ko-KR')}원 매출이면 {formatPoints(calculateEarnedPoints(EXAMPLE_AMOUNT, { enabled: true, earn_rate: rate, expire_months: expire }))} 적립
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                저장
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getReservationCapacity, updateReservationCapacity, updateCategoryWorkload } from '@/lib/actions/reservation-capacity';
+import { getSaleCategories } from '@/lib/actions/sale-settings';
+import type { SaleCategory } from '@/lib/actions/sale-settings';
+import type { ReservationCapacity } from '@/types/database';
+
+const SLOT_MINUTES_OPTIONS = [15, 30, 60, 120] as const;
+
+type LimitKey = 'daily_limit' | 'daily_workload_limit' | 'slot_limit' | 'slot_workload_limit';
+
+const LIMIT_FIELDS: { key: LimitKey; label: string; step: number }[] = [
+  { key: 'daily_limit', label: '하루 최대 건수', step: 1 },
+  { key: 'daily_workload_limit', label: '하루 최대 작업량', step: 0.5 },
+  { key: 'slot_limit', label: '시간대별 최대 건수', step: 1 },
+  { key: 'slot_workload_limit', label: '시간대별 최대 작업량', step: 0.5 },
+];
+
+// 빈 칸은 제한 없음
+function toLimit(value: string): number | null {
+  const num = parseFloat(value);
+  return Number.isNaN(num) || num <= 0 ? null : num;
+}
+
+export function ReservationCapacityCard() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [slotMinutes, setSlotMinutes] = useState(60);
+  const [limits, setLimits] = useState<Record<LimitKey, string>>({
+    daily_limit: '',
+    daily_workload_limit: '',
+    slot_limit: '',
+    slot_workload_limit: '',
+  });
+  const [categories, setCategories] = useState<SaleCategory[]>([]);
+  const [workloads, setWorkloads] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([getReservationCapacity(), getSaleCategories()])
+      .then(([config, cats]) => {
+        const { capacity } = config;
+        setSlotMinutes(capacity.slot_minutes);
+        setLimits({
+          daily_limit: capacity.daily_limit?.toString() ?? '',
+          daily_workload_limit: capacity.daily_workload_limit?.toString() ?? '',
+          slot_limit: capacity.slot_limit?.toString() ?? '',
+          slot_workload_limit: capacity.slot_workload_limit?.toString() ?? '',
+        });
+        setCategories(cats);
+        setWorkloads(Object.fromEntries(cats.map((c) => [c.id, String(Number(c.workload ?? 1))])));
+      })
+      .catch(() => toast.error('예약 수용량 설정을 불러오는데 실패했습니다'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const capacity: ReservationCapacity = {
+        slot_minutes: slotMinutes,
+        daily_limit: toLimit(limits.daily_limit),
+        daily_workload_limit: toLimit(limits.daily_workload_limit),
+        slot_limit: toLimit(limits.slot_limit),
+        slot_workload_limit: toLimit(limits.slot_workload_limit),
+      };
+      await updateReservationCapacity(capacity);
+
+      // 바뀐 작업량만 저장
+      const changed = categories.filter((c) => {
+        const next = parseFloat(workloads[c.id]);
+        return !Number.isNaN(next) && next !== Number(c.workload ?? 1);
+      });
+      for (const category of changed) {
+        await updateCategoryWorkload(category.id, parseFloat(workloads[category.id]));
+      }
+      setCategories((prev) => prev.map((c) => (
+        changed.some((x) => x.id === c.id) ? { ...c, workload: parseFloat(workloads[c.id]) } : c
+      )));
+      toast.success('예약 수용량 설정이 저장되었습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '예약 수용량 설정 저장에 실패했습니다');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-sm font-medium text-foreground mb-1">예약 수용량</h3>
+        <p className="text-xs text-muted-foreground mb-4">
+          하루·시간대별로 받을 수 있는 예약 수를 정해두면, 넘치는 예약을 등록할 때 경고하고 캘린더에 붐비는 날을 색으로 보여줘요. 빈 칸은 제한 없음
+        </p>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-9 w-full rounded-md" />
+            <Skeleton className="h-24 w-full rounded-md" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5 col-span-2 sm:col-span-1">
+                <Label className="text-xs text-muted-foreground">시간대 단위</Label>
+                <Select value={String(slotMinutes)} onValueChange={(v) => setSlotMinutes(Number(v))}>
+                  <SelectTrigger className="h-8 text-sm w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLOT_MINUTES_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes < 60 ? `${minutes}분` : `${minutes / 60}시간`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {LIMIT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">{field.label}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={field.step}
+                    value={limits[field.key]}
+                    onChange={(e) => setLimits({ ...limits, [field.key]: e.target.value })}
+                    placeholder="제한 없음"
+                    className="h-8 text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {categories.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-foreground">상품별 작업량</p>
+                <p className="text-[11px] text-muted-foreground">기본 꽃다발을 1로 두고 손이 더 가는 상품은 크게 (예: 꽃바구니 2, 단체꽃다발 3). 상품을 안 고른 예약은 1로 계산돼요</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center justify-between gap-2 rounded border border-border px-2 py-1">
+                      <span className="text-xs truncate">{category.label}</span>
+                      <Input
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        value={workloads[category.id] ?? ''}
+                        onChange={(e) => setWorkloads({ ...workloads, [category.id]: e.target.value })}
+                        className="h-7 w-16 text-xs text-right"
+                        aria-label={`${category.label} 작업량`}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                저장
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,351 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, KeyRound, Loader2, Mail, Ticket } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  getStaffAccounts,
+  getStaffInvitations,
+  createStaffInvitation,
+  inviteStaffByEmail,
+  revokeStaffInvitation,
+  updateUserRole,
+  setUserDeactivated,
+  resetUserPassword,
+} from '@/lib/actions/users';
+import { formatInviteCode, getInvitationStatus, INVITE_CODE_TTL_HOURS } from '@/lib/staff-accounts';
+import { USER_ROLE_LABELS, STAFF_INVITATION_STATUS_LABELS } from '@/lib/constants';
+import type { StaffAccount, StaffInvitation, UserRole } from '@/types/database';
+
+type PendingAction = { userId: string; type: 'deactivate' | 'reset' };
+
+function formatDateTime(value: string | null): string {
+  return value ? format(new Date(value), 'yyyy.MM.dd HH:mm') : '-';
+}
+
+export function StaffAccountsCard() {
+  const [accounts, setAccounts] = useState<StaffAccount[]>([]);
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('staff');
+  const [isInviting, setIsInviting] = useState(false);
+  const [issuedCode, setIssuedCode] = useState<string | null>(null);
+
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<{ email: string | null; password: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [accountList, invitationList] = await Promise.all([getStaffAccounts(), getStaffInvitations()]);
+      setAccounts(accountList);
+      setInvitations(invitationList);
+    } catch {
+      toast.error('직원 계정을 불러오는데 실패했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleIssueCode = async () => {
+    setIsInviting(true);
+    try {
+      const { code } = await createStaffInvitation({ email: inviteEmail.trim() || null, role: inviteRole });
+      setIssuedCode(code);
+      setInviteEmail('');
+      await refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '초대 코드 발급에 실패했습니다');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleSendEmail = async () => {
+    if (!inviteEmail.trim()) return;
+    setIsInviting(true);
+    try {
+      await inviteStaffByEmail({ email: inviteEmail.trim(), role: inviteRole });
+      toast.success('초대 메일을 보냈습니다');
+      setInviteEmail('');
+      await refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '초대 메일 발송에 실패했습니다');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('복사했습니다');
+    } catch {
+      toast.error('복사에 실패했습니다');
+    }
+  };
+
+  const handleRoleChange = async (account: StaffAccount, role: UserRole) => {
+    setBusyUserId(account.id);
+    try {
+      await updateUserRole(account.id, role);
+      setAccounts(prev => prev.map(a => a.id === account.id ? { ...a, role } : a));
+      toast.success('권한을 변경했습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '권한 변경에 실패했습니다');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleToggleActive = async (account: StaffAccount) => {
+    setBusyUserId(account.id);
+    try {
+      await setUserDeactivated(account.id, !account.deactivated);
+      setAccounts(prev => prev.map(a => a.id === account.id ? { ...a, deactivated: !account.deactivated } : a));
+      toast.success(account.deactivated ? '계정을 다시 활성화했습니다' : '계정을 비활성화했습니다');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '계정 상태 변경에 실패했습니다');
+    } finally {
+      setBusyUserId(null);
+      setPendingAction(null);
+    }
+  };
+
+  const handleResetPassword = async (account: StaffAccount) => {
+    setBusyUserId(account.id);
+    try {
+      const password = await resetUserPassword(account.id);
+      setTemporaryPassword({ email: account.email, password });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '비밀번호 초기화에 실패했습니다');
+    } finally {
+      setBusyUserId(null);
+      setPendingAction(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: StaffInvitation) => {
+    try {
+      await revokeStaffInvitation(invitation.id);
+      toast.success('초대를 취소했습니다');
+      await refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '초대 취소에 실패했습니다');
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-5">
+        <div>
+          <h3 className="text-sm font-medium text-foreground mb-1">직원 계정</h3>
+          <p className="text-xs text-muted-foreground">
+            초대 코드({INVITE_CODE_TTL_HOURS}시간 유효, 1회용)나 초대 메일로 직원을 추가하고, 권한·비활성화·비밀번호 초기화를 관리해요
+          </p>
+        </div>
+
+        {/* 초대 */}
+        <div className="space-y-2">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="이메일 (코드 발급 시 선택)"
+              className="h-8 text-sm bg-background"
+              aria-label="초대할 이메일"
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as UserRole)}>
+              <SelectTrigger className="h-8 sm:w-[110px] text-sm bg-background" aria-label="초대 권한">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(USER_ROLE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button size="sm" variant="outline" onClick={handleSendEmail} disabled={isInviting || !inviteEmail.trim()}>
+              <Mail className="w-3.5 h-3.5 mr-1.5" />
+              초대 메일
+            </Button>
+            <Button size="sm" onClick={handleIssueCode} disabled={isInviting}>
+              {isInviting ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Ticket className="w-3.5 h-3.5 mr-1.5" />}
+              코드 발급
+            </Button>
+          </div>
+
+          {issuedCode && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted">
+              <div>
+                <p className="text-lg font-semibold tracking-widest tabular-nums">{formatInviteCode(issuedCode)}</p>
+                <p className="text-xs text-muted-foreground">
+                  이 코드는 지금만 확인할 수 있어요. 직원은 로그인 화면의 &apos;직원 가입&apos;에서 입력합니다
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleCopy(formatInviteCode(issuedCode))} aria-label="초대 코드 복사">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {temporaryPassword && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted">
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground truncate">{temporaryPassword.email} 임시 비밀번호</p>
+              <p className="text-base font-semibold tracking-wider font-mono">{temporaryPassword.password}</p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button size="sm" variant="ghost" onClick={() => handleCopy(temporaryPassword.password)} aria-label="임시 비밀번호 복사">
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setTemporaryPassword(null)}>닫기</Button>
+            </div>
+          </div>
+        )}
+
+        {/* 계정 목록 */}
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {accounts.map((account) => (
+              <li key={account.id} className="px-3 py-2 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {account.email ?? '(이메일 없음)'}
+                      {account.is_current_user && <span className="ml-1.5 text-xs text-muted-foreground">(나)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      최근 로그인 {account.last_sign_in_at ? formatDateTime(account.last_sign_in_at) : (account.invited_at ? '초대 수락 전' : '기록 없음')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {account.deactivated && <Badge variant="secondary">비활성</Badge>}
+                    <Select
+                      value={account.role}
+                      onValueChange={(value) => handleRoleChange(account, value as UserRole)}
+                      disabled={account.is_current_user || busyUserId === account.id}
+                    >
+                      <SelectTrigger className="h-8 w-[90px] text-sm bg-background" aria-label={`${account.email} 권한`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(USER_ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {!account.is_current_user && (
+                  pendingAction?.userId === account.id ? (
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 text-sm text-destructive">
+                        {pendingAction.type === 'reset'
+                          ? '임시 비밀번호로 초기화하시겠습니까?'
+                          : '이 계정을 비활성화하시겠습니까?'}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        className="h-7 px-2"
+                        onClick={() => pendingAction.type === 'reset' ? handleResetPassword(account) : handleToggleActive(account)}
+                        disabled={busyUserId === account.id}
+                      >
+                        {busyUserId === account.id ? <Loader2 className="w-3 h-3 animate-spin" /> : '확인'}
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setPendingAction(null)}>
+                        취소
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-muted-foreground"
+                        onClick={() => setPendingAction({ userId: account.id, type: 'reset' })}
+                      >
+                        <KeyRound className="w-3.5 h-3.5 mr-1" />
+                        비밀번호 초기화
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2 text-muted-foreground"
+                        onClick={() => account.deactivated
+                          ? handleToggleActive(account)
+                          : setPendingAction({ userId: account.id, type: 'deactivate' })}
+                        disabled={busyUserId === account.id}
+                      >
+                        {account.deactivated ? '다시 활성화' : '비활성화'}
+                      </Button>
+                    </div>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* 초대 코드 이력 */}
+        {invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">초대 코드 이력</p>
+            <ul className="divide-y rounded-lg border max-h-[240px] overflow-y-auto">
+              {invitations.map((invitation) => {
+                const status = getInvitationStatus(invitation);
+                return (
+                  <li key={invitation.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        {invitation.email ?? '이메일 제한 없음'} · {USER_ROLE_LABELS[invitation.role]}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDateTime(invitation.created_at)} 발급 · {formatDateTime(invitation.expires_at)} 만료
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={status === 'pending' ? 'default' : 'secondary'}>
+                        {STAFF_INVITATION_STATUS_LABELS[status]}
+                      </Badge>
+                      {status === 'pending' && (
+                        <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => handleRevoke(invitation)}>
+                          취소
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,13 +4,21 @@ import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, Bell, BellOff, BellRing, Send } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
 import { getCardCompanySettings, updateCardCompanySetting } from '@/lib/actions/settings';
 import { subscribeToPush, unsubscribeFromPush, sendTestNotification } from '@/lib/actions/push';
 import type { PushSubscriptionData } from '@/lib/actions/push';
-import type { CardCompanySetting } from '@/types/database';
+import type { CardCompanySetting, DepositRule } from '@/types/database';
+import { DEPOSIT_RULE_LABELS, WEEKDAY_LABELS } from '@/lib/constants';
+import { FeeRateHistoryCard } from './components/FeeRateHistoryCard';
+import { FeeRecalculationCard } from './components/FeeRecalculationCard';
+import { ReservationCapacityCard } from './components/ReservationCapacityCard';
+import { CustomerGradeRulesCard } from './components/CustomerGradeRulesCard';
+import { LoyaltySettingsCard } from './components/LoyaltySettingsCard';
+import { StaffAccountsCard } from './components/StaffAccountsCard';
 
 function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
   const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
@@ -27,6 +35,7 @@ export default function SettingsPage() {
   const [cardSettings, setCardSettings] = useState<CardCompanySetting[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [feeHistoryVersion, setFeeHistoryVersion] = useState(0);
 
   // 푸시 알림 상태
   const [pushSupported, setPushSupported] = useState(false);
@@ -155,6 +164,13 @@ export default function SettingsPage() {
     }
   };
 
+  // 수수료율 이력 변경 시 현재 수수료율 다시 불러오기
+  const refreshCardSettings = () => {
+    getCardCompanySettings()
+      .then(data => setCardSettings(data))
+      .catch(() => toast.error('설정을 불러오는데 실패했습니다'));
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
@@ -163,10 +179,13 @@ export default function SettingsPage() {
           updateCardCompanySetting(setting.id, {
             fee_rate: setting.fee_rate,
             deposit_days: setting.deposit_days,
+            deposit_rule: setting.deposit_rule || 'business_days',
+            deposit_weekday: setting.deposit_rule === 'next_weekday' ? setting.deposit_weekday ?? 1 : null,
           })
         )
       );
       toast.success('설정이 저장되었습니다');
+      setFeeHistoryVersion((v) => v + 1);
     } catch {
       toast.error('설정 저장에 실패했습니다');
     } finally {
@@ -184,16 +203,16 @@ export default function SettingsPage() {
       <Card>
         <CardContent className="p-4">
           <h3 className="text-sm font-medium text-foreground mb-1">카드사별 수수료율</h3>
-          <p className="text-xs text-muted-foreground mb-4">수수료율: 카드사가 떼가는 비율 (예: 2.0% → 10만원 결제 시 2천원 수수료) / 입금 주기: 결제 후 입금까지 걸리는 영업일 수</p>
+          <p className="text-xs text-muted-foreground mb-4">수수료율: 카드사가 떼가는 비율 (예: 2.0% → 10만원 결제 시 2천원 수수료) / 입금 규칙: 결제 후 입금까지 걸리는 영업일 수(주말·공휴일 제외) 또는 매주 입금되는 요일</p>
           {isLoading ? (
             <div className="space-y-3">
-              <div className="grid grid-cols-[1fr_80px_80px] gap-3 pb-2 border-b border-border">
+              <div className="grid grid-cols-[1fr_80px_170px] gap-3 pb-2 border-b border-border">
                 <Skeleton className="h-3 w-12" />
                 <Skeleton className="h-3 w-14" />
                 <Skeleton className="h-3 w-14" />
               </div>
               {[...Array(5)].map((_, i) => (
-                <div key={i} className="grid grid-cols-[1fr_80px_80px] gap-3 items-center">
+                <div key={i} className="grid grid-cols-[1fr_80px_170px] gap-3 items-center">
                   <Skeleton className="h-4 w-20" />
                   <Skeleton className="h-9 w-full rounded-md" />
                   <Skeleton className="h-9 w-full rounded-md" />
@@ -203,14 +222,14 @@ export default function SettingsPage() {
           ) : cardSettings.length > 0 ? (
             <div className="space-y-3">
               {/* Header */}
-              <div className="grid grid-cols-[1fr_80px_80px] gap-3 text-xs text-muted-foreground pb-2 border-b border-border">
+              <div className="grid grid-cols-[1fr_80px_170px] gap-3 text-xs text-muted-foreground pb-2 border-b border-border">
                 <span>카드사</span>
                 <span>수수료율</span>
-                <span>입금 주기</span>
+                <span>입금 규칙</span>
               </div>
               {/* Rows */}
               {cardSettings.map((card) => (
-                <div key={card.id} className="grid grid-cols-[1fr_80px_80px] gap-3 items-center">
+                <div key={card.id} className="grid grid-cols-[1fr_80px_170px] gap-3 items-center">
                   <span className="text-sm font-medium text-foreground">{card.name}</span>
                   <div className="flex items-center gap-1">
                     <Input
@@ -227,17 +246,54 @@ export default function SettingsPage() {
                     <span className="text-xs text-muted-foreground shrink-0">%</span>
                   </div>
                   <div className="flex items-center gap-1">
-                    <Input
-                      type="number"
-                      value={card.deposit_days}
-                      onChange={(e) => setCardSettings(prev =>
-                        prev.map(c => c.id === card.id ? { ...c, deposit_days: parseInt(e.target.value) || 0 } : c)
+                    <Select
+                      value={card.deposit_rule || 'business_days'}
+                      onValueChange={(value) => setCardSettings(prev =>
+                        prev.map(c => c.id === card.id
+                          ? { ...c, deposit_rule: value as DepositRule, deposit_weekday: c.deposit_weekday ?? 1 }
+                          : c)
                       )}
-                      className="h-8 text-sm bg-background"
-                      aria-label={`${card.name} 입금 주기`}
-                      inputMode="numeric"
-                    />
-                    <span className="text-xs text-muted-foreground shrink-0">일</span>
+                    >
+                      <SelectTrigger className="h-8 w-[76px] text-sm bg-background shrink-0" aria-label={`${card.name} 입금 규칙`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(DEPOSIT_RULE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {card.deposit_rule === 'next_weekday' ? (
+                      <Select
+                        value={String(card.deposit_weekday ?? 1)}
+                        onValueChange={(value) => setCardSettings(prev =>
+                          prev.map(c => c.id === card.id ? { ...c, deposit_weekday: Number(value) } : c)
+                        )}
+                      >
+                        <SelectTrigger className="h-8 text-sm bg-background" aria-label={`${card.name} 입금 요일`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WEEKDAY_LABELS.map((label, index) => (
+                            <SelectItem key={label} value={String(index)}>다음 {label}요일</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <>
+                        <span className="text-xs text-muted-foreground shrink-0">D+</span>
+                        <Input
+                          type="number"
+                          value={card.deposit_days}
+                          onChange={(e) => setCardSettings(prev =>
+                            prev.map(c => c.id === card.id ? { ...c, deposit_days: parseInt(e.target.value) || 0 } : c)
+                          )}
+                          className="h-8 text-sm bg-background"
+                          aria-label={`${card.name} 입금 영업일 수`}
+                          inputMode="numeric"
+                        />
+                      </>
+                    )}
                   </div>
                 </div>
               ))}
@@ -248,6 +304,22 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <FeeRateHistoryCard
+        key={feeHistoryVersion}
+        cardSettings={cardSettings}
+        onRatesChanged={refreshCardSettings}
+      />
+
+      <FeeRecalculationCard />
+
+      <ReservationCapacityCard />
+
+      <CustomerGradeRulesCard />
+
+      <LoyaltySettingsCard />
+
+      <StaffAccountsCard />
+
       {/* 푸시 알림 설정 */}
       <Card>
         <CardContent className="p-4">
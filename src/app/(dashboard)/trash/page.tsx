@@ -0,0 +1,19 @@
+import { getTrash } from '@/lib/actions/trash';
+import type { TrashEntityType } from '@/types/database';
+import { TRASH_ENTITY_LABELS } from '@/lib/constants';
+import { TrashClient } from './trash-client';
+
+export default async function TrashPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string }>;
+}) {
+  const params = await searchParams;
+  const type: TrashEntityType = params.type && params.type in TRASH_ENTITY_LABELS
+    ? params.type as TrashEntityType
+    : 'sale';
+
+  const data = await getTrash();
+
+  return <TrashClient data={data} type={type} />;
+}
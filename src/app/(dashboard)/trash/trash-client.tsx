@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { formatCurrency, formatPhoneNumber } from '@/lib/utils';
+import { TRASH_ENTITY_LABELS, EXPENSE_LABELS } from '@/lib/constants';
+import { getDaysUntilPurge, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { restoreSale } from '@/lib/actions/sales';
+import { restoreExpense } from '@/lib/actions/expenses';
+import { restoreCustomer } from '@/lib/actions/customers';
+import { restorePhotoCard } from '@/lib/actions/photo-cards';
+import type { TrashData } from '@/lib/actions/trash';
+import type { TrashEntityType } from '@/types/database';
+
+interface Props {
+  data: TrashData;
+  type: TrashEntityType;
+}
+
+interface TrashRow {
+  id: string;
+  title: string;
+  detail: string;
+  deleted_at: string;
+}
+
+// 유형별 목록을 공통 행으로 변환
+function getTrashRows(data: TrashData, type: TrashEntityType): TrashRow[] {
+  switch (type) {
+    case 'sale':
+      return data.sales.map(sale => ({
+        id: sale.id,
+        title: sale.product_name,
+        detail: [sale.date, formatCurrency(sale.amount), sale.customer_name].filter(Boolean).join(' · '),
+        deleted_at: sale.deleted_at!,
+      }));
+    case 'expense':
+      return data.expenses.map(expense => ({
+        id: expense.id,
+        title: expense.item_name,
+        detail: [expense.date, EXPENSE_LABELS[expense.category] || expense.category, formatCurrency(expense.total_amount)].join(' · '),
+        deleted_at: expense.deleted_at!,
+      }));
+    case 'customer':
+      return data.customers.map(customer => ({
+        id: customer.id,
+        title: customer.name,
+        detail: formatPhoneNumber(customer.phone),
+        deleted_at: customer.deleted_at!,
+      }));
+    case 'photo_card':
+      return data.photoCards.map(card => ({
+        id: card.id,
+        title: card.title,
+        detail: `사진 ${card.photos.length}장`,
+        deleted_at: card.deleted_at!,
+      }));
+  }
+}
+
+const RESTORE_ACTIONS: Record<TrashEntityType, (id: string) => Promise<unknown>> = {
+  sale: restoreSale,
+  expense: restoreExpense,
+  customer: restoreCustomer,
+  photo_card: restorePhotoCard,
+};
+
+export function TrashClient({ data, type }: Props) {
+  const router = useRouter();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const counts: Record<TrashEntityType, number> = {
+    sale: data.sales.length,
+    expense: data.expenses.length,
+    customer: data.customers.length,
+    photo_card: data.photoCards.length,
+  };
+  const rows = getTrashRows(data, type);
+
+  const handleRestore = async (id: string) => {
+    setRestoringId(id);
+    try {
+      await RESTORE_ACTIONS[type](id);
+      toast.success(`${TRASH_ENTITY_LABELS[type]}을(를) 복원했습니다`);
+      router.refresh();
+    } catch (error) {
+      console.error('Failed to restore:', error);
+      toast.error('복원에 실패했습니다');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-xl font-semibold text-foreground tracking-tight">휴지통</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          삭제한 항목은 {TRASH_RETENTION_DAYS}일 동안 보관된 뒤 영구 삭제돼요
+        </p>
+      </div>
+
+      <Tabs value={type} onValueChange={(value) => router.push(`/trash?type=${value}`)}>
+        <TabsList>
+          {(Object.keys(TRASH_ENTITY_LABELS) as TrashEntityType[]).map((value) => (
+            <TabsTrigger key={value} value={value} className="gap-1.5">
+              {TRASH_ENTITY_LABELS[value]}
+              <Badge variant="secondary" className="ml-1 text-[10px] px-1.5 py-0 h-4 rounded">{counts[value]}</Badge>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card className="overflow-hidden">
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>항목</TableHead>
+                <TableHead className="w-[130px]">삭제일시</TableHead>
+                <TableHead className="w-[110px]">영구 삭제</TableHead>
+                <TableHead className="w-[90px] text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const daysLeft = getDaysUntilPurge(row.deleted_at);
+                return (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <p className="font-medium truncate max-w-[320px]">{row.title}</p>
+                      <p className="text-xs text-muted-foreground tabular-nums">{row.detail}</p>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground tabular-nums">
+                      {format(new Date(row.deleted_at), 'M/d HH:mm', { locale: ko })}
+                    </TableCell>
+                    <TableCell className={daysLeft <= 3 ? 'text-destructive' : 'text-muted-foreground'}>
+                      {daysLeft > 0 ? `${daysLeft}일 후` : '오늘'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restoringId !== null}
+                        onClick={() => handleRestore(row.id)}
+                      >
+                        {restoringId === row.id
+                          ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                          : <RotateCcw className="w-3.5 h-3.5 mr-1" />}
+                        복원
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="flex flex-col items-center gap-2 py-16 text-center">
+            <Trash2 className="w-8 h-8 text-muted-foreground/50" />
+            <p className="text-sm text-muted-foreground">휴지통에 {TRASH_ENTITY_LABELS[type]} 항목이 없습니다</p>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AmountInput } from '@/components/ui/amount-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CustomerAutocomplete } from '@/components/sales/CustomerAutocomplete';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { createGiftVoucher, updateGiftVoucher } from '@/lib/actions/gift-vouchers';
+import { getDefaultVoucherExpiry } from '@/lib/gift-vouchers';
+import { getFormInt, getFormString } from '@/lib/validations';
+import { PAYMENT_LABELS } from '@/lib/constants';
+import { getTodayKST } from '@/lib/utils';
+import type { GiftVoucher } from '@/types/database';
+
+type VoucherPaymentMethod = GiftVoucher['payment_method'];
+
+const VOUCHER_PAYMENT_METHODS: VoucherPaymentMethod[] = ['card', 'cash', 'transfer', 'naverpay', 'kakaopay'];
+
+interface GiftVoucherDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  voucher?: GiftVoucher | null;
+  onSuccess: () => void;
+}
+
+export function GiftVoucherDialog({ open, onOpenChange, voucher, onSuccess }: GiftVoucherDialogProps) {
+  const [paymentMethod, setPaymentMethod] = useState<VoucherPaymentMethod>('card');
+  const [issuedDate, setIssuedDate] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEditMode = !!voucher;
+
+  useEffect(() => {
+    if (open) {
+      const today = getTodayKST();
+      setPaymentMethod(voucher?.payment_method ?? 'card');
+      setIssuedDate(voucher?.issued_date ?? today);
+      setExpiresAt(voucher ? voucher.expires_at ?? '' : getDefaultVoucherExpiry(today));
+      setCustomerName(voucher?.customer?.name ?? '');
+      setCustomerId(voucher?.customer_id ?? null);
+      setIsSubmitting(false);
+    }
+  }, [open, voucher]);
+
+  const handleIssuedDateChange = (value: string) => {
+    setIssuedDate(value);
+    // 판매일을 바꾸면 기본 유효기간도 같이
+    if (value) setExpiresAt(getDefaultVoucherExpiry(value));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const formData = new FormData(e.currentTarget);
+      const common = {
+        expires_at: expiresAt || null,
+        customer_id: customerName ? customerId : null,
+        note: getFormString(formData, 'note') || null,
+      };
+
+      if (isEditMode) {
+        await updateGiftVoucher(voucher.id, common);
+        toast.success('선불권을 수정했습니다');
+      } else {
+        const created = await createGiftVoucher({
+          ...common,
+          code: getFormString(formData, 'code'),
+          amount: getFormInt(formData, 'amount') ?? 0,
+          payment_method: paymentMethod,
+          issued_date: issuedDate,
+        });
+        toast.success(`선불권 ${created.code}을(를) 판매했습니다`);
+      }
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '선불권 저장에 실패했습니다');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl">{isEditMode ? '선불권 수정' : '선불권 판매'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-5 pt-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>선불권 번호</Label>
+              <Input
+                name="code"
+                placeholder="비우면 자동 생성"
+                maxLength={20}
+                disabled={isEditMode}
+                className="bg-muted uppercase"
+                defaultValue={voucher?.code ?? ''}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>금액 *</Label>
+              {isEditMode ? (
+                <Input value={voucher.amount.toLocaleString('ko-KR')} disabled className="bg-muted" />
+              ) : (
+                <AmountInput name="amount" placeholder="100,000" required className="bg-muted" />
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>받은 방식</Label>
+              <Select
+                value={paymentMethod}
+                onValueChange={(value) => setPaymentMethod(value as VoucherPaymentMethod)}
+                disabled={isEditMode}
+              >
+                <SelectTrigger className="bg-muted">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VOUCHER_PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>{PAYMENT_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>판매일</Label>
+              <Input
+                type="date"
+                value={issuedDate}
+                onChange={(e) => handleIssuedDateChange(e.target.value)}
+                disabled={isEditMode}
+                required
+                className="bg-muted"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>유효기간</Label>
+              <Input
+                type="date"
+                value={expiresAt}
+                min={issuedDate}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="bg-muted"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>구매 고객</Label>
+              <CustomerAutocomplete
+                value={customerName}
+                onChange={(name, id) => {
+                  setCustomerName(name);
+                  setCustomerId(id);
+                }}
+                placeholder="고객명 검색 (선택)"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>메모</Label>
+            <Input name="note" maxLength={200} className="bg-muted" defaultValue={voucher?.note ?? ''} />
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            받은 돈은 매출이 아니라 선수금으로 두고, 매출 등록 때 선불권으로 결제한 만큼 매출로 잡혀요. 유효기간을 비우면 기한 없이 쓸 수 있어요.
+          </p>
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>취소</Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isSubmitting ? '저장 중...' : '저장'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,8 @@
+import { getGiftVouchers } from '@/lib/actions/gift-vouchers';
+import { VouchersClient } from './vouchers-client';
+
+export default async function VouchersPage() {
+  const vouchers = await getGiftVouchers();
+
+  return <VouchersClient vouchers={vouchers} />;
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { deleteGiftVoucher } from '@/lib/actions/gift-vouchers';
+import { getVoucherStatus, summarizeGiftVouchers, VOUCHER_EXPIRING_SOON_DAYS, type LoadedGiftVoucher } from '@/lib/gift-vouchers';
+import { GIFT_VOUCHER_STATUS_LABELS, PAYMENT_LABELS } from '@/lib/constants';
+import { formatCurrency, getTodayKST } from '@/lib/utils';
+import type { GiftVoucherStatus } from '@/types/database';
+import { GiftVoucherDialog } from './components/GiftVoucherDialog';
+
+type StatusFilter = GiftVoucherStatus | 'all';
+
+const STATUS_BADGE_VARIANTS: Record<GiftVoucherStatus, 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  used: 'secondary',
+  expired: 'destructive',
+};
+
+interface Props {
+  vouchers: LoadedGiftVoucher[];
+}
+
+export function VouchersClient({ vouchers }: Props) {
+  const router = useRouter();
+  const today = getTodayKST();
+
+  const [filter, setFilter] = useState<StatusFilter>('active');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingVoucher, setEditingVoucher] = useState<LoadedGiftVoucher | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const summary = useMemo(() => summarizeGiftVouchers(vouchers, today), [vouchers, today]);
+  const rows = useMemo(
+    () => vouchers
+      .map((voucher) => ({ voucher, status: getVoucherStatus(voucher, today) }))
+      .filter(({ status }) => filter === 'all' || status === filter),
+    [vouchers, today, filter],
+  );
+
+  const handleDelete = async (voucher: LoadedGiftVoucher) => {
+    setDeletingId(voucher.id);
+    try {
+      await deleteGiftVoucher(voucher.id);
+      toast.success(`선불권 ${voucher.code}을(를) 삭제했습니다`);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '선불권 삭제에 실패했습니다');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-foreground tracking-tight">선불권</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            판매한 선불권은 선수금으로 두고, 매출 등록 때 선불권 번호로 결제하면 쓴 만큼 매출로 잡혀요
+          </p>
+        </div>
+        <Button size="sm" className="shrink-0" onClick={() => { setEditingVoucher(null); setDialogOpen(true); }}>
+          <Plus className="w-4 h-4 mr-1.5" />
+          선불권 판매
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">미사용 잔액 ({summary.outstandingCount}장)</p>
+            <p className="text-lg font-bold text-foreground mt-1 tabular-nums">{formatCurrency(summary.outstandingAmount)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">{VOUCHER_EXPIRING_SOON_DAYS}일 안에 만료</p>
+            <p className="text-lg font-bold text-foreground mt-1 tabular-nums">{formatCurrency(summary.expiringSoonAmount)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">기한 지난 잔액</p>
+            <p className={`text-lg font-bold mt-1 tabular-nums ${summary.expiredAmount > 0 ? 'text-destructive' : 'text-foreground'}`}>
+              {formatCurrency(summary.expiredAmount)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as StatusFilter)}>
+        <TabsList>
+          {(Object.keys(GIFT_VOUCHER_STATUS_LABELS) as GiftVoucherStatus[]).map((status) => (
+            <TabsTrigger key={status} value={status}>{GIFT_VOUCHER_STATUS_LABELS[status]}</TabsTrigger>
+          ))}
+          <TabsTrigger value="all">전체</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card className="overflow-hidden">
+        {rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>선불권</TableHead>
+                <TableHead className="w-[110px] text-right">잔액</TableHead>
+                <TableHead className="w-[100px]">상태</TableHead>
+                <TableHead className="w-[110px]">유효기간</TableHead>
+                <TableHead>사용 내역</TableHead>
+                <TableHead className="w-[90px] text-right" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ voucher, status }) => (
+                <TableRow key={voucher.id}>
+                  <TableCell>
+                    <p className="font-medium font-mono">{voucher.code}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(voucher.issued_date), 'yy.M.d', { locale: ko })} · {formatCurrency(voucher.amount)} · {PAYMENT_LABELS[voucher.payment_method]}
+                      {voucher.customer && ` · ${voucher.customer.name}`}
+                    </p>
+                    {voucher.note && <p className="text-xs text-muted-foreground truncate max-w-[240px]">{voucher.note}</p>}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(voucher.balance)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGE_VARIANTS[status]}>{GIFT_VOUCHER_STATUS_LABELS[status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground tabular-nums">
+                    {voucher.expires_at ? format(new Date(voucher.expires_at), 'yyyy.M.d', { locale: ko }) : '기한 없음'}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {voucher.redemptions && voucher.redemptions.length > 0
+                      ? voucher.redemptions.map((r) => (
+                        <p key={r.id} className="tabular-nums">
+                          {format(new Date(r.date), 'M/d', { locale: ko })} {formatCurrency(r.voucher_amount)}
+                        </p>
+                      ))
+                      : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => { setEditingVoucher(voucher); setDialogOpen(true); }}
+                      aria-label={`${voucher.code} 수정`}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={deletingId !== null || (voucher.redemptions?.length ?? 0) > 0}
+                      onClick={() => handleDelete(voucher)}
+                      aria-label={`${voucher.code} 삭제`}
+                    >
+                      {deletingId === voucher.id
+                        ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        : <Trash2 className="w-3.5 h-3.5" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-16">선불권이 없습니다</p>
+        )}
+      </Card>
+
+      <GiftVoucherDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        voucher={editingVoucher}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { addDays, format } from 'date-fns';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { buildReservationsCalendar, hashFeedToken } from '@/lib/ics';
+import { isAccountDeactivated } from '@/lib/staff-accounts';
+import { fetchAllRows } from '@/lib/supabase/pagination';
+import type { Reservation } from '@/types/database';
+
+// 내보낼 기간: 지난 90일 ~ 앞으로 1년
+const PAST_DAYS = 90;
+const FUTURE_DAYS = 365;
+
+/**
+ * 휴대폰 캘린더 구독용 ICS 피드 (GET /api/calendar/feed?token=...)
+ * 캘린더 앱은 로그인 쿠키가 없어 구독 토큰으로 인증하고, service role로 조회
+ * 토큰 주인이 비활성화된 계정이면 거부
+ */
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const { data: feedToken, error: tokenError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('id, user_id')
+      .eq('token_hash', await hashFeedToken(token))
+      .maybeSingle();
+    if (tokenError) throw tokenError;
+    if (!feedToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase.auth.admin.getUserById(feedToken.user_id);
+    // banned_until은 응답에는 있지만 User 타입에 없음
+    if (userError || !userData.user || isAccountDeactivated((userData.user as { banned_until?: string | null }).banned_until)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const today = new Date();
+    // 값이 검증에 맞지 않는 예약도 빼지 않음 (buildReservationsCalendar에서 정리)
+    const reservations = await fetchAllRows<Reservation>((from, to) =>
+      supabase
+        .from('reservations')
+        .select('*')
+        .gte('date', format(addDays(today, -PAST_DAYS), 'yyyy-MM-dd'))
+        .lte('date', format(addDays(today, FUTURE_DAYS), 'yyyy-MM-dd'))
+        .order('date')
+        .order('time', { nullsFirst: false })
+        .order('id')
+        .range(from, to),
+    );
+
+    await supabase.from('calendar_feed_tokens').update({ last_used_at: today.toISOString() }).eq('id', feedToken.id);
+
+    return new NextResponse(buildReservationsCalendar(reservations, { name: '헤이즐 예약', now: today }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="reservations.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { createCronClient, verifyCronAuth } from '@/lib/cron';
+import { getTodayKST } from '@/lib/utils';
+import { applyCustomerGradeChanges, findCustomerGradeChanges, loadCustomerGradeRules } from '@/lib/customer-grading';
+
+/**
+ * 매일 새벽 3시 30분(KST) 실행 - 자동 등급 규칙으로 고객 등급 재계산
+ * 블랙리스트는 건드리지 않고, 바뀐 고객마다 변경 이력(actor 없음 = 자동)을 남김
+ */
+export async function GET(request: Request) {
+  if (!verifyCronAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createCronClient();
+
+    const rules = await loadCustomerGradeRules(supabase);
+    if (!rules.enabled) {
+      return NextResponse.json({ message: 'Customer grading disabled', updated: 0 });
+    }
+
+    const changes = await findCustomerGradeChanges(supabase, rules, getTodayKST());
+    const updated = await applyCustomerGradeChanges(supabase, { id: null, email: null }, changes);
+
+    console.log(`[Cron:grades] 고객 ${updated}명 등급 변경`);
+
+    return NextResponse.json({ message: 'Customer grades updated', updated });
+  } catch (error) {
+    console.error('Customer grading error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import webpush from 'web-push';
-import { createClient } from '@supabase/supabase-js';
+import { createCronClient, verifyCronAuth } from '@/lib/cron';
 
 // VAPID 설정 (lazy 초기화)
 let vapidConfigured = false;
@@ -13,17 +13,6 @@ function ensureVapid() {
   vapidConfigured = true;
 }
 
-// Cron 보안: CRON_SECRET으로 인증
-function verifyCronAuth(request: Request): boolean {
-  const authHeader = request.headers.get('authorization');
-  if (authHeader === `Bearer ${process.env.CRON_SECRET}`) return true;
-
-  // Vercel Cron은 자동으로 Authorization 헤더를 붙임
-  // 로컬 테스트용 fallback
-  if (process.env.NODE_ENV === 'development') return true;
-  return false;
-}
-
 // 영구적 실패 상태코드만 비활성화
 const PERMANENT_FAILURE_CODES = new Set([404, 410]);
 
@@ -52,14 +41,7 @@ export async function GET(request: Request) {
   try {
     ensureVapid();
 
-    // Service role key로 Supabase 접근 (RLS 우회)
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    const supabase = createClient(
-      supabaseUrl,
-      supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    );
+    const supabase = createCronClient();
 
     // 오늘 날짜 (KST 기준)
     const now = new Date();
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createCronClient, verifyCronAuth } from '@/lib/cron';
+import { sendPushToAllUsers } from '@/lib/actions/push';
+import { getTodayKST } from '@/lib/utils';
+import { buildOccasionReminder, findOccasionSales, getDueOccasionReminders } from '@/lib/occasions';
+import type { CustomerOccasion } from '@/types/database';
+
+type OccasionRow = CustomerOccasion & { customer: { name: string } };
+
+/**
+ * 매일 오전 9시(KST) 실행 - remind_days_before일 뒤가 기념일인 고객 알림
+ * 기념일마다 한 건씩, 지난 해 그 무렵 구매를 함께 보여주고 고객 상세(기념일 구매 이력)로 연결
+ */
+export async function GET(request: Request) {
+  if (!verifyCronAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createCronClient({ readOnly: true });
+
+    const today = getTodayKST();
+
+    // 휴지통 고객의 기념일은 제외
+    const { data: occasions, error: occasionsError } = await supabase
+      .from('customer_occasions')
+      .select('*, customer:customers!inner(name, deleted_at)')
+      .gt('remind_days_before', 0)
+      .is('customer.deleted_at', null);
+    if (occasionsError) throw occasionsError;
+
+    const due = getDueOccasionReminders((occasions || []) as OccasionRow[], today);
+    if (due.length === 0) {
+      return NextResponse.json({ message: 'No occasion reminders today', sent: 0 });
+    }
+
+    const { data: sales, error: salesError } = await supabase
+      .from('sales')
+      .select('customer_id, date, product_name, amount, refunded_amount')
+      .in('customer_id', [...new Set(due.map((o) => o.customer_id))])
+      .is('deleted_at', null)
+      .lt('date', today);
+    if (salesError) throw salesError;
+
+    let sent = 0;
+    let failed = 0;
+    for (const occasion of due) {
+      const pastSales = findOccasionSales((sales || []).filter((s) => s.customer_id === occasion.customer_id), occasion);
+      const { title, body } = buildOccasionReminder(occasion, occasion.customer.name, pastSales);
+      const result = await sendPushToAllUsers({
+        title,
+        body,
+        tag: `occasion-${occasion.id}-${occasion.date}`,
+        url: `/customers?customerId=${occasion.customer_id}&occasionId=${occasion.id}`,
+      });
+      sent += result.sent;
+      failed += result.failed;
+    }
+
+    console.log(`[Cron:occasions] 기념일 ${due.length}건 알림`, { sent, failed });
+
+    return NextResponse.json({ message: 'Occasion reminders sent', occasions: due.length, sent, failed });
+  } catch (error) {
+    console.error('Occasion reminder error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
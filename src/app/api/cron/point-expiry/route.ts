@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { createCronClient, verifyCronAuth } from '@/lib/cron';
+import { getTodayKST } from '@/lib/utils';
+import { expireCustomerPoints } from '@/lib/loyalty';
+
+/**
+ * 매일 새벽 4시(KST) 실행 - 유효기간(expires_at)이 지난 적립 포인트 소멸
+ * 적립을 꺼도 이미 쌓인 포인트는 기간이 지나면 소멸
+ */
+export async function GET(request: Request) {
+  if (!verifyCronAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createCronClient();
+
+    const result = await expireCustomerPoints(supabase, getTodayKST());
+
+    console.log(`[Cron:points] 고객 ${result.customers}명 ${result.points}P 소멸`);
+
+    return NextResponse.json({ message: 'Points expired', ...result });
+  } catch (error) {
+    console.error('Point expiry error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
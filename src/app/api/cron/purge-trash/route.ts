@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { createCronClient, verifyCronAuth } from '@/lib/cron';
+import { chunkArray, ID_FILTER_CHUNK_SIZE } from '@/lib/supabase/pagination';
+import { getTrashPurgeCutoff, getStoragePaths, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import type { PhotoFile } from '@/types/database';
+
+/**
+ * 매일 새벽 3시(KST) 실행 - 보관 기간이 지난 휴지통 항목 영구 삭제
+ * 사진 카드/매출 사진은 Storage 파일을 먼저 지우고, 실패하면 행을 남겨 다음 실행 때 다시 시도
+ */
+export async function GET(request: Request) {
+  if (!verifyCronAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createCronClient();
+
+    const cutoff = getTrashPurgeCutoff();
+    const purged = { photoCards: 0, sales: 0, expenses: 0, customers: 0 };
+
+    // 사진 카드: Storage(photo-cards) → 행
+    const { data: cards, error: cardsError } = await supabase
+      .from('photo_cards')
+      .select('id, photos')
+      .lt('deleted_at', cutoff);
+    if (cardsError) throw cardsError;
+
+    if (cards && cards.length > 0) {
+      const paths = getStoragePaths(
+        cards.flatMap(card => ((card.photos as PhotoFile[]) || []).map(photo => photo.url)),
+        'photo-cards',
+      );
+      const { error: storageError } = paths.length > 0
+        ? await supabase.storage.from('photo-cards').remove(paths)
+        : { error: null };
+
+      if (storageError) {
+        console.error('[Cron:purge] 사진 카드 Storage 삭제 실패:', storageError);
+      } else {
+        const { error } = await supabase.from('photo_cards').delete().in('id', cards.map(card => card.id));
+        if (error) throw error;
+        purged.photoCards = cards.length;
+      }
+    }
+
+    // 매출: Storage(sale-photos) → 선금·배송 → 행 (품목/환불/결제는 CASCADE)
+    const { data: sales, error: salesError } = await supabase
+      .from('sales')
+      .select('id, photos')
+      .lt('deleted_at', cutoff);
+    if (salesError) throw salesError;
+
+    if (sales && sales.length > 0) {
+      const paths = getStoragePaths(sales.flatMap(sale => (sale.photos as string[] | null) || []), 'sale-photos');
+      const { error: storageError } = paths.length > 0
+        ? await supabase.storage.from('sale-photos').remove(paths)
+        : { error: null };
+
+      if (storageError) {
+        console.error('[Cron:purge] 매출 사진 Storage 삭제 실패:', storageError);
+      } else {
+        for (const ids of chunkArray(sales.map(sale => sale.id), ID_FILTER_CHUNK_SIZE)) {
+          // 반영된 선금은 함께 삭제 (sale_id가 NULL이 되면 아직 받은 선금처럼 보여 다음 전환 때 또 차감됨)
+          const { error: depositsError } = await supabase.from('reservation_deposits').delete().in('sale_id', ids);
+          if (depositsError) throw depositsError;
+          // 매출에만 연결된 배송은 함께 삭제, 예약에 연결된 배송은 남김 (sale_id만 NULL로)
+          const { error: deliveriesError } = await supabase.from('deliveries').delete().in('sale_id', ids).is('reservation_id', null);
+          if (deliveriesError) throw deliveriesError;
+
+          const { error } = await supabase.from('sales').delete().in('id', ids);
+          if (error) throw error;
+        }
+        purged.sales = sales.length;
+      }
+    }
+
+    // 지출/고객: 행만 삭제
+    const { data: expenses, error: expensesError } = await supabase
+      .from('expenses')
+      .delete()
+      .lt('deleted_at', cutoff)
+      .select('id');
+    if (expensesError) throw expensesError;
+    purged.expenses = expenses?.length || 0;
+
+    const { data: customers, error: customersError } = await supabase
+      .from('customers')
+      .delete()
+      .lt('deleted_at', cutoff)
+      .select('id');
+    if (customersError) throw customersError;
+    purged.customers = customers?.length || 0;
+
+    console.log(`[Cron:purge] ${TRASH_RETENTION_DAYS}일 지난 휴지통 항목 영구 삭제`, purged);
+
+    return NextResponse.json({ message: 'Trash purged', cutoff, purged });
+  } catch (error) {
+    console.error('Purge trash error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
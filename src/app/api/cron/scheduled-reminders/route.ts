@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import webpush from 'web-push';
-import { createClient } from '@supabase/supabase-js';
+import { createCronClient, verifyCronAuth } from '@/lib/cron';
 
 // VAPID 설정 (lazy 초기화)
 let vapidConfigured = false;
@@ -13,13 +13,6 @@ function ensureVapid() {
   vapidConfigured = true;
 }
 
-function verifyCronAuth(request: Request): boolean {
-  const authHeader = request.headers.get('authorization');
-  if (authHeader === `Bearer ${process.env.CRON_SECRET}`) return true;
-  if (process.env.NODE_ENV === 'development') return true;
-  return false;
-}
-
 // 영구적 실패 상태코드만 비활성화
 const PERMANENT_FAILURE_CODES = new Set([404, 410]);
 
@@ -48,13 +41,7 @@ export async function GET(request: Request) {
   try {
     ensureVapid();
 
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    const supabase = createClient(
-      supabaseUrl,
-      supabaseServiceKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    );
+    const supabase = createCronClient();
 
     // 현재 시각 기준 1시간 윈도우 (KST)
     const now = new Date();
@@ -2,6 +2,10 @@
 
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { reportError } from '@/lib/logger'
+import { inviteSignupSchema, passwordSchema } from '@/lib/validations'
+import { getInvitationStatus, hashInviteCode } from '@/lib/staff-accounts'
 
 export async function login(formData: FormData) {
   const supabase = await createClient()
@@ -19,8 +23,108 @@ export async function login(formData: FormData) {
   })
 
   if (error) {
+    if (error.code === 'user_banned') {
+      return { success: false, error: '비활성화된 계정입니다. 관리자에게 문의해주세요.' }
+    }
     return { success: false, error: '이메일 또는 비밀번호가 올바르지 않습니다.' }
   }
 
   redirect('/')
 }
+
+// 초대 코드로 가입: 코드 확인 → 사용 처리 → 계정 생성 → 권한 부여 → 로그인
+export async function joinWithInvite(formData: FormData) {
+  const parsed = inviteSignupSchema.safeParse({
+    code: formData.get('code'),
+    email: formData.get('email'),
+    password: formData.get('password'),
+  })
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? '입력값이 올바르지 않습니다.' }
+  }
+
+  const email = parsed.data.email.trim().toLowerCase()
+  const admin = createAdminClient()
+
+  const { data: invitation } = await admin
+    .from('staff_invitations')
+    .select('id, email, role, expires_at, used_at, revoked_at')
+    .eq('code_hash', await hashInviteCode(parsed.data.code))
+    .maybeSingle()
+
+  if (!invitation || getInvitationStatus(invitation) !== 'pending') {
+    return { success: false, error: '유효하지 않거나 만료된 초대 코드입니다.' }
+  }
+  if (invitation.email && invitation.email !== email) {
+    return { success: false, error: '초대받은 이메일로 가입해주세요.' }
+  }
+
+  // 동시에 같은 코드를 쓰지 못하도록 먼저 사용 처리
+  const { data: claimed } = await admin
+    .from('staff_invitations')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', invitation.id)
+    .is('used_at', null)
+    .select('id')
+  if (!claimed || claimed.length === 0) {
+    return { success: false, error: '이미 사용된 초대 코드입니다.' }
+  }
+
+  const { data: created, error: createError } = await admin.auth.admin.createUser({
+    email,
+    password: parsed.data.password,
+    email_confirm: true,
+  })
+
+  if (createError || !created.user) {
+    await admin.from('staff_invitations').update({ used_at: null }).eq('id', invitation.id)
+    if (createError?.status === 422) {
+      return { success: false, error: '이미 가입된 이메일입니다.' }
+    }
+    await reportError(createError, { action: 'joinWithInvite' })
+    return { success: false, error: '가입에 실패했습니다. 잠시 후 다시 시도해주세요.' }
+  }
+
+  const { error: usedByError } = await admin.from('staff_invitations').update({ used_by: created.user.id }).eq('id', invitation.id)
+  if (usedByError) {
+    // 누가 쓴 코드인지 남기지 못하면 가입을 되돌리고 코드도 다시 쓸 수 있게
+    await admin.auth.admin.deleteUser(created.user.id)
+    await admin.from('staff_invitations').update({ used_at: null }).eq('id', invitation.id)
+    await reportError(usedByError, { action: 'joinWithInvite' })
+    return { success: false, error: '가입에 실패했습니다. 잠시 후 다시 시도해주세요.' }
+  }
+
+  const { error: roleError } = await admin
+    .from('user_roles')
+    .upsert({ user_id: created.user.id, role: invitation.role })
+  if (roleError) {
+    await reportError(roleError, { action: 'joinWithInvite' })
+  }
+
+  const supabase = await createClient()
+  const { error: signInError } = await supabase.auth.signInWithPassword({
+    email,
+    password: parsed.data.password,
+  })
+  if (signInError) {
+    return { success: false, error: '가입은 완료되었습니다. 로그인 화면에서 다시 로그인해주세요.' }
+  }
+
+  redirect('/')
+}
+
+// 초대 메일 링크로 로그인한 사용자가 비밀번호를 정한다
+export async function setInvitePassword(formData: FormData) {
+  const parsed = passwordSchema.safeParse(formData.get('password'))
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? '비밀번호를 확인해주세요.' }
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase.auth.updateUser({ password: parsed.data })
+  if (error) {
+    return { success: false, error: '초대 링크가 만료되었습니다. 관리자에게 다시 요청해주세요.' }
+  }
+
+  redirect('/')
+}
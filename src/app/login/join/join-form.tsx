@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Flower2, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createClient } from '@/lib/supabase/client'
+import { joinWithInvite, setInvitePassword } from '../actions'
+
+type JoinMode = 'checking' | 'code' | 'password'
+
+export function JoinForm() {
+  const [mode, setMode] = useState<JoinMode>('checking')
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  // 초대 메일 링크는 토큰을 URL hash로 넘겨준다 → 세션으로 저장 후 비밀번호 설정
+  useEffect(() => {
+    const supabase = createClient()
+    const params = new URLSearchParams(window.location.hash.slice(1))
+    const accessToken = params.get('access_token')
+    const refreshToken = params.get('refresh_token')
+
+    const init = async () => {
+      if (accessToken && refreshToken) {
+        const { error: sessionError } = await supabase.auth.setSession({
+          access_token: accessToken,
+          refresh_token: refreshToken,
+        })
+        window.history.replaceState(null, '', window.location.pathname)
+        if (sessionError) {
+          setError('초대 링크가 만료되었습니다. 관리자에게 다시 요청해주세요.')
+          setMode('code')
+          return
+        }
+        setMode('password')
+        return
+      }
+      const { data: { user } } = await supabase.auth.getUser()
+      setMode(user ? 'password' : 'code')
+    }
+    init()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError(null)
+    setIsLoading(true)
+
+    const formData = new FormData(e.currentTarget)
+    const result = mode === 'password'
+      ? await setInvitePassword(formData)
+      : await joinWithInvite(formData)
+
+    if (result?.error) {
+      setError(result.error)
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-dvh flex items-center justify-center bg-background px-4">
+      <div className="w-full max-w-sm space-y-8">
+        {/* Logo */}
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-12 h-12 bg-brand rounded-xl flex items-center justify-center">
+            <Flower2 className="h-6 w-6 text-brand-foreground" />
+          </div>
+          <div className="text-center">
+            <h1 className="text-xl font-semibold text-foreground">직원 가입</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              {mode === 'password' ? '사용할 비밀번호를 정해주세요' : '대표에게 받은 초대 코드를 입력하세요'}
+            </p>
+          </div>
+        </div>
+
+        {mode === 'checking' ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'code' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="code">초대 코드</Label>
+                  <Input
+                    id="code"
+                    name="code"
+                    placeholder="ABCD-EFGH"
+                    required
+                    autoComplete="off"
+                    autoFocus
+                    className="bg-muted uppercase"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="email">이메일</Label>
+                  <Input
+                    id="email"
+                    name="email"
+                    type="email"
+                    placeholder="staff@example.com"
+                    required
+                    autoComplete="email"
+                    className="bg-muted"
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="password">비밀번호</Label>
+              <Input
+                id="password"
+                name="password"
+                type="password"
+                placeholder="8자 이상"
+                required
+                minLength={8}
+                autoComplete="new-password"
+                autoFocus={mode === 'password'}
+                className="bg-muted"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive text-center">{error}</p>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isLoading}
+            >
+              {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {mode === 'password' ? '비밀번호 설정' : '가입하기'}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-muted-foreground">
+          이미 계정이 있나요?{' '}
+          <Link href="/login" className="text-foreground underline underline-offset-4">
+            로그인
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { JoinForm } from './join-form'
+
+export const metadata = {
+  title: '직원 가입 | 헤이즐 어드민',
+}
+
+export default function JoinPage() {
+  return <JoinForm />
+}
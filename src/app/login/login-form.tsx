@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { Flower2, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -81,6 +82,13 @@ export function LoginForm() {
             {isLoading ? '로그인 중...' : '로그인'}
           </Button>
         </form>
+
+        <p className="text-center text-sm text-muted-foreground">
+          초대 코드를 받았나요?{' '}
+          <Link href="/login/join" className="text-foreground underline underline-offset-4">
+            직원 가입
+          </Link>
+        </p>
       </div>
     </div>
   )
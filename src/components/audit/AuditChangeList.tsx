@@ -0,0 +1,34 @@
+'use client';
+
+import { formatAuditValue } from '@/lib/utils';
+import { AUDIT_FIELD_LABELS } from '@/lib/constants';
+import type { AuditLog } from '@/types/database';
+
+interface AuditChangeListProps {
+  log: AuditLog;
+}
+
+// 필드별 변경 전 → 후 (등록은 값만, 삭제는 삭제 전 값만)
+export function AuditChangeList({ log }: AuditChangeListProps) {
+  const entries = Object.entries(log.changes || {});
+  if (entries.length === 0) return null;
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {entries.map(([field, change]) => (
+        <li key={field} className="flex gap-2 min-w-0">
+          <span className="text-muted-foreground shrink-0">{AUDIT_FIELD_LABELS[field] || field}</span>
+          <span className="min-w-0 break-all">
+            {log.operation !== 'create' && (
+              <span className={log.operation === 'delete' ? '' : 'text-muted-foreground line-through'}>
+                {formatAuditValue(change.before)}
+              </span>
+            )}
+            {log.operation === 'update' && <span className="text-muted-foreground"> → </span>}
+            {log.operation !== 'delete' && <span>{formatAuditValue(change.after)}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { ko } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { getRecordAuditLogs } from '@/lib/actions/audit';
+import { AUDIT_ACTION_LABELS, AUDIT_OPERATION_LABELS } from '@/lib/constants';
+import type { AuditEntityType, AuditLog } from '@/types/database';
+import { AuditChangeList } from './AuditChangeList';
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+// 상세 다이얼로그 하단의 레코드별 변경 이력 (펼칠 때 조회)
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [logs, setLogs] = useState<AuditLog[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getRecordAuditLogs(entityType, entityId)
+      .then((data) => { if (!cancelled) setLogs(data); })
+      .catch(() => toast.error('변경 이력을 불러오는데 실패했습니다'));
+    return () => { cancelled = true; };
+  }, [isOpen, entityType, entityId]);
+
+  return (
+    <div className="space-y-2 pt-2 border-t">
+      <button
+        type="button"
+        className="flex items-center gap-2 text-sm font-medium text-foreground"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+      >
+        <History className="w-4 h-4 text-muted-foreground" />
+        변경 이력
+        {isOpen ? <ChevronDown className="w-4 h-4 text-muted-foreground" /> : <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+      </button>
+      {isOpen && (
+        logs === null ? (
+          <div className="space-y-2">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full rounded" />
+            ))}
+          </div>
+        ) : logs.length > 0 ? (
+          <ul className="space-y-2 max-h-60 overflow-y-auto">
+            {logs.map((log) => (
+              <li key={log.id} className="p-2 bg-muted rounded space-y-1">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-medium">
+                    {AUDIT_ACTION_LABELS[log.action] || AUDIT_OPERATION_LABELS[log.operation]}
+                  </span>
+                  <span className="text-muted-foreground tabular-nums">
+                    {format(new Date(log.created_at), 'M/d HH:mm', { locale: ko })}
+                  </span>
+                </div>
+                <p className="text-[11px] text-muted-foreground truncate">{log.actor_email || (log.actor_id ? '알 수 없음' : '자동')}</p>
+                {log.operation === 'update' && <AuditChangeList log={log} />}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-3">기록된 변경 이력이 없습니다</p>
+        )
+      )}
+    </div>
+  );
+}
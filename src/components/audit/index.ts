@@ -0,0 +1,2 @@
+export { AuditHistory } from './AuditHistory';
+export { AuditChangeList } from './AuditChangeList';
@@ -15,7 +15,7 @@ import Link from 'next/link';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { toast } from 'sonner';
-import { deletePhotoCard, deletePhotosFromStorage, downloadPhoto, downloadAllPhotos } from '@/lib/actions/photo-cards';
+import { deletePhotoCard, downloadPhoto, downloadAllPhotos } from '@/lib/actions/photo-cards';
 
 interface PhotoCardDialogProps {
   card: PhotoCard | null;
@@ -43,9 +43,8 @@ export function PhotoCardDialog({ card, onClose, onEdit, onDelete }: PhotoCardDi
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
-      const photoUrls = await deletePhotoCard(card.id);
-      await deletePhotosFromStorage(photoUrls);
-      toast.success('카드가 삭제되었습니다');
+      await deletePhotoCard(card.id);
+      toast.success('카드를 휴지통으로 옮겼습니다');
       onDelete();
       onClose();
     } catch (error) {
@@ -4,14 +4,16 @@ import { useState } from 'react';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
 import { cn } from '@/lib/utils';
+import type { UserRole } from '@/types/database';
 
 const SIDEBAR_COLLAPSED_KEY = 'hazel-sidebar-collapsed';
 
 interface AppLayoutProps {
   children: React.ReactNode;
+  role: UserRole;
 }
 
-export function AppLayout({ children }: AppLayoutProps) {
+export function AppLayout({ children, role }: AppLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -31,6 +33,7 @@ export function AppLayout({ children }: AppLayoutProps) {
   return (
     <div className="min-h-screen bg-background">
       <Sidebar
+        role={role}
         isOpen={sidebarOpen}
         isCollapsed={isCollapsed}
         onClose={() => setSidebarOpen(false)}
@@ -38,12 +41,12 @@ export function AppLayout({ children }: AppLayoutProps) {
       />
 
       <div className={cn(
-        'transition-[margin] duration-200',
+        'transition-[margin] duration-200 print:ml-0',
         isCollapsed ? 'lg:ml-16' : 'lg:ml-60'
       )}>
         <Header onMenuClick={() => setSidebarOpen(true)} />
 
-        <main className="p-4 sm:p-6 lg:p-8" aria-label="주요 콘텐츠">
+        <main className="p-4 sm:p-6 lg:p-8 print:p-0" aria-label="주요 콘텐츠">
           <div className="max-w-7xl mx-auto">
             {children}
           </div>
@@ -13,10 +13,13 @@ interface HeaderProps {
 const pageTitles: Record<string, string> = {
   '/': '대시보드',
   '/calendar': '캘린더',
+  '/calendar/route': '배송 경로표',
   '/sales': '매출 관리',
   '/expenses': '지출 관리',
+  '/inventory': '재고 관리',
   '/customers': '고객 관리',
   '/deposits': '입금 대조',
+  '/vouchers': '선불권',
   '/gallery': '사진첩',
   '/settings': '설정',
 };
@@ -39,7 +42,7 @@ export function Header({ onMenuClick }: HeaderProps) {
   const { resolvedTheme, setTheme } = useTheme();
 
   return (
-    <header className="sticky top-0 z-30 h-14 border-b border-border bg-background/80 backdrop-blur-sm">
+    <header className="sticky top-0 z-30 h-14 border-b border-border bg-background/80 backdrop-blur-sm print:hidden">
       <div className="flex h-full items-center justify-between px-4 lg:px-6">
         {/* Left side */}
         <div className="flex items-center gap-3">
@@ -16,9 +16,15 @@ import {
   ChevronsLeft,
   ChevronsRight,
   LogOut,
+  History,
+  Trash2,
+  Package,
+  Ticket,
 } from 'lucide-react';
 import { signOut } from '@/lib/actions/auth';
 import { cn } from '@/lib/utils';
+import { canAccessPath } from '@/lib/permissions';
+import type { UserRole } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import {
   Tooltip,
@@ -47,6 +53,8 @@ const navSections: NavSection[] = [
       { href: '/sales', icon: Receipt, label: '매출관리' },
       { href: '/expenses', icon: Wallet, label: '지출관리' },
       { href: '/deposits', icon: CreditCard, label: '입금대조' },
+      { href: '/vouchers', icon: Ticket, label: '선불권' },
+      { href: '/inventory', icon: Package, label: '재고관리' },
     ],
   },
   {
@@ -56,9 +64,17 @@ const navSections: NavSection[] = [
       { href: '/gallery', icon: Image, label: '사진첩' },
     ],
   },
+  {
+    title: '관리',
+    items: [
+      { href: '/audit', icon: History, label: '변경 이력' },
+      { href: '/trash', icon: Trash2, label: '휴지통' },
+    ],
+  },
 ];
 
 interface SidebarProps {
+  role: UserRole;
   isOpen: boolean;
   isCollapsed: boolean;
   onClose: () => void;
@@ -118,9 +134,14 @@ function NavLink({
   return link;
 }
 
-export function Sidebar({ isOpen, isCollapsed, onClose, onToggleCollapse }: SidebarProps) {
+export function Sidebar({ role, isOpen, isCollapsed, onClose, onToggleCollapse }: SidebarProps) {
   const pathname = usePathname();
 
+  // 권한이 없는 메뉴는 숨기고, 비어 있는 섹션도 제외
+  const visibleSections = navSections
+    .map((section) => ({ ...section, items: section.items.filter((item) => canAccessPath(role, item.href)) }))
+    .filter((section) => section.items.length > 0);
+
   return (
     <>
       {/* Mobile overlay */}
@@ -134,7 +155,7 @@ export function Sidebar({ isOpen, isCollapsed, onClose, onToggleCollapse }: Side
       {/* Sidebar */}
       <aside
         className={cn(
-          'fixed left-0 top-0 z-50 h-full border-r border-sidebar-border bg-sidebar transition-[width,transform] duration-200 ease-in-out',
+          'fixed left-0 top-0 z-50 h-full border-r border-sidebar-border bg-sidebar transition-[width,transform] duration-200 ease-in-out print:hidden',
           isCollapsed ? 'w-16' : 'w-60',
           isOpen ? 'translate-x-0' : '-translate-x-full',
           'lg:translate-x-0'
@@ -173,7 +194,7 @@ export function Sidebar({ isOpen, isCollapsed, onClose, onToggleCollapse }: Side
               />
             </div>
 
-            {navSections.map((section, idx) => (
+            {visibleSections.map((section, idx) => (
               <div key={section.title} className={cn(idx > 0 && 'mt-4')}>
                 {/* Section title */}
                 {!isCollapsed && (
@@ -211,14 +232,16 @@ export function Sidebar({ isOpen, isCollapsed, onClose, onToggleCollapse }: Side
 
           {/* Bottom section */}
           <div className={cn('border-t border-sidebar-border py-3', isCollapsed ? 'px-2' : 'px-3')}>
-            <NavLink
-              href="/settings"
-              icon={Settings}
-              label="설정"
-              isActive={pathname === '/settings'}
-              isCollapsed={isCollapsed}
-              onClick={onClose}
-            />
+            {canAccessPath(role, '/settings') && (
+              <NavLink
+                href="/settings"
+                icon={Settings}
+                label="설정"
+                isActive={pathname === '/settings'}
+                isCollapsed={isCollapsed}
+                onClick={onClose}
+              />
+            )}
 
             {/* Logout */}
             {isCollapsed ? (
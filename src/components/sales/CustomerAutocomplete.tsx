@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { searchCustomersByName } from '@/lib/actions/customers';
 import { cn, formatPhoneNumber } from '@/lib/utils';
+import { formatPoints } from '@/lib/loyalty';
 import { User, Plus, Loader2 } from 'lucide-react';
 
 interface CustomerOption {
@@ -11,6 +12,7 @@ interface CustomerOption {
   name: string;
   phone: string;
   grade: string;
+  point_balance?: number;
 }
 
 interface CustomerAutocompleteProps {
@@ -153,6 +155,9 @@ export function CustomerAutocomplete({
                       </div>
                       <span className="text-xs text-muted-foreground">{customer.phone}</span>
                     </div>
+                    {!!customer.point_balance && (
+                      <span className="text-xs font-medium text-brand tabular-nums shrink-0">{formatPoints(customer.point_balance)}</span>
+                    )}
                   </button>
                 );
               })}
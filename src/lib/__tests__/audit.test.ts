@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { diffRecords, getAuditOperation, pairAuditEntries } from '../audit'
+
+describe('getAuditOperation', () => {
+  it('should infer the operation from before/after', () => {
+    expect(getAuditOperation(null, { id: '1' })).toBe('create')
+    expect(getAuditOperation({ id: '1' }, null)).toBe('delete')
+    expect(getAuditOperation({ id: '1' }, { id: '1' })).toBe('update')
+  })
+})
+
+describe('diffRecords', () => {
+  it('should keep only changed fields on update', () => {
+    const before = { id: '1', amount: 50000, note: '메모', updated_at: '2026-01-01' }
+    const after = { id: '1', amount: 60000, note: '메모', updated_at: '2026-01-02' }
+    expect(diffRecords(before, after)).toEqual({ amount: { before: 50000, after: 60000 } })
+  })
+
+  it('should record every non-empty field on create and delete', () => {
+    expect(diffRecords(null, { id: '1', name: '홍길동', note: null })).toEqual({
+      name: { before: null, after: '홍길동' },
+    })
+    expect(diffRecords({ id: '1', name: '홍길동' }, null)).toEqual({
+      name: { before: '홍길동', after: null },
+    })
+  })
+
+  it('should treat null and undefined as equal', () => {
+    expect(diffRecords({ note: null }, { note: undefined })).toEqual({})
+  })
+
+  it('should compare decimal strings with numbers by value', () => {
+    expect(diffRecords({ fee_rate: '2.00' }, { fee_rate: '2.00' })).toEqual({})
+    expect(diffRecords({ fee: 1000 }, { fee: '1000' })).toEqual({})
+  })
+
+  it('should compare arrays by content', () => {
+    expect(diffRecords({ photos: ['a'] }, { photos: ['a'] })).toEqual({})
+    expect(diffRecords({ photos: ['a'] }, { photos: ['a', 'b'] })).toEqual({
+      photos: { before: ['a'], after: ['a', 'b'] },
+    })
+  })
+
+  it('should skip joined relations', () => {
+    expect(diffRecords({ items: [] }, { items: [{ id: 'x' }] })).toEqual({})
+  })
+})
+
+describe('pairAuditEntries', () => {
+  it('should pair before and after rows by id', () => {
+    const entries = pairAuditEntries(
+      'confirmDeposits',
+      'sale',
+      [{ id: 'a', deposit_status: 'pending' } as { id: string }, { id: 'b' }],
+      [{ id: 'a', deposit_status: 'completed' } as { id: string }],
+    )
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ action: 'confirmDeposits', entity_type: 'sale', entity_id: 'a' })
+    expect(diffRecords(entries[0].before, entries[0].after)).toEqual({
+      deposit_status: { before: 'pending', after: 'completed' },
+    })
+  })
+
+  it('should record child rows under the parent id', () => {
+    const entries = pairAuditEntries(
+      'confirmDeposit',
+      'sale',
+      [{ id: 'p1', sale_id: 's1' }],
+      [{ id: 'p1', sale_id: 's1' }],
+      (row) => row.sale_id,
+    )
+    expect(entries[0]).toMatchObject({ entity_id: 's1', before: { id: 'p1' } })
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  isBusinessDay,
+  nextBusinessDay,
+  addBusinessDays,
+  nextWeekday,
+  calculateCardFee,
+  calculateCardSettlement,
+  resolveFeeRate,
+  findFeeMismatches,
+} from '../business-days'
+import { isKoreanHoliday } from '../holidays'
+
+describe('isBusinessDay', () => {
+  it('should exclude weekends', () => {
+    expect(isBusinessDay('2026-01-10')).toBe(false) // 토
+    expect(isBusinessDay('2026-01-11')).toBe(false) // 일
+    expect(isBusinessDay('2026-01-12')).toBe(true) // 월
+  })
+
+  it('should exclude Korean public and substitute holidays', () => {
+    expect(isKoreanHoliday('2026-02-17')).toBe(true) // 설날
+    expect(isBusinessDay('2026-02-17')).toBe(false)
+    expect(isBusinessDay('2026-03-02')).toBe(false) // 삼일절 대체공휴일
+  })
+})
+
+describe('nextBusinessDay', () => {
+  it('should keep a business day as is', () => {
+    expect(nextBusinessDay('2026-01-13')).toBe('2026-01-13')
+  })
+
+  it('should roll weekends and holidays forward', () => {
+    expect(nextBusinessDay('2026-01-10')).toBe('2026-01-12')
+    expect(nextBusinessDay('2026-02-14')).toBe('2026-02-19') // 주말 + 설 연휴
+  })
+})
+
+describe('addBusinessDays', () => {
+  it('should count only business days (D+N)', () => {
+    expect(addBusinessDays('2026-01-12', 2)).toBe('2026-01-14') // 월 → 수
+    expect(addBusinessDays('2026-01-15', 2)).toBe('2026-01-19') // 목 → 다음 월
+  })
+
+  it('should skip holidays in the middle', () => {
+    expect(addBusinessDays('2026-02-13', 1)).toBe('2026-02-19') // 금 → 설 연휴 지나 목
+  })
+
+  it('should move a weekend sale to the next business day for D+0', () => {
+    expect(addBusinessDays('2026-01-11', 0)).toBe('2026-01-12')
+  })
+
+  it('should always return a business day after the sale date', () => {
+    const arbitraryDate = fc.tuple(
+      fc.constantFrom(2024, 2025, 2026),
+      fc.integer({ min: 1, max: 12 }),
+      fc.integer({ min: 1, max: 28 })
+    ).map(([y, m, d]) => `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`)
+
+    fc.assert(
+      fc.property(arbitraryDate, fc.integer({ min: 1, max: 10 }), (date, days) => {
+        const result = addBusinessDays(date, days)
+        return isBusinessDay(result) && result > date
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('nextWeekday', () => {
+  it('should return the next given weekday after the sale date', () => {
+    expect(nextWeekday('2026-01-14', 1)).toBe('2026-01-19') // 수 → 다음 월
+    expect(nextWeekday('2026-01-12', 1)).toBe('2026-01-19') // 월 → 다음 주 월
+  })
+
+  it('should roll a holiday weekday to the next business day', () => {
+    expect(nextWeekday('2026-05-20', 1)).toBe('2026-05-26') // 5/25 대체공휴일
+  })
+})
+
+describe('calculateCardFee', () => {
+  it('should round the fee to won', () => {
+    expect(calculateCardFee(100000, 2.0)).toBe(2000)
+    expect(calculateCardFee(33333, 2.2)).toBe(733)
+  })
+})
+
+describe('calculateCardSettlement', () => {
+  it('should compute fee, expected deposit and date with business-day rule', () => {
+    expect(
+      calculateCardSettlement(50000, '2026-01-16', {
+        fee_rate: 2.0,
+        deposit_days: 2,
+        deposit_rule: 'business_days',
+        deposit_weekday: null,
+      })
+    ).toEqual({ fee: 1000, expected_deposit: 49000, expected_deposit_date: '2026-01-20' })
+  })
+
+  it('should use the weekday rule when configured', () => {
+    expect(
+      calculateCardSettlement(50000, '2026-01-14', {
+        fee_rate: 2.0,
+        deposit_days: 3,
+        deposit_rule: 'next_weekday',
+        deposit_weekday: 1,
+      }).expected_deposit_date
+    ).toBe('2026-01-19')
+  })
+
+  it('should fall back to business days when the weekday is missing', () => {
+    expect(
+      calculateCardSettlement(50000, '2026-01-12', {
+        fee_rate: 2.0,
+        deposit_days: 3,
+        deposit_rule: 'next_weekday',
+        deposit_weekday: null,
+      }).expected_deposit_date
+    ).toBe('2026-01-15')
+  })
+})
+
+describe('resolveFeeRate', () => {
+  const rates = [
+    { fee_rate: 2.0, effective_from: '2025-01-01' },
+    { fee_rate: 1.8, effective_from: '2026-03-01' },
+  ]
+
+  it('should use the rate in force on the sale date', () => {
+    expect(resolveFeeRate(rates, '2026-02-28', 2.5)).toBe(2.0)
+    expect(resolveFeeRate(rates, '2026-03-01', 2.5)).toBe(1.8)
+  })
+
+  it('should fall back to the current setting without history', () => {
+    expect(resolveFeeRate([], '2026-01-01', 2.5)).toBe(2.5)
+    expect(resolveFeeRate(null, '2026-01-01', 2.5)).toBe(2.5)
+  })
+
+  it('should use the oldest rate for sales before the first version', () => {
+    expect(resolveFeeRate(rates, '2024-06-01', 2.5)).toBe(2.0)
+  })
+})
+
+describe('findFeeMismatches', () => {
+  const companies = [
+    {
+      name: '신한카드',
+      fee_rate: 1.8,
+      fee_rates: [
+        { fee_rate: 2.0, effective_from: '2025-01-01' },
+        { fee_rate: 1.8, effective_from: '2026-03-01' },
+      ],
+    },
+  ]
+
+  it('should report sales whose stored fee differs from the historical rate', () => {
+    const sales = [
+      { amount: 100000, date: '2026-02-10', fee: 1800, card_company: '신한카드' },
+      { amount: 100000, date: '2026-03-10', fee: 1800, card_company: '신한카드' },
+    ]
+    const result = findFeeMismatches(sales, companies)
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ fee_rate: 2.0, stored_fee: 1800, expected_fee: 2000, expected_deposit: 98000 })
+  })
+
+  it('should report sales without a stored fee and skip unknown card companies', () => {
+    const sales = [
+      { amount: 50000, date: '2026-03-10', fee: undefined, card_company: '신한카드' },
+      { amount: 50000, date: '2026-03-10', fee: 100, card_company: '없는카드' },
+    ]
+    const result = findFeeMismatches(sales, companies)
+    expect(result).toHaveLength(1)
+    expect(result[0].stored_fee).toBeNull()
+  })
+})
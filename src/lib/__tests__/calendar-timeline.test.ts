@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  timeToMinutes,
+  minutesToTime,
+  getTimelineHourRange,
+  snapTimelineMinutes,
+  layoutTimelineEvents,
+  getWeekDates,
+  TIMELINE_EVENT_MINUTES,
+} from '../calendar-timeline'
+
+describe('timeToMinutes / minutesToTime', () => {
+  it('DB 시간 형식(HH:MM:SS)도 읽는다', () => {
+    expect(timeToMinutes('11:30:00')).toBe(690)
+    expect(timeToMinutes(null)).toBeNull()
+  })
+
+  it('왕복하면 같은 시간', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 24 * 60 - 1 }), (minutes) => timeToMinutes(minutesToTime(minutes)) === minutes)
+    )
+  })
+})
+
+describe('getTimelineHourRange', () => {
+  it('예약이 영업시간 안이면 기본 범위', () => {
+    expect(getTimelineHourRange(['10:00', null, '18:30'])).toEqual({ startHour: 9, endHour: 21 })
+  })
+
+  it('이른/늦은 예약이 있으면 넓힌다', () => {
+    expect(getTimelineHourRange(['07:40', '21:30'])).toEqual({ startHour: 7, endHour: 23 })
+    expect(getTimelineHourRange(['23:30'])).toEqual({ startHour: 9, endHour: 24 })
+  })
+})
+
+describe('snapTimelineMinutes', () => {
+  const range = { startHour: 9, endHour: 21 }
+
+  it('30분 단위로 내림', () => {
+    expect(snapTimelineMinutes(11 * 60 + 47, range)).toBe(11 * 60 + 30)
+  })
+
+  it('시간 축 밖은 안으로 맞춤', () => {
+    expect(snapTimelineMinutes(8 * 60, range)).toBe(9 * 60)
+    expect(snapTimelineMinutes(22 * 60, range)).toBe(20 * 60 + 30)
+  })
+})
+
+describe('layoutTimelineEvents', () => {
+  it('시간 없는 예약은 빼고 시간순', () => {
+    const events = layoutTimelineEvents([
+      { id: 'b', time: '14:00' },
+      { id: 'a', time: '10:00' },
+      { id: 'c', time: null },
+    ])
+    expect(events.map((e) => e.item.id)).toEqual(['a', 'b'])
+    expect(events.every((e) => e.column === 0 && e.columns === 1)).toBe(true)
+  })
+
+  it('겹치는 예약은 나란히, 비면 왼쪽 칸을 다시 씀', () => {
+    const events = layoutTimelineEvents([
+      { id: 'a', time: '11:00' },
+      { id: 'b', time: '11:00' },
+      { id: 'c', time: '11:30' },
+      { id: 'd', time: '12:00' },
+    ])
+    const byId = Object.fromEntries(events.map((e) => [e.item.id, e]))
+    expect(byId.a.column).toBe(0)
+    expect(byId.b.column).toBe(1)
+    expect(byId.c.column).toBe(2)
+    expect(byId.d.column).toBe(0)
+    expect(events.every((e) => e.columns === 3)).toBe(true)
+  })
+
+  it('같은 칸의 예약끼리는 겹치지 않는다', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: 47 }), { maxLength: 20 }), (slots) => {
+        const events = layoutTimelineEvents(slots.map((s, i) => ({ id: i, time: minutesToTime(s * 30) })))
+        return events.every((a) =>
+          a.column < a.columns &&
+          events.every((b) => a === b || a.column !== b.column || Math.abs(a.start - b.start) >= TIMELINE_EVENT_MINUTES)
+        )
+      })
+    )
+  })
+})
+
+describe('getWeekDates', () => {
+  it('일요일부터 7일', () => {
+    expect(getWeekDates('2026-02-14')).toEqual([
+      '2026-02-08', '2026-02-09', '2026-02-10', '2026-02-11', '2026-02-12', '2026-02-13', '2026-02-14',
+    ])
+  })
+})
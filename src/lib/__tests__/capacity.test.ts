@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  getSlotKey,
+  summarizeDayLoad,
+  getCapacityWarnings,
+  getDayLoadRatio,
+  hasCapacityLimits,
+  formatCapacityWarning,
+} from '../capacity'
+import type { ReservationCapacity } from '@/types/database'
+
+const NO_LIMITS: ReservationCapacity = {
+  slot_minutes: 60,
+  daily_limit: null,
+  daily_workload_limit: null,
+  slot_limit: null,
+  slot_workload_limit: null,
+}
+
+const workloads = { basket: 2, group_bouquet: 3 }
+
+describe('getSlotKey', () => {
+  it('시간대 시작으로 내림', () => {
+    expect(getSlotKey('09:40', 30)).toBe('09:30')
+    expect(getSlotKey('11:00:00', 60)).toBe('11:00')
+    expect(getSlotKey('13:59', 120)).toBe('12:00')
+  })
+
+  it('시간이 없으면 null', () => {
+    expect(getSlotKey(null, 60)).toBeNull()
+    expect(getSlotKey('', 60)).toBeNull()
+  })
+
+  it('시간대 시작은 입력 시간 이하, 단위만큼 차이 미만', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 23 }),
+        fc.integer({ min: 0, max: 59 }),
+        fc.constantFrom(15, 30, 60, 120),
+        (h, m, slot) => {
+          const key = getSlotKey(`${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`, slot)!
+          const [kh, km] = key.split(':').map(Number)
+          const diff = h * 60 + m - (kh * 60 + km)
+          return diff >= 0 && diff < slot
+        }
+      )
+    )
+  })
+})
+
+describe('summarizeDayLoad', () => {
+  it('취소 예약은 빼고, 시간 없는 예약은 하루 합계에만', () => {
+    const load = summarizeDayLoad(
+      [
+        { time: '11:00', status: 'pending', product_category: 'basket' },
+        { time: '11:30', status: 'confirmed' },
+        { time: null, status: 'pending', product_category: 'group_bouquet' },
+        { time: '11:10', status: 'cancelled' },
+      ],
+      60,
+      workloads
+    )
+    expect(load.count).toBe(3)
+    expect(load.workload).toBe(6)
+    expect(load.slots).toEqual({ '11:00': { count: 2, workload: 3 } })
+  })
+})
+
+describe('getCapacityWarnings', () => {
+  const sameDay = [
+    { id: 'a', time: '11:00', status: 'pending' },
+    { id: 'b', time: '11:20', status: 'confirmed' },
+  ]
+
+  it('시간대 건수 한도를 넘으면 경고', () => {
+    const warnings = getCapacityWarnings({ time: '11:45', status: 'pending' }, sameDay, { ...NO_LIMITS, slot_limit: 2 }, {})
+    expect(warnings).toEqual([{ type: 'slot_count', slot: '11:00', value: 3, limit: 2 }])
+  })
+
+  it('한도와 같으면 경고 없음', () => {
+    expect(getCapacityWarnings({ time: '14:00', status: 'pending' }, sameDay, { ...NO_LIMITS, daily_limit: 3 }, {})).toEqual([])
+  })
+
+  it('수정 중인 예약은 자기 자신을 두 번 세지 않음', () => {
+    const capacity = { ...NO_LIMITS, slot_limit: 2 }
+    expect(getCapacityWarnings({ id: 'a', time: '11:00', status: 'pending' }, sameDay, capacity, {})).toEqual([])
+  })
+
+  it('작업량 한도는 상품별 작업량 합계로', () => {
+    const warnings = getCapacityWarnings(
+      { time: '15:00', status: 'pending', product_category: 'group_bouquet' },
+      sameDay,
+      { ...NO_LIMITS, daily_workload_limit: 4 },
+      workloads
+    )
+    expect(warnings).toEqual([{ type: 'daily_workload', slot: null, value: 5, limit: 4 }])
+  })
+
+  it('취소 상태로 저장하면 경고 없음', () => {
+    expect(getCapacityWarnings({ time: '11:00', status: 'cancelled' }, sameDay, { ...NO_LIMITS, slot_limit: 1 }, {})).toEqual([])
+  })
+
+  it('한도가 없으면 항상 경고 없음', () => {
+    fc.assert(
+      fc.property(fc.array(fc.constantFrom('10:00', '11:00', null), { maxLength: 30 }), (times) => {
+        const others = times.map((time, i) => ({ id: String(i), time, status: 'pending' }))
+        return getCapacityWarnings({ time: '11:00', status: 'pending' }, others, NO_LIMITS, {}).length === 0
+      })
+    )
+  })
+})
+
+describe('getDayLoadRatio', () => {
+  it('설정된 한도 중 가장 빡빡한 비율', () => {
+    const reservations = [
+      { time: '11:00', status: 'pending' },
+      { time: '11:30', status: 'pending' },
+      { time: '15:00', status: 'pending' },
+    ]
+    expect(getDayLoadRatio(reservations, { ...NO_LIMITS, daily_limit: 10, slot_limit: 2 }, {})).toBe(1)
+    expect(getDayLoadRatio(reservations, { ...NO_LIMITS, daily_limit: 4 }, {})).toBe(0.75)
+  })
+
+  it('한도가 없으면 null', () => {
+    expect(getDayLoadRatio([{ time: '11:00', status: 'pending' }], NO_LIMITS, {})).toBeNull()
+    expect(hasCapacityLimits(NO_LIMITS)).toBe(false)
+  })
+})
+
+describe('formatCapacityWarning', () => {
+  it('하루/시간대, 건수/작업량 문구', () => {
+    expect(formatCapacityWarning({ type: 'daily_count', slot: null, value: 11, limit: 10 })).toBe('하루 예약 11건 (한도 10건)')
+    expect(formatCapacityWarning({ type: 'slot_workload', slot: '11:00', value: 4.5, limit: 4 })).toBe('11:00 시간대 작업량 4.5 (한도 4)')
+  })
+})
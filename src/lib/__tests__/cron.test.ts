@@ -0,0 +1,35 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createCronClient, verifyCronAuth } from '../cron'
+
+function request(authorization?: string) {
+  return new Request('http://localhost/api/cron/test', { headers: authorization ? { authorization } : {} })
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('verifyCronAuth', () => {
+  it('CRON_SECRET Bearer 헤더만 통과', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('CRON_SECRET', 'secret')
+    expect(verifyCronAuth(request('Bearer secret'))).toBe(true)
+    expect(verifyCronAuth(request('Bearer wrong'))).toBe(false)
+    expect(verifyCronAuth(request())).toBe(false)
+  })
+
+  it('로컬 개발에서는 헤더 없이 통과', () => {
+    vi.stubEnv('NODE_ENV', 'development')
+    expect(verifyCronAuth(request())).toBe(true)
+  })
+})
+
+describe('createCronClient', () => {
+  it('service role 키가 없으면 데이터를 바꾸는 작업은 실패, 읽기만 하면 anon 키로', () => {
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', 'http://localhost:54321')
+    vi.stubEnv('NEXT_PUBLIC_SUPABASE_ANON_KEY', 'anon')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '')
+    expect(() => createCronClient()).toThrow('SUPABASE_SERVICE_ROLE_KEY is not set')
+    expect(createCronClient({ readOnly: true })).toBeDefined()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  normalizePhoneDigits,
+  getPhoneVariants,
+  normalizeCustomerName,
+  getNameDistance,
+  getCustomerDuplicateReason,
+  getCustomerPairKey,
+  findCustomerDuplicateGroups,
+  pickMergeSurvivor,
+  mergeCustomerGrade,
+  mergeCustomerNotes,
+  mergePreviousPhones,
+} from '../customer-duplicates'
+
+function customer(id: string, name: string, phone: string, extra: Partial<{ created_at: string; total_purchase_amount: number; total_purchase_count: number }> = {}) {
+  return { id, name, phone, created_at: '2026-01-01T00:00:00Z', ...extra }
+}
+
+describe('연락처/이름 정규화', () => {
+  it('하이픈/공백/국가번호를 빼고 비교', () => {
+    expect(normalizePhoneDigits('010-1234-5678')).toBe('01012345678')
+    expect(normalizePhoneDigits('+82 10 1234 5678')).toBe('01012345678')
+  })
+
+  it('DB 조회용 표기들', () => {
+    expect(getPhoneVariants('01012345678')).toEqual(['01012345678', '010-1234-5678'])
+    expect(getPhoneVariants('010-123-4567')).toEqual(['010-123-4567', '0101234567'])
+    expect(getPhoneVariants('0212345678')).toEqual(['0212345678', '02-1234-5678'])
+  })
+
+  it('이름은 공백과 "님"을 뺌', () => {
+    expect(normalizeCustomerName(' 김 민지님 ')).toBe('김민지')
+    expect(normalizeCustomerName('김민지 고객님')).toBe('김민지')
+    expect(normalizeCustomerName('Kim')).toBe('kim')
+  })
+})
+
+describe('getNameDistance', () => {
+  it('글자 단위 편집 거리', () => {
+    expect(getNameDistance('김민지', '김민지')).toBe(0)
+    expect(getNameDistance('김민지', '김민자')).toBe(1)
+    expect(getNameDistance('김민지', '김지')).toBe(1)
+    expect(getNameDistance('', '김민지')).toBe(3)
+  })
+
+  it('대칭이고 자기 자신과는 0', () => {
+    fc.assert(fc.property(fc.string({ maxLength: 8 }), fc.string({ maxLength: 8 }), (a, b) =>
+      getNameDistance(a, b) === getNameDistance(b, a) && getNameDistance(a, a) === 0
+    ))
+  })
+})
+
+describe('getCustomerDuplicateReason', () => {
+  it('연락처 표기만 다른 고객', () => {
+    expect(getCustomerDuplicateReason(customer('a', '김민지', '010-1234-5678'), customer('b', '민지', '01012345678'))).toBe('phone')
+  })
+
+  it('번호를 바꾼 같은 이름', () => {
+    expect(getCustomerDuplicateReason(customer('a', '김민지', '010-1234-5678'), customer('b', '김 민지', '010-9999-0000'))).toBe('name')
+  })
+
+  it('이름 한 글자 오타는 뒷번호가 같을 때만', () => {
+    expect(getCustomerDuplicateReason(customer('a', '김민지', '010-1234-5678'), customer('b', '김민자', '011-234-5678'))).toBe('similar_name')
+    expect(getCustomerDuplicateReason(customer('a', '김민지', '010-1234-5678'), customer('b', '김민자', '010-1234-0000'))).toBeNull()
+  })
+})
+
+describe('findCustomerDuplicateGroups', () => {
+  const customers = [
+    customer('a', '김민지', '010-1234-5678'),
+    customer('b', '김민지', '01012345678'),
+    customer('c', '김민지', '010-5555-6666'),
+    customer('d', '이철수', '010-1111-2222'),
+    customer('e', '박영희', '010-3333-4444'),
+    customer('f', '박영히', '010-7777-4444'),
+  ]
+
+  it('이어지는 중복은 한 묶음, 연락처가 같은 묶음이 먼저', () => {
+    const groups = findCustomerDuplicateGroups(customers)
+    expect(groups.map((g) => g.customers.map((c) => c.id))).toEqual([['a', 'b', 'c'], ['e', 'f']])
+    expect(groups[0].reasons).toEqual(['phone', 'name'])
+    expect(groups[1].reasons).toEqual(['similar_name'])
+  })
+
+  it('"다른 사람"으로 표시한 쌍은 연결하지 않음', () => {
+    const excluded = new Set([getCustomerPairKey('c', 'a'), getCustomerPairKey('b', 'c'), getCustomerPairKey('f', 'e')])
+    const groups = findCustomerDuplicateGroups(customers, excluded)
+    expect(groups.map((g) => g.customers.map((c) => c.id))).toEqual([['a', 'b']])
+  })
+
+  it('같은 쌍 키는 순서 무관', () => {
+    fc.assert(fc.property(fc.uuid(), fc.uuid(), (a, b) => getCustomerPairKey(a, b) === getCustomerPairKey(b, a)))
+  })
+})
+
+describe('병합', () => {
+  it('구매가 많은 고객, 같으면 먼저 등록된 고객을 남김', () => {
+    expect(pickMergeSurvivor([
+      customer('a', '김민지', '1', { total_purchase_amount: 1000 }),
+      customer('b', '김민지', '2', { total_purchase_amount: 5000 }),
+    ]).id).toBe('b')
+    expect(pickMergeSurvivor([
+      customer('a', '김민지', '1', { created_at: '2026-02-01T00:00:00Z' }),
+      customer('b', '김민지', '2', { created_at: '2025-12-01T00:00:00Z' }),
+    ]).id).toBe('b')
+  })
+
+  it('등급은 블랙리스트 우선, 아니면 높은 등급', () => {
+    expect(mergeCustomerGrade(['new', 'vip', 'regular'])).toBe('vip')
+    expect(mergeCustomerGrade(['vip', 'blacklist'])).toBe('blacklist')
+    expect(mergeCustomerGrade([])).toBe('new')
+  })
+
+  it('메모를 합치고 다른 연락처를 남김', () => {
+    expect(mergeCustomerNotes(
+      { phone: '010-1234-5678', note: '장미 좋아함' },
+      [
+        { name: '김민지', phone: '01012345678', note: '장미 좋아함' },
+        { name: '김민지', phone: '010-5555-6666', note: '주차 필요' },
+      ],
+    )).toBe('장미 좋아함\n주차 필요\n이전 연락처: 010-5555-6666')
+    expect(mergeCustomerNotes({ phone: '010', note: undefined }, [{ name: 'a', phone: '010', note: '' }])).toBeNull()
+  })
+
+  it('합쳐지는 고객 연락처를 이전 연락처로 남김 (남길 고객 번호는 빼고 중복 없이)', () => {
+    expect(mergePreviousPhones(
+      { phone: '010-1234-5678', previous_phones: ['01099998888'] },
+      [
+        { phone: '01012345678', previous_phones: [] },
+        { phone: '010-5555-6666', previous_phones: ['01099998888', '01077776666'] },
+      ],
+    )).toEqual(['01099998888', '01055556666', '01077776666'])
+    expect(mergePreviousPhones({ phone: '01012345678' }, [{ phone: '010-1234-5678' }])).toEqual([])
+  })
+})
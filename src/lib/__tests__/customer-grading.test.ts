@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  DEFAULT_GRADE_RULES,
+  getMonthsAgo,
+  evaluateCustomerGrade,
+  getAutoGradeChange,
+  planCustomerGradeChanges,
+  summarizeGradeChanges,
+} from '../customer-grading'
+import type { CustomerGrade, CustomerGradeRules } from '@/types/database'
+
+const TODAY = '2026-10-19'
+
+const rules: CustomerGradeRules = {
+  ...DEFAULT_GRADE_RULES,
+  enabled: true,
+  regular_min_count: 3,
+  regular_min_amount: null,
+  vip_min_count: 10,
+  vip_min_amount: 1000000,
+}
+
+function stats(count: number, amount: number, last_purchase: string | null = '2026-10-01') {
+  return { count, amount, last_purchase }
+}
+
+describe('getMonthsAgo', () => {
+  it('달 단위로 빼고, 없는 날은 말일로', () => {
+    expect(getMonthsAgo(TODAY, 12)).toBe('2025-10-19')
+    expect(getMonthsAgo('2026-03-31', 1)).toBe('2026-02-28')
+  })
+})
+
+describe('evaluateCustomerGrade', () => {
+  it('구매가 없으면 신규', () => {
+    expect(evaluateCustomerGrade(undefined, rules, TODAY)).toBe('new')
+    expect(evaluateCustomerGrade(stats(0, 0, null), rules, TODAY)).toBe('new')
+  })
+
+  it('횟수·금액 중 하나만 채워도 해당 등급', () => {
+    expect(evaluateCustomerGrade(stats(2, 50000), rules, TODAY)).toBe('new')
+    expect(evaluateCustomerGrade(stats(3, 90000), rules, TODAY)).toBe('regular')
+    expect(evaluateCustomerGrade(stats(2, 1200000), rules, TODAY)).toBe('vip')
+    expect(evaluateCustomerGrade(stats(10, 300000), rules, TODAY)).toBe('vip')
+  })
+
+  it('기준이 모두 비어 있는 등급은 주지 않음', () => {
+    const noVip = { ...rules, vip_min_count: null, vip_min_amount: null }
+    expect(evaluateCustomerGrade(stats(50, 9000000), noVip, TODAY)).toBe('regular')
+  })
+
+  it('마지막 구매가 오래되면 신규', () => {
+    const recent = { ...rules, recency_months: 3 }
+    expect(evaluateCustomerGrade(stats(12, 2000000, '2026-07-19'), recent, TODAY)).toBe('vip')
+    expect(evaluateCustomerGrade(stats(12, 2000000, '2026-07-18'), recent, TODAY)).toBe('new')
+  })
+
+  it('구매가 늘면 등급이 내려가지 않음', () => {
+    const rank = { new: 0, regular: 1, vip: 2 }
+    fc.assert(fc.property(fc.nat(30), fc.nat(3000000), fc.nat(5), fc.nat(500000), (count, amount, more, moreAmount) =>
+      rank[evaluateCustomerGrade(stats(count + more, amount + moreAmount), rules, TODAY)] >=
+        rank[evaluateCustomerGrade(stats(count, amount), rules, TODAY)]
+    ))
+  })
+})
+
+describe('getAutoGradeChange', () => {
+  it('블랙리스트와 같은 등급은 그대로', () => {
+    expect(getAutoGradeChange('blacklist', 'vip', rules)).toBeNull()
+    expect(getAutoGradeChange('regular', 'regular', rules)).toBeNull()
+  })
+
+  it('allow_downgrade가 꺼져 있으면 올리기만', () => {
+    expect(getAutoGradeChange('vip', 'regular', rules)).toBe('regular')
+    expect(getAutoGradeChange('vip', 'regular', { ...rules, allow_downgrade: false })).toBeNull()
+    expect(getAutoGradeChange('new', 'regular', { ...rules, allow_downgrade: false })).toBe('regular')
+  })
+})
+
+describe('planCustomerGradeChanges', () => {
+  const customers: { id: string; grade: CustomerGrade }[] = [
+    { id: 'a', grade: 'new' },
+    { id: 'b', grade: 'vip' },
+    { id: 'c', grade: 'blacklist' },
+    { id: 'd', grade: 'regular' },
+  ]
+  const statsByCustomer = new Map([
+    ['a', stats(4, 200000)],
+    ['c', stats(20, 5000000)],
+    ['d', stats(3, 100000)],
+  ])
+
+  it('바뀌는 고객만, 블랙리스트는 제외', () => {
+    const changes = planCustomerGradeChanges(customers, statsByCustomer, rules, TODAY)
+    expect(changes).toEqual([
+      { customer_id: 'a', from: 'new', to: 'regular' },
+      { customer_id: 'b', from: 'vip', to: 'new' },
+    ])
+    expect(summarizeGradeChanges(changes)).toEqual({
+      new: { up: 0, down: 1 },
+      regular: { up: 1, down: 0 },
+      vip: { up: 0, down: 0 },
+    })
+  })
+})
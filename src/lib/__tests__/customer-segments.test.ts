@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  scoreQuintiles,
+  getCustomerSegment,
+  getCustomerRfm,
+  summarizeCustomerSegments,
+} from '../customer-segments'
+import type { CustomerGrade } from '@/types/database'
+
+const TODAY = '2026-10-19'
+
+function customer(id: string, count: number, amount: number, last: string | null, grade: CustomerGrade = 'regular') {
+  return { id, grade, total_purchase_count: count, total_purchase_amount: amount, last_purchase_date: last }
+}
+
+describe('scoreQuintiles', () => {
+  it('작은 값부터 1~5점', () => {
+    expect(scoreQuintiles([5, 1, 3, 2, 4])).toEqual([5, 1, 3, 2, 4])
+  })
+
+  it('같은 값은 같은 점수, 한 명뿐이면 중간', () => {
+    expect(scoreQuintiles([7, 7, 7])).toEqual([3, 3, 3])
+    expect(scoreQuintiles([100])).toEqual([3])
+  })
+
+  it('점수는 항상 1~5, 값이 크면 점수도 크거나 같음', () => {
+    fc.assert(fc.property(fc.array(fc.integer({ min: 0, max: 1000 }), { minLength: 1, maxLength: 50 }), (values) => {
+      const scores = scoreQuintiles(values)
+      return values.every((v, i) =>
+        scores[i] >= 1 && scores[i] <= 5 && values.every((w, j) => v <= w ? scores[i] <= scores[j] : true)
+      )
+    }))
+  })
+})
+
+describe('getCustomerSegment', () => {
+  const rfm = (recency_days: number, frequency: number, r: number, f: number, m: number) => ({ recency_days, frequency, r, f, m })
+
+  it('최근 구매가 뜸한 고액/VIP 고객은 떠난 VIP', () => {
+    expect(getCustomerSegment(rfm(200, 5, 2, 4, 4), 'regular')).toBe('lapsed_vip')
+    expect(getCustomerSegment(rfm(200, 5, 1, 3, 2), 'vip')).toBe('lapsed_vip')
+  })
+
+  it('자주 샀지만 뜸하면 이탈 위험, 적게 샀으면 휴면', () => {
+    expect(getCustomerSegment(rfm(200, 5, 2, 4, 3), 'regular')).toBe('at_risk')
+    expect(getCustomerSegment(rfm(200, 2, 2, 2, 2), 'regular')).toBe('hibernating')
+  })
+
+  it('최근 재구매지만 횟수가 적으면 성장 가능', () => {
+    expect(getCustomerSegment(rfm(10, 2, 4, 2, 2), 'new')).toBe('promising')
+  })
+
+  it('한 번 산 고객은 첫 구매가 최근이면 신규, 아니면 1회 구매', () => {
+    expect(getCustomerSegment(rfm(30, 1, 4, 1, 2), 'new')).toBe('new')
+    expect(getCustomerSegment(rfm(90, 1, 2, 1, 2), 'new')).toBe('one_time')
+  })
+})
+
+describe('getCustomerRfm', () => {
+  const customers = [
+    customer('a', 10, 1_000_000, '2026-10-15'),
+    customer('b', 6, 500_000, '2026-10-01'),
+    customer('c', 4, 900_000, '2025-12-01'),
+    customer('d', 1, 30_000, '2026-09-01', 'new'),
+    customer('e', 1, 50_000, '2025-03-01', 'new'),
+    customer('f', 2, 40_000, '2026-07-01'),
+    customer('g', 0, 0, null, 'new'),
+  ]
+  const result = getCustomerRfm(customers, TODAY)
+
+  it('구매 고객 안에서 점수를 매겨 세그먼트로', () => {
+    expect(customers.map((c) => result.get(c.id)?.segment)).toEqual([
+      'champion', 'loyal', 'lapsed_vip', 'new', 'one_time', 'loyal', 'no_purchase',
+    ])
+    expect(result.get('a')).toMatchObject({ recency_days: 4, r: 5, f: 5, m: 5 })
+    expect(result.get('g')).toMatchObject({ recency_days: null, r: 0, f: 0, m: 0 })
+  })
+
+  it('세그먼트별 인원·금액 (표시 순서)', () => {
+    expect(summarizeCustomerSegments(result)).toEqual([
+      { segment: 'champion', count: 1, amount: 1_000_000 },
+      { segment: 'loyal', count: 2, amount: 540_000 },
+      { segment: 'new', count: 1, amount: 30_000 },
+      { segment: 'lapsed_vip', count: 1, amount: 900_000 },
+      { segment: 'one_time', count: 1, amount: 50_000 },
+      { segment: 'no_purchase', count: 1, amount: 0 },
+    ])
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  DELIVERY_STATUS_FLOW,
+  canChangeDeliveryStatus,
+  getDeliveryStatusUpdate,
+  formatTimeWindow,
+  sortDeliveriesForRoute,
+  summarizeDeliveries,
+} from '../deliveries'
+import type { DeliveryStatus } from '@/types/database'
+
+const statuses: DeliveryStatus[] = ['preparing', 'in_transit', 'delivered', 'failed']
+
+describe('canChangeDeliveryStatus', () => {
+  it('준비중 → 배송중 → 완료 흐름을 허용한다', () => {
+    expect(canChangeDeliveryStatus('preparing', 'in_transit')).toBe(true)
+    expect(canChangeDeliveryStatus('in_transit', 'delivered')).toBe(true)
+  })
+
+  it('준비중에서 바로 완료로 건너뛸 수 없다', () => {
+    expect(canChangeDeliveryStatus('preparing', 'delivered')).toBe(false)
+  })
+
+  it('실패는 준비중으로만 되돌린다', () => {
+    expect(DELIVERY_STATUS_FLOW.failed).toEqual(['preparing'])
+  })
+
+  it('같은 상태로의 변경은 허용하지 않는다', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...statuses), (status) => {
+        expect(canChangeDeliveryStatus(status, status)).toBe(false)
+      })
+    )
+  })
+})
+
+describe('getDeliveryStatusUpdate', () => {
+  const now = new Date('2026-05-08T05:30:00Z')
+
+  it('완료 시 완료 시각을 남긴다', () => {
+    expect(getDeliveryStatusUpdate('delivered', now)).toEqual({
+      status: 'delivered',
+      delivered_at: '2026-05-08T05:30:00.000Z',
+      failure_reason: null,
+    })
+  })
+
+  it('실패 시 사유를 정리해서 남긴다', () => {
+    expect(getDeliveryStatusUpdate('failed', now, '  부재  ').failure_reason).toBe('부재')
+    expect(getDeliveryStatusUpdate('failed', now, '   ').failure_reason).toBeNull()
+  })
+
+  it('다른 상태로 바꾸면 완료 시각과 실패 사유를 지운다', () => {
+    expect(getDeliveryStatusUpdate('preparing', now, '부재')).toEqual({
+      status: 'preparing',
+      delivered_at: null,
+      failure_reason: null,
+    })
+  })
+})
+
+describe('formatTimeWindow', () => {
+  it('시작과 끝이 모두 있으면 범위로 표시한다', () => {
+    expect(formatTimeWindow('14:00:00', '16:00:00')).toBe('14:00~16:00')
+  })
+
+  it('한쪽만 있으면 이후/전으로 표시한다', () => {
+    expect(formatTimeWindow('14:00:00', null)).toBe('14:00 이후')
+    expect(formatTimeWindow(null, '16:00:00')).toBe('16:00 전')
+  })
+
+  it('시간이 없으면 미정', () => {
+    expect(formatTimeWindow(null, null)).toBe('시간 미정')
+  })
+})
+
+describe('sortDeliveriesForRoute', () => {
+  const base = { time_to: null, created_at: '2026-05-08T00:00:00Z' }
+
+  it('지정 순서를 먼저 따른다', () => {
+    const sorted = sortDeliveriesForRoute([
+      { ...base, id: 'b', route_order: 1, time_from: '10:00:00' },
+      { ...base, id: 'a', route_order: 0, time_from: '15:00:00' },
+    ])
+    expect(sorted.map((d) => d.id)).toEqual(['a', 'b'])
+  })
+
+  it('순서가 같으면 희망 시간 순, 미정은 뒤로', () => {
+    const sorted = sortDeliveriesForRoute([
+      { ...base, id: 'none', route_order: 0, time_from: null },
+      { ...base, id: 'late', route_order: 0, time_from: '15:00:00' },
+      { ...base, id: 'early', route_order: 0, time_from: '10:00:00' },
+    ])
+    expect(sorted.map((d) => d.id)).toEqual(['early', 'late', 'none'])
+  })
+
+  it('원본 배열을 바꾸지 않고 길이를 유지한다', () => {
+    fc.assert(
+      fc.property(fc.array(fc.nat({ max: 5 })), (orders) => {
+        const input = orders.map((route_order, i) => ({ ...base, id: String(i), route_order, time_from: null }))
+        const copy = [...input]
+        const sorted = sortDeliveriesForRoute(input)
+        expect(input).toEqual(copy)
+        expect(sorted).toHaveLength(input.length)
+      })
+    )
+  })
+})
+
+describe('summarizeDeliveries', () => {
+  it('상태별 건수를 세고 실패 건 배송비는 빼고 합산한다', () => {
+    const result = summarizeDeliveries([
+      { status: 'preparing', fee: 5000 },
+      { status: 'delivered', fee: 3000 },
+      { status: 'failed', fee: 4000 },
+    ])
+    expect(result.counts).toEqual({ preparing: 1, in_transit: 0, delivered: 1, failed: 1 })
+    expect(result.feeTotal).toBe(8000)
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  normalizeVoucherCode,
+  generateVoucherCode,
+  getDefaultVoucherExpiry,
+  getVoucherBalance,
+  getVoucherStatus,
+  validateVoucherRedemption,
+  summarizeGiftVouchers,
+  summarizeGiftVoucherFlow,
+} from '../gift-vouchers'
+
+const TODAY = '2026-10-19'
+
+function voucher(balance: number, expires_at: string | null = null, amount = 100000, issued_date = '2026-10-01') {
+  return { amount, issued_date, expires_at, balance }
+}
+
+function sale(amount: number, voucher_amount: number, refunded_amount = 0) {
+  return { amount, refunded_amount, deposit_amount: 0, voucher_amount, payment_method: 'card' }
+}
+
+describe('선불권 번호', () => {
+  it('공백을 지우고 대문자로', () => {
+    expect(normalizeVoucherCode(' abcd-ef 12 ')).toBe('ABCD-EF12')
+  })
+
+  it('XXXX-XXXX, 헷갈리는 글자 없음', () => {
+    expect(generateVoucherCode((length) => new Uint8Array(length))).toBe('AAAA-AAAA')
+    fc.assert(fc.property(fc.uint8Array({ minLength: 8, maxLength: 8 }), (bytes) =>
+      /^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/.test(generateVoucherCode((length) => bytes.map((b) => b % 248).slice(0, length)))))
+    expect(generateVoucherCode()).not.toBe(generateVoucherCode())
+  })
+
+  it('글자 수의 배수를 넘는 바이트(248 이상)는 버리고 다시 뽑는다', () => {
+    const draws = [new Uint8Array([248, 0, 1, 2, 255, 3, 4, 5]), new Uint8Array([6, 7])]
+    expect(generateVoucherCode(() => draws.shift()!)).toBe('ABCD-EFGH')
+  })
+})
+
+describe('getDefaultVoucherExpiry', () => {
+  it('판매일 + 5년 전날까지', () => {
+    expect(getDefaultVoucherExpiry('2026-10-19')).toBe('2031-10-18')
+    expect(getDefaultVoucherExpiry('2028-02-29')).toBe('2033-02-27')
+  })
+})
+
+describe('잔액과 상태', () => {
+  it('액면가에서 사용액을 뺌', () => {
+    expect(getVoucherBalance(100000, [{ voucher_amount: 30000 }, { voucher_amount: 20000 }])).toBe(50000)
+    expect(getVoucherBalance(100000, [])).toBe(100000)
+  })
+
+  it('다 쓰면 사용 완료, 기한이 지나면 만료 (만료일 당일은 사용 가능)', () => {
+    expect(getVoucherStatus(voucher(0, '2026-01-01'), TODAY)).toBe('used')
+    expect(getVoucherStatus(voucher(5000, '2026-10-18'), TODAY)).toBe('expired')
+    expect(getVoucherStatus(voucher(5000, TODAY), TODAY)).toBe('active')
+    expect(getVoucherStatus(voucher(5000), TODAY)).toBe('active')
+  })
+})
+
+describe('validateVoucherRedemption', () => {
+  it('잔액과 결제할 금액까지만, 매출일 기준 유효기간 안에서', () => {
+    expect(validateVoucherRedemption(30000, voucher(50000, '2026-12-31'), 40000, TODAY)).toBeNull()
+    expect(validateVoucherRedemption(0, voucher(50000), 40000, TODAY)).toBe('선불권 사용 금액이 올바르지 않습니다')
+    expect(validateVoucherRedemption(30000, voucher(50000, '2026-10-18'), 40000, TODAY)).toBe('유효기간(2026-10-18)이 지난 선불권입니다')
+    expect(validateVoucherRedemption(60000, voucher(50000), 80000, TODAY)).toBe('선불권 잔액(50,000원)보다 많이 사용할 수 없습니다')
+    expect(validateVoucherRedemption(45000, voucher(50000), 40000, TODAY)).toBe('결제할 금액보다 많이 사용할 수 없습니다')
+  })
+})
+
+describe('summarizeGiftVouchers', () => {
+  it('기한 안 지난 잔액과 곧 만료·만료 잔액을 나눠 집계', () => {
+    const summary = summarizeGiftVouchers([
+      voucher(50000, '2027-12-31'),
+      voucher(20000, '2026-11-10'),
+      voucher(10000, '2026-10-01'),
+      voucher(0, '2027-12-31'),
+      voucher(30000),
+    ], TODAY)
+    expect(summary).toEqual({
+      outstandingCount: 3,
+      outstandingAmount: 100000,
+      expiringSoonAmount: 20000,
+      expiredAmount: 10000,
+    })
+  })
+})
+
+describe('summarizeGiftVoucherFlow', () => {
+  const range = { startDate: '2026-10-01', endDate: '2026-10-31' }
+
+  it('판매는 기간 안에 판 선불권, 사용은 매출의 선불권 결제분', () => {
+    const flow = summarizeGiftVoucherFlow(
+      [voucher(70000, null, 100000, '2026-10-05'), voucher(50000, null, 50000, '2026-09-20')],
+      [sale(50000, 30000), sale(20000, 0)],
+      range,
+      TODAY,
+    )
+    expect(flow).toEqual({ soldCount: 1, soldAmount: 100000, redeemedAmount: 30000, outstandingAmount: 120000 })
+  })
+
+  it('환불은 잔금에서 먼저 빼고 남으면 선불권 사용분에서 뺌', () => {
+    const flow = summarizeGiftVoucherFlow([], [sale(50000, 30000, 30000)], range, TODAY)
+    expect(flow.redeemedAmount).toBe(20000)
+  })
+})
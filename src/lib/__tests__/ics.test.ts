@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  buildReservationsCalendar,
+  escapeIcsText,
+  unescapeIcsText,
+  foldIcsLine,
+  parseIcsEvents,
+  icsEventToReservationInput,
+  getReservationIdFromUid,
+  generateFeedToken,
+  hashFeedToken,
+  ICS_UID_DOMAIN,
+  sanitizeReservationForIcs,
+} from '../ics'
+import { reservationSchema } from '../validations'
+import type { Reservation } from '@/types/database'
+
+const reservation: Reservation = {
+  id: '11111111-1111-4111-8111-111111111111',
+  date: '2026-02-14',
+  time: '11:00:00',
+  customer_name: '홍길동',
+  customer_phone: '010-1234-5678',
+  title: '프로포즈 꽃다발',
+  description: '빨간 장미, 리본; 카드 포함',
+  status: 'confirmed',
+  sale_id: null,
+  estimated_amount: 150000,
+  reminder_at: null,
+  created_at: '2026-02-01T00:00:00Z',
+  updated_at: '2026-02-02T03:04:05Z',
+}
+
+describe('escapeIcsText / unescapeIcsText', () => {
+  it('특수문자를 이스케이프하고 되돌린다', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne')
+  })
+
+  it('왕복하면 원래 문자열', () => {
+    fc.assert(fc.property(fc.string(), (text) => unescapeIcsText(escapeIcsText(text)) === text.replace(/\r\n/g, '\n')))
+  })
+})
+
+describe('foldIcsLine', () => {
+  it('75바이트를 넘는 줄은 접고, 펼치면 원래 줄', () => {
+    fc.assert(
+      fc.property(fc.string({ unit: fc.constantFrom('가', 'a', '꽃', ' ', '1'), maxLength: 200 }), (text) => {
+        const folded = foldIcsLine(`SUMMARY:${text}`)
+        const encoder = new TextEncoder()
+        return (
+          folded.split('\r\n').every((line) => encoder.encode(line).length <= 75) &&
+          folded.replace(/\r\n /g, '') === `SUMMARY:${text}`
+        )
+      })
+    )
+  })
+})
+
+describe('buildReservationsCalendar', () => {
+  const ics = buildReservationsCalendar([reservation, { ...reservation, id: '22222222-2222-4222-8222-222222222222', time: null, status: 'cancelled' }], {
+    name: '예약',
+    now: new Date('2026-02-10T00:00:00Z'),
+  })
+
+  it('시간 있는 예약은 한국 시간 1시간, 없는 예약은 종일', () => {
+    expect(ics).toContain('DTSTART;TZID=Asia/Seoul:20260214T110000')
+    expect(ics).toContain('DTEND;TZID=Asia/Seoul:20260214T120000')
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260214')
+    expect(ics).toContain('DTEND;VALUE=DATE:20260215')
+  })
+
+  it('상태/고객/예상 금액을 설명에 넣는다', () => {
+    const unfolded = ics.replace(/\r\n /g, '')
+    expect(unfolded).toContain('DESCRIPTION:상태: 확정\\n고객: 홍길동 010-1234-5678\\n예상 금액: ')
+    expect(unfolded).toContain('STATUS:CANCELLED')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('내보낸 파일을 다시 읽으면 같은 예약 입력값', () => {
+    const [event] = parseIcsEvents(ics)
+    expect(getReservationIdFromUid(event.uid)).toBe(reservation.id)
+    const input = icsEventToReservationInput(event)
+    expect(input).toMatchObject({
+      date: '2026-02-14',
+      time: '11:00',
+      customer_name: '홍길동',
+      customer_phone: '010-1234-5678',
+      title: '프로포즈 꽃다발',
+      estimated_amount: 150000,
+      status: 'confirmed',
+      description: '빨간 장미, 리본; 카드 포함',
+    })
+    expect(reservationSchema.safeParse(input).success).toBe(true)
+  })
+})
+
+describe('sanitizeReservationForIcs', () => {
+  it('검증에 걸리는 예약도 같은 길이 제한으로 다듬는다', () => {
+    const broken = sanitizeReservationForIcs({
+      ...reservation,
+      title: '  ',
+      customer_name: `김${'😀'.repeat(60)}`,
+      customer_phone: '010-1234-5678\u0007 내선 1234567890',
+      description: '줄\n바꿈\u0000'.repeat(200),
+      estimated_amount: -5000,
+    })
+    expect(broken.title).toBe('예약')
+    expect(broken.customer_name).toBe(`김${'😀'.repeat(49)}`)
+    expect(broken.description).not.toContain('\u0000')
+    expect(broken.estimated_amount).toBe(0)
+    expect(reservationSchema.safeParse({
+      title: broken.title,
+      customer_name: broken.customer_name,
+      customer_phone: broken.customer_phone,
+      description: broken.description,
+      date: broken.date,
+      estimated_amount: broken.estimated_amount,
+    }).success).toBe(true)
+  })
+
+  it('정상 예약은 그대로', () => {
+    expect(sanitizeReservationForIcs(reservation)).toEqual(reservation)
+  })
+})
+
+describe('parseIcsEvents', () => {
+  it('UTC 시간은 한국 시간으로, 접힌 줄은 펼쳐서', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc@google.com',
+      'DTSTART:20260213T230000Z',
+      'SUMMARY:꽃바구니 ',
+      ' 픽업',
+      'ORGANIZER;CN="김영희":mailto:a@example.com',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'SUMMARY:시간 없음',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n')
+    const events = parseIcsEvents(text)
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ uid: 'abc@google.com', date: '2026-02-14', time: '08:00', summary: '꽃바구니 픽업', organizer: '김영희' })
+    expect(icsEventToReservationInput(events[0]).customer_name).toBe('김영희')
+  })
+
+  it('고객 정보가 없으면 제목을 고객명으로', () => {
+    const [event] = parseIcsEvents('BEGIN:VEVENT\nDTSTART;VALUE=DATE:20260301\nSUMMARY:화환 배송\nEND:VEVENT')
+    expect(icsEventToReservationInput(event)).toMatchObject({ date: '2026-03-01', time: undefined, customer_name: '화환 배송', status: 'pending' })
+  })
+})
+
+describe('getReservationIdFromUid', () => {
+  it('다른 캘린더 UID는 null', () => {
+    expect(getReservationIdFromUid('abc@google.com')).toBeNull()
+    expect(getReservationIdFromUid(`x@${ICS_UID_DOMAIN}`)).toBe('x')
+  })
+})
+
+describe('feed token', () => {
+  it('URL에 그대로 쓸 수 있는 토큰', () => {
+    expect(generateFeedToken()).toMatch(/^[A-Za-z0-9_-]{32}$/)
+  })
+
+  it('해시는 64자리 16진수, 같은 토큰은 같은 해시', async () => {
+    const token = generateFeedToken()
+    const hash = await hashFeedToken(token)
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashFeedToken(token)).toBe(hash)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  getStockInExpiry,
+  getSignedQuantity,
+  getStockLots,
+  summarizeStock,
+  summarizeStockTotals,
+  summarizeWaste,
+  type StockMovement,
+} from '../inventory'
+import type { InventoryItem } from '@/types/database'
+
+let seq = 0
+function movement(overrides: Partial<StockMovement>): StockMovement {
+  seq += 1
+  return {
+    id: `m${seq}`,
+    item_id: 'rose',
+    type: 'in',
+    quantity: 10,
+    unit_cost: 1000,
+    date: '2026-05-01',
+    expires_on: null,
+    created_at: `2026-05-01T00:00:${String(seq % 60).padStart(2, '0')}.000Z`,
+    ...overrides,
+  }
+}
+
+const rose: InventoryItem = {
+  id: 'rose',
+  name: '장미',
+  kind: 'flower',
+  unit: '송이',
+  shelf_life_days: 5,
+  unit_cost: 1000,
+  is_active: true,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+}
+
+describe('getStockInExpiry', () => {
+  it('should add the shelf life to the purchase date', () => {
+    expect(getStockInExpiry('2026-05-29', 5)).toBe('2026-06-03')
+    expect(getStockInExpiry('2026-05-29', null)).toBeNull()
+  })
+})
+
+describe('getSignedQuantity', () => {
+  it('should store outflows as negative and keep adjustment signs', () => {
+    expect(getSignedQuantity('in', -3)).toBe(3)
+    expect(getSignedQuantity('out', 3)).toBe(-3)
+    expect(getSignedQuantity('waste', 3)).toBe(-3)
+    expect(getSignedQuantity('adjust', -2)).toBe(-2)
+  })
+})
+
+describe('getStockLots', () => {
+  it('should consume the lot that expires first', () => {
+    const lots = getStockLots([
+      movement({ id: 'late', date: '2026-05-01', expires_on: '2026-05-10', quantity: 10 }),
+      movement({ id: 'early', date: '2026-05-02', expires_on: '2026-05-05', quantity: 10 }),
+      movement({ type: 'out', date: '2026-05-03', quantity: -12 }),
+    ])
+    expect(lots).toEqual([expect.objectContaining({ movement_id: 'late', remaining: 8 })])
+  })
+
+  it('should not consume stock received after the outflow', () => {
+    const lots = getStockLots([
+      movement({ type: 'waste', date: '2026-05-01', quantity: -5 }),
+      movement({ id: 'later', date: '2026-05-02', quantity: 10 }),
+    ])
+    expect(lots).toEqual([expect.objectContaining({ movement_id: 'later', remaining: 10 })])
+  })
+
+  it('should never leave more than the net stock in lots', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ quantity: fc.integer({ min: -20, max: 20 }).filter((q) => q !== 0), day: fc.integer({ min: 1, max: 28 }) }), { maxLength: 30 }),
+        (rows) => {
+          const movements = rows.map((r) => movement({
+            quantity: r.quantity,
+            type: r.quantity > 0 ? 'in' : 'out',
+            date: `2026-05-${String(r.day).padStart(2, '0')}`,
+          }))
+          const remaining = getStockLots(movements).reduce((sum, lot) => sum + lot.remaining, 0)
+          const net = movements.reduce((sum, m) => sum + m.quantity, 0)
+          return remaining >= Math.max(net, 0) && remaining >= 0
+        }
+      )
+    )
+  })
+})
+
+describe('summarizeStock', () => {
+  it('should split expiring and expired quantities', () => {
+    const [summary] = summarizeStock([rose], [
+      movement({ date: '2026-05-01', expires_on: '2026-05-06', quantity: 10 }),
+      movement({ date: '2026-05-04', expires_on: '2026-05-09', quantity: 20 }),
+      movement({ date: '2026-05-10', expires_on: '2026-05-15', quantity: 5 }),
+      movement({ type: 'out', date: '2026-05-05', quantity: -4 }),
+    ], '2026-05-08')
+
+    expect(summary.quantity).toBe(31)
+    expect(summary.expired_quantity).toBe(6)
+    expect(summary.expiring_quantity).toBe(20)
+    expect(summary.next_expires_on).toBe('2026-05-06')
+  })
+
+  it('DB에서 합산한 수량·lot으로도 같은 결과', () => {
+    const [summary] = summarizeStockTotals([rose], new Map([[rose.id, 31]]), [
+      { item_id: rose.id, expires_on: '2026-05-06', remaining: 6 },
+      { item_id: rose.id, expires_on: '2026-05-09', remaining: 20 },
+      { item_id: rose.id, expires_on: '2026-05-15', remaining: 5 },
+      { item_id: 'tulip', expires_on: '2026-05-07', remaining: 3 },
+    ], '2026-05-08')
+
+    expect(summary).toMatchObject({ quantity: 31, expired_quantity: 6, expiring_quantity: 20, next_expires_on: '2026-05-06' })
+  })
+})
+
+describe('summarizeWaste', () => {
+  it('should total waste cost per item', () => {
+    expect(summarizeWaste([
+      { item_id: 'rose', type: 'waste', quantity: -3, unit_cost: 1000, item: { name: '장미' } },
+      { item_id: 'rose', type: 'waste', quantity: -2, unit_cost: 1200, item: { name: '장미' } },
+      { item_id: 'tulip', type: 'waste', quantity: -10, unit_cost: 800, item: { name: '튤립' } },
+      { item_id: 'rose', type: 'out', quantity: -5, unit_cost: 1000, item: { name: '장미' } },
+    ])).toEqual([
+      { item_id: 'tulip', name: '튤립', quantity: 10, cost: 8000 },
+      { item_id: 'rose', name: '장미', quantity: 5, cost: 5400 },
+    ])
+  })
+})
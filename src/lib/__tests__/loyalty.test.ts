@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  calculateEarnedPoints,
+  getPointExpiryDate,
+  getPointBalance,
+  getRemainingPointLots,
+  getPointsExpiringBefore,
+  validatePointRedemption,
+  getPointsUsedAfterRefund,
+} from '../loyalty'
+
+const SETTINGS = { enabled: true, earn_rate: 1.5, expire_months: 12 }
+
+function entry(points: number, expires_at: string | null = null) {
+  return { points, expires_at }
+}
+
+describe('calculateEarnedPoints', () => {
+  it('금액의 적립률만큼, 원 단위 버림', () => {
+    expect(calculateEarnedPoints(50000, SETTINGS)).toBe(750)
+    expect(calculateEarnedPoints(12345, { ...SETTINGS, earn_rate: 1 })).toBe(123)
+    expect(calculateEarnedPoints(10000, { ...SETTINGS, earn_rate: 0.3 })).toBe(30)
+  })
+
+  it('꺼져 있거나 금액이 없으면 0', () => {
+    expect(calculateEarnedPoints(50000, { ...SETTINGS, enabled: false })).toBe(0)
+    expect(calculateEarnedPoints(0, SETTINGS)).toBe(0)
+  })
+
+  it('적립 포인트는 금액을 넘지 않는 0 이상의 정수', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 100_000_000 }), fc.integer({ min: 1, max: 500 }), (amount, rate10) => {
+      const points = calculateEarnedPoints(amount, { ...SETTINGS, earn_rate: rate10 / 10 })
+      return Number.isInteger(points) && points >= 0 && points <= amount
+    }))
+  })
+})
+
+describe('getPointExpiryDate', () => {
+  it('적립일 + N개월 전날까지 사용', () => {
+    expect(getPointExpiryDate('2026-10-19', SETTINGS)).toBe('2027-10-18')
+    expect(getPointExpiryDate('2026-01-31', { expire_months: 1 })).toBe('2026-02-27')
+  })
+
+  it('소멸 없음', () => {
+    expect(getPointExpiryDate('2026-10-19', { expire_months: null })).toBeNull()
+  })
+})
+
+describe('먼저 소멸될 적립분부터 차감', () => {
+  const transactions = [
+    entry(1000, '2026-12-31'),
+    entry(500, '2026-06-30'),
+    entry(300),
+    entry(-700),
+  ]
+
+  it('남은 적립분 (소멸일 순, 소멸 없는 적립분은 마지막)', () => {
+    expect(getRemainingPointLots(transactions)).toEqual([
+      { points: 800, expires_at: '2026-12-31' },
+      { points: 300, expires_at: null },
+    ])
+    expect(getPointBalance(transactions)).toBe(1100)
+  })
+
+  it('소멸일이 지난 남은 포인트만 소멸', () => {
+    expect(getPointsExpiringBefore(transactions, '2026-07-01')).toBe(0)
+    expect(getPointsExpiringBefore(transactions, '2027-01-01')).toBe(800)
+    // 이미 소멸 처리한 포인트는 다시 소멸하지 않음
+    expect(getPointsExpiringBefore([...transactions, entry(-800)], '2027-01-01')).toBe(0)
+  })
+
+  it('남은 적립분 합계는 잔액과 같음 (잔액이 음수가 아닐 때)', () => {
+    const lot = fc.record({
+      points: fc.integer({ min: 1, max: 10000 }),
+      expires_at: fc.option(fc.constantFrom('2026-01-31', '2026-06-30', '2027-01-31'), { nil: null }),
+    })
+    fc.assert(fc.property(fc.array(lot, { maxLength: 10 }), fc.array(fc.integer({ min: 1, max: 10000 }), { maxLength: 10 }), (earned, used) => {
+      const total = earned.reduce((sum, l) => sum + l.points, 0)
+      const spent = used.reduce((sum, p) => sum + p, 0)
+      fc.pre(spent <= total)
+      const transactions = [...earned, ...used.map((p) => entry(-p))]
+      return getRemainingPointLots(transactions).reduce((sum, l) => sum + l.points, 0) === getPointBalance(transactions)
+    }))
+  })
+})
+
+describe('validatePointRedemption', () => {
+  it('보유 포인트와 결제할 금액까지만', () => {
+    expect(validatePointRedemption(3000, 5000, 40000)).toBeNull()
+    expect(validatePointRedemption(6000, 5000, 40000)).toBe('보유 포인트(5,000P)보다 많이 사용할 수 없습니다')
+    expect(validatePointRedemption(3000, 5000, 2000)).toBe('결제할 금액보다 많은 포인트를 사용할 수 없습니다')
+    expect(validatePointRedemption(-1, 5000, 40000)).toBe('사용할 포인트가 올바르지 않습니다')
+  })
+})
+
+describe('getPointsUsedAfterRefund', () => {
+  it('환불한 비율만큼 사용 포인트를 돌려줌', () => {
+    expect(getPointsUsedAfterRefund({ amount: 9000, refunded_amount: 0, points_used: 1000 })).toBe(1000)
+    expect(getPointsUsedAfterRefund({ amount: 9000, refunded_amount: 4500, points_used: 1000 })).toBe(500)
+    expect(getPointsUsedAfterRefund({ amount: 9000, refunded_amount: 9000, points_used: 1000 })).toBe(0)
+    expect(getPointsUsedAfterRefund({ amount: 9000, refunded_amount: 3000, points_used: 0 })).toBe(0)
+  })
+
+  it('돌려주는 포인트는 0 이상 사용 포인트 이하', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 1000000 }), fc.integer({ min: 0, max: 100000 }), fc.double({ min: 0, max: 1, noNaN: true }), (amount, used, ratio) => {
+        const kept = getPointsUsedAfterRefund({ amount, refunded_amount: Math.floor(amount * ratio), points_used: used })
+        expect(kept).toBeGreaterThanOrEqual(0)
+        expect(kept).toBeLessThanOrEqual(used)
+      })
+    )
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  getOccasionDate,
+  getNextOccasionDate,
+  getUpcomingOccasions,
+  getDueOccasionReminders,
+  getOccasionTitle,
+  getOccasionYearsLabel,
+  findOccasionSales,
+  buildOccasionReminder,
+  toUpcomingOccasion,
+} from '../occasions'
+
+const TODAY = '2026-10-19'
+
+function occasion(id: string, month: number, day: number, extra: Partial<{ year: number | null; remind_days_before: number }> = {}) {
+  return { id, month, day, year: null, remind_days_before: 3, ...extra }
+}
+
+describe('기념일 날짜', () => {
+  it('2월 29일은 평년에 28일', () => {
+    expect(getOccasionDate({ month: 2, day: 29 }, 2028)).toBe('2028-02-29')
+    expect(getOccasionDate({ month: 2, day: 29 }, 2027)).toBe('2027-02-28')
+  })
+
+  it('오늘이 지났으면 내년', () => {
+    expect(getNextOccasionDate({ month: 10, day: 19 }, TODAY)).toBe('2026-10-19')
+    expect(getNextOccasionDate({ month: 10, day: 18 }, TODAY)).toBe('2027-10-18')
+  })
+
+  it('다음 기념일은 항상 오늘부터 1년 안', () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 12 }), fc.integer({ min: 1, max: 28 }), (month, day) => {
+      const { days_until } = toUpcomingOccasion({ month, day }, TODAY)
+      return days_until >= 0 && days_until <= 365
+    }))
+  })
+})
+
+describe('getUpcomingOccasions', () => {
+  it('기간 안의 기념일만 가까운 순으로, 연도를 알면 몇 번째인지', () => {
+    const upcoming = getUpcomingOccasions([
+      occasion('a', 11, 1),
+      occasion('b', 10, 20, { year: 2016 }),
+      occasion('c', 12, 25),
+    ], TODAY, 14)
+    expect(upcoming.map((o) => [o.id, o.days_until, o.years])).toEqual([['b', 1, 10], ['a', 13, null]])
+  })
+
+  it('연말에는 해를 넘겨 계산', () => {
+    expect(getUpcomingOccasions([occasion('a', 1, 2)], '2026-12-30', 7).map((o) => o.date)).toEqual(['2027-01-02'])
+  })
+})
+
+describe('getDueOccasionReminders', () => {
+  it('remind_days_before일 전 기념일만, 0이면 알리지 않음', () => {
+    const due = getDueOccasionReminders([
+      occasion('a', 10, 22),
+      occasion('b', 10, 22, { remind_days_before: 0 }),
+      occasion('c', 10, 26, { remind_days_before: 7 }),
+      occasion('d', 10, 23),
+    ], TODAY)
+    expect(due.map((o) => o.id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('표시', () => {
+  it('받는 사람이나 관계를 앞에 붙이고, 본인은 생략', () => {
+    expect(getOccasionTitle({ type: 'birthday', label: null, recipient_name: null, relationship: '어머니' })).toBe('어머니 생일')
+    expect(getOccasionTitle({ type: 'birthday', label: null, recipient_name: '김영희', relationship: '어머니' })).toBe('김영희 생일')
+    expect(getOccasionTitle({ type: 'birthday', label: null, recipient_name: null, relationship: '본인' })).toBe('생일')
+    expect(getOccasionTitle({ type: 'other', label: '개업일', recipient_name: null, relationship: null })).toBe('개업일')
+  })
+
+  it('주년은 기념일/생일만', () => {
+    expect(getOccasionYearsLabel({ type: 'anniversary', years: 10 })).toBe('10주년')
+    expect(getOccasionYearsLabel({ type: 'birthday', years: 31 })).toBe('31번째 생일')
+    expect(getOccasionYearsLabel({ type: 'memorial', years: 3 })).toBeNull()
+    expect(getOccasionYearsLabel({ type: 'anniversary', years: null })).toBeNull()
+  })
+})
+
+describe('findOccasionSales', () => {
+  const sales = [
+    { id: '1', date: '2025-05-01' },
+    { id: '2', date: '2025-05-08' },
+    { id: '3', date: '2025-05-09' },
+    { id: '4', date: '2025-05-10' },
+    { id: '5', date: '2024-05-07' },
+    { id: '6', date: '2025-04-30' },
+  ]
+
+  it('기념일 7일 전 ~ 다음날 매출만, 최근 순', () => {
+    expect(findOccasionSales(sales, { month: 5, day: 8 }).map((s) => s.id)).toEqual(['3', '2', '1', '5'])
+  })
+
+  it('해가 바뀌는 기념일', () => {
+    const yearEnd = [{ id: 'a', date: '2025-12-28' }, { id: 'b', date: '2026-01-02' }, { id: 'c', date: '2025-12-20' }]
+    expect(findOccasionSales(yearEnd, { month: 1, day: 2 }).map((s) => s.id)).toEqual(['b', 'a'])
+  })
+})
+
+describe('buildOccasionReminder', () => {
+  const upcoming = toUpcomingOccasion(
+    { type: 'anniversary' as const, label: null, recipient_name: null, relationship: '배우자', month: 10, day: 22, year: 2016 },
+    TODAY,
+  )
+
+  it('지난 구매를 함께 보여줌', () => {
+    expect(buildOccasionReminder(upcoming, '김민수', [
+      { date: '2025-10-21', product_name: '장미 꽃다발', amount: 80000, refunded_amount: 0 },
+      { date: '2024-10-20', product_name: '꽃바구니', amount: 60000 },
+    ])).toEqual({
+      title: 'D-3 김민수 고객 · 배우자 기념일',
+      body: '2026-10-22 · 10주년\n지난 구매: 2025년 장미 꽃다발 80,000원\n이 무렵 구매 2회',
+    })
+  })
+
+  it('구매가 없으면 안내', () => {
+    expect(buildOccasionReminder(upcoming, '김민수', []).body).toBe('2026-10-22 · 10주년\n이 무렵 구매 기록 없음')
+  })
+})
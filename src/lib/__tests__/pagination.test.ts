@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import { DB_PAGE_SIZE, fetchAllRows, chunkArray } from '../supabase/pagination'
+
+describe('fetchAllRows', () => {
+  it('1000행이 넘어도 마지막 페이지까지 읽는다', async () => {
+    const table = Array.from({ length: DB_PAGE_SIZE * 2 + 5 }, (_, i) => i)
+    const ranges: [number, number][] = []
+    const rows = await fetchAllRows(async (from, to) => {
+      ranges.push([from, to])
+      return { data: table.slice(from, to + 1), error: null }
+    })
+    expect(rows).toEqual(table)
+    expect(ranges).toEqual([[0, 999], [1000, 1999], [2000, 2999]])
+  })
+
+  it('딱 맞게 끝나면 빈 페이지에서 멈춘다', async () => {
+    const table = Array.from({ length: DB_PAGE_SIZE }, (_, i) => i)
+    const rows = await fetchAllRows(async (from, to) => ({ data: table.slice(from, to + 1), error: null }))
+    expect(rows).toHaveLength(DB_PAGE_SIZE)
+  })
+
+  it('오류는 그대로 던진다', async () => {
+    const error = new Error('boom')
+    await expect(fetchAllRows(async () => ({ data: null, error }))).rejects.toBe(error)
+  })
+})
+
+describe('chunkArray', () => {
+  it('순서를 유지하며 size 이하로 나눈다', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), fc.integer({ min: 1, max: 10 }), (items, size) => {
+        const chunks = chunkArray(items, size)
+        expect(chunks.flat()).toEqual(items)
+        chunks.forEach((c) => {
+          expect(c.length).toBeGreaterThan(0)
+          expect(c.length).toBeLessThanOrEqual(size)
+        })
+      })
+    )
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import { hasRole, getPageRole, canAccessPath, ROLE_RANK } from '../permissions'
+import type { UserRole } from '@/types/database'
+
+const roles: UserRole[] = ['staff', 'manager', 'owner']
+
+describe('hasRole', () => {
+  it('should allow equal or higher roles', () => {
+    expect(hasRole('owner', 'manager')).toBe(true)
+    expect(hasRole('manager', 'manager')).toBe(true)
+    expect(hasRole('staff', 'manager')).toBe(false)
+  })
+
+  it('should deny a missing role', () => {
+    expect(hasRole(null, 'staff')).toBe(false)
+    expect(hasRole(undefined, 'staff')).toBe(false)
+  })
+
+  it('should follow the role rank order', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...roles), fc.constantFrom(...roles), (role, minimum) =>
+        hasRole(role, minimum) === (ROLE_RANK[role] >= ROLE_RANK[minimum])
+      )
+    )
+  })
+})
+
+describe('getPageRole', () => {
+  it('should match nested routes by prefix', () => {
+    expect(getPageRole('/customers')).toBe('manager')
+    expect(getPageRole('/customers/abc')).toBe('manager')
+    expect(getPageRole('/settings')).toBe('owner')
+  })
+
+  it('should not match routes that only share a prefix string', () => {
+    expect(getPageRole('/salesx')).toBe('staff')
+    expect(getPageRole('/expensesreport')).toBe('staff')
+  })
+
+  it('should default to staff for unlisted pages', () => {
+    expect(getPageRole('/')).toBe('staff')
+    expect(getPageRole('/sales')).toBe('staff')
+    expect(getPageRole('/calendar')).toBe('staff')
+  })
+})
+
+describe('canAccessPath', () => {
+  it('should limit staff to sales, reservations and the dashboard', () => {
+    expect(canAccessPath('staff', '/sales')).toBe(true)
+    expect(canAccessPath('staff', '/calendar')).toBe(true)
+    expect(canAccessPath('staff', '/expenses')).toBe(false)
+    expect(canAccessPath('staff', '/deposits')).toBe(false)
+    expect(canAccessPath('staff', '/vouchers')).toBe(false)
+    expect(canAccessPath('staff', '/settings')).toBe(false)
+  })
+
+  it('should keep settings and audit for owners', () => {
+    expect(canAccessPath('manager', '/expenses')).toBe(true)
+    expect(canAccessPath('manager', '/settings')).toBe(false)
+    expect(canAccessPath('manager', '/audit')).toBe(false)
+    expect(canAccessPath('owner', '/audit')).toBe(true)
+  })
+})
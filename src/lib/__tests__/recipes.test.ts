@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  resolveIngredientUnitCosts,
+  calculateRecipeCosts,
+  calculateSaleCogs,
+  getGrossMargin,
+  getMarginRate,
+  summarizeCategoryMargins,
+  expandRecipeStockOut,
+  type CostMovement,
+} from '../recipes'
+import { calculateSalesSummary } from '../utils'
+import type { Sale } from '@/types/database'
+
+function purchase(overrides: Partial<CostMovement>): CostMovement {
+  return {
+    item_id: 'rose',
+    type: 'in',
+    quantity: 10,
+    unit_cost: 1000,
+    expense_id: 'e1',
+    ...overrides,
+  }
+}
+
+const items = [
+  { id: 'rose', unit_cost: 900 },
+  { id: 'wrap', unit_cost: 500 },
+]
+
+describe('resolveIngredientUnitCosts', () => {
+  it('지출 입고분의 수량 가중 평균을 쓴다', () => {
+    const costs = resolveIngredientUnitCosts(items, [
+      purchase({ quantity: 10, unit_cost: 1000 }),
+      purchase({ quantity: 30, unit_cost: 1400, expense_id: 'e2' }),
+    ])
+    expect(costs.get('rose')).toBe(1300)
+  })
+
+  it('지출 입고가 없으면 품목 단가를 쓴다', () => {
+    const costs = resolveIngredientUnitCosts(items, [
+      purchase({ item_id: 'wrap', expense_id: null, unit_cost: 9999 }),
+      purchase({ item_id: 'wrap', type: 'adjust', unit_cost: 9999 }),
+    ])
+    expect(costs.get('wrap')).toBe(500)
+    expect(costs.get('rose')).toBe(900)
+  })
+})
+
+describe('calculateRecipeCosts', () => {
+  it('카테고리별로 재료 단가 × 수량을 더한다', () => {
+    const unitCosts = new Map([['rose', 1000], ['wrap', 500]])
+    const costs = calculateRecipeCosts([
+      { category_value: 'bouquet', item_id: 'rose', quantity: 10 },
+      { category_value: 'bouquet', item_id: 'wrap', quantity: 2 },
+      { category_value: 'basket', item_id: 'ghost', quantity: 3 },
+    ], unitCosts)
+    expect(costs.get('bouquet')).toBe(11000)
+    expect(costs.get('basket')).toBe(0)
+  })
+})
+
+describe('calculateSaleCogs', () => {
+  const recipeCosts = new Map([['bouquet', 11000]])
+
+  it('레시피가 있는 품목만 원가를 계산한다', () => {
+    const result = calculateSaleCogs([
+      { product_category: 'bouquet', quantity: 2, unit_price: 30000, discount: 0 },
+      { product_category: 'plant', quantity: 1, unit_price: 20000, discount: 0 },
+    ], recipeCosts)
+    expect(result).toEqual({ lineCogs: [22000, null], total: 22000 })
+  })
+
+  it('레시피가 하나도 없으면 합계는 null', () => {
+    const result = calculateSaleCogs([
+      { product_category: 'plant', quantity: 1, unit_price: 20000, discount: 0 },
+    ], recipeCosts)
+    expect(result.total).toBeNull()
+  })
+})
+
+describe('gross margin', () => {
+  it('원가가 없으면 매출 전체가 이익', () => {
+    expect(getGrossMargin(50000, null)).toBe(50000)
+    expect(getGrossMargin(50000, 20000)).toBe(30000)
+  })
+
+  it('이익률은 매출이 0이면 0', () => {
+    expect(getMarginRate(0, 0)).toBe(0)
+    expect(getMarginRate(50000, 30000)).toBe(60)
+  })
+
+  it('calculateSalesSummary: 총이익 = 실매출 - 원가', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({
+          amount: fc.integer({ min: 0, max: 1_000_000 }),
+          cogs: fc.option(fc.integer({ min: 0, max: 1_000_000 }), { nil: null }),
+        }), { maxLength: 30 }),
+        (rows) => {
+          const sales = rows.map((row, i) => ({ id: `s${i}`, payment_method: 'cash', ...row }) as Sale)
+          const summary = calculateSalesSummary(sales)
+          return summary.grossMargin === summary.total - summary.cogs
+            && summary.cogs === rows.reduce((sum, row) => sum + (row.cogs ?? 0), 0)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('summarizeCategoryMargins', () => {
+  it('품목별 원가와 환불 반영 매출로 카테고리 이익을 계산한다', () => {
+    const stats = summarizeCategoryMargins([
+      {
+        amount: 50000,
+        refunded_amount: 10000,
+        items: [
+          { product_category: 'bouquet', quantity: 1, unit_price: 30000, discount: 0, amount: 30000, cogs: 12000 },
+          { product_category: 'plant', quantity: 1, unit_price: 20000, discount: 0, amount: 20000, cogs: null },
+        ],
+      },
+      { product_category: 'bouquet', amount: 40000, cogs: 15000 },
+    ])
+    expect(stats).toEqual([
+      { name: 'bouquet', revenue: 64000, cogs: 27000, margin: 37000, marginRate: 58 },
+    ])
+  })
+
+  it('전액 환불돼도 원가는 남는다', () => {
+    const stats = summarizeCategoryMargins([
+      { product_category: 'bouquet', amount: 40000, refunded_amount: 40000, cogs: 15000 },
+    ])
+    expect(stats[0]).toMatchObject({ revenue: 0, cogs: 15000, margin: -15000 })
+  })
+})
+
+describe('expandRecipeStockOut', () => {
+  const recipes = [
+    { category_value: 'bouquet', item_id: 'rose', quantity: 5 },
+    { category_value: 'bouquet', item_id: 'wrap', quantity: 1 },
+    { category_value: 'basket', item_id: 'rose', quantity: 10 },
+  ]
+
+  it('품목 수량 × 레시피 수량, 같은 재료는 합친다', () => {
+    const lines = expandRecipeStockOut({
+      amount: 0,
+      items: [
+        { product_category: 'bouquet', quantity: 2, unit_price: 30000, discount: 0, amount: 60000 },
+        { product_category: 'basket', quantity: 1, unit_price: 50000, discount: 0, amount: 50000 },
+        { product_category: 'plant', quantity: 1, unit_price: 20000, discount: 0, amount: 20000 },
+      ],
+    }, recipes)
+    expect(lines).toEqual([
+      { item_id: 'rose', quantity: 20 },
+      { item_id: 'wrap', quantity: 2 },
+    ])
+  })
+
+  it('품목 내역이 없는 매출은 상품 카테고리 1개로 본다', () => {
+    expect(expandRecipeStockOut({ product_category: 'basket', amount: 50000, items: [] }, recipes))
+      .toEqual([{ item_id: 'rose', quantity: 10 }])
+    expect(expandRecipeStockOut({ product_category: 'plant', amount: 20000 }, recipes)).toEqual([])
+  })
+})
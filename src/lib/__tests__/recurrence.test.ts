@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import { generateOccurrenceDates, getSeriesEndDate, summarizeSeriesBilling, MAX_SERIES_OCCURRENCES } from '../recurrence'
+import type { RecurrenceFrequency } from '@/types/database'
+
+describe('generateOccurrenceDates', () => {
+  it('매주 반복은 7일 간격으로 횟수만큼 만든다', () => {
+    expect(generateOccurrenceDates({ frequency: 'weekly', start_date: '2026-05-04', occurrence_count: 3 }))
+      .toEqual(['2026-05-04', '2026-05-11', '2026-05-18'])
+  })
+
+  it('격주 반복은 종료일까지 만든다', () => {
+    expect(generateOccurrenceDates({ frequency: 'biweekly', start_date: '2026-05-04', end_date: '2026-06-01' }))
+      .toEqual(['2026-05-04', '2026-05-18', '2026-06-01'])
+  })
+
+  it('매월 31일 시작이면 짧은 달은 말일로 맞춘다', () => {
+    expect(generateOccurrenceDates({ frequency: 'monthly', start_date: '2026-01-31', occurrence_count: 3 }))
+      .toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+  })
+
+  it('건너뛸 날짜는 빼고 횟수는 채운다', () => {
+    expect(generateOccurrenceDates({
+      frequency: 'weekly',
+      start_date: '2026-05-04',
+      occurrence_count: 3,
+      skip_dates: ['2026-05-11'],
+    })).toEqual(['2026-05-04', '2026-05-18', '2026-05-25'])
+  })
+
+  it('종료일과 횟수가 모두 있으면 먼저 닿는 쪽에서 끝난다', () => {
+    expect(generateOccurrenceDates({
+      frequency: 'weekly',
+      start_date: '2026-05-04',
+      end_date: '2026-05-12',
+      occurrence_count: 10,
+    })).toEqual(['2026-05-04', '2026-05-11'])
+  })
+
+  it('끝이 없으면 최대 개수 + 1에서 멈춘다', () => {
+    expect(generateOccurrenceDates({ frequency: 'weekly', start_date: '2026-05-04' }))
+      .toHaveLength(MAX_SERIES_OCCURRENCES + 1)
+  })
+
+  it('날짜는 오름차순이고 종료일을 넘지 않는다', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<RecurrenceFrequency>('weekly', 'biweekly', 'monthly'),
+        fc.integer({ min: 0, max: 400 }),
+        (frequency, days) => {
+          const end = new Date(Date.UTC(2026, 0, 1 + days)).toISOString().slice(0, 10)
+          const dates = generateOccurrenceDates({ frequency, start_date: '2026-01-01', end_date: end })
+          expect(dates[0]).toBe('2026-01-01')
+          expect([...dates].sort()).toEqual(dates)
+          expect(dates.every((d) => d <= end)).toBe(true)
+        }
+      )
+    )
+  })
+})
+
+describe('getSeriesEndDate', () => {
+  it('이 회차 전날로 끝냄', () => {
+    expect(getSeriesEndDate({ start_date: '2026-05-04' }, '2026-05-18')).toBe('2026-05-17')
+    expect(getSeriesEndDate({ start_date: '2026-05-04' }, '2026-05-05')).toBe('2026-05-04')
+  })
+
+  it('첫 회차부터면 끝낼 날짜가 없음 (end_date >= start_date 제약)', () => {
+    expect(getSeriesEndDate({ start_date: '2026-05-04' }, '2026-05-04')).toBeNull()
+    expect(getSeriesEndDate({ start_date: '2026-05-04' }, '2026-05-01')).toBeNull()
+  })
+
+  it('종료일은 항상 시작일 이후', () => {
+    const day = fc.integer({ min: 0, max: 3650 }).map((n) => new Date(Date.UTC(2020, 0, 1 + n)).toISOString().slice(0, 10))
+    fc.assert(
+      fc.property(day, day, (start, from) => {
+        const end = getSeriesEndDate({ start_date: start }, from)
+        if (end !== null) {
+          expect(end >= start).toBe(true)
+          expect(end < from).toBe(true)
+        }
+      })
+    )
+  })
+})
+
+describe('summarizeSeriesBilling', () => {
+  it('회차를 전환/예정/미전환/취소로 나누고 금액을 합산한다', () => {
+    const billing = summarizeSeriesBilling([
+      { date: '2026-05-04', status: 'completed', sale_id: 's1', estimated_amount: 50000, sale_amount: 55000 },
+      { date: '2026-05-11', status: 'confirmed', sale_id: null, estimated_amount: 50000, sale_amount: null },
+      { date: '2026-05-18', status: 'cancelled', sale_id: null, estimated_amount: 50000, sale_amount: null },
+      { date: '2026-05-25', status: 'pending', sale_id: null, estimated_amount: 50000, sale_amount: null },
+    ], '2026-05-20')
+
+    expect(billing).toEqual({
+      total: 4,
+      converted: 1,
+      upcoming: 1,
+      missed: 1,
+      cancelled: 1,
+      expectedAmount: 150000,
+      billedAmount: 55000,
+    })
+  })
+
+  it('삭제된 매출은 금액 0으로 센다', () => {
+    const billing = summarizeSeriesBilling([
+      { date: '2026-05-04', status: 'completed', sale_id: 's1', estimated_amount: 50000, sale_amount: null },
+    ], '2026-05-20')
+    expect(billing.converted).toBe(1)
+    expect(billing.billedAmount).toBe(0)
+  })
+})
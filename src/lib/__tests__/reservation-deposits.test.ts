@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  getDepositTotal,
+  getReservationBalance,
+  getSaleBalance,
+  allocateSalePayments,
+} from '../reservation-deposits'
+import { getNetAmount } from '../utils'
+
+describe('getReservationBalance', () => {
+  it('예상 금액에서 받은 선금을 뺀다', () => {
+    expect(getReservationBalance(200000, [{ amount: 50000 }, { amount: 30000 }])).toBe(120000)
+  })
+
+  it('선금이 더 많으면 0', () => {
+    expect(getReservationBalance(50000, [{ amount: 80000 }])).toBe(0)
+  })
+})
+
+describe('getSaleBalance', () => {
+  it('실매출에서 선금 반영액을 뺀 잔금', () => {
+    expect(getSaleBalance({ amount: 200000, deposit_amount: 50000 })).toBe(150000)
+  })
+
+  it('환불은 잔금에서 먼저 차감된다', () => {
+    expect(getSaleBalance({ amount: 200000, refunded_amount: 170000, deposit_amount: 50000 })).toBe(0)
+  })
+
+  it('선불권 사용액도 잔금에서 뺀다', () => {
+    expect(getSaleBalance({ amount: 200000, deposit_amount: 50000, voucher_amount: 30000 })).toBe(120000)
+  })
+})
+
+describe('allocateSalePayments', () => {
+  it('잔금은 매출 결제방식, 선금은 받은 방식으로 나눈다', () => {
+    expect(allocateSalePayments({
+      amount: 200000,
+      deposit_amount: 50000,
+      payment_method: 'card',
+      deposits: [{ amount: 50000, payment_method: 'transfer' }],
+    })).toEqual([
+      { payment_method: 'card', amount: 150000 },
+      { payment_method: 'transfer', amount: 50000 },
+    ])
+  })
+
+  it('선금이 없으면 실매출 전체가 매출 결제방식', () => {
+    expect(allocateSalePayments({ amount: 30000, refunded_amount: 10000, payment_method: 'cash' }))
+      .toEqual([{ payment_method: 'cash', amount: 20000 }])
+  })
+
+  it('선불권 사용액은 voucher로 나눈다', () => {
+    expect(allocateSalePayments({ amount: 50000, voucher_amount: 30000, payment_method: 'cash' })).toEqual([
+      { payment_method: 'cash', amount: 20000 },
+      { payment_method: 'voucher', amount: 30000 },
+    ])
+  })
+
+  it('나눠 결제한 잔금은 결제별 실결제액으로 나눈다', () => {
+    expect(allocateSalePayments({
+      amount: 80000,
+      refunded_amount: 10000,
+      deposit_amount: 20000,
+      payment_method: 'card',
+      deposits: [{ amount: 20000, payment_method: 'transfer' }],
+      payments: [
+        { payment_method: 'card', amount: 40000, refunded_amount: 0 },
+        { payment_method: 'cash', amount: 20000, refunded_amount: 10000 },
+      ],
+    })).toEqual([
+      { payment_method: 'card', amount: 40000 },
+      { payment_method: 'cash', amount: 10000 },
+      { payment_method: 'transfer', amount: 20000 },
+    ])
+  })
+
+  it('잔금보다 큰 환불은 선금, 선불권 사용액 순으로 차감', () => {
+    expect(allocateSalePayments({
+      amount: 100000,
+      refunded_amount: 40000,
+      deposit_amount: 50000,
+      voucher_amount: 30000,
+      payment_method: 'card',
+      deposits: [{ amount: 50000, payment_method: 'transfer' }],
+    })).toEqual([
+      { payment_method: 'voucher', amount: 30000 },
+      { payment_method: 'transfer', amount: 30000 },
+    ])
+  })
+
+  it('잔금보다 큰 환불은 선금에서 받은 순서대로 차감', () => {
+    expect(allocateSalePayments({
+      amount: 100000,
+      refunded_amount: 70000,
+      deposit_amount: 50000,
+      payment_method: 'card',
+      deposits: [
+        { amount: 20000, payment_method: 'cash' },
+        { amount: 30000, payment_method: 'transfer' },
+      ],
+    })).toEqual([
+      { payment_method: 'cash', amount: 20000 },
+      { payment_method: 'transfer', amount: 10000 },
+    ])
+  })
+
+  it('결제방식별 합계는 항상 실매출과 같다', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 1, max: 100000 }), { maxLength: 4 }),
+        fc.integer({ min: 0, max: 300000 }),
+        fc.integer({ min: 0, max: 100000 }),
+        fc.integer({ min: 0, max: 1 }),
+        (depositAmounts, extra, voucherAmount, refundRatio) => {
+          const deposits = depositAmounts.map((amount) => ({ amount, payment_method: 'transfer' }))
+          const depositTotal = getDepositTotal(deposits)
+          const amount = depositTotal + voucherAmount + extra
+          const sale = {
+            amount,
+            refunded_amount: Math.floor(amount * refundRatio * 0.7),
+            deposit_amount: depositTotal,
+            voucher_amount: voucherAmount,
+            payment_method: 'card',
+            deposits,
+          }
+          const total = allocateSalePayments(sale).reduce((sum, p) => sum + p.amount, 0)
+          expect(total).toBe(getNetAmount(sale))
+        }
+      )
+    )
+  })
+})
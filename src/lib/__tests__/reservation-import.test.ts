@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  parseCsv,
+  parseKoreanAmount,
+  parseKoreanDate,
+  parseKoreanTime,
+  parseKoreanDateTime,
+  normalizeImportPhone,
+  parseNaverBookingCsv,
+  parseKakaoOrderMessages,
+  getDraftIssues,
+  findDuplicateReservation,
+} from '../reservation-import'
+
+const today = new Date(2026, 1, 1) // 2026-02-01
+
+describe('parseCsv', () => {
+  it('따옴표 안의 쉼표/줄바꿈과 "" 이스케이프, BOM', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"1,2","say ""hi""\nok"\n\n')).toEqual([
+      ['a', 'b'],
+      ['1,2', 'say "hi"\nok'],
+    ])
+  })
+
+  it('따옴표로 감싼 필드는 그대로 복원', () => {
+    fc.assert(
+      fc.property(fc.array(fc.array(fc.string({ minLength: 1 }), { minLength: 1, maxLength: 4 }), { minLength: 1, maxLength: 5 }), (rows) => {
+        const csv = rows.map((r) => r.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\r\n')
+        const expected = rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+        expect(parseCsv(csv)).toEqual(expected)
+      })
+    )
+  })
+})
+
+describe('parseKoreanAmount', () => {
+  it.each([
+    ['50,000원', 50000],
+    ['5만원', 50000],
+    ['5만 5천원', 55000],
+    ['3.5만', 35000],
+    ['₩120,000', 120000],
+    ['', 0],
+    ['미정', 0],
+  ])('%s → %d', (text, amount) => {
+    expect(parseKoreanAmount(text)).toBe(amount)
+  })
+})
+
+describe('parseKoreanDate / parseKoreanTime', () => {
+  it.each([
+    ['2026-02-14', '2026-02-14'],
+    ['2026.02.14(토)', '2026-02-14'],
+    ['2026. 2. 14.', '2026-02-14'],
+    ['2026년 2월 14일', '2026-02-14'],
+    ['26.02.14', '2026-02-14'],
+    ['2월 14일 토요일', '2026-02-14'],
+    ['2/14', '2026-02-14'],
+    ['내일', '2026-02-02'],
+    ['2월 30일', null],
+  ])('%s → %s', (text, date) => {
+    expect(parseKoreanDate(text, today)).toBe(date)
+  })
+
+  it('연도 없는 날짜가 한참 지났으면 내년', () => {
+    expect(parseKoreanDate('1/5', new Date(2026, 11, 20))).toBe('2027-01-05')
+  })
+
+  it.each([
+    ['14:00', '14:00'],
+    ['오후 2시', '14:00'],
+    ['오후 2:30', '14:30'],
+    ['2시 반', '02:30'],
+    ['저녁 7시 10분', '19:10'],
+    ['낮 12시', '12:00'],
+    ['오전 12시', '00:00'],
+    ['25:00', null],
+    ['아무때나', null],
+  ])('%s → %s', (text, time) => {
+    expect(parseKoreanTime(text)).toBe(time)
+  })
+
+  it('날짜 숫자를 시간으로 읽지 않는다', () => {
+    expect(parseKoreanDateTime('2026.02.14(토) 오후 2:00', today)).toEqual({ date: '2026-02-14', time: '14:00' })
+    expect(parseKoreanDateTime('2/14', today)).toEqual({ date: '2026-02-14', time: null })
+  })
+})
+
+describe('normalizeImportPhone', () => {
+  it('휴대폰 번호만 하이픈 형식으로', () => {
+    expect(normalizeImportPhone('01012345678')).toBe('010-1234-5678')
+    expect(normalizeImportPhone('+82 10-1234-5678')).toBe('010-1234-5678')
+    expect(normalizeImportPhone('011-123-4567')).toBe('011-123-4567')
+    expect(normalizeImportPhone('02-123-4567')).toBeNull()
+    expect(normalizeImportPhone(null)).toBeNull()
+  })
+})
+
+describe('parseNaverBookingCsv', () => {
+  const csv = [
+    '예약번호,예약자,전화번호,이용일시,상품,옵션,요청사항,결제금액,상태',
+    '1001,홍길동,01012345678,2026.02.14(토) 오후 2:00,프로포즈 꽃다발,빨강,"리본에 ""사랑해"" 문구","55,000원",확정',
+    '1002,김영희,010-9876-5432,2026.02.15(일) 오전 11:00,꽃바구니,,,30000,신청',
+    '1003,이철수,010-1111-2222,2026.02.16(월) 오후 1:00,화환,,,100000,취소',
+  ].join('\n')
+
+  it('행마다 초안을 만들고 취소된 예약은 건너뜀', () => {
+    const result = parseNaverBookingCsv(csv, today)!
+    expect(result.skipped).toEqual([{ label: '예약번호 1003', reason: '취소 상태' }])
+    expect(result.drafts).toHaveLength(2)
+    expect(result.drafts[0]).toMatchObject({
+      source: 'naver_booking',
+      external_ref: '1001',
+      date: '2026-02-14',
+      time: '14:00',
+      customer_name: '홍길동',
+      customer_phone: '010-1234-5678',
+      title: '프로포즈 꽃다발',
+      description: '옵션: 빨강\n리본에 "사랑해" 문구',
+      estimated_amount: 55000,
+      reservation_status: 'confirmed',
+    })
+    expect(result.drafts[1]).toMatchObject({ time: '11:00', description: null, reservation_status: 'pending' })
+    expect(result.drafts[0].raw_text).toContain('예약번호: 1001')
+  })
+
+  it('날짜/시간 열이 나뉜 내보내기도 읽는다', () => {
+    const result = parseNaverBookingCsv('예약자명,이용일,이용시간,상품명\n홍길동,2026-02-14,14:30,꽃다발', today)!
+    expect(result.drafts[0]).toMatchObject({ date: '2026-02-14', time: '14:30', external_ref: null })
+  })
+
+  it('예약자/이용일시 열이 없으면 null', () => {
+    expect(parseNaverBookingCsv('날짜,품목,금액\n2026-02-14,장미,1000', today)).toBeNull()
+    expect(parseNaverBookingCsv('', today)).toBeNull()
+  })
+})
+
+describe('parseKakaoOrderMessages', () => {
+  it('주문서 양식을 읽고 나머지 라벨은 메모로', () => {
+    const text = [
+      '[헤이즐 주문서]',
+      '- 성함 : 홍길동',
+      '- 연락처 : 010 1234 5678',
+      '- 픽업 날짜 : 2/14 (토)',
+      '- 픽업 시간 : 오후 3시 반',
+      '- 상품 : 꽃다발 5만원',
+      '- 리본 문구 : 축 결혼',
+      '  신랑 신부 행복하세요',
+    ].join('\n')
+    const { drafts, skipped } = parseKakaoOrderMessages(text, today)
+    expect(skipped).toEqual([])
+    expect(drafts).toEqual([
+      {
+        source: 'kakaotalk',
+        external_ref: null,
+        raw_text: text,
+        date: '2026-02-14',
+        time: '15:30',
+        customer_name: '홍길동',
+        customer_phone: '010-1234-5678',
+        title: '꽃다발 5만원',
+        description: '리본 문구: 축 결혼\n신랑 신부 행복하세요',
+        estimated_amount: 50000,
+        reservation_status: 'pending',
+      },
+    ])
+  })
+
+  it('구분선으로 여러 건, 대화 내보내기 머리말 제거, 양식 아닌 메시지는 건너뜀', () => {
+    const text = [
+      '[김영희] [오후 2:03] 이름: 김영희',
+      '[김영희] [오후 2:03] 일시: 내일 오전 10시',
+      '[김영희] [오후 2:03] 메뉴: 꽃바구니',
+      '[김영희] [오후 2:03] 금액: 3만원',
+      '---',
+      '안녕하세요 문의드려요',
+    ].join('\n')
+    const { drafts, skipped } = parseKakaoOrderMessages(text, today)
+    expect(drafts).toHaveLength(1)
+    expect(drafts[0]).toMatchObject({ customer_name: '김영희', date: '2026-02-02', time: '10:00', title: '꽃바구니', estimated_amount: 30000 })
+    expect(skipped).toHaveLength(1)
+  })
+})
+
+describe('getDraftIssues', () => {
+  it('승인 전에 고칠 항목', () => {
+    expect(getDraftIssues({ date: null, time: null, customer_name: ' ', customer_phone: '02-123', title: null })).toEqual([
+      '날짜를 찾지 못했습니다',
+      '고객명을 찾지 못했습니다',
+      '상품을 찾지 못했습니다',
+      '전화번호 형식을 확인해주세요',
+    ])
+    expect(getDraftIssues({ date: '2026-02-14', time: null, customer_name: '홍길동', customer_phone: null, title: '꽃다발' })).toEqual([])
+  })
+})
+
+describe('findDuplicateReservation', () => {
+  const base = { time: '14:00:00', customer_phone: '010-1234-5678', status: 'pending' as const }
+  const reservations = [
+    { ...base, id: 'a', date: '2026-02-14', customer_name: '홍길동', external_uid: 'naver_booking:1001' },
+    { ...base, id: 'b', date: '2026-02-15', customer_name: '김 영희', customer_phone: null },
+    { ...base, id: 'c', date: '2026-02-16', customer_name: '이철수', status: 'cancelled' as const },
+  ]
+  const draft = { source: 'naver_booking' as const, external_ref: null, date: '2026-02-14', time: null, customer_name: '다른 이름', customer_phone: '01012345678', title: '꽃다발' }
+
+  it('예약번호 → 전화번호 → 이름 순', () => {
+    expect(findDuplicateReservation({ ...draft, date: '2026-03-01', external_ref: '1001' }, reservations)).toMatchObject({ reservation: { id: 'a' }, reason: 'external_ref' })
+    expect(findDuplicateReservation(draft, reservations)).toMatchObject({ reservation: { id: 'a' }, reason: 'phone' })
+    expect(findDuplicateReservation({ ...draft, date: '2026-02-15', customer_name: '김영희', customer_phone: null }, reservations)).toMatchObject({ reservation: { id: 'b' }, reason: 'name_time' })
+  })
+
+  it('시간이 다르거나 취소된 예약은 중복 아님', () => {
+    expect(findDuplicateReservation({ ...draft, date: '2026-02-15', customer_name: '김영희', customer_phone: null, time: '10:00' }, reservations)).toBeNull()
+    expect(findDuplicateReservation({ ...draft, date: '2026-02-16' }, reservations)).toBeNull()
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  getPaymentsTotal,
+  getPaymentNetAmount,
+  validateSalePayments,
+  allocatePaymentRefunds,
+  isSamePayments,
+  getSalePaymentMethods,
+} from '../sale-payments'
+
+const card = (amount: number, card_company: string | null = '신한카드') => ({ payment_method: 'card' as const, amount, card_company })
+const cash = (amount: number) => ({ payment_method: 'cash' as const, amount })
+
+describe('결제 합계', () => {
+  it('합계와 결제별 실결제액', () => {
+    expect(getPaymentsTotal([card(30000), cash(20000)])).toBe(50000)
+    expect(getPaymentNetAmount({ amount: 30000, refunded_amount: 5000 })).toBe(25000)
+    expect(getPaymentNetAmount({ amount: 30000 })).toBe(30000)
+  })
+})
+
+describe('validateSalePayments', () => {
+  it('결제 합계가 잔금과 같아야 함', () => {
+    expect(validateSalePayments([card(30000), cash(20000)], 50000)).toBeNull()
+    expect(validateSalePayments([card(30000), cash(10000)], 50000))
+      .toBe('결제 금액 합계(40,000원)가 결제할 금액(50,000원)과 다릅니다')
+  })
+
+  it('잔금이 없으면 결제도 없음', () => {
+    expect(validateSalePayments([], 0)).toBeNull()
+    expect(validateSalePayments([cash(1000)], 0)).toBe('선금·선불권으로 모두 결제한 매출에는 결제를 추가할 수 없습니다')
+    expect(validateSalePayments([], 50000)).toBe('결제방식을 선택해주세요')
+  })
+
+  it('금액이 0 이하인 결제는 안 됨', () => {
+    expect(validateSalePayments([card(50000), cash(0)], 50000)).toBe('결제 금액이 올바르지 않습니다')
+    expect(validateSalePayments([card(60000), cash(-10000)], 50000)).toBe('결제 금액이 올바르지 않습니다')
+  })
+})
+
+describe('allocatePaymentRefunds', () => {
+  it('환불 방식과 같은 결제에서 먼저 뺌', () => {
+    expect(allocatePaymentRefunds([card(30000), cash(20000)], [{ amount: 10000, refund_method: 'card' }]))
+      .toEqual([10000, 0])
+  })
+
+  it('같은 방식 결제가 모자라거나 없으면 뒤 결제부터', () => {
+    expect(allocatePaymentRefunds([card(30000), cash(20000)], [{ amount: 25000, refund_method: 'cash' }]))
+      .toEqual([5000, 20000])
+    expect(allocatePaymentRefunds([card(30000), cash(20000)], [{ amount: 25000, refund_method: 'transfer' }]))
+      .toEqual([5000, 20000])
+  })
+
+  it('결제 합계를 넘는 환불은 빼지 않음 (선금·선불권 몫)', () => {
+    expect(allocatePaymentRefunds([cash(20000)], [{ amount: 50000, refund_method: 'cash' }])).toEqual([20000])
+    expect(allocatePaymentRefunds([], [{ amount: 50000, refund_method: 'cash' }])).toEqual([])
+  })
+
+  it('결제별 환불은 결제 금액 이내이고 합계는 min(환불 누계, 결제 합계)', () => {
+    const method = fc.constantFrom('card', 'cash', 'transfer')
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ payment_method: method, amount: fc.integer({ min: 1, max: 100000 }) }), { maxLength: 5 }),
+        fc.array(fc.record({ refund_method: method, amount: fc.integer({ min: 1, max: 100000 }) }), { maxLength: 4 }),
+        (payments, refunds) => {
+          const refunded = allocatePaymentRefunds(payments, refunds)
+          refunded.forEach((r, i) => {
+            expect(r).toBeGreaterThanOrEqual(0)
+            expect(r).toBeLessThanOrEqual(payments[i].amount)
+          })
+          const total = refunded.reduce((sum, r) => sum + r, 0)
+          expect(total).toBe(Math.min(refunds.reduce((sum, r) => sum + r.amount, 0), getPaymentsTotal(payments)))
+        }
+      )
+    )
+  })
+})
+
+describe('isSamePayments', () => {
+  it('결제방식·금액·카드사가 순서까지 같아야 함', () => {
+    expect(isSamePayments([card(30000), cash(20000)], [card(30000), cash(20000)])).toBe(true)
+    expect(isSamePayments([card(30000, null)], [{ payment_method: 'card', amount: 30000 }])).toBe(true)
+    expect(isSamePayments([card(30000), cash(20000)], [cash(20000), card(30000)])).toBe(false)
+    expect(isSamePayments([card(30000)], [card(30000, '삼성카드')])).toBe(false)
+    expect(isSamePayments([card(30000)], [card(30000), cash(0)])).toBe(false)
+  })
+})
+
+describe('getSalePaymentMethods', () => {
+  it('결제 순서대로 중복 없이, 결제가 없으면 매출 결제방식', () => {
+    expect(getSalePaymentMethods({
+      payment_method: 'cash',
+      payments: [
+        { payment_method: 'cash', sort_order: 1 },
+        { payment_method: 'card', sort_order: 0 },
+        { payment_method: 'cash', sort_order: 2 },
+      ],
+    })).toEqual(['card', 'cash'])
+    expect(getSalePaymentMethods({ payment_method: 'voucher', payments: [] })).toEqual(['voucher'])
+  })
+})
@@ -32,7 +32,6 @@ const arbitrarySale = (): fc.Arbitrary<Sale> => {
     product_category: fc.constantFrom(...categories),
     amount: fc.integer({ min: 1, max: 10000000 }),
     payment_method: fc.constantFrom(...paymentMethods),
-    deposit_status: fc.constantFrom('pending', 'completed', 'not_applicable') as fc.Arbitrary<'pending' | 'completed' | 'not_applicable'>,
     reservation_channel: fc.constantFrom('phone', 'kakaotalk', 'naver_booking', 'road', 'other') as fc.Arbitrary<'phone' | 'kakaotalk' | 'naver_booking' | 'road' | 'other'>,
     has_review: fc.boolean(),
     created_at: fc.constant(new Date().toISOString()),
@@ -122,7 +121,7 @@ describe('Sales Summary Calculation', () => {
         fc.array(arbitrarySale(), { minLength: 0, maxLength: 50 }),
         (sales) => {
           const summary = calculateSalesSummary(sales)
-          const sumOfMethods = summary.card + summary.naverpay + summary.transfer + summary.cash
+          const sumOfMethods = summary.card + summary.naverpay + summary.transfer + summary.cash + summary.kakaopay + summary.voucher
           return sumOfMethods === summary.total
         }
       ),
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseCSV,
+  parseSettlementCSV,
+  normalizeSettlementDate,
+  parseSettlementAmount,
+  normalizeCardCompany,
+  reconcileSettlement,
+} from '../settlement'
+import type { SettlementRow, SettlementSale } from '../settlement'
+
+const createSale = (overrides: Partial<SettlementSale>): SettlementSale => ({
+  id: 'sale-1',
+  date: '2026-01-10',
+  amount: 50000,
+  card_company: '신한카드',
+  expected_deposit: 49000,
+  expected_deposit_date: '2026-01-13',
+  ...overrides,
+})
+
+const createRow = (overrides: Partial<SettlementRow>): SettlementRow => ({
+  line: 2,
+  card_company: '신한카드',
+  deposit_date: '2026-01-13',
+  amount: 49000,
+  ...overrides,
+})
+
+describe('parseCSV', () => {
+  it('should parse quoted fields with commas and escaped quotes', () => {
+    const rows = parseCSV('a,b\n"1,000","say ""hi"""\n')
+    expect(rows).toEqual([['a', 'b'], ['1,000', 'say "hi"']])
+  })
+
+  it('should handle CRLF and skip blank lines', () => {
+    expect(parseCSV('a,b\r\n\r\n1,2')).toEqual([['a', 'b'], ['1', '2']])
+  })
+})
+
+describe('normalizeSettlementDate', () => {
+  it('should normalize common date formats', () => {
+    expect(normalizeSettlementDate('2026-01-05')).toBe('2026-01-05')
+    expect(normalizeSettlementDate('2026.1.5')).toBe('2026-01-05')
+    expect(normalizeSettlementDate('2026/01/05 14:30')).toBe('2026-01-05')
+    expect(normalizeSettlementDate('20260105')).toBe('2026-01-05')
+  })
+
+  it('should return null for invalid dates', () => {
+    expect(normalizeSettlementDate('')).toBeNull()
+    expect(normalizeSettlementDate('2026-13-01')).toBeNull()
+    expect(normalizeSettlementDate('abc')).toBeNull()
+  })
+})
+
+describe('parseSettlementAmount', () => {
+  it('should strip separators and currency marks', () => {
+    expect(parseSettlementAmount('1,234,000원')).toBe(1234000)
+    expect(parseSettlementAmount('₩ 5,000')).toBe(5000)
+  })
+
+  it('should reject zero, negative and non-numeric values', () => {
+    expect(parseSettlementAmount('0')).toBeNull()
+    expect(parseSettlementAmount('-5,000')).toBeNull()
+    expect(parseSettlementAmount('')).toBeNull()
+  })
+})
+
+describe('normalizeCardCompany', () => {
+  it('should ignore spacing, corporate marks and 카드 suffix', () => {
+    expect(normalizeCardCompany('(주)신한 카드')).toBe('신한')
+    expect(normalizeCardCompany('KB국민카드')).toBe('kb국민')
+  })
+})
+
+describe('parseSettlementCSV', () => {
+  it('should map aliased headers and collect row errors', () => {
+    const csv = [
+      '\uFEFF매입사,지급일자,지급금액,승인일자',
+      '신한카드,2026.01.13,"49,000",2026.01.10',
+      '국민카드,잘못된날짜,10000,',
+      '삼성카드,2026-01-14,0,',
+    ].join('\n')
+
+    const result = parseSettlementCSV(csv)
+    expect(result.rows).toEqual([
+      { line: 2, card_company: '신한카드', deposit_date: '2026-01-13', amount: 49000, sale_date: '2026-01-10' },
+    ])
+    expect(result.errors).toEqual([
+      '3행: 입금일을 읽을 수 없습니다',
+      '4행: 입금액을 읽을 수 없습니다',
+    ])
+  })
+
+  it('should report missing required columns', () => {
+    const result = parseSettlementCSV('카드사,금액\n신한,1000')
+    expect(result.rows).toHaveLength(0)
+    expect(result.errors[0]).toContain('입금일')
+    expect(result.errors[0]).toContain('입금액')
+  })
+})
+
+describe('reconcileSettlement', () => {
+  it('should match on card company, expected date and amount', () => {
+    const sales = [createSale({ card_company: '신한' })]
+    const result = reconcileSettlement([createRow({})], sales)
+    expect(result.matched).toHaveLength(1)
+    expect(result.matched[0].sale?.id).toBe('sale-1')
+    expect(result.matched[0].difference).toBe(0)
+  })
+
+  it('should match deposits shifted within the date tolerance', () => {
+    const sales = [createSale({ expected_deposit_date: '2026-01-13' })]
+    const result = reconcileSettlement([createRow({ deposit_date: '2026-01-15' })], sales)
+    expect(result.matched).toHaveLength(1)
+  })
+
+  it('should put same-date different-amount rows in the mismatch bucket', () => {
+    const sales = [createSale({})]
+    const result = reconcileSettlement([createRow({ amount: 48500 })], sales)
+    expect(result.mismatched).toHaveLength(1)
+    expect(result.mismatched[0].difference).toBe(-500)
+  })
+
+  it('should leave rows without a candidate unmatched', () => {
+    const sales = [createSale({ card_company: '삼성카드' })]
+    const result = reconcileSettlement([createRow({})], sales)
+    expect(result.unmatched).toHaveLength(1)
+    expect(result.unmatched[0].sale).toBeNull()
+  })
+
+  it('should use each sale at most once', () => {
+    const sales = [createSale({})]
+    const result = reconcileSettlement([createRow({ line: 2 }), createRow({ line: 3 })], sales)
+    expect(result.matched).toHaveLength(1)
+    expect(result.unmatched).toHaveLength(1)
+  })
+
+  it('should prefer the sale with the same sale date', () => {
+    const sales = [
+      createSale({ id: 'a', date: '2026-01-09' }),
+      createSale({ id: 'b', date: '2026-01-10' }),
+    ]
+    const result = reconcileSettlement([createRow({ sale_date: '2026-01-10' })], sales)
+    expect(result.matched[0].sale?.id).toBe('b')
+  })
+
+  it('should fall back to sale amount when expected deposit is missing', () => {
+    const sales = [createSale({ expected_deposit: undefined, amount: 30000 })]
+    const result = reconcileSettlement([createRow({ amount: 30000 })], sales)
+    expect(result.matched).toHaveLength(1)
+  })
+})
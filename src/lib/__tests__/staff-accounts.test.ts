@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  INVITE_CODE_LENGTH,
+  generateInviteCode,
+  generateTemporaryPassword,
+  normalizeInviteCode,
+  formatInviteCode,
+  hashInviteCode,
+  getInviteExpiresAt,
+  getInvitationStatus,
+  isAccountDeactivated,
+} from '../staff-accounts'
+
+// 정해진 바이트를 먼저 돌려주고, 다 쓰면 0
+const fixedBytes = (bytes: Uint8Array) => {
+  let offset = 0
+  return (length: number) => {
+    const out = new Uint8Array(length)
+    out.set(bytes.slice(offset, offset + length))
+    offset += length
+    return out
+  }
+}
+
+describe('generateInviteCode', () => {
+  it('should only use unambiguous characters', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ minLength: INVITE_CODE_LENGTH, maxLength: INVITE_CODE_LENGTH }), (bytes) => {
+        const code = generateInviteCode(fixedBytes(bytes))
+        return code.length === INVITE_CODE_LENGTH && /^[A-HJKMNP-Z2-9]+$/.test(code)
+      })
+    )
+  })
+
+  it('should redraw bytes that would bias the alphabet (248 and above)', () => {
+    // 248 = 31 × 8: 그대로 쓰면 248~255가 A~H로 가서 앞 글자가 더 자주 나옴
+    expect(generateInviteCode(fixedBytes(new Uint8Array([248, 255, 1, 2, 3, 4, 5, 6, 7, 8])))).toBe('BCDEFGHJ')
+  })
+
+  it('should create random codes by default', () => {
+    expect(generateInviteCode()).not.toBe(generateInviteCode())
+    expect(generateTemporaryPassword()).toHaveLength(12)
+  })
+})
+
+describe('normalizeInviteCode / formatInviteCode', () => {
+  it('should accept codes typed with dashes, spaces or lowercase', () => {
+    expect(normalizeInviteCode(' abcd-efgh ')).toBe('ABCDEFGH')
+    expect(formatInviteCode('abcdefgh')).toBe('ABCD-EFGH')
+  })
+
+  it('should round-trip formatted codes', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ minLength: INVITE_CODE_LENGTH, maxLength: INVITE_CODE_LENGTH }), (bytes) => {
+        const code = generateInviteCode(fixedBytes(bytes))
+        return normalizeInviteCode(formatInviteCode(code)) === code
+      })
+    )
+  })
+})
+
+describe('hashInviteCode', () => {
+  it('should hash the normalized code', async () => {
+    const hash = await hashInviteCode('ABCD-EFGH')
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashInviteCode('abcd efgh')).toBe(hash)
+    expect(await hashInviteCode('ABCD-EFGJ')).not.toBe(hash)
+  })
+})
+
+describe('getInvitationStatus', () => {
+  const now = new Date('2026-05-01T00:00:00.000Z')
+  const base = { used_at: null, revoked_at: null, expires_at: getInviteExpiresAt(now) }
+
+  it('should stay pending until it expires', () => {
+    expect(base.expires_at).toBe('2026-05-04T00:00:00.000Z')
+    expect(getInvitationStatus(base, now)).toBe('pending')
+    expect(getInvitationStatus(base, new Date('2026-05-04T00:00:00.000Z'))).toBe('expired')
+  })
+
+  it('should prefer used over revoked and expired', () => {
+    expect(getInvitationStatus({ ...base, used_at: '2026-05-02T00:00:00.000Z', revoked_at: '2026-05-03T00:00:00.000Z' }, now)).toBe('used')
+    expect(getInvitationStatus({ ...base, revoked_at: '2026-05-02T00:00:00.000Z' }, now)).toBe('revoked')
+  })
+})
+
+describe('isAccountDeactivated', () => {
+  const now = new Date('2026-05-01T00:00:00.000Z')
+
+  it('should treat a future ban as deactivated', () => {
+    expect(isAccountDeactivated('2126-05-01T00:00:00.000Z', now)).toBe(true)
+    expect(isAccountDeactivated('2026-04-30T00:00:00.000Z', now)).toBe(false)
+    expect(isAccountDeactivated(null, now)).toBe(false)
+  })
+})
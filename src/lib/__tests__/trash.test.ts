@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import * as fc from 'fast-check'
+import {
+  TRASH_RETENTION_DAYS,
+  getTrashPurgeCutoff,
+  getDaysUntilPurge,
+  getStoragePaths,
+  getRelinkableIds,
+} from '../trash'
+
+describe('getTrashPurgeCutoff', () => {
+  it('should go back by the retention period', () => {
+    const now = new Date('2026-03-31T00:00:00.000Z')
+    expect(getTrashPurgeCutoff(now)).toBe('2026-03-01T00:00:00.000Z')
+    expect(getTrashPurgeCutoff(now, 7)).toBe('2026-03-24T00:00:00.000Z')
+  })
+})
+
+describe('getDaysUntilPurge', () => {
+  const now = new Date('2026-03-10T12:00:00.000Z')
+
+  it('should count the remaining days rounded up', () => {
+    expect(getDaysUntilPurge('2026-03-10T12:00:00.000Z', now)).toBe(TRASH_RETENTION_DAYS)
+    expect(getDaysUntilPurge('2026-02-08T18:00:00.000Z', now)).toBe(1)
+  })
+
+  it('should not go below zero once the retention has passed', () => {
+    expect(getDaysUntilPurge('2026-01-01T00:00:00.000Z', now)).toBe(0)
+  })
+
+  it('should agree with the purge cutoff', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 60 * 24 * 60 }), (minutesAgo) => {
+        const deletedAt = new Date(now.getTime() - minutesAgo * 60 * 1000).toISOString()
+        const purgeable = deletedAt < getTrashPurgeCutoff(now)
+        return !purgeable || getDaysUntilPurge(deletedAt, now) === 0
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
+
+describe('getStoragePaths', () => {
+  const base = 'https://abc.supabase.co/storage/v1/object/public'
+
+  it('should extract file paths of the given bucket', () => {
+    expect(getStoragePaths([
+      `${base}/photo-cards/card-1/1700000000-abc.jpg`,
+      `${base}/sale-photos/sale-1/photo.png`,
+    ], 'photo-cards')).toEqual(['card-1/1700000000-abc.jpg'])
+  })
+
+  it('should decode encoded file names and skip external urls', () => {
+    expect(getStoragePaths([
+      `${base}/sale-photos/sale-1/%ED%95%98%EC%A0%A4.jpg`,
+      'https://example.com/sale-photos/other.jpg',
+    ], 'sale-photos')).toEqual(['sale-1/하젤.jpg'])
+  })
+})
+
+describe('getRelinkableIds', () => {
+  it('should relink only rows that are still unlinked', () => {
+    const rows = [
+      { id: 's1', linked_id: null },
+      { id: 's2', linked_id: 'other-customer' },
+    ]
+    expect(getRelinkableIds(['s1', 's2', 's3'], rows)).toEqual(['s1'])
+  })
+
+  it('should handle missing links', () => {
+    expect(getRelinkableIds(null, [{ id: 's1', linked_id: null }])).toEqual([])
+  })
+})
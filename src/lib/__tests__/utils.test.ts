@@ -6,7 +6,14 @@ import {
   filterSalesByYearMonth,
   filterSalesByCategory,
   calculateSalesSummary,
+  calculateLineAmount,
+  calculateSaleItemsTotal,
+  getSaleLineItems,
+  getNetAmount,
+  getNetSaleLineItems,
+  aggregatePurchaseStats,
   formatCurrency,
+  formatAuditValue,
   formatPhoneNumber,
 } from '../utils'
 import type { Sale, PaymentMethod, ProductCategory } from '@/types/database'
@@ -217,6 +224,116 @@ describe('filterSalesByCategory', () => {
     const result = filterSalesByCategory([], 'all')
     expect(result).toHaveLength(0)
   })
+
+  it('품목 중 하나라도 카테고리가 일치하면 포함한다', () => {
+    const multiLine = createMockSale({
+      id: '5',
+      product_category: 'basket' as ProductCategory,
+      items: [
+        { id: 'i1', sale_id: '5', product_category: 'basket', quantity: 1, unit_price: 50000, discount: 0, amount: 50000, sort_order: 0, created_at: '' },
+        { id: 'i2', sale_id: '5', product_category: 'mini_bouquet', quantity: 2, unit_price: 15000, discount: 0, amount: 30000, sort_order: 1, created_at: '' },
+      ],
+    })
+    const result = filterSalesByCategory([...sales, multiLine], 'mini_bouquet' as ProductCategory)
+    expect(result.map(s => s.id)).toEqual(['2', '5'])
+  })
+})
+
+describe('calculateLineAmount', () => {
+  it('수량 × 단가에서 할인을 뺀다', () => {
+    expect(calculateLineAmount({ product_category: 'basket', quantity: 2, unit_price: 15000, discount: 5000 })).toBe(25000)
+  })
+
+  it('할인이 금액보다 커도 음수가 되지 않는다', () => {
+    expect(calculateLineAmount({ product_category: 'basket', quantity: 1, unit_price: 1000, discount: 5000 })).toBe(0)
+  })
+})
+
+describe('calculateSaleItemsTotal', () => {
+  it('모든 품목 금액을 합산한다', () => {
+    expect(calculateSaleItemsTotal([
+      { product_category: 'basket', quantity: 1, unit_price: 50000, discount: 0 },
+      { product_category: 'mini_bouquet', quantity: 2, unit_price: 15000, discount: 3000 },
+    ])).toBe(77000)
+  })
+
+  it('빈 배열은 0을 반환한다', () => {
+    expect(calculateSaleItemsTotal([])).toBe(0)
+  })
+})
+
+describe('getSaleLineItems', () => {
+  it('품목이 없는 기존 매출은 단일 품목으로 변환한다', () => {
+    const sale = createMockSale({ product_category: 'basket' as ProductCategory, amount: 45000 })
+    expect(getSaleLineItems(sale)).toEqual([
+      { product_category: 'basket', quantity: 1, unit_price: 45000, discount: 0, amount: 45000 },
+    ])
+  })
+
+  it('품목이 있으면 품목을 그대로 반환한다', () => {
+    const sale = createMockSale({
+      amount: 80000,
+      items: [
+        { id: 'i1', sale_id: 's', product_category: 'basket', quantity: 1, unit_price: 50000, discount: 0, amount: 50000, sort_order: 0, created_at: '' },
+        { id: 'i2', sale_id: 's', product_category: 'mini_bouquet', quantity: 2, unit_price: 15000, discount: 0, amount: 30000, sort_order: 1, created_at: '' },
+      ],
+    })
+    const lines = getSaleLineItems(sale)
+    expect(lines).toHaveLength(2)
+    expect(lines[1]).toEqual({ product_category: 'mini_bouquet', quantity: 2, unit_price: 15000, discount: 0, amount: 30000 })
+  })
+
+  it('카테고리가 없으면 "기타"로 처리한다', () => {
+    expect(getSaleLineItems({ product_category: null, amount: 1000 })[0].product_category).toBe('기타')
+  })
+})
+
+describe('getNetAmount', () => {
+  it('환불 누계를 뺀 실매출을 반환한다', () => {
+    expect(getNetAmount({ amount: 50000, refunded_amount: 20000 })).toBe(30000)
+    expect(getNetAmount({ amount: 50000 })).toBe(50000)
+  })
+
+  it('음수가 되지 않는다', () => {
+    expect(getNetAmount({ amount: 10000, refunded_amount: 15000 })).toBe(0)
+  })
+})
+
+describe('getNetSaleLineItems', () => {
+  const items = [
+    { id: 'i1', sale_id: 's', product_category: 'basket', quantity: 1, unit_price: 60000, discount: 0, amount: 60000, sort_order: 0, created_at: '' },
+    { id: 'i2', sale_id: 's', product_category: 'mini_bouquet', quantity: 1, unit_price: 40000, discount: 0, amount: 40000, sort_order: 1, created_at: '' },
+  ]
+
+  it('부분 취소액을 품목 금액 비율로 나눠 반영한다', () => {
+    const lines = getNetSaleLineItems(createMockSale({ amount: 100000, refunded_amount: 10000, items }))
+    expect(lines.map(l => l.amount)).toEqual([54000, 36000])
+  })
+
+  it('끝전은 마지막 품목에 반영해 합계가 실매출과 같다', () => {
+    const lines = getNetSaleLineItems(createMockSale({ amount: 100000, refunded_amount: 33333, items }))
+    expect(lines.reduce((sum, l) => sum + l.amount, 0)).toBe(66667)
+  })
+
+  it('전액 환불된 매출은 빈 배열을 반환한다', () => {
+    expect(getNetSaleLineItems(createMockSale({ amount: 100000, refunded_amount: 100000, items }))).toEqual([])
+  })
+
+  it('포인트 사용액(품목 합계 - 매출 금액)도 품목 비율로 뺀다', () => {
+    const lines = getNetSaleLineItems(createMockSale({ amount: 95000, points_used: 5000, items }))
+    expect(lines.map(l => l.amount)).toEqual([57000, 38000])
+  })
+})
+
+describe('aggregatePurchaseStats', () => {
+  it('실매출 기준으로 합계를 내고 전액 환불 매출은 제외한다', () => {
+    const result = aggregatePurchaseStats([
+      { amount: 50000, refunded_amount: 10000, date: '2026-01-10' },
+      { amount: 30000, refunded_amount: 30000, date: '2026-01-01' },
+      { amount: 20000, date: '2026-02-01' },
+    ])
+    expect(result).toEqual({ count: 2, total: 60000, firstDate: '2026-01-10', lastDate: '2026-02-01' })
+  })
 })
 
 describe('calculateSalesSummary', () => {
@@ -311,6 +428,48 @@ describe('calculateSalesSummary', () => {
     expect(result.cash).toBe(400)
     expect(result.count).toBe(6)
   })
+
+  it('환불된 금액은 제외하고 집계한다', () => {
+    const sales: Sale[] = [
+      createMockSale({ amount: 50000, refunded_amount: 20000, payment_method: 'card' }),
+      createMockSale({ amount: 10000, payment_method: 'cash' }),
+    ]
+
+    const result = calculateSalesSummary(sales)
+
+    expect(result.total).toBe(40000)
+    expect(result.card).toBe(30000)
+  })
+
+  it('나눠 결제·선금·선불권은 결제방식별로 나눠 집계한다', () => {
+    const sales: Sale[] = [
+      createMockSale({
+        amount: 50000,
+        payment_method: 'card',
+        payments: [
+          { payment_method: 'card', amount: 30000, refunded_amount: 0 },
+          { payment_method: 'cash', amount: 20000, refunded_amount: 0 },
+        ] as Sale['payments'],
+      }),
+      createMockSale({
+        amount: 60000,
+        payment_method: 'transfer',
+        deposit_amount: 10000,
+        voucher_amount: 20000,
+        deposits: [{ amount: 10000, payment_method: 'kakaopay' }],
+        payments: [{ payment_method: 'transfer', amount: 30000, refunded_amount: 0 }] as Sale['payments'],
+      }),
+    ]
+
+    const result = calculateSalesSummary(sales)
+
+    expect(result.total).toBe(110000)
+    expect(result.card).toBe(30000)
+    expect(result.cash).toBe(20000)
+    expect(result.transfer).toBe(30000)
+    expect(result.kakaopay).toBe(10000)
+    expect(result.voucher).toBe(20000)
+  })
 })
 
 describe('formatCurrency', () => {
@@ -345,6 +504,20 @@ describe('formatCurrency', () => {
   })
 })
 
+describe('formatAuditValue', () => {
+  it('빈 값은 대시로 표시한다', () => {
+    expect(formatAuditValue(null)).toBe('—')
+    expect(formatAuditValue(undefined)).toBe('—')
+    expect(formatAuditValue('')).toBe('—')
+  })
+
+  it('불리언, 배열, 숫자를 읽기 쉽게 표시한다', () => {
+    expect(formatAuditValue(true)).toBe('예')
+    expect(formatAuditValue(['a', 'b'])).toBe('2개')
+    expect(formatAuditValue(50000)).toBe('50000')
+  })
+})
+
 describe('formatPhoneNumber', () => {
   it('11자리 전화번호를 포맷한다', () => {
     expect(formatPhoneNumber('01012345678')).toBe('010-1234-5678')
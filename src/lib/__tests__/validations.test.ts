@@ -2,6 +2,9 @@ import { describe, it, expect } from 'vitest'
 import * as fc from 'fast-check'
 import {
   saleSchema,
+  saleItemSchema,
+  saleItemsSchema,
+  salePaymentsSchema,
   customerSchema,
   expenseSchema,
   reservationSchema,
@@ -10,10 +13,15 @@ import {
   phoneSchema,
   colorSchema,
   idsSchema,
+  settlementRowsSchema,
+  settlementConfirmSchema,
+  saleRefundSchema,
+  auditLogFilterSchema,
   searchQuerySchema,
   monthSchema,
   photoTagSchema,
   cardCompanySettingSchema,
+  customerOccasionSchema,
 } from '../validations'
 
 // =============================================
@@ -205,6 +213,55 @@ describe('Sale Schema (매출)', () => {
   })
 })
 
+describe('Sale Payments Schema (나눠 결제)', () => {
+  const card = { payment_method: 'card', amount: 30000, card_company: '신한카드' }
+  const cash = { payment_method: 'cash', amount: 20000 }
+
+  it('여러 결제방식을 통과한다', () => {
+    expect(salePaymentsSchema.safeParse([card, cash]).success).toBe(true)
+    expect(salePaymentsSchema.safeParse([]).success).toBe(true)
+  })
+
+  it('0원 결제, 선불권, 5건 초과를 거부한다', () => {
+    expect(salePaymentsSchema.safeParse([{ ...cash, amount: 0 }]).success).toBe(false)
+    expect(salePaymentsSchema.safeParse([{ ...cash, payment_method: 'voucher' }]).success).toBe(false)
+    expect(salePaymentsSchema.safeParse(Array(6).fill(cash)).success).toBe(false)
+  })
+})
+
+describe('Sale Item Schema (매출 품목)', () => {
+  const validItem = {
+    product_category: 'basket',
+    quantity: 2,
+    unit_price: 30000,
+    discount: 5000,
+  }
+
+  it('유효한 품목을 통과한다', () => {
+    expect(saleItemSchema.safeParse(validItem).success).toBe(true)
+  })
+
+  it('수량 0을 거부한다', () => {
+    expect(saleItemSchema.safeParse({ ...validItem, quantity: 0 }).success).toBe(false)
+  })
+
+  it('음수 할인을 거부한다', () => {
+    expect(saleItemSchema.safeParse({ ...validItem, discount: -1 }).success).toBe(false)
+  })
+
+  it('품목 금액보다 큰 할인을 거부한다', () => {
+    expect(saleItemSchema.safeParse({ ...validItem, discount: 60001 }).success).toBe(false)
+  })
+
+  it('빈 품목 목록을 거부한다', () => {
+    expect(saleItemsSchema.safeParse([]).success).toBe(false)
+  })
+
+  it('50개 초과 품목을 거부한다', () => {
+    expect(saleItemsSchema.safeParse(Array(51).fill(validItem)).success).toBe(false)
+  })
+})
+
 describe('Customer Schema (고객)', () => {
   it('유효한 고객 데이터를 통과한다', () => {
     expect(
@@ -355,6 +412,77 @@ describe('IDs Schema (ID 배열)', () => {
   })
 })
 
+describe('Settlement Schemas (카드 정산 대조)', () => {
+  const validRow = { line: 2, card_company: '신한카드', deposit_date: '2026-01-13', amount: 49000 }
+
+  it('유효한 정산내역 행을 통과한다', () => {
+    expect(settlementRowsSchema.safeParse([validRow]).success).toBe(true)
+    expect(settlementRowsSchema.safeParse([{ ...validRow, sale_date: '2026-01-10' }]).success).toBe(true)
+  })
+
+  it('빈 정산내역을 거부한다', () => {
+    expect(settlementRowsSchema.safeParse([]).success).toBe(false)
+  })
+
+  it('0원 입금액과 잘못된 입금일을 거부한다', () => {
+    expect(settlementRowsSchema.safeParse([{ ...validRow, amount: 0 }]).success).toBe(false)
+    expect(settlementRowsSchema.safeParse([{ ...validRow, deposit_date: '2026.01.13' }]).success).toBe(false)
+  })
+
+  it('입금 확정 항목의 결제 ID는 UUID여야 한다', () => {
+    const entry = { payment_id: '550e8400-e29b-41d4-a716-446655440000', deposited_amount: 49000, deposit_date: '2026-01-13' }
+    expect(settlementConfirmSchema.safeParse([entry]).success).toBe(true)
+    expect(settlementConfirmSchema.safeParse([{ ...entry, payment_id: 'not-a-uuid' }]).success).toBe(false)
+  })
+})
+
+describe('Sale Refund Schema (환불)', () => {
+  const validRefund = { refund_type: 'partial', amount: 10000, reason: '꽃 상태 불량', refund_method: 'card', refund_date: '2026-01-15' }
+
+  it('유효한 환불을 통과한다', () => {
+    expect(saleRefundSchema.safeParse(validRefund).success).toBe(true)
+    expect(saleRefundSchema.safeParse({ ...validRefund, refund_type: 'full', reason: null }).success).toBe(true)
+  })
+
+  it('0원 환불과 알 수 없는 유형을 거부한다', () => {
+    expect(saleRefundSchema.safeParse({ ...validRefund, amount: 0 }).success).toBe(false)
+    expect(saleRefundSchema.safeParse({ ...validRefund, refund_type: 'void' }).success).toBe(false)
+  })
+
+  it('500자를 넘는 사유를 거부한다', () => {
+    expect(saleRefundSchema.safeParse({ ...validRefund, reason: 'a'.repeat(501) }).success).toBe(false)
+  })
+})
+
+describe('Audit Log Filter Schema (변경 이력)', () => {
+  it('빈 필터와 유효한 필터를 통과한다', () => {
+    expect(auditLogFilterSchema.safeParse({}).success).toBe(true)
+    expect(auditLogFilterSchema.safeParse({ entityType: 'sale', from: '2026-01-01', to: '2026-01-31', page: 2 }).success).toBe(true)
+  })
+
+  it('알 수 없는 대상과 잘못된 날짜, 페이지를 거부한다', () => {
+    expect(auditLogFilterSchema.safeParse({ entityType: 'photo' }).success).toBe(false)
+    expect(auditLogFilterSchema.safeParse({ from: '2026/01/01' }).success).toBe(false)
+    expect(auditLogFilterSchema.safeParse({ page: 0 }).success).toBe(false)
+  })
+})
+
+describe('Customer Occasion Schema (고객 기념일)', () => {
+  const validOccasion = { type: 'birthday', month: 5, day: 8, year: null, relationship: '어머니', remind_days_before: 3 }
+
+  it('유효한 기념일을 통과한다 (2월 29일 포함)', () => {
+    expect(customerOccasionSchema.safeParse(validOccasion).success).toBe(true)
+    expect(customerOccasionSchema.safeParse({ ...validOccasion, month: 2, day: 29 }).success).toBe(true)
+  })
+
+  it('없는 날짜를 거부한다', () => {
+    expect(customerOccasionSchema.safeParse({ ...validOccasion, month: 2, day: 30 }).success).toBe(false)
+    expect(customerOccasionSchema.safeParse({ ...validOccasion, month: 2, day: 29, year: 2023 }).success).toBe(false)
+    expect(customerOccasionSchema.safeParse({ ...validOccasion, month: 4, day: 31 }).success).toBe(false)
+    expect(customerOccasionSchema.safeParse({ ...validOccasion, month: 0 }).success).toBe(false)
+  })
+})
+
 describe('Photo Tag Schema', () => {
   it('유효한 태그를 통과한다', () => {
     expect(photoTagSchema.safeParse({ name: '핑크', color: '#ec4899' }).success).toBe(true)
@@ -0,0 +1,84 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { requireRole } from '@/lib/auth-guard';
+import type { AuditEntityType, AuditLog } from '@/types/database';
+import { auditLogFilterSchema, uuidSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+
+const AUDIT_PAGE_SIZE = 50;
+
+export interface AuditLogFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+}
+
+export interface AuditLogPage {
+  logs: AuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// 전체 변경 이력 (최신순, 페이지 단위)
+async function _getAuditLogs(filter: AuditLogFilter = {}): Promise<AuditLogPage> {
+  await requireRole('owner');
+  const parsed = auditLogFilterSchema.safeParse(filter);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  const { entityType, entityId, action, actor, from, to } = parsed.data;
+  const page = parsed.data.page ?? 1;
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('audit_logs')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range((page - 1) * AUDIT_PAGE_SIZE, page * AUDIT_PAGE_SIZE - 1);
+
+  if (entityType) query = query.eq('entity_type', entityType);
+  if (entityId) query = query.eq('entity_id', entityId);
+  if (action) query = query.eq('action', action);
+  if (actor) {
+    // PostgREST 와일드카드 이스케이프 (%, _, \)
+    const escaped = actor.replace(/[%_\\]/g, (ch) => `\\${ch}`);
+    query = query.ilike('actor_email', `%${escaped}%`);
+  }
+  // 날짜 필터는 KST 기준
+  if (from) query = query.gte('created_at', `${from}T00:00:00+09:00`);
+  if (to) query = query.lte('created_at', `${to}T23:59:59.999+09:00`);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+
+  return { logs: (data || []) as AuditLog[], total: count ?? 0, page, pageSize: AUDIT_PAGE_SIZE };
+}
+
+export const getAuditLogs = withErrorLogging('getAuditLogs', _getAuditLogs);
+
+// 레코드 한 건의 변경 이력 (상세 다이얼로그용)
+async function _getRecordAuditLogs(entityType: AuditEntityType, entityId: string): Promise<AuditLog[]> {
+  await requireRole('manager');
+  const idParsed = uuidSchema.safeParse(entityId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select('*')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return (data || []) as AuditLog[];
+}
+
+export const getRecordAuditLogs = withErrorLogging('getRecordAuditLogs', _getRecordAuditLogs);
@@ -0,0 +1,160 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { createClient } from '@/lib/supabase/server';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { reservationSchema, uuidSchema } from '@/lib/validations';
+import { recordAudit } from '@/lib/audit';
+import {
+  generateFeedToken,
+  getReservationIdFromUid,
+  hashFeedToken,
+  icsEventToReservationInput,
+  parseIcsEvents,
+} from '@/lib/ics';
+
+// 휴대폰 캘린더 구독(ICS 피드) 토큰 관리 / ICS 파일에서 예약 가져오기
+
+const MAX_ICS_FILE_LENGTH = 2_000_000;
+const MAX_IMPORT_EVENTS = 500;
+
+export interface CalendarFeedStatus {
+  active: boolean;
+  created_at: string | null;
+  last_used_at: string | null;
+}
+
+export interface IcsImportResult {
+  created: number;
+  skipped: number; // 이미 있는 예약 (같은 UID)
+  failed: { summary: string; date: string; reason: string }[];
+}
+
+// ============ Feed Token ============
+
+async function _getCalendarFeedStatus(): Promise<CalendarFeedStatus> {
+  const user = await requireAuth();
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('created_at, last_used_at')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { active: !!data, created_at: data?.created_at ?? null, last_used_at: data?.last_used_at ?? null };
+}
+
+export const getCalendarFeedStatus = withErrorLogging('getCalendarFeedStatus', _getCalendarFeedStatus);
+
+// 구독 URL 발급 (있으면 재발급 — 이전 URL은 더 이상 동작하지 않음). URL은 이 응답에서만 확인 가능
+async function _issueCalendarFeedToken(): Promise<{ url: string }> {
+  const user = await requireAuth();
+  const token = generateFeedToken();
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert(
+      { user_id: user.id, token_hash: await hashFeedToken(token), last_used_at: null, created_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+  if (error) throw error;
+
+  const origin = (await headers()).get('origin') ?? '';
+  return { url: `${origin}/api/calendar/feed?token=${token}` };
+}
+
+export const issueCalendarFeedToken = withErrorLogging('issueCalendarFeedToken', _issueCalendarFeedToken);
+
+async function _revokeCalendarFeedToken(): Promise<void> {
+  const user = await requireAuth();
+  const supabase = await createClient();
+  const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', user.id);
+  if (error) throw error;
+}
+
+export const revokeCalendarFeedToken = withErrorLogging('revokeCalendarFeedToken', _revokeCalendarFeedToken);
+
+// ============ ICS Import ============
+
+/**
+ * ICS 일정을 예약으로 만든다. 일정마다 reservationSchema로 검증해 실패한 것만 건너뜀.
+ * 같은 UID로 가져온 예약이나 이 앱에서 내보낸 예약(아직 있는 것)은 중복으로 건너뜀
+ */
+async function _importIcsReservations(icsText: string): Promise<IcsImportResult> {
+  const user = await requireRole('manager');
+
+  if (icsText.length > MAX_ICS_FILE_LENGTH) {
+    throw new AppError(ErrorCode.VALIDATION, 'ICS 파일이 너무 큽니다 (최대 2MB)');
+  }
+  const events = parseIcsEvents(icsText);
+  if (events.length === 0) throw new AppError(ErrorCode.VALIDATION, '가져올 일정이 없습니다');
+  if (events.length > MAX_IMPORT_EVENTS) {
+    throw new AppError(ErrorCode.VALIDATION, `한 번에 ${MAX_IMPORT_EVENTS}개 일정까지 가져올 수 있습니다`);
+  }
+
+  const supabase = await createClient();
+  const uids = [...new Set(events.map((e) => e.uid).filter((uid): uid is string => !!uid))];
+  const ownIds = uids.map(getReservationIdFromUid).filter((id): id is string => !!id && uuidSchema.safeParse(id).success);
+
+  const [byUid, byId] = await Promise.all([
+    uids.length > 0
+      ? supabase.from('reservations').select('external_uid').in('external_uid', uids)
+      : Promise.resolve({ data: [], error: null }),
+    ownIds.length > 0
+      ? supabase.from('reservations').select('id').in('id', ownIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (byUid.error) throw byUid.error;
+  if (byId.error) throw byId.error;
+
+  const seen = new Set<string>((byUid.data || []).map((r: { external_uid: string }) => r.external_uid));
+  const existingIds = new Set<string>((byId.data || []).map((r: { id: string }) => r.id));
+
+  const result: IcsImportResult = { created: 0, skipped: 0, failed: [] };
+  const rows: Record<string, unknown>[] = [];
+
+  for (const event of events) {
+    const ownId = getReservationIdFromUid(event.uid);
+    if (event.uid && (seen.has(event.uid) || (ownId && existingIds.has(ownId)))) {
+      result.skipped += 1;
+      continue;
+    }
+
+    const parsed = reservationSchema.safeParse(icsEventToReservationInput(event));
+    if (!parsed.success) {
+      result.failed.push({ summary: event.summary || '(제목 없음)', date: event.date, reason: parsed.error.issues[0]?.message ?? '입력값 오류' });
+      continue;
+    }
+    if (event.uid) seen.add(event.uid);
+    rows.push({
+      date: parsed.data.date,
+      time: parsed.data.time || null,
+      customer_name: parsed.data.customer_name,
+      customer_phone: parsed.data.customer_phone || null,
+      title: parsed.data.title,
+      description: parsed.data.description || null,
+      estimated_amount: parsed.data.estimated_amount || 0,
+      status: parsed.data.status || 'pending',
+      external_uid: event.uid,
+    });
+  }
+
+  if (rows.length > 0) {
+    const { data, error } = await supabase.from('reservations').insert(rows).select();
+    if (error) throw error;
+    result.created = data?.length ?? 0;
+    await recordAudit(
+      supabase,
+      user,
+      (data || []).map((row) => ({ action: 'importIcsReservations', entity_type: 'reservation' as const, entity_id: row.id, after: row })),
+    );
+    revalidatePath('/calendar');
+  }
+
+  return result;
+}
+
+export const importIcsReservations = withErrorLogging('importIcsReservations', _importIcsReservations);
@@ -0,0 +1,72 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { customerGradeRulesSchema } from '@/lib/validations';
+import { getTodayKST } from '@/lib/utils';
+import {
+  applyCustomerGradeChanges,
+  findCustomerGradeChanges,
+  loadCustomerGradeRules,
+  summarizeGradeChanges,
+} from '@/lib/customer-grading';
+import type { CustomerGradeRules } from '@/types/database';
+
+function parseRules(input: CustomerGradeRules): CustomerGradeRules {
+  const parsed = customerGradeRulesSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data;
+}
+
+async function _getCustomerGradeRules(): Promise<CustomerGradeRules> {
+  await requireRole('owner');
+  const supabase = await createClient();
+  return loadCustomerGradeRules(supabase);
+}
+
+export const getCustomerGradeRules = withErrorLogging('getCustomerGradeRules', _getCustomerGradeRules);
+
+async function _updateCustomerGradeRules(input: CustomerGradeRules): Promise<void> {
+  await requireRole('owner');
+  const rules = parseRules(input);
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('customer_grade_rules')
+    .upsert({ id: 1, ...rules, updated_at: new Date().toISOString() });
+  if (error) throw error;
+
+  revalidatePath('/settings');
+}
+
+export const updateCustomerGradeRules = withErrorLogging('updateCustomerGradeRules', _updateCustomerGradeRules);
+
+// 저장 전 미리보기: 입력한 규칙을 지금 적용하면 등급별로 몇 명이 오르고 내리는지
+async function _previewCustomerGradeChanges(input: CustomerGradeRules): Promise<ReturnType<typeof summarizeGradeChanges>> {
+  await requireRole('owner');
+  const rules = parseRules(input);
+  const supabase = await createClient();
+  return summarizeGradeChanges(await findCustomerGradeChanges(supabase, rules, getTodayKST()));
+}
+
+export const previewCustomerGradeChanges = withErrorLogging('previewCustomerGradeChanges', _previewCustomerGradeChanges);
+
+// 저장된 규칙을 바로 적용 (매일 cron을 기다리지 않고)
+async function _applyCustomerGradeRules(): Promise<number> {
+  const user = await requireRole('owner');
+  const supabase = await createClient();
+  const rules = await loadCustomerGradeRules(supabase);
+  if (!rules.enabled) throw new AppError(ErrorCode.VALIDATION, '자동 등급이 꺼져 있습니다');
+
+  const changes = await findCustomerGradeChanges(supabase, rules, getTodayKST());
+  const updated = await applyCustomerGradeChanges(supabase, user, changes);
+
+  revalidatePath('/customers');
+  return updated;
+}
+
+export const applyCustomerGradeRules = withErrorLogging('applyCustomerGradeRules', _applyCustomerGradeRules);
@@ -0,0 +1,127 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/lib/auth-guard';
+import { uuidSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { recordAudit, pairAuditEntries } from '@/lib/audit';
+import type { AuditEntry } from '@/lib/audit';
+import { getCustomerPairKey, mergeCustomerGrade, mergeCustomerNotes, mergePreviousPhones } from '@/lib/customer-duplicates';
+import type { Customer, Reservation, Sale } from '@/types/database';
+
+// 중복 고객 병합 / "다른 사람" 표시
+// 후보 찾기는 고객 목록 화면에서 findCustomerDuplicateGroups로 (고객 페이지가 이미 전체 목록을 가짐)
+
+const MAX_MERGE_CUSTOMERS = 10;
+
+function assertId(id: string) {
+  if (!uuidSchema.safeParse(id).success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+}
+
+// "다른 사람"으로 표시한 쌍 (getCustomerPairKey 형식)
+async function _getCustomerDuplicateExclusions(): Promise<string[]> {
+  await requireRole('manager');
+  const supabase = await createClient();
+  const { data, error } = await supabase.from('customer_duplicate_exclusions').select('customer_a, customer_b');
+  if (error) throw error;
+  return (data || []).map((row) => getCustomerPairKey(row.customer_a, row.customer_b));
+}
+
+export const getCustomerDuplicateExclusions = withErrorLogging('getCustomerDuplicateExclusions', _getCustomerDuplicateExclusions);
+
+async function _excludeCustomerDuplicate(customerIds: string[]): Promise<void> {
+  await requireRole('manager');
+  customerIds.forEach(assertId);
+  const ids = [...new Set(customerIds)].sort();
+  if (ids.length < 2) throw new AppError(ErrorCode.VALIDATION, '고객을 두 명 이상 선택해주세요');
+
+  // 묶음의 모든 쌍을 제외
+  const rows = ids.flatMap((a, i) => ids.slice(i + 1).map((b) => ({ customer_a: a, customer_b: b })));
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('customer_duplicate_exclusions')
+    .upsert(rows, { onConflict: 'customer_a,customer_b', ignoreDuplicates: true });
+  if (error) throw error;
+
+  revalidatePath('/customers');
+}
+
+export const excludeCustomerDuplicate = withErrorLogging('excludeCustomerDuplicate', _excludeCustomerDuplicate);
+
+/**
+ * mergedIds 고객을 survivorId 고객으로 합친다.
+ * 매출(사진 카드는 매출에 딸려 함께 이동)·예약·가져온 예약 초안·기념일·포인트 내역·선불권의 고객 연결을 옮기고,
+ * 메모/등급을 합친 뒤 합쳐진 고객은 삭제 — DB 함수 merge_customers 한 트랜잭션.
+ * 합쳐진 고객의 연락처는 previous_phones에 남겨 그 번호로 다시 찾으면 남길 고객이 나옴.
+ * 옮긴 행과 삭제한 고객은 모두 변경 이력에 남김
+ */
+async function _mergeCustomers(survivorId: string, mergedIds: string[]): Promise<Customer> {
+  const user = await requireRole('manager');
+  assertId(survivorId);
+  mergedIds.forEach(assertId);
+  const ids = [...new Set(mergedIds)].filter((id) => id !== survivorId);
+  if (ids.length === 0) throw new AppError(ErrorCode.VALIDATION, '합칠 고객을 선택해주세요');
+  if (ids.length > MAX_MERGE_CUSTOMERS) {
+    throw new AppError(ErrorCode.VALIDATION, `한 번에 ${MAX_MERGE_CUSTOMERS}명까지 합칠 수 있습니다`);
+  }
+
+  const supabase = await createClient();
+  const { data: customers, error: fetchError } = await supabase
+    .from('customers')
+    .select('*')
+    .in('id', [survivorId, ...ids])
+    .is('deleted_at', null);
+  if (fetchError) throw fetchError;
+
+  const survivor = (customers || []).find((c) => c.id === survivorId) as Customer | undefined;
+  const merged = (customers || []).filter((c) => c.id !== survivorId) as Customer[];
+  if (!survivor || merged.length !== ids.length) {
+    throw new AppError(ErrorCode.NOT_FOUND, '고객을 찾을 수 없습니다 (휴지통에 있는 고객은 합칠 수 없습니다)');
+  }
+
+  // 연결 이동·남길 고객 수정·삭제를 한 트랜잭션으로 (휴지통에 있는 매출도 옮겨야 복원했을 때 남길 고객에 연결됨)
+  const { data, error } = await supabase.rpc('merge_customers', {
+    p_survivor_id: survivorId,
+    p_merged_ids: ids,
+    p_survivor: {
+      note: mergeCustomerNotes(survivor, merged),
+      grade: mergeCustomerGrade([survivor.grade, ...merged.map((c) => c.grade)]),
+      gender: survivor.gender ?? merged.find((c) => c.gender)?.gender ?? null,
+      previous_phones: mergePreviousPhones(survivor, merged),
+    },
+  });
+  if (error) {
+    if (error.code === 'P0002') {
+      throw new AppError(ErrorCode.NOT_FOUND, '고객을 찾을 수 없습니다 (휴지통에 있는 고객은 합칠 수 없습니다)');
+    }
+    throw error;
+  }
+  const result = data as {
+    sales_before: Sale[];
+    sales_after: Sale[];
+    reservations_before: Reservation[];
+    reservations_after: Reservation[];
+    survivor: Customer;
+  };
+
+  const audits: AuditEntry[] = [
+    ...pairAuditEntries('mergeCustomers', 'sale', result.sales_before, result.sales_after),
+    ...pairAuditEntries('mergeCustomers', 'reservation', result.reservations_before, result.reservations_after),
+    { action: 'mergeCustomers', entity_type: 'customer', entity_id: survivorId, before: survivor, after: result.survivor },
+    ...merged.map((customer) => ({
+      action: 'mergeCustomers',
+      entity_type: 'customer' as const,
+      entity_id: customer.id,
+      before: { ...customer, merged_into: survivorId },
+    })),
+  ];
+  await recordAudit(supabase, user, audits);
+
+  revalidatePath('/customers');
+  revalidatePath('/sales');
+  revalidatePath('/calendar');
+  return result.survivor;
+}
+
+export const mergeCustomers = withErrorLogging('mergeCustomers', _mergeCustomers);
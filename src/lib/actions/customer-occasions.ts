@@ -0,0 +1,106 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/lib/auth-guard';
+import { customerOccasionSchema, uuidSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import type { CustomerOccasion } from '@/types/database';
+
+export type CustomerOccasionInput = Omit<CustomerOccasion, 'id' | 'customer_id' | 'created_at' | 'updated_at'>;
+
+function assertId(id: string) {
+  if (!uuidSchema.safeParse(id).success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+}
+
+function parseOccasion(input: CustomerOccasionInput) {
+  const parsed = customerOccasionSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  const trim = (value: string | null | undefined) => value?.trim() || null;
+  return {
+    ...parsed.data,
+    label: parsed.data.type === 'other' ? trim(parsed.data.label) : null,
+    year: parsed.data.year ?? null,
+    recipient_name: trim(parsed.data.recipient_name),
+    relationship: trim(parsed.data.relationship),
+    note: trim(parsed.data.note),
+  };
+}
+
+async function _getCustomerOccasions(customerId: string): Promise<CustomerOccasion[]> {
+  await requireRole('manager');
+  assertId(customerId);
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('customer_occasions')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('month')
+    .order('day');
+  if (error) throw error;
+  return data as CustomerOccasion[];
+}
+
+export const getCustomerOccasions = withErrorLogging('getCustomerOccasions', _getCustomerOccasions);
+
+async function _createCustomerOccasion(customerId: string, input: CustomerOccasionInput): Promise<CustomerOccasion> {
+  await requireRole('manager');
+  assertId(customerId);
+  const occasion = parseOccasion(input);
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('customer_occasions')
+    .insert({ customer_id: customerId, ...occasion })
+    .select()
+    .single();
+  if (error) {
+    if (error.code === '23503') throw new AppError(ErrorCode.NOT_FOUND, '고객을 찾을 수 없습니다');
+    throw error;
+  }
+
+  revalidatePath('/customers');
+  revalidatePath('/');
+  return data as CustomerOccasion;
+}
+
+export const createCustomerOccasion = withErrorLogging('createCustomerOccasion', _createCustomerOccasion);
+
+async function _updateCustomerOccasion(id: string, input: CustomerOccasionInput): Promise<CustomerOccasion> {
+  await requireRole('manager');
+  assertId(id);
+  const occasion = parseOccasion(input);
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('customer_occasions')
+    .update(occasion)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new AppError(ErrorCode.NOT_FOUND, '기념일을 찾을 수 없습니다');
+
+  revalidatePath('/customers');
+  revalidatePath('/');
+  return data as CustomerOccasion;
+}
+
+export const updateCustomerOccasion = withErrorLogging('updateCustomerOccasion', _updateCustomerOccasion);
+
+async function _deleteCustomerOccasion(id: string): Promise<void> {
+  await requireRole('manager');
+  assertId(id);
+
+  const supabase = await createClient();
+  const { error } = await supabase.from('customer_occasions').delete().eq('id', id);
+  if (error) throw error;
+
+  revalidatePath('/customers');
+  revalidatePath('/');
+}
+
+export const deleteCustomerOccasion = withErrorLogging('deleteCustomerOccasion', _deleteCustomerOccasion);
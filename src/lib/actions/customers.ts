@@ -2,17 +2,26 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
-import type { Customer, CustomerGrade } from '@/types/database';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import type { Customer, CustomerGrade, DeletedLinks } from '@/types/database';
 import { customerSchema, uuidSchema, searchQuerySchema, customerGradeSchema } from '@/lib/validations';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { aggregatePurchaseStats } from '@/lib/utils';
+import type { PurchaseStats } from '@/lib/utils';
+import { recordAudit, type AuditActor } from '@/lib/audit';
+import { getRelinkableIds } from '@/lib/trash';
+import { getPhoneVariants, normalizePhoneDigits } from '@/lib/customer-duplicates';
+import { loadPointBalances } from '@/lib/loyalty';
 
 async function _getCustomers() {
+  await requireRole('manager');
   const supabase = await createClient();
 
   // 고객 + 매출 통계를 DB에서 집계 (RPC)
-  const { data: statsData } = await supabase
-    .rpc('get_customer_stats');
+  const [{ data: statsData }, pointBalances] = await Promise.all([
+    supabase.rpc('get_customer_stats'),
+    loadPointBalances(supabase),
+  ]);
 
   // RPC 사용 가능하면 그대로, 아니면 fallback
   if (statsData) {
@@ -29,6 +38,7 @@ async function _getCustomers() {
     const { data: customers, error } = await supabase
       .from('customers')
       .select('*')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
@@ -42,6 +52,7 @@ async function _getCustomers() {
         total_purchase_amount: stats?.total || 0,
         first_purchase_date: stats?.firstDate || null,
         last_purchase_date: stats?.lastDate || null,
+        point_balance: pointBalances.get(customer.id) || 0,
       };
     });
 
@@ -53,6 +64,7 @@ async function _getCustomers() {
   const { data: customers, error } = await supabase
     .from('customers')
     .select('*')
+    .is('deleted_at', null)
     .order('created_at', { ascending: false });
 
   if (error) throw error;
@@ -61,21 +73,21 @@ async function _getCustomers() {
   const customerIds = customers.map(c => c.id);
   const { data: salesStats } = await supabase
     .from('sales')
-    .select('customer_id, amount, date')
-    .in('customer_id', customerIds);
-
-  const statsMap = new Map<string, { count: number; total: number; firstDate: string | null; lastDate: string | null }>();
-  if (salesStats) {
-    for (const sale of salesStats) {
-      if (!sale.customer_id) continue;
-      const existing = statsMap.get(sale.customer_id) || { count: 0, total: 0, firstDate: null, lastDate: null };
-      existing.count += 1;
-      existing.total += sale.amount;
-      if (!existing.firstDate || sale.date < existing.firstDate) existing.firstDate = sale.date;
-      if (!existing.lastDate || sale.date > existing.lastDate) existing.lastDate = sale.date;
-      statsMap.set(sale.customer_id, existing);
-    }
+    .select('customer_id, amount, refunded_amount, date')
+    .in('customer_id', customerIds)
+    .is('deleted_at', null);
+
+  // 고객별로 묶은 뒤 환불 반영 실매출로 집계
+  const salesByCustomer = new Map<string, { amount: number; refunded_amount: number | null; date: string }[]>();
+  for (const sale of salesStats || []) {
+    if (!sale.customer_id) continue;
+    const list = salesByCustomer.get(sale.customer_id) || [];
+    list.push(sale);
+    salesByCustomer.set(sale.customer_id, list);
   }
+  const statsMap = new Map<string, PurchaseStats>(
+    Array.from(salesByCustomer.entries()).map(([customerId, list]) => [customerId, aggregatePurchaseStats(list)])
+  );
 
   const customersWithStats = customers.map(customer => {
     const stats = statsMap.get(customer.id);
@@ -85,6 +97,7 @@ async function _getCustomers() {
       total_purchase_amount: stats?.total || 0,
       first_purchase_date: stats?.firstDate || null,
       last_purchase_date: stats?.lastDate || null,
+      point_balance: pointBalances.get(customer.id) || 0,
     };
   });
 
@@ -95,52 +108,29 @@ async function _getCustomers() {
 export const getCustomers = withErrorLogging('getCustomers', _getCustomers);
 
 async function _getCustomerById(id: string) {
+  await requireRole('manager');
   const supabase = await createClient();
 
-  // 고객 정보 + 매출 통계를 병렬로 조회
-  const [customerResult, statsResult] = await Promise.all([
+  // 고객 정보 + 매출 행을 병렬로 조회 (환불 반영을 위해 행 단위 집계)
+  const [customerResult, salesResult] = await Promise.all([
     supabase.from('customers').select('*').eq('id', id).single(),
     supabase
       .from('sales')
-      .select('amount.sum(), amount.count(), date.min(), date.max()')
+      .select('amount, refunded_amount, date')
       .eq('customer_id', id)
-      .single(),
+      .is('deleted_at', null),
   ]);
 
   if (customerResult.error) throw customerResult.error;
 
-  // Supabase aggregate가 지원되지 않을 수 있으므로 fallback
-  const statsData = statsResult.data as Record<string, unknown> | null;
-  let count = 0, total = 0, firstDate: string | null = null, lastDate: string | null = null;
-
-  if (statsData && typeof statsData.count === 'number') {
-    count = statsData.count;
-    total = (statsData.sum as number) || 0;
-    firstDate = (statsData.min as string) || null;
-    lastDate = (statsData.max as string) || null;
-  } else {
-    // Fallback: 개별 행 조회 후 집계
-    const { data: sales } = await supabase
-      .from('sales')
-      .select('amount, date')
-      .eq('customer_id', id);
-
-    if (sales && sales.length > 0) {
-      for (const sale of sales) {
-        count += 1;
-        total += sale.amount;
-        if (!firstDate || sale.date < firstDate) firstDate = sale.date;
-        if (!lastDate || sale.date > lastDate) lastDate = sale.date;
-      }
-    }
-  }
+  const stats = aggregatePurchaseStats(salesResult.data || []);
 
   return {
     ...customerResult.data,
-    total_purchase_count: count,
-    total_purchase_amount: total,
-    first_purchase_date: firstDate,
-    last_purchase_date: lastDate,
+    total_purchase_count: stats.count,
+    total_purchase_amount: stats.total,
+    first_purchase_date: stats.firstDate,
+    last_purchase_date: stats.lastDate,
   } as Customer;
 }
 
@@ -152,7 +142,7 @@ function parseGender(formData: FormData): 'male' | 'female' | null {
 }
 
 async function _createCustomer(formData: FormData) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const supabase = await createClient();
 
   const parsed = customerSchema.safeParse({
@@ -166,6 +156,17 @@ async function _createCustomer(formData: FormData) {
     throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
   }
 
+  // 휴지통에 같은 연락처가 있으면 새로 만들지 않고 복원하도록 안내 (phone unique)
+  const { data: trashed } = await supabase
+    .from('customers')
+    .select('id')
+    .eq('phone', parsed.data.phone)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+  if (trashed) {
+    throw new AppError(ErrorCode.DUPLICATE, '휴지통에 같은 연락처의 고객이 있습니다. 휴지통에서 복원해주세요');
+  }
+
   const customer = {
     name: parsed.data.name,
     phone: parsed.data.phone,
@@ -176,6 +177,8 @@ async function _createCustomer(formData: FormData) {
 
   const { data, error } = await supabase.from('customers').insert(customer).select().single();
   if (error) throw error;
+
+  await recordAudit(supabase, user, { action: 'createCustomer', entity_type: 'customer', entity_id: data.id, after: data });
   
   revalidatePath('/customers');
   return data;
@@ -184,7 +187,7 @@ async function _createCustomer(formData: FormData) {
 export const createCustomer = withErrorLogging('createCustomer', _createCustomer);
 
 async function _updateCustomer(id: string, formData: FormData) {
-  await requireAuth();
+  const user = await requireRole('manager');
 
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
@@ -201,9 +204,14 @@ async function _updateCustomer(id: string, formData: FormData) {
   }
 
   const supabase = await createClient();
-  const { error } = await supabase.from('customers').update(parsed.data).eq('id', id);
+  const { data: before } = await supabase.from('customers').select('*').eq('id', id).maybeSingle();
+  const { data: updated, error } = await supabase.from('customers').update(parsed.data).eq('id', id).select().maybeSingle();
   if (error) throw error;
 
+  if (updated) {
+    await recordAudit(supabase, user, { action: 'updateCustomer', entity_type: 'customer', entity_id: id, before, after: updated });
+  }
+
   revalidatePath('/customers');
   revalidatePath(`/customers/${id}`);
 }
@@ -211,7 +219,7 @@ async function _updateCustomer(id: string, formData: FormData) {
 export const updateCustomer = withErrorLogging('updateCustomer', _updateCustomer);
 
 async function _updateCustomerGrade(id: string, grade: CustomerGrade) {
-  await requireAuth();
+  const user = await requireRole('manager');
 
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
@@ -219,8 +227,13 @@ async function _updateCustomerGrade(id: string, grade: CustomerGrade) {
   if (!gradeParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 등급입니다');
 
   const supabase = await createClient();
-  const { error } = await supabase.from('customers').update({ grade: gradeParsed.data }).eq('id', id);
+  const { data: before } = await supabase.from('customers').select('*').eq('id', id).maybeSingle();
+  const { data: updated, error } = await supabase.from('customers').update({ grade: gradeParsed.data }).eq('id', id).select().maybeSingle();
   if (error) throw error;
+
+  if (updated) {
+    await recordAudit(supabase, user, { action: 'updateCustomerGrade', entity_type: 'customer', entity_id: id, before, after: updated });
+  }
   
   revalidatePath('/customers');
   revalidatePath(`/customers/${id}`);
@@ -228,22 +241,124 @@ async function _updateCustomerGrade(id: string, grade: CustomerGrade) {
 
 export const updateCustomerGrade = withErrorLogging('updateCustomerGrade', _updateCustomerGrade);
 
+// 휴지통으로 이동. 매출과의 연결은 끊고 deleted_links에 남겨 복원 시 다시 연결
 async function _deleteCustomer(id: string) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
   const supabase = await createClient();
-  const { error } = await supabase.from('customers').delete().eq('id', id);
+
+  const { data: sales, error: salesError } = await supabase.from('sales').select('id').eq('customer_id', id);
+  if (salesError) throw salesError;
+  const saleIds = (sales || []).map(sale => sale.id);
+
+  const { data: deleted, error } = await supabase
+    .from('customers')
+    .update({ deleted_at: new Date().toISOString(), deleted_links: { sale_ids: saleIds } })
+    .eq('id', id)
+    .is('deleted_at', null)
+    .select()
+    .maybeSingle();
   if (error) throw error;
 
+  if (deleted) {
+    if (saleIds.length > 0) {
+      const { error: unlinkError } = await supabase.from('sales').update({ customer_id: null }).in('id', saleIds);
+      if (unlinkError) throw unlinkError;
+    }
+    await recordAudit(supabase, user, { action: 'deleteCustomer', entity_type: 'customer', entity_id: id, before: deleted });
+  }
+
   revalidatePath('/customers');
+  revalidatePath('/sales');
+  revalidatePath('/trash');
 }
 
 export const deleteCustomer = withErrorLogging('deleteCustomer', _deleteCustomer);
 
+// 휴지통에서 복원. 삭제 때 끊은 매출 중 다른 고객에 연결되지 않은 것만 다시 연결
+async function _restoreCustomer(id: string): Promise<Customer> {
+  const user = await requireRole('manager');
+  const idParsed = uuidSchema.safeParse(id);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  return restoreTrashedCustomer(await createClient(), user, id);
+}
+
+export const restoreCustomer = withErrorLogging('restoreCustomer', _restoreCustomer);
+
+/**
+ * 휴지통 고객 복원 (권한 확인은 호출하는 쪽에서)
+ * findOrCreateCustomer가 휴지통 고객의 연락처로 매출·예약을 등록할 때는 직원도 복원해서 연결
+ */
+async function restoreTrashedCustomer(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  user: AuditActor,
+  id: string,
+): Promise<Customer> {
+  const { data: before, error: fetchError } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!before) throw new AppError(ErrorCode.NOT_FOUND, '휴지통에서 고객을 찾을 수 없습니다');
+
+  const linkedIds = (before.deleted_links as DeletedLinks | null)?.sale_ids || [];
+  if (linkedIds.length > 0) {
+    const { data: sales, error: salesError } = await supabase
+      .from('sales')
+      .select('id, customer_id')
+      .in('id', linkedIds);
+    if (salesError) throw salesError;
+
+    const relinkIds = getRelinkableIds(linkedIds, (sales || []).map(sale => ({ id: sale.id, linked_id: sale.customer_id })));
+    if (relinkIds.length > 0) {
+      const { error: relinkError } = await supabase.from('sales').update({ customer_id: id }).in('id', relinkIds);
+      if (relinkError) throw relinkError;
+    }
+  }
+
+  const { data: restored, error } = await supabase
+    .from('customers')
+    .update({ deleted_at: null, deleted_links: null })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  await recordAudit(supabase, user, { action: 'restoreCustomer', entity_type: 'customer', entity_id: id, before, after: restored });
+
+  revalidatePath('/customers');
+  revalidatePath('/sales');
+  revalidatePath('/trash');
+  return restored as Customer;
+}
+
 async function _findOrCreateCustomer(name: string, phone: string) {
   const supabase = await createClient();
 
+  // 하이픈 유무 등 표기만 다른 같은 번호가 있으면 그 고객을 씀
+  const { data: sameNumber } = await supabase
+    .from('customers')
+    .select('*')
+    .in('phone', getPhoneVariants(phone))
+    .limit(1)
+    .maybeSingle();
+  if (sameNumber?.deleted_at) return restoreTrashedCustomer(supabase, await requireAuth(), sameNumber.id);
+  if (sameNumber) return sameNumber as Customer;
+
+  // 병합으로 합쳐진 고객의 번호면 남긴 고객을 씀
+  const { data: mergedInto, error: mergedError } = await supabase
+    .from('customers')
+    .select('*')
+    .contains('previous_phones', [normalizePhoneDigits(phone)])
+    .is('deleted_at', null)
+    .limit(1)
+    .maybeSingle();
+  if (mergedError) throw mergedError;
+  if (mergedInto) return mergedInto as Customer;
+
   // upsert로 레이스 컨디션 방지 (phone이 unique 제약)
   const { data, error } = await supabase
     .from('customers')
@@ -261,22 +376,27 @@ async function _findOrCreateCustomer(name: string, phone: string) {
       .select('*')
       .eq('phone', phone)
       .single();
+    // 휴지통에 있는 고객이면 복원해서 연결 (연락처 재사용)
+    if (existing?.deleted_at) return restoreTrashedCustomer(supabase, await requireAuth(), existing.id);
     if (existing) return existing as Customer;
     throw error;
   }
 
+  await recordAudit(supabase, await requireAuth(), { action: 'findOrCreateCustomer', entity_type: 'customer', entity_id: data.id, after: data });
   return data as Customer;
 }
 
 export const findOrCreateCustomer = withErrorLogging('findOrCreateCustomer', _findOrCreateCustomer);
 
 async function _getCustomerSales(customerId: string) {
+  await requireRole('manager');
   const supabase = await createClient();
   
   const { data, error } = await supabase
     .from('sales')
     .select('*')
     .eq('customer_id', customerId)
+    .is('deleted_at', null)
     .order('date', { ascending: false });
   
   if (error) throw error;
@@ -298,53 +418,41 @@ async function _searchCustomersByName(query: string) {
     .from('customers')
     .select('id, name, phone, grade')
     .ilike('name', `%${escaped}%`)
+    .is('deleted_at', null)
     .order('created_at', { ascending: false })
     .limit(10);
 
   if (error) throw error;
-  return data as Pick<Customer, 'id' | 'name' | 'phone' | 'grade'>[];
+  if (!data || data.length === 0) return [];
+
+  // 매출 등록 때 바로 보이도록 포인트 잔액 포함
+  const pointBalances = await loadPointBalances(supabase, data.map((c) => c.id));
+  return data.map((c) => ({ ...c, point_balance: pointBalances.get(c.id) || 0 })) as
+    (Pick<Customer, 'id' | 'name' | 'phone' | 'grade'> & { point_balance: number })[];
 }
 
 export const searchCustomersByName = withErrorLogging('searchCustomersByName', _searchCustomersByName);
 
-// 연락처 중복 체크
+// 연락처 중복 체크 (휴지통 고객 포함 — deleted_at으로 구분)
+export type PhoneDuplicate = Pick<Customer, 'id' | 'name' | 'phone' | 'deleted_at'>;
+
 async function _checkPhoneDuplicate(phone: string, excludeId?: string) {
   if (!phone || phone.length < 10) return null;
 
   const supabase = await createClient();
 
-  // 하이픈 제거해서 비교
-  const cleanPhone = phone.replace(/[^0-9]/g, '');
-
-  // 포맷된 전화번호로 먼저 조회
+  // 하이픈 유무 등 표기가 달라도 같은 번호로 봄 (010-1234-5678 / 01012345678)
   let query = supabase
     .from('customers')
-    .select('id, name, phone')
-    .eq('phone', phone);
+    .select('id, name, phone, deleted_at')
+    .in('phone', getPhoneVariants(phone));
 
   if (excludeId) {
     query = query.neq('id', excludeId);
   }
 
   const { data } = await query.limit(1).maybeSingle();
-  if (data) return data as { id: string; name: string; phone: string };
-
-  // 하이픈 없는 번호로 재조회
-  if (cleanPhone !== phone) {
-    let query2 = supabase
-      .from('customers')
-      .select('id, name, phone')
-      .eq('phone', cleanPhone);
-
-    if (excludeId) {
-      query2 = query2.neq('id', excludeId);
-    }
-
-    const { data: data2 } = await query2.limit(1).maybeSingle();
-    if (data2) return data2 as { id: string; name: string; phone: string };
-  }
-
-  return null;
+  return (data as PhoneDuplicate | null) ?? null;
 }
 
 export const checkPhoneDuplicate = withErrorLogging('checkPhoneDuplicate', _checkPhoneDuplicate);
@@ -1,17 +1,31 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import type { Sale, Reservation, PaymentMethod, ReservationChannel, ExpenseCategory } from '@/types/database';
+import { requireRole } from '@/lib/auth-guard';
+import type { Sale, Reservation, PaymentMethod, ReservationChannel, ExpenseCategory, CustomerOccasion } from '@/types/database';
 import type {
   CategoryStat,
   PaymentMethodStat,
   ChannelStat,
   CustomerStat,
   ExpenseCategoryStat,
+  WasteStat,
+  CategoryMarginStat,
 } from './statistics';
 import { withErrorLogging } from '@/lib/errors';
-import { getMonthDateRange } from '@/lib/utils';
+import { getMonthDateRange, getNetAmount, getNetSaleLineItems, getTodayKST } from '@/lib/utils';
 import { PAYMENT_LABELS, CHANNEL_LABELS, EXPENSE_LABELS } from '@/lib/constants';
+import { summarizeWaste, type WasteMovement } from '@/lib/inventory';
+import { getGrossMargin, summarizeCategoryMargins, type MarginSale } from '@/lib/recipes';
+import { allocateSalePayments } from '@/lib/reservation-deposits';
+import { getPaymentNetAmount } from '@/lib/sale-payments';
+import { getUpcomingOccasions, type UpcomingOccasion } from '@/lib/occasions';
+import { loadGiftVouchers, summarizeGiftVoucherFlow, type GiftVoucherFlow } from '@/lib/gift-vouchers';
+
+// 대시보드에 보여줄 기념일 범위 (오늘부터 N일)
+const UPCOMING_OCCASION_DAYS = 14;
+
+export type DashboardOccasion = UpcomingOccasion<CustomerOccasion & { customer: { id: string; name: string } }>;
 
 export interface DashboardSummary {
   totalAmount: number;
@@ -20,60 +34,40 @@ export interface DashboardSummary {
   transferAmount: number;
   naverpayAmount: number;
   kakaopayAmount: number;
+  voucherAmount: number; // 선불권으로 결제한 매출 (받은 돈은 선불권 판매 때)
   pendingCount: number;
   pendingAmount: number;
+  cogsAmount: number; // 추정 원가 (레시피 없는 매출은 0원)
+  grossMargin: number;
 }
 
+// 요약 계산용 매출 컬럼 (잔금은 결제별로, 선금은 받은 결제방식별로, 선불권 사용액은 선불권으로 나눠 집계)
+const SUMMARY_SALE_SELECT = 'amount, refunded_amount, payment_method, cogs, deposit_amount, voucher_amount, deposits:reservation_deposits(amount, payment_method), payments:sale_payments(payment_method, amount, refunded_amount, deposit_status)';
+
+type SummarySale = {
+  amount: number;
+  refunded_amount?: number | null;
+  payment_method: string;
+  cogs?: number | null;
+  deposit_amount?: number | null;
+  voucher_amount?: number | null;
+  deposits?: { amount: number; payment_method: string }[] | null;
+  payments?: { payment_method: string; amount: number; refunded_amount: number; deposit_status: string }[] | null;
+};
+
 async function _getTodaySummary(): Promise<DashboardSummary> {
   const supabase = await createClient();
   const today = new Date().toISOString().split('T')[0];
 
   const { data: sales, error } = await supabase
     .from('sales')
-    .select('amount, payment_method, deposit_status')
+    .select(SUMMARY_SALE_SELECT)
+    .is('deleted_at', null)
     .eq('date', today);
 
   if (error) throw error;
 
-  const summary: DashboardSummary = {
-    totalAmount: 0,
-    cardAmount: 0,
-    cashAmount: 0,
-    transferAmount: 0,
-    naverpayAmount: 0,
-    kakaopayAmount: 0,
-    pendingCount: 0,
-    pendingAmount: 0,
-  };
-
-  (sales || []).forEach((sale) => {
-    summary.totalAmount += sale.amount;
-
-    switch (sale.payment_method) {
-      case 'card':
-        summary.cardAmount += sale.amount;
-        break;
-      case 'cash':
-        summary.cashAmount += sale.amount;
-        break;
-      case 'transfer':
-        summary.transferAmount += sale.amount;
-        break;
-      case 'naverpay':
-        summary.naverpayAmount += sale.amount;
-        break;
-      case 'kakaopay':
-        summary.kakaopayAmount += sale.amount;
-        break;
-    }
-
-    if (sale.deposit_status === 'pending') {
-      summary.pendingCount += 1;
-      summary.pendingAmount += sale.amount;
-    }
-  });
-
-  return summary;
+  return buildSummary(sales || []);
 }
 
 export const getTodaySummary = withErrorLogging('getTodaySummary', _getTodaySummary);
@@ -85,6 +79,7 @@ async function _getRecentSales(limit: number = 10): Promise<Sale[]> {
   const { data, error } = await supabase
     .from('sales')
     .select('*')
+    .is('deleted_at', null)
     .order('date', { ascending: false })
     .order('created_at', { ascending: false })
     .limit(limit);
@@ -96,6 +91,7 @@ async function _getRecentSales(limit: number = 10): Promise<Sale[]> {
 export const getRecentSales = withErrorLogging('getRecentSales', _getRecentSales);
 
 async function _getMonthSummary(month?: string): Promise<DashboardSummary> {
+  await requireRole('manager');
   const supabase = await createClient();
 
   let startDate: string;
@@ -113,7 +109,8 @@ async function _getMonthSummary(month?: string): Promise<DashboardSummary> {
 
   const { data: sales, error } = await supabase
     .from('sales')
-    .select('amount, payment_method, deposit_status')
+    .select(SUMMARY_SALE_SELECT)
+    .is('deleted_at', null)
     .gte('date', startDate)
     .lte('date', endDate);
 
@@ -126,26 +123,35 @@ export const getMonthSummary = withErrorLogging('getMonthSummary', _getMonthSumm
 
 // --- 통합 액션 (대시보드 성능 최적화) ---
 
-function buildSummary(sales: { amount: number; payment_method: string; deposit_status: string }[]): DashboardSummary {
+// 금액은 모두 환불 반영 실매출 기준 (예약 선금은 매출일에 받은 방식으로 반영)
+function buildSummary(sales: SummarySale[]): DashboardSummary {
   const summary: DashboardSummary = {
     totalAmount: 0, cardAmount: 0, cashAmount: 0,
-    transferAmount: 0, naverpayAmount: 0, kakaopayAmount: 0,
+    transferAmount: 0, naverpayAmount: 0, kakaopayAmount: 0, voucherAmount: 0,
     pendingCount: 0, pendingAmount: 0,
+    cogsAmount: 0, grossMargin: 0,
   };
 
   sales.forEach((sale) => {
-    summary.totalAmount += sale.amount;
-    switch (sale.payment_method) {
-      case 'card': summary.cardAmount += sale.amount; break;
-      case 'cash': summary.cashAmount += sale.amount; break;
-      case 'transfer': summary.transferAmount += sale.amount; break;
-      case 'naverpay': summary.naverpayAmount += sale.amount; break;
-      case 'kakaopay': summary.kakaopayAmount += sale.amount; break;
-    }
-    if (sale.deposit_status === 'pending') {
+    const amount = getNetAmount(sale);
+    summary.totalAmount += amount;
+    summary.cogsAmount += sale.cogs || 0;
+    summary.grossMargin += getGrossMargin(amount, sale.cogs);
+    allocateSalePayments(sale).forEach((payment) => {
+      switch (payment.payment_method) {
+        case 'card': summary.cardAmount += payment.amount; break;
+        case 'cash': summary.cashAmount += payment.amount; break;
+        case 'transfer': summary.transferAmount += payment.amount; break;
+        case 'naverpay': summary.naverpayAmount += payment.amount; break;
+        case 'kakaopay': summary.kakaopayAmount += payment.amount; break;
+        case 'voucher': summary.voucherAmount += payment.amount; break;
+      }
+    });
+    // 입금 대기는 카드 결제 단위
+    (sale.payments || []).filter((p) => p.deposit_status === 'pending').forEach((payment) => {
       summary.pendingCount += 1;
-      summary.pendingAmount += sale.amount;
-    }
+      summary.pendingAmount += getPaymentNetAmount(payment);
+    });
   });
 
   return summary;
@@ -158,30 +164,38 @@ export interface DashboardTodayData {
   reservations: Reservation[];
   recentSales: Sale[];
   saleCategories: { value: string; label: string }[];
+  upcomingOccasions: DashboardOccasion[];
 }
 
-/** 오늘 대시보드 데이터를 단일 Server Action으로 조회 (4개 병렬 DB 쿼리) */
+/** 오늘 대시보드 데이터를 단일 Server Action으로 조회 (5개 병렬 DB 쿼리) */
 async function _getDashboardTodayData(): Promise<DashboardTodayData> {
   const supabase = await createClient();
   const today = new Date().toISOString().split('T')[0];
 
-  const [salesRes, reservationsRes, recentRes, categoriesRes] = await Promise.all([
-    supabase.from('sales').select('amount, payment_method, deposit_status').eq('date', today),
+  const [salesRes, reservationsRes, recentRes, categoriesRes, occasionsRes] = await Promise.all([
+    supabase.from('sales').select(SUMMARY_SALE_SELECT).eq('date', today).is('deleted_at', null),
     supabase.from('reservations').select('*').eq('date', today).order('time', { nullsFirst: false }),
-    supabase.from('sales').select('*').order('date', { ascending: false }).order('created_at', { ascending: false }).limit(5),
+    supabase.from('sales').select('*, payments:sale_payments(*)').is('deleted_at', null).order('date', { ascending: false }).order('created_at', { ascending: false }).limit(5),
     supabase.from('sale_categories').select('value, label').order('sort_order', { ascending: true }),
+    supabase.from('customer_occasions').select('*, customer:customers!inner(id, name, deleted_at)').is('customer.deleted_at', null),
   ]);
 
   if (salesRes.error) throw salesRes.error;
   if (reservationsRes.error) throw reservationsRes.error;
   if (recentRes.error) throw recentRes.error;
   if (categoriesRes.error) throw categoriesRes.error;
+  if (occasionsRes.error) throw occasionsRes.error;
 
   return {
     summary: buildSummary(salesRes.data || []),
     reservations: (reservationsRes.data || []) as Reservation[],
     recentSales: (recentRes.data || []) as Sale[],
     saleCategories: categoriesRes.data || [],
+    upcomingOccasions: getUpcomingOccasions(
+      (occasionsRes.data || []) as DashboardOccasion[],
+      getTodayKST(),
+      UPCOMING_OCCASION_DAYS,
+    ),
   };
 }
 
@@ -197,24 +211,35 @@ export interface DashboardMonthData {
   channelStats: ChannelStat[];
   customerStats: CustomerStat;
   expenseStats: ExpenseCategoryStat[];
+  wasteTotal: number;
+  wasteStats: WasteStat[];
+  marginStats: CategoryMarginStat[];
+  voucherFlow: GiftVoucherFlow;
 }
 
-/** 월별 대시보드 데이터를 단일 Server Action으로 조회 (2~3개 DB 쿼리) */
+/** 월별 대시보드 데이터를 단일 Server Action으로 조회 (4~5개 DB 쿼리) */
 async function _getDashboardMonthData(month?: string): Promise<DashboardMonthData> {
+  await requireRole('manager');
   const supabase = await createClient();
   const { startDate, endDate } = getMonthDateRange(month);
 
-  const [salesRes, expensesRes] = await Promise.all([
+  const [salesRes, expensesRes, wasteRes, vouchers] = await Promise.all([
     supabase.from('sales')
-      .select('amount, payment_method, deposit_status, product_category, reservation_channel, customer_phone')
-      .gte('date', startDate).lte('date', endDate),
+      .select(`${SUMMARY_SALE_SELECT}, product_category, reservation_channel, customer_phone, items:sale_items(product_category, quantity, unit_price, discount, amount, cogs)`)
+      .gte('date', startDate).lte('date', endDate).is('deleted_at', null),
     supabase.from('expenses')
       .select('category, total_amount')
+      .gte('date', startDate).lte('date', endDate).is('deleted_at', null),
+    supabase.from('inventory_movements')
+      .select('*, item:inventory_items(name)')
+      .eq('type', 'waste')
       .gte('date', startDate).lte('date', endDate),
+    loadGiftVouchers(supabase),
   ]);
 
   if (salesRes.error) throw salesRes.error;
   if (expensesRes.error) throw expensesRes.error;
+  if (wasteRes.error) throw wasteRes.error;
 
   const sales = salesRes.data || [];
   const expenses = expensesRes.data || [];
@@ -222,14 +247,15 @@ async function _getDashboardMonthData(month?: string): Promise<DashboardMonthDat
   const summary = buildSummary(sales);
   const expenseTotal = expenses.reduce((sum, e) => sum + e.total_amount, 0);
 
-  // 카테고리별 매출
+  // 카테고리별 매출 (품목 단위)
   const catMap = new Map<string, { count: number; amount: number }>();
   let catTotal = 0;
   sales.forEach((s) => {
-    const cat = s.product_category || '기타';
-    const ex = catMap.get(cat) || { count: 0, amount: 0 };
-    ex.count += 1; ex.amount += s.amount;
-    catMap.set(cat, ex); catTotal += s.amount;
+    getNetSaleLineItems(s).forEach((item) => {
+      const ex = catMap.get(item.product_category) || { count: 0, amount: 0 };
+      ex.count += item.quantity; ex.amount += item.amount;
+      catMap.set(item.product_category, ex); catTotal += item.amount;
+    });
   });
   const categoryStats: CategoryStat[] = Array.from(catMap.entries())
     .map(([name, st]) => ({ name, count: st.count, amount: st.amount, percentage: catTotal > 0 ? Math.round((st.amount / catTotal) * 100) : 0 }))
@@ -239,10 +265,11 @@ async function _getDashboardMonthData(month?: string): Promise<DashboardMonthDat
   const payMap = new Map<string, { count: number; amount: number }>();
   let payTotal = 0;
   sales.forEach((s) => {
-    const pm = s.payment_method;
-    const ex = payMap.get(pm) || { count: 0, amount: 0 };
-    ex.count += 1; ex.amount += s.amount;
-    payMap.set(pm, ex); payTotal += s.amount;
+    allocateSalePayments(s).forEach(({ payment_method: pm, amount }) => {
+      const ex = payMap.get(pm) || { count: 0, amount: 0 };
+      ex.count += 1; ex.amount += amount;
+      payMap.set(pm, ex); payTotal += amount;
+    });
   });
   const paymentStats: PaymentMethodStat[] = Array.from(payMap.entries())
     .map(([method, st]) => ({ method: method as PaymentMethod, label: PAYMENT_LABELS[method] || method, count: st.count, amount: st.amount, percentage: payTotal > 0 ? Math.round((st.amount / payTotal) * 100) : 0 }))
@@ -252,10 +279,12 @@ async function _getDashboardMonthData(month?: string): Promise<DashboardMonthDat
   const chanMap = new Map<string, { count: number; amount: number }>();
   let chanTotal = 0;
   sales.forEach((s) => {
+    const amount = getNetAmount(s);
+    if (amount === 0) return;
     const ch = s.reservation_channel || 'other';
     const ex = chanMap.get(ch) || { count: 0, amount: 0 };
-    ex.count += 1; ex.amount += s.amount;
-    chanMap.set(ch, ex); chanTotal += s.amount;
+    ex.count += 1; ex.amount += amount;
+    chanMap.set(ch, ex); chanTotal += amount;
   });
   const channelStats: ChannelStat[] = Array.from(chanMap.entries())
     .map(([channel, st]) => ({ channel: channel as ReservationChannel, label: CHANNEL_LABELS[channel] || channel, count: st.count, amount: st.amount, percentage: chanTotal > 0 ? Math.round((st.amount / chanTotal) * 100) : 0 }))
@@ -272,6 +301,20 @@ async function _getDashboardMonthData(month?: string): Promise<DashboardMonthDat
     .map(([category, amount]) => ({ category: category as ExpenseCategory, label: EXPENSE_LABELS[category] || category, amount, percentage: expCatTotal > 0 ? Math.round((amount / expCatTotal) * 100) : 0 }))
     .sort((a, b) => b.amount - a.amount);
 
+  // 재고 폐기 손실
+  const waste = summarizeWaste((wasteRes.data || []) as WasteMovement[]);
+  const wasteTotal = waste.reduce((sum, w) => sum + w.cost, 0);
+  const wasteStats: WasteStat[] = waste.map((w) => ({
+    ...w,
+    percentage: wasteTotal > 0 ? Math.round((w.cost / wasteTotal) * 100) : 0,
+  }));
+
+  // 카테고리별 총이익 (레시피 원가가 있는 품목만)
+  const marginStats: CategoryMarginStat[] = summarizeCategoryMargins(sales as MarginSale[]);
+
+  // 선불권 판매(받은 돈)와 사용(매출)
+  const voucherFlow = summarizeGiftVoucherFlow(vouchers, sales, { startDate, endDate }, getTodayKST());
+
   // 고객 통계 (N+1 제거: 단일 쿼리)
   const uniquePhones = [...new Set(
     sales.filter((s) => s.customer_phone).map((s) => s.customer_phone as string)
@@ -283,6 +326,7 @@ async function _getDashboardMonthData(month?: string): Promise<DashboardMonthDat
     const { data: previousSales } = await supabase
       .from('sales')
       .select('customer_phone')
+      .is('deleted_at', null)
       .in('customer_phone', uniquePhones)
       .lt('date', startDate);
 
@@ -294,7 +338,7 @@ async function _getDashboardMonthData(month?: string): Promise<DashboardMonthDat
   return {
     summary, expenseTotal, categoryStats, paymentStats, channelStats,
     customerStats: { totalCustomers, returningCustomers, newCustomers: totalCustomers - returningCustomers },
-    expenseStats,
+    expenseStats, wasteTotal, wasteStats, marginStats, voucherFlow,
   };
 }
 
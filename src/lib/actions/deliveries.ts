@@ -0,0 +1,242 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import type { Delivery, DeliveryStatus, Sale } from '@/types/database';
+import { dateSchema, deliverySchema, deliveryStatusSchema, idsSchema, uuidSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { getMonthDateRange } from '@/lib/utils';
+import { canChangeDeliveryStatus, getDeliveryStatusUpdate, sortDeliveriesForRoute } from '@/lib/deliveries';
+import { DELIVERY_STATUS_LABELS } from '@/lib/constants';
+
+const DELIVERY_SELECT = '*, reservation:reservations(id, title, customer_name), sale:sales(id, product_name, customer_name)';
+
+type DeliveryInput = {
+  reservation_id?: string | null;
+  sale_id?: string | null;
+  date: string;
+  time_from?: string | null;
+  time_to?: string | null;
+  recipient_name: string;
+  recipient_phone?: string | null;
+  address: string;
+  address_detail?: string | null;
+  fee?: number;
+  driver?: string | null;
+  note?: string | null;
+};
+
+export type DeliverySaleOption = Pick<Sale, 'id' | 'date' | 'product_name' | 'amount' | 'customer_name' | 'customer_phone'>;
+
+function parseDeliveryInput(input: DeliveryInput) {
+  const parsed = deliverySchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  const d = parsed.data;
+  return {
+    reservation_id: d.reservation_id || null,
+    sale_id: d.sale_id || null,
+    date: d.date,
+    time_from: d.time_from || null,
+    time_to: d.time_to || null,
+    recipient_name: d.recipient_name.trim(),
+    recipient_phone: d.recipient_phone?.trim() || null,
+    address: d.address.trim(),
+    address_detail: d.address_detail?.trim() || null,
+    fee: d.fee ?? 0,
+    driver: d.driver?.trim() || null,
+    note: d.note?.trim() || null,
+  };
+}
+
+function revalidateDeliveryPaths() {
+  revalidatePath('/calendar');
+  revalidatePath('/calendar/route');
+}
+
+/** 한 달 배송 목록 (캘린더 표시용) */
+async function _getDeliveries(month: string): Promise<Delivery[]> {
+  const supabase = await createClient();
+  const { startDate, endDate } = getMonthDateRange(month);
+
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select(DELIVERY_SELECT)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date')
+    .order('route_order');
+
+  if (error) throw error;
+  return (data || []) as Delivery[];
+}
+
+export const getDeliveries = withErrorLogging('getDeliveries', _getDeliveries);
+
+/** 하루 배송 경로표 (경로 순서대로) */
+async function _getDeliveryRoute(date: string): Promise<Delivery[]> {
+  const parsed = dateSchema.safeParse(date);
+  if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '날짜 형식이 올바르지 않습니다');
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select(DELIVERY_SELECT)
+    .eq('date', parsed.data);
+
+  if (error) throw error;
+  return sortDeliveriesForRoute((data || []) as Delivery[]);
+}
+
+export const getDeliveryRoute = withErrorLogging('getDeliveryRoute', _getDeliveryRoute);
+
+/** 배송을 연결할 수 있는 그날 매출 */
+async function _getDeliverySaleOptions(date: string): Promise<DeliverySaleOption[]> {
+  const parsed = dateSchema.safeParse(date);
+  if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '날짜 형식이 올바르지 않습니다');
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('sales')
+    .select('id, date, product_name, amount, customer_name, customer_phone')
+    .eq('date', parsed.data)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as DeliverySaleOption[];
+}
+
+export const getDeliverySaleOptions = withErrorLogging('getDeliverySaleOptions', _getDeliverySaleOptions);
+
+async function _createDelivery(input: DeliveryInput): Promise<Delivery> {
+  await requireAuth();
+  const delivery = parseDeliveryInput(input);
+  const supabase = await createClient();
+
+  // 그날 경로표 맨 뒤에 추가
+  const { data: last, error: lastError } = await supabase
+    .from('deliveries')
+    .select('route_order')
+    .eq('date', delivery.date)
+    .order('route_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) throw lastError;
+
+  const { data, error } = await supabase
+    .from('deliveries')
+    .insert({ ...delivery, route_order: (last?.route_order ?? -1) + 1 })
+    .select(DELIVERY_SELECT)
+    .single();
+
+  if (error) throw error;
+  revalidateDeliveryPaths();
+  return data as Delivery;
+}
+
+export const createDelivery = withErrorLogging('createDelivery', _createDelivery);
+
+async function _updateDelivery(id: string, input: DeliveryInput): Promise<Delivery> {
+  await requireRole('manager');
+  const idParsed = uuidSchema.safeParse(id);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const delivery = parseDeliveryInput(input);
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('deliveries')
+    .update({ ...delivery, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(DELIVERY_SELECT)
+    .single();
+
+  if (error) throw error;
+  revalidateDeliveryPaths();
+  return data as Delivery;
+}
+
+export const updateDelivery = withErrorLogging('updateDelivery', _updateDelivery);
+
+/** 배송 상태 변경 (배송 기사/직원도 가능, 흐름에 맞지 않는 변경은 거부) */
+async function _updateDeliveryStatus(id: string, status: DeliveryStatus, failureReason?: string | null): Promise<Delivery> {
+  await requireAuth();
+  const idParsed = uuidSchema.safeParse(id);
+  const statusParsed = deliveryStatusSchema.safeParse(status);
+  if (!idParsed.success || !statusParsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+
+  const supabase = await createClient();
+  const { data: current, error: currentError } = await supabase
+    .from('deliveries')
+    .select('status')
+    .eq('id', id)
+    .single();
+
+  if (currentError || !current) {
+    throw new AppError(ErrorCode.NOT_FOUND, '배송을 찾을 수 없습니다');
+  }
+  const from = current.status as DeliveryStatus;
+  if (!canChangeDeliveryStatus(from, statusParsed.data)) {
+    throw new AppError(
+      ErrorCode.VALIDATION,
+      `${DELIVERY_STATUS_LABELS[from]} 상태에서 ${DELIVERY_STATUS_LABELS[statusParsed.data]}(으)로 바꿀 수 없습니다`,
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('deliveries')
+    .update({
+      ...getDeliveryStatusUpdate(statusParsed.data, new Date(), failureReason),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select(DELIVERY_SELECT)
+    .single();
+
+  if (error) throw error;
+  revalidateDeliveryPaths();
+  return data as Delivery;
+}
+
+export const updateDeliveryStatus = withErrorLogging('updateDeliveryStatus', _updateDeliveryStatus);
+
+/** 경로표 순서 저장 (ids 순서대로 route_order 0, 1, 2...) */
+async function _reorderDeliveries(date: string, ids: string[]): Promise<void> {
+  await requireAuth();
+  const dateParsed = dateSchema.safeParse(date);
+  const idsParsed = idsSchema.safeParse(ids);
+  if (!dateParsed.success || !idsParsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+
+  const supabase = await createClient();
+  const results = await Promise.all(
+    idsParsed.data.map((id, index) =>
+      supabase.from('deliveries').update({ route_order: index }).eq('id', id).eq('date', dateParsed.data)
+    )
+  );
+
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+  revalidateDeliveryPaths();
+}
+
+export const reorderDeliveries = withErrorLogging('reorderDeliveries', _reorderDeliveries);
+
+async function _deleteDelivery(id: string): Promise<void> {
+  await requireRole('manager');
+  const parsed = uuidSchema.safeParse(id);
+  if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const supabase = await createClient();
+  const { error } = await supabase.from('deliveries').delete().eq('id', id);
+
+  if (error) throw error;
+  revalidateDeliveryPaths();
+}
+
+export const deleteDelivery = withErrorLogging('deleteDelivery', _deleteDelivery);
@@ -2,10 +2,15 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
-import type { Sale, DepositStatus } from '@/types/database';
-import { idsSchema, uuidSchema } from '@/lib/validations';
+import { requireRole } from '@/lib/auth-guard';
+import type { CardPayment, DepositStatus, Sale, SalePayment } from '@/types/database';
+import { idsSchema, uuidSchema, settlementRowsSchema, settlementConfirmSchema } from '@/lib/validations';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { reconcileSettlement } from '@/lib/settlement';
+import type { SettlementRow, SettlementReconciliation } from '@/lib/settlement';
+import { findFeeMismatches } from '@/lib/business-days';
+import type { CardFeeHistory, FeeMismatch } from '@/lib/business-days';
+import { recordAudit, pairAuditEntries } from '@/lib/audit';
 
 export interface DepositsFilter {
   month?: string;
@@ -13,21 +18,45 @@ export interface DepositsFilter {
   cardCompany?: string;
 }
 
-async function _getDeposits(filter: DepositsFilter = {}): Promise<Sale[]> {
+// 입금 대조는 카드 결제 단위 (나눠 결제한 매출은 카드 결제만 따로)
+const CARD_PAYMENT_SELECT = '*, sale:sales!inner(date, product_name, customer_name, deleted_at)';
+
+type CardPaymentRow = SalePayment & { sale: Pick<Sale, 'date' | 'product_name' | 'customer_name'> };
+
+function toCardPayment({ sale, ...payment }: CardPaymentRow): CardPayment {
+  return { ...payment, date: sale.date, product_name: sale.product_name, customer_name: sale.customer_name };
+}
+
+// 매출일 순, 같은 매출은 결제 순서대로
+function sortCardPayments(payments: CardPayment[], ascending: boolean): CardPayment[] {
+  return payments.sort((a, b) =>
+    (ascending ? a.date.localeCompare(b.date) : b.date.localeCompare(a.date))
+    || a.sale_id.localeCompare(b.sale_id)
+    || a.sort_order - b.sort_order
+  );
+}
+
+// 입금 정보는 결제별이지만 이력은 매출 기준으로 남김
+function toSaleAuditEntries(action: string, before: SalePayment[], after: SalePayment[]) {
+  return pairAuditEntries(action, 'sale', before, after, (payment) => payment.sale_id);
+}
+
+async function _getDeposits(filter: DepositsFilter = {}): Promise<CardPayment[]> {
+  await requireRole('manager');
   const supabase = await createClient();
   
   let query = supabase
-    .from('sales')
-    .select('*')
-    .in('payment_method', ['card'])
-    .order('date', { ascending: false });
+    .from('sale_payments')
+    .select(CARD_PAYMENT_SELECT)
+    .is('sale.deleted_at', null)
+    .eq('payment_method', 'card');
 
   // 월 필터
   if (filter.month) {
     const [year, m] = filter.month.split('-').map(Number);
     const startDate = new Date(year, m - 1, 1).toISOString().split('T')[0];
     const endDate = new Date(year, m, 0).toISOString().split('T')[0];
-    query = query.gte('date', startDate).lte('date', endDate);
+    query = query.gte('sale.date', startDate).lte('sale.date', endDate);
   }
 
   // 입금 상태 필터
@@ -42,18 +71,18 @@ async function _getDeposits(filter: DepositsFilter = {}): Promise<Sale[]> {
 
   const { data, error } = await query;
   if (error) throw error;
-  return data as Sale[];
+  return sortCardPayments(((data || []) as CardPaymentRow[]).map(toCardPayment), false);
 }
 
 export const getDeposits = withErrorLogging('getDeposits', _getDeposits);
 
-async function _getPendingDeposits(month?: string): Promise<Sale[]> {
+async function _getPendingDeposits(month?: string): Promise<CardPayment[]> {
   return _getDeposits({ month, status: 'pending' });
 }
 
 export const getPendingDeposits = withErrorLogging('getPendingDeposits', _getPendingDeposits);
 
-async function _getCompletedDeposits(month?: string): Promise<Sale[]> {
+async function _getCompletedDeposits(month?: string): Promise<CardPayment[]> {
   return _getDeposits({ month, status: 'completed' });
 }
 
@@ -61,20 +90,23 @@ export const getCompletedDeposits = withErrorLogging('getCompletedDeposits', _ge
 
 
 async function _confirmDeposit(id: string): Promise<void> {
-  await requireAuth();
+  const user = await requireRole('manager');
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
   const supabase = await createClient();
-  
-  const { error } = await supabase
-    .from('sales')
+
+  const { data: before } = await supabase.from('sale_payments').select('*').eq('id', id).maybeSingle();
+  const { data: updated, error } = await supabase
+    .from('sale_payments')
     .update({ 
       deposit_status: 'completed', 
       deposited_at: new Date().toISOString() 
     })
-    .eq('id', id);
+    .eq('id', id)
+    .select();
 
   if (error) throw error;
+  await recordAudit(supabase, user, toSaleAuditEntries('confirmDeposit', before ? [before] : [], updated || []));
   
   revalidatePath('/deposits');
   revalidatePath('/');
@@ -83,20 +115,23 @@ async function _confirmDeposit(id: string): Promise<void> {
 export const confirmDeposit = withErrorLogging('confirmDeposit', _confirmDeposit);
 
 async function _confirmMultipleDeposits(ids: string[]): Promise<void> {
-  await requireAuth();
+  const user = await requireRole('manager');
   const parsed = idsSchema.safeParse(ids);
   if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID 목록입니다');
   const supabase = await createClient();
 
-  const { error } = await supabase
-    .from('sales')
+  const { data: before } = await supabase.from('sale_payments').select('*').in('id', ids);
+  const { data: updated, error } = await supabase
+    .from('sale_payments')
     .update({ 
       deposit_status: 'completed', 
       deposited_at: new Date().toISOString() 
     })
-    .in('id', ids);
+    .in('id', ids)
+    .select();
 
   if (error) throw error;
+  await recordAudit(supabase, user, toSaleAuditEntries('confirmMultipleDeposits', before || [], updated || []));
   
   revalidatePath('/deposits');
   revalidatePath('/');
@@ -105,20 +140,24 @@ async function _confirmMultipleDeposits(ids: string[]): Promise<void> {
 export const confirmMultipleDeposits = withErrorLogging('confirmMultipleDeposits', _confirmMultipleDeposits);
 
 async function _revertDeposit(id: string): Promise<void> {
-  await requireAuth();
+  const user = await requireRole('manager');
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
   const supabase = await createClient();
-  
-  const { error } = await supabase
-    .from('sales')
+
+  const { data: before } = await supabase.from('sale_payments').select('*').eq('id', id).maybeSingle();
+  const { data: updated, error } = await supabase
+    .from('sale_payments')
     .update({ 
       deposit_status: 'pending', 
-      deposited_at: null 
+      deposited_at: null,
+      deposited_amount: null,
     })
-    .eq('id', id);
+    .eq('id', id)
+    .select();
 
   if (error) throw error;
+  await recordAudit(supabase, user, toSaleAuditEntries('revertDeposit', before ? [before] : [], updated || []));
   
   revalidatePath('/deposits');
   revalidatePath('/');
@@ -126,6 +165,143 @@ async function _revertDeposit(id: string): Promise<void> {
 
 export const revertDeposit = withErrorLogging('revertDeposit', _revertDeposit);
 
+// 정산내역 CSV 행을 미입금 카드 결제 전체(월 무관)와 대조
+async function _reconcileSettlementRows(rows: SettlementRow[]): Promise<SettlementReconciliation<CardPayment>> {
+  await requireRole('manager');
+  const parsed = settlementRowsSchema.safeParse(rows);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('sale_payments')
+    .select(CARD_PAYMENT_SELECT)
+    .is('sale.deleted_at', null)
+    .eq('payment_method', 'card')
+    .eq('deposit_status', 'pending');
+
+  if (error) throw error;
+  return reconcileSettlement(parsed.data, sortCardPayments(((data || []) as CardPaymentRow[]).map(toCardPayment), true));
+}
+
+export const reconcileSettlementRows = withErrorLogging('reconcileSettlementRows', _reconcileSettlementRows);
+
+export interface SettlementConfirmEntry {
+  payment_id: string;
+  deposited_amount: number;
+  deposit_date: string;
+}
+
+// 대조된 카드 결제를 실입금액/입금일로 일괄 입금 확정
+async function _confirmSettlementDeposits(entries: SettlementConfirmEntry[]): Promise<number> {
+  const user = await requireRole('manager');
+  const parsed = settlementConfirmSchema.safeParse(entries);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  const supabase = await createClient();
+
+  const { data: before } = await supabase
+    .from('sale_payments')
+    .select('*')
+    .in('id', parsed.data.map((entry) => entry.payment_id));
+  const results = await Promise.all(
+    parsed.data.map((entry) =>
+      supabase
+        .from('sale_payments')
+        .update({
+          deposit_status: 'completed',
+          deposited_at: `${entry.deposit_date}T00:00:00+09:00`,
+          deposited_amount: entry.deposited_amount,
+        })
+        .eq('id', entry.payment_id)
+        .eq('deposit_status', 'pending')
+        .select()
+    )
+  );
+
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+
+  const updated = results.flatMap((r) => r.data || []);
+  await recordAudit(supabase, user, toSaleAuditEntries('confirmSettlementDeposits', before || [], updated));
+
+  revalidatePath('/deposits');
+  revalidatePath('/');
+  return updated.length;
+}
+
+export const confirmSettlementDeposits = withErrorLogging('confirmSettlementDeposits', _confirmSettlementDeposits);
+
+// 미입금 카드 결제 중 저장된 수수료가 매출일 기준 수수료율과 다른 건
+async function loadFeeMismatches(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  ids?: string[],
+): Promise<FeeMismatch<CardPayment>[]> {
+  let query = supabase
+    .from('sale_payments')
+    .select(CARD_PAYMENT_SELECT)
+    .is('sale.deleted_at', null)
+    .eq('payment_method', 'card')
+    .eq('deposit_status', 'pending')
+    .not('card_company', 'is', null);
+  if (ids) query = query.in('id', ids);
+
+  const [{ data: payments, error }, { data: companies, error: companiesError }] = await Promise.all([
+    query,
+    // 비활성 카드사도 과거 매출 계산에 필요
+    supabase.from('card_company_settings').select('name, fee_rate, fee_rates:card_fee_rates(fee_rate, effective_from)'),
+  ]);
+  if (error) throw error;
+  if (companiesError) throw companiesError;
+
+  const cardPayments = sortCardPayments(((payments || []) as CardPaymentRow[]).map(toCardPayment), true);
+  return findFeeMismatches(cardPayments, (companies || []) as CardFeeHistory[]);
+}
+
+async function _getFeeRecalculationReport(): Promise<FeeMismatch<CardPayment>[]> {
+  await requireRole('manager');
+  const supabase = await createClient();
+  return loadFeeMismatches(supabase);
+}
+
+export const getFeeRecalculationReport = withErrorLogging('getFeeRecalculationReport', _getFeeRecalculationReport);
+
+// 선택한 카드 결제의 수수료/입금예정액을 매출일 기준 수수료율로 다시 저장
+async function _applyFeeRecalculation(ids: string[]): Promise<number> {
+  const user = await requireRole('manager');
+  const parsed = idsSchema.safeParse(ids);
+  if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID 목록입니다');
+  const supabase = await createClient();
+
+  const mismatches = await loadFeeMismatches(supabase, parsed.data);
+  const { data: before } = await supabase
+    .from('sale_payments')
+    .select('*')
+    .in('id', mismatches.map((m) => m.sale.id));
+  const results = await Promise.all(
+    mismatches.map((m) =>
+      supabase
+        .from('sale_payments')
+        .update({ fee: m.expected_fee, expected_deposit: m.expected_deposit })
+        .eq('id', m.sale.id)
+        .select()
+    )
+  );
+
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+
+  await recordAudit(supabase, user, toSaleAuditEntries('applyFeeRecalculation', before || [], results.flatMap((r) => r.data || [])));
+
+  revalidatePath('/deposits');
+  revalidatePath('/settings');
+  return mismatches.length;
+}
+
+export const applyFeeRecalculation = withErrorLogging('applyFeeRecalculation', _applyFeeRecalculation);
+
 export interface DepositsSummary {
   pendingCount: number;
   pendingAmount: number;
@@ -134,18 +310,20 @@ export interface DepositsSummary {
 }
 
 async function _getDepositsSummary(month?: string): Promise<DepositsSummary> {
+  await requireRole('manager');
   const supabase = await createClient();
   
   let query = supabase
-    .from('sales')
-    .select('amount, deposit_status, expected_deposit')
+    .from('sale_payments')
+    .select('amount, deposit_status, expected_deposit, sale:sales!inner(date, deleted_at)')
+    .is('sale.deleted_at', null)
     .eq('payment_method', 'card');
 
   if (month) {
     const [year, m] = month.split('-').map(Number);
     const startDate = new Date(year, m - 1, 1).toISOString().split('T')[0];
     const endDate = new Date(year, m, 0).toISOString().split('T')[0];
-    query = query.gte('date', startDate).lte('date', endDate);
+    query = query.gte('sale.date', startDate).lte('sale.date', endDate);
   }
 
   const { data, error } = await query;
@@ -158,12 +336,12 @@ async function _getDepositsSummary(month?: string): Promise<DepositsSummary> {
     completedAmount: 0,
   };
 
-  (data || []).forEach((sale) => {
-    const depositAmount = sale.expected_deposit || sale.amount;
-    if (sale.deposit_status === 'pending') {
+  (data || []).forEach((payment) => {
+    const depositAmount = payment.expected_deposit || payment.amount;
+    if (payment.deposit_status === 'pending') {
       summary.pendingCount += 1;
       summary.pendingAmount += depositAmount;
-    } else if (sale.deposit_status === 'completed') {
+    } else if (payment.deposit_status === 'completed') {
       summary.completedCount += 1;
       summary.completedAmount += depositAmount;
     }
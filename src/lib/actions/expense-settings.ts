@@ -2,7 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
+import { requireRole } from '@/lib/auth-guard';
 import { withErrorLogging } from '@/lib/errors';
 
 export interface ExpenseCategory {
@@ -81,7 +81,7 @@ export const getExpensePaymentMethods = withErrorLogging('getExpensePaymentMetho
 
 
 async function _createExpenseCategory(label: string, color: string): Promise<ExpenseCategory> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
 
   // value 생성 (label을 snake_case로 변환)
@@ -111,7 +111,7 @@ async function _createExpenseCategory(label: string, color: string): Promise<Exp
 export const createExpenseCategory = withErrorLogging('createExpenseCategory', _createExpenseCategory);
 
 async function _updateExpenseCategory(id: string, label: string, color: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
 
   const { error } = await supabase
@@ -127,7 +127,7 @@ async function _updateExpenseCategory(id: string, label: string, color: string):
 export const updateExpenseCategory = withErrorLogging('updateExpenseCategory', _updateExpenseCategory);
 
 async function _deleteExpenseCategory(id: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
 
   const { error } = await supabase
@@ -2,18 +2,21 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
+import { requireRole } from '@/lib/auth-guard';
 import type { Expense } from '@/types/database';
-import { expenseSchema } from '@/lib/validations';
+import { expenseSchema, uuidSchema } from '@/lib/validations';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
 import { getMonthDateRange } from '@/lib/utils';
+import { recordAudit } from '@/lib/audit';
 
 async function _getExpenses(month?: string) {
+  await requireRole('manager');
   const supabase = await createClient();
 
   let query = supabase
     .from('expenses')
     .select('*')
+    .is('deleted_at', null)
     .order('date', { ascending: false });
 
   if (month) {
@@ -29,11 +32,13 @@ async function _getExpenses(month?: string) {
 export const getExpenses = withErrorLogging('getExpenses', _getExpenses);
 
 async function _getExpenseById(id: string): Promise<Expense | null> {
+  await requireRole('manager');
   const supabase = await createClient();
   const { data, error } = await supabase
     .from('expenses')
     .select('*')
     .eq('id', id)
+    .is('deleted_at', null)
     .single();
 
   if (error) return null;
@@ -43,7 +48,7 @@ async function _getExpenseById(id: string): Promise<Expense | null> {
 export const getExpenseById = withErrorLogging('getExpenseById', _getExpenseById);
 
 async function _createExpense(formData: FormData) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const supabase = await createClient();
 
   const unitPrice = parseInt(formData.get('unit_price') as string) || 0;
@@ -80,6 +85,8 @@ async function _createExpense(formData: FormData) {
   const { data, error } = await supabase.from('expenses').insert(expense).select().single();
   if (error) throw error;
 
+  await recordAudit(supabase, user, { action: 'createExpense', entity_type: 'expense', entity_id: data.id, after: data });
+
   revalidatePath('/expenses');
   return data;
 }
@@ -87,7 +94,7 @@ async function _createExpense(formData: FormData) {
 export const createExpense = withErrorLogging('createExpense', _createExpense);
 
 async function _updateExpense(id: string, formData: FormData) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const supabase = await createClient();
 
   const unitPrice = parseInt(formData.get('unit_price') as string) || 0;
@@ -121,21 +128,64 @@ async function _updateExpense(id: string, formData: FormData) {
     note: parsed.data.note || null,
   };
 
-  const { error } = await supabase.from('expenses').update(updates).eq('id', id);
+  const { data: before } = await supabase.from('expenses').select('*').eq('id', id).maybeSingle();
+  const { data: updated, error } = await supabase.from('expenses').update(updates).eq('id', id).select().maybeSingle();
   if (error) throw error;
 
+  if (updated) {
+    await recordAudit(supabase, user, { action: 'updateExpense', entity_type: 'expense', entity_id: id, before, after: updated });
+  }
+
   revalidatePath('/expenses');
 }
 
 export const updateExpense = withErrorLogging('updateExpense', _updateExpense);
 
+// 휴지통으로 이동
 async function _deleteExpense(id: string) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const supabase = await createClient();
-  const { error } = await supabase.from('expenses').delete().eq('id', id);
+  const { data: deleted, error } = await supabase
+    .from('expenses')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('deleted_at', null)
+    .select()
+    .maybeSingle();
   if (error) throw error;
 
+  if (deleted) {
+    await recordAudit(supabase, user, { action: 'deleteExpense', entity_type: 'expense', entity_id: id, before: deleted });
+  }
+
   revalidatePath('/expenses');
+  revalidatePath('/trash');
 }
 
 export const deleteExpense = withErrorLogging('deleteExpense', _deleteExpense);
+
+async function _restoreExpense(id: string): Promise<Expense> {
+  const user = await requireRole('manager');
+  const idParsed = uuidSchema.safeParse(id);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const supabase = await createClient();
+
+  const { data: before } = await supabase.from('expenses').select('*').eq('id', id).maybeSingle();
+  const { data: restored, error } = await supabase
+    .from('expenses')
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .not('deleted_at', 'is', null)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!restored) throw new AppError(ErrorCode.NOT_FOUND, '휴지통에서 지출을 찾을 수 없습니다');
+
+  await recordAudit(supabase, user, { action: 'restoreExpense', entity_type: 'expense', entity_id: id, before, after: restored });
+
+  revalidatePath('/expenses');
+  revalidatePath('/trash');
+  return restored as Expense;
+}
+
+export const restoreExpense = withErrorLogging('restoreExpense', _restoreExpense);
@@ -0,0 +1,147 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { giftVoucherSchema, giftVoucherUpdateSchema, uuidSchema } from '@/lib/validations';
+import { recordAudit } from '@/lib/audit';
+import { generateVoucherCode, loadGiftVoucher, loadGiftVouchers, normalizeVoucherCode, type LoadedGiftVoucher } from '@/lib/gift-vouchers';
+import type { GiftVoucher } from '@/types/database';
+
+export type GiftVoucherInput = Pick<GiftVoucher, 'code' | 'amount' | 'payment_method' | 'issued_date' | 'expires_at' | 'customer_id' | 'note'>;
+export type GiftVoucherUpdateInput = Pick<GiftVoucher, 'expires_at' | 'customer_id' | 'note'>;
+
+function assertId(id: string) {
+  if (!uuidSchema.safeParse(id).success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+}
+
+async function _getGiftVouchers(): Promise<LoadedGiftVoucher[]> {
+  await requireRole('manager');
+  const supabase = await createClient();
+  return loadGiftVouchers(supabase);
+}
+
+export const getGiftVouchers = withErrorLogging('getGiftVouchers', _getGiftVouchers);
+
+// 매출 등록 화면에서 번호로 잔액 확인 (직원도 조회)
+async function _findGiftVoucher(code: string): Promise<Pick<LoadedGiftVoucher, 'id' | 'code' | 'expires_at' | 'balance'> | null> {
+  await requireAuth();
+  const normalized = normalizeVoucherCode(code);
+  if (!normalized || normalized.length > 20) return null;
+
+  const supabase = await createClient();
+  const voucher = await loadGiftVoucher(supabase, { code: normalized });
+  return voucher && { id: voucher.id, code: voucher.code, expires_at: voucher.expires_at, balance: voucher.balance };
+}
+
+export const findGiftVoucher = withErrorLogging('findGiftVoucher', _findGiftVoucher);
+
+/** 선불권 판매 (번호를 비우면 새로 만듦). 받은 돈은 매출이 아니라 선수금 */
+async function _createGiftVoucher(input: GiftVoucherInput): Promise<GiftVoucher> {
+  const user = await requireRole('manager');
+  const parsed = giftVoucherSchema.safeParse({
+    ...input,
+    code: normalizeVoucherCode(input.code || '') || generateVoucherCode(),
+  });
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('gift_vouchers')
+    .insert({
+      ...parsed.data,
+      customer_id: parsed.data.customer_id || null,
+      note: parsed.data.note?.trim() || null,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+  if (error) {
+    if (error.code === '23505') {
+      throw new AppError(ErrorCode.DUPLICATE, '이미 있는 선불권 번호입니다');
+    }
+    throw error;
+  }
+
+  await recordAudit(supabase, user, { action: 'createGiftVoucher', entity_type: 'gift_voucher', entity_id: data.id, after: data });
+
+  revalidatePath('/vouchers');
+  revalidatePath('/');
+  return data as GiftVoucher;
+}
+
+export const createGiftVoucher = withErrorLogging('createGiftVoucher', _createGiftVoucher);
+
+// 유효기간 연장 등 (금액·번호는 바꾸지 않음)
+async function _updateGiftVoucher(id: string, input: GiftVoucherUpdateInput): Promise<GiftVoucher> {
+  const user = await requireRole('manager');
+  assertId(id);
+  const parsed = giftVoucherUpdateSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { data: before, error: fetchError } = await supabase
+    .from('gift_vouchers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!before) throw new AppError(ErrorCode.NOT_FOUND, '선불권을 찾을 수 없습니다');
+  if (parsed.data.expires_at && parsed.data.expires_at < before.issued_date) {
+    throw new AppError(ErrorCode.VALIDATION, '유효기간은 판매일 이후여야 합니다');
+  }
+
+  const { data, error } = await supabase
+    .from('gift_vouchers')
+    .update({
+      expires_at: parsed.data.expires_at,
+      customer_id: parsed.data.customer_id || null,
+      note: parsed.data.note?.trim() || null,
+    })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  await recordAudit(supabase, user, { action: 'updateGiftVoucher', entity_type: 'gift_voucher', entity_id: id, before, after: data });
+
+  revalidatePath('/vouchers');
+  return data as GiftVoucher;
+}
+
+export const updateGiftVoucher = withErrorLogging('updateGiftVoucher', _updateGiftVoucher);
+
+// 잘못 등록한 선불권 삭제 (휴지통 매출을 포함해 한 번이라도 사용했으면 불가)
+async function _deleteGiftVoucher(id: string): Promise<void> {
+  const user = await requireRole('manager');
+  assertId(id);
+  const supabase = await createClient();
+
+  const { count, error: countError } = await supabase
+    .from('sales')
+    .select('id', { count: 'exact', head: true })
+    .eq('voucher_id', id);
+  if (countError) throw countError;
+  if (count) throw new AppError(ErrorCode.VALIDATION, '사용 내역이 있는 선불권은 삭제할 수 없습니다');
+
+  const { data: deleted, error } = await supabase
+    .from('gift_vouchers')
+    .delete()
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!deleted) throw new AppError(ErrorCode.NOT_FOUND, '선불권을 찾을 수 없습니다');
+
+  await recordAudit(supabase, user, { action: 'deleteGiftVoucher', entity_type: 'gift_voucher', entity_id: id, before: deleted });
+
+  revalidatePath('/vouchers');
+  revalidatePath('/');
+}
+
+export const deleteGiftVoucher = withErrorLogging('deleteGiftVoucher', _deleteGiftVoucher);
@@ -5,6 +5,9 @@ export {
   createSale,
   updateSale,
   deleteSale,
+  restoreSale,
+  createSaleRefund,
+  deleteSaleRefund,
   uploadSalePhotos,
   deleteSalePhoto,
 } from './sales';
@@ -15,6 +18,7 @@ export {
   createExpense,
   updateExpense,
   deleteExpense,
+  restoreExpense,
 } from './expenses';
 
 // Customers
@@ -25,10 +29,53 @@ export {
   updateCustomer,
   updateCustomerGrade,
   deleteCustomer,
+  restoreCustomer,
   findOrCreateCustomer,
   getCustomerSales,
 } from './customers';
 
+// Customer Merge
+export {
+  getCustomerDuplicateExclusions,
+  excludeCustomerDuplicate,
+  mergeCustomers,
+} from './customer-merge';
+
+// Customer Grading
+export {
+  getCustomerGradeRules,
+  updateCustomerGradeRules,
+  previewCustomerGradeChanges,
+  applyCustomerGradeRules,
+} from './customer-grading';
+
+// Customer Occasions
+export {
+  getCustomerOccasions,
+  createCustomerOccasion,
+  updateCustomerOccasion,
+  deleteCustomerOccasion,
+} from './customer-occasions';
+export type { CustomerOccasionInput } from './customer-occasions';
+
+// Loyalty Points
+export {
+  getLoyaltySettings,
+  updateLoyaltySettings,
+  getCustomerPointBalance,
+  getCustomerPointHistory,
+  adjustCustomerPoints,
+} from './loyalty';
+
+// Gift Vouchers
+export {
+  getGiftVouchers,
+  findGiftVoucher,
+  createGiftVoucher,
+  updateGiftVoucher,
+  deleteGiftVoucher,
+} from './gift-vouchers';
+
 // Dashboard
 export {
   getTodaySummary,
@@ -37,7 +84,7 @@ export {
   getDashboardTodayData,
   getDashboardMonthData,
 } from './dashboard';
-export type { DashboardSummary, DashboardTodayData, DashboardMonthData } from './dashboard';
+export type { DashboardSummary, DashboardTodayData, DashboardMonthData, DashboardOccasion } from './dashboard';
 
 // Deposits
 export {
@@ -48,13 +95,20 @@ export {
   confirmMultipleDeposits,
   revertDeposit,
   getDepositsSummary,
+  reconcileSettlementRows,
+  confirmSettlementDeposits,
+  getFeeRecalculationReport,
+  applyFeeRecalculation,
 } from './deposits';
-export type { DepositsFilter, DepositsSummary } from './deposits';
+export type { DepositsFilter, DepositsSummary, SettlementConfirmEntry } from './deposits';
 
 // Settings
 export {
   getCardCompanySettings,
   updateCardCompanySetting,
+  getCardFeeRates,
+  addCardFeeRate,
+  deleteCardFeeRate,
   createCardCompanySetting,
   deleteCardCompanySetting,
   getProductCategories,
@@ -92,9 +146,12 @@ export type { ExpenseCategory, ExpensePaymentMethod } from './expense-settings';
 export {
   getCategoryStats,
   getPaymentMethodStats,
+  getVoucherStats,
   getChannelStats,
   getCustomerStats,
   getExpenseCategoryStats,
+  getWasteStats,
+  getCategoryMarginStats,
   getMonthlySalesTrend,
   getDailySalesTrend,
 } from './statistics';
@@ -104,6 +161,8 @@ export type {
   ChannelStat,
   CustomerStat,
   ExpenseCategoryStat,
+  WasteStat,
+  CategoryMarginStat,
   MonthlySalesTrend,
   DailySalesTrend,
 } from './statistics';
@@ -123,9 +182,9 @@ export {
   createPhotoCard,
   updatePhotoCard,
   deletePhotoCard,
+  restorePhotoCard,
   uploadPhotos,
   deletePhoto,
-  deletePhotosFromStorage,
   downloadPhoto,
   downloadAllPhotos,
   reorderPhotos,
@@ -137,12 +196,115 @@ export type { PhotoCardsResponse } from './photo-cards';
 // Reservations
 export {
   getReservations,
+  getReservationsInRange,
   createReservation,
   updateReservation,
   deleteReservation,
   convertReservationToSale,
 } from './reservations';
 
+// Audit Logs
+export {
+  getAuditLogs,
+  getRecordAuditLogs,
+} from './audit';
+export type { AuditLogFilter, AuditLogPage } from './audit';
+
+// Trash
+export { getTrash } from './trash';
+export type { TrashData } from './trash';
+
+// Inventory
+export {
+  getInventoryItems,
+  createInventoryItem,
+  updateInventoryItem,
+  archiveInventoryItem,
+  getInventoryOverview,
+  stockInFromExpense,
+  recordStockMovement,
+  recordSaleStockOut,
+  deleteStockMovement,
+} from './inventory';
+export type { InventoryOverview, StockOutSale } from './inventory';
+
+// Recipes
+export {
+  getRecipeOverview,
+  saveCategoryRecipe,
+  recalculateMonthCogs,
+} from './recipes';
+export type { RecipeOverview } from './recipes';
+
+// Deliveries
+export {
+  getDeliveries,
+  getDeliveryRoute,
+  getDeliverySaleOptions,
+  createDelivery,
+  updateDelivery,
+  updateDeliveryStatus,
+  reorderDeliveries,
+  deleteDelivery,
+} from './deliveries';
+export type { DeliverySaleOption } from './deliveries';
+
+// Reservation Series
+export {
+  getReservationSeries,
+  createReservationSeries,
+  updateFutureOccurrences,
+  changeSeriesFromOccurrence,
+  deleteReservationOccurrences,
+} from './reservation-series';
+export type { OccurrenceScope, SeriesOccurrence, ReservationSeriesDetail } from './reservation-series';
+
+// Reservation Deposits
+export {
+  createReservationDeposit,
+  deleteReservationDeposit,
+} from './reservation-deposits';
+
+// Reservation Capacity
+export {
+  getReservationCapacity,
+  updateReservationCapacity,
+  updateCategoryWorkload,
+} from './reservation-capacity';
+
+// Calendar Sync (ICS)
+export {
+  getCalendarFeedStatus,
+  issueCalendarFeedToken,
+  revokeCalendarFeedToken,
+  importIcsReservations,
+} from './calendar-sync';
+export type { CalendarFeedStatus, IcsImportResult } from './calendar-sync';
+
+// Reservation Import (Naver Booking / KakaoTalk)
+export {
+  importNaverBookingCsv,
+  importKakaoOrders,
+  getReservationDrafts,
+  getPendingReservationDraftCount,
+  approveReservationDraft,
+  rejectReservationDraft,
+} from './reservation-import';
+export type { ReservationDraftImportResult, ReservationDraftReview, ReservationDraftEdits } from './reservation-import';
+
+// Staff Accounts
+export {
+  getStaffAccounts,
+  updateUserRole,
+  setUserDeactivated,
+  resetUserPassword,
+  getStaffInvitations,
+  createStaffInvitation,
+  revokeStaffInvitation,
+  inviteStaffByEmail,
+} from './users';
+export type { CreatedStaffInvitation } from './users';
+
 // Push Notifications
 export {
   subscribeToPush,
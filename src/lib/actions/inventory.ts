@@ -0,0 +1,417 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/lib/auth-guard';
+import type { Expense, InventoryItem, InventoryMovement, Sale, SaleItem } from '@/types/database';
+import {
+  inventoryItemSchema,
+  stockInLinesSchema,
+  stockMovementSchema,
+  stockOutLinesSchema,
+  uuidSchema,
+} from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { getTodayKST } from '@/lib/utils';
+import { addCalendarDays } from '@/lib/business-days';
+import {
+  STOCK_EXPENSE_CATEGORIES,
+  getSignedQuantity,
+  getStockInExpiry,
+  summarizeStockTotals,
+  type StockLotTotal,
+  type StockSummary,
+} from '@/lib/inventory';
+
+// 입고 대기로 보여줄 지출 기간 / 재료 출고를 기록할 매출 기간
+const PENDING_EXPENSE_DAYS = 30;
+const STOCK_OUT_SALE_DAYS = 7;
+const RECENT_MOVEMENT_LIMIT = 100;
+
+type StockInLine = { item_id: string; quantity: number; unit_cost: number };
+type StockOutLine = { item_id: string; quantity: number };
+
+// ============ Items ============
+
+async function _getInventoryItems(): Promise<InventoryItem[]> {
+  await requireRole('manager');
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('inventory_items')
+    .select('*')
+    .eq('is_active', true)
+    .order('kind')
+    .order('name');
+
+  if (error) throw error;
+  return data as InventoryItem[];
+}
+
+export const getInventoryItems = withErrorLogging('getInventoryItems', _getInventoryItems);
+
+async function _createInventoryItem(input: {
+  name: string;
+  kind: string;
+  unit: string;
+  shelf_life_days?: number | null;
+  unit_cost?: number;
+}): Promise<InventoryItem> {
+  await requireRole('manager');
+  const parsed = inventoryItemSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues.map(i => i.message).join(', ')}`);
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('inventory_items')
+    .insert({ ...parsed.data, name: parsed.data.name.trim() })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new AppError(ErrorCode.DUPLICATE, '같은 이름의 품목이 있습니다');
+    }
+    throw error;
+  }
+
+  revalidatePath('/inventory');
+  return data as InventoryItem;
+}
+
+export const createInventoryItem = withErrorLogging('createInventoryItem', _createInventoryItem);
+
+async function _updateInventoryItem(id: string, input: {
+  name: string;
+  kind: string;
+  unit: string;
+  shelf_life_days?: number | null;
+  unit_cost?: number;
+}): Promise<InventoryItem> {
+  await requireRole('manager');
+  const parsedId = uuidSchema.safeParse(id);
+  const parsed = inventoryItemSchema.safeParse(input);
+  if (!parsedId.success || !parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error?.issues.map(i => i.message).join(', ') ?? 'id'}`);
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('inventory_items')
+    .update({ ...parsed.data, name: parsed.data.name.trim(), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new AppError(ErrorCode.DUPLICATE, '같은 이름의 품목이 있습니다');
+    }
+    throw error;
+  }
+
+  revalidatePath('/inventory');
+  return data as InventoryItem;
+}
+
+export const updateInventoryItem = withErrorLogging('updateInventoryItem', _updateInventoryItem);
+
+// 기록이 남아 있을 수 있으므로 삭제 대신 숨김
+async function _archiveInventoryItem(id: string): Promise<void> {
+  await requireRole('manager');
+  const parsed = uuidSchema.safeParse(id);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('inventory_items')
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+  revalidatePath('/inventory');
+}
+
+export const archiveInventoryItem = withErrorLogging('archiveInventoryItem', _archiveInventoryItem);
+
+// ============ Overview ============
+
+// 품목은 레시피로 출고 재료를 채울 때 사용
+export type StockOutSale = Pick<Sale, 'id' | 'date' | 'product_name' | 'product_category' | 'amount' | 'customer_name'> & {
+  items: Pick<SaleItem, 'product_category' | 'quantity' | 'unit_price' | 'discount' | 'amount'>[];
+};
+
+export interface InventoryOverview {
+  items: InventoryItem[];
+  stock: StockSummary[];
+  pendingExpenses: Expense[];
+  recentMovements: InventoryMovement[];
+  recentSales: StockOutSale[];
+}
+
+/** 재고 페이지 데이터: 현재 재고, 입고 대기 지출, 최근 기록 */
+async function _getInventoryOverview(): Promise<InventoryOverview> {
+  await requireRole('manager');
+  const supabase = await createClient();
+  const today = getTodayKST();
+
+  const [itemsRes, quantitiesRes, lotsRes, expensesRes, recentRes, salesRes] = await Promise.all([
+    supabase.from('inventory_items').select('*').eq('is_active', true).order('kind').order('name'),
+    supabase.rpc('get_inventory_quantities'),
+    supabase.rpc('get_inventory_stock_lots'),
+    supabase.from('expenses')
+      .select('*')
+      .in('category', STOCK_EXPENSE_CATEGORIES)
+      .gte('date', addCalendarDays(today, -PENDING_EXPENSE_DAYS))
+      .is('deleted_at', null)
+      .order('date', { ascending: false }),
+    supabase.from('inventory_movements')
+      .select('*, item:inventory_items(id, name, unit)')
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(RECENT_MOVEMENT_LIMIT),
+    supabase.from('sales')
+      .select('id, date, product_name, product_category, amount, customer_name, items:sale_items(product_category, quantity, unit_price, discount, amount)')
+      .gte('date', addCalendarDays(today, -STOCK_OUT_SALE_DAYS))
+      .is('deleted_at', null)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (itemsRes.error) throw itemsRes.error;
+  if (quantitiesRes.error) throw quantitiesRes.error;
+  if (lotsRes.error) throw lotsRes.error;
+  if (expensesRes.error) throw expensesRes.error;
+  if (recentRes.error) throw recentRes.error;
+  if (salesRes.error) throw salesRes.error;
+
+  const items = (itemsRes.data || []) as InventoryItem[];
+  const expenses = (expensesRes.data || []) as Expense[];
+
+  // 이미 입고 처리된 지출 제외
+  let stockedExpenseIds = new Set<string>();
+  if (expenses.length > 0) {
+    const { data: stocked, error: stockedError } = await supabase
+      .from('inventory_movements')
+      .select('expense_id')
+      .in('expense_id', expenses.map((e) => e.id));
+    if (stockedError) throw stockedError;
+    stockedExpenseIds = new Set((stocked || []).map((m) => m.expense_id as string));
+  }
+
+  return {
+    items,
+    stock: summarizeStockTotals(
+      items,
+      new Map(((quantitiesRes.data || []) as { item_id: string; quantity: number }[]).map((row) => [row.item_id, Number(row.quantity)])),
+      ((lotsRes.data || []) as StockLotTotal[]).map((lot) => ({ ...lot, remaining: Number(lot.remaining) })),
+      today,
+    ),
+    pendingExpenses: expenses.filter((e) => !stockedExpenseIds.has(e.id)),
+    recentMovements: (recentRes.data || []) as InventoryMovement[],
+    recentSales: (salesRes.data || []) as StockOutSale[],
+  };
+}
+
+export const getInventoryOverview = withErrorLogging('getInventoryOverview', _getInventoryOverview);
+
+// ============ Movements ============
+
+/** 지출 1건을 품목별로 입고 처리 (유통기한 = 지출일 + 품목 보관일수) */
+async function _stockInFromExpense(expenseId: string, lines: StockInLine[]): Promise<number> {
+  const user = await requireRole('manager');
+  const parsedId = uuidSchema.safeParse(expenseId);
+  const parsed = stockInLinesSchema.safeParse(lines);
+  if (!parsedId.success || !parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error?.issues.map(i => i.message).join(', ') ?? 'id'}`);
+  }
+
+  const supabase = await createClient();
+  const { data: expense, error: expenseError } = await supabase
+    .from('expenses')
+    .select('id, date, category')
+    .eq('id', expenseId)
+    .is('deleted_at', null)
+    .single();
+
+  if (expenseError || !expense) {
+    throw new AppError(ErrorCode.NOT_FOUND, '지출 내역을 찾을 수 없습니다');
+  }
+
+  const itemIds = [...new Set(parsed.data.map((line) => line.item_id))];
+  const { data: items, error: itemsError } = await supabase
+    .from('inventory_items')
+    .select('id, shelf_life_days')
+    .in('id', itemIds);
+
+  if (itemsError) throw itemsError;
+  const shelfLife = new Map((items || []).map((item) => [item.id as string, item.shelf_life_days as number | null]));
+  if (shelfLife.size !== itemIds.length) {
+    throw new AppError(ErrorCode.NOT_FOUND, '품목을 찾을 수 없습니다');
+  }
+
+  const { error } = await supabase.from('inventory_movements').insert(
+    parsed.data.map((line) => ({
+      item_id: line.item_id,
+      type: 'in',
+      quantity: getSignedQuantity('in', line.quantity),
+      unit_cost: line.unit_cost,
+      date: expense.date,
+      expires_on: getStockInExpiry(expense.date, shelfLife.get(line.item_id)),
+      expense_id: expense.id,
+      created_by: user.id,
+    }))
+  );
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new AppError(ErrorCode.DUPLICATE, '이미 입고 처리된 품목이 있습니다');
+    }
+    throw error;
+  }
+
+  // 최근 입고 단가를 품목 단가로 (폐기 손실/원가 계산용)
+  for (const line of parsed.data) {
+    const { error: costError } = await supabase
+      .from('inventory_items')
+      .update({ unit_cost: line.unit_cost, updated_at: new Date().toISOString() })
+      .eq('id', line.item_id);
+    if (costError) throw costError;
+  }
+
+  revalidatePath('/inventory');
+  return parsed.data.length;
+}
+
+export const stockInFromExpense = withErrorLogging('stockInFromExpense', _stockInFromExpense);
+
+/** 출고/폐기/조정 1건 기록. 단가는 품목의 최근 입고 단가 */
+async function _recordStockMovement(input: {
+  item_id: string;
+  type: string;
+  quantity: number;
+  date: string;
+  sale_id?: string | null;
+  waste_reason?: string | null;
+  note?: string | null;
+}): Promise<void> {
+  const user = await requireRole('manager');
+  const parsed = stockMovementSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues.map(i => i.message).join(', ')}`);
+  }
+  if (parsed.data.type === 'waste' && !parsed.data.waste_reason) {
+    throw new AppError(ErrorCode.VALIDATION, '폐기 사유를 선택해주세요');
+  }
+
+  const supabase = await createClient();
+  const { data: item, error: itemError } = await supabase
+    .from('inventory_items')
+    .select('id, unit_cost')
+    .eq('id', parsed.data.item_id)
+    .single();
+
+  if (itemError || !item) {
+    throw new AppError(ErrorCode.NOT_FOUND, '품목을 찾을 수 없습니다');
+  }
+
+  const { error } = await supabase.from('inventory_movements').insert({
+    item_id: item.id,
+    type: parsed.data.type,
+    quantity: getSignedQuantity(parsed.data.type, parsed.data.quantity),
+    unit_cost: item.unit_cost,
+    date: parsed.data.date,
+    sale_id: parsed.data.type === 'out' ? parsed.data.sale_id ?? null : null,
+    waste_reason: parsed.data.type === 'waste' ? parsed.data.waste_reason : null,
+    note: parsed.data.note || null,
+    created_by: user.id,
+  });
+
+  if (error) throw error;
+  revalidatePath('/inventory');
+}
+
+export const recordStockMovement = withErrorLogging('recordStockMovement', _recordStockMovement);
+
+/**
+ * 매출 1건에 사용한 재료를 출고 처리 (매출일 기준)
+ * 같은 매출에 다시 기록하면 기존 출고를 지우고 새로 저장
+ */
+async function _recordSaleStockOut(saleId: string, lines: StockOutLine[]): Promise<number> {
+  const user = await requireRole('manager');
+  const parsedId = uuidSchema.safeParse(saleId);
+  const parsed = stockOutLinesSchema.safeParse(lines);
+  if (!parsedId.success || !parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error?.issues.map(i => i.message).join(', ') ?? 'id'}`);
+  }
+
+  const supabase = await createClient();
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select('id, date')
+    .eq('id', saleId)
+    .is('deleted_at', null)
+    .single();
+
+  if (saleError || !sale) {
+    throw new AppError(ErrorCode.NOT_FOUND, '매출 내역을 찾을 수 없습니다');
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('inventory_items')
+    .select('id, unit_cost')
+    .in('id', [...new Set(parsed.data.map((line) => line.item_id))]);
+
+  if (itemsError) throw itemsError;
+  const unitCost = new Map((items || []).map((item) => [item.id as string, item.unit_cost as number]));
+  if (parsed.data.some((line) => !unitCost.has(line.item_id))) {
+    throw new AppError(ErrorCode.NOT_FOUND, '품목을 찾을 수 없습니다');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('inventory_movements')
+    .delete()
+    .eq('sale_id', saleId)
+    .eq('type', 'out');
+
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from('inventory_movements').insert(
+    parsed.data.map((line) => ({
+      item_id: line.item_id,
+      type: 'out',
+      quantity: getSignedQuantity('out', line.quantity),
+      unit_cost: unitCost.get(line.item_id) ?? 0,
+      date: sale.date,
+      sale_id: sale.id,
+      created_by: user.id,
+    }))
+  );
+
+  if (error) throw error;
+  revalidatePath('/inventory');
+  return parsed.data.length;
+}
+
+export const recordSaleStockOut = withErrorLogging('recordSaleStockOut', _recordSaleStockOut);
+
+// 잘못 입력한 기록 삭제 (재고는 합계로 계산되므로 바로 반영)
+async function _deleteStockMovement(id: string): Promise<void> {
+  await requireRole('manager');
+  const parsed = uuidSchema.safeParse(id);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase.from('inventory_movements').delete().eq('id', id);
+
+  if (error) throw error;
+  revalidatePath('/inventory');
+}
+
+export const deleteStockMovement = withErrorLogging('deleteStockMovement', _deleteStockMovement);
@@ -0,0 +1,118 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { loyaltySettingsSchema, pointAdjustmentSchema, uuidSchema } from '@/lib/validations';
+import { recordAudit } from '@/lib/audit';
+import { getTodayKST } from '@/lib/utils';
+import {
+  getPointBalance,
+  getPointExpiryDate,
+  loadCustomerPointTransactions,
+  loadLoyaltySettings,
+} from '@/lib/loyalty';
+import type { CustomerPointTransaction, LoyaltySettings } from '@/types/database';
+
+function assertId(id: string) {
+  if (!uuidSchema.safeParse(id).success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+}
+
+async function _getLoyaltySettings(): Promise<LoyaltySettings> {
+  await requireRole('owner');
+  const supabase = await createClient();
+  return loadLoyaltySettings(supabase);
+}
+
+export const getLoyaltySettings = withErrorLogging('getLoyaltySettings', _getLoyaltySettings);
+
+async function _updateLoyaltySettings(input: LoyaltySettings): Promise<void> {
+  await requireRole('owner');
+  const parsed = loyaltySettingsSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('loyalty_settings')
+    .upsert({ id: 1, ...parsed.data, updated_at: new Date().toISOString() });
+  if (error) throw error;
+
+  revalidatePath('/settings');
+}
+
+export const updateLoyaltySettings = withErrorLogging('updateLoyaltySettings', _updateLoyaltySettings);
+
+// 매출 등록 화면에서 쓸 수 있는 포인트 (직원도 조회)
+async function _getCustomerPointBalance(customerId: string): Promise<number> {
+  await requireAuth();
+  assertId(customerId);
+  const supabase = await createClient();
+  return getPointBalance(await loadCustomerPointTransactions(supabase, customerId));
+}
+
+export const getCustomerPointBalance = withErrorLogging('getCustomerPointBalance', _getCustomerPointBalance);
+
+async function _getCustomerPointHistory(customerId: string): Promise<CustomerPointTransaction[]> {
+  await requireRole('manager');
+  assertId(customerId);
+  const supabase = await createClient();
+  return loadCustomerPointTransactions(supabase, customerId);
+}
+
+export const getCustomerPointHistory = withErrorLogging('getCustomerPointHistory', _getCustomerPointHistory);
+
+/** 수동 적립/차감 (사유 필수). 차감은 잔액까지만, 적립분은 설정한 기간 뒤 소멸 */
+async function _adjustCustomerPoints(customerId: string, input: { points: number; reason: string }): Promise<CustomerPointTransaction> {
+  const user = await requireRole('manager');
+  assertId(customerId);
+  const parsed = pointAdjustmentSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { data: customer, error: customerError } = await supabase
+    .from('customers')
+    .select('id')
+    .eq('id', customerId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (customerError) throw customerError;
+  if (!customer) throw new AppError(ErrorCode.NOT_FOUND, '고객을 찾을 수 없습니다');
+
+  const balance = getPointBalance(await loadCustomerPointTransactions(supabase, customerId));
+  if (balance + parsed.data.points < 0) {
+    throw new AppError(ErrorCode.VALIDATION, '보유 포인트보다 많이 차감할 수 없습니다');
+  }
+
+  const settings = await loadLoyaltySettings(supabase);
+  const { data, error } = await supabase
+    .from('customer_point_transactions')
+    .insert({
+      customer_id: customerId,
+      type: 'adjust',
+      points: parsed.data.points,
+      reason: parsed.data.reason,
+      expires_at: parsed.data.points > 0 ? getPointExpiryDate(getTodayKST(), settings) : null,
+      created_by: user.id,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  await recordAudit(supabase, user, {
+    action: 'adjustCustomerPoints',
+    entity_type: 'customer',
+    entity_id: customerId,
+    before: { point_balance: balance },
+    after: { point_balance: balance + parsed.data.points },
+  });
+
+  revalidatePath('/customers');
+  return data as CustomerPointTransaction;
+}
+
+export const adjustCustomerPoints = withErrorLogging('adjustCustomerPoints', _adjustCustomerPoints);
@@ -1,7 +1,8 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { requireAuth } from '@/lib/auth-guard';
+import { revalidatePath } from 'next/cache';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
 import { PhotoCard, PhotoFile } from '@/types/database';
 import { validateImageFile, photoCardSchema } from '@/lib/validations';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
@@ -37,6 +38,7 @@ async function _getPhotoCards(
       .from('photo_cards')
       .select('*, sales!inner(customer_id)')
       .eq('sales.customer_id', customerId)
+      .is('deleted_at', null)
       .order('updated_at', { ascending: false })
       .limit(PAGE_SIZE + 1);
 
@@ -67,6 +69,7 @@ async function _getPhotoCards(
   let query = supabase
     .from('photo_cards')
     .select('*')
+    .is('deleted_at', null)
     .order('updated_at', { ascending: false })
     .limit(PAGE_SIZE + 1);
 
@@ -203,29 +206,62 @@ async function _updatePhotoCard(id: string, formData: FormData): Promise<void> {
 
 export const updatePhotoCard = withErrorLogging('updatePhotoCard', _updatePhotoCard);
 
-async function _deletePhotoCard(id: string): Promise<PhotoFile[]> {
-  await requireAuth();
+// 휴지통으로 이동 (Storage 파일은 보관 기간 후 purge-trash 크론이 삭제)
+async function _deletePhotoCard(id: string): Promise<void> {
+  await requireRole('manager');
   const supabase = await createClient();
 
-  // Get card to retrieve photo URLs for storage cleanup
-  const { data: card } = await supabase
+  const { error } = await supabase
     .from('photo_cards')
-    .select('photos')
+    .update({ deleted_at: new Date().toISOString() })
     .eq('id', id)
-    .single();
+    .is('deleted_at', null);
 
-  const { error } = await supabase
+  if (error) throw error;
+
+  revalidatePath('/trash');
+}
+
+export const deletePhotoCard = withErrorLogging('deletePhotoCard', _deletePhotoCard);
+
+// 휴지통에서 복원. 연결된 매출이 휴지통에 있거나 이미 다른 카드가 있으면 연결 없이 복원
+async function _restorePhotoCard(id: string): Promise<PhotoCard> {
+  await requireRole('manager');
+  const supabase = await createClient();
+
+  const { data: card, error: fetchError } = await supabase
     .from('photo_cards')
-    .delete()
-    .eq('id', id);
+    .select('id, sale_id')
+    .eq('id', id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!card) throw new AppError(ErrorCode.NOT_FOUND, '휴지통에서 카드를 찾을 수 없습니다');
+
+  let saleId: string | null = card.sale_id;
+  if (saleId) {
+    const [{ data: sale }, { data: otherCards }] = await Promise.all([
+      supabase.from('sales').select('id').eq('id', saleId).is('deleted_at', null).maybeSingle(),
+      supabase.from('photo_cards').select('id').eq('sale_id', saleId).is('deleted_at', null),
+    ]);
+    if (!sale || (otherCards || []).length > 0) saleId = null;
+  }
+
+  const { data, error } = await supabase
+    .from('photo_cards')
+    .update({ deleted_at: null, sale_id: saleId })
+    .eq('id', id)
+    .select()
+    .single();
 
   if (error) throw error;
 
-  // Return photos for storage cleanup
-  return (card?.photos as PhotoFile[]) || [];
+  revalidatePath('/gallery');
+  revalidatePath('/trash');
+  return data;
 }
 
-export const deletePhotoCard = withErrorLogging('deletePhotoCard', _deletePhotoCard);
+export const restorePhotoCard = withErrorLogging('restorePhotoCard', _restorePhotoCard);
 
 
 async function _uploadPhotos(cardId: string, formData: FormData): Promise<PhotoFile[]> {
@@ -295,7 +331,7 @@ async function _uploadPhotos(cardId: string, formData: FormData): Promise<PhotoF
 export const uploadPhotos = withErrorLogging('uploadPhotos', _uploadPhotos);
 
 async function _deletePhoto(cardId: string, photoUrl: string): Promise<void> {
-  await requireAuth();
+  await requireRole('manager');
   const supabase = await createClient();
 
   // Get current card
@@ -335,24 +371,6 @@ async function _deletePhoto(cardId: string, photoUrl: string): Promise<void> {
 
 export const deletePhoto = withErrorLogging('deletePhoto', _deletePhoto);
 
-async function _deletePhotosFromStorage(photos: PhotoFile[]): Promise<void> {
-  await requireAuth();
-  const supabase = await createClient();
-
-  const filePaths = photos
-    .map(photo => {
-      const parts = photo.url.split('/photo-cards/');
-      return parts.length > 1 ? parts[1] : null;
-    })
-    .filter((path): path is string => path !== null);
-
-  if (filePaths.length > 0) {
-    await supabase.storage.from('photo-cards').remove(filePaths);
-  }
-}
-
-export const deletePhotosFromStorage = withErrorLogging('deletePhotosFromStorage', _deletePhotosFromStorage);
-
 async function _reorderPhotos(cardId: string, photos: PhotoFile[]): Promise<void> {
   await requireAuth();
   const supabase = await createClient();
@@ -425,6 +443,7 @@ async function _getPhotoCardBySaleId(saleId: string): Promise<PhotoCard | null>
     .from('photo_cards')
     .select('*')
     .eq('sale_id', saleId)
+    .is('deleted_at', null)
     .single();
 
   if (error) {
@@ -1,7 +1,7 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { requireAuth } from '@/lib/auth-guard';
+import { requireRole } from '@/lib/auth-guard';
 import { PhotoTag } from '@/types/database';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
 
@@ -31,7 +31,7 @@ function getRandomColor(): string {
 }
 
 async function _createPhotoTag(name: string, color?: string): Promise<PhotoTag | null> {
-  await requireAuth();
+  await requireRole('manager');
   const supabase = await createClient();
 
   const trimmedName = name.trim();
@@ -61,7 +61,7 @@ async function _createPhotoTag(name: string, color?: string): Promise<PhotoTag |
 export const createPhotoTag = withErrorLogging('createPhotoTag', _createPhotoTag);
 
 async function _updatePhotoTag(id: string, name: string, color: string): Promise<void> {
-  await requireAuth();
+  await requireRole('manager');
   const supabase = await createClient();
 
   const trimmedName = name.trim();
@@ -85,7 +85,7 @@ async function _updatePhotoTag(id: string, name: string, color: string): Promise
 export const updatePhotoTag = withErrorLogging('updatePhotoTag', _updatePhotoTag);
 
 async function _deletePhotoTag(id: string): Promise<void> {
-  await requireAuth();
+  await requireRole('manager');
   const supabase = await createClient();
 
   // 먼저 태그 이름 가져오기
@@ -0,0 +1,143 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/lib/auth-guard';
+import type { InventoryItem, SaleCategory, SaleCategoryRecipe, SaleItem } from '@/types/database';
+import { monthSchema, recipeLinesSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { getMonthDateRange, getSaleLineItems } from '@/lib/utils';
+import { calculateSaleCogs, loadRecipeCosts } from '@/lib/recipes';
+
+type RecipeInputLine = { item_id: string; quantity: number };
+
+export interface RecipeOverview {
+  categories: SaleCategory[];
+  items: InventoryItem[];
+  recipes: SaleCategoryRecipe[];
+  // 카테고리별 상품 1개 추정 원가
+  recipeCosts: Record<string, number>;
+}
+
+/** 레시피 화면 데이터: 상품 카테고리, 재료 품목, 레시피, 1개 원가 */
+async function _getRecipeOverview(): Promise<RecipeOverview> {
+  await requireRole('manager');
+  const supabase = await createClient();
+
+  const [categoriesRes, itemsRes, recipesRes, recipeCosts] = await Promise.all([
+    supabase.from('sale_categories').select('*').order('sort_order', { ascending: true }),
+    supabase.from('inventory_items').select('*').eq('is_active', true).order('kind').order('name'),
+    supabase.from('sale_category_recipes')
+      .select('*, item:inventory_items(id, name, unit, unit_cost)')
+      .order('sort_order', { ascending: true }),
+    loadRecipeCosts(supabase),
+  ]);
+
+  if (categoriesRes.error) throw categoriesRes.error;
+  if (itemsRes.error) throw itemsRes.error;
+  if (recipesRes.error) throw recipesRes.error;
+
+  return {
+    categories: (categoriesRes.data || []) as SaleCategory[],
+    items: (itemsRes.data || []) as InventoryItem[],
+    recipes: (recipesRes.data || []) as SaleCategoryRecipe[],
+    recipeCosts: Object.fromEntries(recipeCosts),
+  };
+}
+
+export const getRecipeOverview = withErrorLogging('getRecipeOverview', _getRecipeOverview);
+
+/** 카테고리 레시피를 통째로 교체 (빈 목록이면 레시피 삭제) */
+async function _saveCategoryRecipe(categoryValue: string, lines: RecipeInputLine[]): Promise<void> {
+  await requireRole('manager');
+  const parsed = recipeLinesSchema.safeParse(lines);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues.map(i => i.message).join(', ')}`);
+  }
+
+  const supabase = await createClient();
+  const { data: category, error: categoryError } = await supabase
+    .from('sale_categories')
+    .select('value')
+    .eq('value', categoryValue)
+    .maybeSingle();
+
+  if (categoryError) throw categoryError;
+  if (!category) {
+    throw new AppError(ErrorCode.NOT_FOUND, '상품 카테고리를 찾을 수 없습니다');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('sale_category_recipes')
+    .delete()
+    .eq('category_value', categoryValue);
+
+  if (deleteError) throw deleteError;
+
+  if (parsed.data.length > 0) {
+    const { error } = await supabase.from('sale_category_recipes').insert(
+      parsed.data.map((line, index) => ({
+        category_value: categoryValue,
+        item_id: line.item_id,
+        quantity: line.quantity,
+        sort_order: index,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  revalidatePath('/inventory');
+}
+
+export const saveCategoryRecipe = withErrorLogging('saveCategoryRecipe', _saveCategoryRecipe);
+
+type CogsSaleRow = {
+  id: string;
+  product_category: string | null;
+  amount: number;
+  items: Pick<SaleItem, 'id' | 'product_category' | 'quantity' | 'unit_price' | 'discount' | 'amount' | 'sort_order'>[];
+};
+
+/**
+ * 한 달 매출의 추정 원가를 현재 레시피/단가로 다시 계산
+ * 레시피를 나중에 등록했거나 사입 단가가 크게 바뀌었을 때 사용
+ */
+async function _recalculateMonthCogs(month: string): Promise<number> {
+  await requireRole('manager');
+  const parsed = monthSchema.safeParse(month);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, parsed.error.issues[0]?.message ?? '입력값이 올바르지 않습니다');
+  }
+
+  const supabase = await createClient();
+  const { startDate, endDate } = getMonthDateRange(parsed.data);
+  const [salesRes, recipeCosts] = await Promise.all([
+    supabase.from('sales')
+      .select('id, product_category, amount, items:sale_items(id, product_category, quantity, unit_price, discount, amount, sort_order)')
+      .gte('date', startDate).lte('date', endDate).is('deleted_at', null),
+    loadRecipeCosts(supabase),
+  ]);
+
+  if (salesRes.error) throw salesRes.error;
+
+  const sales = (salesRes.data || []) as CogsSaleRow[];
+  const results = await Promise.all(sales.flatMap((sale) => {
+    const items = [...sale.items].sort((a, b) => a.sort_order - b.sort_order);
+    const cogs = calculateSaleCogs(getSaleLineItems({ ...sale, items }), recipeCosts);
+    return [
+      supabase.from('sales').update({ cogs: cogs.total }).eq('id', sale.id),
+      ...items.map((item, index) =>
+        supabase.from('sale_items').update({ cogs: cogs.lineCogs[index] }).eq('id', item.id)
+      ),
+    ];
+  }));
+
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+
+  revalidatePath('/');
+  revalidatePath('/sales');
+  return sales.length;
+}
+
+export const recalculateMonthCogs = withErrorLogging('recalculateMonthCogs', _recalculateMonthCogs);
@@ -0,0 +1,60 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { categoryWorkloadSchema, reservationCapacitySchema, uuidSchema } from '@/lib/validations';
+import { loadCapacityConfig } from '@/lib/capacity';
+import type { ReservationCapacityConfig } from '@/lib/capacity';
+import type { ReservationCapacity } from '@/types/database';
+
+async function _getReservationCapacity(): Promise<ReservationCapacityConfig> {
+  const supabase = await createClient();
+  return loadCapacityConfig(supabase);
+}
+
+export const getReservationCapacity = withErrorLogging('getReservationCapacity', _getReservationCapacity);
+
+async function _updateReservationCapacity(input: ReservationCapacity): Promise<void> {
+  await requireRole('owner');
+
+  const parsed = reservationCapacitySchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('reservation_capacity')
+    .upsert({ id: 1, ...parsed.data, updated_at: new Date().toISOString() });
+  if (error) throw error;
+
+  revalidatePath('/settings');
+  revalidatePath('/calendar');
+}
+
+export const updateReservationCapacity = withErrorLogging('updateReservationCapacity', _updateReservationCapacity);
+
+async function _updateCategoryWorkload(id: string, workload: number): Promise<void> {
+  await requireRole('owner');
+
+  const idParsed = uuidSchema.safeParse(id);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const parsed = categoryWorkloadSchema.safeParse(workload);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('sale_categories')
+    .update({ workload: Math.round(parsed.data * 10) / 10 })
+    .eq('id', id);
+  if (error) throw error;
+
+  revalidatePath('/settings');
+  revalidatePath('/calendar');
+}
+
+export const updateCategoryWorkload = withErrorLogging('updateCategoryWorkload', _updateCategoryWorkload);
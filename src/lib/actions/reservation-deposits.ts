@@ -0,0 +1,83 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import type { PaymentMethod, ReservationDeposit } from '@/types/database';
+import { reservationDepositSchema, uuidSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { recordAudit } from '@/lib/audit';
+
+/** 예약에 선금 기록 (매출 전환 전 예약만) */
+async function _createReservationDeposit(
+  reservationId: string,
+  input: { amount: number; payment_method: PaymentMethod | 'kakaopay'; date: string; note?: string | null },
+): Promise<ReservationDeposit> {
+  const user = await requireAuth();
+  const idParsed = uuidSchema.safeParse(reservationId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const parsed = reservationDepositSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const { data: reservation, error: fetchError } = await supabase
+    .from('reservations')
+    .select('id, status, sale_id')
+    .eq('id', reservationId)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!reservation) throw new AppError(ErrorCode.NOT_FOUND, '예약을 찾을 수 없습니다');
+  if (reservation.sale_id) throw new AppError(ErrorCode.VALIDATION, '이미 매출로 전환된 예약입니다');
+  if (reservation.status === 'cancelled') throw new AppError(ErrorCode.VALIDATION, '취소된 예약에는 선금을 받을 수 없습니다');
+
+  const { data, error } = await supabase
+    .from('reservation_deposits')
+    .insert({ reservation_id: reservationId, ...parsed.data, note: parsed.data.note?.trim() || null })
+    .select()
+    .single();
+  if (error) throw error;
+
+  await recordAudit(supabase, user, {
+    action: 'createReservationDeposit',
+    entity_type: 'reservation',
+    entity_id: reservationId,
+    after: data,
+  });
+
+  revalidatePath('/calendar');
+  return data as ReservationDeposit;
+}
+
+export const createReservationDeposit = withErrorLogging('createReservationDeposit', _createReservationDeposit);
+
+/** 선금 삭제 (매출에 반영된 선금은 매출을 고쳐야 하므로 불가) */
+async function _deleteReservationDeposit(id: string): Promise<void> {
+  const user = await requireRole('manager');
+  const parsed = uuidSchema.safeParse(id);
+  if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const supabase = await createClient();
+  const { data: deleted, error } = await supabase
+    .from('reservation_deposits')
+    .delete()
+    .eq('id', id)
+    .is('sale_id', null)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!deleted) throw new AppError(ErrorCode.VALIDATION, '매출에 반영된 선금은 삭제할 수 없습니다');
+
+  await recordAudit(supabase, user, {
+    action: 'deleteReservationDeposit',
+    entity_type: 'reservation',
+    entity_id: deleted.reservation_id,
+    before: deleted,
+  });
+
+  revalidatePath('/calendar');
+}
+
+export const deleteReservationDeposit = withErrorLogging('deleteReservationDeposit', _deleteReservationDeposit);
@@ -0,0 +1,309 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { parseISO } from 'date-fns';
+import { createClient } from '@/lib/supabase/server';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { phoneSchema, reservationSchema, uuidSchema } from '@/lib/validations';
+import { recordAudit } from '@/lib/audit';
+import { findCapacityWarnings } from '@/lib/capacity';
+import { getTodayKST } from '@/lib/utils';
+import {
+  findDuplicateReservation,
+  getDraftExternalUid,
+  getDraftIssues,
+  normalizeImportPhone,
+  parseKakaoOrderMessages,
+  parseNaverBookingCsv,
+} from '@/lib/reservation-import';
+import type { DraftParseResult, DuplicateCandidate, DuplicateReason } from '@/lib/reservation-import';
+import { findOrCreateCustomer } from './customers';
+import type { ReservationSaveResult } from './reservations';
+import type { Reservation, ReservationDraft, ReservationStatus } from '@/types/database';
+
+// 네이버 예약 CSV / 카카오톡 주문서 가져오기 → 검토 대기 초안 → 승인하면 예약 생성
+
+const MAX_IMPORT_TEXT_LENGTH = 1_000_000;
+const MAX_IMPORT_DRAFTS = 300;
+
+export interface ReservationDraftImportResult {
+  created: number;
+  skipped: { label: string; reason: string }[]; // 이미 가져온 예약번호, 취소된 예약, 양식이 아닌 메시지
+}
+
+type DuplicateReservation = Pick<Reservation, 'id' | 'date' | 'time' | 'customer_name' | 'title' | 'status'>;
+
+// 검토 화면용 — 고칠 항목과 기존 예약 중복 의심
+export interface ReservationDraftReview extends ReservationDraft {
+  issues: string[];
+  duplicate: { reservation: DuplicateReservation; reason: DuplicateReason } | null;
+}
+
+export interface ReservationDraftEdits {
+  date: string;
+  time?: string;
+  customer_name: string;
+  customer_phone?: string;
+  title: string;
+  description?: string;
+  estimated_amount?: number;
+  status?: ReservationStatus;
+}
+
+// ============ Import ============
+
+async function saveDrafts(parsed: DraftParseResult, userId: string): Promise<ReservationDraftImportResult> {
+  if (parsed.drafts.length > MAX_IMPORT_DRAFTS) {
+    throw new AppError(ErrorCode.VALIDATION, `한 번에 ${MAX_IMPORT_DRAFTS}건까지 가져올 수 있습니다`);
+  }
+
+  const supabase = await createClient();
+  const result: ReservationDraftImportResult = { created: 0, skipped: [...parsed.skipped] };
+
+  // 이미 검토 대기/승인된 예약번호, 이미 예약으로 만든 예약번호, 같은 내용으로 대기 중인 주문서는 건너뜀
+  const refs = [...new Set(parsed.drafts.map((d) => d.external_ref).filter((ref): ref is string => !!ref))];
+  const uids = parsed.drafts.map(getDraftExternalUid).filter((uid): uid is string => !!uid);
+  const [draftRefs, reservationUids, pendingTexts] = await Promise.all([
+    refs.length > 0
+      ? supabase.from('reservation_drafts').select('external_ref').eq('source', 'naver_booking').neq('status', 'rejected').in('external_ref', refs)
+      : Promise.resolve({ data: [], error: null }),
+    uids.length > 0
+      ? supabase.from('reservations').select('external_uid').in('external_uid', uids)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('reservation_drafts').select('raw_text').eq('source', 'kakaotalk').eq('status', 'pending'),
+  ]);
+  if (draftRefs.error) throw draftRefs.error;
+  if (reservationUids.error) throw reservationUids.error;
+  if (pendingTexts.error) throw pendingTexts.error;
+
+  const seenRefs = new Set<string>((draftRefs.data || []).map((d: { external_ref: string }) => d.external_ref));
+  const seenUids = new Set<string>((reservationUids.data || []).map((r: { external_uid: string }) => r.external_uid));
+  const seenTexts = new Set<string>((pendingTexts.data || []).map((d: { raw_text: string }) => d.raw_text));
+
+  const rows: Record<string, unknown>[] = [];
+  for (const draft of parsed.drafts) {
+    const uid = getDraftExternalUid(draft);
+    if (draft.external_ref && (seenRefs.has(draft.external_ref) || (uid && seenUids.has(uid)))) {
+      result.skipped.push({ label: `예약번호 ${draft.external_ref}`, reason: '이미 가져온 예약' });
+      continue;
+    }
+    if (draft.source === 'kakaotalk' && seenTexts.has(draft.raw_text)) {
+      result.skipped.push({ label: draft.customer_name || '주문서', reason: '같은 주문서가 검토 대기 중' });
+      continue;
+    }
+    if (draft.external_ref) seenRefs.add(draft.external_ref);
+    seenTexts.add(draft.raw_text);
+    rows.push({ ...draft, created_by: userId });
+  }
+
+  if (rows.length > 0) {
+    const { data, error } = await supabase.from('reservation_drafts').insert(rows).select('id');
+    if (error) throw error;
+    result.created = data?.length ?? 0;
+    revalidatePath('/calendar');
+  }
+  return result;
+}
+
+function checkImportText(text: string) {
+  if (!text.trim()) throw new AppError(ErrorCode.VALIDATION, '가져올 내용이 없습니다');
+  if (text.length > MAX_IMPORT_TEXT_LENGTH) throw new AppError(ErrorCode.VALIDATION, '내용이 너무 깁니다 (최대 1MB)');
+}
+
+async function _importNaverBookingCsv(csvText: string): Promise<ReservationDraftImportResult> {
+  const user = await requireRole('manager');
+  checkImportText(csvText);
+
+  const parsed = parseNaverBookingCsv(csvText, parseISO(getTodayKST()));
+  if (!parsed) {
+    throw new AppError(ErrorCode.VALIDATION, '네이버 예약 CSV 형식이 아닙니다 (예약자, 이용일시 열이 필요합니다)');
+  }
+  return saveDrafts(parsed, user.id);
+}
+
+export const importNaverBookingCsv = withErrorLogging('importNaverBookingCsv', _importNaverBookingCsv);
+
+async function _importKakaoOrders(messageText: string): Promise<ReservationDraftImportResult> {
+  const user = await requireAuth();
+  checkImportText(messageText);
+
+  const parsed = parseKakaoOrderMessages(messageText, parseISO(getTodayKST()));
+  if (parsed.drafts.length === 0) {
+    throw new AppError(ErrorCode.VALIDATION, '주문서 항목(성함, 연락처, 픽업 날짜 등)을 찾지 못했습니다');
+  }
+  return saveDrafts(parsed, user.id);
+}
+
+export const importKakaoOrders = withErrorLogging('importKakaoOrders', _importKakaoOrders);
+
+// ============ Review ============
+
+async function _getReservationDrafts(): Promise<ReservationDraftReview[]> {
+  await requireAuth();
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('reservation_drafts')
+    .select('*')
+    .eq('status', 'pending')
+    .order('date', { ascending: true, nullsFirst: true })
+    .order('time', { ascending: true, nullsFirst: false });
+  if (error) throw error;
+  const drafts = (data || []) as ReservationDraft[];
+  if (drafts.length === 0) return [];
+
+  // 같은 날짜 예약 + 같은 예약번호로 만든 예약과 비교
+  const dates = [...new Set(drafts.map((d) => d.date).filter((date): date is string => !!date))];
+  const uids = drafts.map(getDraftExternalUid).filter((uid): uid is string => !!uid);
+  const columns = 'id, date, time, customer_name, customer_phone, title, status, external_uid';
+  const [byDate, byUid] = await Promise.all([
+    dates.length > 0 ? supabase.from('reservations').select(columns).in('date', dates) : Promise.resolve({ data: [], error: null }),
+    uids.length > 0 ? supabase.from('reservations').select(columns).in('external_uid', uids) : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (byDate.error) throw byDate.error;
+  if (byUid.error) throw byUid.error;
+
+  const existing = new Map<string, DuplicateCandidate & { title: string }>();
+  for (const r of [...(byDate.data || []), ...(byUid.data || [])] as (DuplicateCandidate & { title: string })[]) {
+    existing.set(r.id, r);
+  }
+  const candidates = [...existing.values()];
+
+  return drafts.map((draft) => {
+    const match = findDuplicateReservation(draft, candidates);
+    return {
+      ...draft,
+      time: draft.time?.slice(0, 5) ?? null,
+      issues: getDraftIssues(draft),
+      duplicate: match
+        ? {
+            reason: match.reason,
+            reservation: {
+              id: match.reservation.id,
+              date: match.reservation.date,
+              time: match.reservation.time,
+              customer_name: match.reservation.customer_name,
+              title: match.reservation.title,
+              status: match.reservation.status,
+            },
+          }
+        : null,
+    };
+  });
+}
+
+export const getReservationDrafts = withErrorLogging('getReservationDrafts', _getReservationDrafts);
+
+async function _getPendingReservationDraftCount(): Promise<number> {
+  await requireAuth();
+  const supabase = await createClient();
+  const { count, error } = await supabase
+    .from('reservation_drafts')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending');
+  if (error) throw error;
+  return count ?? 0;
+}
+
+export const getPendingReservationDraftCount = withErrorLogging('getPendingReservationDraftCount', _getPendingReservationDraftCount);
+
+/**
+ * 초안을 (검토 화면에서 고친 값으로) 예약으로 만든다.
+ * 휴대폰 번호가 있으면 findOrCreateCustomer로 고객을 찾거나 만들어 연결, 예약 경로는 가져온 곳으로
+ */
+async function _approveReservationDraft(id: string, edits: ReservationDraftEdits): Promise<ReservationSaveResult> {
+  if (!uuidSchema.safeParse(id).success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const user = await requireAuth();
+
+  const parsed = reservationSchema.safeParse(edits);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+
+  // 동시에 두 번 승인해도 예약이 하나만 생기도록 먼저 승인 처리 (예약을 못 만들면 되돌림)
+  const { data: draft, error: claimError } = await supabase
+    .from('reservation_drafts')
+    .update({ status: 'approved', reviewed_by: user.id, reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+  if (claimError) throw claimError;
+  if (!draft) throw new AppError(ErrorCode.NOT_FOUND, '검토 대기 중인 항목이 아닙니다');
+
+  const phone = normalizeImportPhone(parsed.data.customer_phone) ?? parsed.data.customer_phone;
+  let customer: { id: string } | null = null;
+  let data: Reservation;
+  try {
+    customer = phone && phoneSchema.safeParse(phone).success
+      ? await findOrCreateCustomer(parsed.data.customer_name.trim(), phone)
+      : null;
+
+    const { data: inserted, error } = await supabase
+      .from('reservations')
+      .insert({
+        date: parsed.data.date,
+        time: parsed.data.time || null,
+        customer_name: parsed.data.customer_name,
+        customer_phone: phone || null,
+        title: parsed.data.title,
+        description: parsed.data.description || null,
+        estimated_amount: parsed.data.estimated_amount || 0,
+        status: parsed.data.status || draft.reservation_status,
+        channel: draft.source,
+        customer_id: customer?.id ?? null,
+        external_uid: getDraftExternalUid(draft),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError(ErrorCode.DUPLICATE, '이미 예약으로 만든 네이버 예약번호입니다');
+      }
+      throw error;
+    }
+    data = inserted as Reservation;
+  } catch (error) {
+    await supabase
+      .from('reservation_drafts')
+      .update({ status: 'pending', reviewed_by: null, reviewed_at: null })
+      .eq('id', id);
+    throw error;
+  }
+
+  const { error: updateError } = await supabase
+    .from('reservation_drafts')
+    .update({ reservation_id: data.id, customer_id: customer?.id ?? null })
+    .eq('id', id);
+  if (updateError) throw updateError;
+
+  await recordAudit(supabase, user, { action: 'approveReservationDraft', entity_type: 'reservation', entity_id: data.id, after: data });
+  revalidatePath('/calendar');
+  const warnings = await findCapacityWarnings(supabase, data);
+  return { reservation: data, warnings };
+}
+
+export const approveReservationDraft = withErrorLogging('approveReservationDraft', _approveReservationDraft);
+
+async function _rejectReservationDraft(id: string): Promise<void> {
+  if (!uuidSchema.safeParse(id).success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const user = await requireAuth();
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('reservation_drafts')
+    .update({ status: 'rejected', reviewed_by: user.id, reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new AppError(ErrorCode.NOT_FOUND, '검토 대기 중인 항목이 아닙니다');
+
+  revalidatePath('/calendar');
+}
+
+export const rejectReservationDraft = withErrorLogging('rejectReservationDraft', _rejectReservationDraft);
@@ -0,0 +1,371 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
+import type { RecurrenceFrequency, Reservation, ReservationSeries } from '@/types/database';
+import { recurrenceRuleSchema, reservationSeriesSchema, uuidSchema } from '@/lib/validations';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { recordAudit, pairAuditEntries } from '@/lib/audit';
+import { getTodayKST } from '@/lib/utils';
+import { generateOccurrenceDates, getSeriesEndDate, summarizeSeriesBilling, MAX_SERIES_OCCURRENCES } from '@/lib/recurrence';
+import type { SeriesBilling } from '@/lib/recurrence';
+import { deleteReservation } from './reservations';
+
+type SeriesFields = {
+  time?: string;
+  customer_name: string;
+  customer_phone?: string;
+  title: string;
+  description?: string;
+  estimated_amount?: number;
+  is_subscription?: boolean;
+};
+
+type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date?: string | null;
+  occurrence_count?: number | null;
+  skip_dates?: string[];
+};
+
+export type OccurrenceScope = 'single' | 'future';
+
+export type SeriesOccurrence = Reservation & { sale_amount: number | null };
+
+export interface ReservationSeriesDetail {
+  series: ReservationSeries;
+  occurrences: SeriesOccurrence[];
+  billing: SeriesBilling;
+}
+
+function parseSeriesInput(fields: SeriesFields, rule: RecurrenceRule) {
+  const fieldsParsed = reservationSeriesSchema.safeParse(fields);
+  if (!fieldsParsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${fieldsParsed.error.issues[0]?.message}`);
+  }
+  const ruleParsed = recurrenceRuleSchema.safeParse(rule);
+  if (!ruleParsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${ruleParsed.error.issues[0]?.message}`);
+  }
+
+  const r = ruleParsed.data;
+  const dates = generateOccurrenceDates(r);
+  if (dates.length === 0) {
+    throw new AppError(ErrorCode.VALIDATION, '반복 규칙에 해당하는 날짜가 없습니다');
+  }
+  if (dates.length > MAX_SERIES_OCCURRENCES) {
+    throw new AppError(ErrorCode.VALIDATION, `반복 예약은 최대 ${MAX_SERIES_OCCURRENCES}회까지 만들 수 있습니다`);
+  }
+
+  const f = fieldsParsed.data;
+  const series = {
+    frequency: r.frequency,
+    start_date: r.start_date,
+    end_date: r.end_date || null,
+    occurrence_count: r.occurrence_count || null,
+    skip_dates: [...new Set(r.skip_dates ?? [])].sort(),
+    title: f.title,
+    customer_name: f.customer_name,
+    customer_phone: f.customer_phone || null,
+    time: f.time || null,
+    description: f.description || null,
+    estimated_amount: f.estimated_amount || 0,
+    is_subscription: f.is_subscription ?? false,
+  };
+  return { series, dates };
+}
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+type SeriesRow = ReturnType<typeof parseSeriesInput>['series'];
+
+/** 규칙을 저장하고 날짜마다 예약을 만든다 */
+async function insertSeriesWithOccurrences(
+  supabase: SupabaseClient,
+  series: SeriesRow,
+  dates: string[],
+): Promise<{ series: ReservationSeries; reservations: Reservation[] }> {
+  const { data: created, error } = await supabase
+    .from('reservation_series')
+    .insert(series)
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { data: reservations, error: insertError } = await supabase
+    .from('reservations')
+    .insert(dates.map((date) => ({
+      date,
+      time: series.time,
+      customer_name: series.customer_name,
+      customer_phone: series.customer_phone,
+      title: series.title,
+      description: series.description,
+      estimated_amount: series.estimated_amount,
+      status: 'pending',
+      series_id: created.id,
+    })))
+    .select();
+
+  if (insertError) {
+    await supabase.from('reservation_series').delete().eq('id', created.id);
+    throw insertError;
+  }
+  return { series: created as ReservationSeries, reservations: (reservations || []) as Reservation[] };
+}
+
+/**
+ * 이 회차부터 매출 전환 전인 회차를 지우고 기존 규칙을 전날로 끝낸다 (첫 회차부터면 규칙 삭제, 선금을 받은 회차는 남김).
+ * next가 있으면 같은 트랜잭션에서 새 규칙과 회차를 만든다
+ */
+async function splitSeriesFrom(
+  supabase: SupabaseClient,
+  anchor: Reservation & { series_id: string },
+  next?: { series: SeriesRow; dates: string[] },
+): Promise<{ removed: Reservation[]; series: ReservationSeries | null; reservations: Reservation[] }> {
+  const { data: current, error: seriesError } = await supabase
+    .from('reservation_series')
+    .select('start_date')
+    .eq('id', anchor.series_id)
+    .maybeSingle();
+  if (seriesError) throw seriesError;
+  if (!current) throw new AppError(ErrorCode.NOT_FOUND, '반복 예약을 찾을 수 없습니다');
+
+  const { data, error } = await supabase.rpc('split_reservation_series', {
+    p_series_id: anchor.series_id,
+    p_from: anchor.date,
+    p_end_date: getSeriesEndDate(current, anchor.date),
+    p_series: next?.series ?? null,
+    p_dates: next?.dates ?? null,
+  });
+  if (error) throw error;
+  return data as { removed: Reservation[]; series: ReservationSeries | null; reservations: Reservation[] };
+}
+
+async function getAnchorReservation(supabase: SupabaseClient, reservationId: string): Promise<Reservation & { series_id: string }> {
+  const idParsed = uuidSchema.safeParse(reservationId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const { data, error } = await supabase.from('reservations').select('*').eq('id', reservationId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new AppError(ErrorCode.NOT_FOUND, '예약을 찾을 수 없습니다');
+  if (!data.series_id) throw new AppError(ErrorCode.VALIDATION, '반복 예약이 아닙니다');
+  return data as Reservation & { series_id: string };
+}
+
+/** 반복 규칙 상세 + 회차별 매출 전환 현황 */
+async function _getReservationSeries(seriesId: string): Promise<ReservationSeriesDetail> {
+  const idParsed = uuidSchema.safeParse(seriesId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const supabase = await createClient();
+  const [{ data: series, error: seriesError }, { data: reservations, error }] = await Promise.all([
+    supabase.from('reservation_series').select('*').eq('id', seriesId).maybeSingle(),
+    supabase.from('reservations').select('*').eq('series_id', seriesId).order('date'),
+  ]);
+  if (seriesError) throw seriesError;
+  if (error) throw error;
+  if (!series) throw new AppError(ErrorCode.NOT_FOUND, '반복 예약을 찾을 수 없습니다');
+
+  const rows = (reservations || []) as Reservation[];
+  const saleIds = rows.map((r) => r.sale_id).filter((id): id is string => !!id);
+  const saleAmounts = new Map<string, number>();
+  if (saleIds.length > 0) {
+    const { data: sales, error: salesError } = await supabase
+      .from('sales')
+      .select('id, amount')
+      .in('id', saleIds)
+      .is('deleted_at', null);
+    if (salesError) throw salesError;
+    (sales || []).forEach((s) => saleAmounts.set(s.id, s.amount));
+  }
+
+  const occurrences = rows.map((r) => ({ ...r, sale_amount: r.sale_id ? saleAmounts.get(r.sale_id) ?? null : null }));
+  return {
+    series: series as ReservationSeries,
+    occurrences,
+    billing: summarizeSeriesBilling(occurrences, getTodayKST()),
+  };
+}
+
+export const getReservationSeries = withErrorLogging('getReservationSeries', _getReservationSeries);
+
+async function _createReservationSeries(fields: SeriesFields, rule: RecurrenceRule): Promise<ReservationSeries> {
+  const user = await requireAuth();
+  const { series, dates } = parseSeriesInput(fields, rule);
+
+  const supabase = await createClient();
+  const { series: created, reservations } = await insertSeriesWithOccurrences(supabase, series, dates);
+
+  await recordAudit(supabase, user, reservations.map((r) => ({
+    action: 'createReservationSeries',
+    entity_type: 'reservation' as const,
+    entity_id: r.id,
+    after: r,
+  })));
+
+  revalidatePath('/calendar');
+  return created;
+}
+
+export const createReservationSeries = withErrorLogging('createReservationSeries', _createReservationSeries);
+
+/**
+ * 이 회차부터 반복 예약 내용 수정 (매출 전환 전 회차 + 규칙 기본값).
+ * 이 회차만 바꿀 때는 updateReservation 사용
+ */
+async function _updateFutureOccurrences(
+  reservationId: string,
+  fields: Omit<SeriesFields, 'is_subscription'>,
+): Promise<void> {
+  const user = await requireRole('manager');
+  const parsed = reservationSeriesSchema.omit({ is_subscription: true }).safeParse({
+    time: fields.time,
+    customer_name: fields.customer_name,
+    customer_phone: fields.customer_phone,
+    title: fields.title,
+    description: fields.description,
+    estimated_amount: fields.estimated_amount,
+  });
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  const anchor = await getAnchorReservation(supabase, reservationId);
+  const updates = {
+    time: parsed.data.time || null,
+    customer_name: parsed.data.customer_name,
+    customer_phone: parsed.data.customer_phone || null,
+    title: parsed.data.title,
+    description: parsed.data.description || null,
+    estimated_amount: parsed.data.estimated_amount || 0,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: before, error: beforeError } = await supabase
+    .from('reservations')
+    .select('*')
+    .eq('series_id', anchor.series_id)
+    .gte('date', anchor.date)
+    .is('sale_id', null)
+    .neq('status', 'completed');
+  if (beforeError) throw beforeError;
+
+  const { error: seriesError } = await supabase
+    .from('reservation_series')
+    .update(updates)
+    .eq('id', anchor.series_id);
+  if (seriesError) throw seriesError;
+
+  if (before && before.length > 0) {
+    const { data: updated, error } = await supabase
+      .from('reservations')
+      .update(updates)
+      .in('id', before.map((r) => r.id))
+      .select();
+    if (error) throw error;
+
+    await recordAudit(supabase, user, pairAuditEntries('updateFutureOccurrences', 'reservation', before, updated || []));
+  }
+  revalidatePath('/calendar');
+}
+
+export const updateFutureOccurrences = withErrorLogging('updateFutureOccurrences', _updateFutureOccurrences);
+
+/**
+ * 이 회차부터 반복 규칙 변경.
+ * 기존 규칙은 전날로 끝내고(첫 회차부터면 삭제) 매출 전환 전 이후 회차를 지운 뒤, 새 규칙으로 다시 만든다 — 한 트랜잭션
+ * 매출 전환·완료됐거나 선금을 받아 남은 회차의 날짜는 건너뛴다
+ */
+async function _changeSeriesFromOccurrence(
+  reservationId: string,
+  fields: SeriesFields,
+  rule: Omit<RecurrenceRule, 'start_date'>,
+): Promise<ReservationSeries> {
+  const user = await requireRole('manager');
+  const supabase = await createClient();
+  const anchor = await getAnchorReservation(supabase, reservationId);
+  const { series, dates } = parseSeriesInput(fields, { ...rule, start_date: anchor.date });
+
+  // 매출 전환·완료됐거나 선금을 받아 남는 회차의 날짜에는 새 회차를 만들지 않음 (같은 날 예약이 두 개가 되지 않게)
+  const { data: future, error: futureError } = await supabase
+    .from('reservations')
+    .select('date, sale_id, status, deposits:reservation_deposits(id)')
+    .eq('series_id', anchor.series_id)
+    .gte('date', anchor.date);
+  if (futureError) throw futureError;
+  const keptDates = new Set(
+    (future || [])
+      .filter((r) => r.sale_id || r.status === 'completed' || (r.deposits as { id: string }[] | null)?.length)
+      .map((r) => r.date as string),
+  );
+  const newDates = dates.filter((date) => !keptDates.has(date));
+  if (newDates.length === 0) {
+    throw new AppError(ErrorCode.VALIDATION, '새 규칙으로 만들 회차가 없습니다 (남은 날짜가 모두 매출 전환·완료됐거나 선금을 받은 회차)');
+  }
+
+  const { removed, series: created, reservations } = await splitSeriesFrom(supabase, anchor, { series, dates: newDates });
+
+  await recordAudit(supabase, user, [
+    ...removed.map((r) => ({
+      action: 'changeSeriesFromOccurrence',
+      entity_type: 'reservation' as const,
+      entity_id: r.id,
+      before: r,
+    })),
+    ...reservations.map((r) => ({
+      action: 'changeSeriesFromOccurrence',
+      entity_type: 'reservation' as const,
+      entity_id: r.id,
+      after: r,
+    })),
+  ]);
+
+  revalidatePath('/calendar');
+  return created as ReservationSeries;
+}
+
+export const changeSeriesFromOccurrence = withErrorLogging('changeSeriesFromOccurrence', _changeSeriesFromOccurrence);
+
+/**
+ * 반복 예약 삭제.
+ * single: 이 회차만 지우고 건너뛸 날짜에 추가, future: 이 회차부터 매출 전환 전 회차를 지우고 규칙을 전날로 끝냄 (첫 회차부터면 규칙 삭제)
+ */
+async function _deleteReservationOccurrences(reservationId: string, scope: OccurrenceScope): Promise<void> {
+  const user = await requireRole('manager');
+  const supabase = await createClient();
+  const anchor = await getAnchorReservation(supabase, reservationId);
+
+  if (scope === 'single') {
+    await deleteReservation(reservationId);
+    const { data: series, error: seriesError } = await supabase
+      .from('reservation_series')
+      .select('skip_dates')
+      .eq('id', anchor.series_id)
+      .maybeSingle();
+    if (seriesError) throw seriesError;
+    if (series) {
+      const { error } = await supabase
+        .from('reservation_series')
+        .update({ skip_dates: [...new Set([...series.skip_dates, anchor.date])].sort(), updated_at: new Date().toISOString() })
+        .eq('id', anchor.series_id);
+      if (error) throw error;
+    }
+    revalidatePath('/calendar');
+    return;
+  }
+
+  const { removed } = await splitSeriesFrom(supabase, anchor);
+
+  await recordAudit(supabase, user, removed.map((r) => ({
+    action: 'deleteReservationOccurrences',
+    entity_type: 'reservation' as const,
+    entity_id: r.id,
+    before: r,
+  })));
+  revalidatePath('/calendar');
+}
+
+export const deleteReservationOccurrences = withErrorLogging('deleteReservationOccurrences', _deleteReservationOccurrences);
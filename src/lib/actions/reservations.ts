@@ -2,20 +2,27 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
 import { createSale } from './sales';
 import type { Reservation, ReservationStatus, Sale } from '@/types/database';
-import { reservationSchema, uuidSchema } from '@/lib/validations';
+import { dateSchema, reservationSchema, uuidSchema } from '@/lib/validations';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
 import { getMonthDateRange } from '@/lib/utils';
+import { recordAudit } from '@/lib/audit';
+import { findCapacityWarnings } from '@/lib/capacity';
+import type { CapacityWarning } from '@/lib/capacity';
 
-async function _getReservations(month: string): Promise<Reservation[]> {
-  const supabase = await createClient();
-  const { startDate, endDate } = getMonthDateRange(month);
+// 수용량 초과는 저장을 막지 않고 경고로 돌려줌
+export interface ReservationSaveResult {
+  reservation: Reservation;
+  warnings: CapacityWarning[];
+}
 
+async function queryReservations(startDate: string, endDate: string): Promise<Reservation[]> {
+  const supabase = await createClient();
   const { data, error } = await supabase
     .from('reservations')
-    .select('*')
+    .select('*, deposits:reservation_deposits(*)')
     .gte('date', startDate)
     .lte('date', endDate)
     .order('date')
@@ -25,8 +32,23 @@ async function _getReservations(month: string): Promise<Reservation[]> {
   return (data || []) as Reservation[];
 }
 
+async function _getReservations(month: string): Promise<Reservation[]> {
+  const { startDate, endDate } = getMonthDateRange(month);
+  return queryReservations(startDate, endDate);
+}
+
 export const getReservations = withErrorLogging('getReservations', _getReservations);
 
+// 달력 화면 범위 (앞뒤 달 날짜 포함, 주간 보기가 달을 걸칠 때)
+async function _getReservationsInRange(startDate: string, endDate: string): Promise<Reservation[]> {
+  if (!dateSchema.safeParse(startDate).success || !dateSchema.safeParse(endDate).success) {
+    throw new AppError(ErrorCode.VALIDATION, '날짜 형식이 올바르지 않습니다');
+  }
+  return queryReservations(startDate, endDate);
+}
+
+export const getReservationsInRange = withErrorLogging('getReservationsInRange', _getReservationsInRange);
+
 async function _createReservation(formData: {
   date: string;
   time?: string;
@@ -37,8 +59,9 @@ async function _createReservation(formData: {
   estimated_amount?: number;
   status?: ReservationStatus;
   reminder_at?: string | null;
-}): Promise<Reservation> {
-  await requireAuth();
+  product_category?: string | null;
+}): Promise<ReservationSaveResult> {
+  const user = await requireAuth();
 
   const parsed = reservationSchema.safeParse(formData);
   if (!parsed.success) {
@@ -59,12 +82,16 @@ async function _createReservation(formData: {
       estimated_amount: parsed.data.estimated_amount || 0,
       status: parsed.data.status || 'pending',
       reminder_at: parsed.data.reminder_at || null,
+      product_category: parsed.data.product_category || null,
     })
     .select()
     .single();
 
   if (error) throw error;
-  return data as Reservation;
+
+  await recordAudit(supabase, user, { action: 'createReservation', entity_type: 'reservation', entity_id: data.id, after: data });
+  const warnings = await findCapacityWarnings(supabase, data);
+  return { reservation: data as Reservation, warnings };
 }
 
 export const createReservation = withErrorLogging('createReservation', _createReservation);
@@ -82,9 +109,10 @@ async function _updateReservation(
     status?: ReservationStatus;
     sale_id?: string | null;
     reminder_at?: string | null;
+    product_category?: string | null;
   }
-): Promise<void> {
-  await requireAuth();
+): Promise<CapacityWarning[]> {
+  const user = await requireRole('manager');
 
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
@@ -99,6 +127,7 @@ async function _updateReservation(
     estimated_amount: formData.estimated_amount,
     status: formData.status,
     reminder_at: formData.reminder_at,
+    product_category: formData.product_category,
   });
   if (!parsed.success) {
     throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
@@ -117,36 +146,65 @@ async function _updateReservation(
   }
 
   const supabase = await createClient();
-  const { error } = await supabase
+  const { data: before } = await supabase.from('reservations').select('*').eq('id', id).maybeSingle();
+  const { data: updated, error } = await supabase
     .from('reservations')
     .update(updates)
-    .eq('id', id);
+    .eq('id', id)
+    .select()
+    .maybeSingle();
 
   if (error) throw error;
+  if (!updated) return [];
+  await recordAudit(supabase, user, { action: 'updateReservation', entity_type: 'reservation', entity_id: id, before, after: updated });
+
+  // 날짜/시간/상품/상태가 바뀐 경우에만 수용량 확인
+  const slotChanged = !before || (['date', 'time', 'product_category', 'status'] as const).some((key) => before[key] !== updated[key]);
+  return slotChanged ? findCapacityWarnings(supabase, updated) : [];
 }
 
 export const updateReservation = withErrorLogging('updateReservation', _updateReservation);
 
 async function _deleteReservation(id: string): Promise<void> {
-  await requireAuth();
+  const user = await requireRole('manager');
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
   const supabase = await createClient();
-  const { error } = await supabase.from('reservations').delete().eq('id', id);
+
+  // 선금은 돌려줘야 할 돈이라 예약과 함께 지우지 않음 (reservation_deposits FK도 RESTRICT)
+  const { data: deposits, error: depositsError } = await supabase
+    .from('reservation_deposits')
+    .select('sale_id')
+    .eq('reservation_id', id);
+  if (depositsError) throw depositsError;
+  if (deposits && deposits.length > 0) {
+    throw new AppError(
+      ErrorCode.VALIDATION,
+      deposits.some((d) => !d.sale_id)
+        ? '선금을 받은 예약은 삭제할 수 없습니다. 선금을 먼저 삭제(환불)해주세요'
+        : '선금이 매출에 반영된 예약은 삭제할 수 없습니다',
+    );
+  }
+
+  const { data: deleted, error } = await supabase.from('reservations').delete().eq('id', id).select().maybeSingle();
   if (error) throw error;
+
+  if (deleted) {
+    await recordAudit(supabase, user, { action: 'deleteReservation', entity_type: 'reservation', entity_id: id, before: deleted });
+  }
 }
 
 export const deleteReservation = withErrorLogging('deleteReservation', _deleteReservation);
 
 /**
  * 예약을 매출로 변환한다.
- * 1) 예약 조회 → 2) 매출 생성 (FormData 사용) → 3) 예약 상태 completed + sale_id 연결
+ * 1) 예약 조회 → 2) 매출 생성 (FormData 사용, 받은 선금은 createSale에서 차감·연결) → 3) 예약 상태 completed + sale_id 연결 → 4) 배송 연결
  */
 async function _convertReservationToSale(
   reservationId: string,
   saleFormData: FormData,
 ): Promise<Sale> {
-  await requireAuth();
+  const user = await requireAuth();
   const supabase = await createClient();
 
   // 1. 예약 조회
@@ -165,14 +223,34 @@ async function _convertReservationToSale(
   const sale = await createSale(saleFormData);
 
   // 3. 예약 상태 업데이트: completed + sale_id 연결
-  await supabase
+  const { data: updated } = await supabase
     .from('reservations')
     .update({
       status: 'completed',
       sale_id: sale.id,
       updated_at: new Date().toISOString(),
     })
-    .eq('id', reservationId);
+    .eq('id', reservationId)
+    .select()
+    .maybeSingle();
+
+  // 4. 예약에 딸린 배송도 매출에 연결
+  const { error: deliveryError } = await supabase
+    .from('deliveries')
+    .update({ sale_id: sale.id })
+    .eq('reservation_id', reservationId)
+    .is('sale_id', null);
+  if (deliveryError) throw deliveryError;
+
+  if (updated) {
+    await recordAudit(supabase, user, {
+      action: 'convertReservationToSale',
+      entity_type: 'reservation',
+      entity_id: reservationId,
+      before: reservation,
+      after: updated,
+    });
+  }
 
   revalidatePath('/calendar');
   revalidatePath('/');
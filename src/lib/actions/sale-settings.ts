@@ -2,7 +2,7 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
+import { requireRole } from '@/lib/auth-guard';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
 
 export interface SaleCategory {
@@ -11,6 +11,7 @@ export interface SaleCategory {
   label: string;
   color: string;
   sort_order: number;
+  workload?: number;
   created_at: string;
 }
 
@@ -39,7 +40,7 @@ export const getSaleCategories = withErrorLogging('getSaleCategories', _getSaleC
 
 // 카테고리 생성
 async function _createSaleCategory(label: string, color?: string): Promise<SaleCategory> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
 
   // value 생성 (영문 스네이크케이스)
@@ -75,7 +76,7 @@ export const createSaleCategory = withErrorLogging('createSaleCategory', _create
 
 // 카테고리 수정
 async function _updateSaleCategory(id: string, label: string, color: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
   const { error } = await supabase
     .from('sale_categories')
@@ -96,7 +97,7 @@ export const updateSaleCategory = withErrorLogging('updateSaleCategory', _update
 
 // 카테고리 삭제
 async function _deleteSaleCategory(id: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
   const { error } = await supabase
     .from('sale_categories')
@@ -127,7 +128,7 @@ export const getPaymentMethods = withErrorLogging('getPaymentMethods', _getPayme
 // 결제방식 생성 (주의: value는 sales 테이블 CHECK 제약조건에 맞아야 함)
 // 기본 결제방식: cash, card, transfer, naverpay, kakaopay
 async function _createPaymentMethod(label: string, color?: string, value?: string): Promise<PaymentMethod> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
 
   // value가 없으면 생성 (영문 스네이크케이스)
@@ -163,7 +164,7 @@ export const createPaymentMethod = withErrorLogging('createPaymentMethod', _crea
 
 // 결제방식 수정 (value는 수정 불가 - CHECK 제약조건 때문)
 async function _updatePaymentMethod(id: string, label: string, color: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
   const { error } = await supabase
     .from('payment_methods')
@@ -184,7 +185,7 @@ export const updatePaymentMethod = withErrorLogging('updatePaymentMethod', _upda
 
 // 결제방식 삭제
 async function _deletePaymentMethod(id: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
   const supabase = await createClient();
   const { error } = await supabase
     .from('payment_methods')
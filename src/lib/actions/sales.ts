@@ -2,12 +2,21 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import { requireAuth } from '@/lib/auth-guard';
+import { requireAuth, requireRole } from '@/lib/auth-guard';
 import { findOrCreateCustomer } from './customers';
-import type { Sale } from '@/types/database';
-import { saleSchema, idsSchema, uuidSchema, validateImageFile } from '@/lib/validations';
+import type { Sale, SaleItem, SaleRefund, SalePayment, DepositStatus, PaymentMethod, CardCompanySetting, CardFeeRate, DeletedLinks } from '@/types/database';
+import { saleSchema, saleItemsSchema, salePaymentsSchema, saleRefundSchema, idsSchema, uuidSchema, validateImageFile, getFormInt } from '@/lib/validations';
 import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
-import { getMonthDateRange } from '@/lib/utils';
+import { getMonthDateRange, calculateLineAmount, calculateSaleItemsTotal, getNetAmount } from '@/lib/utils';
+import type { SaleLineInput } from '@/lib/utils';
+import { calculateCardSettlement, resolveFeeRate } from '@/lib/business-days';
+import { recordAudit, pairAuditEntries } from '@/lib/audit';
+import { getRelinkableIds } from '@/lib/trash';
+import { calculateSaleCogs, loadRecipeCosts } from '@/lib/recipes';
+import { getDepositTotal, getSaleBalance } from '@/lib/reservation-deposits';
+import { calculateEarnedPoints, getPointBalance, loadCustomerPointTransactions, loadLoyaltySettings, replaceSaleEarnedPoints, syncSaleRefundPoints, validatePointRedemption } from '@/lib/loyalty';
+import { loadGiftVoucher, normalizeVoucherCode, validateVoucherRedemption } from '@/lib/gift-vouchers';
+import { allocatePaymentRefunds, isSamePayments, validateSalePayments, type SalePaymentInput } from '@/lib/sale-payments';
 
 const BUCKET_NAME = 'sale-photos';
 
@@ -37,6 +46,265 @@ async function resolveCustomerId(
   return null;
 }
 
+/**
+ * 매출 폼 데이터에서 품목 목록을 읽는다.
+ * items(JSON 배열)가 없으면 product_category/amount로 단일 품목을 만든다 (예약 → 매출 변환 등 기존 호출 호환)
+ * 둘 다 없으면 null
+ */
+function parseSaleItems(formData: FormData): SaleLineInput[] | null {
+  const rawItems = formData.get('items');
+  if (typeof rawItems === 'string' && rawItems) {
+    let json: unknown;
+    try {
+      json = JSON.parse(rawItems);
+    } catch {
+      throw new AppError(ErrorCode.VALIDATION, '품목 정보가 올바르지 않습니다');
+    }
+    const parsed = saleItemsSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+    }
+    return parsed.data;
+  }
+
+  const productCategory = formData.get('product_category');
+  if (typeof productCategory !== 'string' || !productCategory) return null;
+  const amount = parseInt(formData.get('amount') as string) || 0;
+  return [{ product_category: productCategory, quantity: 1, unit_price: amount, discount: 0 }];
+}
+
+// 품목 입력 → sale_items 저장 행 (sort_order는 입력 순서, lineCogs는 품목별 추정 원가, sale_id는 호출하는 쪽에서)
+function toSaleItemRows(items: SaleLineInput[], lineCogs: (number | null)[] = []) {
+  return items.map((item, index) => ({
+    product_category: item.product_category,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    discount: item.discount,
+    amount: calculateLineAmount(item),
+    cogs: lineCogs[index] ?? null,
+    sort_order: index,
+  }));
+}
+
+/** 매출 품목을 통째로 교체한다 */
+async function replaceSaleItems(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  saleId: string,
+  items: SaleLineInput[],
+  lineCogs: (number | null)[] = [],
+) {
+  const { error: deleteError } = await supabase.from('sale_items').delete().eq('sale_id', saleId);
+  if (deleteError) throw deleteError;
+
+  const rows = toSaleItemRows(items, lineCogs).map((row) => ({ ...row, sale_id: saleId }));
+  const { error } = await supabase.from('sale_items').insert(rows);
+  if (error) throw error;
+}
+
+/**
+ * 매출 폼 데이터에서 결제 목록을 읽는다.
+ * payments(JSON 배열)가 없으면 payment_method/card_company로 잔금 전액 단일 결제를 만든다 (예약 → 매출 변환 등 기존 호출 호환)
+ * 둘 다 없으면 null
+ */
+function parseSalePayments(formData: FormData, balance: number): SalePaymentInput[] | null {
+  const rawPayments = formData.get('payments');
+  if (typeof rawPayments === 'string' && rawPayments) {
+    let json: unknown;
+    try {
+      json = JSON.parse(rawPayments);
+    } catch {
+      throw new AppError(ErrorCode.VALIDATION, '결제 정보가 올바르지 않습니다');
+    }
+    const parsed = salePaymentsSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+    }
+    return parsed.data;
+  }
+
+  const paymentMethod = formData.get('payment_method');
+  if (typeof paymentMethod !== 'string' || !paymentMethod) return null;
+  if (balance === 0 || paymentMethod === 'voucher') return [];
+  return [{
+    payment_method: paymentMethod as SalePaymentInput['payment_method'],
+    amount: balance,
+    card_company: formData.get('card_company') as string || null,
+  }];
+}
+
+function assertSalePayments(payments: SalePaymentInput[], balance: number) {
+  const paymentError = validateSalePayments(payments, balance);
+  if (paymentError) throw new AppError(ErrorCode.VALIDATION, paymentError);
+}
+
+// 결제방식 '선불권'은 잔금 없이 선불권으로만 결제한 매출
+function assertVoucherPaymentMethod(paymentMethod: string, balance: number, voucherAmount: number) {
+  if (paymentMethod === 'voucher' && (balance > 0 || voucherAmount === 0)) {
+    throw new AppError(ErrorCode.VALIDATION, '선불권으로 결제하지 않은 금액의 결제방식을 선택해주세요');
+  }
+}
+
+interface CardSettlementFields {
+  fee: number | null;
+  expected_deposit: number | null;
+  expected_deposit_date: string | null;
+  deposit_status: DepositStatus;
+}
+
+/**
+ * 수수료/입금예정액/입금예정일을 카드사 설정으로 계산한다 (클라이언트 값은 신뢰하지 않음)
+ * 카드사 미지정 카드 매출은 입금 대기로만 두고 금액/날짜는 비워둔다
+ */
+async function resolveCardSettlement(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  input: { payment_method: PaymentMethod | string; card_company: string | null; amount: number; date: string },
+  currentStatus?: DepositStatus,
+): Promise<CardSettlementFields> {
+  if (input.payment_method !== 'card') {
+    return { fee: null, expected_deposit: null, expected_deposit_date: null, deposit_status: 'not_applicable' };
+  }
+
+  // 이미 입금 확인된 매출은 상태 유지
+  const deposit_status: DepositStatus = currentStatus === 'completed' ? 'completed' : 'pending';
+
+  if (!input.card_company) {
+    return { fee: null, expected_deposit: null, expected_deposit_date: null, deposit_status };
+  }
+
+  const { data: setting, error } = await supabase
+    .from('card_company_settings')
+    .select('fee_rate, deposit_days, deposit_rule, deposit_weekday, fee_rates:card_fee_rates(fee_rate, effective_from)')
+    .eq('name', input.card_company)
+    .maybeSingle();
+  if (error) throw error;
+  if (!setting) {
+    throw new AppError(ErrorCode.VALIDATION, `등록되지 않은 카드사입니다: ${input.card_company}`);
+  }
+
+  // 수수료율은 매출일에 적용되던 이력 기준
+  const rule = setting as CardCompanySetting & { fee_rates: Pick<CardFeeRate, 'fee_rate' | 'effective_from'>[] };
+  return {
+    ...calculateCardSettlement(input.amount, input.date, {
+      ...rule,
+      fee_rate: resolveFeeRate(rule.fee_rates, input.date, rule.fee_rate),
+    }),
+    deposit_status,
+  };
+}
+
+// 결제 입력 → sale_payments 저장 행 (sort_order는 입력 순서, sale_id는 호출하는 쪽에서, 카드 입금 정보는 syncSalePayments에서)
+function toSalePaymentRows(payments: SalePaymentInput[]) {
+  return payments.map((payment, index) => ({
+    payment_method: payment.payment_method,
+    amount: payment.amount,
+    card_company: payment.card_company || null,
+    sort_order: index,
+  }));
+}
+
+/** 매출 결제를 통째로 교체한다 (카드 입금 정보는 syncSalePayments에서 계산) */
+async function replaceSalePayments(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  saleId: string,
+  payments: SalePaymentInput[],
+) {
+  const { error: deleteError } = await supabase.from('sale_payments').delete().eq('sale_id', saleId);
+  if (deleteError) throw deleteError;
+  if (payments.length === 0) return;
+
+  const rows = toSalePaymentRows(payments).map((row) => ({ ...row, sale_id: saleId }));
+  const { error } = await supabase.from('sale_payments').insert(rows);
+  if (error) throw error;
+}
+
+/**
+ * 환불을 결제별로 다시 나누고 미입금 카드 결제의 입금 정보를 결제별 실결제액 기준으로 맞춘다
+ * 전액 환불된 결제는 입금 대기를 해제하고, 이미 입금 확인된 결제는 건드리지 않는다
+ */
+async function syncSalePayments(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  saleId: string,
+  date: string,
+  refunds: { amount: number; refund_method: string }[],
+) {
+  const { data, error } = await supabase
+    .from('sale_payments')
+    .select('id, payment_method, amount, card_company, deposit_status')
+    .eq('sale_id', saleId)
+    .order('sort_order');
+  if (error) throw error;
+
+  const payments = data || [];
+  const refunded = allocatePaymentRefunds(payments, refunds);
+  for (const [index, payment] of payments.entries()) {
+    const net = payment.amount - refunded[index];
+    let settlement: Partial<CardSettlementFields> = {};
+    if (payment.deposit_status !== 'completed') {
+      settlement = net === 0
+        ? { fee: null, expected_deposit: null, expected_deposit_date: null, deposit_status: 'not_applicable' }
+        : await resolveCardSettlement(supabase, {
+            payment_method: payment.payment_method,
+            card_company: payment.card_company,
+            amount: net,
+            date,
+          }, payment.deposit_status);
+    }
+
+    const { error: updateError } = await supabase
+      .from('sale_payments')
+      .update({ refunded_amount: refunded[index], ...settlement })
+      .eq('id', payment.id);
+    if (updateError) throw updateError;
+  }
+}
+
+/** 환불 누계를 다시 계산하고 결제별 환불·입금 정보와 포인트를 맞춘다 */
+async function syncSaleRefunds(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  createdBy: string,
+  saleId: string,
+): Promise<Sale> {
+  const [{ data: sale, error }, { data: refunds, error: refundsError }] = await Promise.all([
+    supabase.from('sales').select('date').eq('id', saleId).single(),
+    supabase.from('sale_refunds').select('amount, refund_method').eq('sale_id', saleId).order('created_at'),
+  ]);
+  if (error) throw error;
+  if (refundsError) throw refundsError;
+
+  await syncSalePayments(supabase, saleId, sale.date, refunds || []);
+
+  const refundedAmount = (refunds || []).reduce((sum, r) => sum + r.amount, 0);
+  const { data: updated, error: updateError } = await supabase
+    .from('sales')
+    .update({ refunded_amount: refundedAmount })
+    .eq('id', saleId)
+    .select()
+    .single();
+  if (updateError) throw updateError;
+
+  await syncSaleRefundPoints(supabase, createdBy, updated, await loadLoyaltySettings(supabase));
+  return updated as Sale;
+}
+
+type SaleRow = Sale & {
+  customer?: { name: string; phone: string } | null;
+  items?: SaleItem[] | null;
+  refunds?: SaleRefund[] | null;
+  payments?: SalePayment[] | null;
+};
+
+// DB 조회 결과에 고객 정보와 정렬된 품목/환불/결제 이력을 병합
+function toSale(row: SaleRow): Sale {
+  return {
+    ...row,
+    customer_name: row.customer?.name || row.customer_name,
+    customer_phone: row.customer?.phone || row.customer_phone,
+    items: (row.items || []).sort((a, b) => a.sort_order - b.sort_order),
+    refunds: (row.refunds || []).sort((a, b) => a.refund_date.localeCompare(b.refund_date)),
+    payments: (row.payments || []).sort((a, b) => a.sort_order - b.sort_order),
+  };
+}
+
 async function _getSales(month?: string) {
   const supabase = await createClient();
 
@@ -44,8 +312,13 @@ async function _getSales(month?: string) {
     .from('sales')
     .select(`
       *,
-      customer:customers(id, name, phone)
+      customer:customers(id, name, phone),
+      items:sale_items(*),
+      refunds:sale_refunds(*),
+      payments:sale_payments(*),
+      deposits:reservation_deposits(amount, payment_method)
     `)
+    .is('deleted_at', null)
     .order('date', { ascending: false });
 
   if (month) {
@@ -56,38 +329,32 @@ async function _getSales(month?: string) {
   const { data, error } = await query;
   if (error) throw error;
 
-  // 고객 정보를 매출 데이터에 병합
-  const salesWithCustomer = (data || []).map(sale => ({
-    ...sale,
-    customer_name: sale.customer?.name || sale.customer_name,
-    customer_phone: sale.customer?.phone || sale.customer_phone,
-  }));
-
-  return salesWithCustomer as Sale[];
+  return (data || []).map(toSale);
 }
 
 export const getSales = withErrorLogging('getSales', _getSales);
 
 async function _createSale(formData: FormData) {
-  await requireAuth();
+  const user = await requireAuth();
   const supabase = await createClient();
 
-  const productCategory = formData.get('product_category') as string;
+  const items = parseSaleItems(formData) ?? [];
+  const productCategory = items[0]?.product_category ?? '';
   const customerName = formData.get('customer_name') as string || null;
   const customerPhone = formData.get('customer_phone') as string || null;
   const customerId = formData.get('customer_id') as string || null;
+  const pointsUsed = getFormInt(formData, 'points_used') ?? 0;
+  const voucherCode = formData.get('voucher_code') as string || null;
+  const voucherAmount = getFormInt(formData, 'voucher_amount') ?? 0;
+  const itemsTotal = calculateSaleItemsTotal(items);
 
-  // 입력 검증
+  // 입력 검증 (금액은 품목 합계 - 포인트 사용)
   const parsed = saleSchema.safeParse({
     date: formData.get('date'),
     product_category: productCategory,
-    amount: parseInt(formData.get('amount') as string) || 0,
+    amount: Math.max(itemsTotal - pointsUsed, 0),
     payment_method: formData.get('payment_method'),
     card_company: formData.get('card_company') || null,
-    fee: formData.get('fee') ? parseInt(formData.get('fee') as string) : null,
-    expected_deposit: formData.get('expected_deposit') ? parseInt(formData.get('expected_deposit') as string) : null,
-    expected_deposit_date: formData.get('expected_deposit_date') || null,
-    deposit_status: formData.get('deposit_status') || 'not_applicable',
     reservation_channel: formData.get('reservation_channel') || 'other',
     customer_name: customerName,
     customer_phone: customerPhone,
@@ -98,29 +365,105 @@ async function _createSale(formData: FormData) {
     throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
   }
 
+  // 예약 매출이면 아직 반영되지 않은 선금을 차감 (카드 정산은 잔금 기준)
+  let deposits: { id: string; amount: number }[] = [];
+  if (parsed.data.reservation_id) {
+    const { data, error: depositsError } = await supabase
+      .from('reservation_deposits')
+      .select('id, amount')
+      .eq('reservation_id', parsed.data.reservation_id)
+      .is('sale_id', null);
+    if (depositsError) throw depositsError;
+    deposits = data || [];
+  }
+  const depositAmount = getDepositTotal(deposits);
+  if (itemsTotal < depositAmount) {
+    throw new AppError(ErrorCode.VALIDATION, '매출 금액이 받은 선금보다 작을 수 없습니다');
+  }
+
   const finalCustomerId = await resolveCustomerId(customerId, customerName, customerPhone);
 
+  // 포인트는 선금을 뺀 결제할 금액까지만
+  if (pointsUsed !== 0) {
+    if (!finalCustomerId) throw new AppError(ErrorCode.VALIDATION, '포인트는 고객을 선택해야 사용할 수 있습니다');
+    const pointBalance = getPointBalance(await loadCustomerPointTransactions(supabase, finalCustomerId));
+    const pointError = validatePointRedemption(pointsUsed, pointBalance, itemsTotal - depositAmount);
+    if (pointError) throw new AppError(ErrorCode.VALIDATION, pointError);
+  }
+
+  // 선불권은 선금·포인트를 뺀 결제할 금액까지만 (전부 선불권으로 내면 결제방식도 선불권)
+  let voucherId: string | null = null;
+  if (voucherAmount !== 0) {
+    const voucher = voucherCode ? await loadGiftVoucher(supabase, { code: normalizeVoucherCode(voucherCode) }) : null;
+    if (!voucher) throw new AppError(ErrorCode.NOT_FOUND, '선불권을 찾을 수 없습니다');
+    const voucherError = validateVoucherRedemption(voucherAmount, voucher, parsed.data.amount - depositAmount, parsed.data.date);
+    if (voucherError) throw new AppError(ErrorCode.VALIDATION, voucherError);
+    voucherId = voucher.id;
+  }
+
+  // 선금·선불권을 뺀 잔금을 결제별로 (첫 번째 결제방식을 매출 결제방식으로)
+  const balance = getSaleBalance({ amount: parsed.data.amount, deposit_amount: depositAmount, voucher_amount: voucherAmount });
+  const payments = parseSalePayments(formData, balance) ?? [];
+  assertSalePayments(payments, balance);
+  const paymentMethod = payments[0]?.payment_method ?? (voucherAmount > 0 ? 'voucher' : parsed.data.payment_method);
+  assertVoucherPaymentMethod(paymentMethod, balance, voucherAmount);
+  const cogs = calculateSaleCogs(items, await loadRecipeCosts(supabase));
+
   const sale = {
     date: parsed.data.date,
     product_name: productCategory,
     product_category: productCategory,
     amount: parsed.data.amount,
-    payment_method: parsed.data.payment_method,
-    card_company: parsed.data.card_company || null,
-    fee: parsed.data.fee || null,
-    expected_deposit: parsed.data.expected_deposit || null,
-    expected_deposit_date: parsed.data.expected_deposit_date || null,
-    deposit_status: parsed.data.deposit_status || 'not_applicable',
+    payment_method: paymentMethod,
     reservation_channel: parsed.data.reservation_channel || 'other',
     customer_name: customerName,
     customer_phone: customerPhone,
     customer_id: finalCustomerId,
     reservation_id: parsed.data.reservation_id || null,
     note: parsed.data.note || null,
+    cogs: cogs.total,
+    deposit_amount: depositAmount,
+    points_used: pointsUsed,
+    voucher_id: voucherId,
+    voucher_amount: voucherAmount,
   };
 
-  const { data, error } = await supabase.from('sales').insert(sale).select().single();
-  if (error) throw error;
+  // 선불권·포인트 잔액은 DB에서 잠근 채 다시 확인하고 저장 (동시에 같은 잔액을 쓰는 매출 방지)
+  const { data: created, error } = await supabase.rpc('create_sale_with_redemptions', { p_sale: sale, p_created_by: user.id });
+  if (error) {
+    if (error.code === 'P0001') throw new AppError(ErrorCode.VALIDATION, error.message);
+    throw error;
+  }
+  const data = created as Sale;
+
+  try {
+    // 차감한 선금을 이 매출에 연결 (동시에 다른 매출이 먼저 가져갔으면 실패)
+    if (deposits.length > 0) {
+      const { data: linked, error: depositLinkError } = await supabase
+        .from('reservation_deposits')
+        .update({ sale_id: data.id })
+        .in('id', deposits.map((d) => d.id))
+        .is('sale_id', null)
+        .select('id');
+      if (depositLinkError) throw depositLinkError;
+      if ((linked?.length ?? 0) !== deposits.length) {
+        throw new AppError(ErrorCode.DUPLICATE, '선금이 이미 다른 매출에 반영됐습니다. 다시 시도해주세요');
+      }
+    }
+    await replaceSaleItems(supabase, data.id, items, cogs.lineCogs);
+    await replaceSalePayments(supabase, data.id, payments);
+    await syncSalePayments(supabase, data.id, data.date, []);
+    if (finalCustomerId) {
+      await replaceSaleEarnedPoints(supabase, user.id, { ...data, customer_id: finalCustomerId }, await loadLoyaltySettings(supabase));
+    }
+  } catch (itemsError) {
+    // 선금/품목/결제/포인트 저장 실패 시 헤더만 남지 않도록 매출 삭제
+    // (결제·포인트 내역은 함께 삭제되고, 연결한 선금은 sale_id가 NULL로 돌아감)
+    await supabase.from('sales').delete().eq('id', data.id);
+    throw itemsError;
+  }
+
+  await recordAudit(supabase, user, { action: 'createSale', entity_type: 'sale', entity_id: data.id, after: data });
 
   revalidatePath('/sales');
   revalidatePath('/customers');
@@ -131,7 +474,7 @@ async function _createSale(formData: FormData) {
 export const createSale = withErrorLogging('createSale', _createSale);
 
 async function _updateSale(id: string, formData: FormData) {
-  await requireAuth();
+  const user = await requireRole('manager');
 
   const idParsed = uuidSchema.safeParse(id);
   if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
@@ -139,17 +482,14 @@ async function _updateSale(id: string, formData: FormData) {
   const customerName = formData.get('customer_name') as string || null;
   const customerPhone = formData.get('customer_phone') as string || null;
   const customerId = formData.get('customer_id') as string || null;
+  const items = parseSaleItems(formData);
 
   const parsed = saleSchema.partial().safeParse({
     date: formData.get('date') || undefined,
-    product_category: formData.get('product_category') || undefined,
-    amount: formData.get('amount') ? parseInt(formData.get('amount') as string) : undefined,
+    product_category: items ? items[0]?.product_category : undefined,
+    amount: items ? calculateSaleItemsTotal(items) : undefined,
     payment_method: formData.get('payment_method') || undefined,
     card_company: formData.get('card_company') || null,
-    fee: formData.get('fee') ? parseInt(formData.get('fee') as string) : null,
-    expected_deposit: formData.get('expected_deposit') ? parseInt(formData.get('expected_deposit') as string) : null,
-    expected_deposit_date: formData.get('expected_deposit_date') || null,
-    deposit_status: formData.get('deposit_status') || undefined,
     reservation_channel: formData.get('reservation_channel') || undefined,
     customer_name: customerName,
     customer_phone: customerPhone,
@@ -162,19 +502,121 @@ async function _updateSale(id: string, formData: FormData) {
   const supabase = await createClient();
   const finalCustomerId = await resolveCustomerId(customerId, customerName, customerPhone);
 
+  // 변경되지 않은 값은 기존 매출 기준으로
+  const { data: current, error: currentError } = await supabase
+    .from('sales')
+    .select('*')
+    .eq('id', id)
+    .single();
+  if (currentError) throw currentError;
+
+  // 사용한 포인트는 수정하지 않고 품목 합계에서 계속 뺌
+  const pointsUsed = current.points_used || 0;
+  if (parsed.data.amount !== undefined) {
+    if (parsed.data.amount < pointsUsed) {
+      throw new AppError(ErrorCode.VALIDATION, '매출 금액이 사용한 포인트보다 작을 수 없습니다');
+    }
+    parsed.data.amount -= pointsUsed;
+  }
+  const amount = parsed.data.amount ?? current.amount;
+  const refundedAmount = current.refunded_amount || 0;
+  if (amount < refundedAmount) {
+    throw new AppError(ErrorCode.VALIDATION, '매출 금액이 환불된 금액보다 작을 수 없습니다');
+  }
+  if (amount < (current.deposit_amount || 0)) {
+    throw new AppError(ErrorCode.VALIDATION, '매출 금액이 받은 선금보다 작을 수 없습니다');
+  }
+  // 사용한 선불권도 수정하지 않음
+  if (amount < (current.deposit_amount || 0) + (current.voucher_amount || 0)) {
+    throw new AppError(ErrorCode.VALIDATION, '매출 금액이 선불권으로 결제한 금액보다 작을 수 없습니다');
+  }
+
+  // 결제는 선금/선불권을 뺀 잔금(환불 전)과 합계가 맞아야 함. 결제 입력이 없으면 기존 결제 유지
+  const balance = getSaleBalance({ ...current, amount, refunded_amount: 0 });
+  const { data: currentPayments, error: paymentsError } = await supabase
+    .from('sale_payments')
+    .select('payment_method, amount, card_company, deposit_status')
+    .eq('sale_id', id)
+    .order('sort_order');
+  if (paymentsError) throw paymentsError;
+  const inputPayments = parseSalePayments(formData, balance);
+  const payments = inputPayments ?? currentPayments ?? [];
+  assertSalePayments(payments, balance);
+  const paymentsChanged = !isSamePayments(payments, currentPayments || []);
+  if (paymentsChanged && (currentPayments || []).some((p) => p.deposit_status === 'completed')) {
+    throw new AppError(ErrorCode.VALIDATION, '입금 확인된 카드 결제가 있어 결제 내역을 바꿀 수 없습니다');
+  }
+  const paymentMethod = payments[0]?.payment_method
+    ?? ((current.voucher_amount || 0) > 0 ? 'voucher' : parsed.data.payment_method ?? current.payment_method);
+  assertVoucherPaymentMethod(paymentMethod, balance, current.voucher_amount || 0);
+
+  // 고객·금액이 바뀌면 적립 포인트를 다시 계산. 사용한 포인트는 다른 고객으로 옮길 수 없음
+  const customerChanged = (current.customer_id ?? null) !== finalCustomerId;
+  const netAmount = getNetAmount({ amount, refunded_amount: current.refunded_amount }); // 적립은 환불 뺀 실매출 기준
+  const loyaltySettings = customerChanged || amount !== current.amount ? await loadLoyaltySettings(supabase) : null;
+  if (loyaltySettings) {
+    if (customerChanged && pointsUsed > 0) {
+      throw new AppError(ErrorCode.VALIDATION, '포인트를 사용한 매출은 고객을 바꿀 수 없습니다');
+    }
+    const { data: earnEntries, error: earnError } = await supabase
+      .from('customer_point_transactions')
+      .select('points')
+      .eq('sale_id', id)
+      .eq('type', 'earn');
+    if (earnError) throw earnError;
+    const earned = getPointBalance(earnEntries || []);
+    const removed = customerChanged ? earned : earned - (finalCustomerId ? calculateEarnedPoints(netAmount, loyaltySettings) : 0);
+    if (current.customer_id && removed > 0) {
+      const pointBalance = getPointBalance(await loadCustomerPointTransactions(supabase, current.customer_id));
+      if (pointBalance < removed) {
+        throw new AppError(ErrorCode.VALIDATION, '적립된 포인트를 이미 사용해 고객·금액을 바꿀 수 없습니다');
+      }
+    }
+  }
+
   const updates: Record<string, string | number | boolean | null | undefined> = {
     ...parsed.data,
+    payment_method: paymentMethod,
     product_name: parsed.data.product_category,
     customer_id: finalCustomerId,
   };
+  // 카드사는 결제별로 저장
+  delete updates.card_company;
+
+  // 품목이 바뀌면 원가도 현재 레시피 기준으로 다시 계산
+  const cogs = items ? calculateSaleCogs(items, await loadRecipeCosts(supabase)) : null;
+  if (cogs) {
+    updates.cogs = cogs.total;
+  }
 
   const hasReview = formData.get('has_review');
   if (hasReview !== null) {
     updates.has_review = hasReview === 'true';
   }
 
-  const { error } = await supabase.from('sales').update(updates).eq('id', id);
+  // 헤더·품목·결제는 한 트랜잭션으로 (중간에 실패해도 품목/결제 없는 매출이 남지 않게)
+  const { data: updatedRow, error } = await supabase.rpc('update_sale_with_lines', {
+    p_sale_id: id,
+    p_updates: updates,
+    p_items: items ? toSaleItemRows(items, cogs?.lineCogs) : null,
+    p_payments: paymentsChanged ? toSalePaymentRows(payments) : null,
+  });
   if (error) throw error;
+  const updated = updatedRow as Sale;
+
+  if (loyaltySettings) {
+    await replaceSaleEarnedPoints(supabase, user.id, { id, customer_id: finalCustomerId, date: updated.date, amount: netAmount }, loyaltySettings);
+  }
+  // 매출일이 바뀌면 입금 예정일도 다시 계산
+  const { data: refunds, error: refundsError } = await supabase
+    .from('sale_refunds')
+    .select('amount, refund_method')
+    .eq('sale_id', id)
+    .order('created_at');
+  if (refundsError) throw refundsError;
+  await syncSalePayments(supabase, id, updated.date, refunds || []);
+
+  await recordAudit(supabase, user, { action: 'updateSale', entity_type: 'sale', entity_id: id, before: current, after: updated });
 
   revalidatePath('/sales');
   revalidatePath('/customers');
@@ -183,30 +625,214 @@ async function _updateSale(id: string, formData: FormData) {
 
 export const updateSale = withErrorLogging('updateSale', _updateSale);
 
+// 휴지통으로 이동. 사진 카드 연결은 끊고 deleted_links에 남겨 복원 시 다시 연결
 async function _deleteSale(id: string) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const supabase = await createClient();
-  const { error } = await supabase.from('sales').delete().eq('id', id);
+
+  const { data: cards, error: cardsError } = await supabase.from('photo_cards').select('id').eq('sale_id', id);
+  if (cardsError) throw cardsError;
+  const photoCardIds = (cards || []).map(card => card.id);
+
+  const { data: deleted, error } = await supabase
+    .from('sales')
+    .update({ deleted_at: new Date().toISOString(), deleted_links: { photo_card_ids: photoCardIds } })
+    .eq('id', id)
+    .is('deleted_at', null)
+    .select()
+    .maybeSingle();
   if (error) throw error;
 
+  if (deleted) {
+    if (photoCardIds.length > 0) {
+      const { error: unlinkError } = await supabase.from('photo_cards').update({ sale_id: null }).in('id', photoCardIds);
+      if (unlinkError) throw unlinkError;
+    }
+    await recordAudit(supabase, user, { action: 'deleteSale', entity_type: 'sale', entity_id: id, before: deleted });
+  }
+
   revalidatePath('/sales');
   revalidatePath('/customers');
+  revalidatePath('/gallery');
+  revalidatePath('/trash');
   revalidatePath('/');
 }
 
 export const deleteSale = withErrorLogging('deleteSale', _deleteSale);
 
+/**
+ * 휴지통에서 복원한다 (고객 연결은 매출 삭제 때 끊지 않으므로 그대로)
+ * 사진 카드는 다른 매출에 연결되지 않았고 이 매출에 다른 카드가 없을 때만 다시 연결한다
+ */
+async function _restoreSale(id: string): Promise<Sale> {
+  const user = await requireRole('manager');
+  const idParsed = uuidSchema.safeParse(id);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const supabase = await createClient();
+
+  const { data: before, error: fetchError } = await supabase
+    .from('sales')
+    .select('*')
+    .eq('id', id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!before) throw new AppError(ErrorCode.NOT_FOUND, '휴지통에서 매출을 찾을 수 없습니다');
+
+  // 휴지통에 있는 동안 선불권 잔액을 다른 매출에 썼으면 복원 불가
+  if (before.voucher_id && before.voucher_amount > 0) {
+    const voucher = await loadGiftVoucher(supabase, { id: before.voucher_id });
+    if (!voucher || voucher.balance < before.voucher_amount) {
+      throw new AppError(ErrorCode.VALIDATION, '선불권 잔액이 부족해 복원할 수 없습니다');
+    }
+  }
+
+  // 포인트도 마찬가지: 이 매출의 적립/사용이 다시 반영된 잔액이 0 미만이면 복원 불가
+  if (before.customer_id && before.points_used > 0) {
+    const [transactions, { data: saleEntries, error: entriesError }] = await Promise.all([
+      loadCustomerPointTransactions(supabase, before.customer_id),
+      supabase.from('customer_point_transactions').select('points').eq('sale_id', id),
+    ]);
+    if (entriesError) throw entriesError;
+    if (getPointBalance(transactions) + getPointBalance(saleEntries || []) < 0) {
+      throw new AppError(ErrorCode.VALIDATION, '포인트 잔액이 부족해 복원할 수 없습니다');
+    }
+  }
+
+  const linkedIds = (before.deleted_links as DeletedLinks | null)?.photo_card_ids || [];
+  if (linkedIds.length > 0) {
+    const [{ data: cards, error: cardsError }, { data: currentCards, error: currentError }] = await Promise.all([
+      supabase.from('photo_cards').select('id, sale_id').in('id', linkedIds),
+      supabase.from('photo_cards').select('id').eq('sale_id', id).is('deleted_at', null),
+    ]);
+    if (cardsError) throw cardsError;
+    if (currentError) throw currentError;
+
+    // 매출당 사진 카드는 하나 (getPhotoCardBySaleId)
+    const relinkIds = (currentCards || []).length > 0
+      ? []
+      : getRelinkableIds(linkedIds, (cards || []).map(card => ({ id: card.id, linked_id: card.sale_id }))).slice(0, 1);
+    if (relinkIds.length > 0) {
+      const { error: relinkError } = await supabase.from('photo_cards').update({ sale_id: id }).in('id', relinkIds);
+      if (relinkError) throw relinkError;
+    }
+  }
+
+  const { data: restored, error } = await supabase
+    .from('sales')
+    .update({ deleted_at: null, deleted_links: null })
+    .eq('id', id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  await recordAudit(supabase, user, { action: 'restoreSale', entity_type: 'sale', entity_id: id, before, after: restored });
+
+  revalidatePath('/sales');
+  revalidatePath('/customers');
+  revalidatePath('/gallery');
+  revalidatePath('/trash');
+  revalidatePath('/');
+  return restored as Sale;
+}
+
+export const restoreSale = withErrorLogging('restoreSale', _restoreSale);
+
+async function _createSaleRefund(saleId: string, formData: FormData): Promise<SaleRefund> {
+  const user = await requireRole('manager');
+
+  const idParsed = uuidSchema.safeParse(saleId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const supabase = await createClient();
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select('*')
+    .eq('id', saleId)
+    .single();
+  if (saleError) throw saleError;
+
+  const remaining = getNetAmount(sale);
+  if (remaining === 0) throw new AppError(ErrorCode.VALIDATION, '이미 전액 환불된 매출입니다');
+
+  // 전액 환불은 남은 실매출 전액
+  const refundType = formData.get('refund_type');
+  const parsed = saleRefundSchema.safeParse({
+    refund_type: refundType,
+    amount: refundType === 'full' ? remaining : parseInt(formData.get('amount') as string) || 0,
+    reason: formData.get('reason') || null,
+    refund_method: formData.get('refund_method'),
+    refund_date: formData.get('refund_date'),
+  });
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  if (parsed.data.amount > remaining) {
+    throw new AppError(ErrorCode.VALIDATION, '환불 금액이 남은 매출 금액보다 큽니다');
+  }
+
+  const { data, error } = await supabase
+    .from('sale_refunds')
+    .insert({ sale_id: saleId, ...parsed.data, reason: parsed.data.reason || null })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const updated = await syncSaleRefunds(supabase, user.id, saleId);
+  await recordAudit(supabase, user, { action: 'createSaleRefund', entity_type: 'sale', entity_id: saleId, before: sale, after: updated });
+
+  revalidatePath('/sales');
+  revalidatePath('/deposits');
+  revalidatePath('/customers');
+  revalidatePath('/');
+  return data as SaleRefund;
+}
+
+export const createSaleRefund = withErrorLogging('createSaleRefund', _createSaleRefund);
+
+async function _deleteSaleRefund(refundId: string) {
+  const user = await requireRole('manager');
+
+  const idParsed = uuidSchema.safeParse(refundId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const supabase = await createClient();
+  const { data: refund, error } = await supabase
+    .from('sale_refunds')
+    .delete()
+    .eq('id', refundId)
+    .select('sale_id')
+    .single();
+  if (error) throw error;
+
+  const { data: before } = await supabase.from('sales').select('*').eq('id', refund.sale_id).single();
+  const updated = await syncSaleRefunds(supabase, user.id, refund.sale_id);
+  await recordAudit(supabase, user, { action: 'deleteSaleRefund', entity_type: 'sale', entity_id: refund.sale_id, before, after: updated });
+
+  revalidatePath('/sales');
+  revalidatePath('/deposits');
+  revalidatePath('/customers');
+  revalidatePath('/');
+}
+
+export const deleteSaleRefund = withErrorLogging('deleteSaleRefund', _deleteSaleRefund);
+
 async function _confirmDeposits(ids: string[]) {
-  await requireAuth();
+  const user = await requireRole('manager');
   const parsed = idsSchema.safeParse(ids);
   if (!parsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID 목록입니다');
   const supabase = await createClient();
-  const { error } = await supabase
-    .from('sales')
+  // ids는 카드 결제 id (이력은 매출 기준)
+  const { data: before } = await supabase.from('sale_payments').select('*').in('id', ids);
+  const { data: updated, error } = await supabase
+    .from('sale_payments')
     .update({ deposit_status: 'completed', deposited_at: new Date().toISOString() })
-    .in('id', ids);
+    .in('id', ids)
+    .select();
   if (error) throw error;
 
+  await recordAudit(supabase, user, pairAuditEntries('confirmDeposits', 'sale', before || [], updated || [], (payment) => payment.sale_id));
+
   revalidatePath('/deposits');
   revalidatePath('/');
 }
@@ -215,7 +841,7 @@ export const confirmDeposits = withErrorLogging('confirmDeposits', _confirmDepos
 
 // Photo upload functions
 async function _uploadSalePhotos(saleId: string, formData: FormData): Promise<string[]> {
-  await requireAuth();
+  const user = await requireAuth();
   const supabase = await createClient();
   const files = formData.getAll('photos') as File[];
   const uploadedUrls: string[] = [];
@@ -262,6 +888,14 @@ async function _uploadSalePhotos(saleId: string, formData: FormData): Promise<st
       .eq('id', saleId);
 
     if (updateError) throw updateError;
+
+    await recordAudit(supabase, user, {
+      action: 'uploadSalePhotos',
+      entity_type: 'sale',
+      entity_id: saleId,
+      before: { photos: existingPhotos },
+      after: { photos: allPhotos },
+    });
   }
 
   revalidatePath('/sales');
@@ -272,7 +906,7 @@ async function _uploadSalePhotos(saleId: string, formData: FormData): Promise<st
 export const uploadSalePhotos = withErrorLogging('uploadSalePhotos', _uploadSalePhotos);
 
 async function _deleteSalePhoto(saleId: string, photoUrl: string): Promise<void> {
-  await requireAuth();
+  const user = await requireRole('manager');
   const supabase = await createClient();
 
   // Extract path from URL
@@ -296,6 +930,14 @@ async function _deleteSalePhoto(saleId: string, photoUrl: string): Promise<void>
       .from('sales')
       .update({ photos: updatedPhotos })
       .eq('id', saleId);
+
+    await recordAudit(supabase, user, {
+      action: 'deleteSalePhoto',
+      entity_type: 'sale',
+      entity_id: saleId,
+      before: { photos: sale.photos },
+      after: { photos: updatedPhotos },
+    });
   }
 
   revalidatePath('/sales');
@@ -310,19 +952,17 @@ async function _getSaleById(id: string): Promise<Sale | null> {
     .from('sales')
     .select(`
       *,
-      customer:customers(id, name, phone)
+      customer:customers(id, name, phone),
+      items:sale_items(*),
+      refunds:sale_refunds(*),
+      payments:sale_payments(*)
     `)
     .eq('id', id)
+    .is('deleted_at', null)
     .single();
 
   if (error) return null;
-
-  // 고객 정보 병합
-  return {
-    ...data,
-    customer_name: data.customer?.name || data.customer_name,
-    customer_phone: data.customer?.phone || data.customer_phone,
-  } as Sale;
+  return toSale(data);
 }
 
 export const getSaleById = withErrorLogging('getSaleById', _getSaleById);
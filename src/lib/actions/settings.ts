@@ -2,9 +2,12 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { revalidatePath } from 'next/cache';
-import type { CardCompanySetting } from '@/types/database';
-import { requireAuth } from '@/lib/auth-guard';
-import { withErrorLogging } from '@/lib/errors';
+import type { CardCompanySetting, CardFeeRate, DepositRule } from '@/types/database';
+import { requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { cardCompanySettingSchema, cardFeeRateSchema, uuidSchema } from '@/lib/validations';
+import { getTodayKST } from '@/lib/utils';
+import { resolveFeeRate } from '@/lib/business-days';
 
 // ============ Card Company Settings ============
 
@@ -23,17 +26,158 @@ async function _getCardCompanySettings(): Promise<CardCompanySetting[]> {
 
 export const getCardCompanySettings = withErrorLogging('getCardCompanySettings', _getCardCompanySettings);
 
+// ============ Card Fee Rate History ============
+
+// 이력이 없는 카드사의 기존 수수료율 적용 시작일 (schema.sql 마이그레이션과 같음)
+const INITIAL_FEE_RATE_DATE = '2000-01-01';
+
+/**
+ * 수수료율 변경을 이력으로 남긴다 (같은 적용일은 덮어씀)
+ * 과거 매출은 매출일 기준 이력으로 계산되므로 설정값을 바꿔도 영향 없음
+ * 이력이 없는 카드사는 바꾸기 전 수수료율을 먼저 최초 이력으로 남긴다 (없으면 과거 매출도 새 수수료율로 계산됨)
+ */
+async function recordFeeRateChange(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  cardCompanyId: string,
+  feeRate: number,
+  effectiveFrom: string,
+): Promise<void> {
+  const { count, error: countError } = await supabase
+    .from('card_fee_rates')
+    .select('id', { count: 'exact', head: true })
+    .eq('card_company_id', cardCompanyId);
+  if (countError) throw countError;
+
+  if (count === 0) {
+    const { data: current, error: currentError } = await supabase
+      .from('card_company_settings')
+      .select('fee_rate')
+      .eq('id', cardCompanyId)
+      .single();
+    if (currentError) throw currentError;
+    const { error: seedError } = await supabase
+      .from('card_fee_rates')
+      .insert({ card_company_id: cardCompanyId, fee_rate: current.fee_rate, effective_from: INITIAL_FEE_RATE_DATE });
+    if (seedError) throw seedError;
+  }
+
+  const { error } = await supabase
+    .from('card_fee_rates')
+    .upsert(
+      { card_company_id: cardCompanyId, fee_rate: feeRate, effective_from: effectiveFrom },
+      { onConflict: 'card_company_id,effective_from' }
+    );
+  if (error) throw error;
+}
+
+// card_company_settings.fee_rate는 오늘 적용 중인 수수료율로 유지
+async function syncCurrentFeeRate(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  cardCompanyId: string,
+): Promise<void> {
+  const { data: rates, error } = await supabase
+    .from('card_fee_rates')
+    .select('fee_rate, effective_from')
+    .eq('card_company_id', cardCompanyId);
+  if (error) throw error;
+  if (!rates || rates.length === 0) return;
+
+  const { error: updateError } = await supabase
+    .from('card_company_settings')
+    .update({ fee_rate: resolveFeeRate(rates, getTodayKST(), 0) })
+    .eq('id', cardCompanyId);
+  if (updateError) throw updateError;
+}
+
+async function _getCardFeeRates(): Promise<CardFeeRate[]> {
+  await requireRole('owner');
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('card_fee_rates')
+    .select('*')
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return data as CardFeeRate[];
+}
+
+export const getCardFeeRates = withErrorLogging('getCardFeeRates', _getCardFeeRates);
+
+async function _addCardFeeRate(cardCompanyId: string, feeRate: number, effectiveFrom: string): Promise<void> {
+  await requireRole('owner');
+
+  const idParsed = uuidSchema.safeParse(cardCompanyId);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+  const parsed = cardFeeRateSchema.safeParse({ fee_rate: feeRate, effective_from: effectiveFrom });
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+
+  const supabase = await createClient();
+  await recordFeeRateChange(supabase, cardCompanyId, parsed.data.fee_rate, parsed.data.effective_from);
+  await syncCurrentFeeRate(supabase, cardCompanyId);
+
+  revalidatePath('/settings');
+}
+
+export const addCardFeeRate = withErrorLogging('addCardFeeRate', _addCardFeeRate);
+
+async function _deleteCardFeeRate(id: string): Promise<void> {
+  await requireRole('owner');
+
+  const idParsed = uuidSchema.safeParse(id);
+  if (!idParsed.success) throw new AppError(ErrorCode.VALIDATION, '올바르지 않은 ID입니다');
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('card_fee_rates')
+    .delete()
+    .eq('id', id)
+    .select('card_company_id')
+    .single();
+
+  if (error) throw error;
+  await syncCurrentFeeRate(supabase, data.card_company_id);
+
+  revalidatePath('/settings');
+}
+
+export const deleteCardFeeRate = withErrorLogging('deleteCardFeeRate', _deleteCardFeeRate);
+
 async function _updateCardCompanySetting(
   id: string,
-  updates: { fee_rate?: number; deposit_days?: number }
+  updates: { fee_rate?: number; deposit_days?: number; deposit_rule?: DepositRule; deposit_weekday?: number | null }
 ): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
+
+  const parsed = cardCompanySettingSchema.omit({ name: true }).partial().safeParse(updates);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues[0]?.message}`);
+  }
+  if (parsed.data.deposit_rule === 'next_weekday' && (parsed.data.deposit_weekday ?? null) === null) {
+    throw new AppError(ErrorCode.VALIDATION, '입금 요일을 선택해주세요');
+  }
 
   const supabase = await createClient();
 
+  // 수수료율이 바뀌면 오늘부터 적용되는 이력 추가
+  if (parsed.data.fee_rate !== undefined) {
+    const { data: current, error: currentError } = await supabase
+      .from('card_company_settings')
+      .select('fee_rate')
+      .eq('id', id)
+      .single();
+    if (currentError) throw currentError;
+    if (Number(current.fee_rate) !== parsed.data.fee_rate) {
+      await recordFeeRateChange(supabase, id, parsed.data.fee_rate, getTodayKST());
+    }
+  }
+
   const { error } = await supabase
     .from('card_company_settings')
-    .update(updates)
+    .update(parsed.data)
     .eq('id', id);
 
   if (error) throw error;
@@ -47,7 +191,7 @@ async function _createCardCompanySetting(
   feeRate: number = 2.0,
   depositDays: number = 3
 ): Promise<CardCompanySetting> {
-  await requireAuth();
+  await requireRole('owner');
 
   const supabase = await createClient();
 
@@ -58,6 +202,7 @@ async function _createCardCompanySetting(
     .single();
 
   if (error) throw error;
+  await recordFeeRateChange(supabase, data.id, feeRate, getTodayKST());
   revalidatePath('/settings');
   return data as CardCompanySetting;
 }
@@ -65,7 +210,7 @@ async function _createCardCompanySetting(
 export const createCardCompanySetting = withErrorLogging('createCardCompanySetting', _createCardCompanySetting);
 
 async function _deleteCardCompanySetting(id: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
 
   const supabase = await createClient();
 
@@ -106,7 +251,7 @@ async function _getProductCategories(): Promise<ProductCategory[]> {
 export const getProductCategories = withErrorLogging('getProductCategories', _getProductCategories);
 
 async function _createProductCategory(name: string): Promise<ProductCategory> {
-  await requireAuth();
+  await requireRole('owner');
 
   const supabase = await createClient();
 
@@ -136,7 +281,7 @@ async function _updateProductCategory(
   id: string,
   updates: { name?: string; sort_order?: number }
 ): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
 
   const supabase = await createClient();
 
@@ -152,7 +297,7 @@ async function _updateProductCategory(
 export const updateProductCategory = withErrorLogging('updateProductCategory', _updateProductCategory);
 
 async function _deleteProductCategory(id: string): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
 
   const supabase = await createClient();
 
@@ -173,12 +318,20 @@ async function _saveAllSettings(
   cardSettings: Array<{ id: string; fee_rate: number; deposit_days: number }>,
   categories: string[]
 ): Promise<void> {
-  await requireAuth();
+  await requireRole('owner');
 
   const supabase = await createClient();
 
-  // 카드 설정 업데이트
+  // 카드 설정 업데이트 (수수료율 변경은 이력으로 기록)
+  const { data: currentSettings } = await supabase
+    .from('card_company_settings')
+    .select('id, fee_rate');
+  const currentRates = new Map((currentSettings || []).map((c: { id: string; fee_rate: number }) => [c.id, Number(c.fee_rate)]));
+
   for (const setting of cardSettings) {
+    if (currentRates.get(setting.id) !== setting.fee_rate) {
+      await recordFeeRateChange(supabase, setting.id, setting.fee_rate, getTodayKST());
+    }
     const { error } = await supabase
       .from('card_company_settings')
       .update({ fee_rate: setting.fee_rate, deposit_days: setting.deposit_days })
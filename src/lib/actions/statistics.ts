@@ -1,10 +1,15 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
+import { requireRole } from '@/lib/auth-guard';
 import type { PaymentMethod, ReservationChannel, ExpenseCategory } from '@/types/database';
 import { withErrorLogging } from '@/lib/errors';
-import { getMonthDateRange } from '@/lib/utils';
+import { getMonthDateRange, getNetAmount, getNetSaleLineItems, getTodayKST } from '@/lib/utils';
 import { PAYMENT_LABELS, CHANNEL_LABELS, EXPENSE_LABELS } from '@/lib/constants';
+import { summarizeWaste, type WasteMovement } from '@/lib/inventory';
+import { summarizeCategoryMargins, type MarginSale } from '@/lib/recipes';
+import { allocateSalePayments } from '@/lib/reservation-deposits';
+import { loadGiftVouchers, summarizeGiftVoucherFlow, type GiftVoucherFlow } from '@/lib/gift-vouchers';
 
 export interface CategoryStat {
   name: string;
@@ -42,15 +47,35 @@ export interface ExpenseCategoryStat {
   percentage: number;
 }
 
+// 재고 폐기 손실 (품목별, 폐기 시점 단가 기준)
+export interface WasteStat {
+  item_id: string;
+  name: string;
+  quantity: number;
+  cost: number;
+  percentage: number;
+}
+
+// 카테고리별 총이익 (레시피 추정 원가 기준, 원가가 기록된 품목만)
+export interface CategoryMarginStat {
+  name: string;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginRate: number;
+}
+
 // 라벨 상수는 @/lib/constants에서 가져옴
 
 
 async function _getCategoryStats(month?: string): Promise<CategoryStat[]> {
+  await requireRole('manager');
   const supabase = await createClient();
 
   let query = supabase
     .from('sales')
-    .select('product_category, amount');
+    .select('product_category, amount, refunded_amount, items:sale_items(product_category, quantity, unit_price, discount, amount)')
+    .is('deleted_at', null);
 
   if (month) {
     const { startDate, endDate } = getMonthDateRange(month);
@@ -60,16 +85,18 @@ async function _getCategoryStats(month?: string): Promise<CategoryStat[]> {
   const { data, error } = await query;
   if (error) throw error;
 
+  // 품목 단위로 집계 (count = 판매 수량, 환불은 품목 비율로 차감)
   const categoryMap = new Map<string, { count: number; amount: number }>();
   let totalAmount = 0;
 
   (data || []).forEach((sale) => {
-    const category = sale.product_category || '기타';
-    const existing = categoryMap.get(category) || { count: 0, amount: 0 };
-    existing.count += 1;
-    existing.amount += sale.amount;
-    categoryMap.set(category, existing);
-    totalAmount += sale.amount;
+    getNetSaleLineItems(sale).forEach((item) => {
+      const existing = categoryMap.get(item.product_category) || { count: 0, amount: 0 };
+      existing.count += item.quantity;
+      existing.amount += item.amount;
+      categoryMap.set(item.product_category, existing);
+      totalAmount += item.amount;
+    });
   });
 
   return Array.from(categoryMap.entries())
@@ -85,11 +112,13 @@ async function _getCategoryStats(month?: string): Promise<CategoryStat[]> {
 export const getCategoryStats = withErrorLogging('getCategoryStats', _getCategoryStats);
 
 async function _getPaymentMethodStats(month?: string): Promise<PaymentMethodStat[]> {
+  await requireRole('manager');
   const supabase = await createClient();
 
   let query = supabase
     .from('sales')
-    .select('payment_method, amount');
+    .select('payment_method, amount, refunded_amount, deposit_amount, voucher_amount, deposits:reservation_deposits(amount, payment_method), payments:sale_payments(payment_method, amount, refunded_amount)')
+    .is('deleted_at', null);
 
   if (month) {
     const { startDate, endDate } = getMonthDateRange(month);
@@ -102,13 +131,16 @@ async function _getPaymentMethodStats(month?: string): Promise<PaymentMethodStat
   const methodMap = new Map<PaymentMethod, { count: number; amount: number }>();
   let totalAmount = 0;
 
+  // 나눠 받은 결제는 결제별로, 예약 선금은 받은 결제방식으로, 선불권 사용액은 선불권으로 나눠 집계
   (data || []).forEach((sale) => {
-    const method = sale.payment_method as PaymentMethod;
-    const existing = methodMap.get(method) || { count: 0, amount: 0 };
-    existing.count += 1;
-    existing.amount += sale.amount;
-    methodMap.set(method, existing);
-    totalAmount += sale.amount;
+    allocateSalePayments(sale).forEach(({ payment_method, amount }) => {
+      const method = payment_method as PaymentMethod;
+      const existing = methodMap.get(method) || { count: 0, amount: 0 };
+      existing.count += 1;
+      existing.amount += amount;
+      methodMap.set(method, existing);
+      totalAmount += amount;
+    });
   });
 
   return Array.from(methodMap.entries())
@@ -124,13 +156,38 @@ async function _getPaymentMethodStats(month?: string): Promise<PaymentMethodStat
 
 export const getPaymentMethodStats = withErrorLogging('getPaymentMethodStats', _getPaymentMethodStats);
 
+// 선불권 판매(받은 돈)와 사용(매출)은 따로 집계
+async function _getVoucherStats(month?: string): Promise<GiftVoucherFlow> {
+  await requireRole('manager');
+  const supabase = await createClient();
+  const { startDate, endDate } = getMonthDateRange(month);
+
+  const [vouchers, { data, error }] = await Promise.all([
+    loadGiftVouchers(supabase),
+    supabase
+      .from('sales')
+      .select('payment_method, amount, refunded_amount, deposit_amount, voucher_amount')
+      .is('deleted_at', null)
+      .gt('voucher_amount', 0)
+      .gte('date', startDate)
+      .lte('date', endDate),
+  ]);
+  if (error) throw error;
+
+  return summarizeGiftVoucherFlow(vouchers, data || [], { startDate, endDate }, getTodayKST());
+}
+
+export const getVoucherStats = withErrorLogging('getVoucherStats', _getVoucherStats);
+
 
 async function _getChannelStats(month?: string): Promise<ChannelStat[]> {
+  await requireRole('manager');
   const supabase = await createClient();
 
   let query = supabase
     .from('sales')
-    .select('reservation_channel, amount');
+    .select('reservation_channel, amount, refunded_amount')
+    .is('deleted_at', null);
 
   if (month) {
     const { startDate, endDate } = getMonthDateRange(month);
@@ -144,12 +201,14 @@ async function _getChannelStats(month?: string): Promise<ChannelStat[]> {
   let totalAmount = 0;
 
   (data || []).forEach((sale) => {
+    const amount = getNetAmount(sale);
+    if (amount === 0) return;
     const channel = (sale.reservation_channel || 'other') as ReservationChannel;
     const existing = channelMap.get(channel) || { count: 0, amount: 0 };
     existing.count += 1;
-    existing.amount += sale.amount;
+    existing.amount += amount;
     channelMap.set(channel, existing);
-    totalAmount += sale.amount;
+    totalAmount += amount;
   });
 
   return Array.from(channelMap.entries())
@@ -166,6 +225,7 @@ async function _getChannelStats(month?: string): Promise<ChannelStat[]> {
 export const getChannelStats = withErrorLogging('getChannelStats', _getChannelStats);
 
 async function _getCustomerStats(month?: string): Promise<CustomerStat> {
+  await requireRole('manager');
   const supabase = await createClient();
   const { startDate, endDate } = getMonthDateRange(month);
 
@@ -173,6 +233,7 @@ async function _getCustomerStats(month?: string): Promise<CustomerStat> {
   const { data: monthSales, error: salesError } = await supabase
     .from('sales')
     .select('customer_phone, customer_id')
+    .is('deleted_at', null)
     .gte('date', startDate)
     .lte('date', endDate)
     .not('customer_phone', 'is', null);
@@ -197,6 +258,7 @@ async function _getCustomerStats(month?: string): Promise<CustomerStat> {
   const { data: previousSales, error: prevError } = await supabase
     .from('sales')
     .select('customer_phone')
+    .is('deleted_at', null)
     .in('customer_phone', Array.from(uniquePhones))
     .lt('date', startDate);
 
@@ -218,11 +280,13 @@ export const getCustomerStats = withErrorLogging('getCustomerStats', _getCustome
 
 
 async function _getExpenseCategoryStats(month?: string): Promise<ExpenseCategoryStat[]> {
+  await requireRole('manager');
   const supabase = await createClient();
 
   let query = supabase
     .from('expenses')
-    .select('category, total_amount');
+    .select('category, total_amount')
+    .is('deleted_at', null);
 
   if (month) {
     const { startDate, endDate } = getMonthDateRange(month);
@@ -254,6 +318,34 @@ async function _getExpenseCategoryStats(month?: string): Promise<ExpenseCategory
 
 export const getExpenseCategoryStats = withErrorLogging('getExpenseCategoryStats', _getExpenseCategoryStats);
 
+async function _getWasteStats(month?: string): Promise<WasteStat[]> {
+  await requireRole('manager');
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('inventory_movements')
+    .select('*, item:inventory_items(name)')
+    .eq('type', 'waste');
+
+  if (month) {
+    const { startDate, endDate } = getMonthDateRange(month);
+    query = query.gte('date', startDate).lte('date', endDate);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const waste = summarizeWaste((data || []) as WasteMovement[]);
+  const totalCost = waste.reduce((sum, w) => sum + w.cost, 0);
+
+  return waste.map((w) => ({
+    ...w,
+    percentage: totalCost > 0 ? Math.round((w.cost / totalCost) * 100) : 0,
+  }));
+}
+
+export const getWasteStats = withErrorLogging('getWasteStats', _getWasteStats);
+
 export interface MonthlySalesTrend {
   month: string;
   label: string;
@@ -262,6 +354,7 @@ export interface MonthlySalesTrend {
 }
 
 async function _getMonthlySalesTrend(months: number = 6): Promise<MonthlySalesTrend[]> {
+  await requireRole('manager');
   const supabase = await createClient();
   const now = new Date();
 
@@ -272,7 +365,8 @@ async function _getMonthlySalesTrend(months: number = 6): Promise<MonthlySalesTr
 
   const { data, error } = await supabase
     .from('sales')
-    .select('date, amount')
+    .select('date, amount, refunded_amount')
+    .is('deleted_at', null)
     .gte('date', startDate)
     .lte('date', endDate);
 
@@ -281,10 +375,12 @@ async function _getMonthlySalesTrend(months: number = 6): Promise<MonthlySalesTr
   // JS에서 월별 그룹핑
   const monthMap = new Map<string, { amount: number; count: number }>();
   (data || []).forEach((sale) => {
+    const amount = getNetAmount(sale);
+    if (amount === 0) return;
     const [year, m] = sale.date.split('-');
     const monthKey = `${year}-${m}`;
     const existing = monthMap.get(monthKey) || { amount: 0, count: 0 };
-    existing.amount += sale.amount;
+    existing.amount += amount;
     existing.count += 1;
     monthMap.set(monthKey, existing);
   });
@@ -311,12 +407,14 @@ export interface DailySalesTrend {
 }
 
 async function _getDailySalesTrend(month?: string): Promise<DailySalesTrend[]> {
+  await requireRole('manager');
   const supabase = await createClient();
   const { startDate, endDate } = getMonthDateRange(month);
 
   const { data, error } = await supabase
     .from('sales')
-    .select('date, amount')
+    .select('date, amount, refunded_amount')
+    .is('deleted_at', null)
     .gte('date', startDate)
     .lte('date', endDate)
     .order('date');
@@ -326,8 +424,10 @@ async function _getDailySalesTrend(month?: string): Promise<DailySalesTrend[]> {
   const dailyMap = new Map<string, { amount: number; count: number }>();
 
   (data || []).forEach((sale) => {
+    const amount = getNetAmount(sale);
+    if (amount === 0) return;
     const existing = dailyMap.get(sale.date) || { amount: 0, count: 0 };
-    existing.amount += sale.amount;
+    existing.amount += amount;
     existing.count += 1;
     dailyMap.set(sale.date, existing);
   });
@@ -343,3 +443,25 @@ async function _getDailySalesTrend(month?: string): Promise<DailySalesTrend[]> {
 }
 
 export const getDailySalesTrend = withErrorLogging('getDailySalesTrend', _getDailySalesTrend);
+
+async function _getCategoryMarginStats(month?: string): Promise<CategoryMarginStat[]> {
+  await requireRole('manager');
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('sales')
+    .select('product_category, amount, refunded_amount, cogs, items:sale_items(product_category, quantity, unit_price, discount, amount, cogs)')
+    .is('deleted_at', null);
+
+  if (month) {
+    const { startDate, endDate } = getMonthDateRange(month);
+    query = query.gte('date', startDate).lte('date', endDate);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return summarizeCategoryMargins((data || []) as MarginSale[]);
+}
+
+export const getCategoryMarginStats = withErrorLogging('getCategoryMarginStats', _getCategoryMarginStats);
@@ -0,0 +1,40 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { requireRole } from '@/lib/auth-guard';
+import type { Sale, Expense, Customer, PhotoCard } from '@/types/database';
+import { withErrorLogging } from '@/lib/errors';
+
+// 휴지통 목록 (최근 삭제순). 복원은 각 모듈의 restore* 액션 사용
+export interface TrashData {
+  sales: Sale[];
+  expenses: Expense[];
+  customers: Customer[];
+  photoCards: PhotoCard[];
+}
+
+async function _getTrash(): Promise<TrashData> {
+  await requireRole('manager');
+  const supabase = await createClient();
+
+  const [salesRes, expensesRes, customersRes, cardsRes] = await Promise.all([
+    supabase.from('sales').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+    supabase.from('expenses').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+    supabase.from('customers').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+    supabase.from('photo_cards').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }),
+  ]);
+
+  if (salesRes.error) throw salesRes.error;
+  if (expensesRes.error) throw expensesRes.error;
+  if (customersRes.error) throw customersRes.error;
+  if (cardsRes.error) throw cardsRes.error;
+
+  return {
+    sales: (salesRes.data || []) as Sale[],
+    expenses: (expensesRes.data || []) as Expense[],
+    customers: (customersRes.data || []) as Customer[],
+    photoCards: (cardsRes.data || []) as PhotoCard[],
+  };
+}
+
+export const getTrash = withErrorLogging('getTrash', _getTrash);
@@ -0,0 +1,255 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { StaffAccount, StaffInvitation, UserRole } from '@/types/database';
+import { requireRole } from '@/lib/auth-guard';
+import { withErrorLogging, AppError, ErrorCode } from '@/lib/errors';
+import { recordAudit } from '@/lib/audit';
+import { staffInviteSchema, userRoleSchema, uuidSchema } from '@/lib/validations';
+import {
+  DEACTIVATE_BAN_DURATION,
+  generateInviteCode,
+  generateTemporaryPassword,
+  getInviteExpiresAt,
+  hashInviteCode,
+  isAccountDeactivated,
+} from '@/lib/staff-accounts';
+
+// 직원 계정 관리 (owner 전용). Auth 관리 API는 service role 클라이언트로 호출
+
+const INVITATION_COLUMNS = 'id, email, role, expires_at, used_at, used_by, revoked_at, invited_by, created_at';
+
+// 본인 계정은 권한 변경/비활성화 불가 (owner가 스스로 잠기는 것 방지)
+function assertNotSelf(currentUserId: string, targetUserId: string) {
+  if (currentUserId === targetUserId) {
+    throw new AppError(ErrorCode.VALIDATION, '본인 계정은 변경할 수 없습니다');
+  }
+}
+
+// ============ Accounts ============
+
+async function _getStaffAccounts(): Promise<StaffAccount[]> {
+  const currentUser = await requireRole('owner');
+  const admin = createAdminClient();
+
+  const [usersRes, rolesRes] = await Promise.all([
+    admin.auth.admin.listUsers({ page: 1, perPage: 1000 }),
+    admin.from('user_roles').select('user_id, role'),
+  ]);
+
+  if (usersRes.error) throw usersRes.error;
+  if (rolesRes.error) throw rolesRes.error;
+
+  const roleMap = new Map<string, UserRole>(
+    (rolesRes.data || []).map((row) => [row.user_id as string, row.role as UserRole])
+  );
+
+  return usersRes.data.users
+    .map((user) => ({
+      id: user.id,
+      email: user.email ?? null,
+      role: roleMap.get(user.id) ?? 'staff',
+      created_at: user.created_at,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+      invited_at: user.invited_at ?? null,
+      // banned_until은 응답에는 있지만 User 타입에 없음
+      deactivated: isAccountDeactivated((user as { banned_until?: string | null }).banned_until),
+      is_current_user: user.id === currentUser.id,
+    }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export const getStaffAccounts = withErrorLogging('getStaffAccounts', _getStaffAccounts);
+
+async function _updateUserRole(userId: string, role: UserRole): Promise<void> {
+  const user = await requireRole('owner');
+  const parsedId = uuidSchema.safeParse(userId);
+  const parsedRole = userRoleSchema.safeParse(role);
+  if (!parsedId.success || !parsedRole.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+  assertNotSelf(user.id, userId);
+
+  const admin = createAdminClient();
+  const { data: before, error: fetchError } = await admin.from('user_roles').select('role').eq('user_id', userId).maybeSingle();
+  if (fetchError) throw fetchError;
+
+  const { error } = await admin
+    .from('user_roles')
+    .upsert({ user_id: userId, role: parsedRole.data, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+  // 행이 없던 사용자는 staff
+  await recordAudit(admin, user, {
+    action: 'updateUserRole',
+    entity_type: 'user',
+    entity_id: userId,
+    before: { role: before?.role ?? 'staff' },
+    after: { role: parsedRole.data },
+  });
+  revalidatePath('/settings');
+}
+
+export const updateUserRole = withErrorLogging('updateUserRole', _updateUserRole);
+
+async function _setUserDeactivated(userId: string, deactivated: boolean): Promise<void> {
+  const user = await requireRole('owner');
+  const parsed = uuidSchema.safeParse(userId);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+  assertNotSelf(user.id, userId);
+
+  const admin = createAdminClient();
+  const { data: current, error: fetchError } = await admin.auth.admin.getUserById(userId);
+  if (fetchError) throw fetchError;
+
+  const { error } = await admin.auth.admin.updateUserById(userId, {
+    ban_duration: deactivated ? DEACTIVATE_BAN_DURATION : 'none',
+  });
+
+  if (error) throw error;
+  await recordAudit(admin, user, {
+    action: 'setUserDeactivated',
+    entity_type: 'user',
+    entity_id: userId,
+    // banned_until은 응답에는 있지만 User 타입에 없음
+    before: { deactivated: isAccountDeactivated((current.user as { banned_until?: string | null }).banned_until) },
+    after: { deactivated },
+  });
+  revalidatePath('/settings');
+}
+
+export const setUserDeactivated = withErrorLogging('setUserDeactivated', _setUserDeactivated);
+
+// 임시 비밀번호로 재설정. 반환값은 한 번만 보여주고 직원에게 직접 전달
+async function _resetUserPassword(userId: string): Promise<string> {
+  const user = await requireRole('owner');
+  const parsed = uuidSchema.safeParse(userId);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+  assertNotSelf(user.id, userId);
+
+  const temporaryPassword = generateTemporaryPassword();
+  const admin = createAdminClient();
+  const { error } = await admin.auth.admin.updateUserById(userId, { password: temporaryPassword });
+
+  if (error) throw error;
+  // 비밀번호는 남기지 않고 재설정 시각만
+  await recordAudit(admin, user, {
+    action: 'resetUserPassword',
+    entity_type: 'user',
+    entity_id: userId,
+    before: { password_reset_at: null },
+    after: { password_reset_at: new Date().toISOString() },
+  });
+  return temporaryPassword;
+}
+
+export const resetUserPassword = withErrorLogging('resetUserPassword', _resetUserPassword);
+
+// ============ Invitations ============
+
+async function _getStaffInvitations(): Promise<StaffInvitation[]> {
+  await requireRole('owner');
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from('staff_invitations')
+    .select(INVITATION_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return (data || []) as StaffInvitation[];
+}
+
+export const getStaffInvitations = withErrorLogging('getStaffInvitations', _getStaffInvitations);
+
+export interface CreatedStaffInvitation {
+  invitation: StaffInvitation;
+  code: string;
+}
+
+// 일회용 초대 코드 발급. 코드 원문은 이 응답에서만 확인 가능
+async function _createStaffInvitation(input: { email?: string | null; role: UserRole }): Promise<CreatedStaffInvitation> {
+  const user = await requireRole('owner');
+  const parsed = staffInviteSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, `입력값이 올바르지 않습니다: ${parsed.error.issues.map(i => i.message).join(', ')}`);
+  }
+
+  const code = generateInviteCode();
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from('staff_invitations')
+    .insert({
+      code_hash: await hashInviteCode(code),
+      email: parsed.data.email?.trim().toLowerCase() || null,
+      role: parsed.data.role,
+      expires_at: getInviteExpiresAt(),
+      invited_by: user.id,
+    })
+    .select(INVITATION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  revalidatePath('/settings');
+  return { invitation: data as StaffInvitation, code };
+}
+
+export const createStaffInvitation = withErrorLogging('createStaffInvitation', _createStaffInvitation);
+
+async function _revokeStaffInvitation(id: string): Promise<void> {
+  await requireRole('owner');
+  const parsed = uuidSchema.safeParse(id);
+  if (!parsed.success) {
+    throw new AppError(ErrorCode.VALIDATION, '입력값이 올바르지 않습니다');
+  }
+
+  const admin = createAdminClient();
+  const { error } = await admin
+    .from('staff_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('used_at', null);
+
+  if (error) throw error;
+  revalidatePath('/settings');
+}
+
+export const revokeStaffInvitation = withErrorLogging('revokeStaffInvitation', _revokeStaffInvitation);
+
+// Supabase 초대 메일 발송. 메일 링크로 들어오면 /login/join에서 비밀번호를 정한다
+async function _inviteStaffByEmail(input: { email: string; role: UserRole }): Promise<void> {
+  await requireRole('owner');
+  const parsed = staffInviteSchema.safeParse(input);
+  if (!parsed.success || !parsed.data.email) {
+    throw new AppError(ErrorCode.VALIDATION, '이메일을 입력해주세요');
+  }
+
+  const origin = (await headers()).get('origin');
+  const admin = createAdminClient();
+  const { data, error } = await admin.auth.admin.inviteUserByEmail(parsed.data.email.trim().toLowerCase(), {
+    redirectTo: origin ? `${origin}/login/join` : undefined,
+  });
+
+  if (error) {
+    if (error.status === 422) {
+      throw new AppError(ErrorCode.DUPLICATE, '이미 가입된 이메일입니다');
+    }
+    throw error;
+  }
+
+  const { error: roleError } = await admin
+    .from('user_roles')
+    .upsert({ user_id: data.user.id, role: parsed.data.role, updated_at: new Date().toISOString() });
+
+  if (roleError) throw roleError;
+  revalidatePath('/settings');
+}
+
+export const inviteStaffByEmail = withErrorLogging('inviteStaffByEmail', _inviteStaffByEmail);
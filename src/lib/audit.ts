@@ -0,0 +1,110 @@
+import type { createClient } from '@/lib/supabase/server';
+import type { AuditChanges, AuditEntityType, AuditOperation } from '@/types/database';
+import { reportError } from '@/lib/logger';
+
+// 변경 이력(감사 로그) 기록
+// Server Action 안에서 변경 전/후 행을 넘기면 필드 단위 diff로 저장한다
+
+// DB 행 (타입이 있는 행도 그대로 받기 위해 object)
+type AuditRecord = object;
+
+export interface AuditEntry {
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  before?: AuditRecord | null;
+  after?: AuditRecord | null;
+}
+
+// 자동 작업(cron)은 id null
+export interface AuditActor {
+  id: string | null;
+  email?: string | null;
+}
+
+// 자동 관리되는 컬럼과 조인 결과는 비교하지 않음
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at', 'customer', 'items', 'refunds', 'deleted_links']);
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  // DECIMAL 컬럼은 문자열로 올 수 있음
+  return String(a) === String(b);
+}
+
+export function getAuditOperation(before?: AuditRecord | null, after?: AuditRecord | null): AuditOperation {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  return 'update';
+}
+
+// 변경된 필드만 { before, after }로 (생성/삭제는 값이 있는 모든 필드)
+export function diffRecords(before?: AuditRecord | null, after?: AuditRecord | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const prevRow = before as Record<string, unknown> | null | undefined;
+  const nextRow = after as Record<string, unknown> | null | undefined;
+  const keys = new Set([...Object.keys(prevRow || {}), ...Object.keys(nextRow || {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const prev = prevRow ? prevRow[key] ?? null : null;
+    const next = nextRow ? nextRow[key] ?? null : null;
+    if (isSameValue(prev, next)) continue;
+    changes[key] = { before: prev, after: next };
+  }
+
+  return changes;
+}
+
+// 일괄 변경 시 id로 변경 전/후 행을 짝지어 항목 생성
+// 하위 행(매출 결제 등)을 바꿀 때는 getEntityId로 상위 레코드 id를 지정
+export function pairAuditEntries<T extends { id: string }>(
+  action: string,
+  entityType: AuditEntityType,
+  beforeRows: T[],
+  afterRows: T[],
+  getEntityId: (row: T) => string = row => row.id,
+): AuditEntry[] {
+  const beforeById = new Map(beforeRows.map(row => [row.id, row]));
+  return afterRows.map(after => ({
+    action,
+    entity_type: entityType,
+    entity_id: getEntityId(after),
+    before: beforeById.get(after.id) ?? null,
+    after,
+  }));
+}
+
+/**
+ * 변경 이력을 저장한다. 변경 사항이 없는 수정은 건너뛴다
+ * 본 작업은 이미 반영된 뒤라 기록 실패로 액션을 실패시키지 않고 에러만 보고한다
+ */
+export async function recordAudit(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  actor: AuditActor,
+  entries: AuditEntry | AuditEntry[],
+): Promise<void> {
+  const rows = (Array.isArray(entries) ? entries : [entries])
+    .map(entry => ({
+      actor_id: actor.id,
+      actor_email: actor.email ?? null,
+      action: entry.action,
+      entity_type: entry.entity_type,
+      entity_id: entry.entity_id,
+      operation: getAuditOperation(entry.before, entry.after),
+      changes: diffRecords(entry.before, entry.after),
+    }))
+    .filter(row => row.operation !== 'update' || Object.keys(row.changes).length > 0);
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('audit_logs').insert(rows);
+  if (error) {
+    await reportError(error, { action: rows[0].action, extra: { audit: true } });
+  }
+}
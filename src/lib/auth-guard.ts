@@ -2,6 +2,9 @@
 
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
+import type { UserRole } from '@/types/database';
+import { AppError, ErrorCode } from '@/lib/errors';
+import { hasRole, canAccessPath } from '@/lib/permissions';
 
 export async function requireAuth() {
   const supabase = await createClient();
@@ -11,3 +14,40 @@ export async function requireAuth() {
   }
   return user;
 }
+
+// user_roles에 행이 없으면 staff (가장 낮은 권한)
+async function fetchUserRole(userId: string): Promise<UserRole> {
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return (data?.role as UserRole | undefined) ?? 'staff';
+}
+
+export async function getCurrentUserRole(): Promise<UserRole> {
+  const user = await requireAuth();
+  return fetchUserRole(user.id);
+}
+
+/**
+ * 로그인 + 최소 권한 확인 (Server Action용)
+ * 권한이 부족하면 AppError(UNAUTHORIZED)를 던진다
+ */
+export async function requireRole(minimum: UserRole) {
+  const user = await requireAuth();
+  const role = await fetchUserRole(user.id);
+  if (!hasRole(role, minimum)) {
+    throw new AppError(ErrorCode.UNAUTHORIZED, '이 작업을 할 권한이 없습니다');
+  }
+  return user;
+}
+
+// 페이지 layout에서 사용. 권한이 없으면 대시보드로 이동
+export async function requirePageAccess(pathname: string): Promise<void> {
+  const role = await getCurrentUserRole();
+  if (!canAccessPath(role, pathname)) {
+    redirect('/');
+  }
+}
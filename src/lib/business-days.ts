@@ -0,0 +1,137 @@
+import type { CardCompanySetting, CardFeeRate, CardPayment } from '@/types/database';
+import { isKoreanHoliday } from './holidays';
+
+// 영업일(주말·공휴일 제외) 기준 카드 입금일/수수료 계산
+// 날짜는 모두 YYYY-MM-DD 문자열로 다루고, 시간대 영향을 피하려 UTC로 계산
+
+export type CardSettlementRule = Pick<CardCompanySetting, 'fee_rate' | 'deposit_days' | 'deposit_rule' | 'deposit_weekday'>;
+
+export interface CardSettlement {
+  fee: number;
+  expected_deposit: number;
+  expected_deposit_date: string;
+}
+
+function toUTCDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addCalendarDays(date: string, days: number): string {
+  const d = toUTCDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateString(d);
+}
+
+export function isBusinessDay(date: string): boolean {
+  const day = toUTCDate(date).getUTCDay();
+  return day !== 0 && day !== 6 && !isKoreanHoliday(date);
+}
+
+// 해당일이 영업일이면 그대로, 아니면 다음 영업일
+export function nextBusinessDay(date: string): string {
+  let current = date;
+  while (!isBusinessDay(current)) {
+    current = addCalendarDays(current, 1);
+  }
+  return current;
+}
+
+// D+N 영업일 (N=0이면 당일 또는 다음 영업일)
+export function addBusinessDays(date: string, days: number): string {
+  let current = date;
+  let remaining = days;
+  while (remaining > 0) {
+    current = addCalendarDays(current, 1);
+    if (isBusinessDay(current)) remaining -= 1;
+  }
+  return nextBusinessDay(current);
+}
+
+// 매출일 이후 첫 번째 해당 요일 (0=일 ~ 6=토), 휴일이면 다음 영업일
+export function nextWeekday(date: string, weekday: number): string {
+  const day = toUTCDate(date).getUTCDay();
+  const offset = ((weekday - day + 7) % 7) || 7;
+  return nextBusinessDay(addCalendarDays(date, offset));
+}
+
+export function calculateExpectedDepositDate(saleDate: string, rule: Omit<CardSettlementRule, 'fee_rate'>): string {
+  if (rule.deposit_rule === 'next_weekday' && rule.deposit_weekday !== null && rule.deposit_weekday !== undefined) {
+    return nextWeekday(saleDate, rule.deposit_weekday);
+  }
+  return addBusinessDays(saleDate, rule.deposit_days);
+}
+
+// 매출일에 적용되던 수수료율
+// 이력이 없으면 현재 설정값, 매출일이 첫 이력보다 앞서면 가장 오래된 이력을 사용
+export function resolveFeeRate(
+  rates: Pick<CardFeeRate, 'fee_rate' | 'effective_from'>[] | null | undefined,
+  saleDate: string,
+  fallbackRate: number,
+): number {
+  if (!rates || rates.length === 0) return Number(fallbackRate);
+  const sorted = [...rates].sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  const inForce = sorted.find(r => r.effective_from <= saleDate) ?? sorted[sorted.length - 1];
+  return Number(inForce.fee_rate);
+}
+
+// 수수료는 원 단위 반올림
+export function calculateCardFee(amount: number, feeRate: number): number {
+  return Math.round(amount * Number(feeRate) / 100);
+}
+
+export function calculateCardSettlement(amount: number, saleDate: string, rule: CardSettlementRule): CardSettlement {
+  const fee = calculateCardFee(amount, rule.fee_rate);
+  return {
+    fee,
+    expected_deposit: amount - fee,
+    expected_deposit_date: calculateExpectedDepositDate(saleDate, rule),
+  };
+}
+
+export type CardFeeHistory = Pick<CardCompanySetting, 'name' | 'fee_rate'> & {
+  fee_rates?: Pick<CardFeeRate, 'fee_rate' | 'effective_from'>[] | null;
+};
+
+export interface FeeMismatch<T> {
+  sale: T;
+  fee_rate: number;
+  stored_fee: number | null;
+  expected_fee: number;
+  expected_deposit: number;
+}
+
+// 저장된 수수료가 매출일 기준 수수료율과 다른 카드 결제 (카드사 설정이 없는 결제는 제외)
+// 부분 환불된 결제는 실결제액 기준으로 계산
+export function findFeeMismatches<T extends Pick<CardPayment, 'amount' | 'date' | 'fee' | 'card_company'> & { refunded_amount?: number }>(
+  sales: T[],
+  cardCompanies: CardFeeHistory[],
+): FeeMismatch<T>[] {
+  const byName = new Map(cardCompanies.map(c => [c.name, c]));
+  const mismatches: FeeMismatch<T>[] = [];
+
+  for (const sale of sales) {
+    const company = sale.card_company ? byName.get(sale.card_company) : undefined;
+    if (!company) continue;
+
+    const amount = sale.amount - (sale.refunded_amount || 0);
+    const feeRate = resolveFeeRate(company.fee_rates, sale.date, company.fee_rate);
+    const expectedFee = calculateCardFee(amount, feeRate);
+    const storedFee = sale.fee ?? null;
+    if (storedFee === expectedFee) continue;
+
+    mismatches.push({
+      sale,
+      fee_rate: feeRate,
+      stored_fee: storedFee,
+      expected_fee: expectedFee,
+      expected_deposit: amount - expectedFee,
+    });
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,90 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+
+// 캘린더 주간/일간 타임라인 배치
+// 예약에는 끝나는 시간이 없어 한 건을 TIMELINE_EVENT_MINUTES 길이로 그린다
+
+export const TIMELINE_EVENT_MINUTES = 60;
+// 드래그로 옮길 때 맞추는 시간 단위
+export const TIMELINE_SNAP_MINUTES = 30;
+// 예약이 없을 때 보여줄 영업시간
+export const DEFAULT_TIMELINE_HOURS = { startHour: 9, endHour: 21 };
+
+/** 'HH:MM' 또는 'HH:MM:SS' → 자정부터 분 (형식이 아니면 null) */
+export function timeToMinutes(time: string | null | undefined): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** 영업시간을 기본으로, 그 밖의 예약이 있으면 시간 축을 넓힘 */
+export function getTimelineHourRange(
+  times: (string | null)[],
+  defaults: { startHour: number; endHour: number } = DEFAULT_TIMELINE_HOURS,
+): { startHour: number; endHour: number } {
+  let { startHour, endHour } = defaults;
+  for (const time of times) {
+    const minutes = timeToMinutes(time);
+    if (minutes == null) continue;
+    startHour = Math.min(startHour, Math.floor(minutes / 60));
+    endHour = Math.max(endHour, Math.min(Math.ceil((minutes + TIMELINE_EVENT_MINUTES) / 60), 24));
+  }
+  return { startHour, endHour };
+}
+
+/** 타임라인 위치(분)를 스냅 단위로 내리고 시간 축 안으로 맞춤 */
+export function snapTimelineMinutes(minutes: number, range: { startHour: number; endHour: number }): number {
+  const snapped = Math.floor(minutes / TIMELINE_SNAP_MINUTES) * TIMELINE_SNAP_MINUTES;
+  return Math.min(Math.max(snapped, range.startHour * 60), range.endHour * 60 - TIMELINE_SNAP_MINUTES);
+}
+
+export interface TimelineEvent<T> {
+  item: T;
+  start: number; // 자정부터 분
+  column: number; // 겹치는 예약끼리 나란히 놓을 칸
+  columns: number; // 겹침 묶음의 칸 수
+}
+
+/**
+ * 시간이 있는 예약을 겹치지 않게 칸으로 나눈다.
+ * 겹치는 예약끼리 한 묶음으로 보고, 묶음 안에서 비어 있는 가장 왼쪽 칸에 넣음
+ */
+export function layoutTimelineEvents<T extends { time: string | null }>(items: T[]): TimelineEvent<T>[] {
+  const timed = items
+    .map((item) => ({ item, start: timeToMinutes(item.time) }))
+    .filter((e): e is { item: T; start: number } => e.start != null)
+    .sort((a, b) => a.start - b.start);
+
+  const result: TimelineEvent<T>[] = [];
+  let group: TimelineEvent<T>[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    for (const event of group) event.columns = columnEnds.length;
+    group = [];
+    columnEnds = [];
+  };
+
+  for (const { item, start } of timed) {
+    if (start >= groupEnd) closeGroup();
+    let column = columnEnds.findIndex((end) => end <= start);
+    if (column === -1) column = columnEnds.length;
+    columnEnds[column] = start + TIMELINE_EVENT_MINUTES;
+    groupEnd = Math.max(groupEnd, start + TIMELINE_EVENT_MINUTES);
+    const event = { item, start, column, columns: 1 };
+    group.push(event);
+    result.push(event);
+  }
+  closeGroup();
+  return result;
+}
+
+/** 날짜가 속한 주 (일요일 시작) 7일 */
+export function getWeekDates(date: string): string[] {
+  const start = startOfWeek(parseISO(date), { weekStartsOn: 0 });
+  return Array.from({ length: 7 }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd'));
+}
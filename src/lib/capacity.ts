@@ -0,0 +1,209 @@
+import type { createClient } from '@/lib/supabase/server';
+import type { ReservationCapacity } from '@/types/database';
+import { reportError } from '@/lib/logger';
+
+// 예약 수용량 (하루/시간대별 건수·작업량)
+// 취소된 예약은 세지 않고, 시간이 없는 예약은 하루 합계에만 넣는다
+
+export const DEFAULT_WORKLOAD = 1;
+
+export type CapacityReservation = {
+  id?: string;
+  time: string | null;
+  status: string;
+  product_category?: string | null;
+};
+
+export type CapacityWarningType = 'daily_count' | 'daily_workload' | 'slot_count' | 'slot_workload';
+
+export interface CapacityWarning {
+  type: CapacityWarningType;
+  slot: string | null; // 시간대 시작 (HH:MM)
+  value: number;
+  limit: number;
+}
+
+interface Load {
+  count: number;
+  workload: number;
+}
+
+export interface DayLoad extends Load {
+  slots: Record<string, Load>;
+}
+
+// 소수 작업량 합계 오차 정리 (0.1 + 0.2 등)
+function roundWorkload(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** 예약 시간이 속한 시간대 시작 (slotMinutes 단위로 내림, 09:40 → 09:30) */
+export function getSlotKey(time: string | null | undefined, slotMinutes: number): string | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  const start = Math.floor(minutes / slotMinutes) * slotMinutes;
+  return `${String(Math.floor(start / 60)).padStart(2, '0')}:${String(start % 60).padStart(2, '0')}`;
+}
+
+/** 상품 종류별 작업량 (종류가 없거나 모르는 종류면 1) */
+export function getReservationWorkload(reservation: CapacityReservation, workloads: Record<string, number>): number {
+  const category = reservation.product_category;
+  return (category && workloads[category]) || DEFAULT_WORKLOAD;
+}
+
+export function summarizeDayLoad(
+  reservations: CapacityReservation[],
+  slotMinutes: number,
+  workloads: Record<string, number>,
+): DayLoad {
+  const load: DayLoad = { count: 0, workload: 0, slots: {} };
+  for (const r of reservations) {
+    if (r.status === 'cancelled') continue;
+    const workload = getReservationWorkload(r, workloads);
+    load.count += 1;
+    load.workload = roundWorkload(load.workload + workload);
+    const slot = getSlotKey(r.time, slotMinutes);
+    if (!slot) continue;
+    const slotLoad = (load.slots[slot] ??= { count: 0, workload: 0 });
+    slotLoad.count += 1;
+    slotLoad.workload = roundWorkload(slotLoad.workload + workload);
+  }
+  return load;
+}
+
+/**
+ * 새로 저장할 예약(candidate)을 넣었을 때 한도를 넘는 항목.
+ * 같은 날 다른 예약(sameDay)에 candidate 자신이 들어 있으면 id로 빼고 계산 (수정 시)
+ */
+export function getCapacityWarnings(
+  candidate: CapacityReservation,
+  sameDay: CapacityReservation[],
+  capacity: ReservationCapacity,
+  workloads: Record<string, number>,
+): CapacityWarning[] {
+  if (candidate.status === 'cancelled') return [];
+  const others = candidate.id ? sameDay.filter((r) => r.id !== candidate.id) : sameDay;
+  const load = summarizeDayLoad([...others, candidate], capacity.slot_minutes, workloads);
+  const warnings: CapacityWarning[] = [];
+
+  const check = (type: CapacityWarningType, slot: string | null, value: number, limit: number | null) => {
+    if (limit != null && value > limit) warnings.push({ type, slot, value, limit });
+  };
+
+  check('daily_count', null, load.count, capacity.daily_limit);
+  check('daily_workload', null, load.workload, capacity.daily_workload_limit);
+  const slot = getSlotKey(candidate.time, capacity.slot_minutes);
+  if (slot) {
+    check('slot_count', slot, load.slots[slot].count, capacity.slot_limit);
+    check('slot_workload', slot, load.slots[slot].workload, capacity.slot_workload_limit);
+  }
+  return warnings;
+}
+
+export function hasCapacityLimits(capacity: ReservationCapacity): boolean {
+  return [capacity.daily_limit, capacity.daily_workload_limit, capacity.slot_limit, capacity.slot_workload_limit].some((limit) => limit != null);
+}
+
+/**
+ * 하루가 얼마나 찼는지 (1 = 한도만큼). 설정된 한도 중 가장 빡빡한 비율.
+ * 시간대 한도는 가장 붐비는 시간대 기준, 한도가 하나도 없으면 null
+ */
+export function getDayLoadRatio(
+  reservations: CapacityReservation[],
+  capacity: ReservationCapacity,
+  workloads: Record<string, number>,
+): number | null {
+  const load = summarizeDayLoad(reservations, capacity.slot_minutes, workloads);
+  const slots = Object.values(load.slots);
+  const ratios: number[] = [];
+  if (capacity.daily_limit) ratios.push(load.count / capacity.daily_limit);
+  if (capacity.daily_workload_limit) ratios.push(load.workload / capacity.daily_workload_limit);
+  if (capacity.slot_limit) ratios.push(Math.max(0, ...slots.map((s) => s.count)) / capacity.slot_limit);
+  if (capacity.slot_workload_limit) ratios.push(Math.max(0, ...slots.map((s) => s.workload)) / capacity.slot_workload_limit);
+  return ratios.length > 0 ? Math.max(...ratios) : null;
+}
+
+export function formatCapacityWarning(warning: CapacityWarning): string {
+  const scope = warning.slot ? `${warning.slot} 시간대` : '하루';
+  if (warning.type === 'daily_count' || warning.type === 'slot_count') {
+    return `${scope} 예약 ${warning.value}건 (한도 ${warning.limit}건)`;
+  }
+  return `${scope} 작업량 ${warning.value} (한도 ${warning.limit})`;
+}
+
+// 설정 조회 (서버 액션에서 사용)
+
+export interface ReservationCapacityConfig {
+  capacity: ReservationCapacity;
+  categories: { value: string; label: string; workload: number }[];
+}
+
+const EMPTY_CAPACITY: ReservationCapacity = {
+  slot_minutes: 60,
+  daily_limit: null,
+  daily_workload_limit: null,
+  slot_limit: null,
+  slot_workload_limit: null,
+};
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export async function loadCapacityConfig(supabase: SupabaseClient): Promise<ReservationCapacityConfig> {
+  const [capacityResult, categoriesResult] = await Promise.all([
+    supabase
+      .from('reservation_capacity')
+      .select('slot_minutes, daily_limit, daily_workload_limit, slot_limit, slot_workload_limit')
+      .eq('id', 1)
+      .maybeSingle(),
+    supabase.from('sale_categories').select('value, label, workload').order('sort_order', { ascending: true }),
+  ]);
+  if (capacityResult.error) throw capacityResult.error;
+  if (categoriesResult.error) throw categoriesResult.error;
+
+  // DECIMAL 컬럼은 문자열로 올 수 있어 숫자로 맞춤
+  const toNumber = (value: unknown) => (value == null ? null : Number(value));
+  const row = capacityResult.data;
+  return {
+    capacity: row
+      ? {
+          slot_minutes: row.slot_minutes,
+          daily_limit: row.daily_limit,
+          daily_workload_limit: toNumber(row.daily_workload_limit),
+          slot_limit: row.slot_limit,
+          slot_workload_limit: toNumber(row.slot_workload_limit),
+        }
+      : EMPTY_CAPACITY,
+    categories: (categoriesResult.data || []).map((c) => ({
+      value: c.value,
+      label: c.label,
+      workload: Number(c.workload ?? 1),
+    })),
+  };
+}
+
+/**
+ * 예약을 저장했을 때 수용량을 넘는 항목 (저장은 막지 않음)
+ * 예약 등록/수정 시 같은 날 예약을 다시 조회해 계산
+ * 예약은 이미 저장된 뒤라 조회에 실패하면 경고 없이 넘어감 (실패로 보이면 다시 저장해 중복 등록됨)
+ */
+export async function findCapacityWarnings(
+  supabase: SupabaseClient,
+  candidate: CapacityReservation & { date: string },
+): Promise<CapacityWarning[]> {
+  try {
+    const config = await loadCapacityConfig(supabase);
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('id, time, status, product_category')
+      .eq('date', candidate.date)
+      .neq('status', 'cancelled');
+    if (error) throw error;
+
+    const workloads = Object.fromEntries(config.categories.map((c) => [c.value, c.workload]));
+    return getCapacityWarnings(candidate, (data || []) as CapacityReservation[], config.capacity, workloads);
+  } catch (error) {
+    await reportError(error, { action: 'findCapacityWarnings' });
+    return [];
+  }
+}
@@ -1,4 +1,4 @@
-import type { PaymentMethod, ReservationChannel, ExpenseCategory } from '@/types/database';
+import type { PaymentMethod, ReservationChannel, ExpenseCategory, DepositRule, RefundType, AuditEntityType, AuditOperation, TrashEntityType, UserRole, StaffInvitationStatus, InventoryItemKind, InventoryMovementType, WasteReason, DeliveryStatus, RecurrenceFrequency, CustomerOccasionType, PointTransactionType, GiftVoucherStatus } from '@/types/database';
 
 // ─── 결제방식 라벨 ─────────────────────────────────────────────
 export const PAYMENT_LABELS: Record<string, string> = {
@@ -7,7 +7,8 @@ export const PAYMENT_LABELS: Record<string, string> = {
   transfer: '계좌이체',
   naverpay: '네이버페이',
   kakaopay: '카카오페이',
-} satisfies Record<PaymentMethod | 'kakaopay', string>;
+  voucher: '선불권',
+} satisfies Record<PaymentMethod | 'kakaopay' | 'voucher', string>;
 
 // ─── 채널 라벨 ─────────────────────────────────────────────────
 export const CHANNEL_LABELS: Record<string, string> = {
@@ -18,6 +19,20 @@ export const CHANNEL_LABELS: Record<string, string> = {
   other: '기타',
 } satisfies Record<ReservationChannel, string>;
 
+// ─── 카드 입금 규칙 라벨 ───────────────────────────────────────
+export const DEPOSIT_RULE_LABELS: Record<string, string> = {
+  business_days: '영업일',
+  next_weekday: '요일',
+} satisfies Record<DepositRule, string>;
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'] as const;
+
+// ─── 환불 유형 라벨 ─────────────────────────────────────────────
+export const REFUND_TYPE_LABELS: Record<string, string> = {
+  full: '전액 환불',
+  partial: '부분 취소',
+} satisfies Record<RefundType, string>;
+
 // ─── 지출 카테고리 라벨 ────────────────────────────────────────
 export const EXPENSE_LABELS: Record<string, string> = {
   flower_purchase: '꽃 사입',
@@ -28,3 +43,197 @@ export const EXPENSE_LABELS: Record<string, string> = {
   supplies: '소모품',
   other: '기타',
 } satisfies Record<ExpenseCategory, string>;
+
+// ─── 변경 이력 라벨 ────────────────────────────────────────────
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  sale: '매출',
+  expense: '지출',
+  customer: '고객',
+  reservation: '예약',
+  gift_voucher: '선불권',
+  user: '직원 계정',
+} satisfies Record<AuditEntityType, string>;
+
+export const AUDIT_OPERATION_LABELS: Record<string, string> = {
+  create: '등록',
+  update: '수정',
+  delete: '삭제',
+} satisfies Record<AuditOperation, string>;
+
+// 액션 이름(withErrorLogging) → 표시 이름, 없으면 액션 이름 그대로 표시
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  createSale: '매출 등록',
+  updateSale: '매출 수정',
+  deleteSale: '매출 삭제',
+  restoreSale: '매출 복원',
+  createSaleRefund: '환불 등록',
+  deleteSaleRefund: '환불 취소',
+  confirmDeposits: '입금 확인',
+  confirmDeposit: '입금 확인',
+  confirmMultipleDeposits: '입금 일괄 확인',
+  revertDeposit: '입금 확인 취소',
+  confirmSettlementDeposits: '정산내역 입금 확정',
+  applyFeeRecalculation: '수수료 재계산',
+  uploadSalePhotos: '사진 추가',
+  deleteSalePhoto: '사진 삭제',
+  createExpense: '지출 등록',
+  updateExpense: '지출 수정',
+  deleteExpense: '지출 삭제',
+  restoreExpense: '지출 복원',
+  createCustomer: '고객 등록',
+  updateCustomer: '고객 수정',
+  updateCustomerGrade: '고객 등급 변경',
+  deleteCustomer: '고객 삭제',
+  restoreCustomer: '고객 복원',
+  findOrCreateCustomer: '고객 자동 등록',
+  mergeCustomers: '고객 병합',
+  autoGradeCustomers: '자동 등급 조정',
+  adjustCustomerPoints: '포인트 조정',
+  createReservation: '예약 등록',
+  updateReservation: '예약 수정',
+  deleteReservation: '예약 삭제',
+  convertReservationToSale: '예약 → 매출 전환',
+  importIcsReservations: '예약 가져오기 (ICS)',
+  approveReservationDraft: '예약 가져오기 승인',
+  createGiftVoucher: '선불권 판매',
+  updateGiftVoucher: '선불권 수정',
+  deleteGiftVoucher: '선불권 삭제',
+  updateUserRole: '직원 권한 변경',
+  setUserDeactivated: '직원 계정 비활성화/활성화',
+  resetUserPassword: '직원 비밀번호 재설정',
+};
+
+// 변경 필드 표시 이름 (없으면 컬럼명 그대로 표시)
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  date: '날짜',
+  amount: '금액',
+  product_name: '상품명',
+  product_category: '카테고리',
+  payment_method: '결제방식',
+  card_company: '카드사',
+  fee: '수수료',
+  expected_deposit: '입금예정액',
+  expected_deposit_date: '입금예정일',
+  deposit_status: '입금상태',
+  deposited_at: '입금일시',
+  deposited_amount: '실입금액',
+  deleted_at: '삭제일시',
+  refunded_amount: '환불액',
+  reservation_channel: '예약방식',
+  customer_name: '고객명',
+  customer_phone: '연락처',
+  customer_id: '고객',
+  reservation_id: '예약',
+  note: '비고',
+  has_review: '리뷰',
+  photos: '사진',
+  item_name: '품목명',
+  category: '카테고리',
+  unit_price: '단가',
+  quantity: '수량',
+  total_amount: '합계',
+  vendor: '거래처',
+  name: '이름',
+  phone: '연락처',
+  grade: '등급',
+  gender: '성별',
+  time: '시간',
+  title: '제목',
+  description: '내용',
+  status: '상태',
+  sale_id: '매출',
+  estimated_amount: '예상 금액',
+  reminder_at: '알림',
+  points_used: '포인트 사용',
+  point_balance: '포인트 잔액',
+  voucher_id: '선불권',
+  voucher_amount: '선불권 사용',
+  code: '선불권 번호',
+  issued_date: '판매일',
+  expires_at: '유효기간',
+  role: '권한',
+  deactivated: '비활성화',
+  password_reset_at: '비밀번호 재설정',
+};
+
+// ─── 휴지통 라벨 ───────────────────────────────────────────────
+export const TRASH_ENTITY_LABELS: Record<string, string> = {
+  sale: '매출',
+  expense: '지출',
+  customer: '고객',
+  photo_card: '사진 카드',
+} satisfies Record<TrashEntityType, string>;
+
+// ─── 재고 라벨 ─────────────────────────────────────────────────
+export const INVENTORY_KIND_LABELS: Record<string, string> = {
+  flower: '꽃',
+  supply: '소모품',
+} satisfies Record<InventoryItemKind, string>;
+
+export const INVENTORY_MOVEMENT_LABELS: Record<string, string> = {
+  in: '입고',
+  out: '출고',
+  waste: '폐기',
+  adjust: '조정',
+} satisfies Record<InventoryMovementType, string>;
+
+export const WASTE_REASON_LABELS: Record<string, string> = {
+  wilted: '시듦',
+  damaged: '파손',
+  unsold: '판매 안 됨',
+  other: '기타',
+} satisfies Record<WasteReason, string>;
+
+// ─── 직원 계정 라벨 ────────────────────────────────────────────
+export const USER_ROLE_LABELS: Record<string, string> = {
+  owner: '대표',
+  manager: '매니저',
+  staff: '직원',
+} satisfies Record<UserRole, string>;
+
+export const STAFF_INVITATION_STATUS_LABELS: Record<string, string> = {
+  pending: '대기',
+  used: '사용됨',
+  expired: '만료',
+  revoked: '취소',
+} satisfies Record<StaffInvitationStatus, string>;
+
+// ─── 배송 라벨 ─────────────────────────────────────────────────
+export const DELIVERY_STATUS_LABELS: Record<string, string> = {
+  preparing: '준비중',
+  in_transit: '배송중',
+  delivered: '완료',
+  failed: '실패',
+} satisfies Record<DeliveryStatus, string>;
+
+// ─── 반복 예약 라벨 ────────────────────────────────────────────
+export const RECURRENCE_FREQUENCY_LABELS: Record<string, string> = {
+  weekly: '매주',
+  biweekly: '격주',
+  monthly: '매월',
+} satisfies Record<RecurrenceFrequency, string>;
+
+// ─── 고객 기념일 라벨 ──────────────────────────────────────────
+export const OCCASION_TYPE_LABELS: Record<string, string> = {
+  birthday: '생일',
+  anniversary: '기념일',
+  memorial: '기일',
+  other: '기타',
+} satisfies Record<CustomerOccasionType, string>;
+
+export const OCCASION_RELATIONSHIPS = ['본인', '배우자', '연인', '어머니', '아버지', '자녀', '친구', '동료'] as const;
+
+// ─── 포인트 라벨 ───────────────────────────────────────────────
+export const POINT_TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  earn: '적립',
+  redeem: '사용',
+  expire: '소멸',
+  adjust: '조정',
+} satisfies Record<PointTransactionType, string>;
+
+// ─── 선불권 상태 라벨 ───────────────────────────────────────────
+export const GIFT_VOUCHER_STATUS_LABELS: Record<string, string> = {
+  active: '사용 가능',
+  used: '사용 완료',
+  expired: '기한 만료',
+} satisfies Record<GiftVoucherStatus, string>;
@@ -0,0 +1,26 @@
+import { createClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// /api/cron/* 공통 (Vercel Cron은 Authorization: Bearer CRON_SECRET 헤더를 자동으로 붙임)
+
+/** CRON_SECRET 확인. 로컬 개발에서는 통과 */
+export function verifyCronAuth(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader === `Bearer ${process.env.CRON_SECRET}`) return true;
+
+  // 로컬 테스트용 fallback
+  if (process.env.NODE_ENV === 'development') return true;
+  return false;
+}
+
+/**
+ * cron용 Supabase 클라이언트 (RLS 우회).
+ * 데이터를 바꾸는 작업은 SUPABASE_SERVICE_ROLE_KEY가 없으면 실패 — anon 키로는 RLS에 막혀 일부만 처리된 채 성공처럼 끝남.
+ * readOnly면 키가 없을 때 anon 키로 읽음
+ */
+export function createCronClient({ readOnly = false }: { readOnly?: boolean } = {}) {
+  if (readOnly && !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+  }
+  return createAdminClient();
+}
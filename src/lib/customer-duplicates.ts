@@ -0,0 +1,194 @@
+import type { Customer, CustomerGrade } from '@/types/database';
+
+// 중복 고객 찾기 / 병합
+// 연락처는 숫자만 비교하고, 이름은 공백·"님"을 빼고 비교 (번호를 바꾼 고객은 같은 이름으로 잡힘)
+
+export type CustomerDuplicateReason = 'phone' | 'name' | 'similar_name';
+
+export const CUSTOMER_DUPLICATE_REASON_LABELS: Record<CustomerDuplicateReason, string> = {
+  phone: '같은 연락처',
+  name: '같은 이름',
+  similar_name: '비슷한 이름 · 같은 뒷번호',
+};
+
+// 이름 오타로 볼 최대 글자 차이 (뒷번호 4자리가 같을 때만)
+const SIMILAR_NAME_MAX_DISTANCE = 1;
+// 병합 노트 최대 길이 (customerSchema.note)
+const MAX_NOTE_LENGTH = 1000;
+
+export type DuplicateCustomer = Pick<Customer, 'id' | 'name' | 'phone' | 'created_at'> &
+  Partial<Pick<Customer, 'total_purchase_count' | 'total_purchase_amount'>>;
+
+export interface CustomerDuplicateGroup<T extends DuplicateCustomer> {
+  customers: T[];
+  reasons: CustomerDuplicateReason[];
+}
+
+/** 숫자만 (+82 10… → 010…) */
+export function normalizePhoneDigits(phone: string): string {
+  return phone.replace(/\D/g, '').replace(/^82(?=1)/, '0');
+}
+
+/** DB에 저장됐을 수 있는 표기들 (01012345678, 010-1234-5678, 010-123-4567) */
+export function getPhoneVariants(phone: string): string[] {
+  const digits = normalizePhoneDigits(phone);
+  const variants = new Set([phone.trim(), digits]);
+  if (digits.length === 11) variants.add(`${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7)}`);
+  if (digits.length === 10 && !digits.startsWith('02')) variants.add(`${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`);
+  if (digits.startsWith('02') && digits.length >= 9) variants.add(`02-${digits.slice(2, -4)}-${digits.slice(-4)}`);
+  return [...variants].filter(Boolean);
+}
+
+export function normalizeCustomerName(name: string): string {
+  return name.replace(/\s/g, '').replace(/(고객)?님$/, '').toLowerCase();
+}
+
+/** 글자 단위 편집 거리 */
+export function getNameDistance(a: string, b: string): number {
+  const x = [...a];
+  const y = [...b];
+  let prev = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+    }
+    prev = current;
+  }
+  return prev[y.length];
+}
+
+/** 두 고객이 같은 사람으로 보이는 이유 (아니면 null) */
+export function getCustomerDuplicateReason(a: DuplicateCustomer, b: DuplicateCustomer): CustomerDuplicateReason | null {
+  const phoneA = normalizePhoneDigits(a.phone);
+  const phoneB = normalizePhoneDigits(b.phone);
+  if (phoneA && phoneA === phoneB) return 'phone';
+
+  const nameA = normalizeCustomerName(a.name);
+  const nameB = normalizeCustomerName(b.name);
+  if (!nameA || !nameB) return null;
+  if (nameA === nameB) return 'name';
+  if (
+    phoneA.length >= 4 &&
+    phoneA.slice(-4) === phoneB.slice(-4) &&
+    Math.min([...nameA].length, [...nameB].length) >= 2 &&
+    getNameDistance(nameA, nameB) <= SIMILAR_NAME_MAX_DISTANCE
+  ) {
+    return 'similar_name';
+  }
+  return null;
+}
+
+/** "다른 사람" 표시한 쌍의 키 (순서 무관) */
+export function getCustomerPairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * 중복 후보 묶음. 연락처/이름/뒷번호가 같은 고객끼리만 비교하고, 이어지는 쌍은 한 묶음으로.
+ * excludedPairs(getCustomerPairKey)에 있는 쌍은 연결하지 않음
+ */
+export function findCustomerDuplicateGroups<T extends DuplicateCustomer>(
+  customers: T[],
+  excludedPairs: ReadonlySet<string> = new Set(),
+): CustomerDuplicateGroup<T>[] {
+  const buckets = new Map<string, number[]>();
+  const addToBucket = (key: string, index: number) => {
+    const list = buckets.get(key);
+    if (list) list.push(index);
+    else buckets.set(key, [index]);
+  };
+  customers.forEach((customer, index) => {
+    const phone = normalizePhoneDigits(customer.phone);
+    if (phone) addToBucket(`p:${phone}`, index);
+    if (phone.length >= 4) addToBucket(`t:${phone.slice(-4)}`, index);
+    const name = normalizeCustomerName(customer.name);
+    if (name) addToBucket(`n:${name}`, index);
+  });
+
+  // union-find
+  const parent = customers.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: { a: number; b: number; reason: CustomerDuplicateReason }[] = [];
+  const checked = new Set<string>();
+
+  for (const indexes of buckets.values()) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = customers[indexes[i]];
+        const b = customers[indexes[j]];
+        const key = getCustomerPairKey(a.id, b.id);
+        if (checked.has(key)) continue;
+        checked.add(key);
+        if (excludedPairs.has(key)) continue;
+        const reason = getCustomerDuplicateReason(a, b);
+        if (!reason) continue;
+        edges.push({ a: indexes[i], b: indexes[j], reason });
+        parent[find(indexes[i])] = find(indexes[j]);
+      }
+    }
+  }
+
+  const groups = new Map<number, { members: Set<number>; reasons: Set<CustomerDuplicateReason> }>();
+  for (const edge of edges) {
+    const root = find(edge.a);
+    const group = groups.get(root) ?? { members: new Set<number>(), reasons: new Set<CustomerDuplicateReason>() };
+    group.members.add(edge.a).add(edge.b);
+    group.reasons.add(edge.reason);
+    groups.set(root, group);
+  }
+
+  const order: CustomerDuplicateReason[] = ['phone', 'similar_name', 'name'];
+  return [...groups.values()]
+    .map((group) => ({
+      customers: [...group.members].sort((a, b) => a - b).map((i) => customers[i]),
+      reasons: order.filter((reason) => group.reasons.has(reason)),
+    }))
+    // 연락처가 같은 묶음(확실한 중복)을 먼저
+    .sort((a, b) => order.indexOf(a.reasons[0]) - order.indexOf(b.reasons[0]));
+}
+
+/** 남길 고객 기본값 — 구매가 많은 고객, 같으면 먼저 등록된 고객 */
+export function pickMergeSurvivor<T extends DuplicateCustomer>(customers: T[]): T {
+  return [...customers].sort(
+    (a, b) =>
+      (b.total_purchase_amount ?? 0) - (a.total_purchase_amount ?? 0) ||
+      (b.total_purchase_count ?? 0) - (a.total_purchase_count ?? 0) ||
+      a.created_at.localeCompare(b.created_at)
+  )[0];
+}
+
+const GRADE_RANK: Record<CustomerGrade, number> = { new: 0, regular: 1, vip: 2, blacklist: 3 };
+
+/** 병합 후 등급 — 블랙리스트가 하나라도 있으면 블랙리스트, 아니면 가장 높은 등급 */
+export function mergeCustomerGrade(grades: CustomerGrade[]): CustomerGrade {
+  return grades.reduce((best, grade) => (GRADE_RANK[grade] > GRADE_RANK[best] ? grade : best), 'new' as CustomerGrade);
+}
+
+/** 병합 후 메모 — 남길 고객 메모 + 합쳐지는 고객 메모 + 다른 연락처 */
+export function mergeCustomerNotes(
+  survivor: Pick<Customer, 'phone' | 'note'>,
+  merged: Pick<Customer, 'name' | 'phone' | 'note'>[],
+): string | null {
+  const lines = survivor.note?.trim() ? [survivor.note.trim()] : [];
+  for (const customer of merged) {
+    const note = customer.note?.trim();
+    if (note && !lines.some((line) => line.includes(note))) lines.push(note);
+  }
+  const survivorPhone = normalizePhoneDigits(survivor.phone);
+  const otherPhones = [...new Set(merged.map((c) => c.phone).filter((phone) => normalizePhoneDigits(phone) !== survivorPhone))];
+  if (otherPhones.length > 0) lines.push(`이전 연락처: ${otherPhones.join(', ')}`);
+
+  const note = lines.join('\n');
+  return note ? note.slice(0, MAX_NOTE_LENGTH) : null;
+}
+
+/** 병합 후 이전 연락처 (숫자만) — 합쳐지는 고객의 연락처와 그 고객의 이전 연락처, 남길 고객 번호는 제외 */
+export function mergePreviousPhones(
+  survivor: Pick<Customer, 'phone' | 'previous_phones'>,
+  merged: Pick<Customer, 'phone' | 'previous_phones'>[],
+): string[] {
+  const survivorPhone = normalizePhoneDigits(survivor.phone);
+  const phones = [...(survivor.previous_phones ?? []), ...merged.flatMap((c) => [c.phone, ...(c.previous_phones ?? [])])];
+  return [...new Set(phones.map(normalizePhoneDigits))].filter((phone) => phone && phone !== survivorPhone);
+}
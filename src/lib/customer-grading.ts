@@ -0,0 +1,167 @@
+import { format, parseISO, subMonths } from 'date-fns';
+import type { createClient } from '@/lib/supabase/server';
+import type { CustomerGrade, CustomerGradeRules } from '@/types/database';
+import { recordAudit, pairAuditEntries } from '@/lib/audit';
+import type { AuditActor } from '@/lib/audit';
+import { chunkArray, fetchAllRows, ID_FILTER_CHUNK_SIZE } from '@/lib/supabase/pagination';
+
+// 고객 자동 등급 (신규 → 단골 → VIP)
+// 최근 period_months개월 구매로 등급을 다시 계산. 블랙리스트는 자동으로 바꾸지 않음
+
+export const DEFAULT_GRADE_RULES: CustomerGradeRules = {
+  enabled: false,
+  period_months: 12,
+  regular_min_count: 3,
+  regular_min_amount: null,
+  vip_min_count: 10,
+  vip_min_amount: 1000000,
+  recency_months: null,
+  allow_downgrade: true,
+};
+
+type AutoGrade = Exclude<CustomerGrade, 'blacklist'>;
+
+const GRADE_RANK: Record<AutoGrade, number> = { new: 0, regular: 1, vip: 2 };
+
+export interface CustomerGradeStats {
+  count: number;
+  amount: number;
+  last_purchase: string | null; // YYYY-MM-DD
+}
+
+export interface CustomerGradeChange {
+  customer_id: string;
+  from: CustomerGrade;
+  to: CustomerGrade;
+}
+
+/** today 기준 months개월 전 날짜 (YYYY-MM-DD) */
+export function getMonthsAgo(today: string, months: number): string {
+  return format(subMonths(parseISO(today), months), 'yyyy-MM-dd');
+}
+
+// 횟수·금액 중 설정된 기준 하나만 채워도 통과 (둘 다 없으면 그 등급은 자동으로 주지 않음)
+function meetsThreshold(stats: CustomerGradeStats, minCount: number | null, minAmount: number | null): boolean {
+  if (minCount == null && minAmount == null) return false;
+  return (minCount != null && stats.count >= minCount) || (minAmount != null && stats.amount >= minAmount);
+}
+
+/** 기간 내 구매 통계로 본 등급 (stats는 최근 period_months개월 집계) */
+export function evaluateCustomerGrade(stats: CustomerGradeStats | undefined, rules: CustomerGradeRules, today: string): AutoGrade {
+  if (!stats || stats.count === 0) return 'new';
+  if (rules.recency_months != null) {
+    if (!stats.last_purchase || stats.last_purchase < getMonthsAgo(today, rules.recency_months)) return 'new';
+  }
+  if (meetsThreshold(stats, rules.vip_min_count, rules.vip_min_amount)) return 'vip';
+  if (meetsThreshold(stats, rules.regular_min_count, rules.regular_min_amount)) return 'regular';
+  return 'new';
+}
+
+/** 바꿀 등급 (그대로 두면 null). 블랙리스트는 그대로, allow_downgrade가 꺼져 있으면 올리기만 */
+export function getAutoGradeChange(current: CustomerGrade, evaluated: AutoGrade, rules: CustomerGradeRules): AutoGrade | null {
+  if (current === 'blacklist' || current === evaluated) return null;
+  if (!rules.allow_downgrade && GRADE_RANK[evaluated] < GRADE_RANK[current]) return null;
+  return evaluated;
+}
+
+export function planCustomerGradeChanges(
+  customers: { id: string; grade: CustomerGrade }[],
+  statsByCustomer: Map<string, CustomerGradeStats>,
+  rules: CustomerGradeRules,
+  today: string,
+): CustomerGradeChange[] {
+  const changes: CustomerGradeChange[] = [];
+  for (const customer of customers) {
+    const next = getAutoGradeChange(customer.grade, evaluateCustomerGrade(statsByCustomer.get(customer.id), rules, today), rules);
+    if (next) changes.push({ customer_id: customer.id, from: customer.grade, to: next });
+  }
+  return changes;
+}
+
+/** 등급별 이동 인원 (설정 화면 미리보기) */
+export function summarizeGradeChanges(changes: CustomerGradeChange[]): Record<AutoGrade, { up: number; down: number }> {
+  const summary: Record<AutoGrade, { up: number; down: number }> = {
+    new: { up: 0, down: 0 },
+    regular: { up: 0, down: 0 },
+    vip: { up: 0, down: 0 },
+  };
+  for (const change of changes) {
+    if (change.from === 'blacklist' || change.to === 'blacklist') continue;
+    const bucket = summary[change.to];
+    if (GRADE_RANK[change.to] > GRADE_RANK[change.from]) bucket.up += 1;
+    else bucket.down += 1;
+  }
+  return summary;
+}
+
+// 조회/적용 (서버 액션과 cron에서 사용)
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+export async function loadCustomerGradeRules(supabase: SupabaseClient): Promise<CustomerGradeRules> {
+  const { data, error } = await supabase
+    .from('customer_grade_rules')
+    .select('enabled, period_months, regular_min_count, regular_min_amount, vip_min_count, vip_min_amount, recency_months, allow_downgrade')
+    .eq('id', 1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? (data as CustomerGradeRules) : DEFAULT_GRADE_RULES;
+}
+
+/** 규칙을 지금 적용하면 바뀌는 고객 (휴지통 고객 제외) */
+export async function findCustomerGradeChanges(
+  supabase: SupabaseClient,
+  rules: CustomerGradeRules,
+  today: string,
+): Promise<CustomerGradeChange[]> {
+  const since = getMonthsAgo(today, rules.period_months);
+  const [customers, stats] = await Promise.all([
+    fetchAllRows<{ id: string; grade: CustomerGrade }>((from, to) =>
+      supabase.from('customers').select('id, grade').is('deleted_at', null).neq('grade', 'blacklist').order('id').range(from, to),
+    ),
+    fetchAllRows<{ customer_id: string; purchase_count: number; purchase_total: number; last_purchase: string | null }>((from, to) =>
+      supabase.rpc('get_customer_stats_since', { since }).order('customer_id').range(from, to),
+    ),
+  ]);
+
+  const statsByCustomer = new Map<string, CustomerGradeStats>();
+  for (const row of stats) {
+    statsByCustomer.set(row.customer_id, {
+      count: Number(row.purchase_count),
+      amount: Number(row.purchase_total),
+      last_purchase: row.last_purchase,
+    });
+  }
+  return planCustomerGradeChanges(customers, statsByCustomer, rules, today);
+}
+
+/** 등급 변경 저장 + 고객별 변경 이력. 바뀐 고객 수 반환 */
+export async function applyCustomerGradeChanges(
+  supabase: SupabaseClient,
+  actor: AuditActor,
+  changes: CustomerGradeChange[],
+): Promise<number> {
+  if (changes.length === 0) return 0;
+
+  let updatedCount = 0;
+  const grades = [...new Set(changes.map((c) => c.to))];
+  for (const grade of grades) {
+    const ids = changes.filter((c) => c.to === grade).map((c) => c.customer_id);
+    for (const batch of chunkArray(ids, ID_FILTER_CHUNK_SIZE)) {
+      const { data: before, error: fetchError } = await supabase.from('customers').select('*').in('id', batch);
+      if (fetchError) throw fetchError;
+
+      // 계산하는 사이 블랙리스트로 바뀐 고객은 건너뜀
+      const { data: after, error } = await supabase
+        .from('customers')
+        .update({ grade })
+        .in('id', batch)
+        .neq('grade', 'blacklist')
+        .select();
+      if (error) throw error;
+      updatedCount += after?.length || 0;
+      await recordAudit(supabase, actor, pairAuditEntries('autoGradeCustomers', 'customer', before || [], after || []));
+    }
+  }
+  return updatedCount;
+}
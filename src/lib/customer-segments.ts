@@ -0,0 +1,125 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Customer } from '@/types/database';
+
+// 고객 세그먼트 (RFM: 최근 구매일 Recency · 구매 횟수 Frequency · 구매 금액 Monetary)
+// 점수는 구매 고객 안에서의 상대 위치 1~5점 (5분위). 횟수/금액은 getCustomers의 매출 집계(환불 반영) 기준
+
+export type CustomerSegment =
+  | 'champion'
+  | 'loyal'
+  | 'promising'
+  | 'new'
+  | 'at_risk'
+  | 'lapsed_vip'
+  | 'one_time'
+  | 'hibernating'
+  | 'no_purchase';
+
+// 표시 순서
+export const CUSTOMER_SEGMENTS: CustomerSegment[] = [
+  'champion', 'loyal', 'promising', 'new', 'at_risk', 'lapsed_vip', 'one_time', 'hibernating', 'no_purchase',
+];
+
+// 첫 구매 후 이 기간 안이면 1회 구매가 아니라 신규로 봄
+export const NEW_CUSTOMER_DAYS = 60;
+
+export const CUSTOMER_SEGMENT_LABELS: Record<CustomerSegment, { label: string; description: string }> = {
+  champion: { label: '핵심 VIP', description: '최근에도 자주, 많이 구매' },
+  loyal: { label: '충성 단골', description: '꾸준히 다시 구매' },
+  promising: { label: '성장 가능', description: '최근 재구매, 횟수·금액은 보통' },
+  new: { label: '신규 구매', description: `첫 구매 후 ${NEW_CUSTOMER_DAYS}일 이내` },
+  at_risk: { label: '이탈 위험', description: '자주 샀지만 최근 뜸함' },
+  lapsed_vip: { label: '떠난 VIP', description: '많이 샀지만 오래 오지 않음' },
+  one_time: { label: '1회 구매', description: '한 번 구매 후 재방문 없음' },
+  hibernating: { label: '휴면', description: '구매가 적고 오래됨' },
+  no_purchase: { label: '구매 없음', description: '등록만 된 고객' },
+};
+
+export type RfmCustomer = Pick<Customer, 'id' | 'grade' | 'total_purchase_count' | 'total_purchase_amount'> & {
+  last_purchase_date?: string | null;
+};
+
+export interface CustomerRfm {
+  recency_days: number | null; // 마지막 구매 후 지난 일수 (구매 없으면 null)
+  frequency: number;
+  monetary: number;
+  r: number; // 1~5 (구매 없으면 0)
+  f: number;
+  m: number;
+  segment: CustomerSegment;
+}
+
+export interface CustomerSegmentSummary {
+  segment: CustomerSegment;
+  count: number;
+  amount: number;
+}
+
+/** 값이 클수록 높은 1~5점 (같은 값은 같은 점수, 중간 순위 기준) */
+export function scoreQuintiles(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  // 정렬된 배열을 한 번 훑어 값별 점수 (같은 값 묶음의 시작 위치 + 개수/2)
+  const scores = new Map<number, number>();
+  for (let start = 0; start < sorted.length; ) {
+    let end = start + 1;
+    while (end < sorted.length && sorted[end] === sorted[start]) end++;
+    const percentile = (start + (end - start) / 2) / sorted.length;
+    scores.set(sorted[start], Math.min(5, Math.floor(percentile * 5) + 1));
+    start = end;
+  }
+  return values.map((value) => scores.get(value)!);
+}
+
+export function getCustomerSegment(
+  rfm: Pick<CustomerRfm, 'recency_days' | 'frequency' | 'r' | 'f' | 'm'>,
+  grade: Customer['grade'],
+): CustomerSegment {
+  if (rfm.frequency === 0 || rfm.recency_days == null) return 'no_purchase';
+  if (rfm.frequency === 1 && rfm.recency_days <= NEW_CUSTOMER_DAYS) return 'new';
+  if (rfm.r <= 2 && (rfm.m >= 4 || grade === 'vip')) return 'lapsed_vip';
+  if (rfm.frequency === 1) return 'one_time';
+  if (rfm.r >= 4 && rfm.f >= 4 && rfm.m >= 4) return 'champion';
+  if (rfm.r >= 3 && rfm.f >= 3) return 'loyal';
+  if (rfm.f >= 3) return 'at_risk';
+  if (rfm.r >= 3) return 'promising';
+  return 'hibernating';
+}
+
+/** 고객별 RFM 점수와 세그먼트 */
+export function getCustomerRfm(customers: RfmCustomer[], today: string): Map<string, CustomerRfm> {
+  const buyers = customers.filter((c) => c.total_purchase_count > 0 && c.last_purchase_date);
+  const recencyDays = buyers.map((c) => differenceInCalendarDays(parseISO(today), parseISO(c.last_purchase_date!)));
+  const rScores = scoreQuintiles(recencyDays.map((days) => -days));
+  const fScores = scoreQuintiles(buyers.map((c) => c.total_purchase_count));
+  const mScores = scoreQuintiles(buyers.map((c) => c.total_purchase_amount));
+
+  const result = new Map<string, CustomerRfm>();
+  buyers.forEach((customer, i) => {
+    const rfm = {
+      recency_days: recencyDays[i],
+      frequency: customer.total_purchase_count,
+      monetary: customer.total_purchase_amount,
+      r: rScores[i],
+      f: fScores[i],
+      m: mScores[i],
+    };
+    result.set(customer.id, { ...rfm, segment: getCustomerSegment(rfm, customer.grade) });
+  });
+  for (const customer of customers) {
+    if (result.has(customer.id)) continue;
+    result.set(customer.id, { recency_days: null, frequency: 0, monetary: 0, r: 0, f: 0, m: 0, segment: 'no_purchase' });
+  }
+  return result;
+}
+
+/** 세그먼트별 고객 수·구매 금액 (고객이 있는 세그먼트만, 표시 순서) */
+export function summarizeCustomerSegments(rfmByCustomer: Map<string, CustomerRfm>): CustomerSegmentSummary[] {
+  const summary = new Map<CustomerSegment, CustomerSegmentSummary>();
+  for (const rfm of rfmByCustomer.values()) {
+    const entry = summary.get(rfm.segment) || { segment: rfm.segment, count: 0, amount: 0 };
+    entry.count += 1;
+    entry.amount += rfm.monetary;
+    summary.set(rfm.segment, entry);
+  }
+  return CUSTOMER_SEGMENTS.flatMap((segment) => summary.get(segment) || []);
+}
@@ -0,0 +1,69 @@
+import type { Delivery, DeliveryStatus } from '@/types/database';
+
+// 배송 상태 흐름 / 경로표 정렬
+
+// 상태별로 바꿀 수 있는 다음 상태 (완료는 잘못 누른 경우 배송중으로만 되돌림)
+export const DELIVERY_STATUS_FLOW: Record<DeliveryStatus, DeliveryStatus[]> = {
+  preparing: ['in_transit', 'failed'],
+  in_transit: ['delivered', 'failed', 'preparing'],
+  delivered: ['in_transit'],
+  failed: ['preparing'],
+};
+
+export function canChangeDeliveryStatus(from: DeliveryStatus, to: DeliveryStatus): boolean {
+  return DELIVERY_STATUS_FLOW[from].includes(to);
+}
+
+/** 상태 변경 시 함께 저장할 값 (완료 시각, 실패 사유) */
+export function getDeliveryStatusUpdate(
+  status: DeliveryStatus,
+  now: Date,
+  failureReason?: string | null,
+): Pick<Delivery, 'status' | 'delivered_at' | 'failure_reason'> {
+  return {
+    status,
+    delivered_at: status === 'delivered' ? now.toISOString() : null,
+    failure_reason: status === 'failed' ? failureReason?.trim() || null : null,
+  };
+}
+
+// "14:00~16:00" / "14:00 이후" / "16:00 전" / "시간 미정"
+export function formatTimeWindow(from: string | null, to: string | null): string {
+  const start = from?.slice(0, 5);
+  const end = to?.slice(0, 5);
+  if (start && end) return start === end ? start : `${start}~${end}`;
+  if (start) return `${start} 이후`;
+  if (end) return `${end} 전`;
+  return '시간 미정';
+}
+
+type RouteDelivery = Pick<Delivery, 'route_order' | 'time_from' | 'time_to' | 'created_at'>;
+
+/** 경로표 순서: 지정 순서 → 도착 희망 시간 (미정은 뒤) → 등록 순 */
+export function sortDeliveriesForRoute<T extends RouteDelivery>(deliveries: T[]): T[] {
+  return [...deliveries].sort((a, b) => {
+    if (a.route_order !== b.route_order) return a.route_order - b.route_order;
+    const aTime = a.time_from ?? a.time_to;
+    const bTime = b.time_from ?? b.time_to;
+    if (aTime !== bTime) {
+      if (aTime === null) return 1;
+      if (bTime === null) return -1;
+      return aTime.localeCompare(bTime);
+    }
+    return a.created_at.localeCompare(b.created_at);
+  });
+}
+
+/** 상태별 건수와 배송비 합계 (실패 건 배송비는 제외) */
+export function summarizeDeliveries(deliveries: Pick<Delivery, 'status' | 'fee'>[]): {
+  counts: Record<DeliveryStatus, number>;
+  feeTotal: number;
+} {
+  const counts: Record<DeliveryStatus, number> = { preparing: 0, in_transit: 0, delivered: 0, failed: 0 };
+  let feeTotal = 0;
+  deliveries.forEach((d) => {
+    counts[d.status] += 1;
+    if (d.status !== 'failed') feeTotal += d.fee;
+  });
+  return { counts, feeTotal };
+}
@@ -0,0 +1,157 @@
+import { addDays, addYears, format, parseISO } from 'date-fns';
+import type { createClient } from '@/lib/supabase/server';
+import { allocateSalePayments } from '@/lib/reservation-deposits';
+import { randomCode, type RandomBytes } from '@/lib/random-code';
+import type { GiftVoucher, GiftVoucherStatus } from '@/types/database';
+
+// 선불권
+// 판매한 돈은 선수금이고, 매출에서 선불권으로 결제한 만큼 그 매출일에 매출로 잡는다 (allocateSalePayments의 'voucher')
+// 잔액 = 액면가 - 사용한 매출(휴지통 제외)의 voucher_amount 합계
+
+// 기본 유효기간 (공정위 신유형 상품권 표준약관의 금액형 기준)
+export const DEFAULT_VOUCHER_VALID_YEARS = 5;
+export const VOUCHER_EXPIRING_SOON_DAYS = 30;
+
+// 헷갈리는 글자(0/O, 1/I/L) 제외
+const CODE_CHARS = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+type VoucherBalance = Pick<GiftVoucher, 'expires_at'> & { balance: number };
+
+/** 입력한 선불권 번호 정리 (공백 제거, 대문자) */
+export function normalizeVoucherCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/** 새 선불권 번호 (XXXX-XXXX). 번호만 알면 쓸 수 있으므로 crypto 난수로 */
+export function generateVoucherCode(randomBytes?: RandomBytes): string {
+  const code = randomCode(8, CODE_CHARS, randomBytes);
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/** 판매일 기준 기본 유효기간 (판매일 + N년 - 1일) */
+export function getDefaultVoucherExpiry(issuedDate: string): string {
+  return format(addDays(addYears(parseISO(issuedDate), DEFAULT_VOUCHER_VALID_YEARS), -1), 'yyyy-MM-dd');
+}
+
+export function getVoucherBalance(amount: number, redemptions: { voucher_amount: number }[]): number {
+  return amount - redemptions.reduce((sum, r) => sum + r.voucher_amount, 0);
+}
+
+export function getVoucherStatus(voucher: VoucherBalance, today: string): GiftVoucherStatus {
+  if (voucher.balance <= 0) return 'used';
+  if (voucher.expires_at && voucher.expires_at < today) return 'expired';
+  return 'active';
+}
+
+/** 매출에 쓸 선불권 확인 (date는 매출일, 문제없으면 null) */
+export function validateVoucherRedemption(
+  amount: number,
+  voucher: VoucherBalance,
+  payable: number,
+  date: string,
+): string | null {
+  if (!Number.isInteger(amount) || amount <= 0) return '선불권 사용 금액이 올바르지 않습니다';
+  if (voucher.expires_at && voucher.expires_at < date) return `유효기간(${voucher.expires_at})이 지난 선불권입니다`;
+  if (amount > voucher.balance) return `선불권 잔액(${voucher.balance.toLocaleString('ko-KR')}원)보다 많이 사용할 수 없습니다`;
+  if (amount > payable) return '결제할 금액보다 많이 사용할 수 없습니다';
+  return null;
+}
+
+export interface GiftVoucherSummary {
+  outstandingCount: number;
+  outstandingAmount: number; // 아직 쓰지 않은 선수금 (기한 안 지난 잔액)
+  expiringSoonAmount: number; // 그중 VOUCHER_EXPIRING_SOON_DAYS일 안에 기한이 끝나는 잔액
+  expiredAmount: number; // 기한이 지나 쓸 수 없는 잔액
+}
+
+export function summarizeGiftVouchers(vouchers: VoucherBalance[], today: string): GiftVoucherSummary {
+  const soon = format(addDays(parseISO(today), VOUCHER_EXPIRING_SOON_DAYS), 'yyyy-MM-dd');
+  const summary: GiftVoucherSummary = { outstandingCount: 0, outstandingAmount: 0, expiringSoonAmount: 0, expiredAmount: 0 };
+  for (const voucher of vouchers) {
+    const status = getVoucherStatus(voucher, today);
+    if (status === 'expired') {
+      summary.expiredAmount += voucher.balance;
+    } else if (status === 'active') {
+      summary.outstandingCount += 1;
+      summary.outstandingAmount += voucher.balance;
+      if (voucher.expires_at && voucher.expires_at <= soon) summary.expiringSoonAmount += voucher.balance;
+    }
+  }
+  return summary;
+}
+
+// 기간 중 선불권 흐름: 판매는 받은 돈(선수금)이고 매출은 사용한 만큼만
+export interface GiftVoucherFlow {
+  soldCount: number;
+  soldAmount: number; // 판매해 받은 돈 (매출 아님)
+  redeemedAmount: number; // 매출에서 선불권으로 결제한 금액 (매출)
+  outstandingAmount: number; // 오늘 기준 남은 선수금
+}
+
+type FlowSale = Parameters<typeof allocateSalePayments>[0];
+
+/** sales는 기간 안의 매출 (환불 반영 후 선불권 결제분만 더함) */
+export function summarizeGiftVoucherFlow(
+  vouchers: (Pick<GiftVoucher, 'amount' | 'issued_date' | 'expires_at'> & { balance: number })[],
+  sales: FlowSale[],
+  range: { startDate: string; endDate: string },
+  today: string,
+): GiftVoucherFlow {
+  const sold = vouchers.filter((v) => v.issued_date >= range.startDate && v.issued_date <= range.endDate);
+  return {
+    soldCount: sold.length,
+    soldAmount: sold.reduce((sum, v) => sum + v.amount, 0),
+    redeemedAmount: sales
+      .flatMap((sale) => allocateSalePayments(sale))
+      .filter((payment) => payment.payment_method === 'voucher')
+      .reduce((sum, payment) => sum + payment.amount, 0),
+    outstandingAmount: summarizeGiftVouchers(vouchers, today).outstandingAmount,
+  };
+}
+
+// ─── DB ───────────────────────────────────────────────────────
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+const GIFT_VOUCHER_SELECT = '*, customer:customers(id, name), redemptions:sales(id, date, voucher_amount, deleted_at)';
+
+// 조회한 선불권은 잔액이 항상 있음
+export type LoadedGiftVoucher = GiftVoucher & { balance: number };
+
+type GiftVoucherRow = Omit<GiftVoucher, 'redemptions'> & {
+  redemptions: { id: string; date: string; voucher_amount: number; deleted_at: string | null }[] | null;
+};
+
+// 휴지통 매출의 사용분을 빼고 잔액 계산
+function toGiftVoucher(row: GiftVoucherRow): LoadedGiftVoucher {
+  const redemptions = (row.redemptions || [])
+    .filter((sale) => !sale.deleted_at)
+    .map(({ id, date, voucher_amount }) => ({ id, date, voucher_amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { ...row, redemptions, balance: getVoucherBalance(row.amount, redemptions) };
+}
+
+/** 전체 선불권 (최근 판매 순, 잔액·사용 내역 포함) */
+export async function loadGiftVouchers(supabase: SupabaseClient): Promise<LoadedGiftVoucher[]> {
+  const { data, error } = await supabase
+    .from('gift_vouchers')
+    .select(GIFT_VOUCHER_SELECT)
+    .order('issued_date', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data || []) as GiftVoucherRow[]).map(toGiftVoucher);
+}
+
+export async function loadGiftVoucher(
+  supabase: SupabaseClient,
+  match: { id: string } | { code: string },
+): Promise<LoadedGiftVoucher | null> {
+  const [column, value] = 'id' in match ? ['id', match.id] : ['code', match.code];
+  const { data, error } = await supabase
+    .from('gift_vouchers')
+    .select(GIFT_VOUCHER_SELECT)
+    .eq(column, value)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toGiftVoucher(data as GiftVoucherRow) : null;
+}
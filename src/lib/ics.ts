@@ -0,0 +1,311 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatCurrency } from '@/lib/utils';
+import { RESERVATION_STATUS } from '@/types/database';
+import type { Reservation } from '@/types/database';
+
+// iCalendar(ICS) 예약 내보내기 / 가져오기 (RFC 5545 중 예약에 필요한 부분만)
+// 시간은 모두 한국 시간(Asia/Seoul, 서머타임 없음) 기준
+
+export const ICS_TIMEZONE = 'Asia/Seoul';
+// 내보낸 예약 UID 접미사 — 다시 가져올 때 기존 예약인지 알아보는 데 사용
+export const ICS_UID_DOMAIN = 'reservations.flower-shop';
+export const FEED_TOKEN_BYTES = 24;
+// 시간 있는 예약을 캘린더에 그릴 길이
+const EVENT_DURATION_HOURS = 1;
+const KST_OFFSET_MINUTES = 9 * 60;
+
+// 구독 토큰
+
+/** 캘린더 구독 URL 토큰 (URL-safe base64) */
+export function generateFeedToken(
+  bytes: Uint8Array = crypto.getRandomValues(new Uint8Array(FEED_TOKEN_BYTES))
+): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// DB에는 SHA-256 해시만 저장
+export async function hashFeedToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token.trim()));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 내보내기
+
+export function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** 한 줄 75바이트 제한 — 넘으면 CRLF + 공백으로 접음 (한글이 잘리지 않게 글자 단위) */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // 이어지는 줄은 앞 공백 1바이트
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function toUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const ICS_STATUS: Record<Reservation['status'], string> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+};
+
+export function getReservationDescription(reservation: Reservation): string {
+  const statusLabel = RESERVATION_STATUS.find((s) => s.value === reservation.status)?.label ?? reservation.status;
+  const lines = [
+    `상태: ${statusLabel}`,
+    `고객: ${reservation.customer_name}${reservation.customer_phone ? ` ${reservation.customer_phone}` : ''}`,
+  ];
+  if (reservation.estimated_amount > 0) lines.push(`예상 금액: ${formatCurrency(reservation.estimated_amount)}`);
+  if (reservation.description) lines.push('', reservation.description);
+  return lines.join('\n');
+}
+
+// 줄바꿈 외 제어 문자는 빼고 최대 길이(zod와 같은 UTF-16 길이)로 자름 (이모지가 반쪽으로 잘리지 않게 글자 단위)
+function cleanIcsField(value: string | null | undefined, maxLength: number): string {
+  let result = '';
+  for (const char of (value ?? '').trim()) {
+    if (char !== '\n' && (char < ' ' || char === '\x7f')) continue;
+    if (result.length + char.length > maxLength) break;
+    result += char;
+  }
+  return result.trim();
+}
+
+/** 내보낼 예약 값을 정리한다. 검증(reservationSchema)에 걸리는 예약도 빼지 않고 같은 길이 제한으로 다듬어 내보냄 */
+export function sanitizeReservationForIcs(reservation: Reservation): Reservation {
+  return {
+    ...reservation,
+    title: cleanIcsField(reservation.title, 255) || '예약',
+    customer_name: cleanIcsField(reservation.customer_name, 100) || '고객',
+    customer_phone: cleanIcsField(reservation.customer_phone, 20) || null,
+    description: cleanIcsField(reservation.description, 1000) || null,
+    estimated_amount: Math.min(Math.max(Math.round(Number(reservation.estimated_amount) || 0), 0), 100_000_000),
+    status: reservation.status in ICS_STATUS ? reservation.status : 'pending',
+  };
+}
+
+function buildEvent(reservation: Reservation, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${reservation.id}@${ICS_UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+  ];
+  const time = reservation.time?.match(/^(\d{2}):(\d{2})/);
+  if (time) {
+    const start = parseISO(`${reservation.date}T${time[1]}:${time[2]}:00`);
+    const end = new Date(start.getTime() + EVENT_DURATION_HOURS * 60 * 60 * 1000);
+    lines.push(
+      `DTSTART;TZID=${ICS_TIMEZONE}:${format(start, "yyyyMMdd'T'HHmmss")}`,
+      `DTEND;TZID=${ICS_TIMEZONE}:${format(end, "yyyyMMdd'T'HHmmss")}`,
+    );
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${toIcsDate(reservation.date)}`,
+      `DTEND;VALUE=DATE:${format(addDays(parseISO(reservation.date), 1), 'yyyyMMdd')}`,
+    );
+  }
+  lines.push(
+    `SUMMARY:${escapeIcsText(`${reservation.title} (${reservation.customer_name})`)}`,
+    `DESCRIPTION:${escapeIcsText(getReservationDescription(reservation))}`,
+    `STATUS:${ICS_STATUS[reservation.status]}`,
+  );
+  if (reservation.updated_at) lines.push(`LAST-MODIFIED:${toUtcStamp(new Date(reservation.updated_at))}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildReservationsCalendar(
+  reservations: Reservation[],
+  options: { name: string; now?: Date },
+): string {
+  const stamp = toUtcStamp(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//flower-shop//reservations//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    `X-WR-TIMEZONE:${ICS_TIMEZONE}`,
+    'BEGIN:VTIMEZONE',
+    `TZID:${ICS_TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0900',
+    'TZOFFSETTO:+0900',
+    'TZNAME:KST',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...reservations.map(sanitizeReservationForIcs).flatMap((r) => buildEvent(r, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// 가져오기
+
+export interface IcsEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  date: string; // YYYY-MM-DD (한국 시간)
+  time: string | null; // HH:MM, 종일 일정이면 null
+  status: string | null;
+  organizer: string | null; // 참석자/주최자 이름 (CN)
+}
+
+export function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+// 접힌 줄 펼치기 (CRLF 다음 공백/탭은 이전 줄에 이어짐)
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon === -1) return null;
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * DTSTART 값을 한국 날짜/시간으로.
+ * UTC(Z)는 +9시간, TZID가 있거나 없는(floating) 시간은 한국 시간으로 본다
+ */
+export function parseIcsDateTime(property: IcsProperty): { date: string; time: string | null } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, , utc] = match;
+  if (property.params.VALUE === 'DATE' || h == null) return { date: `${y}-${mo}-${d}`, time: null };
+  if (!utc) return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+
+  const kst = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi) + KST_OFFSET_MINUTES * 60 * 1000);
+  return {
+    date: kst.toISOString().slice(0, 10),
+    time: kst.toISOString().slice(11, 16),
+  };
+}
+
+/** VEVENT 목록 (반복 일정은 첫 회차만, DTSTART 없는 일정은 제외) */
+export function parseIcsEvents(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let start: { date: string; time: string | null } | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      start = null;
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current && start) {
+        events.push({
+          uid: current.uid ?? null,
+          summary: current.summary ?? '',
+          description: current.description ?? null,
+          date: start.date,
+          time: start.time,
+          status: current.status ?? null,
+          organizer: current.organizer ?? null,
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const property = parseProperty(line);
+    if (!property) continue;
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeIcsText(property.value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeIcsText(property.value).trim() || null;
+        break;
+      case 'STATUS':
+        current.status = property.value.trim().toUpperCase();
+        break;
+      case 'DTSTART':
+        start = parseIcsDateTime(property);
+        break;
+      case 'ORGANIZER':
+      case 'ATTENDEE':
+        current.organizer ??= property.params.CN || null;
+        break;
+    }
+  }
+  return events;
+}
+
+/** 내보낸 예약의 UID면 예약 ID */
+export function getReservationIdFromUid(uid: string | null): string | null {
+  const suffix = `@${ICS_UID_DOMAIN}`;
+  return uid?.endsWith(suffix) ? uid.slice(0, -suffix.length) : null;
+}
+
+/**
+ * 일정 → 예약 입력값 (reservationSchema로 검증하기 전)
+ * 고객명은 설명의 "고객:" 줄 → 참석자 이름 → 제목 순으로 찾음 (이 앱에서 내보낸 형식이면 금액도 읽음)
+ */
+export function icsEventToReservationInput(event: IcsEvent) {
+  const customerLine = event.description?.match(/^고객:\s*(.+)$/m)?.[1].trim();
+  const phone = customerLine?.match(/01\d[-\s]?\d{3,4}[-\s]?\d{4}$/)?.[0];
+  const customerName = (phone ? customerLine?.slice(0, -phone.length).trim() : customerLine) || event.organizer || event.summary;
+  // 내보낸 예약은 제목 뒤 "(고객명)"을 떼어냄
+  const title = customerLine && event.summary.endsWith(` (${customerName})`)
+    ? event.summary.slice(0, -` (${customerName})`.length)
+    : event.summary;
+  const amount = event.description?.match(/^예상 금액:\s*(.+)$/m)?.[1].replace(/\D/g, '');
+
+  return {
+    date: event.date,
+    time: event.time ?? undefined,
+    customer_name: customerName,
+    customer_phone: phone,
+    title,
+    // 내보낼 때 붙인 상태/고객/금액 줄은 빼고 메모만
+    description: event.description?.replace(/^(상태|고객|예상 금액):.*$/gm, '').trim() || undefined,
+    estimated_amount: amount ? Number(amount) : undefined,
+    status: event.status === 'CANCELLED' ? 'cancelled' as const : event.status === 'CONFIRMED' ? 'confirmed' as const : 'pending' as const,
+  };
+}
@@ -0,0 +1,159 @@
+import type { ExpenseCategory, InventoryItem, InventoryMovement, InventoryMovementType } from '@/types/database';
+import { addCalendarDays } from './business-days';
+
+// 재고 수량/유통기한/폐기 손실 계산
+// 입고분을 lot으로 보고, 출고·폐기는 유통기한이 빠른 lot부터 차감(FIFO)
+
+// 입고 대상 지출 카테고리
+export const STOCK_EXPENSE_CATEGORIES: ExpenseCategory[] = ['flower_purchase', 'supplies'];
+
+// 유통기한이 이 기간 안에 끝나면 "곧 만료"
+export const EXPIRING_SOON_DAYS = 2;
+
+export type StockMovement = Pick<InventoryMovement, 'id' | 'item_id' | 'type' | 'quantity' | 'unit_cost' | 'date' | 'expires_on' | 'created_at'>;
+
+export interface StockLot {
+  movement_id: string;
+  item_id: string;
+  date: string;
+  expires_on: string | null;
+  remaining: number;
+  unit_cost: number;
+}
+
+// 품목·유통기한별 남은 입고 수량 (get_inventory_stock_lots RPC 결과와 같은 모양)
+export type StockLotTotal = Pick<StockLot, 'item_id' | 'expires_on' | 'remaining'>;
+
+export interface StockSummary {
+  item: InventoryItem;
+  quantity: number;
+  expiring_quantity: number;
+  expired_quantity: number;
+  next_expires_on: string | null;
+}
+
+export type WasteMovement = Pick<InventoryMovement, 'item_id' | 'type' | 'quantity' | 'unit_cost'> & {
+  item?: Pick<InventoryItem, 'name'> | null;
+};
+
+export interface WasteSummary {
+  item_id: string;
+  name: string;
+  quantity: number;
+  cost: number;
+}
+
+export function getStockInExpiry(date: string, shelfLifeDays: number | null | undefined): string | null {
+  if (!shelfLifeDays || shelfLifeDays <= 0) return null;
+  return addCalendarDays(date, shelfLifeDays);
+}
+
+// 유형에 맞는 부호로 저장 (조정만 입력값 부호 그대로)
+export function getSignedQuantity(type: InventoryMovementType, quantity: number): number {
+  if (type === 'in') return Math.abs(quantity);
+  if (type === 'out' || type === 'waste') return -Math.abs(quantity);
+  return quantity;
+}
+
+function compareMovements(a: StockMovement, b: StockMovement): number {
+  return a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at);
+}
+
+// 유통기한 빠른 순, 기한 없는 lot은 마지막
+function compareLots(a: StockLot, b: StockLot): number {
+  if (a.expires_on !== b.expires_on) {
+    if (a.expires_on === null) return 1;
+    if (b.expires_on === null) return -1;
+    return a.expires_on.localeCompare(b.expires_on);
+  }
+  return a.date.localeCompare(b.date);
+}
+
+/** 남아 있는 입고 lot 목록 (한 품목 또는 여러 품목 혼합 가능) */
+export function getStockLots(movements: StockMovement[]): StockLot[] {
+  const lots: StockLot[] = [];
+
+  [...movements].sort(compareMovements).forEach((movement) => {
+    if (movement.quantity > 0) {
+      lots.push({
+        movement_id: movement.id,
+        item_id: movement.item_id,
+        date: movement.date,
+        expires_on: movement.expires_on,
+        remaining: movement.quantity,
+        unit_cost: movement.unit_cost,
+      });
+      return;
+    }
+
+    let toConsume = -movement.quantity;
+    const itemLots = lots
+      .filter((lot) => lot.item_id === movement.item_id && lot.remaining > 0)
+      .sort(compareLots);
+    for (const lot of itemLots) {
+      if (toConsume <= 0) break;
+      const used = Math.min(lot.remaining, toConsume);
+      lot.remaining -= used;
+      toConsume -= used;
+    }
+  });
+
+  return lots.filter((lot) => lot.remaining > 0);
+}
+
+/** 품목별 현재 재고 + 만료 임박/만료 수량 */
+export function summarizeStock(
+  items: InventoryItem[],
+  movements: StockMovement[],
+  today: string,
+  soonDays: number = EXPIRING_SOON_DAYS,
+): StockSummary[] {
+  const quantities = new Map<string, number>();
+  movements.forEach((m) => quantities.set(m.item_id, (quantities.get(m.item_id) ?? 0) + m.quantity));
+  return summarizeStockTotals(items, quantities, getStockLots(movements), today, soonDays);
+}
+
+/** summarizeStock을 DB에서 합산한 재고 수량·남은 lot으로 계산 (재고 페이지) */
+export function summarizeStockTotals(
+  items: InventoryItem[],
+  quantities: Map<string, number>,
+  lots: StockLotTotal[],
+  today: string,
+  soonDays: number = EXPIRING_SOON_DAYS,
+): StockSummary[] {
+  const soonLimit = addCalendarDays(today, soonDays);
+
+  return items.map((item) => {
+    const quantity = quantities.get(item.id) ?? 0;
+    const itemLots = lots.filter((lot) => lot.item_id === item.id && lot.expires_on !== null);
+
+    const expired_quantity = itemLots
+      .filter((lot) => lot.expires_on! < today)
+      .reduce((sum, lot) => sum + lot.remaining, 0);
+    const expiring_quantity = itemLots
+      .filter((lot) => lot.expires_on! >= today && lot.expires_on! <= soonLimit)
+      .reduce((sum, lot) => sum + lot.remaining, 0);
+    const next_expires_on = itemLots
+      .map((lot) => lot.expires_on!)
+      .sort()[0] ?? null;
+
+    return { item, quantity, expiring_quantity, expired_quantity, next_expires_on };
+  });
+}
+
+/** 폐기 손실 (품목별, 금액 큰 순) */
+export function summarizeWaste(movements: WasteMovement[]): WasteSummary[] {
+  const map = new Map<string, WasteSummary>();
+
+  movements
+    .filter((m) => m.type === 'waste')
+    .forEach((m) => {
+      const quantity = Math.abs(m.quantity);
+      const entry = map.get(m.item_id) || { item_id: m.item_id, name: m.item?.name ?? '', quantity: 0, cost: 0 };
+      entry.quantity += quantity;
+      entry.cost += quantity * m.unit_cost;
+      map.set(m.item_id, entry);
+    });
+
+  return Array.from(map.values()).sort((a, b) => b.cost - a.cost);
+}
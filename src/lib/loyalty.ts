@@ -0,0 +1,238 @@
+import { addDays, addMonths, format, parseISO } from 'date-fns';
+import type { createClient } from '@/lib/supabase/server';
+import { chunkArray, DB_PAGE_SIZE, fetchAllRows } from '@/lib/supabase/pagination';
+import { getNetAmount } from '@/lib/utils';
+import type { CustomerPointTransaction, LoyaltySettings } from '@/types/database';
+
+// 포인트 적립 (1포인트 = 1원)
+// 적립은 매출 금액(포인트 사용분 제외)의 earn_rate%, 원 단위 버림
+// 사용·소멸은 먼저 소멸될 적립분부터 차감 (소멸일 없는 적립분은 마지막)
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  earn_rate: 1,
+  expire_months: 12,
+};
+
+type PointEntry = Pick<CustomerPointTransaction, 'points' | 'expires_at'>;
+
+export interface PointLot {
+  points: number;
+  expires_at: string | null;
+}
+
+/** 매출 금액에서 적립할 포인트 (적립률은 소수 첫째 자리까지라 정수로 계산) */
+export function calculateEarnedPoints(amount: number, settings: LoyaltySettings): number {
+  if (!settings.enabled || amount <= 0) return 0;
+  return Math.floor((amount * Math.round(settings.earn_rate * 10)) / 1000);
+}
+
+/** 적립분을 쓸 수 있는 마지막 날 (적립일 + expire_months개월 - 1일, 소멸 없으면 null) */
+export function getPointExpiryDate(date: string, settings: Pick<LoyaltySettings, 'expire_months'>): string | null {
+  if (settings.expire_months == null) return null;
+  return format(addDays(addMonths(parseISO(date), settings.expire_months), -1), 'yyyy-MM-dd');
+}
+
+export function getPointBalance(transactions: Pick<CustomerPointTransaction, 'points'>[]): number {
+  return transactions.reduce((sum, t) => sum + t.points, 0);
+}
+
+/** 사용·소멸을 먼저 소멸될 적립분부터 차감하고 남은 적립분 (소멸일 순) */
+export function getRemainingPointLots(transactions: PointEntry[]): PointLot[] {
+  const lots = transactions
+    .filter((t) => t.points > 0)
+    .map((t) => ({ points: t.points, expires_at: t.expires_at }))
+    .sort((a, b) => {
+      if (a.expires_at === b.expires_at) return 0;
+      if (a.expires_at == null) return 1;
+      if (b.expires_at == null) return -1;
+      return a.expires_at.localeCompare(b.expires_at);
+    });
+
+  let used = -transactions.filter((t) => t.points < 0).reduce((sum, t) => sum + t.points, 0);
+  const remaining: PointLot[] = [];
+  for (const lot of lots) {
+    const consumed = Math.min(lot.points, used);
+    used -= consumed;
+    if (lot.points > consumed) remaining.push({ points: lot.points - consumed, expires_at: lot.expires_at });
+  }
+  return remaining;
+}
+
+/** date 전에 소멸일이 지나는 남은 포인트 (오늘 소멸할 포인트는 date = 오늘) */
+export function getPointsExpiringBefore(transactions: PointEntry[], date: string): number {
+  return getRemainingPointLots(transactions)
+    .filter((lot) => lot.expires_at != null && lot.expires_at < date)
+    .reduce((sum, lot) => sum + lot.points, 0);
+}
+
+/** 매출에 쓸 포인트 확인 (문제없으면 null) */
+export function validatePointRedemption(points: number, balance: number, payable: number): string | null {
+  if (!Number.isInteger(points) || points < 0) return '사용할 포인트가 올바르지 않습니다';
+  if (points > balance) return `보유 포인트(${balance.toLocaleString('ko-KR')}P)보다 많이 사용할 수 없습니다`;
+  if (points > payable) return '결제할 금액보다 많은 포인트를 사용할 수 없습니다';
+  return null;
+}
+
+/** 환불 뒤에도 사용한 것으로 남는 포인트 (환불한 비율만큼 돌려줌, 전액 환불이면 모두) */
+export function getPointsUsedAfterRefund(sale: { amount: number; refunded_amount?: number | null; points_used: number }): number {
+  if (sale.points_used <= 0) return 0;
+  if (sale.amount <= 0) return sale.points_used;
+  return Math.ceil((sale.points_used * getNetAmount(sale)) / sale.amount);
+}
+
+export function formatPoints(points: number): string {
+  return `${points.toLocaleString('ko-KR')}P`;
+}
+
+// ─── DB ───────────────────────────────────────────────────────
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+type PointTransactionRow = CustomerPointTransaction & { sale: { deleted_at: string | null } | null };
+
+export async function loadLoyaltySettings(supabase: SupabaseClient): Promise<LoyaltySettings> {
+  const { data, error } = await supabase
+    .from('loyalty_settings')
+    .select('enabled, earn_rate, expire_months')
+    .eq('id', 1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { ...data, earn_rate: Number(data.earn_rate) } as LoyaltySettings : DEFAULT_LOYALTY_SETTINGS;
+}
+
+/** 고객 포인트 내역 (휴지통 매출의 적립/사용 제외, 최근 순) */
+export async function loadCustomerPointTransactions(
+  supabase: SupabaseClient,
+  customerId: string,
+): Promise<CustomerPointTransaction[]> {
+  const { data, error } = await supabase
+    .from('customer_point_transactions')
+    .select('*, sale:sales(deleted_at)')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data || []) as PointTransactionRow[])
+    .filter((row) => !row.sale?.deleted_at)
+    .map((row) => {
+      const transaction: CustomerPointTransaction & { sale?: unknown } = { ...row };
+      delete transaction.sale;
+      return transaction;
+    });
+}
+
+/** 고객별 포인트 잔액 (ids를 주지 않으면 전체, 내역이 없는 고객은 빠짐) */
+export async function loadPointBalances(supabase: SupabaseClient, ids?: string[]): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc('get_customer_point_balances', ids ? { ids } : {});
+  if (error) throw error;
+  return new Map(
+    ((data || []) as { customer_id: string; balance: number }[]).map((row) => [row.customer_id, Number(row.balance)])
+  );
+}
+
+/**
+ * 매출의 적립분을 금액 기준으로 새로 계산해 바꾼다 — 등록할 때와 고객·금액이 바뀔 때
+ * (사용분은 매출 등록 RPC가 남기고 그대로 둠, 고객이 없으면 적립 없음)
+ * 적립한 포인트 반환
+ */
+export async function replaceSaleEarnedPoints(
+  supabase: SupabaseClient,
+  createdBy: string | null,
+  sale: { id: string; customer_id: string | null; date: string; amount: number },
+  settings: LoyaltySettings,
+): Promise<number> {
+  const { error: deleteError } = await supabase
+    .from('customer_point_transactions')
+    .delete()
+    .eq('sale_id', sale.id)
+    .eq('type', 'earn');
+  if (deleteError) throw deleteError;
+
+  const earned = sale.customer_id ? calculateEarnedPoints(sale.amount, settings) : 0;
+  if (earned === 0) return 0;
+
+  const { error } = await supabase.from('customer_point_transactions').insert({
+    customer_id: sale.customer_id,
+    sale_id: sale.id,
+    type: 'earn',
+    points: earned,
+    expires_at: getPointExpiryDate(sale.date, settings),
+    created_by: createdBy,
+  });
+  if (error) throw error;
+  return earned;
+}
+
+/**
+ * 환불 누계가 바뀐 매출의 포인트를 맞춘다.
+ * 적립분은 실매출(환불 제외) 기준으로 다시 계산하고, 사용분은 환불한 비율만큼 돌려줌
+ */
+export async function syncSaleRefundPoints(
+  supabase: SupabaseClient,
+  createdBy: string | null,
+  sale: { id: string; customer_id: string | null; date: string; amount: number; refunded_amount: number; points_used: number },
+  settings: LoyaltySettings,
+): Promise<void> {
+  if (!sale.customer_id) return;
+  await replaceSaleEarnedPoints(supabase, createdBy, { ...sale, amount: getNetAmount(sale) }, settings);
+
+  const { error: deleteError } = await supabase
+    .from('customer_point_transactions')
+    .delete()
+    .eq('sale_id', sale.id)
+    .eq('type', 'redeem');
+  if (deleteError) throw deleteError;
+
+  const used = getPointsUsedAfterRefund(sale);
+  if (used === 0) return;
+  const { error } = await supabase.from('customer_point_transactions').insert({
+    customer_id: sale.customer_id,
+    sale_id: sale.id,
+    type: 'redeem',
+    points: -used,
+    created_by: createdBy,
+  });
+  if (error) throw error;
+}
+
+/** 소멸일이 지난 적립분을 소멸 처리 (원장은 나눠 읽어 고객별로 계산). 소멸한 고객 수·포인트 반환 */
+export async function expireCustomerPoints(
+  supabase: SupabaseClient,
+  today: string,
+): Promise<{ customers: number; points: number }> {
+  type LedgerRow = PointEntry & { customer_id: string; sale: { deleted_at: string | null } | null };
+  const data = await fetchAllRows<LedgerRow>((from, to) =>
+    supabase
+      .from('customer_point_transactions')
+      .select('customer_id, points, expires_at, sale:sales(deleted_at)')
+      .order('customer_id')
+      .order('id')
+      .range(from, to)
+      .returns<LedgerRow[]>()
+  );
+
+  const byCustomer = new Map<string, PointEntry[]>();
+  for (const row of data) {
+    if (row.sale?.deleted_at) continue;
+    const list = byCustomer.get(row.customer_id) || [];
+    list.push(row);
+    byCustomer.set(row.customer_id, list);
+  }
+
+  const rows = [...byCustomer.entries()]
+    .map(([customerId, transactions]) => ({ customerId, expired: getPointsExpiringBefore(transactions, today) }))
+    .filter(({ expired }) => expired > 0)
+    .map(({ customerId, expired }) => ({
+      customer_id: customerId,
+      type: 'expire',
+      points: -expired,
+      reason: '유효기간 만료',
+    }));
+  if (rows.length === 0) return { customers: 0, points: 0 };
+
+  for (const batch of chunkArray(rows, DB_PAGE_SIZE)) {
+    const { error: insertError } = await supabase.from('customer_point_transactions').insert(batch);
+    if (insertError) throw insertError;
+  }
+  return { customers: rows.length, points: -rows.reduce((sum, row) => sum + row.points, 0) };
+}
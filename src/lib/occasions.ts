@@ -0,0 +1,127 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { CustomerOccasion } from '@/types/database';
+import { OCCASION_TYPE_LABELS } from '@/lib/constants';
+import { getNetAmount } from '@/lib/utils';
+
+// 고객 기념일 (매년 반복). 날짜는 모두 YYYY-MM-DD 문자열 (KST 기준 오늘)
+
+// 기념일 며칠 전 ~ 다음날 매출을 그 기념일 구매로 봄
+export const OCCASION_SALE_DAYS_BEFORE = 7;
+export const OCCASION_SALE_DAYS_AFTER = 1;
+
+type OccasionDay = Pick<CustomerOccasion, 'month' | 'day'>;
+type OccasionInfo = Pick<CustomerOccasion, 'type' | 'label' | 'recipient_name' | 'relationship'>;
+
+export type UpcomingOccasion<T extends OccasionDay> = T & {
+  date: string;
+  days_until: number;
+  years: number | null; // year를 알면 몇 번째 (만 나이/주년)
+};
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/** 그 해의 기념일 날짜 (2월 29일은 평년에 28일) */
+export function getOccasionDate(occasion: OccasionDay, year: number): string {
+  const day = occasion.month === 2 && occasion.day === 29 && !isLeapYear(year) ? 28 : occasion.day;
+  return `${year}-${String(occasion.month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** 오늘 이후(오늘 포함) 가장 가까운 기념일 날짜 */
+export function getNextOccasionDate(occasion: OccasionDay, today: string): string {
+  const year = Number(today.slice(0, 4));
+  const thisYear = getOccasionDate(occasion, year);
+  return thisYear >= today ? thisYear : getOccasionDate(occasion, year + 1);
+}
+
+export function toUpcomingOccasion<T extends OccasionDay & { year?: number | null }>(occasion: T, today: string): UpcomingOccasion<T> {
+  const date = getNextOccasionDate(occasion, today);
+  return {
+    ...occasion,
+    date,
+    days_until: differenceInCalendarDays(parseISO(date), parseISO(today)),
+    years: occasion.year ? Number(date.slice(0, 4)) - occasion.year : null,
+  };
+}
+
+/** withinDays일 안에 돌아오는 기념일 (가까운 순) */
+export function getUpcomingOccasions<T extends OccasionDay & { year?: number | null }>(
+  occasions: T[],
+  today: string,
+  withinDays: number,
+): UpcomingOccasion<T>[] {
+  return occasions
+    .map((occasion) => toUpcomingOccasion(occasion, today))
+    .filter((occasion) => occasion.days_until <= withinDays)
+    .sort((a, b) => a.days_until - b.days_until);
+}
+
+/** 오늘 알림을 보낼 기념일 (remind_days_before일 전, 0이면 알리지 않음) */
+export function getDueOccasionReminders<T extends OccasionDay & Pick<CustomerOccasion, 'remind_days_before'> & { year?: number | null }>(
+  occasions: T[],
+  today: string,
+): UpcomingOccasion<T>[] {
+  return occasions
+    .filter((occasion) => occasion.remind_days_before > 0)
+    .map((occasion) => toUpcomingOccasion(occasion, today))
+    .filter((occasion) => occasion.days_until === occasion.remind_days_before);
+}
+
+/** "어머니 생일", "결혼기념일" 처럼 (받는 사람/관계가 본인이면 생략) */
+export function getOccasionTitle(occasion: OccasionInfo): string {
+  const name = (occasion.type === 'other' && occasion.label?.trim()) || OCCASION_TYPE_LABELS[occasion.type];
+  const who = occasion.recipient_name?.trim() || (occasion.relationship !== '본인' ? occasion.relationship?.trim() : null);
+  return who ? `${who} ${name}` : name;
+}
+
+/** "10주년", "31번째 생일" (year를 모르거나 기일/기타면 null) */
+export function getOccasionYearsLabel(occasion: Pick<CustomerOccasion, 'type'> & { years: number | null }): string | null {
+  if (!occasion.years || occasion.years <= 0) return null;
+  if (occasion.type === 'birthday') return `${occasion.years}번째 생일`;
+  if (occasion.type === 'anniversary') return `${occasion.years}주년`;
+  return null;
+}
+
+export function formatDaysUntil(days: number): string {
+  if (days === 0) return '오늘';
+  if (days === 1) return '내일';
+  return `D-${days}`;
+}
+
+/**
+ * 지난 해 그 기념일 무렵 매출 (기념일 OCCASION_SALE_DAYS_BEFORE일 전 ~ 다음날, 최근 순)
+ * 연말 기념일 앞뒤로 해가 바뀌는 경우도 포함
+ */
+export function findOccasionSales<S extends { date: string }>(sales: S[], occasion: OccasionDay): S[] {
+  return sales
+    .filter((sale) => {
+      const year = Number(sale.date.slice(0, 4));
+      return [year - 1, year, year + 1].some((y) => {
+        const date = parseISO(getOccasionDate(occasion, y));
+        const from = format(addDays(date, -OCCASION_SALE_DAYS_BEFORE), 'yyyy-MM-dd');
+        const to = format(addDays(date, OCCASION_SALE_DAYS_AFTER), 'yyyy-MM-dd');
+        return sale.date >= from && sale.date <= to;
+      });
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** 기념일 알림 푸시 내용 */
+export function buildOccasionReminder(
+  occasion: UpcomingOccasion<OccasionDay & OccasionInfo>,
+  customerName: string,
+  pastSales: { date: string; product_name: string; amount: number; refunded_amount?: number | null }[],
+): { title: string; body: string } {
+  const title = `${formatDaysUntil(occasion.days_until)} ${customerName} 고객 · ${getOccasionTitle(occasion)}`;
+  const yearsLabel = getOccasionYearsLabel(occasion);
+  const lines = [yearsLabel ? `${occasion.date} · ${yearsLabel}` : occasion.date];
+  if (pastSales.length > 0) {
+    const last = pastSales[0];
+    lines.push(`지난 구매: ${last.date.slice(0, 4)}년 ${last.product_name} ${new Intl.NumberFormat('ko-KR').format(getNetAmount(last))}원`);
+    if (pastSales.length > 1) lines.push(`이 무렵 구매 ${pastSales.length}회`);
+  } else {
+    lines.push('이 무렵 구매 기록 없음');
+  }
+  return { title, body: lines.join('\n') };
+}
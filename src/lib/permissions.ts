@@ -0,0 +1,39 @@
+import type { UserRole } from '@/types/database';
+
+// 권한 등급 (높을수록 더 많은 기능 사용)
+export const ROLE_RANK: Record<UserRole, number> = {
+  staff: 0,
+  manager: 1,
+  owner: 2,
+};
+
+export function hasRole(role: UserRole | null | undefined, minimum: UserRole): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+// 페이지별 최소 권한 (목록에 없는 페이지는 staff도 접근)
+// 페이지 layout의 requirePageAccess와 Sidebar 메뉴 필터가 함께 사용
+export const PAGE_ROLES: Record<string, UserRole> = {
+  '/expenses': 'manager',
+  '/deposits': 'manager',
+  '/vouchers': 'manager',
+  '/inventory': 'manager',
+  '/customers': 'manager',
+  '/gallery': 'manager',
+  '/statistics': 'manager',
+  '/trash': 'manager',
+  '/audit': 'owner',
+  '/settings': 'owner',
+};
+
+export function getPageRole(pathname: string): UserRole {
+  const entry = Object.entries(PAGE_ROLES).find(
+    ([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return entry ? entry[1] : 'staff';
+}
+
+export function canAccessPath(role: UserRole | null | undefined, pathname: string): boolean {
+  return hasRole(role, getPageRole(pathname));
+}
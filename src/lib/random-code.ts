@@ -0,0 +1,21 @@
+// 초대 코드·선불권 번호 등 추측하면 안 되는 코드용 난수 (crypto.getRandomValues)
+
+export type RandomBytes = (length: number) => Uint8Array;
+
+export const cryptoRandomBytes: RandomBytes = (length) => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * alphabet 글자로 length자 코드를 만든다
+ * 바이트(0~255)를 글자 수로 나눈 나머지를 그대로 쓰면 앞쪽 글자가 더 자주 나오므로,
+ * 글자 수의 배수를 넘는 바이트는 버리고 다시 뽑는다 (rejection sampling)
+ */
+export function randomCode(length: number, alphabet: string, randomBytes: RandomBytes = cryptoRandomBytes): string {
+  const limit = 256 - (256 % alphabet.length);
+  let result = '';
+  while (result.length < length) {
+    for (const byte of randomBytes(length - result.length)) {
+      if (byte < limit) result += alphabet[byte % alphabet.length];
+    }
+  }
+  return result;
+}
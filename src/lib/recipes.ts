@@ -0,0 +1,155 @@
+import type { createClient } from '@/lib/supabase/server';
+import type { InventoryItem, InventoryMovement, SaleCategoryRecipe, SaleItem } from '@/types/database';
+import { addCalendarDays } from './business-days';
+import { getNetSaleLineItems, getSaleLineItems, getTodayKST } from './utils';
+import type { SaleLineInput } from './utils';
+
+// 상품 레시피 원가 / 매출 총이익 계산
+// 재료 단가는 최근 지출(꽃 사입·소모품) 입고분의 수량 가중 평균, 입고 기록이 없으면 품목 단가
+
+// 재료 단가에 반영할 입고 기간
+export const RECIPE_COST_DAYS = 60;
+
+export type RecipeLine = Pick<SaleCategoryRecipe, 'category_value' | 'item_id' | 'quantity'>;
+export type CostMovement = Pick<InventoryMovement, 'item_id' | 'type' | 'quantity' | 'unit_cost' | 'expense_id'>;
+
+export interface SaleCogs {
+  lineCogs: (number | null)[];
+  total: number | null;
+}
+
+export type MarginSale = {
+  product_category?: string | null;
+  amount: number;
+  refunded_amount?: number | null;
+  cogs?: number | null;
+  items?: (Pick<SaleItem, 'product_category' | 'quantity' | 'unit_price' | 'discount' | 'amount'> & { cogs?: number | null })[] | null;
+};
+
+export interface CategoryMargin {
+  name: string;
+  revenue: number;
+  cogs: number;
+  margin: number;
+  marginRate: number;
+}
+
+/** 재료별 단가 (지출 입고 가중 평균, 없으면 품목 단가) */
+export function resolveIngredientUnitCosts(
+  items: Pick<InventoryItem, 'id' | 'unit_cost'>[],
+  movements: CostMovement[],
+): Map<string, number> {
+  const purchased = new Map<string, { quantity: number; cost: number }>();
+  movements
+    .filter((m) => m.type === 'in' && m.expense_id && m.quantity > 0)
+    .forEach((m) => {
+      const entry = purchased.get(m.item_id) || { quantity: 0, cost: 0 };
+      entry.quantity += m.quantity;
+      entry.cost += m.quantity * m.unit_cost;
+      purchased.set(m.item_id, entry);
+    });
+
+  return new Map(items.map((item) => {
+    const entry = purchased.get(item.id);
+    return [item.id, entry ? Math.round(entry.cost / entry.quantity) : item.unit_cost];
+  }));
+}
+
+/** 카테고리별 상품 1개 원가 (단가를 모르는 재료는 0원) */
+export function calculateRecipeCosts(recipes: RecipeLine[], unitCosts: Map<string, number>): Map<string, number> {
+  const costs = new Map<string, number>();
+  recipes.forEach((line) => {
+    const cost = (unitCosts.get(line.item_id) ?? 0) * line.quantity;
+    costs.set(line.category_value, (costs.get(line.category_value) ?? 0) + cost);
+  });
+  return costs;
+}
+
+/** 매출 품목별 추정 원가. 레시피 없는 품목은 null, 모두 없으면 합계도 null */
+export function calculateSaleCogs(lines: SaleLineInput[], recipeCosts: Map<string, number>): SaleCogs {
+  const lineCogs = lines.map((line) => {
+    const unitCost = recipeCosts.get(line.product_category);
+    return unitCost === undefined ? null : unitCost * line.quantity;
+  });
+  const known = lineCogs.filter((cogs): cogs is number => cogs !== null);
+  return {
+    lineCogs,
+    total: known.length > 0 ? known.reduce((sum, cogs) => sum + cogs, 0) : null,
+  };
+}
+
+/** 매출 품목 수량 × 레시피 수량으로 출고할 재료 (같은 재료는 합침, 레시피 없는 품목은 건너뜀) */
+export function expandRecipeStockOut(
+  sale: Parameters<typeof getSaleLineItems>[0],
+  recipes: RecipeLine[],
+): { item_id: string; quantity: number }[] {
+  const quantities = new Map<string, number>();
+  getSaleLineItems(sale).forEach((line) => {
+    recipes
+      .filter((recipe) => recipe.category_value === line.product_category)
+      .forEach((recipe) => {
+        quantities.set(recipe.item_id, (quantities.get(recipe.item_id) ?? 0) + recipe.quantity * line.quantity);
+      });
+  });
+  return Array.from(quantities, ([item_id, quantity]) => ({ item_id, quantity }));
+}
+
+// 원가가 없으면(레시피 없음) 0원으로 보고 총이익을 계산
+export function getGrossMargin(revenue: number, cogs: number | null | undefined): number {
+  return revenue - (cogs || 0);
+}
+
+export function getMarginRate(revenue: number, margin: number): number {
+  return revenue > 0 ? Math.round((margin / revenue) * 100) : 0;
+}
+
+/**
+ * 카테고리별 총이익 (매출은 환불 반영, 원가는 환불과 무관하게 그대로)
+ * 레시피가 있는 카테고리만, 총이익 큰 순
+ */
+export function summarizeCategoryMargins(sales: MarginSale[]): CategoryMargin[] {
+  const map = new Map<string, { revenue: number; cogs: number }>();
+
+  sales.forEach((sale) => {
+    const hasItems = !!sale.items && sale.items.length > 0;
+    const net = getNetSaleLineItems(sale);
+    getSaleLineItems(sale).forEach((line, index) => {
+      const cogs = hasItems ? sale.items![index].cogs : sale.cogs;
+      if (cogs === null || cogs === undefined) return;
+      const entry = map.get(line.product_category) || { revenue: 0, cogs: 0 };
+      entry.revenue += net[index]?.amount ?? 0;
+      entry.cogs += cogs;
+      map.set(line.product_category, entry);
+    });
+  });
+
+  return Array.from(map.entries())
+    .map(([name, { revenue, cogs }]) => {
+      const margin = getGrossMargin(revenue, cogs);
+      return { name, revenue, cogs, margin, marginRate: getMarginRate(revenue, margin) };
+    })
+    .sort((a, b) => b.margin - a.margin);
+}
+
+/** 레시피와 최근 입고 단가로 카테고리별 상품 1개 원가를 불러온다 */
+export async function loadRecipeCosts(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+): Promise<Map<string, number>> {
+  const since = addCalendarDays(getTodayKST(), -RECIPE_COST_DAYS);
+  const [recipesRes, itemsRes, movementsRes] = await Promise.all([
+    supabase.from('sale_category_recipes').select('category_value, item_id, quantity'),
+    supabase.from('inventory_items').select('id, unit_cost'),
+    supabase.from('inventory_movements')
+      .select('item_id, type, quantity, unit_cost, expense_id')
+      .eq('type', 'in')
+      .not('expense_id', 'is', null)
+      .gte('date', since),
+  ]);
+
+  if (recipesRes.error) throw recipesRes.error;
+  if (itemsRes.error) throw itemsRes.error;
+  if (movementsRes.error) throw movementsRes.error;
+
+  const unitCosts = resolveIngredientUnitCosts(itemsRes.data || [], (movementsRes.data || []) as CostMovement[]);
+  return calculateRecipeCosts(recipesRes.data || [], unitCosts);
+}
@@ -0,0 +1,93 @@
+import { addMonths, addWeeks, format, parseISO, subDays } from 'date-fns';
+import type { RecurrenceFrequency, Reservation } from '@/types/database';
+
+// 반복 예약 날짜 생성 / 구독 정산 현황
+
+// 한 규칙으로 만들 수 있는 최대 예약 수 (매주 2년)
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export interface RecurrenceRuleInput {
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date?: string | null;
+  occurrence_count?: number | null;
+  skip_dates?: string[];
+}
+
+function getNthDate(start: Date, frequency: RecurrenceFrequency, n: number): Date {
+  if (frequency === 'monthly') return addMonths(start, n); // 31일 시작이면 말일로 맞춤
+  return addWeeks(start, frequency === 'biweekly' ? n * 2 : n);
+}
+
+/**
+ * 규칙대로 예약 날짜 목록을 만든다.
+ * 건너뛸 날짜는 횟수에 포함하지 않음 (10회 구독에서 하루 건너뛰면 한 번 더 생성).
+ * 끝없이 돌지 않도록 MAX_SERIES_OCCURRENCES + 1개에서 멈춤 — 호출하는 쪽에서 초과 여부를 확인
+ */
+export function generateOccurrenceDates(rule: RecurrenceRuleInput): string[] {
+  const start = parseISO(rule.start_date);
+  const skip = new Set(rule.skip_dates ?? []);
+  const limit = Math.min(rule.occurrence_count ?? Infinity, MAX_SERIES_OCCURRENCES + 1);
+  const dates: string[] = [];
+
+  for (let n = 0; dates.length < limit; n++) {
+    const date = format(getNthDate(start, rule.frequency, n), 'yyyy-MM-dd');
+    if (rule.end_date && date > rule.end_date) break;
+    if (!skip.has(date)) dates.push(date);
+    // 건너뛸 날짜만 계속 나오는 경우 방지
+    if (n > (MAX_SERIES_OCCURRENCES + skip.size) * 2) break;
+  }
+  return dates;
+}
+
+/**
+ * "이 회차부터" 삭제·규칙 변경 때 기존 규칙의 새 종료일 (from 전날).
+ * 첫 회차(start_date)부터면 끝낼 날짜가 없으므로 null — 규칙을 지우고 남은 회차는 단독 예약으로 둠
+ */
+export function getSeriesEndDate(series: { start_date: string }, from: string): string | null {
+  if (from <= series.start_date) return null;
+  return format(subDays(parseISO(from), 1), 'yyyy-MM-dd');
+}
+
+type BillingOccurrence = Pick<Reservation, 'date' | 'status' | 'sale_id' | 'estimated_amount'> & {
+  sale_amount: number | null;
+};
+
+export interface SeriesBilling {
+  total: number;
+  converted: number; // 매출로 전환됨
+  upcoming: number; // 오늘 이후, 아직 전환 전
+  missed: number; // 날짜가 지났는데 매출 전환이 안 됨
+  cancelled: number;
+  expectedAmount: number; // 취소 제외 예상 금액 합계
+  billedAmount: number; // 전환된 매출 금액 합계
+}
+
+/** 반복 예약의 매출 전환(정산) 현황 */
+export function summarizeSeriesBilling(occurrences: BillingOccurrence[], today: string): SeriesBilling {
+  const billing: SeriesBilling = {
+    total: occurrences.length,
+    converted: 0,
+    upcoming: 0,
+    missed: 0,
+    cancelled: 0,
+    expectedAmount: 0,
+    billedAmount: 0,
+  };
+
+  occurrences.forEach((o) => {
+    if (o.sale_id) {
+      billing.converted += 1;
+      billing.billedAmount += o.sale_amount ?? 0;
+    } else if (o.status === 'cancelled') {
+      billing.cancelled += 1;
+    } else if (o.date < today) {
+      billing.missed += 1;
+    } else {
+      billing.upcoming += 1;
+    }
+    if (o.status !== 'cancelled') billing.expectedAmount += o.estimated_amount;
+  });
+
+  return billing;
+}
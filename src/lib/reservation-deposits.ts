@@ -0,0 +1,68 @@
+import { getNetAmount } from '@/lib/utils';
+import { getPaymentNetAmount } from '@/lib/sale-payments';
+import type { PaymentMethod } from '@/types/database';
+
+// 예약 선금 / 잔금 계산
+// 선금은 받은 날이 아니라 예약이 매출로 전환된 날 매출로 잡는다 (그 전까지는 선수금)
+// 선불권도 같은 방식으로 사용한 매출의 매출일에 매출로 잡는다
+// 매출 금액(amount)은 주문 총액, 매출 결제방식으로 받은 돈은 선금·선불권 사용액을 뺀 잔금
+
+type DepositLike = { amount: number; payment_method: PaymentMethod | string };
+
+export function getDepositTotal(deposits: { amount: number }[]): number {
+  return deposits.reduce((sum, d) => sum + d.amount, 0);
+}
+
+/** 예약 잔금 = 예상 금액 - 받은 선금 (0 미만은 0) */
+export function getReservationBalance(estimatedAmount: number, deposits: { amount: number }[]): number {
+  return Math.max(estimatedAmount - getDepositTotal(deposits), 0);
+}
+
+/** 매출 결제방식으로 받은 잔금 (환불은 잔금에서 먼저 차감) — 카드 수수료/입금 예정도 이 금액 기준 */
+export function getSaleBalance(sale: {
+  amount: number;
+  refunded_amount?: number | null;
+  deposit_amount?: number | null;
+  voucher_amount?: number | null;
+}): number {
+  return Math.max(getNetAmount(sale) - (sale.deposit_amount || 0) - (sale.voucher_amount || 0), 0);
+}
+
+/**
+ * 매출 실매출을 결제방식별로 나눈다. 잔금은 결제별(환불 반영)로, 선불권 사용액은 'voucher'로, 선금은 받은 방식으로.
+ * 환불이 잔금보다 크면 나머지는 선금에서 먼저 받은 순서대로 차감 (선불권 사용액은 그다음)
+ */
+export function allocateSalePayments(sale: {
+  amount: number;
+  refunded_amount?: number | null;
+  deposit_amount?: number | null;
+  voucher_amount?: number | null;
+  payment_method: PaymentMethod | string;
+  deposits?: DepositLike[] | null;
+  payments?: (DepositLike & { refunded_amount?: number | null })[] | null;
+}): { payment_method: string; amount: number }[] {
+  const balance = getSaleBalance(sale);
+  const voucherPortion = Math.min(sale.voucher_amount || 0, getNetAmount(sale) - balance);
+  let depositPortion = getNetAmount(sale) - balance - voucherPortion;
+  const allocations: { payment_method: string; amount: number }[] = [];
+
+  let paymentPortion = balance;
+  for (const payment of sale.payments ?? []) {
+    if (paymentPortion <= 0) break;
+    const amount = Math.min(getPaymentNetAmount(payment), paymentPortion);
+    if (amount > 0) allocations.push({ payment_method: payment.payment_method, amount });
+    paymentPortion -= amount;
+  }
+  // 결제 행이 없으면 (조회 누락 등) 매출 결제방식으로
+  if (paymentPortion > 0) allocations.push({ payment_method: sale.payment_method, amount: paymentPortion });
+  if (voucherPortion > 0) allocations.push({ payment_method: 'voucher', amount: voucherPortion });
+  for (const deposit of sale.deposits ?? []) {
+    if (depositPortion <= 0) break;
+    const amount = Math.min(deposit.amount, depositPortion);
+    allocations.push({ payment_method: deposit.payment_method, amount });
+    depositPortion -= amount;
+  }
+  // 선금 행이 없으면 (조회 누락 등) 매출 결제방식으로
+  if (depositPortion > 0) allocations.push({ payment_method: sale.payment_method, amount: depositPortion });
+  return allocations;
+}
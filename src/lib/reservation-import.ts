@@ -0,0 +1,365 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import type { Reservation, ReservationDraft } from '@/types/database';
+
+// 네이버 예약 CSV / 카카오톡 주문 메시지 → 예약 초안
+// 파싱 결과는 바로 예약으로 만들지 않고 reservation_drafts(검토 대기)에 넣어 사람이 확인 후 승인
+
+export type ParsedReservationDraft = Pick<
+  ReservationDraft,
+  'source' | 'external_ref' | 'raw_text' | 'date' | 'time' | 'customer_name' | 'customer_phone' | 'title' | 'description' | 'estimated_amount' | 'reservation_status'
+>;
+
+export interface DraftParseResult {
+  drafts: ParsedReservationDraft[];
+  skipped: { label: string; reason: string }[]; // 취소된 예약, 빈 주문서 등
+}
+
+// 연-월이 없는 날짜("2/14")가 기준일보다 이만큼 이전이면 다음 해로 봄 (12월에 받은 1월 주문)
+const PAST_DATE_TOLERANCE_DAYS = 60;
+
+// 공통 정규화
+
+/** 휴대폰 번호면 010-1234-5678 형태로, 아니면 null */
+export function normalizeImportPhone(value: string | null | undefined): string | null {
+  const digits = value?.replace(/\D/g, '').replace(/^82(?=1)/, '0') ?? '';
+  const match = digits.match(/^(01\d)(\d{3,4})(\d{4})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/** "50,000원", "5만원", "5만 5천원" → 원 단위 정수 (못 읽으면 0) */
+export function parseKoreanAmount(value: string | null | undefined): number {
+  if (!value) return 0;
+  const text = value.replace(/[,\s]/g, '');
+  const unitMatch = text.match(/^(?:(\d+(?:\.\d+)?)만)?(?:(\d+)천)?(\d+)?원?/);
+  if (unitMatch && (unitMatch[1] || unitMatch[2])) {
+    return Math.round(Number(unitMatch[1] ?? 0) * 10_000 + Number(unitMatch[2] ?? 0) * 1_000 + Number(unitMatch[3] ?? 0));
+  }
+  const digits = text.match(/\d+/)?.[0];
+  return digits ? Number(digits) : 0;
+}
+
+function toDateString(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return format(date, 'yyyy-MM-dd');
+}
+
+const DATE_PATTERNS: { regex: RegExp; toDate: (m: RegExpMatchArray, today: Date) => string | null }[] = [
+  // 2026-02-14, 2026.2.14, 2026. 2. 14., 2026년 2월 14일
+  {
+    regex: /(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})\s*[.일]?/,
+    toDate: (m) => toDateString(+m[1], +m[2], +m[3]),
+  },
+  // 26.02.14
+  {
+    regex: /(?<!\d)(\d{2})[-./](\d{1,2})[-./](\d{1,2})(?![\d:])/,
+    toDate: (m) => toDateString(2000 + +m[1], +m[2], +m[3]),
+  },
+  // 2월 14일, 2/14, 2.14
+  {
+    regex: /(?<![\d.])(\d{1,2})\s*(?:월\s*(\d{1,2})\s*일|[/.](\d{1,2})(?![\d:]))/,
+    toDate: (m, today) => {
+      const month = +m[1];
+      const day = +(m[2] ?? m[3]);
+      const date = toDateString(today.getFullYear(), month, day);
+      if (!date) return null;
+      return differenceInCalendarDays(today, parseISO(date)) > PAST_DATE_TOLERANCE_DAYS
+        ? toDateString(today.getFullYear() + 1, month, day)
+        : date;
+    },
+  },
+  // 오늘 / 내일 / 모레
+  {
+    regex: /(오늘|내일|모레)/,
+    toDate: (m, today) => format(addDays(today, { 오늘: 0, 내일: 1, 모레: 2 }[m[1]] ?? 0), 'yyyy-MM-dd'),
+  },
+];
+
+/** 날짜 부분과 나머지 글자 (나머지에서 시간을 읽음) */
+function extractKoreanDate(value: string, today: Date): { date: string | null; rest: string } {
+  for (const { regex, toDate } of DATE_PATTERNS) {
+    const match = value.match(regex);
+    if (!match) continue;
+    const date = toDate(match, today);
+    if (date) return { date, rest: value.replace(match[0], ' ') };
+  }
+  return { date: null, rest: value };
+}
+
+export function parseKoreanDate(value: string, today: Date = new Date()): string | null {
+  return extractKoreanDate(value, today).date;
+}
+
+/** "14:00", "오후 2시", "오후 2:30", "2시 반", "저녁 7시" → HH:MM (못 읽으면 null) */
+export function parseKoreanTime(value: string): string | null {
+  const match = value.match(/(오전|오후|아침|낮|저녁|밤)?\s*(\d{1,2})\s*(?::\s*(\d{2})|시\s*(?:(\d{1,2})\s*분|(반))?)/);
+  if (!match) return null;
+  const [, meridiem, h, colonMinute, minute, half] = match;
+  let hour = Number(h);
+  const minutes = half ? 30 : Number(colonMinute ?? minute ?? 0);
+  if (hour > 23 || minutes > 59) return null;
+
+  if ((meridiem === '오후' || meridiem === '저녁' || meridiem === '밤') && hour < 12) hour += 12;
+  else if (meridiem === '낮' && hour < 7) hour += 12;
+  else if ((meridiem === '오전' || meridiem === '아침') && hour === 12) hour = 0;
+  if (hour > 23) return null;
+  return `${String(hour).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export function parseKoreanDateTime(value: string, today: Date = new Date()): { date: string | null; time: string | null } {
+  const { date, rest } = extractKoreanDate(value, today);
+  return { date, time: parseKoreanTime(rest) };
+}
+
+// 네이버 예약 CSV
+
+/** RFC 4180 CSV (따옴표 안 쉼표/줄바꿈, "" 이스케이프, BOM) */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// 네이버 스마트플레이스 예약자 관리 내보내기 열 이름 (내보내기 설정에 따라 이름이 조금씩 다름)
+const NAVER_COLUMNS = {
+  ref: ['예약번호'],
+  name: ['예약자', '예약자명', '이름'],
+  phone: ['전화번호', '연락처', '휴대폰번호', '예약자 연락처'],
+  datetime: ['이용일시', '예약일시', '방문일시'],
+  date: ['이용일', '예약일', '방문일', '이용날짜'],
+  time: ['이용시간', '예약시간', '방문시간'],
+  product: ['상품', '상품명', '예약상품'],
+  option: ['옵션', '선택옵션'],
+  request: ['요청사항', '고객요청사항', '메모'],
+  amount: ['결제금액', '총 결제금액', '금액', '결제예정금액'],
+  status: ['상태', '예약상태'],
+} as const;
+
+function findColumn(headers: string[], names: readonly string[]): number {
+  const normalized = headers.map((h) => h.replace(/\s/g, ''));
+  return normalized.findIndex((h) => names.some((name) => h === name.replace(/\s/g, '')));
+}
+
+/** 예약자/이용일시 열이 없으면 네이버 예약 CSV가 아닌 것으로 보고 null */
+export function parseNaverBookingCsv(text: string, today: Date = new Date()): DraftParseResult | null {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) return null;
+
+  const col = Object.fromEntries(
+    Object.entries(NAVER_COLUMNS).map(([key, names]) => [key, findColumn(headers, names)])
+  ) as Record<keyof typeof NAVER_COLUMNS, number>;
+  if (col.name === -1 || (col.datetime === -1 && col.date === -1)) return null;
+
+  const result: DraftParseResult = { drafts: [], skipped: [] };
+  rows.forEach((row, index) => {
+    const get = (i: number) => (i === -1 ? '' : (row[i] ?? '').trim());
+    const ref = get(col.ref) || null;
+    const label = ref ? `예약번호 ${ref}` : `${index + 2}번째 줄`;
+    const status = get(col.status);
+    if (/취소|노쇼|거절/.test(status)) {
+      result.skipped.push({ label, reason: `${status} 상태` });
+      return;
+    }
+
+    const fromDateTime = parseKoreanDateTime(get(col.datetime), today);
+    const option = get(col.option);
+    const request = get(col.request);
+    const phone = get(col.phone);
+
+    result.drafts.push({
+      source: 'naver_booking',
+      external_ref: ref,
+      raw_text: headers.map((h, i) => `${h.trim()}: ${(row[i] ?? '').trim()}`).filter((line) => !line.endsWith(': ')).join('\n'),
+      date: fromDateTime.date ?? parseKoreanDate(get(col.date), today),
+      time: fromDateTime.time ?? parseKoreanTime(get(col.time)),
+      customer_name: get(col.name) || null,
+      customer_phone: normalizeImportPhone(phone) ?? (phone || null),
+      title: get(col.product) || null,
+      description: [option && `옵션: ${option}`, request].filter(Boolean).join('\n') || null,
+      estimated_amount: parseKoreanAmount(get(col.amount)),
+      reservation_status: /확정|완료/.test(status) ? 'confirmed' : 'pending',
+    });
+  });
+  return result;
+}
+
+// 카카오톡 주문서
+
+// 주문서 양식 라벨 (공백 무시)
+const KAKAO_LABELS: Record<string, readonly string[]> = {
+  name: ['이름', '성함', '주문자', '주문자명', '예약자', '보내는분'],
+  phone: ['연락처', '전화번호', '전화', '핸드폰', '휴대폰', '휴대폰번호', '주문자연락처'],
+  datetime: ['일시', '픽업일시', '수령일시', '배송일시', '예약일시'],
+  date: ['날짜', '픽업날짜', '픽업일', '수령일', '수령날짜', '배송일', '배송날짜', '예약일', '희망일', '희망날짜'],
+  time: ['시간', '픽업시간', '수령시간', '배송시간', '예약시간', '희망시간'],
+  product: ['상품', '상품명', '주문상품', '메뉴', '품목', '주문내용'],
+  amount: ['금액', '가격', '결제금액', '예산', '총금액'],
+};
+
+// 메시지 구분 줄 (여러 주문서를 한 번에 붙여넣을 때)
+const KAKAO_SEPARATOR = /^\s*(?:-{3,}|={3,}|_{3,})\s*$/;
+// 카카오톡 대화 내보내기 줄 앞부분: "[홍길동] [오후 2:03] "
+const KAKAO_CHAT_PREFIX = /^\[[^\]]+\]\s*\[(?:오전|오후)\s*\d{1,2}:\d{2}\]\s*/;
+// "- 성함 : 홍길동", "1. 연락처: 010...", "▶ 픽업 날짜 : 2/14"
+const KAKAO_FIELD = /^\s*(?:[-*•·▶▷►◆◇■□※]|\d{1,2}[.)])?\s*([^:：\d]{1,12}?)\s*[:：]\s*(.*)$/;
+
+function findLabel(label: string): string | null {
+  const normalized = label.replace(/[\s[\]()]/g, '');
+  return Object.keys(KAKAO_LABELS).find((key) => KAKAO_LABELS[key].includes(normalized)) ?? null;
+}
+
+function parseKakaoOrder(text: string, today: Date): ParsedReservationDraft | null {
+  const fields: Record<string, string> = {};
+  const notes: string[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(KAKAO_CHAT_PREFIX, '').trim();
+    if (!line) continue;
+    const match = line.match(KAKAO_FIELD);
+    const key = match ? findLabel(match[1]) : null;
+    if (match && key && !fields[key]) {
+      fields[key] = match[2].trim();
+    } else if (match && match[2].trim()) {
+      // 요청사항, 리본 문구 등 나머지 라벨은 메모로
+      notes.push(`${match[1].trim()}: ${match[2].trim()}`);
+    } else if (notes.length > 0 && !/^\[.*\]$/.test(line)) {
+      notes.push(line); // 여러 줄 요청사항
+    }
+  }
+  if (Object.keys(fields).length === 0) return null;
+
+  const fromDateTime = fields.datetime ? parseKoreanDateTime(fields.datetime, today) : { date: null, time: null };
+  const date = fromDateTime.date ?? (fields.date ? parseKoreanDateTime(fields.date, today).date : null);
+  const time = fromDateTime.time
+    ?? (fields.time ? parseKoreanTime(fields.time) : null)
+    ?? (fields.date ? parseKoreanDateTime(fields.date, today).time : null);
+  // 금액 라벨이 없으면 "꽃다발 5만원"처럼 상품 줄의 금액을 씀
+  const productAmount = fields.product?.match(/\d[\d,.]*\s*(?:만\s*(?:\d+\s*천)?\s*)?원/)?.[0];
+
+  return {
+    source: 'kakaotalk',
+    external_ref: null,
+    raw_text: text.trim(),
+    date,
+    time,
+    customer_name: fields.name || null,
+    customer_phone: normalizeImportPhone(fields.phone) ?? (fields.phone || null),
+    title: fields.product || null,
+    description: notes.join('\n') || null,
+    estimated_amount: parseKoreanAmount(fields.amount ?? productAmount),
+    reservation_status: 'pending',
+  };
+}
+
+/** 붙여넣은 카카오톡 주문서 (--- 줄로 여러 건 구분) */
+export function parseKakaoOrderMessages(text: string, today: Date = new Date()): DraftParseResult {
+  const blocks = [''];
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (KAKAO_SEPARATOR.test(line)) blocks.push('');
+    else blocks[blocks.length - 1] += `${line}\n`;
+  }
+
+  const result: DraftParseResult = { drafts: [], skipped: [] };
+  blocks.forEach((block, index) => {
+    if (!block.trim()) return;
+    const draft = parseKakaoOrder(block, today);
+    if (draft) result.drafts.push(draft);
+    else result.skipped.push({ label: `${index + 1}번째 메시지`, reason: '주문서 항목(성함, 연락처 등)을 찾지 못했습니다' });
+  });
+  return result;
+}
+
+// 검토
+
+export type DraftFields = Pick<
+  ParsedReservationDraft,
+  'date' | 'time' | 'customer_name' | 'customer_phone' | 'title' | 'external_ref' | 'source'
+>;
+
+/** 승인 전에 고쳐야 할 항목 */
+export function getDraftIssues(draft: Omit<DraftFields, 'external_ref' | 'source'>): string[] {
+  const issues: string[] = [];
+  if (!draft.date || !isValid(parseISO(draft.date))) issues.push('날짜를 찾지 못했습니다');
+  if (!draft.customer_name?.trim()) issues.push('고객명을 찾지 못했습니다');
+  if (!draft.title?.trim()) issues.push('상품을 찾지 못했습니다');
+  if (draft.customer_phone && !normalizeImportPhone(draft.customer_phone)) issues.push('전화번호 형식을 확인해주세요');
+  return issues;
+}
+
+/** 네이버 예약으로 만든 예약의 external_uid (같은 예약번호를 두 번 승인하지 않게) */
+export function getDraftExternalUid(draft: Pick<DraftFields, 'source' | 'external_ref'>): string | null {
+  return draft.external_ref ? `${draft.source}:${draft.external_ref}` : null;
+}
+
+export type DuplicateReason = 'external_ref' | 'phone' | 'name_time';
+
+export type DuplicateCandidate = Pick<Reservation, 'id' | 'date' | 'time' | 'customer_name' | 'customer_phone' | 'status'> & {
+  external_uid?: string | null;
+};
+
+/**
+ * 이미 있는 예약 중 같은 건으로 보이는 것.
+ * 같은 예약번호 → 같은 날 같은 전화번호 → 같은 날 같은 이름(시간이 같거나 한쪽이 미정) 순. 취소된 예약은 제외
+ */
+export function findDuplicateReservation<T extends DuplicateCandidate>(
+  draft: DraftFields,
+  reservations: T[],
+): { reservation: T; reason: DuplicateReason } | null {
+  const externalUid = getDraftExternalUid(draft);
+  const byRef = externalUid ? reservations.find((r) => r.external_uid === externalUid) : undefined;
+  if (byRef) return { reservation: byRef, reason: 'external_ref' };
+  if (!draft.date) return null;
+
+  const sameDay = reservations.filter((r) => r.date === draft.date && r.status !== 'cancelled');
+  const phone = draft.customer_phone?.replace(/\D/g, '');
+  const byPhone = phone ? sameDay.find((r) => r.customer_phone?.replace(/\D/g, '') === phone) : undefined;
+  if (byPhone) return { reservation: byPhone, reason: 'phone' };
+
+  const name = draft.customer_name?.replace(/\s/g, '');
+  const byName = name
+    ? sameDay.find((r) =>
+        r.customer_name.replace(/\s/g, '') === name &&
+        (!draft.time || !r.time || r.time.slice(0, 5) === draft.time.slice(0, 5)))
+    : undefined;
+  return byName ? { reservation: byName, reason: 'name_time' } : null;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  external_ref: '같은 예약번호',
+  phone: '같은 날 같은 연락처',
+  name_time: '같은 날 같은 고객명',
+};
@@ -0,0 +1,75 @@
+import type { SalePayment } from '@/types/database';
+
+// 매출 결제 (카드 30,000 + 현금 20,000처럼 나눠 받은 결제)
+// 결제 합계 = 잔금 (매출 금액 - 선금 - 선불권 사용액, 환불 전), 잔금이 없으면 결제도 없음
+// 환불은 결제마다 refunded_amount로 나눠 반영하고, 카드 수수료/입금 예정도 결제별 실결제액 기준
+
+export type SalePaymentInput = Pick<SalePayment, 'payment_method' | 'amount'> & { card_company?: string | null };
+
+type RefundLike = { amount: number; refund_method: string };
+
+export function getPaymentsTotal(payments: { amount: number }[]): number {
+  return payments.reduce((sum, p) => sum + p.amount, 0);
+}
+
+/** 결제별 실결제액 (환불 반영) */
+export function getPaymentNetAmount(payment: { amount: number; refunded_amount?: number | null }): number {
+  return payment.amount - (payment.refunded_amount || 0);
+}
+
+/** 결제 합계가 잔금과 맞는지 확인 (문제없으면 null) */
+export function validateSalePayments(payments: SalePaymentInput[], balance: number): string | null {
+  if (balance === 0) return payments.length > 0 ? '선금·선불권으로 모두 결제한 매출에는 결제를 추가할 수 없습니다' : null;
+  if (payments.length === 0) return '결제방식을 선택해주세요';
+  if (payments.some((p) => !Number.isInteger(p.amount) || p.amount <= 0)) return '결제 금액이 올바르지 않습니다';
+  const total = getPaymentsTotal(payments);
+  if (total !== balance) {
+    return `결제 금액 합계(${total.toLocaleString('ko-KR')}원)가 결제할 금액(${balance.toLocaleString('ko-KR')}원)과 다릅니다`;
+  }
+  return null;
+}
+
+/**
+ * 환불 누계를 결제별로 나눈다 (결제 순서대로 반환)
+ * 환불 방식과 같은 결제에서 먼저 빼고, 남으면 뒤 결제부터 차감. 결제 합계를 넘는 환불은 선금·선불권 몫이라 빼지 않음
+ */
+export function allocatePaymentRefunds(payments: { payment_method: string; amount: number }[], refunds: RefundLike[]): number[] {
+  const refunded = payments.map(() => 0);
+  let budget = Math.min(refunds.reduce((sum, r) => sum + r.amount, 0), getPaymentsTotal(payments));
+
+  const deduct = (index: number, amount: number) => {
+    const taken = Math.min(amount, payments[index].amount - refunded[index]);
+    refunded[index] += taken;
+    budget -= taken;
+    return taken;
+  };
+
+  for (const refund of refunds) {
+    let remaining = Math.min(refund.amount, budget);
+    for (let i = payments.length - 1; i >= 0 && remaining > 0; i--) {
+      if (payments[i].payment_method === refund.refund_method) remaining -= deduct(i, remaining);
+    }
+  }
+  for (let i = payments.length - 1; i >= 0 && budget > 0; i--) deduct(i, budget);
+  return refunded;
+}
+
+/** 결제방식·금액·카드사가 순서까지 같은지 */
+export function isSamePayments(a: SalePaymentInput[], b: SalePaymentInput[]): boolean {
+  return a.length === b.length && a.every((p, i) =>
+    p.payment_method === b[i].payment_method
+    && p.amount === b[i].amount
+    && (p.card_company || null) === (b[i].card_company || null)
+  );
+}
+
+/** 매출의 결제방식 (결제 순서대로, 같은 방식은 한 번). 결제가 없으면 매출 결제방식 하나 */
+export function getSalePaymentMethods(sale: {
+  payment_method: string;
+  payments?: { payment_method: string; sort_order: number }[] | null;
+}): string[] {
+  const methods = [...(sale.payments || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((p) => p.payment_method);
+  return methods.length > 0 ? [...new Set(methods)] : [sale.payment_method];
+}
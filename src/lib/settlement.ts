@@ -0,0 +1,267 @@
+import type { CardPayment } from '@/types/database';
+
+// 카드사/VAN 정산내역 CSV 파싱 및 미입금 카드 결제 자동 대조 (나눠 결제한 매출은 카드 결제별로)
+
+export interface SettlementRow {
+  line: number;            // CSV 행 번호 (헤더 = 1)
+  card_company: string;
+  deposit_date: string;    // YYYY-MM-DD
+  amount: number;          // 실제 입금액
+  sale_date?: string;      // 매출(승인)일, 있으면 대조 정확도 향상
+}
+
+export interface SettlementParseResult {
+  rows: SettlementRow[];
+  errors: string[];
+}
+
+export type SettlementMatchStatus = 'matched' | 'amount_mismatch' | 'unmatched';
+
+export type SettlementSale = Pick<CardPayment, 'id' | 'date' | 'amount' | 'card_company' | 'expected_deposit' | 'expected_deposit_date'>;
+
+export interface SettlementMatch<T extends SettlementSale = SettlementSale> {
+  row: SettlementRow;
+  sale: T | null;
+  status: SettlementMatchStatus;
+  difference: number;      // 실입금액 - 예상입금액
+}
+
+export interface SettlementReconciliation<T extends SettlementSale = SettlementSale> {
+  matched: SettlementMatch<T>[];
+  mismatched: SettlementMatch<T>[];
+  unmatched: SettlementMatch<T>[];
+}
+
+// 입금일이 휴일 등으로 밀리는 경우를 허용하는 범위 (일)
+export const SETTLEMENT_DATE_TOLERANCE_DAYS = 3;
+
+// 카드사마다 헤더 이름이 달라 별칭으로 매핑
+const HEADER_ALIASES: Record<'card_company' | 'deposit_date' | 'amount' | 'sale_date', string[]> = {
+  card_company: ['카드사', '카드사명', '매입사', '매입사명', '매입카드사', 'card_company'],
+  deposit_date: ['입금일', '입금일자', '입금예정일', '지급일', '지급일자', '지급예정일', '정산일', '정산일자', 'deposit_date'],
+  amount: ['입금액', '입금금액', '실입금액', '지급액', '지급금액', '정산금액', 'amount'],
+  sale_date: ['매출일', '매출일자', '승인일', '승인일자', '거래일', '거래일자', 'sale_date'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').replace(/\s/g, '').toLowerCase();
+}
+
+// 따옴표로 감싼 필드(쉼표/줄바꿈 포함)를 지원하는 CSV 파서
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// 2026.01.15 / 2026/1/15 / 20260115 / 2026-01-15 10:00 → 2026-01-15
+export function normalizeSettlementDate(value: string): string | null {
+  const trimmed = value.trim();
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const separated = trimmed.match(/^(\d{4})[.\-/년\s]+(\d{1,2})[.\-/월\s]+(\d{1,2})/);
+  const match = compact || separated;
+  if (!match) return null;
+
+  const [, y, m, d] = match;
+  const month = Number(m);
+  const day = Number(d);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// "1,234,000원" → 1234000 (음수/빈 값은 null)
+export function parseSettlementAmount(value: string): number | null {
+  const cleaned = value.replace(/[,\s원₩]/g, '');
+  if (!/^-?\d+$/.test(cleaned)) return null;
+  const amount = parseInt(cleaned, 10);
+  return amount > 0 ? amount : null;
+}
+
+// "KB국민카드", "국민 카드", "(주)신한카드" 등을 비교 가능한 형태로
+export function normalizeCardCompany(name: string): string {
+  return name
+    .replace(/\(주\)|주식회사/g, '')
+    .replace(/\s/g, '')
+    .replace(/카드$/, '')
+    .toLowerCase();
+}
+
+function isSameCardCompany(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+  const na = normalizeCardCompany(a);
+  const nb = normalizeCardCompany(b);
+  if (!na || !nb) return false;
+  return na === nb || na.includes(nb) || nb.includes(na);
+}
+
+export function parseSettlementCSV(text: string): SettlementParseResult {
+  const table = parseCSV(text);
+  if (table.length === 0) {
+    return { rows: [], errors: ['CSV 내용이 비어 있습니다'] };
+  }
+
+  const headers = table[0].map(normalizeHeader);
+  const findColumn = (key: keyof typeof HEADER_ALIASES) =>
+    headers.findIndex(h => HEADER_ALIASES[key].some(alias => normalizeHeader(alias) === h));
+
+  const columns = {
+    card_company: findColumn('card_company'),
+    deposit_date: findColumn('deposit_date'),
+    amount: findColumn('amount'),
+    sale_date: findColumn('sale_date'),
+  };
+
+  const missing = [
+    columns.card_company < 0 && '카드사',
+    columns.deposit_date < 0 && '입금일',
+    columns.amount < 0 && '입금액',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`필수 열을 찾을 수 없습니다: ${missing.join(', ')}`] };
+  }
+
+  const rows: SettlementRow[] = [];
+  const errors: string[] = [];
+
+  table.slice(1).forEach((cells, index) => {
+    const line = index + 2;
+    const cardCompany = (cells[columns.card_company] || '').trim();
+    const depositDate = normalizeSettlementDate(cells[columns.deposit_date] || '');
+    const amount = parseSettlementAmount(cells[columns.amount] || '');
+
+    if (!cardCompany) {
+      errors.push(`${line}행: 카드사가 비어 있습니다`);
+      return;
+    }
+    if (!depositDate) {
+      errors.push(`${line}행: 입금일을 읽을 수 없습니다`);
+      return;
+    }
+    if (amount === null) {
+      errors.push(`${line}행: 입금액을 읽을 수 없습니다`);
+      return;
+    }
+
+    const saleDate = columns.sale_date >= 0
+      ? normalizeSettlementDate(cells[columns.sale_date] || '')
+      : null;
+
+    rows.push({
+      line,
+      card_company: cardCompany,
+      deposit_date: depositDate,
+      amount,
+      ...(saleDate ? { sale_date: saleDate } : {}),
+    });
+  });
+
+  return { rows, errors };
+}
+
+export function getExpectedDepositAmount(sale: Pick<CardPayment, 'amount' | 'expected_deposit'>): number {
+  return sale.expected_deposit || sale.amount;
+}
+
+function dayDiff(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000;
+}
+
+/**
+ * 정산내역 행과 미입금 카드 매출을 1:1로 대조한다.
+ * 1) 카드사 + 입금예정일 + 금액 일치 → matched
+ * 2) 카드사 + 금액 일치, 입금일 ±3일 이내 → matched (휴일로 밀린 입금)
+ * 3) 카드사 + 입금예정일(또는 매출일) 일치, 금액 불일치 → amount_mismatch
+ * 4) 나머지 → unmatched
+ */
+export function reconcileSettlement<T extends SettlementSale>(
+  rows: SettlementRow[],
+  sales: T[],
+): SettlementReconciliation<T> {
+  const used = new Set<string>();
+  const results = new Map<SettlementRow, SettlementMatch<T>>();
+
+  const candidates = (row: SettlementRow) =>
+    sales.filter(sale => !used.has(sale.id) && isSameCardCompany(sale.card_company, row.card_company));
+
+  // 매출일 정보가 있으면 같은 날 매출을 우선
+  const preferSaleDate = (row: SettlementRow, list: T[]) =>
+    row.sale_date ? [...list].sort((a, b) => Number(b.date === row.sale_date) - Number(a.date === row.sale_date)) : list;
+
+  const assign = (row: SettlementRow, sale: T, status: SettlementMatchStatus) => {
+    used.add(sale.id);
+    results.set(row, { row, sale, status, difference: row.amount - getExpectedDepositAmount(sale) });
+  };
+
+  // 1단계: 완전 일치
+  for (const row of rows) {
+    const sale = preferSaleDate(row, candidates(row)).find(s =>
+      s.expected_deposit_date === row.deposit_date && getExpectedDepositAmount(s) === row.amount
+    );
+    if (sale) assign(row, sale, 'matched');
+  }
+
+  // 2단계: 금액 일치 + 입금일 허용 범위
+  for (const row of rows) {
+    if (results.has(row)) continue;
+    const sale = preferSaleDate(row, candidates(row))
+      .filter(s => s.expected_deposit_date && getExpectedDepositAmount(s) === row.amount
+        && dayDiff(s.expected_deposit_date, row.deposit_date) <= SETTLEMENT_DATE_TOLERANCE_DAYS)
+      .sort((a, b) => dayDiff(a.expected_deposit_date!, row.deposit_date) - dayDiff(b.expected_deposit_date!, row.deposit_date))[0];
+    if (sale) assign(row, sale, 'matched');
+  }
+
+  // 3단계: 날짜는 맞지만 금액이 다른 건 (가장 가까운 금액)
+  for (const row of rows) {
+    if (results.has(row)) continue;
+    const sale = candidates(row)
+      .filter(s => (row.sale_date ? s.date === row.sale_date : s.expected_deposit_date === row.deposit_date))
+      .sort((a, b) => Math.abs(getExpectedDepositAmount(a) - row.amount) - Math.abs(getExpectedDepositAmount(b) - row.amount))[0];
+    if (sale) assign(row, sale, 'amount_mismatch');
+  }
+
+  const reconciliation: SettlementReconciliation<T> = { matched: [], mismatched: [], unmatched: [] };
+  for (const row of rows) {
+    const result = results.get(row) ?? { row, sale: null, status: 'unmatched' as const, difference: 0 };
+    if (result.status === 'matched') reconciliation.matched.push(result);
+    else if (result.status === 'amount_mismatch') reconciliation.mismatched.push(result);
+    else reconciliation.unmatched.push(result);
+  }
+  return reconciliation;
+}
@@ -0,0 +1,60 @@
+import type { StaffInvitation, StaffInvitationStatus } from '@/types/database';
+import { randomCode, type RandomBytes } from '@/lib/random-code';
+
+// 직원 초대 코드 / 계정 상태 계산
+
+// 헷갈리기 쉬운 문자(0/O, 1/I/L) 제외
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const INVITE_CODE_LENGTH = 8;
+export const INVITE_CODE_TTL_HOURS = 72;
+export const TEMP_PASSWORD_LENGTH = 12;
+
+// 비활성화는 Supabase Auth의 ban_duration으로 처리 (사실상 영구)
+export const DEACTIVATE_BAN_DURATION = '876000h';
+
+export function generateInviteCode(randomBytes?: RandomBytes): string {
+  return randomCode(INVITE_CODE_LENGTH, CODE_ALPHABET, randomBytes);
+}
+
+export function generateTemporaryPassword(randomBytes?: RandomBytes): string {
+  return randomCode(TEMP_PASSWORD_LENGTH, CODE_ALPHABET, randomBytes);
+}
+
+// 입력값 정리: 공백/하이픈 제거 + 대문자
+export function normalizeInviteCode(input: string): string {
+  return input.replace(/[\s-]/g, '').toUpperCase();
+}
+
+// 화면 표시용 (ABCD-EFGH)
+export function formatInviteCode(code: string): string {
+  const normalized = normalizeInviteCode(code);
+  const half = Math.ceil(normalized.length / 2);
+  return `${normalized.slice(0, half)}-${normalized.slice(half)}`;
+}
+
+// DB에는 SHA-256 해시만 저장 (정리된 코드 기준)
+export async function hashInviteCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeInviteCode(code)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function getInviteExpiresAt(now: Date = new Date(), hours: number = INVITE_CODE_TTL_HOURS): string {
+  return new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+}
+
+export function getInvitationStatus(
+  invitation: Pick<StaffInvitation, 'used_at' | 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): StaffInvitationStatus {
+  if (invitation.used_at) return 'used';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'pending';
+}
+
+// banned_until이 미래면 비활성 계정
+export function isAccountDeactivated(bannedUntil: string | null | undefined, now: Date = new Date()): boolean {
+  if (!bannedUntil) return false;
+  return new Date(bannedUntil).getTime() > now.getTime();
+}
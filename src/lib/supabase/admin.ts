@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Service role 클라이언트 (Auth 관리 API, RLS 우회)
+// 서버에서만 사용하고, 호출 전에 반드시 권한을 확인할 것
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
@@ -33,18 +33,22 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser()
 
+  // /api/calendar/feed는 휴대폰 캘린더 앱이 구독 토큰으로 호출 (로그인 쿠키 없음)
   if (
     !user &&
-    !request.nextUrl.pathname.startsWith('/login')
+    !request.nextUrl.pathname.startsWith('/login') &&
+    !request.nextUrl.pathname.startsWith('/api/calendar/feed')
   ) {
     const url = request.nextUrl.clone()
     url.pathname = '/login'
     return NextResponse.redirect(url)
   }
 
+  // /login/join은 초대 메일로 로그인한 직후 비밀번호를 정하는 화면이라 로그인 상태에서도 허용
   if (
     user &&
-    request.nextUrl.pathname.startsWith('/login')
+    request.nextUrl.pathname.startsWith('/login') &&
+    !request.nextUrl.pathname.startsWith('/login/join')
   ) {
     const url = request.nextUrl.clone()
     url.pathname = '/'
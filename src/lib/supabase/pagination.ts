@@ -0,0 +1,28 @@
+// PostgREST는 한 번에 최대 1000행만 돌려준다 (db-max-rows)
+// 전체 행이 필요한 조회는 정렬 기준을 고정하고 .range()로 나눠 읽는다
+export const DB_PAGE_SIZE = 1000;
+
+// .in('id', ids)는 URL에 들어가므로 UUID는 이 개수씩 나눠 보낸다
+export const ID_FILTER_CHUNK_SIZE = 200;
+
+/** 마지막 페이지(DB_PAGE_SIZE보다 적게 온 페이지)까지 읽어 합친다 */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += DB_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + DB_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < DB_PAGE_SIZE) return rows;
+  }
+}
+
+/** .in() 필터나 일괄 insert가 URL·요청 크기 제한을 넘지 않도록 나눈다 */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
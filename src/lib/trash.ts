@@ -0,0 +1,41 @@
+// 휴지통 (soft delete) 보관 기간과 영구 삭제 대상 계산
+// 삭제 후 보관 기간이 지나면 /api/cron/purge-trash가 행과 Storage 파일을 지운다
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 이 시각 이전에 삭제된 행은 영구 삭제 대상
+export function getTrashPurgeCutoff(now: Date = new Date(), retentionDays: number = TRASH_RETENTION_DAYS): string {
+  return new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+}
+
+// 영구 삭제까지 남은 일수 (당일 삭제 예정이면 0)
+export function getDaysUntilPurge(
+  deletedAt: string,
+  now: Date = new Date(),
+  retentionDays: number = TRASH_RETENTION_DAYS,
+): number {
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS;
+  return Math.max(Math.ceil((purgeAt - now.getTime()) / DAY_MS), 0);
+}
+
+// 공개 URL에서 버킷 내 파일 경로 추출 (다른 버킷/외부 URL은 제외)
+export function getStoragePaths(urls: string[], bucket: string): string[] {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  return urls
+    .map(url => {
+      const index = url.indexOf(marker);
+      return index >= 0 ? decodeURIComponent(url.slice(index + marker.length)) : null;
+    })
+    .filter((path): path is string => !!path);
+}
+
+// 삭제 때 끊은 연결 id 중 아직 다른 곳에 연결되지 않은 것만 다시 연결한다
+export function getRelinkableIds(
+  linkedIds: string[] | null | undefined,
+  rows: { id: string; linked_id: string | null }[],
+): string[] {
+  const unlinked = new Set(rows.filter(row => !row.linked_id).map(row => row.id));
+  return (linkedIds || []).filter(id => unlinked.has(id));
+}
@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
-import type { Sale, PaymentMethod, ProductCategory } from "@/types/database"
+import type { Sale, PaymentMethod, SaleItem } from "@/types/database"
+import { allocateSalePayments } from "@/lib/reservation-deposits"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -30,9 +31,90 @@ export function filterSalesByYearMonth(sales: Sale[], year: number, month: numbe
   });
 }
 
-export function filterSalesByCategory(sales: Sale[], category: ProductCategory | 'all'): Sale[] {
+export function filterSalesByCategory(sales: Sale[], category: string): Sale[] {
   if (category === 'all') return sales;
-  return sales.filter(sale => sale.product_category === category);
+  return sales.filter(sale =>
+    getSaleLineItems(sale).some(item => item.product_category === category)
+  );
+}
+
+// Sale line item utilities
+export type SaleLineInput = Pick<SaleItem, 'product_category' | 'quantity' | 'unit_price' | 'discount'>;
+export type SaleLine = SaleLineInput & { amount: number };
+
+export function calculateLineAmount(item: SaleLineInput): number {
+  return Math.max(item.quantity * item.unit_price - item.discount, 0);
+}
+
+export function calculateSaleItemsTotal(items: SaleLineInput[]): number {
+  return items.reduce((sum, item) => sum + calculateLineAmount(item), 0);
+}
+
+// 품목이 없는 기존 매출은 product_category/amount로 단일 품목을 만들어 반환
+export function getSaleLineItems(sale: {
+  product_category?: string | null;
+  amount: number;
+  items?: Pick<SaleItem, 'product_category' | 'quantity' | 'unit_price' | 'discount' | 'amount'>[] | null;
+}): SaleLine[] {
+  if (sale.items && sale.items.length > 0) {
+    return sale.items.map(item => ({
+      product_category: item.product_category,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      discount: item.discount,
+      amount: item.amount,
+    }));
+  }
+  return [{
+    product_category: sale.product_category || '기타',
+    quantity: 1,
+    unit_price: sale.amount,
+    discount: 0,
+    amount: sale.amount,
+  }];
+}
+
+// 환불 반영 실매출 (환불은 매출일 기준으로 차감)
+export function getNetAmount(sale: { amount: number; refunded_amount?: number | null }): number {
+  return Math.max(sale.amount - (sale.refunded_amount || 0), 0);
+}
+
+// 환불액·포인트 사용액(품목 합계 - amount)을 품목 금액 비율로 나눠 반영 (실매출이 0이면 빈 배열, 끝전은 마지막 품목에)
+export function getNetSaleLineItems(sale: Parameters<typeof getSaleLineItems>[0] & { refunded_amount?: number | null }): SaleLine[] {
+  const lines = getSaleLineItems(sale);
+  const net = getNetAmount(sale);
+  const gross = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (gross === net) return lines;
+  if (net === 0) return [];
+
+  let remaining = net;
+  return lines.map((line, index) => {
+    const amount = index === lines.length - 1
+      ? remaining
+      : Math.round(gross > 0 ? (line.amount * net) / gross : 0);
+    remaining -= amount;
+    return { ...line, amount };
+  });
+}
+
+export interface PurchaseStats {
+  count: number;
+  total: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+// 고객 구매 통계 (전액 환불된 매출은 구매로 치지 않음)
+export function aggregatePurchaseStats(sales: { amount: number; refunded_amount?: number | null; date: string }[]): PurchaseStats {
+  return sales.reduce<PurchaseStats>((acc, sale) => {
+    const net = getNetAmount(sale);
+    if (net === 0) return acc;
+    acc.count += 1;
+    acc.total += net;
+    if (!acc.firstDate || sale.date < acc.firstDate) acc.firstDate = sale.date;
+    if (!acc.lastDate || sale.date > acc.lastDate) acc.lastDate = sale.date;
+    return acc;
+  }, { count: 0, total: 0, firstDate: null, lastDate: null });
 }
 
 export interface SalesSummary {
@@ -41,31 +123,31 @@ export interface SalesSummary {
   naverpay: number;
   transfer: number;
   cash: number;
+  kakaopay: number; // 예약 선금을 카카오페이로 받은 몫
+  voucher: number; // 선불권으로 결제한 몫
   count: number;
+  cogs: number; // 추정 원가 합계 (레시피 없는 매출은 0원)
+  grossMargin: number; // 총이익 = 실매출 - 추정 원가
 }
 
+const SUMMARY_METHODS = ['card', 'naverpay', 'transfer', 'cash', 'kakaopay', 'voucher'] as const;
+
+// 결제방식별 금액은 나눠 결제·선금·선불권을 나눠 담는다 (allocateSalePayments)
 export function calculateSalesSummary(sales: Sale[]): SalesSummary {
   return sales.reduce((acc, sale) => {
-    acc.total += sale.amount;
+    const amount = getNetAmount(sale);
+    acc.total += amount;
     acc.count += 1;
-    
-    switch (sale.payment_method) {
-      case 'card':
-        acc.card += sale.amount;
-        break;
-      case 'naverpay':
-        acc.naverpay += sale.amount;
-        break;
-      case 'transfer':
-        acc.transfer += sale.amount;
-        break;
-      case 'cash':
-        acc.cash += sale.amount;
-        break;
-    }
-    
+    acc.cogs += sale.cogs || 0;
+    acc.grossMargin += amount - (sale.cogs || 0);
+
+    allocateSalePayments(sale).forEach(({ payment_method, amount: paid }) => {
+      const method = SUMMARY_METHODS.find((m) => m === payment_method);
+      if (method) acc[method] += paid;
+    });
+
     return acc;
-  }, { total: 0, card: 0, naverpay: 0, transfer: 0, cash: 0, count: 0 });
+  }, { total: 0, card: 0, naverpay: 0, transfer: 0, cash: 0, kakaopay: 0, voucher: 0, count: 0, cogs: 0, grossMargin: 0 });
 }
 
 // 통화 포맷팅 (₩1,000,000 형태)
@@ -77,6 +159,15 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+// 변경 이력 값 표시용 문자열
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? '예' : '아니오';
+  if (Array.isArray(value)) return `${value.length}개`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
 // 월 기준 시작일/종료일 계산 (Server Action에서 공통 사용)
 export function getMonthDateRange(month?: string): { startDate: string; endDate: string } {
   if (month) {
@@ -93,6 +184,12 @@ export function getMonthDateRange(month?: string): { startDate: string; endDate:
   };
 }
 
+// KST 기준 오늘 날짜 (YYYY-MM-DD)
+export function getTodayKST(): string {
+  const kstOffset = 9 * 60 * 60 * 1000;
+  return new Date(Date.now() + kstOffset).toISOString().split('T')[0];
+}
+
 // 전화번호 포맷팅 (010-1234-5678 형태)
 export function formatPhoneNumber(value: string): string {
   const numbers = value.replace(/[^0-9]/g, '');
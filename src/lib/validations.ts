@@ -16,12 +16,8 @@ export const saleSchema = z.object({
   date: dateSchema,
   product_category: z.string().min(1).max(100),
   amount: z.number().int().min(0).max(100_000_000),
-  payment_method: z.enum(['cash', 'card', 'transfer', 'naverpay', 'kakaopay']),
+  payment_method: z.enum(['cash', 'card', 'transfer', 'naverpay', 'kakaopay', 'voucher']),
   card_company: z.string().max(50).nullable().optional(),
-  fee: z.number().int().min(0).nullable().optional(),
-  expected_deposit: z.number().int().min(0).nullable().optional(),
-  expected_deposit_date: dateSchema.nullable().optional(),
-  deposit_status: z.enum(['pending', 'completed', 'not_applicable']).optional(),
   reservation_channel: z.enum(['phone', 'kakaotalk', 'naver_booking', 'road', 'other']).optional(),
   customer_name: z.string().max(100).nullable().optional(),
   customer_phone: z.string().max(20).nullable().optional(),
@@ -30,6 +26,27 @@ export const saleSchema = z.object({
   note: z.string().max(1000).nullable().optional(),
 });
 
+// 매출 품목 (할인은 품목 금액을 넘을 수 없음)
+export const saleItemSchema = z.object({
+  product_category: z.string().min(1, '상품 카테고리를 선택해주세요').max(100),
+  quantity: z.number().int().min(1).max(1_000),
+  unit_price: z.number().int().min(0).max(100_000_000),
+  discount: z.number().int().min(0).max(100_000_000),
+}).refine((item) => item.discount <= item.quantity * item.unit_price, {
+  message: '할인 금액이 품목 금액보다 클 수 없습니다',
+});
+
+export const saleItemsSchema = z.array(saleItemSchema).min(1, '품목을 1개 이상 입력해주세요').max(50);
+
+// 매출 결제 (나눠 받은 결제, 합계는 서버에서 잔금과 비교)
+export const salePaymentSchema = z.object({
+  payment_method: z.enum(['cash', 'card', 'transfer', 'naverpay', 'kakaopay']),
+  amount: z.number().int().min(1, '결제 금액을 입력해주세요').max(100_000_000),
+  card_company: z.string().max(50).nullable().optional(),
+});
+
+export const salePaymentsSchema = z.array(salePaymentSchema).max(5, '결제는 5건까지 나눌 수 있습니다');
+
 // 고객 생성/수정
 export const customerSchema = z.object({
   name: z.string().min(1, '이름을 입력해주세요').max(100),
@@ -63,8 +80,48 @@ export const reservationSchema = z.object({
   estimated_amount: z.number().int().min(0).max(100_000_000).optional(),
   status: z.enum(['pending', 'confirmed', 'completed', 'cancelled']).optional(),
   reminder_at: z.string().datetime({ offset: true }).nullable().optional(),
+  product_category: z.string().max(100).nullable().optional(),
 });
 
+// 반복 예약 규칙 (종료일 또는 횟수 중 하나는 필수)
+export const recurrenceFrequencySchema = z.enum(['weekly', 'biweekly', 'monthly']);
+
+export const recurrenceRuleSchema = z.object({
+  frequency: recurrenceFrequencySchema,
+  start_date: dateSchema,
+  end_date: dateSchema.nullable().optional(),
+  occurrence_count: z.number().int().min(1).max(104).nullable().optional(),
+  skip_dates: z.array(dateSchema).max(104).optional(),
+})
+  .refine((r) => !!r.end_date || !!r.occurrence_count, '종료일 또는 반복 횟수를 입력해주세요')
+  .refine((r) => !r.end_date || r.end_date >= r.start_date, '종료일은 시작일 이후여야 합니다');
+
+export const reservationSeriesSchema = reservationSchema
+  .omit({ date: true, status: true, reminder_at: true })
+  .extend({ is_subscription: z.boolean().optional() });
+
+// 배송 (예약 또는 매출 중 하나는 연결)
+const timeSchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, '시간 형식이 올바르지 않습니다 (HH:MM)');
+
+export const deliveryStatusSchema = z.enum(['preparing', 'in_transit', 'delivered', 'failed']);
+
+export const deliverySchema = z.object({
+  reservation_id: uuidSchema.nullable().optional(),
+  sale_id: uuidSchema.nullable().optional(),
+  date: dateSchema,
+  time_from: timeSchema.nullable().optional(),
+  time_to: timeSchema.nullable().optional(),
+  recipient_name: z.string().min(1, '받는 분 이름을 입력해주세요').max(100),
+  recipient_phone: z.string().max(20).nullable().optional(),
+  address: z.string().min(1, '주소를 입력해주세요').max(500),
+  address_detail: z.string().max(200).nullable().optional(),
+  fee: z.number().int().min(0).max(1_000_000).optional(),
+  driver: z.string().max(50).nullable().optional(),
+  note: z.string().max(1000).nullable().optional(),
+})
+  .refine((d) => !!d.reservation_id || !!d.sale_id, '예약 또는 매출을 선택해주세요')
+  .refine((d) => !d.time_from || !d.time_to || d.time_from <= d.time_to, '도착 희망 시간이 올바르지 않습니다');
+
 // 카테고리 설정
 export const categorySettingSchema = z.object({
   label: z.string().min(1).max(100),
@@ -76,6 +133,14 @@ export const cardCompanySettingSchema = z.object({
   name: z.string().min(1).max(50),
   fee_rate: z.number().min(0).max(100),
   deposit_days: z.number().int().min(0).max(365),
+  deposit_rule: z.enum(['business_days', 'next_weekday']).optional(),
+  deposit_weekday: z.number().int().min(0).max(6).nullable().optional(),
+});
+
+// 카드 수수료율 이력
+export const cardFeeRateSchema = z.object({
+  fee_rate: z.number().min(0).max(100),
+  effective_from: dateSchema,
 });
 
 // 사진 카드
@@ -98,6 +163,120 @@ export const photoTagSchema = z.object({
 // ID 배열 (입금 확인 등)
 export const idsSchema = z.array(uuidSchema).min(1).max(100);
 
+// 카드 정산내역 행 (CSV 가져오기)
+export const settlementRowsSchema = z.array(z.object({
+  line: z.number().int().min(1),
+  card_company: z.string().min(1).max(50),
+  deposit_date: dateSchema,
+  amount: z.number().int().min(1).max(100_000_000),
+  sale_date: dateSchema.optional(),
+})).min(1, '정산내역이 비어 있습니다').max(2000);
+
+// 정산 대조 결과 입금 확정 (실입금액/입금일 기록)
+export const settlementConfirmSchema = z.array(z.object({
+  payment_id: uuidSchema,
+  deposited_amount: z.number().int().min(0).max(100_000_000),
+  deposit_date: dateSchema,
+})).min(1).max(2000);
+
+// 매출 환불 (전액 환불은 서버에서 남은 실매출 전액으로 처리)
+export const saleRefundSchema = z.object({
+  refund_type: z.enum(['full', 'partial']),
+  amount: z.number().int().min(1, '환불 금액을 입력해주세요').max(100_000_000),
+  reason: z.string().max(500).nullable().optional(),
+  refund_method: z.enum(['cash', 'card', 'transfer', 'naverpay', 'kakaopay']),
+  refund_date: dateSchema,
+});
+
+// 예약 선금
+export const reservationDepositSchema = z.object({
+  amount: z.number().int().min(1, '선금을 입력해주세요').max(100_000_000),
+  payment_method: z.enum(['cash', 'card', 'transfer', 'naverpay', 'kakaopay']),
+  date: dateSchema,
+  note: z.string().max(200).nullable().optional(),
+});
+
+// 예약 수용량 (NULL이면 제한 없음)
+export const reservationCapacitySchema = z.object({
+  slot_minutes: z.union([z.literal(15), z.literal(30), z.literal(60), z.literal(120)]),
+  daily_limit: z.number().int().min(1).max(1000).nullable(),
+  daily_workload_limit: z.number().positive().max(10000).nullable(),
+  slot_limit: z.number().int().min(1).max(1000).nullable(),
+  slot_workload_limit: z.number().positive().max(10000).nullable(),
+});
+
+export const categoryWorkloadSchema = z.number().positive('작업량은 0보다 커야 합니다').max(100);
+
+// 변경 이력 조회 필터
+export const auditLogFilterSchema = z.object({
+  entityType: z.enum(['sale', 'expense', 'customer', 'reservation', 'gift_voucher', 'user']).optional(),
+  entityId: uuidSchema.optional(),
+  action: z.string().max(100).optional(),
+  actor: z.string().max(100).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  page: z.number().int().min(1).max(10_000).optional(),
+});
+
+// 재고 품목
+export const inventoryItemSchema = z.object({
+  name: z.string().min(1, '품목명을 입력해주세요').max(100),
+  kind: z.enum(['flower', 'supply']),
+  unit: z.string().min(1, '단위를 입력해주세요').max(10),
+  shelf_life_days: z.number().int().min(1).max(365).nullable().optional(),
+  unit_cost: z.number().int().min(0).max(10_000_000).optional(),
+});
+
+// 재고 입고 (지출 기준, 여러 품목 가능)
+export const stockInLinesSchema = z.array(z.object({
+  item_id: uuidSchema,
+  quantity: z.number().int().min(1).max(100_000),
+  unit_cost: z.number().int().min(0).max(10_000_000),
+})).min(1, '입고할 품목을 1개 이상 입력해주세요').max(30);
+
+// 매출별 재료 출고
+export const stockOutLinesSchema = z.array(z.object({
+  item_id: uuidSchema,
+  quantity: z.number().int().min(1).max(100_000),
+})).min(1, '출고할 품목을 1개 이상 입력해주세요').max(30);
+
+// 상품 레시피 (빈 배열이면 레시피 삭제, 같은 재료 중복 불가)
+export const recipeLinesSchema = z.array(z.object({
+  item_id: uuidSchema,
+  quantity: z.number().int().min(1).max(1_000),
+})).max(30).refine(
+  (lines) => new Set(lines.map((line) => line.item_id)).size === lines.length,
+  '같은 재료가 두 번 들어갔습니다',
+);
+
+// 재고 출고/폐기/조정
+export const stockMovementSchema = z.object({
+  item_id: uuidSchema,
+  type: z.enum(['out', 'waste', 'adjust']),
+  quantity: z.number().int().min(-100_000).max(100_000).refine((q) => q !== 0, '수량을 입력해주세요'),
+  date: dateSchema,
+  sale_id: uuidSchema.nullable().optional(),
+  waste_reason: z.enum(['wilted', 'damaged', 'unsold', 'other']).nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+// 직원 권한 / 초대
+export const userRoleSchema = z.enum(['owner', 'manager', 'staff']);
+
+export const staffInviteSchema = z.object({
+  email: z.string().email('이메일 형식이 올바르지 않습니다').max(255).nullable().optional(),
+  role: userRoleSchema,
+});
+
+// 초대 코드로 가입 (비밀번호는 Supabase Auth 기본 최소 길이 이상)
+export const inviteSignupSchema = z.object({
+  code: z.string().min(1, '초대 코드를 입력해주세요').max(20),
+  email: z.string().email('이메일 형식이 올바르지 않습니다').max(255),
+  password: z.string().min(8, '비밀번호는 8자 이상이어야 합니다').max(72),
+});
+
+export const passwordSchema = z.string().min(8, '비밀번호는 8자 이상이어야 합니다').max(72);
+
 // 검색 쿼리
 export const searchQuerySchema = z.string().min(1).max(100);
 
@@ -124,6 +303,72 @@ export function validateImageFile(file: File): string | null {
 // 고객 등급 단독 검증
 export const customerGradeSchema = z.enum(['new', 'regular', 'vip', 'blacklist']);
 
+// 고객 자동 등급 규칙 (NULL은 그 기준을 쓰지 않음)
+export const customerGradeRulesSchema = z.object({
+  enabled: z.boolean(),
+  period_months: z.number().int().min(1).max(60),
+  regular_min_count: z.number().int().min(1).max(1000).nullable(),
+  regular_min_amount: z.number().int().min(1).max(1_000_000_000).nullable(),
+  vip_min_count: z.number().int().min(1).max(1000).nullable(),
+  vip_min_amount: z.number().int().min(1).max(1_000_000_000).nullable(),
+  recency_months: z.number().int().min(1).max(60).nullable(),
+  allow_downgrade: z.boolean(),
+}).refine(
+  (rules) => [rules.regular_min_count, rules.regular_min_amount, rules.vip_min_count, rules.vip_min_amount].some((v) => v != null),
+  '단골 또는 VIP 기준을 하나 이상 입력해주세요',
+);
+
+// 고객 기념일 (2월 29일은 평년에 28일로 알림)
+export const customerOccasionSchema = z.object({
+  type: z.enum(['birthday', 'anniversary', 'memorial', 'other']),
+  label: z.string().max(100).nullable().optional(),
+  month: z.number().int().min(1, '월을 입력해주세요').max(12, '없는 날짜입니다'),
+  day: z.number().int().min(1, '일을 입력해주세요').max(31, '없는 날짜입니다'),
+  year: z.number().int().min(1900).max(2100).nullable().optional(),
+  recipient_name: z.string().max(100).nullable().optional(),
+  relationship: z.string().max(50).nullable().optional(),
+  remind_days_before: z.number().int().min(0).max(60),
+  note: z.string().max(500).nullable().optional(),
+}).refine(
+  (o) => o.day <= new Date(Date.UTC(o.year ?? 2000, o.month, 0)).getUTCDate(),
+  { message: '없는 날짜입니다', path: ['day'] },
+);
+
+// 포인트 적립 설정 (적립률은 소수 첫째 자리까지)
+export const loyaltySettingsSchema = z.object({
+  enabled: z.boolean(),
+  earn_rate: z.number().min(0.1, '적립률은 0.1% 이상이어야 합니다').max(50, '적립률은 50% 이하여야 합니다')
+    .refine((v) => Math.abs(v * 10 - Math.round(v * 10)) < 1e-9, '적립률은 소수 첫째 자리까지 입력해주세요'),
+  expire_months: z.number().int().min(1).max(60).nullable(),
+});
+
+// 포인트 수동 조정 (차감은 음수)
+export const pointAdjustmentSchema = z.object({
+  points: z.number().int().refine((v) => v !== 0, '조정할 포인트를 입력해주세요').refine((v) => Math.abs(v) <= 10_000_000, '포인트가 너무 큽니다'),
+  reason: z.string().trim().min(1, '조정 사유를 입력해주세요').max(200),
+});
+
+// 선불권 발행 (번호는 normalizeVoucherCode로 정리한 뒤 검사)
+export const giftVoucherSchema = z.object({
+  code: z.string().regex(/^[A-Z0-9-]{4,20}$/, '선불권 번호는 영문·숫자·하이픈 4~20자로 입력해주세요'),
+  amount: z.number().int().min(1000, '금액은 1,000원 이상이어야 합니다').max(10_000_000),
+  payment_method: z.enum(['cash', 'card', 'transfer', 'naverpay', 'kakaopay']),
+  issued_date: dateSchema,
+  expires_at: dateSchema.nullable(),
+  customer_id: uuidSchema.nullable().optional(),
+  note: z.string().max(200).nullable().optional(),
+}).refine(
+  (v) => v.expires_at === null || v.expires_at >= v.issued_date,
+  { message: '유효기간은 판매일 이후여야 합니다', path: ['expires_at'] },
+);
+
+// 선불권 수정 (금액·번호·받은 방식은 판매 후 바꾸지 않음)
+export const giftVoucherUpdateSchema = z.object({
+  expires_at: dateSchema.nullable(),
+  customer_id: uuidSchema.nullable().optional(),
+  note: z.string().max(200).nullable().optional(),
+});
+
 // FormData에서 값을 안전하게 추출하는 헬퍼
 export function getFormString(formData: FormData, key: string): string {
   const val = formData.get(key);
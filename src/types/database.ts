@@ -45,13 +45,13 @@ export interface Sale {
   product_name: string;
   product_category: string;
   amount: number;
-  payment_method: PaymentMethod;
-  card_company?: string;
-  fee?: number;
-  expected_deposit?: number;
-  expected_deposit_date?: string;
-  deposit_status: DepositStatus;
-  deposited_at?: string;
+  payment_method: PaymentMethod | 'voucher'; // 첫 번째 결제 기준 (목록 표시용), voucher: 잔금 없이 선불권으로만 결제
+  refunded_amount?: number; // 환불 누계 (실매출 = amount - refunded_amount)
+  cogs?: number | null; // 추정 원가 (레시피가 없는 상품만 있으면 null)
+  deposit_amount?: number; // 예약 선금 반영액 (잔금 = 실매출 - deposit_amount)
+  points_used?: number; // 포인트 사용액 (amount는 품목 합계 - points_used)
+  voucher_id?: string | null;
+  voucher_amount?: number; // 선불권 사용액 (잔금 = 실매출 - deposit_amount - voucher_amount)
   reservation_channel: ReservationChannel;
   customer_name?: string;
   customer_phone?: string;
@@ -60,10 +60,71 @@ export interface Sale {
   has_review: boolean;
   photos?: string[];
   reservation_id?: string;
+  items?: SaleItem[];
+  refunds?: SaleRefund[];
+  payments?: SalePayment[];
+  deposits?: Pick<ReservationDeposit, 'amount' | 'payment_method'>[]; // 예약 선금 (getSales에서 함께 조회)
+  deleted_at?: string | null; // 휴지통으로 이동한 시각
+  deleted_links?: DeletedLinks | null;
   created_at: string;
   updated_at: string;
 }
 
+// 환불/부분 취소
+export type RefundType = 'full' | 'partial';
+
+export interface SaleRefund {
+  id: string;
+  sale_id: string;
+  refund_type: RefundType;
+  amount: number;
+  reason?: string | null;
+  refund_method: PaymentMethod | 'kakaopay';
+  refund_date: string;
+  created_at: string;
+}
+
+// 매출 품목 (한 매출에 여러 상품)
+// 품목이 없는 기존 매출은 product_category/amount 단일 품목으로 취급한다
+export interface SaleItem {
+  id: string;
+  sale_id: string;
+  product_category: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  amount: number;
+  cogs?: number | null;
+  sort_order: number;
+  created_at: string;
+}
+
+// 매출 결제 (한 매출을 여러 결제방식으로, 합계 = 잔금)
+// 카드 수수료/입금 정보는 결제별로 관리
+export interface SalePayment {
+  id: string;
+  sale_id: string;
+  payment_method: PaymentMethod | 'kakaopay';
+  amount: number;
+  refunded_amount: number; // 이 결제에서 환불한 금액
+  card_company?: string | null;
+  fee?: number | null;
+  expected_deposit?: number | null;
+  expected_deposit_date?: string | null;
+  deposit_status: DepositStatus;
+  deposited_at?: string | null;
+  deposited_amount?: number | null; // 실제 입금액 (정산내역 대조 시 기록)
+  sort_order: number;
+  created_at: string;
+}
+
+// 입금 대조용 카드 결제 (매출일·상품명 등 매출 정보를 펼쳐서)
+export interface CardPayment extends SalePayment {
+  date: string;
+  product_name: string;
+  customer_name?: string | null;
+}
+
 export interface Expense {
   id: string;
   date: string;
@@ -76,6 +137,7 @@ export interface Expense {
   card_company?: string;
   vendor?: string;
   note?: string;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -90,19 +152,110 @@ export interface Customer {
   total_purchase_amount: number;
   first_purchase_date?: string;
   last_purchase_date?: string;
+  point_balance?: number; // 포인트 잔액 (getCustomers에서 채움)
   note?: string;
+  previous_phones?: string[]; // 병합으로 합쳐진 고객의 연락처 (숫자만)
+  deleted_at?: string | null;
+  deleted_links?: DeletedLinks | null;
   created_at: string;
   updated_at: string;
 }
 
+// 고객 자동 등급 규칙 (최근 period_months개월 구매 횟수/금액, NULL은 그 기준을 쓰지 않음)
+export interface CustomerGradeRules {
+  enabled: boolean;
+  period_months: number;
+  regular_min_count: number | null;
+  regular_min_amount: number | null;
+  vip_min_count: number | null;
+  vip_min_amount: number | null;
+  recency_months: number | null;
+  allow_downgrade: boolean;
+}
+
+// 고객 기념일 (매년 month/day, year는 아는 경우만 - 몇 주년 계산)
+export type CustomerOccasionType = 'birthday' | 'anniversary' | 'memorial' | 'other';
+
+export interface CustomerOccasion {
+  id: string;
+  customer_id: string;
+  type: CustomerOccasionType;
+  label: string | null; // 기타일 때 이름 (예: 개업일)
+  month: number;
+  day: number;
+  year: number | null;
+  recipient_name: string | null; // 꽃을 받는 사람 (본인이면 비움)
+  relationship: string | null; // 고객과의 관계 (배우자, 어머니 등)
+  remind_days_before: number; // 며칠 전에 알림 (0이면 알리지 않음)
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// 포인트 적립 설정 (1포인트 = 1원)
+export interface LoyaltySettings {
+  enabled: boolean;
+  earn_rate: number; // 매출 금액의 % (소수 첫째 자리까지)
+  expire_months: number | null; // NULL이면 소멸 없음
+}
+
+export type PointTransactionType = 'earn' | 'redeem' | 'expire' | 'adjust';
+
+// 포인트 원장 (적립·조정은 +, 사용·소멸은 -)
+export interface CustomerPointTransaction {
+  id: string;
+  customer_id: string;
+  sale_id: string | null;
+  type: PointTransactionType;
+  points: number;
+  reason: string | null;
+  expires_at: string | null; // 적립분을 쓸 수 있는 마지막 날
+  created_by: string | null;
+  created_at: string;
+}
+
+// 선불권 (판매 때는 선수금, 매출에서 사용한 만큼 매출로 잡음)
+export interface GiftVoucher {
+  id: string;
+  code: string;
+  amount: number; // 액면가 (= 받은 돈)
+  payment_method: PaymentMethod | 'kakaopay'; // 판매 대금을 받은 방식
+  issued_date: string;
+  expires_at: string | null; // 사용할 수 있는 마지막 날 (NULL이면 기한 없음)
+  customer_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  customer?: { id: string; name: string } | null;
+  balance?: number; // 남은 금액 (조회 때 채움)
+  redemptions?: { id: string; date: string; voucher_amount: number }[]; // 사용한 매출 (휴지통 제외)
+}
+
+export type GiftVoucherStatus = 'active' | 'used' | 'expired';
+
+// 카드 입금 규칙: 영업일 D+N / 매출일 이후 특정 요일
+export type DepositRule = 'business_days' | 'next_weekday';
+
 export interface CardCompanySetting {
   id: string;
   name: string;
   fee_rate: number;
   deposit_days: number;
+  deposit_rule: DepositRule;
+  deposit_weekday: number | null; // next_weekday일 때 요일 (0=일 ~ 6=토)
   is_active: boolean;
 }
 
+// 카드 수수료율 이력 (effective_from부터 적용)
+export interface CardFeeRate {
+  id: string;
+  card_company_id: string;
+  fee_rate: number;
+  effective_from: string;
+  created_at: string;
+}
+
 // Sale Settings Types
 export interface SaleCategory {
   id: string;
@@ -110,6 +263,7 @@ export interface SaleCategory {
   label: string;
   color: string;
   sort_order: number;
+  workload?: number; // 예약 작업량 (기본 1)
   created_at: string;
 }
 
@@ -143,10 +297,20 @@ export interface PhotoCard {
   tags: string[];
   photos: PhotoFile[];
   sale_id: string | null;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// 휴지통 (soft delete)
+export type TrashEntityType = 'sale' | 'expense' | 'customer' | 'photo_card';
+
+// 삭제 시 끊은 연결 (복원하면 다시 연결)
+export interface DeletedLinks {
+  sale_ids?: string[]; // 고객 삭제 시 연결 해제된 매출
+  photo_card_ids?: string[]; // 매출 삭제 시 연결 해제된 사진 카드
+}
+
 // Reservation Types
 export type ReservationStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
 
@@ -162,10 +326,202 @@ export interface Reservation {
   sale_id: string | null;
   estimated_amount: number;
   reminder_at: string | null;
+  series_id?: string | null; // 반복 예약 규칙
+  product_category?: string | null; // 예약 상품 종류 (작업량 계산용)
+  external_uid?: string | null; // 가져온 외부 일정 UID
+  channel?: ReservationChannel | null; // 예약 경로 (가져오기로 만든 예약)
+  customer_id?: string | null;
+  deposits?: ReservationDeposit[]; // 선금 (getReservations에서 함께 조회)
+  created_at: string;
+  updated_at: string;
+}
+
+// 예약 수용량 설정 (NULL이면 제한 없음)
+export interface ReservationCapacity {
+  slot_minutes: number;
+  daily_limit: number | null;
+  daily_workload_limit: number | null;
+  slot_limit: number | null;
+  slot_workload_limit: number | null;
+}
+
+// 예약 가져오기 초안 (네이버 예약 CSV / 카카오톡 주문서 → 검토 후 승인)
+export type ReservationDraftSource = 'naver_booking' | 'kakaotalk';
+export type ReservationDraftStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReservationDraft {
+  id: string;
+  source: ReservationDraftSource;
+  external_ref: string | null; // 네이버 예약번호
+  raw_text: string;
+  date: string | null; // 읽지 못한 항목은 null
+  time: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  title: string | null;
+  description: string | null;
+  estimated_amount: number;
+  reservation_status: 'pending' | 'confirmed';
+  status: ReservationDraftStatus;
+  reservation_id: string | null;
+  customer_id: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+// 예약 선금 (매출 전환 시 sale_id 연결)
+export interface ReservationDeposit {
+  id: string;
+  reservation_id: string;
+  sale_id: string | null;
+  amount: number;
+  payment_method: PaymentMethod | 'kakaopay';
+  date: string;
+  note: string | null;
+  created_at: string;
+}
+
+// 반복 예약 (정기 배송/구독)
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface ReservationSeries {
+  id: string;
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date: string | null;
+  occurrence_count: number | null;
+  skip_dates: string[];
+  title: string;
+  customer_name: string;
+  customer_phone: string | null;
+  time: string | null;
+  description: string | null;
+  estimated_amount: number;
+  is_subscription: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// 재고 (꽃/소모품)
+export type InventoryItemKind = 'flower' | 'supply';
+export type InventoryMovementType = 'in' | 'out' | 'waste' | 'adjust';
+export type WasteReason = 'wilted' | 'damaged' | 'unsold' | 'other';
+
+export interface InventoryItem {
+  id: string;
+  name: string;
+  kind: InventoryItemKind;
+  unit: string;
+  shelf_life_days: number | null;
+  unit_cost: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// quantity는 부호 포함 (입고 +, 출고/폐기 -, 조정 ±)
+export interface InventoryMovement {
+  id: string;
+  item_id: string;
+  type: InventoryMovementType;
+  quantity: number;
+  unit_cost: number;
+  date: string;
+  expires_on: string | null;
+  expense_id: string | null;
+  sale_id: string | null;
+  waste_reason: WasteReason | null;
+  note: string | null;
+  created_at: string;
+  item?: Pick<InventoryItem, 'id' | 'name' | 'unit'>;
+}
+
+// 배송
+export type DeliveryStatus = 'preparing' | 'in_transit' | 'delivered' | 'failed';
+
+export interface Delivery {
+  id: string;
+  reservation_id: string | null;
+  sale_id: string | null;
+  date: string;
+  time_from: string | null;
+  time_to: string | null;
+  recipient_name: string;
+  recipient_phone: string | null;
+  address: string;
+  address_detail: string | null;
+  fee: number;
+  driver: string | null;
+  status: DeliveryStatus;
+  route_order: number;
+  note: string | null;
+  failure_reason: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+  reservation?: Pick<Reservation, 'id' | 'title' | 'customer_name'> | null;
+  sale?: Pick<Sale, 'id' | 'product_name' | 'customer_name'> | null;
+}
+
+// 상품 카테고리 1개에 들어가는 재료
+export interface SaleCategoryRecipe {
+  id: string;
+  category_value: string;
+  item_id: string;
+  quantity: number;
+  sort_order: number;
+  created_at: string;
+  item?: Pick<InventoryItem, 'id' | 'name' | 'unit' | 'unit_cost'>;
+}
+
+// 사용자 권한 (owner > manager > staff)
+export type UserRole = 'owner' | 'manager' | 'staff';
+
+// 직원 계정 (auth.users + user_roles)
+export interface StaffAccount {
+  id: string;
+  email: string | null;
+  role: UserRole;
+  created_at: string;
+  last_sign_in_at: string | null;
+  invited_at: string | null;
+  deactivated: boolean;
+  is_current_user: boolean;
+}
+
+// 직원 초대 코드 (코드 원문은 저장하지 않고 해시만 보관)
+export type StaffInvitationStatus = 'pending' | 'used' | 'expired' | 'revoked';
+
+export interface StaffInvitation {
+  id: string;
+  email: string | null;
+  role: UserRole;
+  expires_at: string;
+  used_at: string | null;
+  used_by: string | null;
+  revoked_at: string | null;
+  invited_by: string | null;
+  created_at: string;
+}
+
+// 변경 이력 (감사 로그)
+export type AuditEntityType = 'sale' | 'expense' | 'customer' | 'reservation' | 'gift_voucher' | 'user';
+export type AuditOperation = 'create' | 'update' | 'delete';
+// 필드별 변경 전/후 값 (생성은 before, 삭제는 after가 null)
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLog {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string; // withErrorLogging에 넘긴 액션 이름
+  entity_type: AuditEntityType;
+  entity_id: string;
+  operation: AuditOperation;
+  changes: AuditChanges;
+  created_at: string;
+}
+
 export const RESERVATION_STATUS = [
   { value: 'pending', label: '대기', color: '#F5A623' },
   { value: 'confirmed', label: '확정', color: '#5B8DEF' },
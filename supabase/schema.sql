@@ -12,6 +12,9 @@ CREATE TABLE customers (
   first_purchase_date TIMESTAMPTZ,
   last_purchase_date TIMESTAMPTZ,
   note TEXT,
+  previous_phones TEXT[] NOT NULL DEFAULT '{}', -- 병합으로 합쳐진 고객의 연락처 (숫자만, findOrCreateCustomer가 같이 찾음)
+  deleted_at TIMESTAMPTZ, -- 휴지통 (soft delete)
+  deleted_links JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -23,13 +26,13 @@ CREATE TABLE sales (
   product_name VARCHAR(200) NOT NULL,
   product_category VARCHAR(100),
   amount INTEGER NOT NULL,
-  payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay')),
-  card_company VARCHAR(50),
-  fee INTEGER,
-  expected_deposit INTEGER,
-  expected_deposit_date DATE,
-  deposit_status VARCHAR(20) DEFAULT 'not_applicable' CHECK (deposit_status IN ('pending', 'completed', 'not_applicable')),
-  deposited_at TIMESTAMPTZ,
+  payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay', 'voucher')), -- 첫 번째 결제 기준 (목록 표시용), voucher: 잔금 없이 선불권으로만 결제
+  refunded_amount INTEGER NOT NULL DEFAULT 0, -- 환불 누계 (실매출 = amount - refunded_amount)
+  cogs INTEGER, -- 추정 원가 (상품 레시피 기준, 레시피가 없으면 NULL)
+  deposit_amount INTEGER NOT NULL DEFAULT 0, -- 예약 선금 반영액 (결제방식으로 받은 잔금 = 실매출 - deposit_amount)
+  voucher_id UUID, -- 사용한 선불권 (FK는 아래 선불권 테이블에서 추가)
+  voucher_amount INTEGER NOT NULL DEFAULT 0 CHECK (voucher_amount >= 0), -- 선불권 사용액
+  points_used INTEGER NOT NULL DEFAULT 0 CHECK (points_used >= 0), -- 포인트 사용액 (amount는 품목 합계 - points_used)
   reservation_channel VARCHAR(20) DEFAULT 'other' CHECK (reservation_channel IN ('phone', 'kakaotalk', 'naver_booking', 'road', 'other')),
   customer_name VARCHAR(100),
   customer_phone VARCHAR(20),
@@ -37,6 +40,8 @@ CREATE TABLE sales (
   note TEXT,
   has_review BOOLEAN DEFAULT FALSE,
   photos TEXT[],
+  deleted_at TIMESTAMPTZ, -- 휴지통 (soft delete)
+  deleted_links JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -54,6 +59,7 @@ CREATE TABLE expenses (
   card_company VARCHAR(50),
   vendor VARCHAR(100),
   note TEXT,
+  deleted_at TIMESTAMPTZ, -- 휴지통 (soft delete)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -64,6 +70,9 @@ CREATE TABLE card_company_settings (
   name VARCHAR(50) NOT NULL UNIQUE,
   fee_rate DECIMAL(5,2) DEFAULT 2.0,
   deposit_days INTEGER DEFAULT 3,
+  -- 입금 규칙: business_days(영업일 D+deposit_days) / next_weekday(매출일 이후 deposit_weekday 요일, 0=일)
+  deposit_rule VARCHAR(20) DEFAULT 'business_days' CHECK (deposit_rule IN ('business_days', 'next_weekday')),
+  deposit_weekday SMALLINT CHECK (deposit_weekday BETWEEN 0 AND 6),
   is_active BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -77,6 +86,7 @@ CREATE TABLE sale_categories (
   label VARCHAR(100) NOT NULL,
   color VARCHAR(7) DEFAULT '#f43f5e',
   sort_order INTEGER DEFAULT 0,
+  workload DECIMAL(4,1) NOT NULL DEFAULT 1 CHECK (workload > 0), -- 예약 작업량 (기본 꽃다발 1 기준)
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -128,7 +138,6 @@ INSERT INTO payment_methods (value, label, color, sort_order) VALUES
 CREATE INDEX idx_sales_date ON sales(date);
 CREATE INDEX idx_sales_customer_id ON sales(customer_id);
 CREATE INDEX idx_sales_payment_method ON sales(payment_method);
-CREATE INDEX idx_sales_deposit_status ON sales(deposit_status);
 CREATE INDEX idx_expenses_date ON expenses(date);
 CREATE INDEX idx_expenses_category ON expenses(category);
 CREATE INDEX idx_customers_phone ON customers(phone);
@@ -189,6 +198,7 @@ CREATE TABLE photo_cards (
   tags TEXT[] DEFAULT '{}',
   photos JSONB DEFAULT '[]',
   sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  deleted_at TIMESTAMPTZ, -- 휴지통 (soft delete)
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -241,3 +251,956 @@ INSERT INTO photo_tags (name, color) VALUES
 -- 모든 사용자 삭제 허용
 -- CREATE POLICY "Allow public delete photo-cards" ON storage.objects 
 --   FOR DELETE USING (bucket_id = 'photo-cards');
+
+
+-- =============================================
+-- 매출 품목 (Sale Items) 테이블
+-- =============================================
+
+-- 한 매출에 여러 상품을 기록 (sales.amount = 품목 amount 합계)
+-- sales.product_category/product_name은 첫 번째 품목 기준으로 유지 (목록 표시용)
+CREATE TABLE sale_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  product_category VARCHAR(100) NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price INTEGER NOT NULL CHECK (unit_price >= 0),
+  discount INTEGER NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  amount INTEGER NOT NULL CHECK (amount >= 0),
+  cogs INTEGER, -- 품목 추정 원가 (레시피 1개 원가 × 수량)
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_sale_items_sale_id ON sale_items(sale_id);
+CREATE INDEX idx_sale_items_category ON sale_items(product_category);
+
+-- 기존 매출 이관 (품목이 없는 매출을 단일 품목으로 변환)
+-- INSERT INTO sale_items (sale_id, product_category, quantity, unit_price, discount, amount, sort_order)
+--   SELECT id, COALESCE(product_category, 'other'), 1, amount, 0, amount, 0 FROM sales
+--   WHERE id NOT IN (SELECT sale_id FROM sale_items);
+
+
+-- =============================================
+-- 카드 수수료율 이력 (Card Fee Rates) 테이블
+-- =============================================
+
+-- 매출 수수료는 매출일에 적용되던 수수료율로 계산 (effective_from <= 매출일 중 최신)
+-- card_company_settings.fee_rate는 오늘 적용 중인 값으로 동기화됨
+CREATE TABLE card_fee_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_company_id UUID NOT NULL REFERENCES card_company_settings(id) ON DELETE CASCADE,
+  fee_rate DECIMAL(5,2) NOT NULL CHECK (fee_rate >= 0 AND fee_rate <= 100),
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (card_company_id, effective_from)
+);
+
+CREATE INDEX idx_card_fee_rates_company ON card_fee_rates(card_company_id, effective_from DESC);
+
+-- 기존 수수료율을 최초 이력으로 등록
+-- INSERT INTO card_fee_rates (card_company_id, fee_rate, effective_from)
+--   SELECT id, fee_rate, '2000-01-01' FROM card_company_settings
+--   ON CONFLICT DO NOTHING;
+
+-- 기존 DB 마이그레이션 (카드사 입금 규칙)
+-- ALTER TABLE card_company_settings
+--   ADD COLUMN deposit_rule VARCHAR(20) DEFAULT 'business_days' CHECK (deposit_rule IN ('business_days', 'next_weekday')),
+--   ADD COLUMN deposit_weekday SMALLINT CHECK (deposit_weekday BETWEEN 0 AND 6);
+
+-- 기존 DB 마이그레이션 (카드 정산내역 대조, 매출 결제 이관보다 먼저 실행)
+-- ALTER TABLE sales ADD COLUMN deposited_amount INTEGER;
+
+
+-- =============================================
+-- 매출 환불 (Sale Refunds) 테이블
+-- =============================================
+
+-- 전액 환불/부분 취소 이력 (매출은 삭제하지 않고 sales.refunded_amount에 누계 반영)
+CREATE TABLE sale_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  refund_type VARCHAR(10) NOT NULL CHECK (refund_type IN ('full', 'partial')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  refund_method VARCHAR(20) NOT NULL CHECK (refund_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay')),
+  refund_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_sale_refunds_sale_id ON sale_refunds(sale_id);
+
+-- 기존 DB 마이그레이션
+-- ALTER TABLE sales ADD COLUMN refunded_amount INTEGER NOT NULL DEFAULT 0;
+
+-- 고객별 구매 통계 (환불 반영 실매출 기준, 전액 환불된 매출은 구매 횟수에서 제외)
+CREATE OR REPLACE FUNCTION get_customer_stats()
+RETURNS TABLE (
+  customer_id UUID,
+  purchase_count BIGINT,
+  purchase_total BIGINT,
+  first_purchase DATE,
+  last_purchase DATE
+) AS $$
+  SELECT
+    customer_id,
+    COUNT(*) AS purchase_count,
+    SUM(amount - refunded_amount) AS purchase_total,
+    MIN(date) AS first_purchase,
+    MAX(date) AS last_purchase
+  FROM sales
+  WHERE customer_id IS NOT NULL AND amount > refunded_amount AND deleted_at IS NULL
+  GROUP BY customer_id;
+$$ LANGUAGE sql STABLE;
+
+
+-- =============================================
+-- 변경 이력 (Audit Logs) 테이블
+-- =============================================
+
+-- 매출/지출/고객/예약/선불권의 등록·수정·삭제 기록 (Server Action에서 저장)
+-- action: withErrorLogging에 넘긴 액션 이름, changes: { 필드: { before, after } }
+-- 대상이 삭제돼도 이력은 남도록 FK를 두지 않음
+CREATE TABLE audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID,
+  actor_email VARCHAR(255),
+  action VARCHAR(100) NOT NULL,
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('sale', 'expense', 'customer', 'reservation', 'gift_voucher', 'user')),
+  entity_id UUID NOT NULL,
+  operation VARCHAR(10) NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+  changes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_logs_entity ON audit_logs(entity_type, entity_id, created_at DESC);
+CREATE INDEX idx_audit_logs_created_at ON audit_logs(created_at DESC);
+CREATE INDEX idx_audit_logs_action ON audit_logs(action);
+
+-- 추가·조회만 허용 (수정·삭제 정책 없음). 로그인 사용자는 본인 이름으로만 기록, 자동 작업(cron)은 service role로
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated can insert own audit logs" ON audit_logs
+  FOR INSERT TO authenticated WITH CHECK (actor_id = auth.uid());
+CREATE POLICY "Authenticated can read audit logs" ON audit_logs
+  FOR SELECT TO authenticated USING (true);
+
+
+-- =============================================
+-- 휴지통 (Soft Delete)
+-- =============================================
+
+-- 매출/지출/고객/사진 카드는 삭제 시 deleted_at만 기록하고 목록·통계에서 제외
+-- 삭제 때 끊은 연결(고객 → 매출 sale_ids, 매출 → 사진 카드 photo_card_ids)은 deleted_links에 남겨 복원 시 다시 연결
+-- 보관 기간이 지나면 /api/cron/purge-trash가 행과 Storage 파일을 영구 삭제
+CREATE INDEX idx_sales_deleted_at ON sales(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_expenses_deleted_at ON expenses(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_customers_deleted_at ON customers(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_photo_cards_deleted_at ON photo_cards(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- 기존 DB 마이그레이션 (get_customer_stats도 위 정의로 다시 생성)
+-- ALTER TABLE sales ADD COLUMN deleted_at TIMESTAMPTZ, ADD COLUMN deleted_links JSONB;
+-- ALTER TABLE expenses ADD COLUMN deleted_at TIMESTAMPTZ;
+-- ALTER TABLE customers ADD COLUMN deleted_at TIMESTAMPTZ, ADD COLUMN deleted_links JSONB;
+-- ALTER TABLE photo_cards ADD COLUMN deleted_at TIMESTAMPTZ;
+
+
+-- =============================================
+-- 재고 (Inventory) 테이블
+-- =============================================
+
+-- 꽃/소모품 품목. unit_cost는 마지막 입고 단가 (폐기 손실 계산에 사용)
+CREATE TABLE inventory_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  kind VARCHAR(10) NOT NULL DEFAULT 'flower' CHECK (kind IN ('flower', 'supply')),
+  unit VARCHAR(10) NOT NULL DEFAULT '송이',
+  shelf_life_days INTEGER CHECK (shelf_life_days IS NULL OR shelf_life_days > 0),
+  unit_cost INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 입고(+)/출고(-)/폐기(-)/조정(±) 기록. 현재 재고 = quantity 합계
+-- 입고는 지출(flower_purchase, supplies)에서, 출고는 매출 단위로 기록
+CREATE TABLE inventory_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('in', 'out', 'waste', 'adjust')),
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  unit_cost INTEGER NOT NULL DEFAULT 0,
+  date DATE NOT NULL,
+  expires_on DATE,
+  expense_id UUID REFERENCES expenses(id) ON DELETE SET NULL,
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  waste_reason VARCHAR(20) CHECK (waste_reason IN ('wilted', 'damaged', 'unsold', 'other')),
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_inventory_movements_item ON inventory_movements(item_id, date);
+CREATE INDEX idx_inventory_movements_date ON inventory_movements(date);
+CREATE INDEX idx_inventory_movements_sale ON inventory_movements(sale_id) WHERE sale_id IS NOT NULL;
+-- 지출 1건당 품목별 입고는 한 번만
+CREATE UNIQUE INDEX idx_inventory_movements_expense ON inventory_movements(expense_id, item_id) WHERE type = 'in';
+
+-- 품목별 현재 재고 (입출고 합계)
+-- 입출고 이력 전체를 앱으로 가져오면 PostgREST 1000행 제한에 걸리므로 DB에서 합산
+CREATE OR REPLACE FUNCTION get_inventory_quantities()
+RETURNS TABLE (
+  item_id UUID,
+  quantity BIGINT
+) AS $$
+  SELECT item_id, SUM(quantity) AS quantity
+  FROM inventory_movements
+  GROUP BY item_id;
+$$ LANGUAGE sql STABLE;
+
+-- 품목·유통기한별 남은 입고 수량
+-- 출고·폐기는 그 시점에 남은 lot 중 유통기한이 빠른 것부터 차감 (src/lib/inventory.ts getStockLots와 같은 규칙)
+CREATE OR REPLACE FUNCTION get_inventory_stock_lots()
+RETURNS TABLE (
+  item_id UUID,
+  expires_on DATE,
+  remaining BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  m RECORD;
+  l RECORD;
+  to_consume INTEGER;
+  used INTEGER;
+BEGIN
+  CREATE TEMP TABLE IF NOT EXISTS stock_lots (
+    movement_id UUID,
+    item_id UUID,
+    date DATE,
+    expires_on DATE,
+    remaining INTEGER
+  ) ON COMMIT DROP;
+  TRUNCATE stock_lots;
+
+  FOR m IN SELECT id, item_id, quantity, date, expires_on FROM inventory_movements ORDER BY date, created_at LOOP
+    IF m.quantity > 0 THEN
+      INSERT INTO stock_lots VALUES (m.id, m.item_id, m.date, m.expires_on, m.quantity);
+    ELSE
+      to_consume := -m.quantity;
+      FOR l IN
+        SELECT movement_id, remaining FROM stock_lots
+        WHERE item_id = m.item_id AND remaining > 0
+        ORDER BY expires_on NULLS LAST, date
+      LOOP
+        EXIT WHEN to_consume <= 0;
+        used := LEAST(l.remaining, to_consume);
+        UPDATE stock_lots SET remaining = remaining - used WHERE movement_id = l.movement_id;
+        to_consume := to_consume - used;
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY
+    SELECT item_id, expires_on, SUM(remaining)::BIGINT
+    FROM stock_lots
+    WHERE remaining > 0
+    GROUP BY item_id, expires_on;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 상품 레시피 (Sale Category Recipes) 테이블
+-- =============================================
+
+-- 상품 카테고리 1개를 만드는 데 드는 재료 (꽃 줄기, 포장지, 리본 등)
+-- 매출 저장 시 레시피 × 재료 최근 입고 단가로 sales.cogs / sale_items.cogs를 계산
+CREATE TABLE sale_category_recipes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_value VARCHAR(100) NOT NULL REFERENCES sale_categories(value) ON UPDATE CASCADE ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (category_value, item_id)
+);
+
+-- 기존 DB 마이그레이션
+-- ALTER TABLE sales ADD COLUMN cogs INTEGER;
+-- ALTER TABLE sale_items ADD COLUMN cogs INTEGER;
+
+-- =============================================
+-- 배송 (Deliveries) 테이블
+-- =============================================
+
+-- 예약 또는 매출에 연결된 배송 건 (예약을 매출로 전환하면 sale_id도 채움)
+-- 상태: preparing(준비중) → in_transit(배송중) → delivered(완료) / failed(실패, 다시 준비중으로)
+-- route_order: 날짜별 경로표 순서 (작을수록 먼저)
+CREATE TABLE deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL, -- 매출만 있는 배송은 매출을 영구 삭제할 때 먼저 지움 (purge-trash)
+  date DATE NOT NULL,
+  time_from TIME,
+  time_to TIME,
+  recipient_name VARCHAR(100) NOT NULL,
+  recipient_phone VARCHAR(20),
+  address TEXT NOT NULL,
+  address_detail VARCHAR(200),
+  fee INTEGER NOT NULL DEFAULT 0 CHECK (fee >= 0),
+  driver VARCHAR(50),
+  status VARCHAR(20) NOT NULL DEFAULT 'preparing' CHECK (status IN ('preparing', 'in_transit', 'delivered', 'failed')),
+  route_order INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  failure_reason VARCHAR(200),
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (reservation_id IS NOT NULL OR sale_id IS NOT NULL),
+  CHECK (time_from IS NULL OR time_to IS NULL OR time_from <= time_to)
+);
+
+CREATE INDEX idx_deliveries_date ON deliveries(date, route_order);
+CREATE INDEX idx_deliveries_reservation ON deliveries(reservation_id) WHERE reservation_id IS NOT NULL;
+CREATE INDEX idx_deliveries_sale ON deliveries(sale_id) WHERE sale_id IS NOT NULL;
+
+-- 기존 DB 마이그레이션 (매출을 영구 삭제해도 예약에 연결된 배송은 남김)
+-- ALTER TABLE deliveries DROP CONSTRAINT deliveries_sale_id_fkey,
+--   ADD CONSTRAINT deliveries_sale_id_fkey FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE SET NULL;
+
+-- =============================================
+-- 반복 예약 (Reservation Series) 테이블
+-- =============================================
+
+-- 매주/격주/매월 반복되는 예약 규칙 (사무실 정기 배송, 꽃 구독)
+-- 등록 시 규칙대로 reservations 행을 미리 만들고 series_id로 묶음
+-- end_date 또는 occurrence_count 중 하나로 끝을 정함, skip_dates는 건너뛸 날짜
+-- "이후 모두" 규칙 변경 시 기존 규칙은 전날로 끝내고 새 규칙을 만듦 (split_reservation_series)
+CREATE TABLE reservation_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count > 0),
+  skip_dates DATE[] NOT NULL DEFAULT '{}',
+  title VARCHAR(255) NOT NULL,
+  customer_name VARCHAR(100) NOT NULL,
+  customer_phone VARCHAR(20),
+  time TIME,
+  description TEXT,
+  estimated_amount INTEGER NOT NULL DEFAULT 0,
+  is_subscription BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date IS NOT NULL OR occurrence_count IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- 기존 DB 마이그레이션 (reservations에 반복 규칙 연결, 규칙을 지워도 예약은 남김)
+-- ALTER TABLE reservations ADD COLUMN series_id UUID REFERENCES reservation_series(id) ON DELETE SET NULL;
+-- CREATE INDEX idx_reservations_series ON reservations(series_id, date) WHERE series_id IS NOT NULL;
+
+-- "이 회차부터" 삭제/규칙 변경 (한 트랜잭션, 중간에 실패하면 모두 취소)
+-- p_from 이후 매출 전환·완료 전 회차를 지우고 기존 규칙을 p_end_date로 끝냄 (선금을 받은 회차는 남김)
+-- p_end_date가 NULL(첫 회차부터)이거나 남은 회차가 없으면 규칙을 지움 (남은 회차는 series_id가 NULL이 되어 단독 예약으로)
+-- p_series가 있으면 새 규칙과 p_dates 날짜의 회차를 만듦. 반환: { removed, series, reservations }
+CREATE OR REPLACE FUNCTION split_reservation_series(
+  p_series_id UUID,
+  p_from DATE,
+  p_end_date DATE,
+  p_series JSONB DEFAULT NULL,
+  p_dates DATE[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_removed JSONB;
+  v_series reservation_series;
+  v_created JSONB := '[]';
+BEGIN
+  PERFORM 1 FROM reservation_series WHERE id = p_series_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'reservation series % not found', p_series_id USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM reservations
+    WHERE series_id = p_series_id AND date >= p_from AND sale_id IS NULL AND status <> 'completed'
+      AND NOT EXISTS (SELECT 1 FROM reservation_deposits d WHERE d.reservation_id = reservations.id)
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(removed)), '[]') INTO v_removed FROM removed;
+
+  IF p_end_date IS NULL OR NOT EXISTS (SELECT 1 FROM reservations WHERE series_id = p_series_id) THEN
+    DELETE FROM reservation_series WHERE id = p_series_id;
+  ELSE
+    UPDATE reservation_series
+    SET end_date = p_end_date, occurrence_count = NULL, updated_at = NOW()
+    WHERE id = p_series_id;
+  END IF;
+
+  IF p_series IS NOT NULL THEN
+    INSERT INTO reservation_series (frequency, start_date, end_date, occurrence_count, skip_dates,
+      title, customer_name, customer_phone, time, description, estimated_amount, is_subscription)
+    SELECT s.frequency, s.start_date, s.end_date, s.occurrence_count, COALESCE(s.skip_dates, '{}'),
+      s.title, s.customer_name, s.customer_phone, s.time, s.description, COALESCE(s.estimated_amount, 0), COALESCE(s.is_subscription, false)
+    FROM jsonb_populate_record(NULL::reservation_series, p_series) AS s
+    RETURNING * INTO v_series;
+
+    WITH created AS (
+      INSERT INTO reservations (date, time, customer_name, customer_phone, title, description, estimated_amount, status, series_id)
+      SELECT d, v_series.time, v_series.customer_name, v_series.customer_phone, v_series.title,
+        v_series.description, v_series.estimated_amount, 'pending', v_series.id
+      FROM unnest(p_dates) AS d
+      RETURNING *
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(created) ORDER BY created.date), '[]') INTO v_created FROM created;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'removed', v_removed,
+    'series', CASE WHEN p_series IS NULL THEN NULL ELSE to_jsonb(v_series) END,
+    'reservations', v_created
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 예약 선금 (Reservation Deposits) 테이블
+-- =============================================
+
+-- 예약에 미리 받은 돈 (여러 번 가능). 받은 시점에는 선수금이고,
+-- 예약을 매출로 전환하면 sale_id를 채우고 sales.deposit_amount에 합계를 반영해 매출일에 매출로 잡음
+CREATE TABLE reservation_deposits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id UUID NOT NULL REFERENCES reservations(id) ON DELETE RESTRICT, -- 선금이 있는 예약은 지울 수 없음 (돌려줄 돈)
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay')),
+  date DATE NOT NULL,
+  note VARCHAR(200),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_reservation_deposits_reservation ON reservation_deposits(reservation_id);
+CREATE INDEX idx_reservation_deposits_sale ON reservation_deposits(sale_id) WHERE sale_id IS NOT NULL;
+
+-- 기존 DB 마이그레이션
+-- ALTER TABLE sales ADD COLUMN deposit_amount INTEGER NOT NULL DEFAULT 0;
+-- ALTER TABLE reservation_deposits DROP CONSTRAINT reservation_deposits_reservation_id_fkey,
+--   ADD CONSTRAINT reservation_deposits_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES reservations(id) ON DELETE RESTRICT;
+
+-- =============================================
+-- 예약 수용량 (Reservation Capacity) 테이블
+-- =============================================
+
+-- 하루/시간대별로 받을 수 있는 예약 한도 (한 행만 사용, NULL이면 제한 없음)
+-- 건수 한도와 작업량 한도(sale_categories.workload 합계)를 따로 둠
+-- 한도를 넘어도 저장은 막지 않고 경고만 띄움
+CREATE TABLE reservation_capacity (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  slot_minutes INTEGER NOT NULL DEFAULT 60 CHECK (slot_minutes IN (15, 30, 60, 120)),
+  daily_limit INTEGER CHECK (daily_limit > 0),
+  daily_workload_limit DECIMAL(6,1) CHECK (daily_workload_limit > 0),
+  slot_limit INTEGER CHECK (slot_limit > 0),
+  slot_workload_limit DECIMAL(6,1) CHECK (slot_workload_limit > 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO reservation_capacity (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- 기존 DB 마이그레이션 (reservations.product_category: 예약 상품 종류, 작업량 계산용·매출 전환 시 카테고리 기본값)
+-- ALTER TABLE sale_categories ADD COLUMN workload DECIMAL(4,1) NOT NULL DEFAULT 1 CHECK (workload > 0);
+-- ALTER TABLE reservations ADD COLUMN product_category VARCHAR(100);
+
+-- =============================================
+-- 캘린더 구독 (Calendar Feed Tokens) 테이블
+-- =============================================
+
+-- 휴대폰 캘린더용 ICS 구독 URL 토큰 (사용자당 1개, 재발급하면 이전 URL은 끊김)
+-- 원문은 발급 시 한 번만 보여주고 SHA-256 해시만 저장. /api/calendar/feed에서 service role로 확인
+CREATE TABLE calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 기존 DB 마이그레이션 (reservations.external_uid: ICS 가져오기로 만든 예약의 원본 일정 UID, 같은 파일을 다시 가져와도 중복 생성 안 함)
+-- ALTER TABLE reservations ADD COLUMN external_uid VARCHAR(255);
+-- CREATE UNIQUE INDEX idx_reservations_external_uid ON reservations(external_uid) WHERE external_uid IS NOT NULL;
+
+-- =============================================
+-- 예약 가져오기 검토 (Reservation Drafts) 테이블
+-- =============================================
+
+-- 네이버 예약 CSV / 카카오톡 주문서에서 읽은 예약 초안 (src/lib/reservation-import.ts)
+-- pending(검토 대기) → approved(예약 생성, reservation_id 채움) / rejected(거절)
+-- 파싱에 실패한 항목은 NULL로 두고 검토할 때 고쳐서 승인
+CREATE TABLE reservation_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source VARCHAR(20) NOT NULL CHECK (source IN ('naver_booking', 'kakaotalk')),
+  external_ref VARCHAR(100),
+  raw_text TEXT NOT NULL,
+  date DATE,
+  time TIME,
+  customer_name VARCHAR(100),
+  customer_phone VARCHAR(20),
+  title VARCHAR(255),
+  description TEXT,
+  estimated_amount INTEGER NOT NULL DEFAULT 0 CHECK (estimated_amount >= 0),
+  reservation_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (reservation_status IN ('pending', 'confirmed')),
+  status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_reservation_drafts_status ON reservation_drafts(status, created_at);
+-- 같은 네이버 예약번호는 검토 대기/승인 중 하나만 (거절한 건은 다시 가져올 수 있음)
+CREATE UNIQUE INDEX idx_reservation_drafts_external_ref ON reservation_drafts(source, external_ref)
+  WHERE external_ref IS NOT NULL AND status <> 'rejected';
+
+-- 기존 DB 마이그레이션 (reservations에 예약 경로(매출 전환 시 reservation_channel 기본값)와 가져오기 때 연결한 고객)
+-- ALTER TABLE reservations
+--   ADD COLUMN channel VARCHAR(20) CHECK (channel IN ('phone', 'kakaotalk', 'naver_booking', 'road', 'other')),
+--   ADD COLUMN customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+-- =============================================
+-- 중복 고객 제외 (Customer Duplicate Exclusions) 테이블
+-- =============================================
+
+-- 중복 후보로 잡혔지만 "다른 사람"으로 표시한 고객 쌍 (customer_a < customer_b로 한 번만 저장)
+-- 병합하면 합쳐진 고객은 삭제되고 이 행도 같이 지워짐 (연락처는 남길 고객의 previous_phones로)
+CREATE TABLE customer_duplicate_exclusions (
+  customer_a UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  customer_b UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (customer_a, customer_b),
+  CHECK (customer_a < customer_b)
+);
+
+CREATE INDEX idx_customers_previous_phones ON customers USING GIN (previous_phones);
+
+-- 기존 DB 마이그레이션
+-- ALTER TABLE customers ADD COLUMN previous_phones TEXT[] NOT NULL DEFAULT '{}';
+-- CREATE INDEX idx_customers_previous_phones ON customers USING GIN (previous_phones);
+
+-- 중복 고객 병합 (한 트랜잭션, 중간에 실패하면 모두 취소. src/lib/actions/customer-merge.ts)
+-- 합쳐질 고객의 매출(휴지통 포함)·예약·가져온 예약 초안·기념일·포인트 내역·선불권을 남길 고객으로 옮기고
+-- 남길 고객의 메모/등급/성별/이전 연락처를 p_survivor 값으로 바꾼 뒤 합쳐질 고객을 삭제
+-- 반환: 옮긴 매출·예약의 전후 행과 바뀐 남길 고객 (변경 이력용)
+CREATE OR REPLACE FUNCTION merge_customers(p_survivor_id UUID, p_merged_ids UUID[], p_survivor JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_sales_before JSONB;
+  v_sales_after JSONB;
+  v_reservations_before JSONB;
+  v_reservations_after JSONB;
+  v_survivor customers;
+BEGIN
+  PERFORM 1 FROM customers WHERE id = p_survivor_id OR id = ANY(p_merged_ids) FOR UPDATE;
+  IF (SELECT COUNT(*) FROM customers WHERE (id = p_survivor_id OR id = ANY(p_merged_ids)) AND deleted_at IS NULL)
+    <> cardinality(p_merged_ids) + 1 THEN
+    RAISE EXCEPTION 'customers to merge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]') INTO v_sales_before FROM sales s WHERE s.customer_id = ANY(p_merged_ids);
+  WITH moved AS (
+    UPDATE sales SET customer_id = p_survivor_id WHERE customer_id = ANY(p_merged_ids) RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]') INTO v_sales_after FROM moved;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(r)), '[]') INTO v_reservations_before FROM reservations r WHERE r.customer_id = ANY(p_merged_ids);
+  WITH moved AS (
+    UPDATE reservations SET customer_id = p_survivor_id WHERE customer_id = ANY(p_merged_ids) RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]') INTO v_reservations_after FROM moved;
+
+  UPDATE reservation_drafts SET customer_id = p_survivor_id WHERE customer_id = ANY(p_merged_ids);
+  UPDATE customer_occasions SET customer_id = p_survivor_id WHERE customer_id = ANY(p_merged_ids);
+  UPDATE customer_point_transactions SET customer_id = p_survivor_id WHERE customer_id = ANY(p_merged_ids);
+  UPDATE gift_vouchers SET customer_id = p_survivor_id WHERE customer_id = ANY(p_merged_ids);
+
+  UPDATE customers SET
+    note = p_survivor->>'note',
+    grade = p_survivor->>'grade',
+    gender = p_survivor->>'gender',
+    previous_phones = ARRAY(SELECT jsonb_array_elements_text(p_survivor->'previous_phones'))
+  WHERE id = p_survivor_id
+  RETURNING * INTO v_survivor;
+
+  DELETE FROM customers WHERE id = ANY(p_merged_ids);
+
+  RETURN jsonb_build_object(
+    'sales_before', v_sales_before,
+    'sales_after', v_sales_after,
+    'reservations_before', v_reservations_before,
+    'reservations_after', v_reservations_after,
+    'survivor', to_jsonb(v_survivor)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 고객 자동 등급 (Customer Grade Rules) 테이블
+-- =============================================
+
+-- 최근 period_months개월 구매 횟수/금액으로 단골·VIP를 정함 (한 행만 사용)
+-- 횟수·금액 중 하나만 채워도 해당 등급, NULL은 그 기준을 쓰지 않음
+-- recency_months: 마지막 구매가 이 기간 안이어야 단골·VIP 유지 (NULL이면 보지 않음)
+-- enabled면 /api/cron/customer-grades가 매일 다시 계산. 블랙리스트는 건드리지 않고, 바뀐 등급은 audit_logs에 남김
+CREATE TABLE customer_grade_rules (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  period_months INTEGER NOT NULL DEFAULT 12 CHECK (period_months BETWEEN 1 AND 60),
+  regular_min_count INTEGER CHECK (regular_min_count > 0),
+  regular_min_amount INTEGER CHECK (regular_min_amount > 0),
+  vip_min_count INTEGER CHECK (vip_min_count > 0),
+  vip_min_amount INTEGER CHECK (vip_min_amount > 0),
+  recency_months INTEGER CHECK (recency_months BETWEEN 1 AND 60),
+  allow_downgrade BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE면 올리기만 함
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO customer_grade_rules (id, regular_min_count, vip_min_count, vip_min_amount)
+VALUES (1, 3, 10, 1000000)
+ON CONFLICT (id) DO NOTHING;
+
+-- since 이후 고객별 구매 통계 (get_customer_stats와 같은 기준)
+CREATE OR REPLACE FUNCTION get_customer_stats_since(since DATE)
+RETURNS TABLE (
+  customer_id UUID,
+  purchase_count BIGINT,
+  purchase_total BIGINT,
+  first_purchase DATE,
+  last_purchase DATE
+) AS $$
+  SELECT
+    customer_id,
+    COUNT(*) AS purchase_count,
+    SUM(amount - refunded_amount) AS purchase_total,
+    MIN(date) AS first_purchase,
+    MAX(date) AS last_purchase
+  FROM sales
+  WHERE customer_id IS NOT NULL AND amount > refunded_amount AND deleted_at IS NULL AND date >= since
+  GROUP BY customer_id;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- 고객 기념일 (Customer Occasions) 테이블
+-- =============================================
+
+-- 생일/기념일/기일 (매년 month/day, year는 아는 경우만). 2월 29일은 평년에 28일로 계산
+-- remind_days_before일 전에 /api/cron/occasion-reminders가 푸시 알림 (0이면 알리지 않음)
+CREATE TABLE customer_occasions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('birthday', 'anniversary', 'memorial', 'other')),
+  label VARCHAR(100),
+  month SMALLINT NOT NULL CHECK (month BETWEEN 1 AND 12),
+  day SMALLINT NOT NULL CHECK (day BETWEEN 1 AND 31),
+  year SMALLINT CHECK (year BETWEEN 1900 AND 2100),
+  recipient_name VARCHAR(100),
+  relationship VARCHAR(50),
+  remind_days_before INTEGER NOT NULL DEFAULT 3 CHECK (remind_days_before BETWEEN 0 AND 60),
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_occasions_customer_id ON customer_occasions(customer_id);
+CREATE INDEX idx_customer_occasions_month_day ON customer_occasions(month, day);
+
+CREATE TRIGGER update_customer_occasions_updated_at BEFORE UPDATE ON customer_occasions FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- 포인트 적립 (Loyalty Points) 테이블
+-- =============================================
+
+-- 적립 설정 (한 행만 사용). 1포인트 = 1원, earn_rate: 매출 금액(amount, 포인트 사용분 제외)의 몇 %를 적립할지
+-- expire_months: 적립 후 이 기간이 지나면 /api/cron/point-expiry가 소멸 처리 (NULL이면 소멸 없음)
+CREATE TABLE loyalty_settings (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  earn_rate NUMERIC(4,1) NOT NULL DEFAULT 1 CHECK (earn_rate > 0 AND earn_rate <= 50),
+  expire_months INTEGER CHECK (expire_months BETWEEN 1 AND 60),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO loyalty_settings (id, expire_months)
+VALUES (1, 12)
+ON CONFLICT (id) DO NOTHING;
+
+-- 포인트 원장 (잔액 = points 합계). 적립(+)은 expires_at까지 쓸 수 있고, 사용·소멸(-)은 먼저 소멸될 적립분부터 차감
+-- 매출에 딸린 적립/사용은 매출이 휴지통에 있는 동안 잔액에서 빠지고, 영구 삭제되면 함께 삭제
+-- 환불해도 적립/사용 포인트는 되돌리지 않음 (필요하면 adjust로 수동 조정)
+CREATE TABLE customer_point_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES sales(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('earn', 'redeem', 'expire', 'adjust')),
+  points INTEGER NOT NULL CHECK (points <> 0),
+  reason TEXT,
+  expires_at DATE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_point_transactions_customer_id ON customer_point_transactions(customer_id, created_at);
+CREATE INDEX idx_customer_point_transactions_sale_id ON customer_point_transactions(sale_id);
+
+-- 고객별 포인트 잔액 (휴지통 매출의 적립/사용 제외, ids가 NULL이면 전체 고객)
+CREATE OR REPLACE FUNCTION get_customer_point_balances(ids UUID[] DEFAULT NULL)
+RETURNS TABLE (
+  customer_id UUID,
+  balance BIGINT
+) AS $$
+  SELECT t.customer_id, SUM(t.points) AS balance
+  FROM customer_point_transactions t
+  LEFT JOIN sales s ON s.id = t.sale_id
+  WHERE s.deleted_at IS NULL AND (ids IS NULL OR t.customer_id = ANY(ids))
+  GROUP BY t.customer_id;
+$$ LANGUAGE sql STABLE;
+
+-- 기존 DB 마이그레이션
+-- ALTER TABLE sales ADD COLUMN points_used INTEGER NOT NULL DEFAULT 0 CHECK (points_used >= 0);
+
+-- =============================================
+-- 선불권 (Gift Vouchers) 테이블
+-- =============================================
+
+-- 미리 받은 돈이라 판매할 때는 매출이 아니라 선수금. 매출에서 선불권으로 결제한 만큼 그 매출일에 매출로 잡음
+-- 잔액 = amount - 사용한 매출(휴지통 제외)의 voucher_amount 합계, expires_at이 지나면 사용 불가 (NULL이면 기한 없음)
+-- 판매 대금은 payment_method로 받은 돈으로만 기록 (카드 수수료/입금 대조는 하지 않음)
+CREATE TABLE gift_vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(20) NOT NULL UNIQUE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay')),
+  issued_date DATE NOT NULL,
+  expires_at DATE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL, -- 구매 고객
+  note VARCHAR(200),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (expires_at IS NULL OR expires_at >= issued_date)
+);
+
+CREATE INDEX idx_gift_vouchers_issued_date ON gift_vouchers(issued_date);
+CREATE INDEX idx_gift_vouchers_customer_id ON gift_vouchers(customer_id) WHERE customer_id IS NOT NULL;
+
+CREATE TRIGGER update_gift_vouchers_updated_at BEFORE UPDATE ON gift_vouchers FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- 매출에서 사용한 선불권 (결제방식으로 받은 잔금 = 실매출 - deposit_amount - voucher_amount)
+-- 사용 내역이 있는 선불권은 지울 수 없음
+ALTER TABLE sales ADD CONSTRAINT sales_voucher_id_fkey FOREIGN KEY (voucher_id) REFERENCES gift_vouchers(id) ON DELETE RESTRICT;
+CREATE INDEX idx_sales_voucher_id ON sales(voucher_id) WHERE voucher_id IS NOT NULL;
+
+-- 기존 DB 마이그레이션
+-- ALTER TABLE sales
+--   ADD COLUMN voucher_id UUID REFERENCES gift_vouchers(id) ON DELETE RESTRICT,
+--   ADD COLUMN voucher_amount INTEGER NOT NULL DEFAULT 0 CHECK (voucher_amount >= 0);
+-- CREATE INDEX idx_sales_voucher_id ON sales(voucher_id) WHERE voucher_id IS NOT NULL;
+-- ALTER TABLE sales DROP CONSTRAINT sales_payment_method_check;
+-- ALTER TABLE sales ADD CONSTRAINT sales_payment_method_check CHECK (payment_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay', 'voucher'));
+-- ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+-- ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check CHECK (entity_type IN ('sale', 'expense', 'customer', 'reservation', 'gift_voucher'));
+
+-- 매출 등록 (선불권·포인트 잔액 확인과 저장을 한 트랜잭션으로)
+-- 선불권 행과 고객 행을 잠가, 동시에 같은 선불권·포인트를 쓰는 매출이 잔액을 넘지 못하게 함
+-- p_sale에 있는 컬럼만 넣고(나머지는 기본값) 포인트 사용분은 원장에 redeem으로 남김. 잔액이 모자라면 P0001
+CREATE OR REPLACE FUNCTION create_sale_with_redemptions(p_sale JSONB, p_created_by UUID)
+RETURNS sales AS $$
+DECLARE
+  v_new sales := jsonb_populate_record(NULL::sales, p_sale);
+  v_sale sales;
+  v_columns TEXT;
+  v_balance BIGINT;
+BEGIN
+  IF COALESCE(v_new.voucher_amount, 0) > 0 THEN
+    PERFORM 1 FROM gift_vouchers WHERE id = v_new.voucher_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '선불권을 찾을 수 없습니다' USING ERRCODE = 'P0001';
+    END IF;
+    SELECT g.amount - COALESCE(SUM(s.voucher_amount), 0) INTO v_balance
+    FROM gift_vouchers g
+    LEFT JOIN sales s ON s.voucher_id = g.id AND s.deleted_at IS NULL
+    WHERE g.id = v_new.voucher_id
+    GROUP BY g.amount;
+    IF v_new.voucher_amount > v_balance THEN
+      RAISE EXCEPTION '선불권 잔액(%원)보다 많이 사용할 수 없습니다', to_char(v_balance, 'FM999,999,999,990') USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF COALESCE(v_new.points_used, 0) > 0 THEN
+    PERFORM 1 FROM customers WHERE id = v_new.customer_id FOR UPDATE;
+    SELECT COALESCE(SUM(t.points), 0) INTO v_balance
+    FROM customer_point_transactions t
+    LEFT JOIN sales s ON s.id = t.sale_id
+    WHERE t.customer_id = v_new.customer_id AND s.deleted_at IS NULL;
+    IF v_new.points_used > v_balance THEN
+      RAISE EXCEPTION '보유 포인트(%P)보다 많이 사용할 수 없습니다', to_char(v_balance, 'FM999,999,999,990') USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(p_sale) AS key;
+  EXECUTE format('INSERT INTO sales (%s) SELECT %s FROM jsonb_populate_record(NULL::sales, $1) RETURNING *', v_columns, v_columns)
+    INTO v_sale USING p_sale;
+
+  IF v_sale.points_used > 0 THEN
+    INSERT INTO customer_point_transactions (customer_id, sale_id, type, points, created_by)
+    VALUES (v_sale.customer_id, v_sale.id, 'redeem', -v_sale.points_used, p_created_by);
+  END IF;
+
+  RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 매출 결제 (Sale Payments) 테이블
+-- =============================================
+
+-- 한 매출을 여러 결제방식으로 나눠 받은 내역 (카드 30,000 + 현금 20,000 등)
+-- 결제 합계 = 잔금 (amount - deposit_amount - voucher_amount), 잔금이 없는 매출은 결제 행 없음
+-- 카드 수수료/입금예정/입금확인은 결제별로 관리하고, 환불은 refunded_amount로 결제마다 나눠 반영
+CREATE TABLE sale_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('cash', 'card', 'transfer', 'naverpay', 'kakaopay')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  refunded_amount INTEGER NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
+  card_company VARCHAR(50),
+  fee INTEGER,
+  expected_deposit INTEGER,
+  expected_deposit_date DATE,
+  deposit_status VARCHAR(20) NOT NULL DEFAULT 'not_applicable' CHECK (deposit_status IN ('pending', 'completed', 'not_applicable')),
+  deposited_at TIMESTAMPTZ,
+  deposited_amount INTEGER, -- 실제 입금액 (카드 정산내역 대조 시 기록)
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_sale_payments_sale_id ON sale_payments(sale_id);
+CREATE INDEX idx_sale_payments_deposit_status ON sale_payments(deposit_status) WHERE payment_method = 'card';
+
+-- 기존 DB 마이그레이션 (매출의 결제/카드 정산 정보를 결제 1건으로 옮긴 뒤 매출 컬럼 삭제)
+-- INSERT INTO sale_payments (sale_id, payment_method, amount, refunded_amount, card_company, fee, expected_deposit,
+--     expected_deposit_date, deposit_status, deposited_at, deposited_amount, sort_order)
+--   SELECT id, payment_method, amount - deposit_amount - voucher_amount,
+--     LEAST(refunded_amount, amount - deposit_amount - voucher_amount), card_company, fee, expected_deposit,
+--     expected_deposit_date, deposit_status, deposited_at, deposited_amount, 0
+--   FROM sales
+--   WHERE payment_method <> 'voucher' AND amount - deposit_amount - voucher_amount > 0
+--     AND id NOT IN (SELECT sale_id FROM sale_payments);
+-- DROP INDEX IF EXISTS idx_sales_deposit_status;
+-- ALTER TABLE sales DROP COLUMN card_company, DROP COLUMN fee, DROP COLUMN expected_deposit,
+--   DROP COLUMN expected_deposit_date, DROP COLUMN deposit_status, DROP COLUMN deposited_at, DROP COLUMN deposited_amount;
+
+-- 매출 수정 (헤더 + 품목 + 결제를 한 트랜잭션으로, 중간에 실패하면 모두 취소)
+-- p_updates에 있는 컬럼만 바꾸고, p_items/p_payments는 NULL이면 그대로, 있으면 통째로 바꾼다
+-- 결제별 환불/카드 입금 정보는 앱에서 다시 계산 (src/lib/actions/sales.ts syncSalePayments)
+CREATE OR REPLACE FUNCTION update_sale_with_lines(
+  p_sale_id UUID,
+  p_updates JSONB,
+  p_items JSONB DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS sales AS $$
+DECLARE
+  v_sale sales;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'sale % not found', p_sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  v_sale := jsonb_populate_record(v_sale, p_updates);
+  UPDATE sales SET
+    date = v_sale.date,
+    product_name = v_sale.product_name,
+    product_category = v_sale.product_category,
+    amount = v_sale.amount,
+    payment_method = v_sale.payment_method,
+    reservation_channel = v_sale.reservation_channel,
+    customer_name = v_sale.customer_name,
+    customer_phone = v_sale.customer_phone,
+    customer_id = v_sale.customer_id,
+    note = v_sale.note,
+    cogs = v_sale.cogs,
+    has_review = v_sale.has_review
+  WHERE id = p_sale_id
+  RETURNING * INTO v_sale;
+
+  IF p_items IS NOT NULL THEN
+    DELETE FROM sale_items WHERE sale_id = p_sale_id;
+    INSERT INTO sale_items (sale_id, product_category, quantity, unit_price, discount, amount, cogs, sort_order)
+    SELECT p_sale_id, i.product_category, i.quantity, i.unit_price, i.discount, i.amount, i.cogs, i.sort_order
+    FROM jsonb_to_recordset(p_items) AS i(
+      product_category VARCHAR, quantity INTEGER, unit_price INTEGER, discount INTEGER,
+      amount INTEGER, cogs INTEGER, sort_order INTEGER
+    );
+  END IF;
+
+  IF p_payments IS NOT NULL THEN
+    DELETE FROM sale_payments WHERE sale_id = p_sale_id;
+    INSERT INTO sale_payments (sale_id, payment_method, amount, card_company, sort_order)
+    SELECT p_sale_id, p.payment_method, p.amount, p.card_company, p.sort_order
+    FROM jsonb_to_recordset(p_payments) AS p(payment_method VARCHAR, amount INTEGER, card_company VARCHAR, sort_order INTEGER);
+  END IF;
+
+  RETURN v_sale;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- 사용자 권한 (User Roles) 테이블
+-- =============================================
+
+-- owner: 전체 (설정/수수료율/변경 이력), manager: 지출·입금대조·고객·통계·삭제, staff: 매출·예약 등록
+-- 행이 없는 사용자는 staff로 취급 (src/lib/auth-guard.ts)
+CREATE TABLE user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL DEFAULT 'staff' CHECK (role IN ('owner', 'manager', 'staff')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 본인 행 조회만 허용. 권한 변경은 service role 클라이언트(src/lib/actions/users.ts)로만
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can read own role" ON user_roles
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- 기존 DB 마이그레이션 (기존 계정은 모두 owner로 시작)
+-- INSERT INTO user_roles (user_id, role) SELECT id, 'owner' FROM auth.users ON CONFLICT DO NOTHING;
+
+-- 기존 DB 마이그레이션 (권한 변경/비활성화/비밀번호 재설정을 변경 이력에 남김, entity_id는 auth.users id)
+-- ALTER TABLE audit_logs DROP CONSTRAINT audit_logs_entity_type_check;
+-- ALTER TABLE audit_logs ADD CONSTRAINT audit_logs_entity_type_check CHECK (entity_type IN ('sale', 'expense', 'customer', 'reservation', 'gift_voucher', 'user'));
+
+
+-- =============================================
+-- 직원 초대 (Staff Invitations) 테이블
+-- =============================================
+
+-- 일회용 초대 코드. 원문은 발급 시 한 번만 보여주고 SHA-256 해시만 저장
+-- email이 있으면 해당 이메일로만 가입 가능
+CREATE TABLE staff_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code_hash VARCHAR(64) NOT NULL UNIQUE,
+  email VARCHAR(255),
+  role VARCHAR(10) NOT NULL DEFAULT 'staff' CHECK (role IN ('owner', 'manager', 'staff')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  used_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_staff_invitations_created_at ON staff_invitations(created_at DESC);
+
+-- 정책 없음: service role 클라이언트로만 읽고 쓴다
+ALTER TABLE staff_invitations ENABLE ROW LEVEL SECURITY;